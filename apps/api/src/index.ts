@@ -44,17 +44,41 @@ try {
 }
 
 // Import other routes
-let authRoutes, organizationsRoutes, usersRoutes, clientsRoutes;
+let authRoutes, organizationsRoutes, usersRoutes, clientsRoutes, productsRoutes, partnersRoutes, toursRoutes, proposalsRoutes, documentsRoutes, exchangeRatesRoutes, reportsRoutes, settlementsRoutes, agentsRoutes, experimentsRoutes, analyticsRoutes, conversationsRoutes;
 try {
   authRoutes = require('./routes/auth.routes').default;
   organizationsRoutes = require('./routes/organizations.routes').default;
   usersRoutes = require('./routes/users.routes').default;
   clientsRoutes = require('./routes/clients.routes').default;
+  productsRoutes = require('./routes/products.routes').default;
+  partnersRoutes = require('./routes/partners.routes').default;
+  toursRoutes = require('./routes/tours.routes').default;
+  proposalsRoutes = require('./routes/proposals.routes').default;
+  documentsRoutes = require('./routes/documents.routes').default;
+  exchangeRatesRoutes = require('./routes/exchange-rates.routes').default;
+  reportsRoutes = require('./routes/reports.routes').default;
+  settlementsRoutes = require('./routes/settlements.routes').default;
+  agentsRoutes = require('./routes/agents.routes').default;
+  experimentsRoutes = require('./routes/experiments.routes').default;
+  analyticsRoutes = require('./routes/analytics.routes').default;
+  conversationsRoutes = require('./routes/conversations.routes').default;
   
   app.use('/api/auth', authRoutes);
   app.use('/api/organizations', organizationsRoutes);
   app.use('/api/users', usersRoutes);
   app.use('/api/clients', clientsRoutes);
+  app.use('/api/products', productsRoutes);
+  app.use('/api/partners', partnersRoutes);
+  app.use('/api/tours', toursRoutes);
+  app.use('/api/proposals', proposalsRoutes);
+  app.use('/api/documents', documentsRoutes);
+  app.use('/api/exchange-rates', exchangeRatesRoutes);
+  app.use('/api/reports', reportsRoutes);
+  app.use('/api/settlements', settlementsRoutes);
+  app.use('/api/agents', agentsRoutes);
+  app.use('/api/experiments', experimentsRoutes);
+  app.use('/api/analytics', analyticsRoutes);
+  app.use('/api/conversations', conversationsRoutes);
 } catch (error: any) {
   console.error('❌ Failed to load routes:', error.message);
   console.error(error.stack);
@@ -73,6 +97,21 @@ try {
   process.exit(1);
 }
 
+// Start scheduled jobs (optional - the API works without them)
+let dialogueAnalysisJob: { stop(): void } | null = null;
+try {
+  dialogueAnalysisJob = require('./jobs/dialogue-analysis.job').startDialogueAnalysisJob();
+} catch (error: any) {
+  console.warn('⚠️  Dialogue analysis job disabled:', error.message);
+}
+
+let warmingJob: { stop(): void } | null = null;
+try {
+  warmingJob = require('./jobs/warming.job').startWarmingJob();
+} catch (error: any) {
+  console.warn('⚠️  Warming job disabled:', error.message);
+}
+
 // Handle errors
 if (server) {
   server.on('error', (error: NodeJS.ErrnoException) => {
@@ -100,6 +139,8 @@ if (server) {
 // Graceful shutdown
 process.on('SIGTERM', () => {
   console.log('SIGTERM signal received: closing HTTP server');
+  dialogueAnalysisJob?.stop();
+  warmingJob?.stop();
   if (server) {
     server.close(() => {
       console.log('HTTP server closed');
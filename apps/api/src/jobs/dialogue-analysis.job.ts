@@ -0,0 +1,51 @@
+/**
+ * Dialogue Analysis Job
+ *
+ * Runs the LLM dialogue analysis for every organization on a schedule.
+ * Enabled when an LLM provider is configured (see createLLMProviderRegistry);
+ * DIALOGUE_ANALYSIS_INTERVAL_HOURS (default 24, 0 disables) sets the
+ * interval and DIALOGUE_ANALYSIS_MODEL overrides the model. Calls count
+ * against the organization's monthly LLM budget. Last runs are stored per
+ * organization, so overdue organizations run at startup and each run
+ * happens on one API instance only.
+ */
+
+import { prisma } from '@soul-kg-crm/database';
+import {
+  createLLMProviderRegistry,
+  DialogueAnalyzer,
+  DialogueAnalysisScheduler,
+  LLMBudgetService,
+  UsageTrackingProvider,
+} from '@soul-kg-crm/agents';
+
+const DEFAULT_INTERVAL_HOURS = 24;
+
+/**
+ * Start the scheduled dialogue analysis
+ *
+ * @returns Running scheduler, or null if the job is disabled
+ */
+export function startDialogueAnalysisJob(): DialogueAnalysisScheduler | null {
+  const intervalHours = Number(process.env.DIALOGUE_ANALYSIS_INTERVAL_HOURS ?? DEFAULT_INTERVAL_HOURS);
+
+  if (!Number.isFinite(intervalHours) || intervalHours <= 0) {
+    return null;
+  }
+
+  const registry = createLLMProviderRegistry(process.env, new LLMBudgetService(prisma));
+  if (!registry) {
+    return null;
+  }
+
+  const analyzer = new DialogueAnalyzer(prisma, new UsageTrackingProvider(prisma, registry));
+  const scheduler = new DialogueAnalysisScheduler(prisma, analyzer, {
+    intervalMs: intervalHours * 60 * 60 * 1000,
+    model: process.env.DIALOGUE_ANALYSIS_MODEL || undefined,
+  });
+
+  scheduler.start();
+  console.log(`🧠 Dialogue analysis scheduled every ${intervalHours}h`);
+
+  return scheduler;
+}
@@ -0,0 +1,44 @@
+/**
+ * Warming Job
+ *
+ * Sends follow-ups to leads that stopped replying, for every organization
+ * whose follow-up policy (settings.followUps) is enabled. Enabled when an
+ * LLM provider is configured (see createLLMProviderRegistry);
+ * WARMING_INTERVAL_HOURS (default 6, 0 disables) sets the interval.
+ * Calls count against the organization's monthly LLM budget. Last runs
+ * are stored per organization, so overdue organizations run at startup
+ * and each run happens on one API instance only.
+ */
+
+import { prisma } from '@soul-kg-crm/database';
+import { WarmingScheduler } from '@soul-kg-crm/agents';
+import { createWarmingAgent } from '../utils/agents';
+
+const DEFAULT_INTERVAL_HOURS = 6;
+
+/**
+ * Start the scheduled follow-ups
+ *
+ * @returns Running scheduler, or null if the job is disabled
+ */
+export function startWarmingJob(): WarmingScheduler | null {
+  const intervalHours = Number(process.env.WARMING_INTERVAL_HOURS ?? DEFAULT_INTERVAL_HOURS);
+
+  if (!Number.isFinite(intervalHours) || intervalHours <= 0) {
+    return null;
+  }
+
+  const agent = createWarmingAgent();
+  if (!agent) {
+    return null;
+  }
+
+  const scheduler = new WarmingScheduler(prisma, agent, {
+    intervalMs: intervalHours * 60 * 60 * 1000,
+  });
+
+  scheduler.start();
+  console.log(`🔥 Lead follow-ups scheduled every ${intervalHours}h`);
+
+  return scheduler;
+}
@@ -0,0 +1,586 @@
+/**
+ * Agents Routes
+ *
+ * API endpoints for managing AI agent configurations (prompts and settings)
+ * with versioned history
+ */
+
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { prisma, Prisma } from '@soul-kg-crm/database';
+import { authenticateToken, requireRole } from '../middleware/auth.middleware';
+import {
+  configurationSelect,
+  ConfigurationVersionConflictError,
+  saveConfigurationVersion,
+  SelectedConfiguration,
+} from '../utils/agent-configuration';
+import { getPromptLoader } from '../utils/agents';
+
+const router = Router();
+
+// Agent type enum (must match Prisma schema)
+const AgentTypeEnum = z.enum([
+  'COMMUNICATION',
+  'QUALIFICATION',
+  'PRODUCT_SELECTION',
+  'STATUS_DETECTION',
+  'WARMING',
+  'SALES',
+  'SERVICE',
+  'FEEDBACK',
+]);
+
+// Validation schemas
+const agentSettingsSchema = z
+  .object({
+    model: z.string().trim().min(1).optional(),
+    temperature: z.number().min(0).max(2).optional(),
+    maxTokens: z.number().int().positive().optional(),
+    timeout: z.number().int().positive().optional(),
+    retryAttempts: z.number().int().min(0).max(10).optional(),
+    retryDelay: z.number().int().min(0).optional(),
+    // Provider fallback chain, most preferred first
+    providers: z.array(z.string().trim().min(1)).min(1).optional(),
+    // Model per provider name; `model` alone goes to the first provider only
+    models: z.record(z.string().trim().min(1)).optional(),
+  })
+  .passthrough();
+
+const createConfigurationSchema = z.object({
+  agentType: AgentTypeEnum,
+  name: z.string().trim().min(1, 'Configuration name is required').optional().default('default'),
+  prompt: z.string().trim().min(1, 'Prompt is required'),
+  settings: agentSettingsSchema.optional(),
+  isActive: z.boolean().optional().default(true),
+  comment: z.string().trim().max(500).optional(),
+});
+
+const updateConfigurationSchema = z
+  .object({
+    name: z.string().trim().min(1, 'Configuration name is required').optional(),
+    prompt: z.string().trim().min(1, 'Prompt is required').optional(),
+    settings: agentSettingsSchema.nullable().optional(),
+    comment: z.string().trim().max(500).optional(),
+    // Version the edit is based on; the edit is rejected if someone saved in between
+    baseVersion: z.number().int().positive().optional(),
+  })
+  .refine(
+    (body) => body.name !== undefined || body.prompt !== undefined || body.settings !== undefined,
+    'Nothing to update'
+  );
+
+const rollbackSchema = z.object({
+  version: z.number().int().positive(),
+  comment: z.string().trim().max(500).optional(),
+});
+
+const listConfigurationsQuerySchema = z.object({
+  agentType: AgentTypeEnum.optional(),
+  isActive: z.enum(['true', 'false']).transform((value) => value === 'true').optional(),
+});
+
+const versionSelect = {
+  id: true,
+  version: true,
+  name: true,
+  prompt: true,
+  settings: true,
+  comment: true,
+  createdAt: true,
+  createdBy: {
+    select: {
+      id: true,
+      firstName: true,
+      lastName: true,
+      email: true,
+    },
+  },
+} satisfies Prisma.AgentConfigurationVersionSelect;
+
+type SelectedVersion = Prisma.AgentConfigurationVersionGetPayload<{ select: typeof versionSelect }>;
+
+/**
+ * Convert a configuration row into the API response shape
+ */
+function formatConfiguration(configuration: SelectedConfiguration) {
+  return {
+    id: configuration.id,
+    organizationId: configuration.organizationId,
+    agentType: configuration.agentType,
+    name: configuration.name,
+    prompt: configuration.prompt,
+    settings: configuration.settings ?? {},
+    isActive: configuration.isActive,
+    version: configuration.currentVersion,
+    createdAt: configuration.createdAt.toISOString(),
+    updatedAt: configuration.updatedAt.toISOString(),
+  };
+}
+
+/**
+ * Convert a version row into the API response shape
+ */
+function formatVersion(version: SelectedVersion) {
+  return {
+    id: version.id,
+    version: version.version,
+    name: version.name,
+    prompt: version.prompt,
+    settings: version.settings ?? {},
+    comment: version.comment,
+    createdBy: version.createdBy,
+    createdAt: version.createdAt.toISOString(),
+  };
+}
+
+/**
+ * Find a configuration of the user's organization.
+ * Sends 404/403 and returns null if it can't be used.
+ */
+async function findOwnConfiguration(req: Request, res: Response) {
+  const configuration = await prisma.agentConfiguration.findUnique({
+    where: { id: req.params.id },
+    select: configurationSelect,
+  });
+
+  if (!configuration) {
+    res.status(404).json({ error: 'Agent configuration not found' });
+    return null;
+  }
+
+  if (configuration.organizationId !== req.user!.organizationId) {
+    res.status(403).json({ error: 'Access denied to this agent configuration' });
+    return null;
+  }
+
+  return configuration;
+}
+
+/**
+ * GET /api/agents/configurations
+ *
+ * Get agent configurations of the authenticated user's organization.
+ *
+ * @route GET /api/agents/configurations
+ * @access Private (requires ADMIN or SUPER_ADMIN role)
+ * @query {string} [agentType] - Filter by agent type
+ * @query {boolean} [isActive] - Filter by active state ("true" or "false")
+ * @returns {Object[]} data - Array of configurations ordered by agent type and name
+ * @throws {400} Validation error if query is invalid
+ * @throws {401} Unauthorized if not authenticated
+ * @throws {403} Forbidden if user doesn't have ADMIN role
+ */
+router.get('/configurations', authenticateToken, requireRole('ADMIN', 'SUPER_ADMIN'), async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const { agentType, isActive } = listConfigurationsQuerySchema.parse(req.query);
+
+    const configurations = await prisma.agentConfiguration.findMany({
+      where: {
+        organizationId: req.user.organizationId,
+        agentType,
+        isActive,
+      },
+      select: configurationSelect,
+      orderBy: [{ agentType: 'asc' }, { name: 'asc' }],
+    });
+
+    res.json({ data: configurations.map(formatConfiguration) });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Validation error', details: error.errors });
+      return;
+    }
+
+    console.error('Error fetching agent configurations:', error);
+    res.status(500).json({
+      error: 'Failed to fetch agent configurations',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+/**
+ * GET /api/agents/configurations/:id
+ *
+ * Get agent configuration by ID.
+ *
+ * @route GET /api/agents/configurations/:id
+ * @access Private (requires ADMIN or SUPER_ADMIN role)
+ * @param {string} id - Configuration UUID
+ * @returns {Object} Configuration object with its current version number
+ * @throws {401} Unauthorized if not authenticated
+ * @throws {403} Forbidden if configuration belongs to different organization
+ * @throws {404} Not found if configuration doesn't exist
+ */
+router.get('/configurations/:id', authenticateToken, requireRole('ADMIN', 'SUPER_ADMIN'), async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const configuration = await findOwnConfiguration(req, res);
+
+    if (!configuration) {
+      return;
+    }
+
+    res.json(formatConfiguration(configuration));
+  } catch (error) {
+    console.error('Error fetching agent configuration:', error);
+    res.status(500).json({
+      error: 'Failed to fetch agent configuration',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+/**
+ * GET /api/agents/configurations/:id/versions
+ *
+ * Get the version history of an agent configuration, newest first.
+ *
+ * @route GET /api/agents/configurations/:id/versions
+ * @access Private (requires ADMIN or SUPER_ADMIN role)
+ * @param {string} id - Configuration UUID
+ * @returns {Object[]} data - Array of versions with author and timestamp
+ * @returns {number} currentVersion - Version currently in use
+ * @throws {401} Unauthorized if not authenticated
+ * @throws {403} Forbidden if configuration belongs to different organization
+ * @throws {404} Not found if configuration doesn't exist
+ */
+router.get('/configurations/:id/versions', authenticateToken, requireRole('ADMIN', 'SUPER_ADMIN'), async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const configuration = await findOwnConfiguration(req, res);
+
+    if (!configuration) {
+      return;
+    }
+
+    const versions = await prisma.agentConfigurationVersion.findMany({
+      where: { configurationId: configuration.id },
+      select: versionSelect,
+      orderBy: { version: 'desc' },
+    });
+
+    res.json({
+      data: versions.map(formatVersion),
+      currentVersion: configuration.currentVersion,
+    });
+  } catch (error) {
+    console.error('Error fetching agent configuration versions:', error);
+    res.status(500).json({
+      error: 'Failed to fetch agent configuration versions',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+/**
+ * POST /api/agents/configurations
+ *
+ * Create an agent configuration. Its content is saved as version 1.
+ *
+ * @route POST /api/agents/configurations
+ * @access Private (requires ADMIN or SUPER_ADMIN role)
+ * @body {string} agentType - Agent type (required)
+ * @body {string} [name=default] - Configuration name, unique per agent type
+ * @body {string} prompt - Prompt template (required)
+ * @body {Object} [settings] - Model settings (model, temperature, maxTokens, timeout, retryAttempts, retryDelay)
+ * @body {boolean} [isActive=true] - Whether agents should use this configuration
+ * @body {string} [comment] - Version comment
+ * @returns {Object} Created configuration object
+ * @throws {400} Validation error if input is invalid
+ * @throws {401} Unauthorized if not authenticated
+ * @throws {403} Forbidden if user doesn't have ADMIN role
+ * @throws {409} Conflict if a configuration with this name already exists for the agent type
+ */
+router.post('/configurations', authenticateToken, requireRole('ADMIN', 'SUPER_ADMIN'), async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const body = createConfigurationSchema.parse(req.body);
+    const { organizationId, userId } = req.user;
+    const settings = body.settings as Prisma.InputJsonValue | undefined;
+
+    const configuration = await prisma.agentConfiguration.create({
+      data: {
+        organizationId,
+        agentType: body.agentType,
+        name: body.name,
+        prompt: body.prompt,
+        settings,
+        isActive: body.isActive,
+        currentVersion: 1,
+        versions: {
+          create: {
+            version: 1,
+            name: body.name,
+            prompt: body.prompt,
+            settings,
+            comment: body.comment || null,
+            createdById: userId,
+          },
+        },
+      },
+      select: configurationSelect,
+    });
+
+    getPromptLoader().clearCache(configuration.organizationId, configuration.agentType);
+    res.status(201).json(formatConfiguration(configuration));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Validation error', details: error.errors });
+      return;
+    }
+
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      res.status(409).json({ error: 'Configuration with this name already exists for this agent type' });
+      return;
+    }
+
+    console.error('Error creating agent configuration:', error);
+    res.status(500).json({
+      error: 'Failed to create agent configuration',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+/**
+ * PUT /api/agents/configurations/:id
+ *
+ * Edit an agent configuration. Every edit is saved as a new immutable
+ * version with its author; only provided fields change.
+ *
+ * @route PUT /api/agents/configurations/:id
+ * @access Private (requires ADMIN or SUPER_ADMIN role)
+ * @param {string} id - Configuration UUID
+ * @body {string} [name] - Configuration name
+ * @body {string} [prompt] - Prompt template
+ * @body {Object|null} [settings] - Model settings (null clears them)
+ * @body {string} [comment] - Version comment
+ * @body {number} [baseVersion] - Version the edit is based on (rejected if it's no longer current)
+ * @returns {Object} Updated configuration object
+ * @throws {400} Validation error if input is invalid
+ * @throws {401} Unauthorized if not authenticated
+ * @throws {403} Forbidden if configuration belongs to different organization
+ * @throws {404} Not found if configuration doesn't exist
+ * @throws {409} Conflict if the configuration was edited meanwhile or the name is taken
+ */
+router.put('/configurations/:id', authenticateToken, requireRole('ADMIN', 'SUPER_ADMIN'), async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const body = updateConfigurationSchema.parse(req.body);
+    const existingConfiguration = await findOwnConfiguration(req, res);
+
+    if (!existingConfiguration) {
+      return;
+    }
+
+    if (body.baseVersion !== undefined && body.baseVersion !== existingConfiguration.currentVersion) {
+      throw new ConfigurationVersionConflictError();
+    }
+
+    const configuration = await prisma.$transaction((tx) =>
+      saveConfigurationVersion(
+        tx,
+        existingConfiguration,
+        {
+          name: body.name ?? existingConfiguration.name,
+          prompt: body.prompt ?? existingConfiguration.prompt,
+          settings: body.settings !== undefined ? (body.settings as Prisma.JsonValue) : existingConfiguration.settings,
+        },
+        body.comment || null,
+        req.user!.userId
+      )
+    );
+
+    getPromptLoader().clearCache(configuration.organizationId, configuration.agentType);
+    res.json(formatConfiguration(configuration));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Validation error', details: error.errors });
+      return;
+    }
+
+    if (error instanceof ConfigurationVersionConflictError) {
+      res.status(409).json({ error: 'Configuration was changed by another user. Please reload and try again.' });
+      return;
+    }
+
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      res.status(409).json({ error: 'Configuration with this name already exists for this agent type' });
+      return;
+    }
+
+    console.error('Error updating agent configuration:', error);
+    res.status(500).json({
+      error: 'Failed to update agent configuration',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+/**
+ * POST /api/agents/configurations/:id/rollback
+ *
+ * Roll back to an earlier version. History stays immutable: the old
+ * content is saved as a new version on top.
+ *
+ * @route POST /api/agents/configurations/:id/rollback
+ * @access Private (requires ADMIN or SUPER_ADMIN role)
+ * @param {string} id - Configuration UUID
+ * @body {number} version - Version to roll back to (required)
+ * @body {string} [comment] - Version comment (defaults to "Rollback to version N")
+ * @returns {Object} Updated configuration object
+ * @throws {400} Validation error if input is invalid
+ * @throws {401} Unauthorized if not authenticated
+ * @throws {403} Forbidden if configuration belongs to different organization
+ * @throws {404} Not found if configuration or version doesn't exist
+ * @throws {409} Conflict if the configuration was edited meanwhile or the name is taken
+ */
+router.post('/configurations/:id/rollback', authenticateToken, requireRole('ADMIN', 'SUPER_ADMIN'), async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const { version, comment } = rollbackSchema.parse(req.body);
+    const existingConfiguration = await findOwnConfiguration(req, res);
+
+    if (!existingConfiguration) {
+      return;
+    }
+
+    const target = await prisma.agentConfigurationVersion.findUnique({
+      where: {
+        configurationId_version: {
+          configurationId: existingConfiguration.id,
+          version,
+        },
+      },
+      select: { name: true, prompt: true, settings: true },
+    });
+
+    if (!target) {
+      res.status(404).json({ error: 'Version not found' });
+      return;
+    }
+
+    const configuration = await prisma.$transaction((tx) =>
+      saveConfigurationVersion(tx, existingConfiguration, target, comment || `Rollback to version ${version}`, req.user!.userId)
+    );
+
+    getPromptLoader().clearCache(configuration.organizationId, configuration.agentType);
+    res.json(formatConfiguration(configuration));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Validation error', details: error.errors });
+      return;
+    }
+
+    if (error instanceof ConfigurationVersionConflictError) {
+      res.status(409).json({ error: 'Configuration was changed by another user. Please reload and try again.' });
+      return;
+    }
+
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      res.status(409).json({ error: 'Configuration with this name already exists for this agent type' });
+      return;
+    }
+
+    console.error('Error rolling back agent configuration:', error);
+    res.status(500).json({
+      error: 'Failed to roll back agent configuration',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+/**
+ * Activate or deactivate a configuration.
+ * Inactive configurations are ignored when agents load their prompts.
+ */
+function setActive(isActive: boolean) {
+  return async (req: Request, res: Response) => {
+    try {
+      if (!req.user) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const existingConfiguration = await findOwnConfiguration(req, res);
+
+      if (!existingConfiguration) {
+        return;
+      }
+
+      const configuration = await prisma.agentConfiguration.update({
+        where: { id: existingConfiguration.id },
+        data: { isActive },
+        select: configurationSelect,
+      });
+
+      getPromptLoader().clearCache(configuration.organizationId, configuration.agentType);
+      res.json(formatConfiguration(configuration));
+    } catch (error) {
+      console.error(`Error ${isActive ? 'activating' : 'deactivating'} agent configuration:`, error);
+      res.status(500).json({
+        error: `Failed to ${isActive ? 'activate' : 'deactivate'} agent configuration`,
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  };
+}
+
+/**
+ * POST /api/agents/configurations/:id/activate
+ *
+ * Let agents use this configuration.
+ *
+ * @route POST /api/agents/configurations/:id/activate
+ * @access Private (requires ADMIN or SUPER_ADMIN role)
+ * @param {string} id - Configuration UUID
+ * @returns {Object} Updated configuration object
+ * @throws {401} Unauthorized if not authenticated
+ * @throws {403} Forbidden if configuration belongs to different organization
+ * @throws {404} Not found if configuration doesn't exist
+ */
+router.post('/configurations/:id/activate', authenticateToken, requireRole('ADMIN', 'SUPER_ADMIN'), setActive(true));
+
+/**
+ * POST /api/agents/configurations/:id/deactivate
+ *
+ * Stop agents from using this configuration.
+ *
+ * @route POST /api/agents/configurations/:id/deactivate
+ * @access Private (requires ADMIN or SUPER_ADMIN role)
+ * @param {string} id - Configuration UUID
+ * @returns {Object} Updated configuration object
+ * @throws {401} Unauthorized if not authenticated
+ * @throws {403} Forbidden if configuration belongs to different organization
+ * @throws {404} Not found if configuration doesn't exist
+ */
+router.post('/configurations/:id/deactivate', authenticateToken, requireRole('ADMIN', 'SUPER_ADMIN'), setActive(false));
+
+export default router;
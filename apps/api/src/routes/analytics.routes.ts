@@ -0,0 +1,333 @@
+/**
+ * Analytics Routes
+ *
+ * API endpoints for dialogue analysis results produced by the
+ * scheduled dialogue analysis job, and for LLM token usage, cost and budget
+ */
+
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { prisma, Prisma } from '@soul-kg-crm/database';
+import { LLMBudgetService } from '@soul-kg-crm/agents';
+import { authenticateToken, requireRole } from '../middleware/auth.middleware';
+import { aggregateLlmUsage, summarizeLlmUsage } from '../utils/llm-usage';
+
+const router = Router();
+const budgetService = new LLMBudgetService(prisma);
+
+// Validation schemas
+const listDialogueAnalysesQuerySchema = z.object({
+  page: z.string().regex(/^\d+$/).transform(Number).optional().default('1'),
+  limit: z.string().regex(/^\d+$/).transform(Number).optional().default('10'),
+  promptVariantId: z.string().uuid().optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+});
+
+const llmUsageQuerySchema = z
+  .object({
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+    agentType: z
+      .enum([
+        'COMMUNICATION',
+        'QUALIFICATION',
+        'PRODUCT_SELECTION',
+        'STATUS_DETECTION',
+        'WARMING',
+        'SALES',
+        'SERVICE',
+        'FEEDBACK',
+      ])
+      .optional(), // must match Prisma schema
+    model: z.string().trim().min(1).optional(),
+  })
+  .refine((query) => !query.from || !query.to || query.from <= query.to, {
+    message: 'from must not be after to',
+    path: ['from'],
+  });
+
+const DEFAULT_USAGE_WINDOW_DAYS = 30;
+
+interface StoredFinding {
+  title: string;
+  description: string;
+  conversationIds?: string[];
+  priority?: string;
+}
+
+interface StoredRunData {
+  runId: string;
+  period?: { from: string; to: string };
+  sample?: { won: string[]; lost: string[] };
+  findings?: StoredFinding[];
+  metrics?: Record<string, unknown>;
+}
+
+interface ConversationExample {
+  conversationId: string;
+  clientId: string;
+  clientName: string;
+}
+
+function getClientName(client: { firstName: string | null; lastName: string | null; phone: string }): string {
+  return [client.firstName, client.lastName].filter(Boolean).join(' ') || client.phone;
+}
+
+/**
+ * GET /api/analytics/dialogue-analyses
+ *
+ * Get dialogue analysis runs, newest first. Each run holds the success
+ * patterns, problem areas, conversion metrics and recommendations found
+ * in a sample of won and lost conversations. Findings link to example
+ * conversations.
+ *
+ * @route GET /api/analytics/dialogue-analyses
+ * @access Private (requires ADMIN or SUPER_ADMIN role)
+ * @query {number} [page=1] - Page number
+ * @query {number} [limit=10] - Runs per page (max 50)
+ * @query {string} [promptVariantId] - Only runs for this prompt variant
+ * @query {string} [from] - Only runs created on or after this date
+ * @query {string} [to] - Only runs created on or before this date
+ * @returns {Object[]} data - Array of runs (runId, createdAt, promptVariant, period, sample, metrics, successPatterns, problemAreas, recommendations)
+ * @returns {Object} pagination - Pagination metadata (page, limit, total, totalPages)
+ * @throws {400} Validation error if query is invalid
+ * @throws {401} Unauthorized if not authenticated
+ * @throws {403} Forbidden if user doesn't have ADMIN role
+ */
+router.get('/dialogue-analyses', authenticateToken, requireRole('ADMIN', 'SUPER_ADMIN'), async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const query = listDialogueAnalysesQuerySchema.parse(req.query);
+    const page = Math.max(1, query.page);
+    const limit = Math.min(50, Math.max(1, query.limit));
+
+    // Every run stores exactly one CONVERSION_METRICS row, so it identifies the run
+    const where: Prisma.DialogueAnalysisWhereInput = {
+      organizationId: req.user.organizationId,
+      promptVariantId: query.promptVariantId,
+      createdAt: { gte: query.from, lte: query.to },
+    };
+
+    const [runRows, total] = await Promise.all([
+      prisma.dialogueAnalysis.findMany({
+        where: { ...where, analysisType: 'CONVERSION_METRICS' },
+        select: { data: true },
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.dialogueAnalysis.count({ where: { ...where, analysisType: 'CONVERSION_METRICS' } }),
+    ]);
+
+    const runIds = runRows.map((row) => (row.data as unknown as StoredRunData).runId);
+
+    const rows =
+      runIds.length === 0
+        ? []
+        : await prisma.dialogueAnalysis.findMany({
+            where: {
+              organizationId: req.user.organizationId,
+              OR: runIds.map((runId) => ({ data: { path: ['runId'], equals: runId } })),
+            },
+            select: {
+              analysisType: true,
+              data: true,
+              recommendations: true,
+              createdAt: true,
+              variant: {
+                select: { id: true, name: true },
+              },
+            },
+          });
+
+    // Resolve example conversations to their clients for linking
+    const conversationIds = new Set<string>();
+    for (const row of rows) {
+      const findings = [
+        ...((row.data as unknown as StoredRunData).findings ?? []),
+        ...((row.recommendations as unknown as StoredFinding[] | null) ?? []),
+      ];
+      findings.forEach((finding) => finding.conversationIds?.forEach((id) => conversationIds.add(id)));
+    }
+
+    const conversations = await prisma.conversation.findMany({
+      where: { id: { in: [...conversationIds] }, organizationId: req.user.organizationId },
+      select: {
+        id: true,
+        client: {
+          select: { id: true, firstName: true, lastName: true, phone: true },
+        },
+      },
+    });
+    const examplesById = new Map<string, ConversationExample>(
+      conversations.map((conversation) => [
+        conversation.id,
+        {
+          conversationId: conversation.id,
+          clientId: conversation.client.id,
+          clientName: getClientName(conversation.client),
+        },
+      ])
+    );
+
+    const withExamples = (findings: StoredFinding[] | null | undefined) =>
+      (findings ?? []).map(({ conversationIds: ids, ...finding }) => ({
+        ...finding,
+        examples: (ids ?? []).map((id) => examplesById.get(id)).filter((example) => example !== undefined),
+      }));
+
+    const data = runIds.map((runId) => {
+      const findRow = (type: string) =>
+        rows.find((row) => row.analysisType === type && (row.data as unknown as StoredRunData).runId === runId);
+      const metricsRow = findRow('CONVERSION_METRICS');
+      const metricsData = metricsRow?.data as unknown as StoredRunData | undefined;
+
+      return {
+        runId,
+        createdAt: metricsRow?.createdAt.toISOString() ?? null,
+        promptVariant: metricsRow?.variant ?? null,
+        period: metricsData?.period ?? null,
+        sample: {
+          won: metricsData?.sample?.won.length ?? 0,
+          lost: metricsData?.sample?.lost.length ?? 0,
+        },
+        metrics: metricsData?.metrics ?? null,
+        successPatterns: withExamples(
+          (findRow('SUCCESS_PATTERNS')?.data as unknown as StoredRunData | undefined)?.findings
+        ),
+        problemAreas: withExamples((findRow('PROBLEM_AREAS')?.data as unknown as StoredRunData | undefined)?.findings),
+        recommendations: withExamples(findRow('RECOMMENDATIONS')?.recommendations as unknown as StoredFinding[] | null),
+      };
+    });
+
+    res.json({
+      data,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Validation error', details: error.errors });
+      return;
+    }
+
+    console.error('Error fetching dialogue analyses:', error);
+    res.status(500).json({
+      error: 'Failed to fetch dialogue analyses',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+/**
+ * GET /api/analytics/llm-usage
+ *
+ * Get LLM token usage and cost of the organization, broken down by day,
+ * agent and model. Cost is in USD from the model price table; calls to
+ * models without a price are counted in unpricedCalls.
+ *
+ * @route GET /api/analytics/llm-usage
+ * @access Private (requires ADMIN or SUPER_ADMIN role)
+ * @query {string} [from] - Start of the period (default: 30 days before `to`)
+ * @query {string} [to] - End of the period (default: now)
+ * @query {string} [agentType] - Only calls of this agent
+ * @query {string} [model] - Only calls to this model
+ * @returns {Object} period - Period (from, to)
+ * @returns {Object} totals - Calls, prompt/completion/total tokens, cost, unpricedCalls, averageLatencyMs
+ * @returns {Object[]} byDay - Totals per day (YYYY-MM-DD, UTC)
+ * @returns {Object[]} byAgent - Totals per agent type (null for calls outside agents)
+ * @returns {Object[]} byModel - Totals per model
+ * @throws {400} Validation error if query is invalid
+ * @throws {401} Unauthorized if not authenticated
+ * @throws {403} Forbidden if user doesn't have ADMIN role
+ */
+router.get('/llm-usage', authenticateToken, requireRole('ADMIN', 'SUPER_ADMIN'), async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const query = llmUsageQuerySchema.parse(req.query);
+    const to = query.to ?? new Date();
+    const from = query.from ?? new Date(to.getTime() - DEFAULT_USAGE_WINDOW_DAYS * 86_400_000);
+
+    const groups = await aggregateLlmUsage(prisma, {
+      organizationId: req.user.organizationId,
+      from,
+      to,
+      agentType: query.agentType,
+      model: query.model,
+    });
+
+    res.json({
+      period: { from: from.toISOString(), to: to.toISOString() },
+      ...summarizeLlmUsage(groups),
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Validation error', details: error.errors });
+      return;
+    }
+
+    console.error('Error fetching LLM usage:', error);
+    res.status(500).json({
+      error: 'Failed to fetch LLM usage',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+/**
+ * GET /api/analytics/llm-budget
+ *
+ * Get the organization's LLM usage for the current month against its
+ * budget (Organization.settings.llmBudget). Level is WARNING from the
+ * configured percentage of a limit, SOFT_EXCEEDED past a soft limit and
+ * HARD_EXCEEDED past a hard limit, when LLM calls are blocked.
+ *
+ * @route GET /api/analytics/llm-budget
+ * @access Private (requires ADMIN or SUPER_ADMIN role)
+ * @returns {Object} period - Current month (from, to; UTC)
+ * @returns {Object} usage - Tokens and cost (USD) used this month
+ * @returns {Object|null} budget - Configured budget (monthlyTokens, monthlyCost, warningPercent)
+ * @returns {string} level - OK, WARNING, SOFT_EXCEEDED or HARD_EXCEEDED
+ * @returns {number|null} percentUsed - Highest share of any limit used, in percent
+ * @throws {401} Unauthorized if not authenticated
+ * @throws {403} Forbidden if user doesn't have ADMIN role
+ */
+router.get('/llm-budget', authenticateToken, requireRole('ADMIN', 'SUPER_ADMIN'), async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const status = await budgetService.getStatus(req.user.organizationId);
+
+    res.json({
+      period: { from: status.period.from.toISOString(), to: status.period.to.toISOString() },
+      usage: { tokens: status.usage.tokens, cost: status.usage.cost.toFixed(6) },
+      budget: status.budget,
+      level: status.level,
+      percentUsed: status.percentUsed,
+    });
+  } catch (error) {
+    console.error('Error fetching LLM budget:', error);
+    res.status(500).json({
+      error: 'Failed to fetch LLM budget',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+export default router;
@@ -6,8 +6,28 @@
 
 import { Router, Request, Response } from 'express';
 import { z } from 'zod';
-import { prisma } from '@soul-kg-crm/database';
+import { prisma, Prisma, type TripRequirements } from '@soul-kg-crm/database';
 import { authenticateToken } from '../middleware/auth.middleware';
+import { buildAssignablePartnersWhere } from '../utils/partners';
+import { reserveSeats, releaseSeats, getSeatCount, TourCapacityError } from '../utils/tour-capacity';
+import {
+  canTransitionClientTour,
+  getNextClientTourStatuses,
+  holdsSeats,
+} from '../utils/client-tour-workflow';
+import type { ProductOptionInput } from '../utils/proposal-pricing';
+import { SUPPORTED_CURRENCIES, loadCurrencyContext, toDisplayCurrency } from '../utils/currency';
+import { recordConfirmedBooking, voidUnpaidEntry } from '../utils/partner-commission';
+import { createProductSelectionAgent, createQualificationAgent } from '../utils/agents';
+import {
+  LLMProviderError,
+  TRIP_REQUIREMENT_COLUMNS,
+  TRIP_REQUIREMENT_FIELDS,
+  proposeClientStatus,
+  toTripRequirementsMeta,
+  toTripRequirementsValues,
+  type TripRequirementsMeta,
+} from '@soul-kg-crm/agents';
 
 const router = Router();
 
@@ -31,6 +51,7 @@ const createClientSchema = z.object({
   lastName: z.string().optional(),
   status: ClientStatusEnum.optional().default('NEW_LEAD'),
   preferredLanguage: z.string().optional(),
+  preferredCurrency: z.enum(SUPPORTED_CURRENCIES).nullable().optional(),
 });
 
 const noteSchema = z.object({
@@ -51,6 +72,7 @@ const updateClientSchema = z.object({
   lastName: z.string().optional(),
   status: ClientStatusEnum.optional(),
   preferredLanguage: z.string().optional(),
+  preferredCurrency: z.enum(SUPPORTED_CURRENCIES).nullable().optional(),
   metadata: metadataSchema,
 });
 
@@ -59,6 +81,11 @@ const updateStatusSchema = z.object({
   reason: z.string().optional(),
 });
 
+const assignPartnerSchema = z.object({
+  partnerId: z.string().uuid('Partner ID must be a valid UUID').nullable(),
+  reason: z.string().optional(),
+});
+
 const listClientsQuerySchema = z.object({
   page: z.string().regex(/^\d+$/).transform(Number).optional().default('1'),
   limit: z.string().regex(/^\d+$/).transform(Number).optional().default('20'),
@@ -82,6 +109,29 @@ const messagesQuerySchema = z.object({
   search: z.string().optional(),
 });
 
+const isoDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in format YYYY-MM-DD');
+
+const updateTripRequirementsSchema = z
+  .object({
+    travelStartDate: isoDateSchema.nullable().optional(),
+    travelEndDate: isoDateSchema.nullable().optional(),
+    adults: z.number().int().min(1).max(100).nullable().optional(),
+    children: z.number().int().min(0).max(100).nullable().optional(),
+    budgetAmount: z.number().positive().nullable().optional(),
+    budgetCurrency: z
+      .string()
+      .regex(/^[A-Za-z]{3}$/, 'Currency must be an ISO 4217 code')
+      .transform((value) => value.toUpperCase())
+      .nullable()
+      .optional(),
+    interests: z.array(z.string().trim().min(1)).max(50).optional(),
+    dietaryNeeds: z.array(z.string().trim().min(1)).max(20).optional(),
+  })
+  .refine(
+    (data) => !data.travelStartDate || !data.travelEndDate || data.travelEndDate >= data.travelStartDate,
+    { message: 'End date must not be before start date', path: ['travelEndDate'] }
+  );
+
 // ClientProductStatus enum (must match Prisma schema)
 const ClientProductStatusEnum = z.enum([
   'INTERESTED',
@@ -97,6 +147,185 @@ const addProductSchema = z.object({
   notes: z.string().optional(),
 });
 
+const recommendProductsSchema = z.object({
+  limit: z.number().int().min(1).max(10).optional(),
+});
+
+// ClientTourStatus enum (must match Prisma schema)
+const ClientTourStatusEnum = z.enum([
+  'INTERESTED',
+  'PROPOSED',
+  'SELECTED',
+  'BOOKED',
+  'CONFIRMED',
+  'CANCELLED',
+]);
+
+// Validation schemas for tours
+const addTourSchema = z.object({
+  tourId: z.string().uuid('Tour ID must be a valid UUID'),
+  status: z.enum(['INTERESTED', 'PROPOSED', 'SELECTED']).optional().default('INTERESTED'),
+  participants: z.number().int().positive('Participants must be a positive number').max(100).optional(),
+  notes: z.string().optional(),
+});
+
+const updateTourStatusSchema = z.object({
+  status: ClientTourStatusEnum,
+  participants: z.number().int().positive('Participants must be a positive number').max(100).optional(),
+  reason: z.string().optional(),
+  markClientSold: z.boolean().optional().default(false),
+});
+
+const clientTourInclude = {
+  tour: {
+    select: {
+      id: true,
+      startDate: true,
+      endDate: true,
+      price: true,
+      currency: true,
+      status: true,
+      maxParticipants: true,
+      currentParticipants: true,
+      product: {
+        select: {
+          id: true,
+          name: true,
+          partner: { select: { id: true, name: true } },
+        },
+      },
+    },
+  },
+  client: {
+    select: {
+      assignedPartner: { select: { id: true, name: true } },
+    },
+  },
+} satisfies Prisma.ClientTourInclude;
+
+type ClientTourWithTour = Prisma.ClientTourGetPayload<{ include: typeof clientTourInclude }>;
+
+/**
+ * Convert a client tour row into the API response shape
+ */
+function formatClientTour(ct: ClientTourWithTour) {
+  return {
+    id: ct.id,
+    tourId: ct.tourId,
+    tour: {
+      id: ct.tour.id,
+      startDate: ct.tour.startDate.toISOString(),
+      endDate: ct.tour.endDate.toISOString(),
+      price: ct.tour.price?.toString() || null,
+      currency: ct.tour.currency,
+      status: ct.tour.status,
+      maxParticipants: ct.tour.maxParticipants,
+      currentParticipants: ct.tour.currentParticipants,
+      product: {
+        id: ct.tour.product.id,
+        name: ct.tour.product.name,
+      },
+    },
+    // Partner serving the booking: the product's partner or the client's assigned one
+    partner: ct.tour.product.partner ?? ct.client.assignedPartner,
+    status: ct.status,
+    nextStatuses: getNextClientTourStatuses(ct.status),
+    participants: ct.participants,
+    notes: ct.notes,
+    createdAt: ct.createdAt.toISOString(),
+    updatedAt: ct.updatedAt.toISOString(),
+  };
+}
+
+/**
+ * Format trip requirements for API response
+ */
+function formatTripRequirements(record: TripRequirements | null) {
+  if (!record) {
+    return null;
+  }
+
+  const values = toTripRequirementsValues(record);
+  const toDate = (value: Date | null) => value?.toISOString().substring(0, 10) || null;
+
+  return {
+    ...values,
+    travelStartDate: toDate(values.travelStartDate),
+    travelEndDate: toDate(values.travelEndDate),
+    fieldMeta: toTripRequirementsMeta(record),
+    analyzedUntil: record.analyzedUntil?.toISOString() || null,
+    updatedAt: record.updatedAt.toISOString(),
+  };
+}
+
+/**
+ * Thrown inside the status transaction when the client tour was changed concurrently
+ */
+class ClientTourStatusConflictError extends Error {}
+
+const productRecommendationInclude = {
+  product: {
+    select: {
+      id: true,
+      name: true,
+      description: true,
+      type: true,
+      duration: true,
+      basePrice: true,
+      currency: true,
+    },
+  },
+  tour: {
+    select: {
+      id: true,
+      startDate: true,
+      endDate: true,
+      price: true,
+      currency: true,
+      maxParticipants: true,
+      currentParticipants: true,
+    },
+  },
+} satisfies Prisma.ProductRecommendationInclude;
+
+type ProductRecommendationWithRelations = Prisma.ProductRecommendationGetPayload<{
+  include: typeof productRecommendationInclude;
+}>;
+
+/**
+ * Format a product recommendation for API response
+ */
+function formatProductRecommendation(recommendation: ProductRecommendationWithRelations) {
+  const { product, tour } = recommendation;
+
+  return {
+    id: recommendation.id,
+    productId: recommendation.productId,
+    product: {
+      ...product,
+      basePrice: product.basePrice.toString(),
+    },
+    tourId: recommendation.tourId,
+    tour: tour && {
+      ...tour,
+      startDate: tour.startDate.toISOString(),
+      endDate: tour.endDate.toISOString(),
+      price: tour.price?.toString() || null,
+    },
+    rank: recommendation.rank,
+    score: recommendation.score,
+    explanation: recommendation.explanation,
+    status: recommendation.status,
+    reviewedAt: recommendation.reviewedAt?.toISOString() || null,
+    createdAt: recommendation.createdAt.toISOString(),
+  };
+}
+
+/**
+ * Thrown inside the accept transaction when the recommendation was reviewed concurrently
+ */
+class ProductRecommendationConflictError extends Error {}
+
 /**
  * GET /api/clients
  * 
@@ -165,6 +394,7 @@ router.get('/', authenticateToken, async (req: Request, res: Response) => {
         lastName: true,
         status: true,
         preferredLanguage: true,
+        preferredCurrency: true,
         createdAt: true,
         updatedAt: true,
       },
@@ -234,6 +464,12 @@ router.get('/:id', authenticateToken, async (req: Request, res: Response) => {
             lastMessageAt: true,
           },
         },
+        assignedPartner: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
       },
     });
 
@@ -256,8 +492,11 @@ router.get('/:id', authenticateToken, async (req: Request, res: Response) => {
       lastName: client.lastName,
       status: client.status,
       preferredLanguage: client.preferredLanguage,
+      preferredCurrency: client.preferredCurrency,
       culturalContext: client.culturalContext,
       metadata: client.metadata,
+      assignedPartnerId: client.assignedPartnerId,
+      assignedPartner: client.assignedPartner,
       lastMessageAt: client.conversations[0]?.lastMessageAt?.toISOString() || null,
       createdAt: client.createdAt.toISOString(),
       updatedAt: client.updatedAt.toISOString(),
@@ -285,6 +524,7 @@ router.get('/:id', authenticateToken, async (req: Request, res: Response) => {
  * @body {string} [lastName] - Last name (optional)
  * @body {string} [status=NEW_LEAD] - Client status (optional, default: NEW_LEAD)
  * @body {string} [preferredLanguage] - Preferred language code (optional)
+ * @body {string} [preferredCurrency] - Currency prices are shown to the client in (optional)
  * @returns {Object} Created client object
  * @throws {400} Validation error if input is invalid
  * @throws {401} Unauthorized if not authenticated
@@ -298,7 +538,7 @@ router.post('/', authenticateToken, async (req: Request, res: Response) => {
     }
 
     const body = createClientSchema.parse(req.body);
-    const { phone, email, firstName, lastName, status, preferredLanguage } = body;
+    const { phone, email, firstName, lastName, status, preferredLanguage, preferredCurrency } = body;
 
     // Check if client already exists in this organization
     const existingClient = await prisma.client.findFirst({
@@ -322,6 +562,7 @@ router.post('/', authenticateToken, async (req: Request, res: Response) => {
         lastName,
         status: status || 'NEW_LEAD',
         preferredLanguage,
+        preferredCurrency,
         organizationId: req.user.organizationId,
       },
       select: {
@@ -332,6 +573,7 @@ router.post('/', authenticateToken, async (req: Request, res: Response) => {
         lastName: true,
         status: true,
         preferredLanguage: true,
+        preferredCurrency: true,
         createdAt: true,
         updatedAt: true,
       },
@@ -370,6 +612,7 @@ router.post('/', authenticateToken, async (req: Request, res: Response) => {
  * @body {string} [lastName] - Last name (optional)
  * @body {string} [status] - Client status (optional)
  * @body {string} [preferredLanguage] - Preferred language code (optional)
+ * @body {string} [preferredCurrency] - Currency prices are shown to the client in (optional)
  * @returns {Object} Updated client object
  * @throws {400} Validation error if input is invalid
  * @throws {401} Unauthorized if not authenticated
@@ -409,6 +652,7 @@ router.put('/:id', authenticateToken, async (req: Request, res: Response) => {
     if (body.lastName !== undefined) updateData.lastName = body.lastName;
     if (body.status !== undefined) updateData.status = body.status;
     if (body.preferredLanguage !== undefined) updateData.preferredLanguage = body.preferredLanguage;
+    if (body.preferredCurrency !== undefined) updateData.preferredCurrency = body.preferredCurrency;
     if (body.metadata !== undefined) updateData.metadata = body.metadata;
 
     // Update client
@@ -423,6 +667,7 @@ router.put('/:id', authenticateToken, async (req: Request, res: Response) => {
         lastName: true,
         status: true,
         preferredLanguage: true,
+        preferredCurrency: true,
         metadata: true,
         createdAt: true,
         updatedAt: true,
@@ -505,6 +750,7 @@ router.patch('/:id/status', authenticateToken, async (req: Request, res: Respons
           lastName: true,
           status: true,
           preferredLanguage: true,
+          preferredCurrency: true,
           createdAt: true,
           updatedAt: true,
         },
@@ -541,6 +787,240 @@ router.patch('/:id/status', authenticateToken, async (req: Request, res: Respons
   }
 });
 
+/**
+ * PATCH /api/clients/:id/partner
+ * 
+ * Assign a partner to a client (or clear the assignment with null).
+ * Only available partners providing one of the client's selected products
+ * and not rated below the organization's threshold can be assigned. Every change is recorded with the user who made it.
+ * 
+ * @route PATCH /api/clients/:id/partner
+ * @access Private (requires authentication)
+ * @param {string} id - Client UUID
+ * @body {string|null} partnerId - Partner UUID, or null to unassign (required)
+ * @body {string} [reason] - Reason for the assignment (optional)
+ * @returns {Object} assignedPartnerId - Assigned partner UUID or null
+ * @returns {Object} assignedPartner - Assigned partner ({ id, name }) or null
+ * @returns {Object} assignment - Created assignment history entry
+ * @throws {400} Validation error if input is invalid or partner can't be assigned to this client
+ * @throws {401} Unauthorized if not authenticated
+ * @throws {403} Forbidden if client belongs to different organization
+ * @throws {404} Not found if client or partner doesn't exist
+ * @throws {409} Conflict if partner is not available or rated below the threshold
+ */
+router.patch('/:id/partner', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const { id } = req.params;
+    const { partnerId, reason } = assignPartnerSchema.parse(req.body);
+
+    // Check if client exists and belongs to organization
+    const existingClient = await prisma.client.findUnique({
+      where: { id },
+      select: { id: true, organizationId: true, assignedPartnerId: true },
+    });
+
+    if (!existingClient) {
+      res.status(404).json({ error: 'Client not found' });
+      return;
+    }
+
+    if (existingClient.organizationId !== req.user.organizationId) {
+      res.status(403).json({ error: 'Access denied to this client' });
+      return;
+    }
+
+    if (partnerId) {
+      const partner = await prisma.partner.findUnique({
+        where: { id: partnerId },
+        select: {
+          id: true,
+          organizationId: true,
+          isAvailable: true,
+          rating: true,
+          organization: { select: { partnerRatingThreshold: true } },
+        },
+      });
+
+      // Partners of other organizations are reported as missing
+      if (!partner || partner.organizationId !== req.user.organizationId) {
+        res.status(404).json({ error: 'Partner not found' });
+        return;
+      }
+
+      if (!partner.isAvailable) {
+        res.status(409).json({ error: 'Partner is not available' });
+        return;
+      }
+
+      const { partnerRatingThreshold } = partner.organization;
+
+      if (partner.rating !== null && partnerRatingThreshold !== null && partner.rating.lt(partnerRatingThreshold)) {
+        res.status(409).json({ error: "Partner rating is below the organization's threshold" });
+        return;
+      }
+
+      const assignablePartner = await prisma.partner.findFirst({
+        where: {
+          id: partnerId,
+          ...buildAssignablePartnersWhere(req.user.organizationId, id),
+        },
+        select: { id: true },
+      });
+
+      if (!assignablePartner) {
+        res.status(400).json({ error: "Partner does not provide any of the client's selected products" });
+        return;
+      }
+    }
+
+    // Update assignment and record who assigned whom in a transaction
+    const [client, assignment] = await prisma.$transaction([
+      prisma.client.update({
+        where: { id },
+        data: { assignedPartnerId: partnerId },
+        select: {
+          id: true,
+          assignedPartnerId: true,
+          assignedPartner: {
+            select: {
+              id: true,
+              name: true,
+            },
+          },
+        },
+      }),
+      prisma.clientPartnerAssignment.create({
+        data: {
+          clientId: id,
+          organizationId: req.user.organizationId,
+          partnerId,
+          previousPartnerId: existingClient.assignedPartnerId,
+          assignedById: req.user.userId,
+          reason: reason || null,
+        },
+      }),
+    ]);
+
+    res.json({
+      id: client.id,
+      assignedPartnerId: client.assignedPartnerId,
+      assignedPartner: client.assignedPartner,
+      assignment: {
+        id: assignment.id,
+        partnerId: assignment.partnerId,
+        previousPartnerId: assignment.previousPartnerId,
+        assignedById: assignment.assignedById,
+        reason: assignment.reason,
+        createdAt: assignment.createdAt.toISOString(),
+      },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Validation error', details: error.errors });
+      return;
+    }
+
+    console.error('Error assigning partner:', error);
+    res.status(500).json({
+      error: 'Failed to assign partner',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+/**
+ * GET /api/clients/:id/partner-assignments
+ * 
+ * Get partner assignment history for a specific client.
+ * Returns chronological list of assignments with who made them.
+ * 
+ * @route GET /api/clients/:id/partner-assignments
+ * @access Private (requires authentication)
+ * @param {string} id - Client UUID
+ * @returns {Object} data - Array of partner assignment objects
+ * @throws {401} Unauthorized if not authenticated
+ * @throws {403} Forbidden if client belongs to different organization
+ * @throws {404} Not found if client doesn't exist
+ */
+router.get('/:id/partner-assignments', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const { id } = req.params;
+
+    // Verify client exists and belongs to user's organization
+    const client = await prisma.client.findUnique({
+      where: { id },
+      select: { id: true, organizationId: true },
+    });
+
+    if (!client) {
+      res.status(404).json({ error: 'Client not found' });
+      return;
+    }
+
+    if (client.organizationId !== req.user.organizationId) {
+      res.status(403).json({ error: 'Access denied to this client' });
+      return;
+    }
+
+    const assignments = await prisma.clientPartnerAssignment.findMany({
+      where: {
+        clientId: id,
+        organizationId: req.user.organizationId,
+      },
+      orderBy: { createdAt: 'desc' },
+      select: {
+        id: true,
+        partnerId: true,
+        previousPartnerId: true,
+        reason: true,
+        createdAt: true,
+        partner: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+        assignedBy: {
+          select: {
+            id: true,
+            firstName: true,
+            lastName: true,
+            email: true,
+          },
+        },
+      },
+    });
+
+    res.json({
+      data: assignments.map((entry) => ({
+        id: entry.id,
+        partnerId: entry.partnerId,
+        partner: entry.partner,
+        previousPartnerId: entry.previousPartnerId,
+        assignedBy: entry.assignedBy,
+        reason: entry.reason,
+        createdAt: entry.createdAt.toISOString(),
+      })),
+    });
+  } catch (error) {
+    console.error('Error fetching partner assignments:', error);
+    res.status(500).json({
+      error: 'Failed to fetch partner assignments',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
 /**
  * GET /api/clients/:id/conversations
  * 
@@ -895,21 +1375,21 @@ router.get('/:id/status-history', authenticateToken, async (req: Request, res: R
 });
 
 /**
- * GET /api/clients/:id/products
+ * GET /api/clients/:id/trip-requirements
  * 
- * Get products and tours for a specific client.
- * Returns both client products (interested products) and client tours (selected tours).
+ * Get the client's trip requirements (travel dates, group size, budget,
+ * interests, dietary needs) with per-field confidence and source messages.
  * 
- * @route GET /api/clients/:id/products
+ * @route GET /api/clients/:id/trip-requirements
  * @access Private (requires authentication)
  * @param {string} id - Client UUID
- * @returns {Object} products - Array of client product objects
- * @returns {Object} tours - Array of client tour objects
+ * @returns {Object|null} data - Trip requirements, null if nothing was extracted yet
+ * @returns {string|null} proposedStatus - QUALIFIED when a new lead has known dates and group size
  * @throws {401} Unauthorized if not authenticated
  * @throws {403} Forbidden if client belongs to different organization
  * @throws {404} Not found if client doesn't exist
  */
-router.get('/:id/products', authenticateToken, async (req: Request, res: Response) => {
+router.get('/:id/trip-requirements', authenticateToken, async (req: Request, res: Response) => {
   try {
     if (!req.user) {
       res.status(401).json({ error: 'Authentication required' });
@@ -918,10 +1398,9 @@ router.get('/:id/products', authenticateToken, async (req: Request, res: Respons
 
     const { id } = req.params;
 
-    // Verify client exists and belongs to user's organization
     const client = await prisma.client.findUnique({
       where: { id },
-      select: { id: true, organizationId: true },
+      select: { id: true, organizationId: true, status: true, tripRequirements: true },
     });
 
     if (!client) {
@@ -934,122 +1413,331 @@ router.get('/:id/products', authenticateToken, async (req: Request, res: Respons
       return;
     }
 
-    // Get client products with product details
-    const clientProducts = await prisma.clientProduct.findMany({
-      where: {
-        clientId: id,
-      },
-      include: {
-        product: {
-          select: {
-            id: true,
-            name: true,
-            description: true,
-            basePrice: true,
-            currency: true,
-            type: true,
-          },
-        },
-      },
-      orderBy: { createdAt: 'desc' },
-    });
-
-    // Get client tours with tour details
-    const clientTours = await prisma.clientTour.findMany({
-      where: {
-        clientId: id,
-      },
-      include: {
-        tour: {
-          select: {
-            id: true,
-            startDate: true,
-            endDate: true,
-            price: true,
-            currency: true,
-            status: true,
-            maxParticipants: true,
-            currentParticipants: true,
-            product: {
-              select: {
-                id: true,
-                name: true,
-              },
-            },
-          },
-        },
-      },
-      orderBy: { createdAt: 'desc' },
-    });
+    const { tripRequirements } = client;
 
     res.json({
-      products: clientProducts.map((cp) => ({
-        id: cp.id,
-        productId: cp.productId,
-        product: {
-          id: cp.product.id,
-          name: cp.product.name,
-          description: cp.product.description,
-          basePrice: cp.product.basePrice.toString(),
-          currency: cp.product.currency,
-          type: cp.product.type,
-        },
-        status: cp.status,
-        notes: cp.notes,
-        createdAt: cp.createdAt.toISOString(),
-        updatedAt: cp.updatedAt.toISOString(),
-      })),
-      tours: clientTours.map((ct) => ({
-        id: ct.id,
-        tourId: ct.tourId,
-        tour: {
-          id: ct.tour.id,
-          startDate: ct.tour.startDate.toISOString(),
-          endDate: ct.tour.endDate.toISOString(),
-          price: ct.tour.price?.toString() || null,
-          currency: ct.tour.currency,
-          status: ct.tour.status,
-          maxParticipants: ct.tour.maxParticipants,
-          currentParticipants: ct.tour.currentParticipants,
-          product: {
-            id: ct.tour.product.id,
-            name: ct.tour.product.name,
-          },
-        },
-        status: ct.status,
-        participants: ct.participants,
-        notes: ct.notes,
-        createdAt: ct.createdAt.toISOString(),
-        updatedAt: ct.updatedAt.toISOString(),
-      })),
+      data: formatTripRequirements(tripRequirements),
+      proposedStatus: proposeClientStatus(
+        client.status,
+        toTripRequirementsValues(tripRequirements),
+        toTripRequirementsMeta(tripRequirements)
+      ),
     });
   } catch (error) {
-    console.error('Error fetching client products:', error);
+    console.error('Error fetching trip requirements:', error);
     res.status(500).json({
-      error: 'Failed to fetch client products',
+      error: 'Failed to fetch trip requirements',
       message: error instanceof Error ? error.message : String(error),
     });
   }
 });
 
 /**
- * POST /api/clients/:id/products
+ * POST /api/clients/:id/trip-requirements/extract
  * 
- * Add a product to a client's interested products list.
- * Creates a ClientProduct record linking the client to a product.
+ * Run the QUALIFICATION agent on the client's messages received since
+ * the previous run. Fields edited by a manager are kept.
  * 
- * @route POST /api/clients/:id/products
+ * @route POST /api/clients/:id/trip-requirements/extract
  * @access Private (requires authentication)
  * @param {string} id - Client UUID
- * @body {string} productId - Product UUID (required)
- * @body {string} [status=INTERESTED] - Product status (optional, default: INTERESTED)
- * @body {string} [notes] - Notes about this product interest (optional)
- * @returns {Object} Created client product object
- * @throws {400} Validation error if input is invalid
+ * @returns {Object|null} data - Updated trip requirements
+ * @returns {string|null} proposedStatus - QUALIFIED when a new lead has known dates and group size
+ * @returns {string[]} updatedFields - Fields changed by this run
+ * @returns {number} analyzedMessages - New messages read by this run
  * @throws {401} Unauthorized if not authenticated
+ * @throws {402} Payment required if the organization's LLM budget is exhausted
  * @throws {403} Forbidden if client belongs to different organization
- * @throws {404} Not found if client or product doesn't exist
- * @throws {409} Conflict if product is already added to client
+ * @throws {404} Not found if client doesn't exist
+ * @throws {503} Service unavailable if no LLM provider is configured
+ */
+router.post('/:id/trip-requirements/extract', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const { id } = req.params;
+
+    const client = await prisma.client.findUnique({
+      where: { id },
+      select: { id: true, organizationId: true },
+    });
+
+    if (!client) {
+      res.status(404).json({ error: 'Client not found' });
+      return;
+    }
+
+    if (client.organizationId !== req.user.organizationId) {
+      res.status(403).json({ error: 'Access denied to this client' });
+      return;
+    }
+
+    const agent = createQualificationAgent();
+    if (!agent) {
+      res.status(503).json({ error: 'No LLM provider is configured' });
+      return;
+    }
+
+    const result = await agent.extractRequirements({
+      organizationId: req.user.organizationId,
+      clientId: id,
+    });
+
+    res.json({
+      data: formatTripRequirements(result.requirements),
+      proposedStatus: result.proposedStatus,
+      updatedFields: result.updatedFields,
+      analyzedMessages: result.analyzedMessages,
+    });
+  } catch (error) {
+    if (error instanceof LLMProviderError && error.code === 'BUDGET_EXCEEDED') {
+      res.status(402).json({ error: 'LLM budget exceeded', message: error.message });
+      return;
+    }
+
+    console.error('Error extracting trip requirements:', error);
+    res.status(500).json({
+      error: 'Failed to extract trip requirements',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+/**
+ * PUT /api/clients/:id/trip-requirements
+ * 
+ * Edit trip requirements. Edited fields are marked as set by a manager
+ * (confidence 1) and the agent no longer overwrites them; clearing a field
+ * hands it back to the agent.
+ * 
+ * @route PUT /api/clients/:id/trip-requirements
+ * @access Private (requires authentication)
+ * @param {string} id - Client UUID
+ * @body {string|null} [travelStartDate] - YYYY-MM-DD
+ * @body {string|null} [travelEndDate] - YYYY-MM-DD
+ * @body {number|null} [adults] - Number of adults
+ * @body {number|null} [children] - Number of children
+ * @body {number|null} [budgetAmount] - Total budget for the group
+ * @body {string|null} [budgetCurrency] - ISO 4217 currency code
+ * @body {string[]} [interests] - Interests
+ * @body {string[]} [dietaryNeeds] - Dietary needs
+ * @returns {Object} data - Updated trip requirements
+ * @returns {string|null} proposedStatus - QUALIFIED when a new lead has known dates and group size
+ * @throws {400} Validation error if input is invalid
+ * @throws {401} Unauthorized if not authenticated
+ * @throws {403} Forbidden if client belongs to different organization
+ * @throws {404} Not found if client doesn't exist
+ */
+router.put('/:id/trip-requirements', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const { id } = req.params;
+    const body = updateTripRequirementsSchema.parse(req.body);
+
+    const client = await prisma.client.findUnique({
+      where: { id },
+      select: { id: true, organizationId: true, status: true, tripRequirements: true },
+    });
+
+    if (!client) {
+      res.status(404).json({ error: 'Client not found' });
+      return;
+    }
+
+    if (client.organizationId !== req.user.organizationId) {
+      res.status(403).json({ error: 'Access denied to this client' });
+      return;
+    }
+
+    const values = toTripRequirementsValues(client.tripRequirements);
+    const meta: TripRequirementsMeta = toTripRequirementsMeta(client.tripRequirements);
+    const now = new Date();
+
+    Object.assign(values, {
+      ...body,
+      travelStartDate:
+        body.travelStartDate === undefined ? values.travelStartDate : body.travelStartDate && new Date(body.travelStartDate),
+      travelEndDate:
+        body.travelEndDate === undefined ? values.travelEndDate : body.travelEndDate && new Date(body.travelEndDate),
+    });
+
+    for (const field of TRIP_REQUIREMENT_FIELDS) {
+      const columns = TRIP_REQUIREMENT_COLUMNS[field];
+      if (!columns.some((column) => body[column] !== undefined)) {
+        continue;
+      }
+
+      const isEmpty = columns.every((column) => {
+        const value = values[column];
+        return value === null || (Array.isArray(value) && value.length === 0);
+      });
+
+      if (isEmpty) {
+        delete meta[field];
+      } else {
+        meta[field] = { confidence: 1, sourceMessageIds: [], updatedBy: 'HUMAN', updatedAt: now.toISOString() };
+      }
+    }
+
+    const data = { ...values, fieldMeta: meta as Prisma.InputJsonObject };
+    const tripRequirements = await prisma.tripRequirements.upsert({
+      where: { clientId: id },
+      create: { organizationId: req.user.organizationId, clientId: id, ...data },
+      update: data,
+    });
+
+    res.json({
+      data: formatTripRequirements(tripRequirements),
+      proposedStatus: proposeClientStatus(client.status, values, meta),
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Validation error', details: error.errors });
+      return;
+    }
+
+    console.error('Error updating trip requirements:', error);
+    res.status(500).json({
+      error: 'Failed to update trip requirements',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+/**
+ * GET /api/clients/:id/products
+ * 
+ * Get products and tours for a specific client.
+ * Returns both client products (interested products) and client tours (selected tours).
+ * Product prices are also converted to the organization's reporting currency
+ * (reportingPrice) and the client's preferred currency (clientPrice).
+ * 
+ * @route GET /api/clients/:id/products
+ * @access Private (requires authentication)
+ * @param {string} id - Client UUID
+ * @returns {Object} products - Array of client product objects
+ * @returns {Object} tours - Array of client tour objects
+ * @throws {401} Unauthorized if not authenticated
+ * @throws {403} Forbidden if client belongs to different organization
+ * @throws {404} Not found if client doesn't exist
+ */
+router.get('/:id/products', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const { id } = req.params;
+
+    // Verify client exists and belongs to user's organization
+    const client = await prisma.client.findUnique({
+      where: { id },
+      select: { id: true, organizationId: true, preferredCurrency: true },
+    });
+
+    if (!client) {
+      res.status(404).json({ error: 'Client not found' });
+      return;
+    }
+
+    if (client.organizationId !== req.user.organizationId) {
+      res.status(403).json({ error: 'Access denied to this client' });
+      return;
+    }
+
+    // Get client products with product details
+    const clientProducts = await prisma.clientProduct.findMany({
+      where: {
+        clientId: id,
+      },
+      include: {
+        product: {
+          select: {
+            id: true,
+            name: true,
+            description: true,
+            basePrice: true,
+            currency: true,
+            type: true,
+            options: true,
+          },
+        },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    // Get client tours with tour details
+    const clientTours = await prisma.clientTour.findMany({
+      where: {
+        clientId: id,
+      },
+      include: clientTourInclude,
+      orderBy: { createdAt: 'desc' },
+    });
+
+    const { reportingCurrency, rates } = await loadCurrencyContext(prisma, req.user.organizationId);
+
+    res.json({
+      products: clientProducts.map((cp) => {
+        const basePrice = cp.product.basePrice.toString();
+
+        return {
+          id: cp.id,
+          productId: cp.productId,
+          product: {
+            id: cp.product.id,
+            name: cp.product.name,
+            description: cp.product.description,
+            basePrice,
+            currency: cp.product.currency,
+            reportingPrice: toDisplayCurrency(basePrice, cp.product.currency, reportingCurrency, rates),
+            clientPrice: toDisplayCurrency(basePrice, cp.product.currency, client.preferredCurrency, rates),
+            type: cp.product.type,
+            options: (cp.product.options as ProductOptionInput[] | null) || [],
+          },
+          status: cp.status,
+          notes: cp.notes,
+          createdAt: cp.createdAt.toISOString(),
+          updatedAt: cp.updatedAt.toISOString(),
+        };
+      }),
+      tours: clientTours.map(formatClientTour),
+    });
+  } catch (error) {
+    console.error('Error fetching client products:', error);
+    res.status(500).json({
+      error: 'Failed to fetch client products',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+/**
+ * POST /api/clients/:id/products
+ * 
+ * Add a product to a client's interested products list.
+ * Creates a ClientProduct record linking the client to a product.
+ * 
+ * @route POST /api/clients/:id/products
+ * @access Private (requires authentication)
+ * @param {string} id - Client UUID
+ * @body {string} productId - Product UUID (required)
+ * @body {string} [status=INTERESTED] - Product status (optional, default: INTERESTED)
+ * @body {string} [notes] - Notes about this product interest (optional)
+ * @returns {Object} Created client product object
+ * @throws {400} Validation error if input is invalid
+ * @throws {401} Unauthorized if not authenticated
+ * @throws {403} Forbidden if client belongs to different organization
+ * @throws {404} Not found if client or product doesn't exist
+ * @throws {409} Conflict if product is already added to client
  */
 router.post('/:id/products', authenticateToken, async (req: Request, res: Response) => {
   try {
@@ -1237,5 +1925,627 @@ router.delete('/:id/products/:productId', authenticateToken, async (req: Request
   }
 });
 
-export default router;
+/**
+ * GET /api/clients/:id/product-recommendations
+ * 
+ * Get pending product suggestions from the PRODUCT_SELECTION agent,
+ * best match first.
+ * 
+ * @route GET /api/clients/:id/product-recommendations
+ * @access Private (requires authentication)
+ * @param {string} id - Client UUID
+ * @returns {Object[]} data - Pending recommendations with product and departure
+ * @throws {401} Unauthorized if not authenticated
+ * @throws {403} Forbidden if client belongs to different organization
+ * @throws {404} Not found if client doesn't exist
+ */
+router.get('/:id/product-recommendations', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const { id } = req.params;
+
+    const client = await prisma.client.findUnique({
+      where: { id },
+      select: { id: true, organizationId: true },
+    });
 
+    if (!client) {
+      res.status(404).json({ error: 'Client not found' });
+      return;
+    }
+
+    if (client.organizationId !== req.user.organizationId) {
+      res.status(403).json({ error: 'Access denied to this client' });
+      return;
+    }
+
+    const recommendations = await prisma.productRecommendation.findMany({
+      where: { clientId: id, status: 'PENDING' },
+      include: productRecommendationInclude,
+      orderBy: { rank: 'asc' },
+    });
+
+    res.json({ data: recommendations.map(formatProductRecommendation) });
+  } catch (error) {
+    console.error('Error fetching product recommendations:', error);
+    res.status(500).json({
+      error: 'Failed to fetch product recommendations',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+/**
+ * POST /api/clients/:id/product-recommendations
+ * 
+ * Rank active catalog products and available departures for the client
+ * with the PRODUCT_SELECTION agent, using the conversation and trip
+ * requirements. Replaces the client's pending recommendations.
+ * The agent sees at most 50 products: those with available departures
+ * around the client's travel dates first, then the rest. Products the
+ * client already has or that were dismissed in the last 90 days are skipped.
+ * 
+ * @route POST /api/clients/:id/product-recommendations
+ * @access Private (requires authentication)
+ * @param {string} id - Client UUID
+ * @body {number} [limit=5] - Maximum number of recommendations (1-10)
+ * @returns {Object[]} data - New recommendations, best match first
+ * @throws {400} Bad request if validation fails or the client has no messages or trip requirements
+ * @throws {401} Unauthorized if not authenticated
+ * @throws {402} Payment required if the organization's LLM budget is exhausted
+ * @throws {403} Forbidden if client belongs to different organization
+ * @throws {404} Not found if client doesn't exist
+ * @throws {503} Service unavailable if no LLM provider is configured
+ */
+router.post('/:id/product-recommendations', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const { id } = req.params;
+    const { limit } = recommendProductsSchema.parse(req.body);
+
+    const client = await prisma.client.findUnique({
+      where: { id },
+      select: {
+        id: true,
+        organizationId: true,
+        tripRequirements: { select: { id: true } },
+        _count: { select: { conversations: { where: { messages: { some: {} } } } } },
+      },
+    });
+
+    if (!client) {
+      res.status(404).json({ error: 'Client not found' });
+      return;
+    }
+
+    if (client.organizationId !== req.user.organizationId) {
+      res.status(403).json({ error: 'Access denied to this client' });
+      return;
+    }
+
+    if (!client.tripRequirements && client._count.conversations === 0) {
+      res.status(400).json({ error: 'Client has no messages or trip requirements to match products against' });
+      return;
+    }
+
+    const agent = createProductSelectionAgent();
+    if (!agent) {
+      res.status(503).json({ error: 'No LLM provider is configured' });
+      return;
+    }
+
+    const created = await agent.recommendProducts({
+      organizationId: req.user.organizationId,
+      clientId: id,
+      limit,
+    });
+
+    const recommendations = await prisma.productRecommendation.findMany({
+      where: { id: { in: created.map((recommendation) => recommendation.id) } },
+      include: productRecommendationInclude,
+      orderBy: { rank: 'asc' },
+    });
+
+    res.status(201).json({ data: recommendations.map(formatProductRecommendation) });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Validation error', details: error.errors });
+      return;
+    }
+
+    if (error instanceof LLMProviderError && error.code === 'BUDGET_EXCEEDED') {
+      res.status(402).json({ error: 'LLM budget exceeded', message: error.message });
+      return;
+    }
+
+    console.error('Error recommending products:', error);
+    res.status(500).json({
+      error: 'Failed to recommend products',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+/**
+ * POST /api/clients/:id/product-recommendations/:recommendationId/accept
+ * 
+ * Accept a pending recommendation: the product is added to the client
+ * as INTERESTED with the agent's explanation as the note. If a departure
+ * was recommended, it is added to the client's tours as INTERESTED too
+ * (no seats are held). Client products and tours added meanwhile are kept.
+ * 
+ * @route POST /api/clients/:id/product-recommendations/:recommendationId/accept
+ * @access Private (requires authentication)
+ * @param {string} id - Client UUID
+ * @param {string} recommendationId - Recommendation UUID
+ * @returns {Object} recommendation - Accepted recommendation
+ * @returns {Object} clientProduct - Client product for the recommended product
+ * @returns {Object|null} clientTour - Client tour for the recommended departure, if any
+ * @throws {401} Unauthorized if not authenticated
+ * @throws {403} Forbidden if client belongs to different organization
+ * @throws {404} Not found if client or recommendation doesn't exist
+ * @throws {409} Conflict if the recommendation was already accepted or dismissed
+ */
+router.post(
+  '/:id/product-recommendations/:recommendationId/accept',
+  authenticateToken,
+  async (req: Request, res: Response) => {
+    try {
+      if (!req.user) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const { id, recommendationId } = req.params;
+      const { userId } = req.user;
+
+      const client = await prisma.client.findUnique({
+        where: { id },
+        select: { id: true, organizationId: true },
+      });
+
+      if (!client) {
+        res.status(404).json({ error: 'Client not found' });
+        return;
+      }
+
+      if (client.organizationId !== req.user.organizationId) {
+        res.status(403).json({ error: 'Access denied to this client' });
+        return;
+      }
+
+      const existing = await prisma.productRecommendation.findFirst({
+        where: { id: recommendationId, clientId: id },
+      });
+
+      if (!existing) {
+        res.status(404).json({ error: 'Product recommendation not found' });
+        return;
+      }
+
+      if (existing.status !== 'PENDING') {
+        res.status(409).json({ error: `Product recommendation is already ${existing.status.toLowerCase()}` });
+        return;
+      }
+
+      const result = await prisma.$transaction(async (tx) => {
+        // Conditional update: fails if another request reviewed the recommendation meanwhile
+        const { count } = await tx.productRecommendation.updateMany({
+          where: { id: existing.id, status: 'PENDING' },
+          data: { status: 'ACCEPTED', reviewedById: userId, reviewedAt: new Date() },
+        });
+
+        if (count === 0) {
+          throw new ProductRecommendationConflictError();
+        }
+
+        const clientProduct = await tx.clientProduct.upsert({
+          where: { clientId_productId: { clientId: id, productId: existing.productId } },
+          create: {
+            clientId: id,
+            productId: existing.productId,
+            status: 'INTERESTED',
+            notes: existing.explanation,
+          },
+          update: {},
+        });
+
+        const clientTour = existing.tourId
+          ? await tx.clientTour.upsert({
+              where: { clientId_tourId: { clientId: id, tourId: existing.tourId } },
+              create: {
+                clientId: id,
+                tourId: existing.tourId,
+                status: 'INTERESTED',
+                notes: existing.explanation,
+              },
+              update: {},
+              include: clientTourInclude,
+            })
+          : null;
+
+        const recommendation = await tx.productRecommendation.findUniqueOrThrow({
+          where: { id: existing.id },
+          include: productRecommendationInclude,
+        });
+
+        return { recommendation, clientProduct, clientTour };
+      });
+
+      res.json({
+        recommendation: formatProductRecommendation(result.recommendation),
+        clientProduct: {
+          id: result.clientProduct.id,
+          productId: result.clientProduct.productId,
+          status: result.clientProduct.status,
+          notes: result.clientProduct.notes,
+          createdAt: result.clientProduct.createdAt.toISOString(),
+          updatedAt: result.clientProduct.updatedAt.toISOString(),
+        },
+        clientTour: result.clientTour ? formatClientTour(result.clientTour) : null,
+      });
+    } catch (error) {
+      if (error instanceof ProductRecommendationConflictError) {
+        res.status(409).json({
+          error: 'Product recommendation was reviewed by another request. Please reload and try again.',
+        });
+        return;
+      }
+
+      console.error('Error accepting product recommendation:', error);
+      res.status(500).json({
+        error: 'Failed to accept product recommendation',
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/clients/:id/product-recommendations/:recommendationId/dismiss
+ * 
+ * Dismiss a pending recommendation. The client's products are not changed.
+ * 
+ * @route POST /api/clients/:id/product-recommendations/:recommendationId/dismiss
+ * @access Private (requires authentication)
+ * @param {string} id - Client UUID
+ * @param {string} recommendationId - Recommendation UUID
+ * @returns {Object} Dismissed recommendation
+ * @throws {401} Unauthorized if not authenticated
+ * @throws {403} Forbidden if client belongs to different organization
+ * @throws {404} Not found if client or recommendation doesn't exist
+ * @throws {409} Conflict if the recommendation was already accepted or dismissed
+ */
+router.post(
+  '/:id/product-recommendations/:recommendationId/dismiss',
+  authenticateToken,
+  async (req: Request, res: Response) => {
+    try {
+      if (!req.user) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const { id, recommendationId } = req.params;
+
+      const client = await prisma.client.findUnique({
+        where: { id },
+        select: { id: true, organizationId: true },
+      });
+
+      if (!client) {
+        res.status(404).json({ error: 'Client not found' });
+        return;
+      }
+
+      if (client.organizationId !== req.user.organizationId) {
+        res.status(403).json({ error: 'Access denied to this client' });
+        return;
+      }
+
+      const { count } = await prisma.productRecommendation.updateMany({
+        where: { id: recommendationId, clientId: id, status: 'PENDING' },
+        data: { status: 'DISMISSED', reviewedById: req.user.userId, reviewedAt: new Date() },
+      });
+
+      const recommendation = await prisma.productRecommendation.findFirst({
+        where: { id: recommendationId, clientId: id },
+        include: productRecommendationInclude,
+      });
+
+      if (!recommendation) {
+        res.status(404).json({ error: 'Product recommendation not found' });
+        return;
+      }
+
+      if (count === 0) {
+        res.status(409).json({ error: `Product recommendation is already ${recommendation.status.toLowerCase()}` });
+        return;
+      }
+
+      res.json(formatProductRecommendation(recommendation));
+    } catch (error) {
+      console.error('Error dismissing product recommendation:', error);
+      res.status(500).json({
+        error: 'Failed to dismiss product recommendation',
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/clients/:id/tours
+ * 
+ * Add a tour departure to a client's booking workflow without reserving seats.
+ * Use PATCH /api/clients/:id/tours/:clientTourId/status to book it.
+ * 
+ * @route POST /api/clients/:id/tours
+ * @access Private (requires authentication)
+ * @param {string} id - Client UUID
+ * @body {string} tourId - Tour UUID (required)
+ * @body {string} [status=INTERESTED] - Initial status (INTERESTED, PROPOSED, SELECTED)
+ * @body {number} [participants] - Number of participants
+ * @body {string} [notes] - Notes about this tour (optional)
+ * @returns {Object} Created client tour object
+ * @throws {400} Validation error if input is invalid
+ * @throws {401} Unauthorized if not authenticated
+ * @throws {403} Forbidden if client or tour belongs to different organization
+ * @throws {404} Not found if client or tour doesn't exist
+ * @throws {409} Conflict if tour is already added to client
+ */
+router.post('/:id/tours', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const { id } = req.params;
+    const { tourId, status, participants, notes } = addTourSchema.parse(req.body);
+
+    // Verify client exists and belongs to user's organization
+    const client = await prisma.client.findUnique({
+      where: { id },
+      select: { id: true, organizationId: true },
+    });
+
+    if (!client) {
+      res.status(404).json({ error: 'Client not found' });
+      return;
+    }
+
+    if (client.organizationId !== req.user.organizationId) {
+      res.status(403).json({ error: 'Access denied to this client' });
+      return;
+    }
+
+    // Verify tour exists and belongs to same organization
+    const tour = await prisma.tour.findUnique({
+      where: { id: tourId },
+      select: { id: true, organizationId: true },
+    });
+
+    if (!tour) {
+      res.status(404).json({ error: 'Tour not found' });
+      return;
+    }
+
+    if (tour.organizationId !== req.user.organizationId) {
+      res.status(403).json({ error: 'Access denied to this tour' });
+      return;
+    }
+
+    const clientTour = await prisma.clientTour.create({
+      data: {
+        clientId: id,
+        tourId,
+        status,
+        participants: participants ?? null,
+        notes: notes || null,
+      },
+      include: clientTourInclude,
+    });
+
+    res.status(201).json(formatClientTour(clientTour));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Validation error', details: error.errors });
+      return;
+    }
+
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      res.status(409).json({ error: 'Tour is already added to this client' });
+      return;
+    }
+
+    console.error('Error adding tour to client:', error);
+    res.status(500).json({
+      error: 'Failed to add tour to client',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+/**
+ * PATCH /api/clients/:id/tours/:clientTourId/status
+ * 
+ * Move a client tour through the booking workflow:
+ * INTERESTED → PROPOSED → SELECTED → BOOKED → CONFIRMED, or CANCELLED.
+ * Booking reserves seats on the tour, cancelling a booking releases them.
+ * Confirming records the partner's commission in the settlement ledger;
+ * cancelling a confirmed booking voids it unless it was already paid.
+ * With markClientSold the client is moved to SOLD on BOOKED/CONFIRMED
+ * and a status history entry is created.
+ * 
+ * @route PATCH /api/clients/:id/tours/:clientTourId/status
+ * @access Private (requires authentication)
+ * @param {string} id - Client UUID
+ * @param {string} clientTourId - ClientTour UUID
+ * @body {string} status - New booking status (required)
+ * @body {number} [participants] - Number of participants (can be changed until the tour is booked)
+ * @body {string} [reason] - Reason for the client status change (optional)
+ * @body {boolean} [markClientSold=false] - Move the client to SOLD on BOOKED/CONFIRMED
+ * @returns {Object} Updated client tour object
+ * @returns {Object} clientStatus - Client status after the change
+ * @throws {400} Validation error if input is invalid or transition is not allowed
+ * @throws {401} Unauthorized if not authenticated
+ * @throws {403} Forbidden if client belongs to different organization
+ * @throws {404} Not found if client or client tour doesn't exist
+ * @throws {409} Conflict if the tour has not enough seats or the booking was changed concurrently
+ */
+router.patch('/:id/tours/:clientTourId/status', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const { id, clientTourId } = req.params;
+    const { status, participants, reason, markClientSold } = updateTourStatusSchema.parse(req.body);
+    const { organizationId, userId } = req.user;
+
+    // Verify client exists and belongs to user's organization
+    const client = await prisma.client.findUnique({
+      where: { id },
+      select: { id: true, organizationId: true },
+    });
+
+    if (!client) {
+      res.status(404).json({ error: 'Client not found' });
+      return;
+    }
+
+    if (client.organizationId !== organizationId) {
+      res.status(403).json({ error: 'Access denied to this client' });
+      return;
+    }
+
+    const existingClientTour = await prisma.clientTour.findUnique({
+      where: { id: clientTourId },
+      select: { id: true, clientId: true, tourId: true, status: true, participants: true },
+    });
+
+    if (!existingClientTour || existingClientTour.clientId !== id) {
+      res.status(404).json({ error: 'Tour not found for this client' });
+      return;
+    }
+
+    if (!canTransitionClientTour(existingClientTour.status, status)) {
+      res.status(400).json({
+        error: `Cannot change booking status from ${existingClientTour.status} to ${status}`,
+        allowedStatuses: getNextClientTourStatuses(existingClientTour.status),
+      });
+      return;
+    }
+
+    const wasHoldingSeats = holdsSeats(existingClientTour.status);
+    const willHoldSeats = holdsSeats(status);
+
+    // Seats are fixed once reserved; change them by cancelling and booking again
+    if (participants !== undefined && wasHoldingSeats && participants !== existingClientTour.participants) {
+      res.status(400).json({ error: 'Participants cannot be changed after booking' });
+      return;
+    }
+
+    const newParticipants = participants ?? existingClientTour.participants;
+
+    const result = await prisma.$transaction(async (tx) => {
+      // Conditional update: fails if another request changed the status meanwhile
+      const { count } = await tx.clientTour.updateMany({
+        where: { id: clientTourId, status: existingClientTour.status },
+        data: {
+          status,
+          participants: newParticipants,
+        },
+      });
+
+      if (count === 0) {
+        throw new ClientTourStatusConflictError();
+      }
+
+      if (!wasHoldingSeats && willHoldSeats) {
+        await reserveSeats(tx, existingClientTour.tourId, getSeatCount(newParticipants));
+      } else if (wasHoldingSeats && !willHoldSeats) {
+        await releaseSeats(tx, existingClientTour.tourId, getSeatCount(existingClientTour.participants));
+      }
+
+      if (status === 'CONFIRMED') {
+        await recordConfirmedBooking(tx, clientTourId);
+      } else if (existingClientTour.status === 'CONFIRMED') {
+        await voidUnpaidEntry(tx, clientTourId);
+      }
+
+      const currentClient = await tx.client.findUniqueOrThrow({
+        where: { id },
+        select: { status: true },
+      });
+
+      let clientStatus = currentClient.status;
+
+      if (markClientSold && willHoldSeats && currentClient.status !== 'SOLD') {
+        await tx.client.update({
+          where: { id },
+          data: { status: 'SOLD' },
+        });
+
+        await tx.clientStatusHistory.create({
+          data: {
+            clientId: id,
+            organizationId,
+            oldStatus: currentClient.status,
+            newStatus: 'SOLD',
+            changedBy: 'HUMAN',
+            changedById: userId,
+            reason: reason || `Tour booking ${status.toLowerCase()}`,
+          },
+        });
+
+        clientStatus = 'SOLD';
+      }
+
+      const clientTour = await tx.clientTour.findUniqueOrThrow({
+        where: { id: clientTourId },
+        include: clientTourInclude,
+      });
+
+      return { clientTour, clientStatus };
+    });
+
+    res.json({
+      ...formatClientTour(result.clientTour),
+      clientStatus: result.clientStatus,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Validation error', details: error.errors });
+      return;
+    }
+
+    if (error instanceof TourCapacityError) {
+      res.status(error.code === 'TOUR_NOT_FOUND' ? 404 : 409).json({ error: error.message, code: error.code });
+      return;
+    }
+
+    if (error instanceof ClientTourStatusConflictError) {
+      res.status(409).json({ error: 'Booking was changed by another request. Please reload and try again.' });
+      return;
+    }
+
+    console.error('Error updating client tour status:', error);
+    res.status(500).json({
+      error: 'Failed to update client tour status',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+export default router;
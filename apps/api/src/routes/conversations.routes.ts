@@ -0,0 +1,426 @@
+/**
+ * Conversations Routes
+ *
+ * API endpoints for reply drafts prepared by the COMMUNICATION agent.
+ * A draft becomes an outgoing message only after a manager approves it.
+ */
+
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { prisma, Prisma } from '@soul-kg-crm/database';
+import { LLMProviderError } from '@soul-kg-crm/agents';
+import { authenticateToken } from '../middleware/auth.middleware';
+import { createCommunicationAgent } from '../utils/agents';
+
+const router = Router();
+
+// Reply draft status enum (must match Prisma schema)
+const ReplyDraftStatusEnum = z.enum(['PENDING', 'SENT', 'REJECTED']);
+
+// Validation schemas
+const listDraftsQuerySchema = z.object({
+  status: ReplyDraftStatusEnum.optional(),
+});
+
+const createDraftSchema = z.object({
+  instructions: z.string().max(500).optional(),
+});
+
+const approveDraftSchema = z.object({
+  content: z.string().trim().min(1, 'Reply cannot be empty').max(4096).optional(),
+});
+
+const replyDraftInclude = {
+  promptVariant: {
+    select: { id: true, name: true },
+  },
+  reviewedBy: {
+    select: { id: true, firstName: true, lastName: true },
+  },
+} satisfies Prisma.ReplyDraftInclude;
+
+type ReplyDraftWithRelations = Prisma.ReplyDraftGetPayload<{ include: typeof replyDraftInclude }>;
+
+/**
+ * Format reply draft for API response
+ */
+function formatReplyDraft(draft: ReplyDraftWithRelations) {
+  return {
+    id: draft.id,
+    conversationId: draft.conversationId,
+    kind: draft.kind,
+    followUpAttempt: draft.followUpAttempt,
+    content: draft.content,
+    rationale: draft.rationale,
+    language: draft.language,
+    model: draft.model,
+    status: draft.status,
+    promptVariant: draft.promptVariant,
+    sentMessageId: draft.sentMessageId,
+    reviewedBy: draft.reviewedBy,
+    reviewedAt: draft.reviewedAt?.toISOString() || null,
+    createdAt: draft.createdAt.toISOString(),
+    updatedAt: draft.updatedAt.toISOString(),
+  };
+}
+
+/**
+ * Thrown inside the approve transaction when the draft was reviewed concurrently
+ */
+class ReplyDraftConflictError extends Error {}
+
+/**
+ * Load a conversation and check that it belongs to the user's organization.
+ * Sends the 404/403 response and returns null otherwise.
+ */
+async function findConversation(req: Request, res: Response) {
+  const conversation = await prisma.conversation.findUnique({
+    where: { id: req.params.id },
+    select: { id: true, organizationId: true },
+  });
+
+  if (!conversation) {
+    res.status(404).json({ error: 'Conversation not found' });
+    return null;
+  }
+
+  if (conversation.organizationId !== req.user?.organizationId) {
+    res.status(403).json({ error: 'Access denied to this conversation' });
+    return null;
+  }
+
+  return conversation;
+}
+
+/**
+ * GET /api/conversations/:id/reply-drafts
+ *
+ * Get reply drafts of a conversation (newest first).
+ *
+ * @route GET /api/conversations/:id/reply-drafts
+ * @access Private (requires authentication)
+ * @param {string} id - Conversation UUID
+ * @query {string} [status] - Filter by status (PENDING, SENT, REJECTED)
+ * @returns {Object} data - Array of reply draft objects
+ * @throws {401} Unauthorized if not authenticated
+ * @throws {403} Forbidden if conversation belongs to different organization
+ * @throws {404} Not found if conversation doesn't exist
+ */
+router.get('/:id/reply-drafts', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const { status } = listDraftsQuerySchema.parse(req.query);
+
+    const conversation = await findConversation(req, res);
+    if (!conversation) {
+      return;
+    }
+
+    const drafts = await prisma.replyDraft.findMany({
+      where: {
+        conversationId: conversation.id,
+        organizationId: req.user.organizationId,
+        ...(status && { status }),
+      },
+      orderBy: { createdAt: 'desc' },
+      take: 20,
+      include: replyDraftInclude,
+    });
+
+    res.json({ data: drafts.map(formatReplyDraft) });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Validation error', details: error.errors });
+      return;
+    }
+
+    console.error('Error fetching reply drafts:', error);
+    res.status(500).json({
+      error: 'Failed to fetch reply drafts',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+/**
+ * POST /api/conversations/:id/reply-drafts
+ *
+ * Generate a reply draft with the COMMUNICATION agent.
+ * The agent reads the recent messages, the client's status, language and
+ * cultural context. The draft is tagged with the A/B prompt variant used.
+ *
+ * @route POST /api/conversations/:id/reply-drafts
+ * @access Private (requires authentication)
+ * @param {string} id - Conversation UUID
+ * @body {string} [instructions] - Manager hints for this reply
+ * @returns {Object} Created reply draft
+ * @throws {400} Bad request if validation fails or the conversation has no messages
+ * @throws {401} Unauthorized if not authenticated
+ * @throws {402} Payment required if the organization's LLM budget is exhausted
+ * @throws {403} Forbidden if conversation belongs to different organization
+ * @throws {404} Not found if conversation doesn't exist
+ * @throws {503} Service unavailable if no LLM provider is configured
+ */
+router.post('/:id/reply-drafts', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const { instructions } = createDraftSchema.parse(req.body);
+
+    const conversation = await findConversation(req, res);
+    if (!conversation) {
+      return;
+    }
+
+    const messageCount = await prisma.message.count({ where: { conversationId: conversation.id } });
+    if (messageCount === 0) {
+      res.status(400).json({ error: 'Conversation has no messages to reply to' });
+      return;
+    }
+
+    const agent = createCommunicationAgent();
+    if (!agent) {
+      res.status(503).json({ error: 'No LLM provider is configured' });
+      return;
+    }
+
+    const created = await agent.draftReply({
+      organizationId: req.user.organizationId,
+      conversationId: conversation.id,
+      instructions,
+    });
+
+    const draft = await prisma.replyDraft.findUniqueOrThrow({
+      where: { id: created.id },
+      include: replyDraftInclude,
+    });
+
+    res.status(201).json(formatReplyDraft(draft));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Validation error', details: error.errors });
+      return;
+    }
+
+    if (error instanceof LLMProviderError && error.code === 'BUDGET_EXCEEDED') {
+      res.status(402).json({ error: 'LLM budget exceeded', message: error.message });
+      return;
+    }
+
+    console.error('Error generating reply draft:', error);
+    res.status(500).json({
+      error: 'Failed to generate reply draft',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+/**
+ * POST /api/conversations/:id/reply-drafts/:draftId/approve
+ *
+ * Approve a pending draft and send it as an outgoing message.
+ * The message is queued with status PENDING for delivery over the
+ * conversation channel. An edited reply is sent as a HUMAN message,
+ * an unchanged one as AI; the draft keeps the original text so
+ * prompt variants can be compared by edit rate. A follow-up the client
+ * has replied after is rejected instead of sent.
+ *
+ * @route POST /api/conversations/:id/reply-drafts/:draftId/approve
+ * @access Private (requires authentication)
+ * @param {string} id - Conversation UUID
+ * @param {string} draftId - Reply draft UUID
+ * @body {string} [content] - Edited reply text (defaults to the draft)
+ * @returns {Object} draft - Updated reply draft
+ * @returns {Object} message - Created message
+ * @throws {400} Bad request if validation fails
+ * @throws {401} Unauthorized if not authenticated
+ * @throws {403} Forbidden if conversation belongs to different organization
+ * @throws {404} Not found if conversation or draft doesn't exist
+ * @throws {409} Conflict if the draft was already approved or rejected, or the client replied after a follow-up
+ */
+router.post('/:id/reply-drafts/:draftId/approve', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const { content } = approveDraftSchema.parse(req.body);
+    const { organizationId, userId } = req.user;
+
+    const conversation = await findConversation(req, res);
+    if (!conversation) {
+      return;
+    }
+
+    const existingDraft = await prisma.replyDraft.findFirst({
+      where: { id: req.params.draftId, conversationId: conversation.id },
+    });
+
+    if (!existingDraft) {
+      res.status(404).json({ error: 'Reply draft not found' });
+      return;
+    }
+
+    if (existingDraft.status !== 'PENDING') {
+      res.status(409).json({ error: `Reply draft is already ${existingDraft.status.toLowerCase()}` });
+      return;
+    }
+
+    // A follow-up is written for a silent client and is out of place once they reply
+    if (existingDraft.kind === 'FOLLOW_UP') {
+      const reply = await prisma.message.findFirst({
+        where: { conversationId: conversation.id, direction: 'INCOMING', createdAt: { gt: existingDraft.createdAt } },
+        select: { id: true },
+      });
+
+      if (reply) {
+        await prisma.replyDraft.updateMany({
+          where: { id: existingDraft.id, status: 'PENDING' },
+          data: { status: 'REJECTED', reviewedAt: new Date() },
+        });
+        res.status(409).json({ error: 'The client has replied since this follow-up was drafted' });
+        return;
+      }
+    }
+
+    const replyText = content ?? existingDraft.content;
+    const isEdited = replyText !== existingDraft.content;
+    const now = new Date();
+
+    const result = await prisma.$transaction(async (tx) => {
+      // Conditional update: fails if another request reviewed the draft meanwhile
+      const { count } = await tx.replyDraft.updateMany({
+        where: { id: existingDraft.id, status: 'PENDING' },
+        data: { status: 'SENT', reviewedById: userId, reviewedAt: now },
+      });
+
+      if (count === 0) {
+        throw new ReplyDraftConflictError();
+      }
+
+      const message = await tx.message.create({
+        data: {
+          conversationId: conversation.id,
+          organizationId,
+          direction: 'OUTGOING',
+          sender: isEdited ? 'HUMAN' : 'AI',
+          senderId: userId,
+          content: replyText,
+          language: existingDraft.language,
+          status: 'PENDING',
+        },
+      });
+
+      await tx.conversation.update({
+        where: { id: conversation.id },
+        data: { lastMessageAt: now },
+      });
+
+      const draft = await tx.replyDraft.update({
+        where: { id: existingDraft.id },
+        data: { sentMessageId: message.id },
+        include: replyDraftInclude,
+      });
+
+      return { draft, message };
+    });
+
+    res.json({
+      draft: formatReplyDraft(result.draft),
+      message: {
+        id: result.message.id,
+        conversationId: result.message.conversationId,
+        direction: result.message.direction,
+        sender: result.message.sender,
+        senderId: result.message.senderId,
+        content: result.message.content,
+        language: result.message.language,
+        status: result.message.status,
+        createdAt: result.message.createdAt.toISOString(),
+      },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Validation error', details: error.errors });
+      return;
+    }
+
+    if (error instanceof ReplyDraftConflictError) {
+      res.status(409).json({ error: 'Reply draft was reviewed by another request. Please reload and try again.' });
+      return;
+    }
+
+    console.error('Error approving reply draft:', error);
+    res.status(500).json({
+      error: 'Failed to approve reply draft',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+/**
+ * POST /api/conversations/:id/reply-drafts/:draftId/reject
+ *
+ * Reject a pending draft. Nothing is sent to the client.
+ *
+ * @route POST /api/conversations/:id/reply-drafts/:draftId/reject
+ * @access Private (requires authentication)
+ * @param {string} id - Conversation UUID
+ * @param {string} draftId - Reply draft UUID
+ * @returns {Object} Updated reply draft
+ * @throws {401} Unauthorized if not authenticated
+ * @throws {403} Forbidden if conversation belongs to different organization
+ * @throws {404} Not found if conversation or draft doesn't exist
+ * @throws {409} Conflict if the draft was already approved or rejected
+ */
+router.post('/:id/reply-drafts/:draftId/reject', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const conversation = await findConversation(req, res);
+    if (!conversation) {
+      return;
+    }
+
+    const { count } = await prisma.replyDraft.updateMany({
+      where: { id: req.params.draftId, conversationId: conversation.id, status: 'PENDING' },
+      data: { status: 'REJECTED', reviewedById: req.user.userId, reviewedAt: new Date() },
+    });
+
+    const draft = await prisma.replyDraft.findFirst({
+      where: { id: req.params.draftId, conversationId: conversation.id },
+      include: replyDraftInclude,
+    });
+
+    if (!draft) {
+      res.status(404).json({ error: 'Reply draft not found' });
+      return;
+    }
+
+    if (count === 0) {
+      res.status(409).json({ error: `Reply draft is already ${draft.status.toLowerCase()}` });
+      return;
+    }
+
+    res.json(formatReplyDraft(draft));
+  } catch (error) {
+    console.error('Error rejecting reply draft:', error);
+    res.status(500).json({
+      error: 'Failed to reject reply draft',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,259 @@
+/**
+ * Documents Routes
+ *
+ * API endpoints rendering client-facing documents (proposals and booking
+ * confirmations) as branded HTML or PDF
+ */
+
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { prisma } from '@soul-kg-crm/database';
+import { authenticateToken } from '../middleware/auth.middleware';
+import {
+  renderProposalHtml,
+  renderBookingConfirmationHtml,
+  resolveDocumentLanguage,
+  getBookingNumber,
+} from '../utils/document-templates';
+import { renderPdf } from '../utils/pdf-renderer';
+import { holdsSeats } from '../utils/client-tour-workflow';
+import type { ProposalItemSnapshot } from '../utils/proposal-pricing';
+import { loadRateTable, toDisplayCurrency } from '../utils/currency';
+
+const router = Router();
+
+// Validation schemas
+const documentQuerySchema = z.object({
+  format: z.enum(['html', 'pdf']).optional().default('html'),
+  // Overrides the client's preferred language
+  language: z.enum(['en', 'ru']).optional(),
+});
+
+type DocumentFormat = z.infer<typeof documentQuerySchema>['format'];
+
+/**
+ * Send a rendered document in the requested format
+ */
+async function sendDocument(res: Response, format: DocumentFormat, html: string, filename: string): Promise<void> {
+  if (format === 'html') {
+    res.type('html').send(html);
+    return;
+  }
+
+  const pdf = await renderPdf(html);
+  res.setHeader('Content-Type', 'application/pdf');
+  res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+  res.send(pdf);
+}
+
+/**
+ * GET /api/documents/proposals/:id
+ *
+ * Render a proposal version for the client, in the client's preferred language.
+ * The total is also shown in the client's preferred currency when a rate exists.
+ *
+ * @route GET /api/documents/proposals/:id
+ * @access Private (requires authentication)
+ * @param {string} id - Proposal UUID
+ * @query {string} [format=html] - Output format (html, pdf)
+ * @query {string} [language] - Document language (en, ru), defaults to the client's preferred language
+ * @returns {string|Buffer} HTML page or PDF file
+ * @throws {400} Validation error if query is invalid
+ * @throws {401} Unauthorized if not authenticated
+ * @throws {403} Forbidden if proposal belongs to different organization
+ * @throws {404} Not found if proposal doesn't exist
+ */
+router.get('/proposals/:id', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const { id } = req.params;
+    const query = documentQuerySchema.parse(req.query);
+
+    const proposal = await prisma.proposal.findUnique({
+      where: { id },
+      include: {
+        organization: { select: { name: true, logo: true } },
+        client: {
+          select: { firstName: true, lastName: true, phone: true, preferredLanguage: true, preferredCurrency: true },
+        },
+      },
+    });
+
+    if (!proposal) {
+      res.status(404).json({ error: 'Proposal not found' });
+      return;
+    }
+
+    if (proposal.organizationId !== req.user.organizationId) {
+      res.status(403).json({ error: 'Access denied to this proposal' });
+      return;
+    }
+
+    const language = query.language ?? resolveDocumentLanguage(proposal.client.preferredLanguage);
+    const totalAmount = proposal.totalAmount.toString();
+    const rates = await loadRateTable(prisma, proposal.organizationId);
+
+    const html = renderProposalHtml(
+      {
+        organization: proposal.organization,
+        client: proposal.client,
+        proposal: {
+          version: proposal.version,
+          title: proposal.title,
+          currency: proposal.currency,
+          totalAmount,
+          notes: proposal.notes,
+          createdAt: proposal.createdAt,
+          items: proposal.items as unknown as ProposalItemSnapshot[],
+        },
+        clientTotal: toDisplayCurrency(totalAmount, proposal.currency, proposal.client.preferredCurrency, rates),
+      },
+      language
+    );
+
+    await sendDocument(res, query.format, html, `proposal-v${proposal.version}.pdf`);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Validation error', details: error.errors });
+      return;
+    }
+
+    console.error('Error rendering proposal document:', error);
+    res.status(500).json({
+      error: 'Failed to render proposal document',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+/**
+ * GET /api/documents/bookings/:clientTourId
+ *
+ * Render a booking confirmation for a booked or confirmed client tour,
+ * in the client's preferred language.
+ *
+ * @route GET /api/documents/bookings/:clientTourId
+ * @access Private (requires authentication)
+ * @param {string} clientTourId - Client tour UUID
+ * @query {string} [format=html] - Output format (html, pdf)
+ * @query {string} [language] - Document language (en, ru), defaults to the client's preferred language
+ * @returns {string|Buffer} HTML page or PDF file
+ * @throws {400} Validation error if query is invalid
+ * @throws {401} Unauthorized if not authenticated
+ * @throws {403} Forbidden if client belongs to different organization
+ * @throws {404} Not found if client tour doesn't exist
+ * @throws {409} Conflict if the tour is not booked
+ */
+router.get('/bookings/:clientTourId', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const { clientTourId } = req.params;
+    const query = documentQuerySchema.parse(req.query);
+
+    const clientTour = await prisma.clientTour.findUnique({
+      where: { id: clientTourId },
+      include: {
+        client: {
+          select: {
+            organizationId: true,
+            firstName: true,
+            lastName: true,
+            phone: true,
+            preferredLanguage: true,
+            organization: { select: { name: true, logo: true } },
+          },
+        },
+        tour: {
+          select: {
+            startDate: true,
+            endDate: true,
+            price: true,
+            currency: true,
+            product: {
+              select: {
+                name: true,
+                description: true,
+                duration: true,
+                basePrice: true,
+                currency: true,
+                inclusions: true,
+                exclusions: true,
+              },
+            },
+          },
+        },
+      },
+    });
+
+    if (!clientTour) {
+      res.status(404).json({ error: 'Client tour not found' });
+      return;
+    }
+
+    if (clientTour.client.organizationId !== req.user.organizationId) {
+      res.status(403).json({ error: 'Access denied to this client' });
+      return;
+    }
+
+    if (!holdsSeats(clientTour.status)) {
+      res.status(409).json({ error: 'Booking confirmation is only available for booked tours' });
+      return;
+    }
+
+    const { client, tour } = clientTour;
+    const { product } = tour;
+    const language = query.language ?? resolveDocumentLanguage(client.preferredLanguage);
+
+    const html = renderBookingConfirmationHtml(
+      {
+        organization: client.organization,
+        client,
+        booking: {
+          id: clientTour.id,
+          status: clientTour.status,
+          participants: clientTour.participants || 1,
+          notes: clientTour.notes,
+          createdAt: clientTour.updatedAt,
+        },
+        tour: {
+          startDate: tour.startDate,
+          endDate: tour.endDate,
+          // Departure price overrides the product's base price
+          unitPrice: (tour.price ?? product.basePrice).toString(),
+          currency: tour.price !== null ? tour.currency : product.currency,
+        },
+        product: {
+          name: product.name,
+          description: product.description,
+          duration: product.duration,
+          inclusions: (product.inclusions as string[] | null) || [],
+          exclusions: (product.exclusions as string[] | null) || [],
+        },
+      },
+      language
+    );
+
+    await sendDocument(res, query.format, html, `booking-${getBookingNumber(clientTour.id)}.pdf`);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Validation error', details: error.errors });
+      return;
+    }
+
+    console.error('Error rendering booking confirmation:', error);
+    res.status(500).json({
+      error: 'Failed to render booking confirmation',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+export default router;
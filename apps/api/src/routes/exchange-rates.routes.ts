@@ -0,0 +1,425 @@
+/**
+ * Exchange Rates Routes
+ *
+ * API endpoints for maintaining the organization's exchange rates,
+ * importing them from a file and converting amounts between currencies
+ */
+
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { prisma, Prisma } from '@soul-kg-crm/database';
+import { authenticateToken, requireRole } from '../middleware/auth.middleware';
+import {
+  SUPPORTED_CURRENCIES,
+  ExchangeRateError,
+  ExchangeRateInput,
+  convertAmount,
+  findRate,
+  loadRateTable,
+  parseExchangeRateCsv,
+} from '../utils/currency';
+
+const router = Router();
+
+const CurrencyEnum = z.enum(SUPPORTED_CURRENCIES);
+
+// Validation schemas
+const createExchangeRateSchema = z
+  .object({
+    baseCurrency: CurrencyEnum,
+    quoteCurrency: CurrencyEnum,
+    rate: z.coerce.number().positive('Rate must be a positive number'),
+    effectiveDate: z.coerce.date().optional(),
+  })
+  .refine((body) => body.baseCurrency !== body.quoteCurrency, {
+    message: 'Base and quote currencies must differ',
+    path: ['quoteCurrency'],
+  });
+
+const importExchangeRatesSchema = z.object({
+  content: z.string().min(1, 'File is empty').max(200_000, 'File is too large'),
+  effectiveDate: z.coerce.date().optional(),
+});
+
+const listExchangeRatesQuerySchema = z.object({
+  currency: CurrencyEnum.optional(),
+  latest: z.enum(['true', 'false']).transform((value) => value === 'true').optional().default('false'),
+});
+
+const convertQuerySchema = z.object({
+  amount: z.coerce.number().nonnegative('Amount cannot be negative'),
+  from: CurrencyEnum,
+  to: CurrencyEnum,
+  date: z.coerce.date().optional(),
+});
+
+const exchangeRateSelect = {
+  id: true,
+  organizationId: true,
+  baseCurrency: true,
+  quoteCurrency: true,
+  rate: true,
+  effectiveDate: true,
+  source: true,
+  createdAt: true,
+  updatedAt: true,
+} satisfies Prisma.ExchangeRateSelect;
+
+type SelectedExchangeRate = Prisma.ExchangeRateGetPayload<{ select: typeof exchangeRateSelect }>;
+
+/**
+ * Convert an exchange rate row into the API response shape
+ */
+function formatExchangeRate(rate: SelectedExchangeRate) {
+  return {
+    id: rate.id,
+    organizationId: rate.organizationId,
+    baseCurrency: rate.baseCurrency,
+    quoteCurrency: rate.quoteCurrency,
+    rate: rate.rate.toString(),
+    effectiveDate: rate.effectiveDate.toISOString(),
+    source: rate.source,
+    createdAt: rate.createdAt.toISOString(),
+    updatedAt: rate.updatedAt.toISOString(),
+  };
+}
+
+/**
+ * Insert or overwrite a rate for its pair and effective date
+ */
+function upsertExchangeRate(
+  tx: Prisma.TransactionClient,
+  organizationId: string,
+  rate: ExchangeRateInput,
+  source: 'MANUAL' | 'IMPORT'
+) {
+  const data = {
+    rate: Number(rate.rate.toString()),
+    source,
+  };
+
+  return tx.exchangeRate.upsert({
+    where: {
+      organizationId_baseCurrency_quoteCurrency_effectiveDate: {
+        organizationId,
+        baseCurrency: rate.baseCurrency,
+        quoteCurrency: rate.quoteCurrency,
+        effectiveDate: rate.effectiveDate,
+      },
+    },
+    create: {
+      organizationId,
+      baseCurrency: rate.baseCurrency,
+      quoteCurrency: rate.quoteCurrency,
+      effectiveDate: rate.effectiveDate,
+      ...data,
+    },
+    update: data,
+    select: exchangeRateSelect,
+  });
+}
+
+/**
+ * GET /api/exchange-rates
+ *
+ * Get exchange rates of the authenticated user's organization, newest first,
+ * together with the reporting currency and the supported currencies.
+ *
+ * @route GET /api/exchange-rates
+ * @access Private (requires authentication)
+ * @query {string} [currency] - Only rates where this currency is base or quote
+ * @query {boolean} [latest=false] - Only the currently effective rate per pair ("true" or "false")
+ * @returns {Object} data - Array of exchange rate objects
+ * @returns {string} reportingCurrency - Organization's reporting currency
+ * @returns {string[]} supportedCurrencies - Currencies that can be used in rates
+ * @throws {400} Validation error if query is invalid
+ * @throws {401} Unauthorized if not authenticated
+ */
+router.get('/', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const { currency, latest } = listExchangeRatesQuerySchema.parse(req.query);
+
+    const where: Prisma.ExchangeRateWhereInput = {
+      organizationId: req.user.organizationId,
+    };
+
+    if (currency) {
+      where.OR = [{ baseCurrency: currency }, { quoteCurrency: currency }];
+    }
+
+    if (latest) {
+      where.effectiveDate = { lte: new Date() };
+    }
+
+    const [rates, organization] = await Promise.all([
+      prisma.exchangeRate.findMany({
+        where,
+        orderBy: [{ effectiveDate: 'desc' }, { baseCurrency: 'asc' }, { quoteCurrency: 'asc' }],
+        select: exchangeRateSelect,
+      }),
+      prisma.organization.findUnique({
+        where: { id: req.user.organizationId },
+        select: { reportingCurrency: true },
+      }),
+    ]);
+
+    // Rows are newest first, so the first row of each pair is the effective one
+    const seenPairs = new Set<string>();
+    const data = latest
+      ? rates.filter((rate) => {
+          const pair = `${rate.baseCurrency}/${rate.quoteCurrency}`;
+          if (seenPairs.has(pair)) return false;
+          seenPairs.add(pair);
+          return true;
+        })
+      : rates;
+
+    res.json({
+      data: data.map(formatExchangeRate),
+      reportingCurrency: organization?.reportingCurrency ?? 'USD',
+      supportedCurrencies: SUPPORTED_CURRENCIES,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Validation error', details: error.errors });
+      return;
+    }
+
+    console.error('Error fetching exchange rates:', error);
+    res.status(500).json({
+      error: 'Failed to fetch exchange rates',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+/**
+ * GET /api/exchange-rates/convert
+ *
+ * Convert an amount using the organization's rates. Pairs without a stored
+ * rate are resolved through the inverse rate or a shared third currency.
+ *
+ * @route GET /api/exchange-rates/convert
+ * @access Private (requires authentication)
+ * @query {number} amount - Amount to convert (required)
+ * @query {string} from - Source currency (required)
+ * @query {string} to - Target currency (required)
+ * @query {string} [date] - Use rates effective at this date (default: now)
+ * @returns {string} amount - Converted amount (2 decimals)
+ * @returns {string} currency - Target currency
+ * @returns {number} rate - Rate applied to 1 unit of the source currency
+ * @throws {400} Validation error if query is invalid
+ * @throws {401} Unauthorized if not authenticated
+ * @throws {404} Not found if there is no rate between the currencies
+ */
+router.get('/convert', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const { amount, from, to, date } = convertQuerySchema.parse(req.query);
+
+    const rates = await loadRateTable(prisma, req.user.organizationId, date);
+
+    res.json({
+      amount: convertAmount(amount, from, to, rates),
+      currency: to,
+      rate: findRate(rates, from, to),
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Validation error', details: error.errors });
+      return;
+    }
+
+    if (error instanceof ExchangeRateError) {
+      res.status(404).json({ error: error.message });
+      return;
+    }
+
+    console.error('Error converting amount:', error);
+    res.status(500).json({
+      error: 'Failed to convert amount',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+/**
+ * POST /api/exchange-rates
+ *
+ * Set a rate for a currency pair. A rate for the same pair and effective
+ * date is overwritten. Only ADMIN and SUPER_ADMIN roles can maintain rates.
+ *
+ * @route POST /api/exchange-rates
+ * @access Private (requires ADMIN or SUPER_ADMIN role)
+ * @body {string} baseCurrency - Currency being priced (required)
+ * @body {string} quoteCurrency - Currency the rate is expressed in (required)
+ * @body {number} rate - Units of quoteCurrency for 1 unit of baseCurrency (required, positive)
+ * @body {string} [effectiveDate] - Date the rate applies from (default: now)
+ * @returns {Object} Saved exchange rate object
+ * @throws {400} Validation error if input is invalid
+ * @throws {401} Unauthorized if not authenticated
+ * @throws {403} Forbidden if user doesn't have ADMIN role
+ */
+router.post('/', authenticateToken, requireRole('ADMIN', 'SUPER_ADMIN'), async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const body = createExchangeRateSchema.parse(req.body);
+
+    const rate = await upsertExchangeRate(
+      prisma,
+      req.user.organizationId,
+      {
+        baseCurrency: body.baseCurrency,
+        quoteCurrency: body.quoteCurrency,
+        rate: body.rate,
+        effectiveDate: body.effectiveDate ?? new Date(),
+      },
+      'MANUAL'
+    );
+
+    res.status(201).json(formatExchangeRate(rate));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Validation error', details: error.errors });
+      return;
+    }
+
+    console.error('Error saving exchange rate:', error);
+    res.status(500).json({
+      error: 'Failed to save exchange rate',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+/**
+ * POST /api/exchange-rates/import
+ *
+ * Import rates from a CSV file: one `base,quote,rate[,effectiveDate]` row per line
+ * (comma or semicolon separated, optional header). Rows without a date use
+ * effectiveDate. All rows are saved in one transaction; a malformed row
+ * rejects the whole file.
+ *
+ * @route POST /api/exchange-rates/import
+ * @access Private (requires ADMIN or SUPER_ADMIN role)
+ * @body {string} content - File contents (required)
+ * @body {string} [effectiveDate] - Date for rows without one (default: now)
+ * @returns {number} imported - Number of saved rates
+ * @returns {Object} data - Array of saved exchange rate objects
+ * @throws {400} Validation error if input is invalid or a row is malformed
+ * @throws {401} Unauthorized if not authenticated
+ * @throws {403} Forbidden if user doesn't have ADMIN role
+ */
+router.post('/import', authenticateToken, requireRole('ADMIN', 'SUPER_ADMIN'), async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const body = importExchangeRatesSchema.parse(req.body);
+    const rows = parseExchangeRateCsv(body.content, body.effectiveDate ?? new Date());
+
+    if (rows.length === 0) {
+      res.status(400).json({ error: 'File contains no exchange rates' });
+      return;
+    }
+
+    const organizationId = req.user.organizationId;
+
+    const rates = await prisma.$transaction(async (tx) => {
+      const saved = [];
+      for (const row of rows) {
+        saved.push(await upsertExchangeRate(tx, organizationId, row, 'IMPORT'));
+      }
+      return saved;
+    });
+
+    res.status(201).json({
+      imported: rates.length,
+      data: rates.map(formatExchangeRate),
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Validation error', details: error.errors });
+      return;
+    }
+
+    if (error instanceof ExchangeRateError) {
+      res.status(400).json({ error: error.message, code: error.code });
+      return;
+    }
+
+    console.error('Error importing exchange rates:', error);
+    res.status(500).json({
+      error: 'Failed to import exchange rates',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+/**
+ * DELETE /api/exchange-rates/:id
+ *
+ * Delete an exchange rate. The previous rate of the pair becomes effective again.
+ *
+ * @route DELETE /api/exchange-rates/:id
+ * @access Private (requires ADMIN or SUPER_ADMIN role)
+ * @param {string} id - Exchange rate UUID
+ * @returns {Object} success - Success indicator
+ * @throws {401} Unauthorized if not authenticated
+ * @throws {403} Forbidden if rate belongs to different organization
+ * @throws {404} Not found if rate doesn't exist
+ */
+router.delete('/:id', authenticateToken, requireRole('ADMIN', 'SUPER_ADMIN'), async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const { id } = req.params;
+
+    const existingRate = await prisma.exchangeRate.findUnique({
+      where: { id },
+      select: { id: true, organizationId: true },
+    });
+
+    if (!existingRate) {
+      res.status(404).json({ error: 'Exchange rate not found' });
+      return;
+    }
+
+    if (existingRate.organizationId !== req.user.organizationId) {
+      res.status(403).json({ error: 'Access denied to this exchange rate' });
+      return;
+    }
+
+    await prisma.exchangeRate.delete({
+      where: { id },
+    });
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting exchange rate:', error);
+    res.status(500).json({
+      error: 'Failed to delete exchange rate',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+export default router;
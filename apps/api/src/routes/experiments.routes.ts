@@ -0,0 +1,764 @@
+/**
+ * Experiments Routes
+ *
+ * API endpoints for A/B prompt experiments: each experiment splits clients
+ * of one agent type between weighted prompt variants
+ */
+
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { prisma, Prisma } from '@soul-kg-crm/database';
+import { authenticateToken, requireRole } from '../middleware/auth.middleware';
+import {
+  configurationSelect,
+  ConfigurationVersionConflictError,
+  saveConfigurationVersion,
+} from '../utils/agent-configuration';
+import { getPromptLoader } from '../utils/agents';
+import { summarizeVariant, compareVariants, ExperimentClient } from '../utils/experiment-stats';
+
+const router = Router();
+
+// Agent type enum (must match Prisma schema)
+const AgentTypeEnum = z.enum([
+  'COMMUNICATION',
+  'QUALIFICATION',
+  'PRODUCT_SELECTION',
+  'STATUS_DETECTION',
+  'WARMING',
+  'SALES',
+  'SERVICE',
+  'FEEDBACK',
+]);
+
+// Agent types that load prompts per client; only these can be split
+// between variants (STATUS_DETECTION runs on imports, before a client exists)
+const ExperimentAgentTypeEnum = z.enum(['COMMUNICATION', 'QUALIFICATION', 'PRODUCT_SELECTION', 'WARMING']);
+
+// Experiment status enum (must match Prisma schema)
+const ExperimentStatusEnum = z.enum(['ACTIVE', 'PAUSED', 'COMPLETED', 'CANCELLED']);
+
+// Validation schemas
+const variantSchema = z.object({
+  name: z.string().trim().min(1, 'Variant name is required'),
+  prompt: z.string().trim().min(1, 'Prompt is required'),
+  description: z.string().trim().optional(),
+  weight: z.number().int().min(0).max(1000).optional().default(1),
+});
+
+const createExperimentSchema = z
+  .object({
+    agentType: ExperimentAgentTypeEnum,
+    name: z.string().trim().min(1, 'Experiment name is required'),
+    description: z.string().trim().optional(),
+    status: z.enum(['ACTIVE', 'PAUSED']).optional().default('ACTIVE'),
+    variants: z.array(variantSchema).min(2, 'At least two variants are required').max(10),
+  })
+  .refine((body) => new Set(body.variants.map((variant) => variant.name)).size === body.variants.length, {
+    message: 'Variant names must be unique',
+    path: ['variants'],
+  })
+  .refine((body) => body.variants.some((variant) => variant.weight > 0), {
+    message: 'At least one variant must have a positive weight',
+    path: ['variants'],
+  });
+
+const updateStatusSchema = z.object({
+  status: ExperimentStatusEnum,
+});
+
+const updateVariantSchema = z
+  .object({
+    weight: z.number().int().min(0).max(1000).optional(),
+    isActive: z.boolean().optional(),
+    description: z.string().trim().nullable().optional(),
+  })
+  .refine(
+    (body) => body.weight !== undefined || body.isActive !== undefined || body.description !== undefined,
+    'Nothing to update'
+  );
+
+const promoteVariantSchema = z.object({
+  variantId: z.string().uuid(),
+});
+
+const listExperimentsQuerySchema = z.object({
+  agentType: AgentTypeEnum.optional(),
+  status: ExperimentStatusEnum.optional(),
+});
+
+const experimentSelect = {
+  id: true,
+  organizationId: true,
+  agentType: true,
+  name: true,
+  description: true,
+  status: true,
+  startDate: true,
+  endDate: true,
+  createdAt: true,
+  updatedAt: true,
+  variants: {
+    select: {
+      id: true,
+      name: true,
+      prompt: true,
+      description: true,
+      isActive: true,
+      weight: true,
+      _count: {
+        select: { assignments: true },
+      },
+    },
+    orderBy: { name: 'asc' },
+  },
+} satisfies Prisma.ExperimentSelect;
+
+type SelectedExperiment = Prisma.ExperimentGetPayload<{ select: typeof experimentSelect }>;
+
+// Statuses an experiment can move to from each status
+const STATUS_TRANSITIONS: Record<z.infer<typeof ExperimentStatusEnum>, z.infer<typeof ExperimentStatusEnum>[]> = {
+  ACTIVE: ['PAUSED', 'COMPLETED', 'CANCELLED'],
+  PAUSED: ['ACTIVE', 'COMPLETED', 'CANCELLED'],
+  COMPLETED: [],
+  CANCELLED: [],
+};
+
+/**
+ * Thrown inside a transaction when another experiment of the agent type is already running
+ */
+class ActiveExperimentConflictError extends Error {}
+
+/**
+ * Convert an experiment row into the API response shape
+ */
+function formatExperiment(experiment: SelectedExperiment) {
+  return {
+    id: experiment.id,
+    organizationId: experiment.organizationId,
+    agentType: experiment.agentType,
+    name: experiment.name,
+    description: experiment.description,
+    status: experiment.status,
+    startDate: experiment.startDate.toISOString(),
+    endDate: experiment.endDate?.toISOString() ?? null,
+    variants: experiment.variants.map((variant) => ({
+      id: variant.id,
+      name: variant.name,
+      prompt: variant.prompt,
+      description: variant.description,
+      isActive: variant.isActive,
+      weight: variant.weight,
+      clientCount: variant._count.assignments,
+    })),
+    createdAt: experiment.createdAt.toISOString(),
+    updatedAt: experiment.updatedAt.toISOString(),
+  };
+}
+
+/**
+ * Find an experiment of the user's organization.
+ * Sends 404/403 and returns null if it can't be used.
+ */
+async function findOwnExperiment(req: Request, res: Response) {
+  const experiment = await prisma.experiment.findUnique({
+    where: { id: req.params.id },
+    select: experimentSelect,
+  });
+
+  if (!experiment) {
+    res.status(404).json({ error: 'Experiment not found' });
+    return null;
+  }
+
+  if (experiment.organizationId !== req.user!.organizationId) {
+    res.status(403).json({ error: 'Access denied to this experiment' });
+    return null;
+  }
+
+  return experiment;
+}
+
+/**
+ * Only one experiment per agent type may be running, otherwise
+ * a client's variant would depend on which experiment was found first.
+ *
+ * @throws {ActiveExperimentConflictError} If another experiment is active
+ */
+async function assertNoOtherActiveExperiment(
+  tx: Prisma.TransactionClient,
+  organizationId: string,
+  agentType: z.infer<typeof AgentTypeEnum>,
+  excludeId?: string
+) {
+  const activeExperiment = await tx.experiment.findFirst({
+    where: {
+      organizationId,
+      agentType,
+      status: 'ACTIVE',
+      id: excludeId ? { not: excludeId } : undefined,
+    },
+    select: { id: true },
+  });
+
+  if (activeExperiment) {
+    throw new ActiveExperimentConflictError();
+  }
+}
+
+/**
+ * GET /api/experiments
+ *
+ * Get prompt experiments of the authenticated user's organization.
+ *
+ * @route GET /api/experiments
+ * @access Private (requires ADMIN or SUPER_ADMIN role)
+ * @query {string} [agentType] - Filter by agent type
+ * @query {string} [status] - Filter by status (ACTIVE, PAUSED, COMPLETED, CANCELLED)
+ * @returns {Object[]} data - Array of experiments with variants and assigned client counts, newest first
+ * @throws {400} Validation error if query is invalid
+ * @throws {401} Unauthorized if not authenticated
+ * @throws {403} Forbidden if user doesn't have ADMIN role
+ */
+router.get('/', authenticateToken, requireRole('ADMIN', 'SUPER_ADMIN'), async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const { agentType, status } = listExperimentsQuerySchema.parse(req.query);
+
+    const experiments = await prisma.experiment.findMany({
+      where: {
+        organizationId: req.user.organizationId,
+        agentType,
+        status,
+      },
+      select: experimentSelect,
+      orderBy: { startDate: 'desc' },
+    });
+
+    res.json({ data: experiments.map(formatExperiment) });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Validation error', details: error.errors });
+      return;
+    }
+
+    console.error('Error fetching experiments:', error);
+    res.status(500).json({
+      error: 'Failed to fetch experiments',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+/**
+ * GET /api/experiments/:id
+ *
+ * Get experiment by ID.
+ *
+ * @route GET /api/experiments/:id
+ * @access Private (requires ADMIN or SUPER_ADMIN role)
+ * @param {string} id - Experiment UUID
+ * @returns {Object} Experiment object with variants
+ * @throws {401} Unauthorized if not authenticated
+ * @throws {403} Forbidden if experiment belongs to different organization
+ * @throws {404} Not found if experiment doesn't exist
+ */
+router.get('/:id', authenticateToken, requireRole('ADMIN', 'SUPER_ADMIN'), async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const experiment = await findOwnExperiment(req, res);
+
+    if (!experiment) {
+      return;
+    }
+
+    res.json(formatExperiment(experiment));
+  } catch (error) {
+    console.error('Error fetching experiment:', error);
+    res.status(500).json({
+      error: 'Failed to fetch experiment',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+/**
+ * POST /api/experiments
+ *
+ * Create an experiment with its prompt variants. While the experiment is
+ * active, agents assign every client to one of its variants by weight.
+ *
+ * @route POST /api/experiments
+ * @access Private (requires ADMIN or SUPER_ADMIN role)
+ * @body {string} agentType - Agent type under test (required): COMMUNICATION, QUALIFICATION, PRODUCT_SELECTION or WARMING
+ * @body {string} name - Experiment name (required)
+ * @body {string} [description] - Experiment description
+ * @body {string} [status=ACTIVE] - Initial status (ACTIVE or PAUSED)
+ * @body {Object[]} variants - 2-10 variants: name, prompt, description, weight (default 1)
+ * @returns {Object} Created experiment object
+ * @throws {400} Validation error if input is invalid
+ * @throws {401} Unauthorized if not authenticated
+ * @throws {403} Forbidden if user doesn't have ADMIN role
+ * @throws {409} Conflict if another experiment of the agent type is active or a variant name is taken
+ */
+router.post('/', authenticateToken, requireRole('ADMIN', 'SUPER_ADMIN'), async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const body = createExperimentSchema.parse(req.body);
+    const { organizationId } = req.user;
+
+    const experiment = await prisma.$transaction(async (tx) => {
+      if (body.status === 'ACTIVE') {
+        await assertNoOtherActiveExperiment(tx, organizationId, body.agentType);
+      }
+
+      return tx.experiment.create({
+        data: {
+          organizationId,
+          agentType: body.agentType,
+          name: body.name,
+          description: body.description || null,
+          status: body.status,
+          variants: {
+            create: body.variants.map((variant) => ({
+              organizationId,
+              agentType: body.agentType,
+              name: variant.name,
+              prompt: variant.prompt,
+              description: variant.description || null,
+              weight: variant.weight,
+            })),
+          },
+        },
+        select: experimentSelect,
+      });
+    });
+
+    res.status(201).json(formatExperiment(experiment));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Validation error', details: error.errors });
+      return;
+    }
+
+    if (error instanceof ActiveExperimentConflictError) {
+      res.status(409).json({ error: 'Another experiment is already active for this agent type' });
+      return;
+    }
+
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      res.status(409).json({ error: 'Prompt variant with this name already exists for this agent type' });
+      return;
+    }
+
+    console.error('Error creating experiment:', error);
+    res.status(500).json({
+      error: 'Failed to create experiment',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+/**
+ * PATCH /api/experiments/:id/status
+ *
+ * Pause, resume, complete or cancel an experiment. Clients of a paused or
+ * finished experiment get the default agent configuration again; their
+ * variant assignment is kept for reporting and is reused on resume.
+ *
+ * @route PATCH /api/experiments/:id/status
+ * @access Private (requires ADMIN or SUPER_ADMIN role)
+ * @param {string} id - Experiment UUID
+ * @body {string} status - New status (ACTIVE, PAUSED, COMPLETED, CANCELLED)
+ * @returns {Object} Updated experiment object
+ * @throws {400} Validation error if input is invalid or the transition isn't allowed
+ * @throws {401} Unauthorized if not authenticated
+ * @throws {403} Forbidden if experiment belongs to different organization
+ * @throws {404} Not found if experiment doesn't exist
+ * @throws {409} Conflict if resuming while another experiment of the agent type is active
+ */
+router.patch('/:id/status', authenticateToken, requireRole('ADMIN', 'SUPER_ADMIN'), async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const { status } = updateStatusSchema.parse(req.body);
+    const existingExperiment = await findOwnExperiment(req, res);
+
+    if (!existingExperiment) {
+      return;
+    }
+
+    if (existingExperiment.status === status) {
+      res.json(formatExperiment(existingExperiment));
+      return;
+    }
+
+    if (!STATUS_TRANSITIONS[existingExperiment.status].includes(status)) {
+      res.status(400).json({ error: `Cannot change experiment status from ${existingExperiment.status} to ${status}` });
+      return;
+    }
+
+    const experiment = await prisma.$transaction(async (tx) => {
+      if (status === 'ACTIVE') {
+        await assertNoOtherActiveExperiment(
+          tx,
+          existingExperiment.organizationId,
+          existingExperiment.agentType,
+          existingExperiment.id
+        );
+      }
+
+      return tx.experiment.update({
+        where: { id: existingExperiment.id },
+        data: {
+          status,
+          endDate: status === 'COMPLETED' || status === 'CANCELLED' ? new Date() : undefined,
+        },
+        select: experimentSelect,
+      });
+    });
+
+    res.json(formatExperiment(experiment));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Validation error', details: error.errors });
+      return;
+    }
+
+    if (error instanceof ActiveExperimentConflictError) {
+      res.status(409).json({ error: 'Another experiment is already active for this agent type' });
+      return;
+    }
+
+    console.error('Error updating experiment status:', error);
+    res.status(500).json({
+      error: 'Failed to update experiment status',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+/**
+ * PATCH /api/experiments/:id/variants/:variantId
+ *
+ * Change a variant's weight or take it out of the experiment.
+ * Weights only affect clients that aren't assigned yet; weight 0 stops
+ * new assignments while existing participants keep the variant.
+ *
+ * @route PATCH /api/experiments/:id/variants/:variantId
+ * @access Private (requires ADMIN or SUPER_ADMIN role)
+ * @param {string} id - Experiment UUID
+ * @param {string} variantId - Prompt variant UUID
+ * @body {number} [weight] - Assignment weight (0-1000)
+ * @body {boolean} [isActive] - Whether the variant is served (inactive variants fall back to the default config)
+ * @body {string|null} [description] - Variant description
+ * @returns {Object} Updated experiment object
+ * @throws {400} Validation error if input is invalid
+ * @throws {401} Unauthorized if not authenticated
+ * @throws {403} Forbidden if experiment belongs to different organization
+ * @throws {404} Not found if experiment or variant doesn't exist
+ */
+router.patch(
+  '/:id/variants/:variantId',
+  authenticateToken,
+  requireRole('ADMIN', 'SUPER_ADMIN'),
+  async (req: Request, res: Response) => {
+    try {
+      if (!req.user) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const body = updateVariantSchema.parse(req.body);
+      const existingExperiment = await findOwnExperiment(req, res);
+
+      if (!existingExperiment) {
+        return;
+      }
+
+      if (!existingExperiment.variants.some((variant) => variant.id === req.params.variantId)) {
+        res.status(404).json({ error: 'Prompt variant not found' });
+        return;
+      }
+
+      await prisma.promptVariant.update({
+        where: { id: req.params.variantId },
+        data: {
+          weight: body.weight,
+          isActive: body.isActive,
+          description: body.description,
+        },
+      });
+
+      const experiment = await prisma.experiment.findUniqueOrThrow({
+        where: { id: existingExperiment.id },
+        select: experimentSelect,
+      });
+
+      getPromptLoader().clearCache(existingExperiment.organizationId, existingExperiment.agentType);
+      res.json(formatExperiment(experiment));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: 'Validation error', details: error.errors });
+        return;
+      }
+
+      console.error('Error updating prompt variant:', error);
+      res.status(500).json({
+        error: 'Failed to update prompt variant',
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+);
+
+/**
+ * GET /api/experiments/:id/report
+ *
+ * Compare the variants of an experiment. For the clients assigned to each
+ * variant: stage-to-stage funnel conversion (from status history and
+ * current status), time from lead creation to SOLD, and the share of
+ * clients that replied to the AI during the experiment. Rates come with
+ * 95% Wilson intervals; the variant with the best SOLD rate is tested
+ * against the others with a two-proportion z-test.
+ *
+ * @route GET /api/experiments/:id/report
+ * @access Private (requires ADMIN or SUPER_ADMIN role)
+ * @param {string} id - Experiment UUID
+ * @returns {Object} experiment - Experiment object
+ * @returns {Object[]} variants - Stats per variant (funnel, sold, timeToSoldDays, replyRate, comparison)
+ * @returns {string|null} winnerVariantId - Variant with the highest SOLD rate
+ * @returns {boolean} significant - Whether the winner beats every other variant at p < 0.05
+ * @throws {401} Unauthorized if not authenticated
+ * @throws {403} Forbidden if experiment belongs to different organization
+ * @throws {404} Not found if experiment doesn't exist
+ */
+router.get('/:id/report', authenticateToken, requireRole('ADMIN', 'SUPER_ADMIN'), async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const experiment = await findOwnExperiment(req, res);
+
+    if (!experiment) {
+      return;
+    }
+
+    const variantIds = experiment.variants.map((variant) => variant.id);
+    const assignedToExperiment: Prisma.ClientWhereInput = {
+      experimentAssignments: { some: { experimentId: experiment.id } },
+    };
+    const messageWhere: Prisma.MessageWhereInput = {
+      organizationId: experiment.organizationId,
+      createdAt: { gte: experiment.startDate, lte: experiment.endDate ?? undefined },
+      conversation: { client: assignedToExperiment },
+    };
+
+    const [clients, firstAiMessages, lastClientMessages] = await Promise.all([
+      prisma.client.findMany({
+        where: { organizationId: experiment.organizationId, ...assignedToExperiment },
+        select: {
+          id: true,
+          experimentAssignments: {
+            where: { experimentId: experiment.id },
+            select: { variantId: true },
+          },
+          status: true,
+          createdAt: true,
+          statusHistory: {
+            select: { newStatus: true, createdAt: true },
+          },
+          conversations: {
+            select: { id: true },
+          },
+        },
+      }),
+      prisma.message.groupBy({
+        by: ['conversationId'],
+        where: { ...messageWhere, direction: 'OUTGOING', sender: 'AI' },
+        _min: { createdAt: true },
+      }),
+      prisma.message.groupBy({
+        by: ['conversationId'],
+        where: { ...messageWhere, direction: 'INCOMING' },
+        _max: { createdAt: true },
+      }),
+    ]);
+
+    const firstAiMessageAt = new Map(firstAiMessages.map((row) => [row.conversationId, row._min.createdAt]));
+    const lastClientMessageAt = new Map(lastClientMessages.map((row) => [row.conversationId, row._max.createdAt]));
+    const clientsByVariant = new Map<string, ExperimentClient[]>(variantIds.map((id) => [id, []]));
+
+    for (const client of clients) {
+      const conversations = client.conversations.filter((conversation) => firstAiMessageAt.get(conversation.id));
+
+      clientsByVariant.get(client.experimentAssignments[0]?.variantId)?.push({
+        status: client.status,
+        createdAt: client.createdAt,
+        history: client.statusHistory,
+        messaged: conversations.length > 0,
+        replied: conversations.some((conversation) => {
+          const repliedAt = lastClientMessageAt.get(conversation.id);
+          return repliedAt !== undefined && repliedAt !== null && repliedAt > firstAiMessageAt.get(conversation.id)!;
+        }),
+      });
+    }
+
+    const variants = experiment.variants.map((variant) => ({
+      id: variant.id,
+      name: variant.name,
+      isActive: variant.isActive,
+      weight: variant.weight,
+      ...summarizeVariant(clientsByVariant.get(variant.id)!),
+    }));
+    const { winnerId, significant, comparisons } = compareVariants(variants);
+
+    res.json({
+      experiment: formatExperiment(experiment),
+      variants: variants.map((variant) => ({ ...variant, comparison: comparisons[variant.id] })),
+      winnerVariantId: winnerId,
+      significant,
+    });
+  } catch (error) {
+    console.error('Error building experiment report:', error);
+    res.status(500).json({
+      error: 'Failed to build experiment report',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+/**
+ * POST /api/experiments/:id/promote
+ *
+ * Make a variant's prompt the default agent configuration and complete
+ * the experiment. The prompt is saved as a new version of the default
+ * configuration (its settings are kept), or a default configuration is
+ * created if the agent type has none.
+ *
+ * @route POST /api/experiments/:id/promote
+ * @access Private (requires ADMIN or SUPER_ADMIN role)
+ * @param {string} id - Experiment UUID
+ * @body {string} variantId - Variant to promote (required)
+ * @returns {Object} experiment - Updated experiment object
+ * @returns {Object} configuration - Default configuration ({ id, agentType, name, version })
+ * @throws {400} Validation error if input is invalid or the experiment was cancelled
+ * @throws {401} Unauthorized if not authenticated
+ * @throws {403} Forbidden if experiment belongs to different organization
+ * @throws {404} Not found if experiment or variant doesn't exist
+ * @throws {409} Conflict if the default configuration was edited meanwhile
+ */
+router.post('/:id/promote', authenticateToken, requireRole('ADMIN', 'SUPER_ADMIN'), async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const { variantId } = promoteVariantSchema.parse(req.body);
+    const existingExperiment = await findOwnExperiment(req, res);
+
+    if (!existingExperiment) {
+      return;
+    }
+
+    const variant = existingExperiment.variants.find((item) => item.id === variantId);
+
+    if (!variant) {
+      res.status(404).json({ error: 'Prompt variant not found' });
+      return;
+    }
+
+    if (existingExperiment.status === 'CANCELLED') {
+      res.status(400).json({ error: 'Cannot promote a variant of a cancelled experiment' });
+      return;
+    }
+
+    const { organizationId, agentType } = existingExperiment;
+    const userId = req.user.userId;
+    const comment = `Promoted variant "${variant.name}" from experiment "${existingExperiment.name}"`;
+
+    const { experiment, configuration } = await prisma.$transaction(async (tx) => {
+      const defaultConfiguration = await tx.agentConfiguration.findUnique({
+        where: { organizationId_agentType_name: { organizationId, agentType, name: 'default' } },
+        select: configurationSelect,
+      });
+
+      const configuration = defaultConfiguration
+        ? await saveConfigurationVersion(
+            tx,
+            defaultConfiguration,
+            { name: defaultConfiguration.name, prompt: variant.prompt, settings: defaultConfiguration.settings },
+            comment,
+            userId
+          )
+        : await tx.agentConfiguration.create({
+            data: {
+              organizationId,
+              agentType,
+              name: 'default',
+              prompt: variant.prompt,
+              currentVersion: 1,
+              versions: {
+                create: { version: 1, name: 'default', prompt: variant.prompt, comment, createdById: userId },
+              },
+            },
+            select: configurationSelect,
+          });
+
+      const experiment = await tx.experiment.update({
+        where: { id: existingExperiment.id },
+        data: existingExperiment.status === 'COMPLETED' ? {} : { status: 'COMPLETED', endDate: new Date() },
+        select: experimentSelect,
+      });
+
+      return { experiment, configuration };
+    });
+
+    getPromptLoader().clearCache(organizationId, agentType);
+    res.json({
+      experiment: formatExperiment(experiment),
+      configuration: {
+        id: configuration.id,
+        agentType: configuration.agentType,
+        name: configuration.name,
+        version: configuration.currentVersion,
+      },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Validation error', details: error.errors });
+      return;
+    }
+
+    if (error instanceof ConfigurationVersionConflictError) {
+      res.status(409).json({ error: 'Default configuration was changed by another user. Please try again.' });
+      return;
+    }
+
+    console.error('Error promoting prompt variant:', error);
+    res.status(500).json({
+      error: 'Failed to promote prompt variant',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+export default router;
@@ -7,7 +7,9 @@
 import { Router, Request, Response } from 'express';
 import { z } from 'zod';
 import { prisma } from '@soul-kg-crm/database';
+import { followUpSettingsSchema, llmBudgetSettingsSchema } from '@soul-kg-crm/agents';
 import { authenticateToken, requireRole } from '../middleware/auth.middleware';
+import { SUPPORTED_CURRENCIES } from '../utils/currency';
 
 const router = Router();
 
@@ -15,7 +17,20 @@ const router = Router();
 const updateOrganizationSchema = z.object({
   name: z.string().min(1, 'Organization name is required').optional(),
   logo: z.string().url('Invalid logo URL').optional().or(z.literal('')),
-  settings: z.record(z.any()).optional(),
+  settings: z
+    .object({
+      llmBudget: llmBudgetSettingsSchema.nullable().optional(),
+      followUps: followUpSettingsSchema.nullable().optional(),
+    })
+    .catchall(z.any())
+    .optional(),
+  reportingCurrency: z.enum(SUPPORTED_CURRENCIES).optional(),
+  partnerRatingThreshold: z.coerce
+    .number()
+    .min(0, 'Rating threshold must be between 0 and 5')
+    .max(5, 'Rating threshold must be between 0 and 5')
+    .nullable()
+    .optional(),
 });
 
 /**
@@ -33,6 +48,8 @@ const updateOrganizationSchema = z.object({
  * @returns {string} data[].slug - Organization slug
  * @returns {string|null} data[].logo - Organization logo URL
  * @returns {Object} data[].settings - Organization settings
+ * @returns {string} data[].reportingCurrency - Currency for reports and converted prices
+ * @returns {string|null} data[].partnerRatingThreshold - Partners rated below it are hidden
  * @returns {string} data[].createdAt - Organization creation timestamp (ISO string)
  * @returns {string} data[].updatedAt - Organization update timestamp (ISO string)
  * @throws {401} Unauthorized if not authenticated
@@ -69,6 +86,8 @@ router.get('/', authenticateToken, async (req: Request, res: Response) => {
           slug: user.organization.slug,
           logo: user.organization.logo,
           settings: user.organization.settings,
+          reportingCurrency: user.organization.reportingCurrency,
+          partnerRatingThreshold: user.organization.partnerRatingThreshold?.toString() ?? null,
           createdAt: user.organization.createdAt.toISOString(),
           updatedAt: user.organization.updatedAt.toISOString(),
         },
@@ -98,6 +117,8 @@ router.get('/', authenticateToken, async (req: Request, res: Response) => {
  * @returns {string} slug - Organization slug
  * @returns {string|null} logo - Organization logo URL
  * @returns {Object} settings - Organization settings
+ * @returns {string} reportingCurrency - Currency for reports and converted prices
+ * @returns {string|null} partnerRatingThreshold - Partners rated below it are hidden
  * @returns {string} createdAt - Organization creation timestamp (ISO string)
  * @returns {string} updatedAt - Organization update timestamp (ISO string)
  * @throws {401} Unauthorized if not authenticated
@@ -127,6 +148,8 @@ router.get('/:id', authenticateToken, async (req: Request, res: Response) => {
         slug: true,
         logo: true,
         settings: true,
+        reportingCurrency: true,
+        partnerRatingThreshold: true,
         createdAt: true,
         updatedAt: true,
       },
@@ -143,6 +166,8 @@ router.get('/:id', authenticateToken, async (req: Request, res: Response) => {
       slug: organization.slug,
       logo: organization.logo,
       settings: organization.settings,
+      reportingCurrency: organization.reportingCurrency,
+      partnerRatingThreshold: organization.partnerRatingThreshold?.toString() ?? null,
       createdAt: organization.createdAt.toISOString(),
       updatedAt: organization.updatedAt.toISOString(),
     });
@@ -168,12 +193,18 @@ router.get('/:id', authenticateToken, async (req: Request, res: Response) => {
  * @body {string} [name] - Organization name (optional, regenerates slug if provided)
  * @body {string} [logo] - Organization logo URL (optional, empty string to remove)
  * @body {Object} [settings] - Organization settings object (optional)
+ * @body {Object} [settings.llmBudget] - Monthly LLM budget: monthlyTokens/monthlyCost ({soft, hard}) and warningPercent
+ * @body {Object} [settings.followUps] - Follow-ups to silent leads: enabled, staleAfterDays, maxAttempts and mode (APPROVAL or AUTO_SEND)
+ * @body {string} [reportingCurrency] - Currency for reports and converted prices (USD, KGS, EUR, AED, RUB)
+ * @body {number|null} [partnerRatingThreshold] - Hide partners rated below it (0-5, null to disable)
  * @returns {Object} Updated organization object
  * @returns {string} id - Organization UUID
  * @returns {string} name - Organization name
  * @returns {string} slug - Organization slug (auto-generated from name)
  * @returns {string|null} logo - Organization logo URL
  * @returns {Object} settings - Organization settings
+ * @returns {string} reportingCurrency - Currency for reports and converted prices
+ * @returns {string|null} partnerRatingThreshold - Partners rated below it are hidden
  * @returns {string} createdAt - Organization creation timestamp (ISO string)
  * @returns {string} updatedAt - Organization update timestamp (ISO string)
  * @throws {400} Validation error if input is invalid
@@ -201,7 +232,7 @@ router.put(
       }
 
       const body = updateOrganizationSchema.parse(req.body);
-      const { name, logo, settings } = body;
+      const { name, logo, settings, reportingCurrency, partnerRatingThreshold } = body;
 
       // If name is being updated, check if slug needs to be regenerated
       let updateData: {
@@ -209,6 +240,8 @@ router.put(
         slug?: string;
         logo?: string | null;
         settings?: any;
+        reportingCurrency?: string;
+        partnerRatingThreshold?: number | null;
       } = {};
 
       if (name) {
@@ -243,6 +276,14 @@ router.put(
         updateData.settings = settings;
       }
 
+      if (reportingCurrency !== undefined) {
+        updateData.reportingCurrency = reportingCurrency;
+      }
+
+      if (partnerRatingThreshold !== undefined) {
+        updateData.partnerRatingThreshold = partnerRatingThreshold;
+      }
+
       const organization = await prisma.organization.update({
         where: { id },
         data: updateData,
@@ -252,6 +293,8 @@ router.put(
           slug: true,
           logo: true,
           settings: true,
+          reportingCurrency: true,
+          partnerRatingThreshold: true,
           createdAt: true,
           updatedAt: true,
         },
@@ -263,6 +306,8 @@ router.put(
         slug: organization.slug,
         logo: organization.logo,
         settings: organization.settings,
+        reportingCurrency: organization.reportingCurrency,
+        partnerRatingThreshold: organization.partnerRatingThreshold?.toString() ?? null,
         createdAt: organization.createdAt.toISOString(),
         updatedAt: organization.updatedAt.toISOString(),
       });
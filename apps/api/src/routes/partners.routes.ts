@@ -0,0 +1,811 @@
+/**
+ * Partners Routes
+ *
+ * API endpoints for managing the organization's partner directory
+ */
+
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { prisma, Prisma } from '@soul-kg-crm/database';
+import { authenticateToken, requireRole } from '../middleware/auth.middleware';
+import { buildAssignablePartnersWhere } from '../utils/partners';
+import { SUPPORTED_CURRENCIES } from '../utils/currency';
+import { buildRatingThresholdWhere, recalculatePartnerRating } from '../utils/partner-rating';
+
+const router = Router();
+
+type CommissionBody = { commissionType?: string | null; commissionValue?: number | null };
+
+/**
+ * Commission type and value are set (or cleared) together
+ */
+function hasCompleteCommission(body: CommissionBody): boolean {
+  if ((body.commissionType === undefined) !== (body.commissionValue === undefined)) {
+    return false;
+  }
+
+  return (body.commissionType ?? null) === null ? (body.commissionValue ?? null) === null : body.commissionValue !== null;
+}
+
+const completeCommissionMessage = {
+  message: 'commissionType and commissionValue must be provided together',
+  path: ['commissionValue'],
+};
+
+const percentageMessage = {
+  message: 'Percentage commission must be at most 100',
+  path: ['commissionValue'],
+};
+
+// Validation schemas
+const createPartnerSchema = z.object({
+  name: z.string().trim().min(1, 'Partner name is required'),
+  contactPhone: z.string().optional(),
+  contactEmail: z.string().email('Invalid email format').optional(),
+  contactWhatsApp: z.string().optional(),
+  contactTelegram: z.string().optional(),
+  conditions: z.string().optional(),
+  commissionType: z.enum(['PERCENTAGE', 'FIXED_PER_PARTICIPANT']).optional(),
+  commissionValue: z.coerce.number().min(0, 'Commission must not be negative').optional(),
+  commissionCurrency: z.enum(SUPPORTED_CURRENCIES).optional(),
+  isAvailable: z.boolean().optional().default(true),
+})
+  .refine(hasCompleteCommission, completeCommissionMessage)
+  .refine((body) => body.commissionType !== 'PERCENTAGE' || (body.commissionValue ?? 0) <= 100, percentageMessage);
+
+const updatePartnerSchema = z.object({
+  name: z.string().trim().min(1, 'Partner name is required').optional(),
+  contactPhone: z.string().nullable().optional(),
+  contactEmail: z.string().email('Invalid email format').nullable().optional(),
+  contactWhatsApp: z.string().nullable().optional(),
+  contactTelegram: z.string().nullable().optional(),
+  conditions: z.string().nullable().optional(),
+  commissionType: z.enum(['PERCENTAGE', 'FIXED_PER_PARTICIPANT']).nullable().optional(),
+  commissionValue: z.coerce.number().min(0, 'Commission must not be negative').nullable().optional(),
+  commissionCurrency: z.enum(SUPPORTED_CURRENCIES).nullable().optional(),
+  isAvailable: z.boolean().optional(),
+})
+  .refine(hasCompleteCommission, completeCommissionMessage)
+  .refine((body) => body.commissionType !== 'PERCENTAGE' || (body.commissionValue ?? 0) <= 100, percentageMessage);
+
+const listPartnersQuerySchema = z.object({
+  page: z.string().regex(/^\d+$/).transform(Number).optional().default('1'),
+  limit: z.string().regex(/^\d+$/).transform(Number).optional().default('20'),
+  isAvailable: z.enum(['true', 'false']).transform((value) => value === 'true').optional(),
+  productId: z.string().uuid().optional(),
+  assignableToClientId: z.string().uuid().optional(),
+  includeBelowThreshold: z.enum(['true', 'false']).transform((value) => value === 'true').optional(),
+  search: z.string().optional(),
+  sortBy: z.enum(['name', 'rating', 'createdAt']).optional().default('rating'),
+  sortOrder: z.enum(['asc', 'desc']).optional(),
+});
+
+const createFeedbackSchema = z.object({
+  clientTourId: z.string().uuid('Invalid client tour ID'),
+  score: z.number().int().min(1, 'Score must be between 1 and 5').max(5, 'Score must be between 1 and 5'),
+  comment: z.string().trim().max(2000).optional(),
+  isIncident: z.boolean().optional().default(false),
+});
+
+const partnerSelect = {
+  id: true,
+  organizationId: true,
+  name: true,
+  contactPhone: true,
+  contactEmail: true,
+  contactWhatsApp: true,
+  contactTelegram: true,
+  conditions: true,
+  commissionType: true,
+  commissionValue: true,
+  commissionCurrency: true,
+  rating: true,
+  isAvailable: true,
+  createdAt: true,
+  updatedAt: true,
+  products: {
+    select: {
+      id: true,
+      name: true,
+      isActive: true,
+    },
+    orderBy: { name: 'asc' },
+  },
+  _count: {
+    select: {
+      clients: true,
+      feedback: true,
+    },
+  },
+} satisfies Prisma.PartnerSelect;
+
+type SelectedPartner = Prisma.PartnerGetPayload<{ select: typeof partnerSelect }>;
+
+/**
+ * Convert a partner row into the API response shape
+ */
+function formatPartner(partner: SelectedPartner) {
+  return {
+    id: partner.id,
+    organizationId: partner.organizationId,
+    name: partner.name,
+    contactPhone: partner.contactPhone,
+    contactEmail: partner.contactEmail,
+    contactWhatsApp: partner.contactWhatsApp,
+    contactTelegram: partner.contactTelegram,
+    conditions: partner.conditions,
+    commissionType: partner.commissionType,
+    commissionValue: partner.commissionValue ? partner.commissionValue.toString() : null,
+    commissionCurrency: partner.commissionCurrency,
+    rating: partner.rating ? partner.rating.toString() : null,
+    isAvailable: partner.isAvailable,
+    products: partner.products,
+    assignedClientsCount: partner._count.clients,
+    feedbackCount: partner._count.feedback,
+    createdAt: partner.createdAt.toISOString(),
+    updatedAt: partner.updatedAt.toISOString(),
+  };
+}
+
+const feedbackSelect = {
+  id: true,
+  partnerId: true,
+  clientTourId: true,
+  score: true,
+  comment: true,
+  isIncident: true,
+  createdAt: true,
+  clientTour: {
+    select: {
+      id: true,
+      client: { select: { id: true, firstName: true, lastName: true } },
+      tour: { select: { id: true, startDate: true, product: { select: { id: true, name: true } } } },
+    },
+  },
+  createdBy: {
+    select: {
+      id: true,
+      firstName: true,
+      lastName: true,
+    },
+  },
+} satisfies Prisma.PartnerFeedbackSelect;
+
+type SelectedFeedback = Prisma.PartnerFeedbackGetPayload<{ select: typeof feedbackSelect }>;
+
+/**
+ * Convert a feedback row into the API response shape
+ */
+function formatFeedback(feedback: SelectedFeedback) {
+  return {
+    id: feedback.id,
+    partnerId: feedback.partnerId,
+    clientTourId: feedback.clientTourId,
+    client: feedback.clientTour?.client ?? null,
+    tour: feedback.clientTour
+      ? {
+          id: feedback.clientTour.tour.id,
+          startDate: feedback.clientTour.tour.startDate.toISOString(),
+          product: feedback.clientTour.tour.product,
+        }
+      : null,
+    score: feedback.score,
+    comment: feedback.comment,
+    isIncident: feedback.isIncident,
+    createdBy: feedback.createdBy,
+    createdAt: feedback.createdAt.toISOString(),
+  };
+}
+
+/**
+ * GET /api/partners
+ *
+ * Get paginated list of partners in the authenticated user's organization.
+ * With assignableToClientId only available partners providing one of the
+ * client's selected (SELECTED or BOOKED) products are returned.
+ * Partners rated below the organization's threshold are hidden unless
+ * includeBelowThreshold is set; partners without feedback are always listed.
+ *
+ * @route GET /api/partners
+ * @access Private (requires authentication)
+ * @query {number} [page=1] - Page number (default: 1)
+ * @query {number} [limit=20] - Items per page (default: 20, max: 100)
+ * @query {boolean} [isAvailable] - Filter by availability ("true" or "false")
+ * @query {string} [productId] - Only partners providing this product
+ * @query {string} [assignableToClientId] - Only partners that can be assigned to this client
+ * @query {boolean} [includeBelowThreshold] - Also list partners rated below the threshold ("true" or "false")
+ * @query {string} [search] - Search in name and contacts
+ * @query {string} [sortBy=rating] - Sort field (name, rating, createdAt)
+ * @query {string} [sortOrder] - Sort order (asc, desc; default desc for rating, asc otherwise)
+ * @returns {Object} data - Array of partner objects
+ * @returns {Object} pagination - Pagination metadata (page, limit, total, totalPages)
+ * @throws {400} Validation error if query is invalid
+ * @throws {401} Unauthorized if not authenticated
+ * @throws {403} Forbidden if client belongs to different organization
+ * @throws {404} Not found if client doesn't exist
+ */
+router.get('/', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const query = listPartnersQuerySchema.parse(req.query);
+    const { page, isAvailable, productId, assignableToClientId, includeBelowThreshold, search, sortBy } = query;
+    const sortOrder = query.sortOrder ?? (sortBy === 'rating' ? 'desc' : 'asc');
+    const limit = Math.min(query.limit, 100);
+
+    // Build where clause
+    const conditions: Prisma.PartnerWhereInput[] = [{ organizationId: req.user.organizationId }];
+
+    if (!includeBelowThreshold) {
+      const organization = await prisma.organization.findUniqueOrThrow({
+        where: { id: req.user.organizationId },
+        select: { partnerRatingThreshold: true },
+      });
+
+      conditions.push(buildRatingThresholdWhere(organization.partnerRatingThreshold));
+    }
+
+    if (assignableToClientId) {
+      const client = await prisma.client.findUnique({
+        where: { id: assignableToClientId },
+        select: { id: true, organizationId: true },
+      });
+
+      if (!client) {
+        res.status(404).json({ error: 'Client not found' });
+        return;
+      }
+
+      if (client.organizationId !== req.user.organizationId) {
+        res.status(403).json({ error: 'Access denied to this client' });
+        return;
+      }
+
+      conditions.push(buildAssignablePartnersWhere(req.user.organizationId, client.id));
+    }
+
+    if (isAvailable !== undefined) {
+      conditions.push({ isAvailable });
+    }
+
+    if (productId) {
+      conditions.push({ products: { some: { id: productId } } });
+    }
+
+    if (search) {
+      conditions.push({
+        OR: [
+          { name: { contains: search, mode: 'insensitive' } },
+          { contactPhone: { contains: search } },
+          { contactEmail: { contains: search, mode: 'insensitive' } },
+        ],
+      });
+    }
+
+    const where: Prisma.PartnerWhereInput = { AND: conditions };
+    const skip = (page - 1) * limit;
+
+    const total = await prisma.partner.count({ where });
+
+    const partners = await prisma.partner.findMany({
+      where,
+      skip,
+      take: limit,
+      orderBy:
+        sortBy === 'rating'
+          ? { rating: { sort: sortOrder, nulls: 'last' } }
+          : { [sortBy]: sortOrder },
+      select: partnerSelect,
+    });
+
+    res.json({
+      data: partners.map(formatPartner),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Validation error', details: error.errors });
+      return;
+    }
+
+    console.error('Error fetching partners:', error);
+    res.status(500).json({
+      error: 'Failed to fetch partners',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+/**
+ * GET /api/partners/:id
+ *
+ * Get detailed information about a specific partner by ID.
+ *
+ * @route GET /api/partners/:id
+ * @access Private (requires authentication)
+ * @param {string} id - Partner UUID
+ * @returns {Object} Partner object with provided products
+ * @throws {401} Unauthorized if not authenticated
+ * @throws {403} Forbidden if partner belongs to different organization
+ * @throws {404} Not found if partner doesn't exist
+ */
+router.get('/:id', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const { id } = req.params;
+
+    const partner = await prisma.partner.findUnique({
+      where: { id },
+      select: partnerSelect,
+    });
+
+    if (!partner) {
+      res.status(404).json({ error: 'Partner not found' });
+      return;
+    }
+
+    if (partner.organizationId !== req.user.organizationId) {
+      res.status(403).json({ error: 'Access denied to this partner' });
+      return;
+    }
+
+    res.json(formatPartner(partner));
+  } catch (error) {
+    console.error('Error fetching partner:', error);
+    res.status(500).json({
+      error: 'Failed to fetch partner',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+/**
+ * POST /api/partners
+ *
+ * Create a new partner in the authenticated user's organization.
+ * Only ADMIN and SUPER_ADMIN roles can manage the partner directory.
+ *
+ * @route POST /api/partners
+ * @access Private (requires ADMIN or SUPER_ADMIN role)
+ * @body {string} name - Partner name (required)
+ * @body {string} [contactPhone] - Contact phone
+ * @body {string} [contactEmail] - Contact email
+ * @body {string} [contactWhatsApp] - WhatsApp contact
+ * @body {string} [contactTelegram] - Telegram contact
+ * @body {string} [conditions] - Cooperation conditions
+ * @body {string} [commissionType] - PERCENTAGE or FIXED_PER_PARTICIPANT (requires commissionValue)
+ * @body {number} [commissionValue] - Percentage of the booking amount or amount per participant
+ * @body {string} [commissionCurrency] - Currency of a fixed commission (defaults to the booking currency)
+ * @body {boolean} [isAvailable=true] - Whether the partner accepts new clients
+ * @returns {Object} Created partner object
+ * @throws {400} Validation error if input is invalid
+ * @throws {401} Unauthorized if not authenticated
+ * @throws {403} Forbidden if user doesn't have ADMIN role
+ */
+router.post('/', authenticateToken, requireRole('ADMIN', 'SUPER_ADMIN'), async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const body = createPartnerSchema.parse(req.body);
+
+    const partner = await prisma.partner.create({
+      data: {
+        organizationId: req.user.organizationId,
+        name: body.name,
+        contactPhone: body.contactPhone,
+        contactEmail: body.contactEmail,
+        contactWhatsApp: body.contactWhatsApp,
+        contactTelegram: body.contactTelegram,
+        conditions: body.conditions,
+        commissionType: body.commissionType,
+        commissionValue: body.commissionValue,
+        commissionCurrency: body.commissionCurrency,
+        isAvailable: body.isAvailable,
+      },
+      select: partnerSelect,
+    });
+
+    res.status(201).json(formatPartner(partner));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Validation error', details: error.errors });
+      return;
+    }
+
+    console.error('Error creating partner:', error);
+    res.status(500).json({
+      error: 'Failed to create partner',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+/**
+ * PUT /api/partners/:id
+ *
+ * Update partner information. Only provided fields will be updated.
+ * Passing null clears optional fields.
+ *
+ * @route PUT /api/partners/:id
+ * @access Private (requires ADMIN or SUPER_ADMIN role)
+ * @param {string} id - Partner UUID
+ * @body Same fields as POST /api/partners, all optional
+ * @returns {Object} Updated partner object
+ * @throws {400} Validation error if input is invalid
+ * @throws {401} Unauthorized if not authenticated
+ * @throws {403} Forbidden if partner belongs to different organization
+ * @throws {404} Not found if partner doesn't exist
+ */
+router.put('/:id', authenticateToken, requireRole('ADMIN', 'SUPER_ADMIN'), async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const { id } = req.params;
+    const body = updatePartnerSchema.parse(req.body);
+
+    const existingPartner = await prisma.partner.findUnique({
+      where: { id },
+      select: { id: true, organizationId: true },
+    });
+
+    if (!existingPartner) {
+      res.status(404).json({ error: 'Partner not found' });
+      return;
+    }
+
+    if (existingPartner.organizationId !== req.user.organizationId) {
+      res.status(403).json({ error: 'Access denied to this partner' });
+      return;
+    }
+
+    // Prepare update data
+    const updateData: any = {};
+    if (body.name !== undefined) updateData.name = body.name;
+    if (body.contactPhone !== undefined) updateData.contactPhone = body.contactPhone;
+    if (body.contactEmail !== undefined) updateData.contactEmail = body.contactEmail;
+    if (body.contactWhatsApp !== undefined) updateData.contactWhatsApp = body.contactWhatsApp;
+    if (body.contactTelegram !== undefined) updateData.contactTelegram = body.contactTelegram;
+    if (body.conditions !== undefined) updateData.conditions = body.conditions;
+    if (body.commissionType !== undefined) updateData.commissionType = body.commissionType;
+    if (body.commissionValue !== undefined) updateData.commissionValue = body.commissionValue;
+    if (body.commissionCurrency !== undefined) updateData.commissionCurrency = body.commissionCurrency;
+    if (body.isAvailable !== undefined) updateData.isAvailable = body.isAvailable;
+
+    const partner = await prisma.partner.update({
+      where: { id },
+      data: updateData,
+      select: partnerSelect,
+    });
+
+    res.json(formatPartner(partner));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Validation error', details: error.errors });
+      return;
+    }
+
+    console.error('Error updating partner:', error);
+    res.status(500).json({
+      error: 'Failed to update partner',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+/**
+ * DELETE /api/partners/:id
+ *
+ * Delete a partner. Partners still linked to products, assigned to clients
+ * or with settlement ledger entries cannot be deleted; mark them unavailable instead.
+ *
+ * @route DELETE /api/partners/:id
+ * @access Private (requires ADMIN or SUPER_ADMIN role)
+ * @param {string} id - Partner UUID
+ * @returns {Object} success - Success indicator
+ * @throws {401} Unauthorized if not authenticated
+ * @throws {403} Forbidden if partner belongs to different organization
+ * @throws {404} Not found if partner doesn't exist
+ * @throws {409} Conflict if partner is linked to products, clients or ledger entries
+ */
+router.delete('/:id', authenticateToken, requireRole('ADMIN', 'SUPER_ADMIN'), async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const { id } = req.params;
+
+    const existingPartner = await prisma.partner.findUnique({
+      where: { id },
+      select: {
+        id: true,
+        organizationId: true,
+        _count: {
+          select: {
+            products: true,
+            clients: true,
+            ledgerEntries: true,
+          },
+        },
+      },
+    });
+
+    if (!existingPartner) {
+      res.status(404).json({ error: 'Partner not found' });
+      return;
+    }
+
+    if (existingPartner.organizationId !== req.user.organizationId) {
+      res.status(403).json({ error: 'Access denied to this partner' });
+      return;
+    }
+
+    if (existingPartner._count.products > 0 || existingPartner._count.clients > 0) {
+      res.status(409).json({
+        error: 'Partner is linked to products or clients. Mark it unavailable instead.',
+      });
+      return;
+    }
+
+    if (existingPartner._count.ledgerEntries > 0) {
+      res.status(409).json({
+        error: 'Partner has settlement history. Mark it unavailable instead.',
+      });
+      return;
+    }
+
+    await prisma.partner.delete({
+      where: { id },
+    });
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting partner:', error);
+    res.status(500).json({
+      error: 'Failed to delete partner',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+/**
+ * GET /api/partners/:id/feedback
+ *
+ * Get client feedback and incidents recorded for a partner, newest first.
+ *
+ * @route GET /api/partners/:id/feedback
+ * @access Private (requires authentication)
+ * @param {string} id - Partner UUID
+ * @returns {Object[]} data - Array of feedback objects
+ * @returns {string|null} rating - Current partner rating
+ * @throws {401} Unauthorized if not authenticated
+ * @throws {403} Forbidden if partner belongs to different organization
+ * @throws {404} Not found if partner doesn't exist
+ */
+router.get('/:id/feedback', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const { id } = req.params;
+
+    const partner = await prisma.partner.findUnique({
+      where: { id },
+      select: { id: true, organizationId: true, rating: true },
+    });
+
+    if (!partner) {
+      res.status(404).json({ error: 'Partner not found' });
+      return;
+    }
+
+    if (partner.organizationId !== req.user.organizationId) {
+      res.status(403).json({ error: 'Access denied to this partner' });
+      return;
+    }
+
+    const feedback = await prisma.partnerFeedback.findMany({
+      where: { partnerId: id },
+      select: feedbackSelect,
+      orderBy: { createdAt: 'desc' },
+    });
+
+    res.json({
+      data: feedback.map(formatFeedback),
+      rating: partner.rating ? partner.rating.toString() : null,
+    });
+  } catch (error) {
+    console.error('Error fetching partner feedback:', error);
+    res.status(500).json({
+      error: 'Failed to fetch partner feedback',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+/**
+ * POST /api/partners/:id/feedback
+ *
+ * Record client feedback (or an incident) on a partner for a client tour
+ * and recompute the partner's rating. The partner must be the one serving
+ * the booking: the partner of the tour's product or the client's assigned partner.
+ *
+ * @route POST /api/partners/:id/feedback
+ * @access Private (requires authentication)
+ * @param {string} id - Partner UUID
+ * @body {string} clientTourId - ClientTour UUID (required)
+ * @body {number} score - Score from 1 to 5 (required)
+ * @body {string} [comment] - Feedback comment
+ * @body {boolean} [isIncident=false] - Whether the feedback reports an incident
+ * @returns {Object} Created feedback object
+ * @returns {string|null} rating - Recomputed partner rating
+ * @throws {400} Validation error if input is invalid or partner doesn't serve the booking
+ * @throws {401} Unauthorized if not authenticated
+ * @throws {403} Forbidden if partner belongs to different organization
+ * @throws {404} Not found if partner or client tour doesn't exist
+ */
+router.post('/:id/feedback', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const { id } = req.params;
+    const body = createFeedbackSchema.parse(req.body);
+
+    const partner = await prisma.partner.findUnique({
+      where: { id },
+      select: { id: true, organizationId: true },
+    });
+
+    if (!partner) {
+      res.status(404).json({ error: 'Partner not found' });
+      return;
+    }
+
+    if (partner.organizationId !== req.user.organizationId) {
+      res.status(403).json({ error: 'Access denied to this partner' });
+      return;
+    }
+
+    const clientTour = await prisma.clientTour.findUnique({
+      where: { id: body.clientTourId },
+      select: {
+        id: true,
+        client: { select: { organizationId: true, assignedPartnerId: true } },
+        tour: { select: { product: { select: { partnerId: true } } } },
+      },
+    });
+
+    // Client tours of other organizations are reported as missing
+    if (!clientTour || clientTour.client.organizationId !== req.user.organizationId) {
+      res.status(404).json({ error: 'Client tour not found' });
+      return;
+    }
+
+    if ((clientTour.tour.product.partnerId ?? clientTour.client.assignedPartnerId) !== id) {
+      res.status(400).json({ error: 'Partner does not serve this booking' });
+      return;
+    }
+
+    const { organizationId, userId } = req.user;
+
+    const result = await prisma.$transaction(async (tx) => {
+      const feedback = await tx.partnerFeedback.create({
+        data: {
+          organizationId,
+          partnerId: id,
+          clientTourId: clientTour.id,
+          score: body.score,
+          comment: body.comment || null,
+          isIncident: body.isIncident,
+          createdById: userId,
+        },
+        select: feedbackSelect,
+      });
+
+      const rating = await recalculatePartnerRating(tx, id);
+
+      return { feedback, rating };
+    });
+
+    res.status(201).json({
+      ...formatFeedback(result.feedback),
+      rating: result.rating,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Validation error', details: error.errors });
+      return;
+    }
+
+    console.error('Error creating partner feedback:', error);
+    res.status(500).json({
+      error: 'Failed to create partner feedback',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+/**
+ * DELETE /api/partners/:id/feedback/:feedbackId
+ *
+ * Delete feedback recorded by mistake and recompute the partner's rating.
+ *
+ * @route DELETE /api/partners/:id/feedback/:feedbackId
+ * @access Private (requires ADMIN or SUPER_ADMIN role)
+ * @param {string} id - Partner UUID
+ * @param {string} feedbackId - Feedback UUID
+ * @returns {boolean} success - Success indicator
+ * @returns {string|null} rating - Recomputed partner rating
+ * @throws {401} Unauthorized if not authenticated
+ * @throws {403} Forbidden if partner belongs to different organization
+ * @throws {404} Not found if partner or feedback doesn't exist
+ */
+router.delete(
+  '/:id/feedback/:feedbackId',
+  authenticateToken,
+  requireRole('ADMIN', 'SUPER_ADMIN'),
+  async (req: Request, res: Response) => {
+    try {
+      if (!req.user) {
+        res.status(401).json({ error: 'Authentication required' });
+        return;
+      }
+
+      const { id, feedbackId } = req.params;
+
+      const feedback = await prisma.partnerFeedback.findUnique({
+        where: { id: feedbackId },
+        select: { id: true, partnerId: true, organizationId: true },
+      });
+
+      if (!feedback || feedback.partnerId !== id) {
+        res.status(404).json({ error: 'Feedback not found' });
+        return;
+      }
+
+      if (feedback.organizationId !== req.user.organizationId) {
+        res.status(403).json({ error: 'Access denied to this partner' });
+        return;
+      }
+
+      const rating = await prisma.$transaction(async (tx) => {
+        await tx.partnerFeedback.delete({ where: { id: feedbackId } });
+        return recalculatePartnerRating(tx, id);
+      });
+
+      res.json({ success: true, rating });
+    } catch (error) {
+      console.error('Error deleting partner feedback:', error);
+      res.status(500).json({
+        error: 'Failed to delete partner feedback',
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,610 @@
+/**
+ * Products Routes
+ *
+ * API endpoints for managing the organization's product catalog
+ */
+
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { prisma, Prisma } from '@soul-kg-crm/database';
+import { authenticateToken, requireRole } from '../middleware/auth.middleware';
+import { loadCurrencyContext, toDisplayCurrency, CurrencyContext } from '../utils/currency';
+
+const router = Router();
+
+// Product type enum (must match Prisma schema)
+const ProductTypeEnum = z.enum(['TOUR', 'SERVICE', 'PACKAGE']);
+
+// Inclusions / exclusions: list of short human-readable items
+const inclusionListSchema = z
+  .array(z.string().trim().min(1, 'Item cannot be empty').max(200))
+  .max(50, 'No more than 50 items allowed');
+
+// Optional add-ons a client can pick on top of the base price
+const productOptionSchema = z.object({
+  code: z
+    .string()
+    .regex(/^[a-z0-9_-]+$/, 'Option code must contain only lowercase letters, digits, "-" and "_"'),
+  name: z.string().trim().min(1, 'Option name is required'),
+  description: z.string().optional(),
+  price: z.coerce.number().nonnegative('Option price cannot be negative'),
+  perParticipant: z.boolean().optional().default(false),
+});
+
+const productOptionsSchema = z
+  .array(productOptionSchema)
+  .max(30, 'No more than 30 options allowed')
+  .refine(
+    (options) => new Set(options.map((option) => option.code)).size === options.length,
+    'Option codes must be unique'
+  );
+
+// Validation schemas
+const createProductSchema = z.object({
+  name: z.string().trim().min(1, 'Product name is required'),
+  description: z.string().optional(),
+  duration: z.number().int().positive('Duration must be a positive number of days').optional(),
+  type: ProductTypeEnum,
+  basePrice: z.coerce.number().nonnegative('Base price cannot be negative'),
+  currency: z
+    .string()
+    .regex(/^[A-Z]{3}$/, 'Currency must be a 3-letter ISO code')
+    .optional()
+    .default('USD'),
+  inclusions: inclusionListSchema.optional(),
+  exclusions: inclusionListSchema.optional(),
+  options: productOptionsSchema.optional(),
+  partnerId: z.string().uuid('Partner ID must be a valid UUID').nullable().optional(),
+  isActive: z.boolean().optional().default(true),
+});
+
+const updateProductSchema = z.object({
+  name: z.string().trim().min(1, 'Product name is required').optional(),
+  description: z.string().nullable().optional(),
+  duration: z.number().int().positive('Duration must be a positive number of days').nullable().optional(),
+  type: ProductTypeEnum.optional(),
+  basePrice: z.coerce.number().nonnegative('Base price cannot be negative').optional(),
+  currency: z.string().regex(/^[A-Z]{3}$/, 'Currency must be a 3-letter ISO code').optional(),
+  inclusions: inclusionListSchema.nullable().optional(),
+  exclusions: inclusionListSchema.nullable().optional(),
+  options: productOptionsSchema.nullable().optional(),
+  partnerId: z.string().uuid('Partner ID must be a valid UUID').nullable().optional(),
+  isActive: z.boolean().optional(),
+});
+
+const listProductsQuerySchema = z.object({
+  page: z.string().regex(/^\d+$/).transform(Number).optional().default('1'),
+  limit: z.string().regex(/^\d+$/).transform(Number).optional().default('20'),
+  type: ProductTypeEnum.optional(),
+  isActive: z.enum(['true', 'false']).transform((value) => value === 'true').optional(),
+  partnerId: z.string().uuid().optional(),
+  search: z.string().optional(),
+  sortBy: z.enum(['name', 'createdAt', 'basePrice']).optional().default('name'),
+  sortOrder: z.enum(['asc', 'desc']).optional().default('asc'),
+});
+
+const productSelect = {
+  id: true,
+  organizationId: true,
+  name: true,
+  description: true,
+  duration: true,
+  type: true,
+  basePrice: true,
+  currency: true,
+  inclusions: true,
+  exclusions: true,
+  options: true,
+  isActive: true,
+  partnerId: true,
+  createdAt: true,
+  updatedAt: true,
+  partner: {
+    select: {
+      id: true,
+      name: true,
+    },
+  },
+} satisfies Prisma.ProductSelect;
+
+type SelectedProduct = Prisma.ProductGetPayload<{ select: typeof productSelect }>;
+
+/**
+ * Convert a product row into the API response shape.
+ * reportingPrice is the base price in the organization's reporting currency
+ * (null when there is no exchange rate for the product currency).
+ */
+function formatProduct(product: SelectedProduct, currency: CurrencyContext) {
+  return {
+    id: product.id,
+    organizationId: product.organizationId,
+    name: product.name,
+    description: product.description,
+    duration: product.duration,
+    type: product.type,
+    basePrice: product.basePrice.toString(),
+    currency: product.currency,
+    reportingPrice: toDisplayCurrency(
+      product.basePrice.toString(),
+      product.currency,
+      currency.reportingCurrency,
+      currency.rates
+    ),
+    inclusions: (product.inclusions as string[] | null) || [],
+    exclusions: (product.exclusions as string[] | null) || [],
+    options: (product.options as z.infer<typeof productOptionSchema>[] | null) || [],
+    isActive: product.isActive,
+    partnerId: product.partnerId,
+    partner: product.partner,
+    createdAt: product.createdAt.toISOString(),
+    updatedAt: product.updatedAt.toISOString(),
+  };
+}
+
+/**
+ * Verify that a partner exists in the given organization
+ */
+async function partnerBelongsToOrganization(partnerId: string, organizationId: string): Promise<boolean> {
+  const partner = await prisma.partner.findUnique({
+    where: { id: partnerId },
+    select: { organizationId: true },
+  });
+
+  return !!partner && partner.organizationId === organizationId;
+}
+
+/**
+ * GET /api/products
+ *
+ * Get paginated list of products in the authenticated user's organization.
+ * Supports filtering by type, active flag and partner, and search by name/description.
+ *
+ * @route GET /api/products
+ * @access Private (requires authentication)
+ * @query {number} [page=1] - Page number (default: 1)
+ * @query {number} [limit=20] - Items per page (default: 20, max: 100)
+ * @query {string} [type] - Filter by product type (TOUR, SERVICE, PACKAGE)
+ * @query {boolean} [isActive] - Filter by active flag ("true" or "false")
+ * @query {string} [partnerId] - Filter by partner UUID
+ * @query {string} [search] - Search in name and description
+ * @query {string} [sortBy=name] - Sort field (name, createdAt, basePrice)
+ * @query {string} [sortOrder=asc] - Sort order (asc, desc)
+ * @returns {Object} data - Array of product objects, with the base price in the reporting currency (reportingPrice)
+ * @returns {Object} pagination - Pagination metadata (page, limit, total, totalPages)
+ * @throws {400} Validation error if query is invalid
+ * @throws {401} Unauthorized if not authenticated
+ */
+router.get('/', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const query = listProductsQuerySchema.parse(req.query);
+    const { page, type, isActive, partnerId, search, sortBy, sortOrder } = query;
+    const limit = Math.min(query.limit, 100);
+
+    // Build where clause
+    const where: any = {
+      organizationId: req.user.organizationId,
+    };
+
+    if (type) {
+      where.type = type;
+    }
+
+    if (isActive !== undefined) {
+      where.isActive = isActive;
+    }
+
+    if (partnerId) {
+      where.partnerId = partnerId;
+    }
+
+    if (search) {
+      where.OR = [
+        { name: { contains: search, mode: 'insensitive' } },
+        { description: { contains: search, mode: 'insensitive' } },
+      ];
+    }
+
+    const skip = (page - 1) * limit;
+
+    const total = await prisma.product.count({ where });
+
+    const products = await prisma.product.findMany({
+      where,
+      skip,
+      take: limit,
+      orderBy: {
+        [sortBy]: sortOrder,
+      },
+      select: productSelect,
+    });
+
+    const currency = await loadCurrencyContext(prisma, req.user.organizationId);
+
+    res.json({
+      data: products.map((product) => formatProduct(product, currency)),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Validation error', details: error.errors });
+      return;
+    }
+
+    console.error('Error fetching products:', error);
+    res.status(500).json({
+      error: 'Failed to fetch products',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+/**
+ * GET /api/products/:id
+ *
+ * Get detailed information about a specific product by ID.
+ *
+ * @route GET /api/products/:id
+ * @access Private (requires authentication)
+ * @param {string} id - Product UUID
+ * @returns {Object} Product object with inclusions, exclusions, options and reportingPrice
+ * @throws {401} Unauthorized if not authenticated
+ * @throws {403} Forbidden if product belongs to different organization
+ * @throws {404} Not found if product doesn't exist
+ */
+router.get('/:id', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const { id } = req.params;
+
+    const product = await prisma.product.findUnique({
+      where: { id },
+      select: productSelect,
+    });
+
+    if (!product) {
+      res.status(404).json({ error: 'Product not found' });
+      return;
+    }
+
+    if (product.organizationId !== req.user.organizationId) {
+      res.status(403).json({ error: 'Access denied to this product' });
+      return;
+    }
+
+    const currency = await loadCurrencyContext(prisma, req.user.organizationId);
+
+    res.json(formatProduct(product, currency));
+  } catch (error) {
+    console.error('Error fetching product:', error);
+    res.status(500).json({
+      error: 'Failed to fetch product',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+/**
+ * POST /api/products
+ *
+ * Create a new product in the authenticated user's organization.
+ * Only ADMIN and SUPER_ADMIN roles can manage the catalog.
+ *
+ * @route POST /api/products
+ * @access Private (requires ADMIN or SUPER_ADMIN role)
+ * @body {string} name - Product name (required)
+ * @body {string} type - Product type: TOUR, SERVICE or PACKAGE (required)
+ * @body {number} basePrice - Base price (required, non-negative)
+ * @body {string} [currency=USD] - 3-letter ISO currency code
+ * @body {string} [description] - Product description
+ * @body {number} [duration] - Duration in days
+ * @body {string[]} [inclusions] - What is included in the price
+ * @body {string[]} [exclusions] - What is not included in the price
+ * @body {Object[]} [options] - Optional add-ons ({ code, name, description?, price, perParticipant? })
+ * @body {string|null} [partnerId] - Partner UUID providing the product
+ * @body {boolean} [isActive=true] - Whether the product is offered to clients
+ * @returns {Object} Created product object
+ * @throws {400} Validation error if input is invalid
+ * @throws {401} Unauthorized if not authenticated
+ * @throws {403} Forbidden if user doesn't have ADMIN role
+ * @throws {404} Not found if partner doesn't exist in organization
+ */
+router.post('/', authenticateToken, requireRole('ADMIN', 'SUPER_ADMIN'), async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const body = createProductSchema.parse(req.body);
+
+    if (body.partnerId && !(await partnerBelongsToOrganization(body.partnerId, req.user.organizationId))) {
+      res.status(404).json({ error: 'Partner not found' });
+      return;
+    }
+
+    const product = await prisma.product.create({
+      data: {
+        organizationId: req.user.organizationId,
+        name: body.name,
+        description: body.description,
+        duration: body.duration,
+        type: body.type,
+        basePrice: body.basePrice,
+        currency: body.currency,
+        inclusions: body.inclusions,
+        exclusions: body.exclusions,
+        options: body.options,
+        partnerId: body.partnerId || null,
+        isActive: body.isActive,
+      },
+      select: productSelect,
+    });
+
+    const currency = await loadCurrencyContext(prisma, req.user.organizationId);
+
+    res.status(201).json(formatProduct(product, currency));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Validation error', details: error.errors });
+      return;
+    }
+
+    console.error('Error creating product:', error);
+    res.status(500).json({
+      error: 'Failed to create product',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+/**
+ * PUT /api/products/:id
+ *
+ * Update product information. Only provided fields will be updated.
+ * Passing null clears optional fields (description, duration, lists, partner).
+ *
+ * @route PUT /api/products/:id
+ * @access Private (requires ADMIN or SUPER_ADMIN role)
+ * @param {string} id - Product UUID
+ * @body Same fields as POST /api/products, all optional
+ * @returns {Object} Updated product object
+ * @throws {400} Validation error if input is invalid
+ * @throws {401} Unauthorized if not authenticated
+ * @throws {403} Forbidden if product belongs to different organization
+ * @throws {404} Not found if product or partner doesn't exist
+ */
+router.put('/:id', authenticateToken, requireRole('ADMIN', 'SUPER_ADMIN'), async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const { id } = req.params;
+    const body = updateProductSchema.parse(req.body);
+
+    const existingProduct = await prisma.product.findUnique({
+      where: { id },
+      select: { id: true, organizationId: true },
+    });
+
+    if (!existingProduct) {
+      res.status(404).json({ error: 'Product not found' });
+      return;
+    }
+
+    if (existingProduct.organizationId !== req.user.organizationId) {
+      res.status(403).json({ error: 'Access denied to this product' });
+      return;
+    }
+
+    if (body.partnerId && !(await partnerBelongsToOrganization(body.partnerId, req.user.organizationId))) {
+      res.status(404).json({ error: 'Partner not found' });
+      return;
+    }
+
+    // Prepare update data (JSON columns are cleared with DbNull)
+    const updateData: any = {};
+    if (body.name !== undefined) updateData.name = body.name;
+    if (body.description !== undefined) updateData.description = body.description;
+    if (body.duration !== undefined) updateData.duration = body.duration;
+    if (body.type !== undefined) updateData.type = body.type;
+    if (body.basePrice !== undefined) updateData.basePrice = body.basePrice;
+    if (body.currency !== undefined) updateData.currency = body.currency;
+    if (body.inclusions !== undefined) updateData.inclusions = body.inclusions ?? Prisma.DbNull;
+    if (body.exclusions !== undefined) updateData.exclusions = body.exclusions ?? Prisma.DbNull;
+    if (body.options !== undefined) updateData.options = body.options ?? Prisma.DbNull;
+    if (body.partnerId !== undefined) updateData.partnerId = body.partnerId;
+    if (body.isActive !== undefined) updateData.isActive = body.isActive;
+
+    const product = await prisma.product.update({
+      where: { id },
+      data: updateData,
+      select: productSelect,
+    });
+
+    const currency = await loadCurrencyContext(prisma, req.user.organizationId);
+
+    res.json(formatProduct(product, currency));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Validation error', details: error.errors });
+      return;
+    }
+
+    console.error('Error updating product:', error);
+    res.status(500).json({
+      error: 'Failed to update product',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+/**
+ * Set the active flag of a product in the user's organization
+ */
+async function setProductActive(req: Request, res: Response, isActive: boolean): Promise<void> {
+  if (!req.user) {
+    res.status(401).json({ error: 'Authentication required' });
+    return;
+  }
+
+  const { id } = req.params;
+
+  const existingProduct = await prisma.product.findUnique({
+    where: { id },
+    select: { id: true, organizationId: true },
+  });
+
+  if (!existingProduct) {
+    res.status(404).json({ error: 'Product not found' });
+    return;
+  }
+
+  if (existingProduct.organizationId !== req.user.organizationId) {
+    res.status(403).json({ error: 'Access denied to this product' });
+    return;
+  }
+
+  const product = await prisma.product.update({
+    where: { id },
+    data: { isActive },
+    select: productSelect,
+  });
+
+  const currency = await loadCurrencyContext(prisma, req.user.organizationId);
+
+  res.json(formatProduct(product, currency));
+}
+
+/**
+ * PATCH /api/products/:id/activate
+ *
+ * Make a product available for selection again.
+ *
+ * @route PATCH /api/products/:id/activate
+ * @access Private (requires ADMIN or SUPER_ADMIN role)
+ * @param {string} id - Product UUID
+ * @returns {Object} Updated product object
+ * @throws {401} Unauthorized if not authenticated
+ * @throws {403} Forbidden if product belongs to different organization
+ * @throws {404} Not found if product doesn't exist
+ */
+router.patch('/:id/activate', authenticateToken, requireRole('ADMIN', 'SUPER_ADMIN'), async (req: Request, res: Response) => {
+  try {
+    await setProductActive(req, res, true);
+  } catch (error) {
+    console.error('Error activating product:', error);
+    res.status(500).json({
+      error: 'Failed to activate product',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+/**
+ * PATCH /api/products/:id/deactivate
+ *
+ * Hide a product from pickers. Existing client links are kept.
+ *
+ * @route PATCH /api/products/:id/deactivate
+ * @access Private (requires ADMIN or SUPER_ADMIN role)
+ * @param {string} id - Product UUID
+ * @returns {Object} Updated product object
+ * @throws {401} Unauthorized if not authenticated
+ * @throws {403} Forbidden if product belongs to different organization
+ * @throws {404} Not found if product doesn't exist
+ */
+router.patch('/:id/deactivate', authenticateToken, requireRole('ADMIN', 'SUPER_ADMIN'), async (req: Request, res: Response) => {
+  try {
+    await setProductActive(req, res, false);
+  } catch (error) {
+    console.error('Error deactivating product:', error);
+    res.status(500).json({
+      error: 'Failed to deactivate product',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+/**
+ * DELETE /api/products/:id
+ *
+ * Permanently delete a product that was never used.
+ * Products linked to clients or with scheduled tours must be deactivated instead.
+ *
+ * @route DELETE /api/products/:id
+ * @access Private (requires ADMIN or SUPER_ADMIN role)
+ * @param {string} id - Product UUID
+ * @returns {Object} success - Success indicator
+ * @throws {401} Unauthorized if not authenticated
+ * @throws {403} Forbidden if product belongs to different organization
+ * @throws {404} Not found if product doesn't exist
+ * @throws {409} Conflict if product is linked to clients or tours
+ */
+router.delete('/:id', authenticateToken, requireRole('ADMIN', 'SUPER_ADMIN'), async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const { id } = req.params;
+
+    const product = await prisma.product.findUnique({
+      where: { id },
+      select: {
+        id: true,
+        organizationId: true,
+        _count: {
+          select: { clientProducts: true, tours: true },
+        },
+      },
+    });
+
+    if (!product) {
+      res.status(404).json({ error: 'Product not found' });
+      return;
+    }
+
+    if (product.organizationId !== req.user.organizationId) {
+      res.status(403).json({ error: 'Access denied to this product' });
+      return;
+    }
+
+    if (product._count.clientProducts > 0 || product._count.tours > 0) {
+      res.status(409).json({
+        error: 'Product is linked to clients or tours. Deactivate it instead.',
+      });
+      return;
+    }
+
+    await prisma.product.delete({
+      where: { id },
+    });
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting product:', error);
+    res.status(500).json({
+      error: 'Failed to delete product',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,599 @@
+/**
+ * Proposals Routes
+ *
+ * API endpoints for building priced proposals from a client's products
+ * and tour departures, and for sending them to the client
+ */
+
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { prisma, Prisma } from '@soul-kg-crm/database';
+import { authenticateToken } from '../middleware/auth.middleware';
+import {
+  priceProposalItem,
+  summarizeProposal,
+  ProductOptionInput,
+  ProposalItemSnapshot,
+  ProposalPricingError,
+  PRE_PROPOSAL_STATUSES,
+} from '../utils/proposal-pricing';
+import { loadCurrencyContext, toDisplayCurrency, CurrencyContext } from '../utils/currency';
+
+const router = Router();
+
+// Proposal status enum (must match Prisma schema)
+const ProposalStatusEnum = z.enum(['DRAFT', 'SENT']);
+
+// Validation schemas
+const proposalItemSchema = z.object({
+  clientProductId: z.string().uuid('Client product ID must be a valid UUID'),
+  tourId: z.string().uuid('Tour ID must be a valid UUID').optional(),
+  participants: z.number().int().positive('Participants must be a positive number').optional().default(1),
+  optionCodes: z.array(z.string()).max(30).optional().default([]),
+});
+
+const createProposalSchema = z.object({
+  clientId: z.string().uuid('Client ID must be a valid UUID'),
+  title: z.string().trim().max(200).optional(),
+  notes: z.string().optional(),
+  items: z
+    .array(proposalItemSchema)
+    .min(1, 'Proposal must contain at least one item')
+    .max(50, 'No more than 50 items allowed')
+    .refine(
+      (items) => new Set(items.map((item) => `${item.clientProductId}:${item.tourId ?? ''}`)).size === items.length,
+      'The same product and departure can only be added once'
+    ),
+});
+
+const sendProposalSchema = z.object({
+  reason: z.string().optional(),
+});
+
+const listProposalsQuerySchema = z.object({
+  page: z.string().regex(/^\d+$/).transform(Number).optional().default('1'),
+  limit: z.string().regex(/^\d+$/).transform(Number).optional().default('20'),
+  clientId: z.string().uuid().optional(),
+  status: ProposalStatusEnum.optional(),
+});
+
+// Fields returned for a proposal
+const proposalSelect = {
+  id: true,
+  organizationId: true,
+  clientId: true,
+  version: true,
+  status: true,
+  title: true,
+  currency: true,
+  totalAmount: true,
+  items: true,
+  notes: true,
+  sentAt: true,
+  createdAt: true,
+  updatedAt: true,
+  client: {
+    select: {
+      preferredCurrency: true,
+    },
+  },
+  createdBy: {
+    select: {
+      id: true,
+      firstName: true,
+      lastName: true,
+    },
+  },
+  sentBy: {
+    select: {
+      id: true,
+      firstName: true,
+      lastName: true,
+    },
+  },
+} satisfies Prisma.ProposalSelect;
+
+type SelectedProposal = Prisma.ProposalGetPayload<{ select: typeof proposalSelect }>;
+
+/**
+ * Convert a proposal row into the API response shape.
+ * The total is also shown in the organization's reporting currency and
+ * the client's preferred currency (null when there is no exchange rate).
+ */
+function formatProposal(proposal: SelectedProposal, currency: CurrencyContext) {
+  const totalAmount = proposal.totalAmount.toString();
+
+  return {
+    id: proposal.id,
+    organizationId: proposal.organizationId,
+    clientId: proposal.clientId,
+    version: proposal.version,
+    status: proposal.status,
+    title: proposal.title,
+    currency: proposal.currency,
+    totalAmount,
+    reportingTotal: toDisplayCurrency(totalAmount, proposal.currency, currency.reportingCurrency, currency.rates),
+    clientTotal: toDisplayCurrency(totalAmount, proposal.currency, proposal.client.preferredCurrency, currency.rates),
+    items: proposal.items as unknown as ProposalItemSnapshot[],
+    notes: proposal.notes,
+    createdBy: proposal.createdBy,
+    sentBy: proposal.sentBy,
+    sentAt: proposal.sentAt?.toISOString() || null,
+    createdAt: proposal.createdAt.toISOString(),
+    updatedAt: proposal.updatedAt.toISOString(),
+  };
+}
+
+/**
+ * Thrown inside the send transaction when the proposal was already sent
+ */
+class ProposalAlreadySentError extends Error {}
+
+/**
+ * GET /api/proposals
+ *
+ * Get proposals in the authenticated user's organization, newest version first.
+ *
+ * @route GET /api/proposals
+ * @access Private (requires authentication)
+ * @query {number} [page=1] - Page number (default: 1)
+ * @query {number} [limit=20] - Items per page (default: 20, max: 100)
+ * @query {string} [clientId] - Filter by client UUID
+ * @query {string} [status] - Filter by proposal status (DRAFT, SENT)
+ * @returns {Object} data - Array of proposal objects
+ * @returns {Object} pagination - Pagination metadata (page, limit, total, totalPages)
+ * @throws {400} Validation error if query is invalid
+ * @throws {401} Unauthorized if not authenticated
+ */
+router.get('/', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const query = listProposalsQuerySchema.parse(req.query);
+    const { page, clientId, status } = query;
+    const limit = Math.min(query.limit, 100);
+
+    // Build where clause
+    const where: Prisma.ProposalWhereInput = {
+      organizationId: req.user.organizationId,
+    };
+
+    if (clientId) {
+      where.clientId = clientId;
+    }
+
+    if (status) {
+      where.status = status;
+    }
+
+    const skip = (page - 1) * limit;
+
+    const total = await prisma.proposal.count({ where });
+
+    const proposals = await prisma.proposal.findMany({
+      where,
+      skip,
+      take: limit,
+      orderBy: [{ createdAt: 'desc' }, { version: 'desc' }],
+      select: proposalSelect,
+    });
+
+    const currency = await loadCurrencyContext(prisma, req.user.organizationId);
+
+    res.json({
+      data: proposals.map((proposal) => formatProposal(proposal, currency)),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Validation error', details: error.errors });
+      return;
+    }
+
+    console.error('Error fetching proposals:', error);
+    res.status(500).json({
+      error: 'Failed to fetch proposals',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+/**
+ * GET /api/proposals/:id
+ *
+ * Get a specific proposal version by ID.
+ *
+ * @route GET /api/proposals/:id
+ * @access Private (requires authentication)
+ * @param {string} id - Proposal UUID
+ * @returns {Object} Proposal object with priced items
+ * @throws {401} Unauthorized if not authenticated
+ * @throws {403} Forbidden if proposal belongs to different organization
+ * @throws {404} Not found if proposal doesn't exist
+ */
+router.get('/:id', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const { id } = req.params;
+
+    const proposal = await prisma.proposal.findUnique({
+      where: { id },
+      select: proposalSelect,
+    });
+
+    if (!proposal) {
+      res.status(404).json({ error: 'Proposal not found' });
+      return;
+    }
+
+    if (proposal.organizationId !== req.user.organizationId) {
+      res.status(403).json({ error: 'Access denied to this proposal' });
+      return;
+    }
+
+    const currency = await loadCurrencyContext(prisma, req.user.organizationId);
+
+    res.json(formatProposal(proposal, currency));
+  } catch (error) {
+    console.error('Error fetching proposal:', error);
+    res.status(500).json({
+      error: 'Failed to fetch proposal',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+/**
+ * POST /api/proposals
+ *
+ * Build a new proposal version for a client.
+ * Items reference the client's products, optionally pinned to a departure
+ * of that product. Prices come from the departure price (or the product's
+ * base price) per participant plus picked options. The priced items are
+ * stored as a snapshot, so later catalog changes don't alter the proposal.
+ *
+ * @route POST /api/proposals
+ * @access Private (requires authentication)
+ * @body {string} clientId - Client UUID (required)
+ * @body {string} [title] - Proposal title
+ * @body {string} [notes] - Notes shown with the proposal
+ * @body {Object[]} items - Items ({ clientProductId, tourId?, participants?, optionCodes? })
+ * @returns {Object} Created proposal object
+ * @throws {400} Validation error if input is invalid, an option is unknown,
+ *   a departure doesn't match the product or currencies differ
+ * @throws {401} Unauthorized if not authenticated
+ * @throws {403} Forbidden if client belongs to different organization
+ * @throws {404} Not found if client, client product or tour doesn't exist
+ * @throws {409} Conflict if another version was created at the same time
+ */
+router.post('/', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const body = createProposalSchema.parse(req.body);
+    const organizationId = req.user.organizationId;
+
+    const client = await prisma.client.findUnique({
+      where: { id: body.clientId },
+      select: { id: true, organizationId: true },
+    });
+
+    if (!client) {
+      res.status(404).json({ error: 'Client not found' });
+      return;
+    }
+
+    if (client.organizationId !== organizationId) {
+      res.status(403).json({ error: 'Access denied to this client' });
+      return;
+    }
+
+    const clientProducts = await prisma.clientProduct.findMany({
+      where: {
+        id: { in: body.items.map((item) => item.clientProductId) },
+        clientId: client.id,
+      },
+      include: {
+        product: {
+          select: {
+            id: true,
+            name: true,
+            type: true,
+            description: true,
+            duration: true,
+            basePrice: true,
+            currency: true,
+            inclusions: true,
+            exclusions: true,
+            options: true,
+          },
+        },
+      },
+    });
+
+    const tourIds = body.items.flatMap((item) => (item.tourId ? [item.tourId] : []));
+    const tours = tourIds.length
+      ? await prisma.tour.findMany({
+          where: { id: { in: tourIds }, organizationId },
+          select: {
+            id: true,
+            productId: true,
+            startDate: true,
+            endDate: true,
+            price: true,
+            currency: true,
+            status: true,
+          },
+        })
+      : [];
+
+    const items: ProposalItemSnapshot[] = [];
+
+    for (const item of body.items) {
+      const clientProduct = clientProducts.find((cp) => cp.id === item.clientProductId);
+
+      if (!clientProduct) {
+        res.status(404).json({ error: 'Client product not found' });
+        return;
+      }
+
+      const tour = item.tourId ? tours.find((candidate) => candidate.id === item.tourId) : undefined;
+
+      if (item.tourId && !tour) {
+        res.status(404).json({ error: 'Tour not found' });
+        return;
+      }
+
+      if (tour && tour.productId !== clientProduct.productId) {
+        res.status(400).json({ error: 'Tour departure does not belong to the selected product' });
+        return;
+      }
+
+      if (tour && (tour.status === 'CANCELLED' || tour.status === 'COMPLETED')) {
+        res.status(400).json({ error: `Tour departure is ${tour.status.toLowerCase()}` });
+        return;
+      }
+
+      const { product } = clientProduct;
+
+      items.push(
+        priceProposalItem({
+          clientProductId: clientProduct.id,
+          product: {
+            id: product.id,
+            name: product.name,
+            type: product.type,
+            description: product.description,
+            duration: product.duration,
+            basePrice: product.basePrice.toString(),
+            currency: product.currency,
+            inclusions: (product.inclusions as string[] | null) || [],
+            exclusions: (product.exclusions as string[] | null) || [],
+            options: (product.options as ProductOptionInput[] | null) || [],
+          },
+          tour: tour
+            ? {
+                id: tour.id,
+                startDate: tour.startDate,
+                endDate: tour.endDate,
+                price: tour.price?.toString() ?? null,
+                currency: tour.currency,
+              }
+            : null,
+          participants: item.participants,
+          optionCodes: item.optionCodes,
+        })
+      );
+    }
+
+    const { currency, totalAmount } = summarizeProposal(items);
+
+    const proposal = await prisma.$transaction(async (tx) => {
+      const latest = await tx.proposal.aggregate({
+        where: { clientId: client.id },
+        _max: { version: true },
+      });
+
+      return tx.proposal.create({
+        data: {
+          organizationId,
+          clientId: client.id,
+          version: (latest._max.version ?? 0) + 1,
+          title: body.title || null,
+          notes: body.notes || null,
+          currency,
+          totalAmount,
+          items: items as unknown as Prisma.InputJsonValue,
+          createdById: req.user!.userId,
+        },
+        select: proposalSelect,
+      });
+    });
+
+    const currencyContext = await loadCurrencyContext(prisma, organizationId);
+
+    res.status(201).json(formatProposal(proposal, currencyContext));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Validation error', details: error.errors });
+      return;
+    }
+
+    if (error instanceof ProposalPricingError) {
+      res.status(400).json({ error: error.message, code: error.code });
+      return;
+    }
+
+    // Two versions created concurrently for the same client (unique clientId + version)
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      res.status(409).json({ error: 'Another proposal version was just created, please retry' });
+      return;
+    }
+
+    console.error('Error creating proposal:', error);
+    res.status(500).json({
+      error: 'Failed to create proposal',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+/**
+ * POST /api/proposals/:id/send
+ *
+ * Mark a proposal version as sent.
+ * In the same transaction the client's products (and departures) in the
+ * proposal move from INTERESTED to PROPOSED, and a client that hasn't
+ * reached the proposal stage yet is moved to PROPOSAL_SENT with a
+ * status history entry.
+ *
+ * @route POST /api/proposals/:id/send
+ * @access Private (requires authentication)
+ * @param {string} id - Proposal UUID
+ * @body {string} [reason] - Reason recorded in the client status history
+ * @returns {Object} Sent proposal object with clientStatus
+ * @throws {400} Validation error if input is invalid
+ * @throws {401} Unauthorized if not authenticated
+ * @throws {403} Forbidden if proposal belongs to different organization
+ * @throws {404} Not found if proposal doesn't exist
+ * @throws {409} Conflict if proposal has already been sent
+ */
+router.post('/:id/send', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const { id } = req.params;
+    const { reason } = sendProposalSchema.parse(req.body ?? {});
+    const user = req.user;
+
+    const existingProposal = await prisma.proposal.findUnique({
+      where: { id },
+      select: { id: true, organizationId: true, clientId: true, version: true, items: true },
+    });
+
+    if (!existingProposal) {
+      res.status(404).json({ error: 'Proposal not found' });
+      return;
+    }
+
+    if (existingProposal.organizationId !== user.organizationId) {
+      res.status(403).json({ error: 'Access denied to this proposal' });
+      return;
+    }
+
+    const items = existingProposal.items as unknown as ProposalItemSnapshot[];
+    const { clientId } = existingProposal;
+
+    const result = await prisma.$transaction(async (tx) => {
+      const { count } = await tx.proposal.updateMany({
+        where: { id, status: 'DRAFT' },
+        data: {
+          status: 'SENT',
+          sentAt: new Date(),
+          sentById: user.userId,
+        },
+      });
+
+      if (count === 0) {
+        throw new ProposalAlreadySentError();
+      }
+
+      // Products further along (SELECTED, BOOKED) keep their status
+      await tx.clientProduct.updateMany({
+        where: {
+          id: { in: items.map((item) => item.clientProductId) },
+          clientId,
+          status: 'INTERESTED',
+        },
+        data: { status: 'PROPOSED' },
+      });
+
+      const tourIds = items.flatMap((item) => (item.tour ? [item.tour.id] : []));
+      if (tourIds.length) {
+        await tx.clientTour.updateMany({
+          where: { clientId, tourId: { in: tourIds }, status: 'INTERESTED' },
+          data: { status: 'PROPOSED' },
+        });
+      }
+
+      const client = await tx.client.findUniqueOrThrow({
+        where: { id: clientId },
+        select: { status: true },
+      });
+
+      let clientStatus = client.status;
+
+      if (PRE_PROPOSAL_STATUSES.includes(client.status)) {
+        const { count: movedCount } = await tx.client.updateMany({
+          where: { id: clientId, status: client.status },
+          data: { status: 'PROPOSAL_SENT' },
+        });
+
+        if (movedCount > 0) {
+          await tx.clientStatusHistory.create({
+            data: {
+              clientId,
+              organizationId: user.organizationId,
+              oldStatus: client.status,
+              newStatus: 'PROPOSAL_SENT',
+              changedBy: 'HUMAN',
+              changedById: user.userId,
+              reason: reason || `Proposal v${existingProposal.version} sent`,
+            },
+          });
+          clientStatus = 'PROPOSAL_SENT';
+        }
+      }
+
+      const proposal = await tx.proposal.findUniqueOrThrow({
+        where: { id },
+        select: proposalSelect,
+      });
+
+      return { proposal, clientStatus };
+    });
+
+    const currency = await loadCurrencyContext(prisma, req.user.organizationId);
+
+    res.json({
+      ...formatProposal(result.proposal, currency),
+      clientStatus: result.clientStatus,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Validation error', details: error.errors });
+      return;
+    }
+
+    if (error instanceof ProposalAlreadySentError) {
+      res.status(409).json({ error: 'Proposal has already been sent' });
+      return;
+    }
+
+    console.error('Error sending proposal:', error);
+    res.status(500).json({
+      error: 'Failed to send proposal',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,105 @@
+/**
+ * Reports Routes
+ *
+ * API endpoints for organization reports
+ */
+
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { prisma } from '@soul-kg-crm/database';
+import { authenticateToken } from '../middleware/auth.middleware';
+import { SEAT_HOLDING_STATUSES } from '../utils/client-tour-workflow';
+import { getSeatCount } from '../utils/tour-capacity';
+import { loadCurrencyContext } from '../utils/currency';
+import { summarizeRevenue } from '../utils/revenue';
+
+const router = Router();
+
+// Validation schemas
+const revenueQuerySchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+});
+
+/**
+ * GET /api/reports/revenue
+ *
+ * Booked revenue in the organization's reporting currency.
+ * Every booked or confirmed client tour counts as its seats times the
+ * departure price (or the product's base price), grouped by departure month.
+ * Amounts are converted with the current exchange rates; currencies
+ * without a rate are listed in unconvertedCurrencies.
+ *
+ * @route GET /api/reports/revenue
+ * @access Private (requires authentication)
+ * @query {string} [from] - Only departures starting on or after this date
+ * @query {string} [to] - Only departures starting before this date
+ * @returns {string} currency - Reporting currency
+ * @returns {string} total - Total revenue in the reporting currency
+ * @returns {number} bookings - Number of bookings in the total
+ * @returns {Object[]} byCurrency - Revenue in original currencies ({ currency, amount, bookings })
+ * @returns {Object[]} byMonth - Revenue per departure month ({ month, amount, bookings })
+ * @returns {string[]} unconvertedCurrencies - Currencies left out of the total for lack of a rate
+ * @throws {400} Validation error if query is invalid
+ * @throws {401} Unauthorized if not authenticated
+ */
+router.get('/revenue', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const { from, to } = revenueQuerySchema.parse(req.query);
+
+    const [bookings, currency] = await Promise.all([
+      prisma.clientTour.findMany({
+        where: {
+          status: { in: [...SEAT_HOLDING_STATUSES] },
+          tour: {
+            organizationId: req.user.organizationId,
+            startDate: { gte: from, lt: to },
+          },
+        },
+        select: {
+          participants: true,
+          tour: {
+            select: {
+              startDate: true,
+              price: true,
+              currency: true,
+              product: { select: { basePrice: true, currency: true } },
+            },
+          },
+        },
+      }),
+      loadCurrencyContext(prisma, req.user.organizationId),
+    ]);
+
+    const entries = bookings.map(({ participants, tour }) => {
+      // Departure price overrides the product's base price
+      const unitPrice = Number((tour.price ?? tour.product.basePrice).toString());
+
+      return {
+        amount: unitPrice * getSeatCount(participants),
+        currency: tour.price !== null ? tour.currency : tour.product.currency,
+        date: tour.startDate,
+      };
+    });
+
+    res.json(summarizeRevenue(entries, currency.reportingCurrency, currency.rates));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Validation error', details: error.errors });
+      return;
+    }
+
+    console.error('Error building revenue report:', error);
+    res.status(500).json({
+      error: 'Failed to build revenue report',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+export default router;
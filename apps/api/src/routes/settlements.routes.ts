@@ -0,0 +1,292 @@
+/**
+ * Settlements Routes
+ *
+ * API endpoints for partner commission ledger and settlement reports
+ */
+
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { prisma, Prisma } from '@soul-kg-crm/database';
+import { authenticateToken, requireRole } from '../middleware/auth.middleware';
+import { summarizeSettlements, buildSettlementCsv } from '../utils/partner-commission';
+
+const router = Router();
+
+// Validation schemas
+const settlementQuerySchema = z.object({
+  partnerId: z.string().uuid().optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  status: z.enum(['UNPAID', 'PAID', 'VOID']).optional(),
+  format: z.enum(['json', 'csv']).optional().default('json'),
+});
+
+const updateEntrySchema = z.object({
+  status: z.enum(['UNPAID', 'PAID']),
+});
+
+const payEntriesSchema = z.object({
+  entryIds: z.array(z.string().uuid()).min(1, 'At least one entry is required').max(500),
+});
+
+const ledgerEntrySelect = {
+  id: true,
+  organizationId: true,
+  partnerId: true,
+  clientTourId: true,
+  clientId: true,
+  clientName: true,
+  productName: true,
+  tourStartDate: true,
+  participants: true,
+  bookingAmount: true,
+  commissionType: true,
+  commissionValue: true,
+  amount: true,
+  currency: true,
+  status: true,
+  paidAt: true,
+  createdAt: true,
+  partner: {
+    select: {
+      id: true,
+      name: true,
+    },
+  },
+  paidBy: {
+    select: {
+      id: true,
+      firstName: true,
+      lastName: true,
+    },
+  },
+} satisfies Prisma.PartnerLedgerEntrySelect;
+
+type SelectedLedgerEntry = Prisma.PartnerLedgerEntryGetPayload<{ select: typeof ledgerEntrySelect }>;
+
+/**
+ * Convert a ledger entry row into the API response shape
+ */
+function formatLedgerEntry(entry: SelectedLedgerEntry) {
+  return {
+    id: entry.id,
+    partner: entry.partner,
+    clientTourId: entry.clientTourId,
+    clientId: entry.clientId,
+    clientName: entry.clientName,
+    productName: entry.productName,
+    tourStartDate: entry.tourStartDate.toISOString(),
+    participants: entry.participants,
+    bookingAmount: entry.bookingAmount.toString(),
+    commissionType: entry.commissionType,
+    commissionValue: entry.commissionValue.toString(),
+    amount: entry.amount.toString(),
+    currency: entry.currency,
+    status: entry.status,
+    paidAt: entry.paidAt ? entry.paidAt.toISOString() : null,
+    paidBy: entry.paidBy,
+    createdAt: entry.createdAt.toISOString(),
+  };
+}
+
+/**
+ * Ledger entry with the partner name flattened for summaries and CSV
+ */
+function toSettlementEntry(entry: SelectedLedgerEntry) {
+  return { ...entry, partnerName: entry.partner.name };
+}
+
+/**
+ * GET /api/settlements
+ *
+ * Settlement report: commission ledger entries for departures in the period,
+ * with paid and unpaid totals per partner and currency.
+ * Voided entries are only listed when filtering by status VOID.
+ * With format=csv the entries are returned as a CSV attachment.
+ *
+ * @route GET /api/settlements
+ * @access Private (requires ADMIN or SUPER_ADMIN role)
+ * @query {string} [partnerId] - Only entries of this partner
+ * @query {string} [from] - Only departures starting on or after this date
+ * @query {string} [to] - Only departures starting before this date
+ * @query {string} [status] - Filter by entry status (UNPAID, PAID, VOID)
+ * @query {string} [format=json] - Response format (json, csv)
+ * @returns {Object[]} data - Array of ledger entries ordered by departure date
+ * @returns {Object[]} partners - Totals per partner ({ partnerId, partnerName, entries, totals })
+ * @throws {400} Validation error if query is invalid
+ * @throws {401} Unauthorized if not authenticated
+ * @throws {403} Forbidden if user doesn't have ADMIN role
+ */
+router.get('/', authenticateToken, requireRole('ADMIN', 'SUPER_ADMIN'), async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const { partnerId, from, to, status, format } = settlementQuerySchema.parse(req.query);
+
+    const entries = await prisma.partnerLedgerEntry.findMany({
+      where: {
+        organizationId: req.user.organizationId,
+        partnerId,
+        tourStartDate: { gte: from, lt: to },
+        status: status ?? { not: 'VOID' },
+      },
+      select: ledgerEntrySelect,
+      orderBy: [{ tourStartDate: 'asc' }, { createdAt: 'asc' }],
+    });
+
+    if (format === 'csv') {
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', 'attachment; filename="settlements.csv"');
+      res.send(buildSettlementCsv(entries.map(toSettlementEntry)));
+      return;
+    }
+
+    res.json({
+      data: entries.map(formatLedgerEntry),
+      partners: summarizeSettlements(entries.map(toSettlementEntry)),
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Validation error', details: error.errors });
+      return;
+    }
+
+    console.error('Error building settlement report:', error);
+    res.status(500).json({
+      error: 'Failed to build settlement report',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+/**
+ * PATCH /api/settlements/entries/:id
+ *
+ * Mark a ledger entry as paid or unpaid.
+ * Voided entries belong to cancelled bookings and can't be changed.
+ *
+ * @route PATCH /api/settlements/entries/:id
+ * @access Private (requires ADMIN or SUPER_ADMIN role)
+ * @param {string} id - Ledger entry UUID
+ * @body {string} status - New status (UNPAID or PAID)
+ * @returns {Object} Updated ledger entry
+ * @throws {400} Validation error if input is invalid
+ * @throws {401} Unauthorized if not authenticated
+ * @throws {403} Forbidden if entry belongs to different organization
+ * @throws {404} Not found if entry doesn't exist
+ * @throws {409} Conflict if the entry is voided
+ */
+router.patch('/entries/:id', authenticateToken, requireRole('ADMIN', 'SUPER_ADMIN'), async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const { id } = req.params;
+    const { status } = updateEntrySchema.parse(req.body);
+
+    const existingEntry = await prisma.partnerLedgerEntry.findUnique({
+      where: { id },
+      select: { id: true, organizationId: true, status: true },
+    });
+
+    if (!existingEntry) {
+      res.status(404).json({ error: 'Ledger entry not found' });
+      return;
+    }
+
+    if (existingEntry.organizationId !== req.user.organizationId) {
+      res.status(403).json({ error: 'Access denied to this ledger entry' });
+      return;
+    }
+
+    // Conditional update: a booking cancelled meanwhile voids the entry
+    const { count } = await prisma.partnerLedgerEntry.updateMany({
+      where: { id, status: { not: 'VOID' } },
+      data:
+        status === 'PAID'
+          ? { status, paidAt: new Date(), paidById: req.user.userId }
+          : { status, paidAt: null, paidById: null },
+    });
+
+    if (count === 0) {
+      res.status(409).json({ error: 'Ledger entry is voided' });
+      return;
+    }
+
+    const entry = await prisma.partnerLedgerEntry.findUniqueOrThrow({
+      where: { id },
+      select: ledgerEntrySelect,
+    });
+
+    res.json(formatLedgerEntry(entry));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Validation error', details: error.errors });
+      return;
+    }
+
+    console.error('Error updating ledger entry:', error);
+    res.status(500).json({
+      error: 'Failed to update ledger entry',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+/**
+ * POST /api/settlements/pay
+ *
+ * Mark several unpaid ledger entries as paid, e.g. after a settlement
+ * transfer to a partner. Entries that are already paid or voided are skipped.
+ *
+ * @route POST /api/settlements/pay
+ * @access Private (requires ADMIN or SUPER_ADMIN role)
+ * @body {string[]} entryIds - Ledger entry UUIDs (1-500)
+ * @returns {number} paid - Number of entries marked as paid
+ * @throws {400} Validation error if input is invalid
+ * @throws {401} Unauthorized if not authenticated
+ * @throws {403} Forbidden if user doesn't have ADMIN role
+ */
+router.post('/pay', authenticateToken, requireRole('ADMIN', 'SUPER_ADMIN'), async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const { entryIds } = payEntriesSchema.parse(req.body);
+
+    const { count } = await prisma.partnerLedgerEntry.updateMany({
+      where: {
+        id: { in: entryIds },
+        organizationId: req.user.organizationId,
+        status: 'UNPAID',
+      },
+      data: {
+        status: 'PAID',
+        paidAt: new Date(),
+        paidById: req.user.userId,
+      },
+    });
+
+    res.json({ paid: count });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Validation error', details: error.errors });
+      return;
+    }
+
+    console.error('Error paying ledger entries:', error);
+    res.status(500).json({
+      error: 'Failed to pay ledger entries',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+export default router;
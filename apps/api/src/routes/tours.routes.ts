@@ -0,0 +1,712 @@
+/**
+ * Tours Routes
+ *
+ * API endpoints for scheduling tour departures and booking clients on them
+ */
+
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { prisma, Prisma } from '@soul-kg-crm/database';
+import { authenticateToken, requireRole } from '../middleware/auth.middleware';
+import { reserveSeats, TourCapacityError } from '../utils/tour-capacity';
+import { canTransitionClientTour, holdsSeats, SEAT_HOLDING_STATUSES } from '../utils/client-tour-workflow';
+
+const router = Router();
+
+// Tour status enum (must match Prisma schema)
+const TourStatusEnum = z.enum(['AVAILABLE', 'FULL', 'CANCELLED', 'COMPLETED']);
+const ClientTourStatusEnum = z.enum(['INTERESTED', 'PROPOSED', 'SELECTED', 'BOOKED', 'CONFIRMED', 'CANCELLED']);
+
+// Validation schemas
+const createTourSchema = z
+  .object({
+    productId: z.string().uuid('Product ID must be a valid UUID'),
+    startDate: z.coerce.date(),
+    endDate: z.coerce.date(),
+    maxParticipants: z.number().int().positive('Capacity must be a positive number').nullable().optional(),
+    price: z.coerce.number().nonnegative('Price cannot be negative').nullable().optional(),
+    currency: z.string().regex(/^[A-Z]{3}$/, 'Currency must be a 3-letter ISO code').optional(),
+    notes: z.string().optional(),
+  })
+  .refine((data) => data.endDate >= data.startDate, {
+    message: 'End date must not be before start date',
+    path: ['endDate'],
+  });
+
+const updateTourSchema = z.object({
+  startDate: z.coerce.date().optional(),
+  endDate: z.coerce.date().optional(),
+  maxParticipants: z.number().int().positive('Capacity must be a positive number').nullable().optional(),
+  price: z.coerce.number().nonnegative('Price cannot be negative').nullable().optional(),
+  currency: z.string().regex(/^[A-Z]{3}$/, 'Currency must be a 3-letter ISO code').optional(),
+  // FULL is derived from capacity and can't be set by hand
+  status: z.enum(['AVAILABLE', 'CANCELLED', 'COMPLETED']).optional(),
+  notes: z.string().nullable().optional(),
+});
+
+const listToursQuerySchema = z.object({
+  page: z.string().regex(/^\d+$/).transform(Number).optional().default('1'),
+  limit: z.string().regex(/^\d+$/).transform(Number).optional().default('50'),
+  productId: z.string().uuid().optional(),
+  status: TourStatusEnum.optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  sortOrder: z.enum(['asc', 'desc']).optional().default('asc'),
+});
+
+const tourClientsQuerySchema = z.object({
+  status: z
+    .string()
+    .optional()
+    .transform((value) => (value ? value.split(',') : undefined))
+    .pipe(z.array(ClientTourStatusEnum).optional()),
+});
+
+const bookTourSchema = z.object({
+  clientId: z.string().uuid('Client ID must be a valid UUID'),
+  participants: z.number().int().positive('Participants must be a positive number').max(100).optional().default(1),
+  notes: z.string().optional(),
+});
+
+const tourSelect = {
+  id: true,
+  organizationId: true,
+  productId: true,
+  startDate: true,
+  endDate: true,
+  maxParticipants: true,
+  currentParticipants: true,
+  price: true,
+  currency: true,
+  status: true,
+  notes: true,
+  createdAt: true,
+  updatedAt: true,
+  product: {
+    select: {
+      id: true,
+      name: true,
+      type: true,
+    },
+  },
+} satisfies Prisma.TourSelect;
+
+type SelectedTour = Prisma.TourGetPayload<{ select: typeof tourSelect }>;
+
+/**
+ * Convert a tour row into the API response shape
+ */
+function formatTour(tour: SelectedTour) {
+  return {
+    id: tour.id,
+    organizationId: tour.organizationId,
+    productId: tour.productId,
+    product: tour.product,
+    startDate: tour.startDate.toISOString(),
+    endDate: tour.endDate.toISOString(),
+    maxParticipants: tour.maxParticipants,
+    currentParticipants: tour.currentParticipants,
+    availableSeats:
+      tour.maxParticipants !== null ? Math.max(0, tour.maxParticipants - tour.currentParticipants) : null,
+    price: tour.price ? tour.price.toString() : null,
+    currency: tour.currency,
+    status: tour.status,
+    notes: tour.notes,
+    createdAt: tour.createdAt.toISOString(),
+    updatedAt: tour.updatedAt.toISOString(),
+  };
+}
+
+/**
+ * Thrown inside the booking transaction when the client is already booked
+ */
+class AlreadyBookedError extends Error {}
+
+/**
+ * Thrown inside the booking transaction when the client tour can't move to BOOKED
+ */
+class InvalidBookingTransitionError extends Error {}
+
+/**
+ * GET /api/tours
+ *
+ * Get departures in the authenticated user's organization.
+ * With from/to only tours overlapping the date range are returned.
+ *
+ * @route GET /api/tours
+ * @access Private (requires authentication)
+ * @query {number} [page=1] - Page number (default: 1)
+ * @query {number} [limit=50] - Items per page (default: 50, max: 200)
+ * @query {string} [productId] - Filter by product UUID
+ * @query {string} [status] - Filter by tour status (AVAILABLE, FULL, CANCELLED, COMPLETED)
+ * @query {string} [from] - Range start (ISO date)
+ * @query {string} [to] - Range end (ISO date)
+ * @query {string} [sortOrder=asc] - Sort order by start date (asc, desc)
+ * @returns {Object} data - Array of tour objects
+ * @returns {Object} pagination - Pagination metadata (page, limit, total, totalPages)
+ * @throws {400} Validation error if query is invalid
+ * @throws {401} Unauthorized if not authenticated
+ */
+router.get('/', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const query = listToursQuerySchema.parse(req.query);
+    const { page, productId, status, from, to, sortOrder } = query;
+    const limit = Math.min(query.limit, 200);
+
+    // Build where clause
+    const where: Prisma.TourWhereInput = {
+      organizationId: req.user.organizationId,
+    };
+
+    if (productId) {
+      where.productId = productId;
+    }
+
+    if (status) {
+      where.status = status;
+    }
+
+    // Overlap with [from, to]: starts before the range ends and ends after it starts
+    if (to) {
+      where.startDate = { lte: to };
+    }
+
+    if (from) {
+      where.endDate = { gte: from };
+    }
+
+    const skip = (page - 1) * limit;
+
+    const total = await prisma.tour.count({ where });
+
+    const tours = await prisma.tour.findMany({
+      where,
+      skip,
+      take: limit,
+      orderBy: { startDate: sortOrder },
+      select: tourSelect,
+    });
+
+    res.json({
+      data: tours.map(formatTour),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Validation error', details: error.errors });
+      return;
+    }
+
+    console.error('Error fetching tours:', error);
+    res.status(500).json({
+      error: 'Failed to fetch tours',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+/**
+ * GET /api/tours/:id
+ *
+ * Get detailed information about a specific departure by ID.
+ *
+ * @route GET /api/tours/:id
+ * @access Private (requires authentication)
+ * @param {string} id - Tour UUID
+ * @returns {Object} Tour object
+ * @throws {401} Unauthorized if not authenticated
+ * @throws {403} Forbidden if tour belongs to different organization
+ * @throws {404} Not found if tour doesn't exist
+ */
+router.get('/:id', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const { id } = req.params;
+
+    const tour = await prisma.tour.findUnique({
+      where: { id },
+      select: tourSelect,
+    });
+
+    if (!tour) {
+      res.status(404).json({ error: 'Tour not found' });
+      return;
+    }
+
+    if (tour.organizationId !== req.user.organizationId) {
+      res.status(403).json({ error: 'Access denied to this tour' });
+      return;
+    }
+
+    res.json(formatTour(tour));
+  } catch (error) {
+    console.error('Error fetching tour:', error);
+    res.status(500).json({
+      error: 'Failed to fetch tour',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+/**
+ * GET /api/tours/:id/clients
+ *
+ * List clients booked on a departure.
+ * By default only bookings that hold seats (BOOKED, CONFIRMED) are returned.
+ *
+ * @route GET /api/tours/:id/clients
+ * @access Private (requires authentication)
+ * @param {string} id - Tour UUID
+ * @query {string} [status] - Comma-separated client tour statuses to include
+ * @returns {Object} data - Array of bookings with client summary
+ * @throws {400} Validation error if query is invalid
+ * @throws {401} Unauthorized if not authenticated
+ * @throws {403} Forbidden if tour belongs to different organization
+ * @throws {404} Not found if tour doesn't exist
+ */
+router.get('/:id/clients', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const { id } = req.params;
+    const { status } = tourClientsQuerySchema.parse(req.query);
+
+    const tour = await prisma.tour.findUnique({
+      where: { id },
+      select: { organizationId: true },
+    });
+
+    if (!tour) {
+      res.status(404).json({ error: 'Tour not found' });
+      return;
+    }
+
+    if (tour.organizationId !== req.user.organizationId) {
+      res.status(403).json({ error: 'Access denied to this tour' });
+      return;
+    }
+
+    const bookings = await prisma.clientTour.findMany({
+      where: {
+        tourId: id,
+        status: { in: status ?? [...SEAT_HOLDING_STATUSES] },
+      },
+      include: {
+        client: {
+          select: {
+            id: true,
+            firstName: true,
+            lastName: true,
+            phone: true,
+            status: true,
+          },
+        },
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    res.json({
+      data: bookings.map((booking) => ({
+        id: booking.id,
+        status: booking.status,
+        participants: booking.participants,
+        notes: booking.notes,
+        client: booking.client,
+        createdAt: booking.createdAt.toISOString(),
+        updatedAt: booking.updatedAt.toISOString(),
+      })),
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Validation error', details: error.errors });
+      return;
+    }
+
+    console.error('Error fetching tour clients:', error);
+    res.status(500).json({
+      error: 'Failed to fetch tour clients',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+/**
+ * POST /api/tours
+ *
+ * Schedule a new departure of a product.
+ * Currency defaults to the product's currency.
+ *
+ * @route POST /api/tours
+ * @access Private (requires ADMIN or SUPER_ADMIN role)
+ * @body {string} productId - Product UUID (required)
+ * @body {string} startDate - Departure date (ISO, required)
+ * @body {string} endDate - Return date (ISO, required, not before startDate)
+ * @body {number|null} [maxParticipants] - Capacity, null for unlimited
+ * @body {number|null} [price] - Price overriding the product's base price
+ * @body {string} [currency] - 3-letter ISO currency code
+ * @body {string} [notes] - Notes about the departure
+ * @returns {Object} Created tour object
+ * @throws {400} Validation error if input is invalid
+ * @throws {401} Unauthorized if not authenticated
+ * @throws {403} Forbidden if user doesn't have ADMIN role
+ * @throws {404} Not found if product doesn't exist in organization
+ */
+router.post('/', authenticateToken, requireRole('ADMIN', 'SUPER_ADMIN'), async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const body = createTourSchema.parse(req.body);
+
+    const product = await prisma.product.findUnique({
+      where: { id: body.productId },
+      select: { id: true, organizationId: true, currency: true },
+    });
+
+    if (!product || product.organizationId !== req.user.organizationId) {
+      res.status(404).json({ error: 'Product not found' });
+      return;
+    }
+
+    const tour = await prisma.tour.create({
+      data: {
+        organizationId: req.user.organizationId,
+        productId: product.id,
+        startDate: body.startDate,
+        endDate: body.endDate,
+        maxParticipants: body.maxParticipants ?? null,
+        price: body.price ?? null,
+        currency: body.currency || product.currency,
+        notes: body.notes || null,
+      },
+      select: tourSelect,
+    });
+
+    res.status(201).json(formatTour(tour));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Validation error', details: error.errors });
+      return;
+    }
+
+    console.error('Error creating tour:', error);
+    res.status(500).json({
+      error: 'Failed to create tour',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+/**
+ * PUT /api/tours/:id
+ *
+ * Update a departure. Only provided fields will be updated.
+ * Capacity can't go below already booked participants; the FULL status
+ * is recalculated when the capacity changes.
+ *
+ * @route PUT /api/tours/:id
+ * @access Private (requires ADMIN or SUPER_ADMIN role)
+ * @param {string} id - Tour UUID
+ * @body {string} [startDate] - Departure date (ISO)
+ * @body {string} [endDate] - Return date (ISO)
+ * @body {number|null} [maxParticipants] - Capacity, null for unlimited
+ * @body {number|null} [price] - Price overriding the product's base price
+ * @body {string} [currency] - 3-letter ISO currency code
+ * @body {string} [status] - AVAILABLE, CANCELLED or COMPLETED
+ * @body {string|null} [notes] - Notes about the departure
+ * @returns {Object} Updated tour object
+ * @throws {400} Validation error if input is invalid
+ * @throws {401} Unauthorized if not authenticated
+ * @throws {403} Forbidden if tour belongs to different organization
+ * @throws {404} Not found if tour doesn't exist
+ * @throws {409} Conflict if capacity is below booked participants
+ */
+router.put('/:id', authenticateToken, requireRole('ADMIN', 'SUPER_ADMIN'), async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const { id } = req.params;
+    const body = updateTourSchema.parse(req.body);
+
+    const existingTour = await prisma.tour.findUnique({
+      where: { id },
+      select: {
+        id: true,
+        organizationId: true,
+        startDate: true,
+        endDate: true,
+        maxParticipants: true,
+        status: true,
+      },
+    });
+
+    if (!existingTour) {
+      res.status(404).json({ error: 'Tour not found' });
+      return;
+    }
+
+    if (existingTour.organizationId !== req.user.organizationId) {
+      res.status(403).json({ error: 'Access denied to this tour' });
+      return;
+    }
+
+    const startDate = body.startDate ?? existingTour.startDate;
+    const endDate = body.endDate ?? existingTour.endDate;
+
+    if (endDate < startDate) {
+      res.status(400).json({ error: 'End date must not be before start date' });
+      return;
+    }
+
+    const maxParticipants =
+      body.maxParticipants !== undefined ? body.maxParticipants : existingTour.maxParticipants;
+    const requestedStatus = body.status ?? existingTour.status;
+
+    // Prepare update data
+    const updateData: Prisma.TourUpdateManyMutationInput = {};
+    if (body.startDate !== undefined) updateData.startDate = body.startDate;
+    if (body.endDate !== undefined) updateData.endDate = body.endDate;
+    if (body.maxParticipants !== undefined) updateData.maxParticipants = body.maxParticipants;
+    if (body.price !== undefined) updateData.price = body.price;
+    if (body.currency !== undefined) updateData.currency = body.currency;
+    if (body.notes !== undefined) updateData.notes = body.notes;
+
+    const tour = await prisma.$transaction(async (tx) => {
+      // Conditional update keeps capacity >= booked seats even with concurrent bookings
+      const { count } = await tx.tour.updateMany({
+        where: {
+          id,
+          ...(maxParticipants !== null && { currentParticipants: { lte: maxParticipants } }),
+        },
+        data: updateData,
+      });
+
+      if (count === 0) {
+        return null;
+      }
+
+      const updated = await tx.tour.findUniqueOrThrow({
+        where: { id },
+        select: { currentParticipants: true },
+      });
+
+      // FULL/AVAILABLE follow the capacity; CANCELLED and COMPLETED are kept as set
+      let status = requestedStatus;
+      if (status === 'AVAILABLE' || status === 'FULL') {
+        status =
+          maxParticipants !== null && updated.currentParticipants >= maxParticipants ? 'FULL' : 'AVAILABLE';
+      }
+
+      return tx.tour.update({
+        where: { id },
+        data: { status },
+        select: tourSelect,
+      });
+    });
+
+    if (!tour) {
+      res.status(409).json({ error: 'Capacity cannot be lower than the number of booked participants' });
+      return;
+    }
+
+    res.json(formatTour(tour));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Validation error', details: error.errors });
+      return;
+    }
+
+    console.error('Error updating tour:', error);
+    res.status(500).json({
+      error: 'Failed to update tour',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+/**
+ * POST /api/tours/:id/bookings
+ *
+ * Book a client on a departure.
+ * Creates (or moves) the client's ClientTour to BOOKED and reserves
+ * `participants` seats in the same transaction. Concurrent requests can't
+ * overbook the tour; the tour becomes FULL when it reaches capacity.
+ *
+ * @route POST /api/tours/:id/bookings
+ * @access Private (requires authentication)
+ * @param {string} id - Tour UUID
+ * @body {string} clientId - Client UUID (required)
+ * @body {number} [participants=1] - Number of seats to book
+ * @body {string} [notes] - Notes about the booking
+ * @returns {Object} Created client tour object with updated tour
+ * @throws {400} Validation error if input is invalid
+ * @throws {401} Unauthorized if not authenticated
+ * @throws {403} Forbidden if tour or client belongs to different organization
+ * @throws {404} Not found if tour or client doesn't exist
+ * @throws {409} Conflict if the client is already booked, the booking can't move to BOOKED,
+ *   the tour is not bookable or has not enough seats
+ */
+router.post('/:id/bookings', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+
+    const { id } = req.params;
+    const { clientId, participants, notes } = bookTourSchema.parse(req.body);
+
+    const tour = await prisma.tour.findUnique({
+      where: { id },
+      select: { id: true, organizationId: true },
+    });
+
+    if (!tour) {
+      res.status(404).json({ error: 'Tour not found' });
+      return;
+    }
+
+    if (tour.organizationId !== req.user.organizationId) {
+      res.status(403).json({ error: 'Access denied to this tour' });
+      return;
+    }
+
+    const client = await prisma.client.findUnique({
+      where: { id: clientId },
+      select: { id: true, organizationId: true },
+    });
+
+    if (!client) {
+      res.status(404).json({ error: 'Client not found' });
+      return;
+    }
+
+    if (client.organizationId !== req.user.organizationId) {
+      res.status(403).json({ error: 'Access denied to this client' });
+      return;
+    }
+
+    const clientTour = await prisma.$transaction(async (tx) => {
+      const existingClientTour = await tx.clientTour.findUnique({
+        where: { clientId_tourId: { clientId, tourId: id } },
+        select: { id: true, status: true },
+      });
+
+      let clientTourId: string;
+
+      if (existingClientTour) {
+        if (holdsSeats(existingClientTour.status)) {
+          throw new AlreadyBookedError();
+        }
+
+        if (!canTransitionClientTour(existingClientTour.status, 'BOOKED')) {
+          throw new InvalidBookingTransitionError(
+            `Cannot book a tour with status ${existingClientTour.status}`
+          );
+        }
+
+        // Only move it if nobody changed the status in the meantime
+        const { count } = await tx.clientTour.updateMany({
+          where: { id: existingClientTour.id, status: existingClientTour.status },
+          data: {
+            status: 'BOOKED',
+            participants,
+            ...(notes !== undefined && { notes }),
+          },
+        });
+
+        if (count === 0) {
+          throw new AlreadyBookedError();
+        }
+
+        clientTourId = existingClientTour.id;
+      } else {
+        const created = await tx.clientTour.create({
+          data: {
+            clientId,
+            tourId: id,
+            status: 'BOOKED',
+            participants,
+            notes: notes || null,
+          },
+          select: { id: true },
+        });
+
+        clientTourId = created.id;
+      }
+
+      await reserveSeats(tx, id, participants);
+
+      return tx.clientTour.findUniqueOrThrow({
+        where: { id: clientTourId },
+        include: { tour: { select: tourSelect } },
+      });
+    });
+
+    res.status(201).json({
+      id: clientTour.id,
+      clientId: clientTour.clientId,
+      tourId: clientTour.tourId,
+      tour: formatTour(clientTour.tour),
+      status: clientTour.status,
+      participants: clientTour.participants,
+      notes: clientTour.notes,
+      createdAt: clientTour.createdAt.toISOString(),
+      updatedAt: clientTour.updatedAt.toISOString(),
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Validation error', details: error.errors });
+      return;
+    }
+
+    if (error instanceof TourCapacityError) {
+      res.status(error.code === 'TOUR_NOT_FOUND' ? 404 : 409).json({ error: error.message, code: error.code });
+      return;
+    }
+
+    if (error instanceof InvalidBookingTransitionError) {
+      res.status(409).json({ error: error.message });
+      return;
+    }
+
+    // Also covers two concurrent first-time bookings of the same client (unique clientId + tourId)
+    if (
+      error instanceof AlreadyBookedError ||
+      (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002')
+    ) {
+      res.status(409).json({ error: 'Client is already booked on this tour' });
+      return;
+    }
+
+    console.error('Error booking tour:', error);
+    res.status(500).json({
+      error: 'Failed to book tour',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,52 @@
+/**
+ * Client Tour Workflow Tests
+ * 
+ * Unit tests for booking status transitions
+ */
+
+import { describe, it, expect } from 'vitest';
+import { canTransitionClientTour, getNextClientTourStatuses, holdsSeats } from '../client-tour-workflow';
+
+describe('Client Tour Workflow', () => {
+  describe('canTransitionClientTour', () => {
+    it('should allow moving forward through the workflow', () => {
+      expect(canTransitionClientTour('INTERESTED', 'PROPOSED')).toBe(true);
+      expect(canTransitionClientTour('PROPOSED', 'SELECTED')).toBe(true);
+      expect(canTransitionClientTour('SELECTED', 'BOOKED')).toBe(true);
+      expect(canTransitionClientTour('BOOKED', 'CONFIRMED')).toBe(true);
+    });
+
+    it('should allow skipping steps up to BOOKED', () => {
+      expect(canTransitionClientTour('INTERESTED', 'BOOKED')).toBe(true);
+    });
+
+    it('should only confirm booked tours', () => {
+      expect(canTransitionClientTour('SELECTED', 'CONFIRMED')).toBe(false);
+      expect(canTransitionClientTour('INTERESTED', 'CONFIRMED')).toBe(false);
+    });
+
+    it('should not allow moving backwards', () => {
+      expect(canTransitionClientTour('BOOKED', 'SELECTED')).toBe(false);
+      expect(canTransitionClientTour('CONFIRMED', 'BOOKED')).toBe(false);
+    });
+
+    it('should allow cancelling from any active status', () => {
+      for (const status of ['INTERESTED', 'PROPOSED', 'SELECTED', 'BOOKED', 'CONFIRMED'] as const) {
+        expect(canTransitionClientTour(status, 'CANCELLED')).toBe(true);
+      }
+    });
+
+    it('should only reopen cancelled tours as INTERESTED', () => {
+      expect(getNextClientTourStatuses('CANCELLED')).toEqual(['INTERESTED']);
+    });
+  });
+
+  describe('holdsSeats', () => {
+    it('should hold seats only for booked and confirmed tours', () => {
+      expect(holdsSeats('BOOKED')).toBe(true);
+      expect(holdsSeats('CONFIRMED')).toBe(true);
+      expect(holdsSeats('SELECTED')).toBe(false);
+      expect(holdsSeats('CANCELLED')).toBe(false);
+    });
+  });
+});
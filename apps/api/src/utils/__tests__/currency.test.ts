@@ -0,0 +1,109 @@
+/**
+ * Currency Utilities Tests
+ *
+ * Unit tests for exchange rate lookup, conversion and rate file parsing
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildRateTable,
+  findRate,
+  convertAmount,
+  toDisplayCurrency,
+  parseExchangeRateCsv,
+  ExchangeRateError,
+} from '../currency';
+
+const table = buildRateTable([
+  { baseCurrency: 'USD', quoteCurrency: 'KGS', rate: '87.00', effectiveDate: new Date('2026-01-01') },
+  { baseCurrency: 'USD', quoteCurrency: 'KGS', rate: '87.50', effectiveDate: new Date('2026-06-01') },
+  { baseCurrency: 'USD', quoteCurrency: 'AED', rate: 3.6725, effectiveDate: new Date('2026-06-01') },
+  { baseCurrency: 'EUR', quoteCurrency: 'USD', rate: '1.10', effectiveDate: new Date('2026-06-01') },
+]);
+
+describe('Currency Utilities', () => {
+  describe('buildRateTable', () => {
+    it('should keep the latest rate per pair', () => {
+      expect(findRate(table, 'USD', 'KGS')).toBe(87.5);
+    });
+
+    it('should ignore non-positive rates', () => {
+      const withZero = buildRateTable([
+        { baseCurrency: 'USD', quoteCurrency: 'RUB', rate: 0, effectiveDate: new Date('2026-06-01') },
+      ]);
+
+      expect(findRate(withZero, 'USD', 'RUB')).toBeNull();
+    });
+  });
+
+  describe('findRate', () => {
+    it('should return 1 for the same currency', () => {
+      expect(findRate(table, 'KGS', 'KGS')).toBe(1);
+    });
+
+    it('should invert a stored pair', () => {
+      expect(findRate(table, 'USD', 'EUR')).toBeCloseTo(1 / 1.1);
+    });
+
+    it('should cross through a shared currency', () => {
+      expect(findRate(table, 'EUR', 'KGS')).toBeCloseTo(1.1 * 87.5);
+      expect(findRate(table, 'KGS', 'AED')).toBeCloseTo(3.6725 / 87.5);
+    });
+
+    it('should return null for unknown pairs', () => {
+      expect(findRate(table, 'USD', 'RUB')).toBeNull();
+    });
+  });
+
+  describe('convertAmount', () => {
+    it('should convert and round to 2 decimals', () => {
+      expect(convertAmount('250.00', 'USD', 'KGS', table)).toBe('21875.00');
+      expect(convertAmount(21875, 'KGS', 'USD', table)).toBe('250.00');
+      expect(convertAmount('100', 'EUR', 'AED', table)).toBe('403.98');
+    });
+
+    it('should throw when there is no rate', () => {
+      expect(() => convertAmount(10, 'USD', 'RUB', table)).toThrow(ExchangeRateError);
+    });
+  });
+
+  describe('toDisplayCurrency', () => {
+    it('should return converted money', () => {
+      expect(toDisplayCurrency('10', 'USD', 'KGS', table)).toEqual({ amount: '875.00', currency: 'KGS' });
+    });
+
+    it('should return null without a target or a rate', () => {
+      expect(toDisplayCurrency('10', 'USD', null, table)).toBeNull();
+      expect(toDisplayCurrency('10', 'USD', 'RUB', table)).toBeNull();
+    });
+  });
+
+  describe('parseExchangeRateCsv', () => {
+    const defaultDate = new Date('2026-10-01T00:00:00.000Z');
+
+    it('should parse rows, skipping the header and blank lines', () => {
+      const rows = parseExchangeRateCsv(
+        'base,quote,rate,date\nusd,kgs,87.45\n\nEUR;USD;1.08;2026-09-15\n',
+        defaultDate
+      );
+
+      expect(rows).toEqual([
+        { baseCurrency: 'USD', quoteCurrency: 'KGS', rate: 87.45, effectiveDate: defaultDate },
+        {
+          baseCurrency: 'EUR',
+          quoteCurrency: 'USD',
+          rate: 1.08,
+          effectiveDate: new Date('2026-09-15'),
+        },
+      ]);
+    });
+
+    it('should reject unsupported currencies and bad rates with the line number', () => {
+      expect(() => parseExchangeRateCsv('USD,GBP,0.79', defaultDate)).toThrow('Line 1: invalid currency pair');
+      expect(() => parseExchangeRateCsv('USD,KGS,87\nUSD,RUB,-1', defaultDate)).toThrow(
+        'Line 2: rate must be a positive number'
+      );
+      expect(() => parseExchangeRateCsv('USD,KGS,87,yesterday', defaultDate)).toThrow('Line 1: invalid date');
+    });
+  });
+});
@@ -0,0 +1,163 @@
+/**
+ * Document Templates Tests
+ *
+ * Unit tests for proposal and booking confirmation HTML rendering
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  renderProposalHtml,
+  renderBookingConfirmationHtml,
+  resolveDocumentLanguage,
+  escapeHtml,
+  getBookingNumber,
+  ProposalDocumentData,
+  BookingConfirmationData,
+} from '../document-templates';
+
+const organization = { name: 'Soul KG Travel', logo: 'https://example.com/logo.png' };
+const client = { firstName: 'Aida', lastName: 'Sadykova', phone: '+996555123456' };
+
+const proposalData: ProposalDocumentData = {
+  organization,
+  client,
+  proposal: {
+    version: 2,
+    title: 'Summer on Issyk-Kul',
+    currency: 'USD',
+    totalAmount: '615.50',
+    notes: 'Prepayment 30%',
+    createdAt: new Date('2026-05-10T00:00:00.000Z'),
+    items: [
+      {
+        clientProductId: 'cp-1',
+        productId: 'product-1',
+        productName: 'Song-Kul Lake Trek',
+        productType: 'TOUR',
+        description: 'Three days in the mountains',
+        duration: 3,
+        inclusions: ['Guide', 'Yurt stay'],
+        exclusions: ['Flights'],
+        tour: {
+          id: 'tour-1',
+          startDate: '2026-07-01T00:00:00.000Z',
+          endDate: '2026-07-03T00:00:00.000Z',
+        },
+        participants: 2,
+        currency: 'USD',
+        unitPrice: '250.00',
+        options: [{ code: 'horse', name: 'Horse riding', price: '40.00', perParticipant: true, amount: '80.00' }],
+        total: '615.50',
+      },
+    ],
+  },
+};
+
+const bookingData: BookingConfirmationData = {
+  organization: { ...organization, logo: null },
+  client,
+  booking: {
+    id: '3f2a9c1e-5b7d-4e21-9a3f-0c1d2e3f4a5b',
+    status: 'CONFIRMED',
+    participants: 3,
+    notes: null,
+    createdAt: new Date('2026-05-12T00:00:00.000Z'),
+  },
+  tour: {
+    startDate: new Date('2026-07-01T00:00:00.000Z'),
+    endDate: new Date('2026-07-03T00:00:00.000Z'),
+    unitPrice: '199.99',
+    currency: 'USD',
+  },
+  product: {
+    name: 'Song-Kul Lake Trek',
+    description: null,
+    duration: 3,
+    inclusions: ['Guide'],
+    exclusions: [],
+  },
+};
+
+describe('Document Templates', () => {
+  describe('resolveDocumentLanguage', () => {
+    it('should use Russian for Russian and Kyrgyz speakers', () => {
+      expect(resolveDocumentLanguage('ru')).toBe('ru');
+      expect(resolveDocumentLanguage('ru-RU')).toBe('ru');
+      expect(resolveDocumentLanguage('ky')).toBe('ru');
+    });
+
+    it('should fall back to English', () => {
+      expect(resolveDocumentLanguage('en')).toBe('en');
+      expect(resolveDocumentLanguage('de')).toBe('en');
+      expect(resolveDocumentLanguage(null)).toBe('en');
+    });
+  });
+
+  describe('escapeHtml', () => {
+    it('should escape markup characters', () => {
+      expect(escapeHtml(`<b>"Tom" & 'Jerry'</b>`)).toBe(
+        '&lt;b&gt;&quot;Tom&quot; &amp; &#39;Jerry&#39;&lt;/b&gt;'
+      );
+    });
+  });
+
+  describe('renderProposalHtml', () => {
+    it('should render branding, items and totals', () => {
+      const html = renderProposalHtml(proposalData, 'en');
+
+      expect(html).toContain('<html lang="en">');
+      expect(html).toContain('src="https://example.com/logo.png"');
+      expect(html).toContain('Summer on Issyk-Kul');
+      expect(html).toContain('Aida Sadykova');
+      expect(html).toContain('July 1, 2026 – July 3, 2026');
+      expect(html).toContain('+ Horse riding: 80.00 USD');
+      expect(html).toContain('Total: 615.50 USD');
+      expect(html).toContain('<li>Yurt stay</li>');
+      expect(html).toContain('Not included');
+      expect(html).toContain('Prepayment 30%');
+    });
+
+    it('should render in Russian', () => {
+      const html = renderProposalHtml(proposalData, 'ru');
+
+      expect(html).toContain('<html lang="ru">');
+      expect(html).toContain('Включено');
+      expect(html).toContain('Итого');
+    });
+
+    it('should show the total in the client currency', () => {
+      const html = renderProposalHtml({ ...proposalData, clientTotal: { amount: '53856.25', currency: 'KGS' } }, 'en');
+
+      expect(html).toContain('Approximately: 53,856.25 KGS');
+      expect(renderProposalHtml(proposalData, 'en')).not.toContain('Approximately');
+    });
+
+    it('should escape user content', () => {
+      const html = renderProposalHtml(
+        { ...proposalData, proposal: { ...proposalData.proposal, title: '<script>alert(1)</script>' } },
+        'en'
+      );
+
+      expect(html).not.toContain('<script>');
+      expect(html).toContain('&lt;script&gt;');
+    });
+  });
+
+  describe('renderBookingConfirmationHtml', () => {
+    it('should render booking details and total price', () => {
+      const html = renderBookingConfirmationHtml(bookingData, 'en');
+
+      expect(html).toContain('Booking confirmation');
+      expect(html).toContain('3F2A9C1E');
+      expect(html).toContain('Confirmed');
+      expect(html).toContain('Total: 599.97 USD');
+      expect(html).not.toContain('<img');
+    });
+  });
+
+  describe('getBookingNumber', () => {
+    it('should use the first 8 hex characters', () => {
+      expect(getBookingNumber('3f2a9c1e-5b7d-4e21-9a3f-0c1d2e3f4a5b')).toBe('3F2A9C1E');
+    });
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * Experiment Statistics Utilities Tests
+ *
+ * Unit tests for variant funnel stats, confidence intervals and significance
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { ClientStatus } from '@soul-kg-crm/database';
+import {
+  normalCdf,
+  wilsonInterval,
+  twoProportionTest,
+  summarizeVariant,
+  compareVariants,
+} from '../experiment-stats';
+
+const createdAt = new Date('2026-10-01T00:00:00Z');
+
+function client(status: ClientStatus, history: [ClientStatus, number][] = [], messaged = false, replied = false) {
+  return {
+    status,
+    createdAt,
+    history: history.map(([newStatus, days]) => ({
+      newStatus,
+      createdAt: new Date(createdAt.getTime() + days * 86_400_000),
+    })),
+    messaged,
+    replied,
+  };
+}
+
+describe('Experiment Statistics Utilities', () => {
+  describe('normalCdf', () => {
+    it('should match known quantiles', () => {
+      expect(normalCdf(0)).toBeCloseTo(0.5, 6);
+      expect(normalCdf(1.959964)).toBeCloseTo(0.975, 4);
+      expect(normalCdf(-1.959964)).toBeCloseTo(0.025, 4);
+    });
+  });
+
+  describe('wilsonInterval', () => {
+    it('should return null without observations', () => {
+      expect(wilsonInterval(0, 0)).toBeNull();
+    });
+
+    it('should compute the 95% Wilson interval', () => {
+      expect(wilsonInterval(10, 100)).toEqual({ successes: 10, total: 100, rate: 0.1, lower: 0.0552, upper: 0.1744 });
+    });
+
+    it('should stay within 0 and 1', () => {
+      const interval = wilsonInterval(0, 5)!;
+      expect(interval.lower).toBe(0);
+      expect(interval.upper).toBeGreaterThan(0);
+    });
+  });
+
+  describe('twoProportionTest', () => {
+    it('should detect a clear difference', () => {
+      const result = twoProportionTest(60, 200, 30, 200)!;
+      expect(result.z).toBeCloseTo(3.6, 1);
+      expect(result.pValue).toBeLessThan(0.001);
+    });
+
+    it('should return null when the test is undefined', () => {
+      expect(twoProportionTest(0, 10, 0, 10)).toBeNull();
+      expect(twoProportionTest(1, 10, 0, 0)).toBeNull();
+    });
+  });
+
+  describe('summarizeVariant', () => {
+    it('should count stage conversion from history and current status', () => {
+      const stats = summarizeVariant([
+        client('SOLD', [
+          ['QUALIFIED', 1],
+          ['SOLD', 10],
+        ]),
+        client('SERVICE', [['SOLD', 4]]),
+        client('CLOSED', [['WARMED', 2]]),
+        client('NEW_LEAD'),
+      ]);
+
+      expect(stats.funnel.map((stage) => stage.reached)).toEqual([4, 3, 3, 2, 2, 2]);
+      expect(stats.funnel[1].conversion?.rate).toBe(0.75);
+      expect(stats.sold?.rate).toBe(0.5);
+      expect(stats.timeToSoldDays).toEqual({ count: 2, median: 7, mean: 7 });
+    });
+
+    it('should compute reply rate among messaged clients', () => {
+      const stats = summarizeVariant([
+        client('NEW_LEAD', [], true, true),
+        client('NEW_LEAD', [], true, false),
+        client('NEW_LEAD', [], false, false),
+      ]);
+
+      expect(stats.replyRate?.successes).toBe(1);
+      expect(stats.replyRate?.total).toBe(2);
+      expect(stats.timeToSoldDays).toBeNull();
+    });
+  });
+
+  describe('compareVariants', () => {
+    it('should pick the leader and mark it significant', () => {
+      const result = compareVariants([
+        { id: 'a', sold: wilsonInterval(30, 200) },
+        { id: 'b', sold: wilsonInterval(60, 200) },
+      ]);
+
+      expect(result.winnerId).toBe('b');
+      expect(result.significant).toBe(true);
+      expect(result.comparisons.b).toBeNull();
+      expect(result.comparisons.a?.pValue).toBeLessThan(0.05);
+    });
+
+    it('should not be significant for small differences', () => {
+      const result = compareVariants([
+        { id: 'a', sold: wilsonInterval(10, 50) },
+        { id: 'b', sold: wilsonInterval(12, 50) },
+      ]);
+
+      expect(result.winnerId).toBe('b');
+      expect(result.significant).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * LLM Usage Utilities Tests
+ *
+ * Unit tests for token and cost aggregation per day, agent and model
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import type { PrismaClient } from '@soul-kg-crm/database';
+import { aggregateLlmUsage, summarizeLlmUsage, LlmUsageGroup } from '../llm-usage';
+
+// One call unless overridden
+function entry(overrides: Partial<LlmUsageGroup>): LlmUsageGroup {
+  return {
+    date: '2026-10-01',
+    agentType: 'STATUS_DETECTION',
+    model: 'openai/gpt-4o-mini',
+    calls: 1,
+    promptTokens: 1000,
+    completionTokens: 10,
+    totalTokens: 1010,
+    latencyMs: 200,
+    cost: '0.000156',
+    unpricedCalls: 0,
+    ...overrides,
+  };
+}
+
+describe('LLM Usage Utilities', () => {
+  describe('summarizeLlmUsage', () => {
+    it('should return zero totals without calls', () => {
+      const summary = summarizeLlmUsage([]);
+
+      expect(summary.totals).toEqual({
+        calls: 0,
+        promptTokens: 0,
+        completionTokens: 0,
+        totalTokens: 0,
+        cost: '0.000000',
+        unpricedCalls: 0,
+        averageLatencyMs: 0,
+      });
+      expect(summary.byDay).toEqual([]);
+    });
+
+    it('should sum tokens, cost and latency', () => {
+      const summary = summarizeLlmUsage([
+        entry({}),
+        entry({ latencyMs: 400, cost: 0.000144 }),
+        entry({ model: 'llama3.1:8b', cost: 0, unpricedCalls: 1, latencyMs: 600 }),
+      ]);
+
+      expect(summary.totals).toEqual({
+        calls: 3,
+        promptTokens: 3000,
+        completionTokens: 30,
+        totalTokens: 3030,
+        cost: '0.000300',
+        unpricedCalls: 1,
+        averageLatencyMs: 400,
+      });
+    });
+
+    it('should group by UTC day in ascending order', () => {
+      const summary = summarizeLlmUsage([
+        entry({ date: '2026-10-02' }),
+        entry({ date: '2026-10-01' }),
+        entry({ date: '2026-10-02', model: 'openai/gpt-4o' }),
+      ]);
+
+      expect(summary.byDay.map((day) => [day.date, day.calls])).toEqual([
+        ['2026-10-01', 1],
+        ['2026-10-02', 2],
+      ]);
+    });
+
+    it('should group by agent and model, most expensive first', () => {
+      const summary = summarizeLlmUsage([
+        entry({}),
+        entry({ agentType: null, model: 'openai/gpt-4o', cost: '0.0125' }),
+        entry({}),
+      ]);
+
+      expect(summary.byAgent.map((agent) => [agent.agentType, agent.calls, agent.cost])).toEqual([
+        [null, 1, '0.012500'],
+        ['STATUS_DETECTION', 2, '0.000312'],
+      ]);
+      expect(summary.byModel.map((model) => model.model)).toEqual(['openai/gpt-4o', 'openai/gpt-4o-mini']);
+    });
+  });
+
+  describe('aggregateLlmUsage', () => {
+    it('should filter in the query and convert sums to numbers', async () => {
+      const queryRaw = vi.fn().mockResolvedValue([
+        {
+          date: '2026-10-01',
+          agentType: 'COMMUNICATION',
+          model: 'openai/gpt-4o-mini',
+          calls: 2,
+          promptTokens: BigInt(2000),
+          completionTokens: BigInt(20),
+          totalTokens: BigInt(2020),
+          latencyMs: BigInt(500),
+          cost: '0.000312',
+          unpricedCalls: 0,
+        },
+      ]);
+      const prisma = { $queryRaw: queryRaw } as unknown as PrismaClient;
+      const from = new Date('2026-09-01T00:00:00Z');
+      const to = new Date('2026-10-01T00:00:00Z');
+
+      const groups = await aggregateLlmUsage(prisma, { organizationId: 'org-1', from, to, agentType: 'COMMUNICATION' });
+
+      const query = queryRaw.mock.calls[0][0];
+      expect(query.sql).toContain('GROUP BY 1, 2, 3');
+      expect(query.sql).toContain('"agentType" =');
+      expect(query.sql).not.toContain('"model" =');
+      expect(query.values).toEqual(['org-1', from, to, 'COMMUNICATION']);
+      expect(groups[0]).toMatchObject({ calls: 2, promptTokens: 2000, totalTokens: 2020, latencyMs: 500 });
+    });
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * Partner Commission Utilities Tests
+ *
+ * Unit tests for commission calculation, settlement totals and CSV export
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  calculateCommission,
+  summarizeSettlements,
+  buildSettlementCsv,
+  SettlementEntry,
+} from '../partner-commission';
+
+function entry(overrides: Partial<SettlementEntry> = {}): SettlementEntry {
+  return {
+    partnerId: 'partner-1',
+    partnerName: 'Ala-Too Guides',
+    clientName: 'Aibek Usenov',
+    productName: 'Song-Kul Trek',
+    tourStartDate: new Date('2026-07-01T00:00:00.000Z'),
+    participants: 2,
+    bookingAmount: '1000.00',
+    commissionType: 'PERCENTAGE',
+    commissionValue: '10',
+    amount: '100.00',
+    currency: 'USD',
+    status: 'UNPAID',
+    paidAt: null,
+    ...overrides,
+  };
+}
+
+describe('Partner Commission Utilities', () => {
+  describe('calculateCommission', () => {
+    it('should take a percentage of the booking amount', () => {
+      const commission = calculateCommission(
+        { commissionType: 'PERCENTAGE', commissionValue: '12.5', commissionCurrency: null },
+        { unitPrice: '450.00', currency: 'USD', participants: 3 }
+      );
+
+      expect(commission).toEqual({ bookingAmount: '1350.00', amount: '168.75', currency: 'USD' });
+    });
+
+    it('should pay a fixed amount per participant in the commission currency', () => {
+      const commission = calculateCommission(
+        { commissionType: 'FIXED_PER_PARTICIPANT', commissionValue: '1500', commissionCurrency: 'KGS' },
+        { unitPrice: '300', currency: 'USD', participants: 4 }
+      );
+
+      expect(commission).toEqual({ bookingAmount: '1200.00', amount: '6000.00', currency: 'KGS' });
+    });
+
+    it('should fall back to the booking currency for fixed commissions', () => {
+      const commission = calculateCommission(
+        { commissionType: 'FIXED_PER_PARTICIPANT', commissionValue: 20, commissionCurrency: null },
+        { unitPrice: 100, currency: 'EUR', participants: 1 }
+      );
+
+      expect(commission?.currency).toBe('EUR');
+      expect(commission?.amount).toBe('20.00');
+    });
+
+    it('should return null without a commission rule', () => {
+      expect(
+        calculateCommission(
+          { commissionType: null, commissionValue: null, commissionCurrency: null },
+          { unitPrice: 100, currency: 'USD', participants: 1 }
+        )
+      ).toBeNull();
+    });
+  });
+
+  describe('summarizeSettlements', () => {
+    it('should total paid and unpaid amounts per partner and currency', () => {
+      const settlements = summarizeSettlements([
+        entry(),
+        entry({ amount: '50.00', status: 'PAID', paidAt: new Date('2026-07-10T00:00:00.000Z') }),
+        entry({ amount: '3000.00', currency: 'KGS' }),
+        entry({ amount: '999.00', status: 'VOID' }),
+        entry({ partnerId: 'partner-2', partnerName: 'Issyk-Kul Hotels', amount: '40.00' }),
+      ]);
+
+      expect(settlements).toEqual([
+        {
+          partnerId: 'partner-1',
+          partnerName: 'Ala-Too Guides',
+          entries: 3,
+          totals: [
+            { currency: 'KGS', total: '3000.00', paid: '0.00', unpaid: '3000.00' },
+            { currency: 'USD', total: '150.00', paid: '50.00', unpaid: '100.00' },
+          ],
+        },
+        {
+          partnerId: 'partner-2',
+          partnerName: 'Issyk-Kul Hotels',
+          entries: 1,
+          totals: [{ currency: 'USD', total: '40.00', paid: '0.00', unpaid: '40.00' }],
+        },
+      ]);
+    });
+  });
+
+  describe('buildSettlementCsv', () => {
+    it('should write one escaped row per entry', () => {
+      const csv = buildSettlementCsv([
+        entry({ clientName: 'Smith, "Jack"', status: 'PAID', paidAt: new Date('2026-07-10T12:00:00.000Z') }),
+      ]);
+
+      expect(csv.split('\r\n')).toEqual([
+        'partner,client,product,tourStartDate,participants,bookingAmount,commissionType,commissionValue,amount,currency,status,paidAt',
+        'Ala-Too Guides,"Smith, ""Jack""",Song-Kul Trek,2026-07-01,2,1000.00,PERCENTAGE,10,100.00,USD,PAID,2026-07-10',
+        '',
+      ]);
+    });
+
+    it('should neutralize spreadsheet formulas but keep negative numbers', () => {
+      const csv = buildSettlementCsv([
+        entry({ partnerName: '=HYPERLINK("http://evil")', clientName: '@SUM(A1)', productName: '+1', amount: '-25.00' }),
+      ]);
+
+      expect(csv.split('\r\n')[1]).toBe(
+        `"'=HYPERLINK(""http://evil"")",'@SUM(A1),'+1,2026-07-01,2,1000.00,PERCENTAGE,10,-25.00,USD,UNPAID,`
+      );
+    });
+  });
+});
@@ -0,0 +1,52 @@
+/**
+ * Partner Rating Utilities Tests
+ *
+ * Unit tests for the weighted rolling partner rating
+ */
+
+import { describe, it, expect } from 'vitest';
+import { calculatePartnerRating, buildRatingThresholdWhere, RATING_WINDOW } from '../partner-rating';
+
+function feedback(score: number, daysAgo: number, isIncident = false) {
+  return { score, isIncident, createdAt: new Date(Date.UTC(2026, 9, 19) - daysAgo * 86_400_000) };
+}
+
+describe('Partner Rating Utilities', () => {
+  describe('calculatePartnerRating', () => {
+    it('should return null without feedback', () => {
+      expect(calculatePartnerRating([])).toBeNull();
+    });
+
+    it('should weigh recent feedback more than older feedback', () => {
+      // Latest 5 has weight 1, older 3 has weight 0.9
+      expect(calculatePartnerRating([feedback(3, 10), feedback(5, 1)])).toBe('4.05');
+      expect(calculatePartnerRating([feedback(5, 10), feedback(3, 1)])).toBe('3.95');
+    });
+
+    it('should weigh incidents double', () => {
+      // Incident 1 (weight 2) and older 5 (weight 0.9)
+      expect(calculatePartnerRating([feedback(5, 5), feedback(1, 1, true)])).toBe('2.24');
+    });
+
+    it('should only count the latest entries', () => {
+      const entries = [
+        ...Array.from({ length: RATING_WINDOW }, (_, index) => feedback(5, index)),
+        feedback(1, 100, true),
+      ];
+
+      expect(calculatePartnerRating(entries)).toBe('5.00');
+    });
+  });
+
+  describe('buildRatingThresholdWhere', () => {
+    it('should not filter without a threshold', () => {
+      expect(buildRatingThresholdWhere(null)).toEqual({});
+    });
+
+    it('should keep unrated partners and those at or above the threshold', () => {
+      expect(buildRatingThresholdWhere('3.5')).toEqual({
+        OR: [{ rating: null }, { rating: { gte: '3.5' } }],
+      });
+    });
+  });
+});
@@ -0,0 +1,40 @@
+/**
+ * Partner Utilities Tests
+ * 
+ * Unit tests for partner assignment eligibility
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildAssignablePartnersWhere, SELECTED_PRODUCT_STATUSES } from '../partners';
+
+describe('Partner Utilities', () => {
+  describe('buildAssignablePartnersWhere', () => {
+    it('should only match available partners of the organization', () => {
+      const where = buildAssignablePartnersWhere('org-1', 'client-1');
+
+      expect(where.organizationId).toBe('org-1');
+      expect(where.isAvailable).toBe(true);
+    });
+
+    it('should require a product selected by the client', () => {
+      const where = buildAssignablePartnersWhere('org-1', 'client-1');
+
+      expect(where.products).toEqual({
+        some: {
+          organizationId: 'org-1',
+          clientProducts: {
+            some: {
+              clientId: 'client-1',
+              status: { in: ['SELECTED', 'BOOKED'] },
+            },
+          },
+        },
+      });
+    });
+
+    it('should not treat interested or proposed products as selected', () => {
+      expect(SELECTED_PRODUCT_STATUSES).not.toContain('INTERESTED');
+      expect(SELECTED_PRODUCT_STATUSES).not.toContain('PROPOSED');
+    });
+  });
+});
@@ -0,0 +1,40 @@
+/**
+ * PDF Renderer Tests
+ *
+ * Unit tests for the resource allow-list of rendered documents
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getAllowedAssetHosts, isAllowedResourceUrl } from '../pdf-renderer';
+
+describe('PDF Renderer', () => {
+  describe('getAllowedAssetHosts', () => {
+    it('should parse a comma-separated host list', () => {
+      expect(getAllowedAssetHosts({ DOCUMENT_ASSET_HOSTS: ' cdn.example.com, Logos.Example.com ,' })).toEqual([
+        'cdn.example.com',
+        'logos.example.com',
+      ]);
+      expect(getAllowedAssetHosts({})).toEqual([]);
+    });
+  });
+
+  describe('isAllowedResourceUrl', () => {
+    const hosts = ['cdn.example.com'];
+
+    it('should allow inline data and https on allowed hosts', () => {
+      expect(isAllowedResourceUrl('data:image/png;base64,iVBORw0KGgo=', [])).toBe(true);
+      expect(isAllowedResourceUrl('https://cdn.example.com/logo.png', hosts)).toBe(true);
+      expect(isAllowedResourceUrl('https://CDN.example.com/logo.png', hosts)).toBe(true);
+    });
+
+    it('should block internal addresses, other hosts, ports and schemes', () => {
+      expect(isAllowedResourceUrl('http://169.254.169.254/latest/meta-data/', hosts)).toBe(false);
+      expect(isAllowedResourceUrl('https://localhost/logo.png', hosts)).toBe(false);
+      expect(isAllowedResourceUrl('http://cdn.example.com/logo.png', hosts)).toBe(false);
+      expect(isAllowedResourceUrl('https://cdn.example.com:8443/logo.png', hosts)).toBe(false);
+      expect(isAllowedResourceUrl('https://cdn.example.com.evil.io/logo.png', hosts)).toBe(false);
+      expect(isAllowedResourceUrl('file:///etc/passwd', hosts)).toBe(false);
+      expect(isAllowedResourceUrl('not a url', hosts)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * Proposal Pricing Utilities Tests
+ *
+ * Unit tests for pricing proposal items and totals
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  priceProposalItem,
+  summarizeProposal,
+  ProposalItemInput,
+  ProposalPricingError,
+} from '../proposal-pricing';
+
+function createItem(overrides: Partial<ProposalItemInput> = {}): ProposalItemInput {
+  return {
+    clientProductId: 'cp-1',
+    product: {
+      id: 'product-1',
+      name: 'Song-Kul Lake Trek',
+      type: 'TOUR',
+      description: null,
+      duration: 3,
+      basePrice: '250.00',
+      currency: 'USD',
+      inclusions: ['Guide'],
+      exclusions: ['Flights'],
+      options: [
+        { code: 'horse', name: 'Horse riding', price: 40, perParticipant: true },
+        { code: 'transfer', name: 'Airport transfer', price: 35.5 },
+      ],
+    },
+    tour: null,
+    participants: 2,
+    optionCodes: [],
+    ...overrides,
+  };
+}
+
+describe('Proposal Pricing Utilities', () => {
+  describe('priceProposalItem', () => {
+    it('should price the base price per participant', () => {
+      const item = priceProposalItem(createItem());
+
+      expect(item.unitPrice).toBe('250.00');
+      expect(item.total).toBe('500.00');
+      expect(item.currency).toBe('USD');
+      expect(item.tour).toBeNull();
+    });
+
+    it('should prefer the tour price and currency', () => {
+      const item = priceProposalItem(
+        createItem({
+          tour: {
+            id: 'tour-1',
+            startDate: new Date('2026-07-01T00:00:00.000Z'),
+            endDate: new Date('2026-07-03T00:00:00.000Z'),
+            price: '19000',
+            currency: 'KGS',
+          },
+        })
+      );
+
+      expect(item.unitPrice).toBe('19000.00');
+      expect(item.currency).toBe('KGS');
+      expect(item.total).toBe('38000.00');
+      expect(item.tour).toEqual({
+        id: 'tour-1',
+        startDate: '2026-07-01T00:00:00.000Z',
+        endDate: '2026-07-03T00:00:00.000Z',
+      });
+    });
+
+    it('should fall back to the product price for tours without a price', () => {
+      const item = priceProposalItem(
+        createItem({
+          tour: {
+            id: 'tour-1',
+            startDate: new Date('2026-07-01T00:00:00.000Z'),
+            endDate: new Date('2026-07-03T00:00:00.000Z'),
+            price: null,
+            currency: 'KGS',
+          },
+        })
+      );
+
+      expect(item.unitPrice).toBe('250.00');
+      expect(item.currency).toBe('USD');
+    });
+
+    it('should add options per participant or once', () => {
+      const item = priceProposalItem(createItem({ optionCodes: ['horse', 'transfer', 'horse'] }));
+
+      expect(item.options).toEqual([
+        { code: 'horse', name: 'Horse riding', price: '40.00', perParticipant: true, amount: '80.00' },
+        { code: 'transfer', name: 'Airport transfer', price: '35.50', perParticipant: false, amount: '35.50' },
+      ]);
+      expect(item.total).toBe('615.50');
+    });
+
+    it('should reject unknown options', () => {
+      expect(() => priceProposalItem(createItem({ optionCodes: ['spa'] }))).toThrow(ProposalPricingError);
+    });
+  });
+
+  describe('summarizeProposal', () => {
+    it('should sum item totals', () => {
+      const items = [
+        priceProposalItem(createItem()),
+        priceProposalItem(createItem({ participants: 1, optionCodes: ['transfer'] })),
+      ];
+
+      expect(summarizeProposal(items)).toEqual({ currency: 'USD', totalAmount: '785.50' });
+    });
+
+    it('should reject mixed currencies', () => {
+      const items = [
+        priceProposalItem(createItem()),
+        priceProposalItem(
+          createItem({ product: { ...createItem().product, currency: 'EUR' } })
+        ),
+      ];
+
+      expect(() => summarizeProposal(items)).toThrow(
+        expect.objectContaining({ code: 'CURRENCY_MISMATCH' })
+      );
+    });
+
+    it('should reject empty proposals', () => {
+      expect(() => summarizeProposal([])).toThrow(
+        expect.objectContaining({ code: 'EMPTY_PROPOSAL' })
+      );
+    });
+  });
+});
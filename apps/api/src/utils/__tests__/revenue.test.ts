@@ -0,0 +1,60 @@
+/**
+ * Revenue Utilities Tests
+ *
+ * Unit tests for revenue aggregation in the reporting currency
+ */
+
+import { describe, it, expect } from 'vitest';
+import { summarizeRevenue } from '../revenue';
+import { buildRateTable } from '../currency';
+
+const rates = buildRateTable([
+  { baseCurrency: 'USD', quoteCurrency: 'KGS', rate: '87.50', effectiveDate: new Date('2026-06-01') },
+  { baseCurrency: 'EUR', quoteCurrency: 'USD', rate: '1.10', effectiveDate: new Date('2026-06-01') },
+]);
+
+describe('Revenue Utilities', () => {
+  describe('summarizeRevenue', () => {
+    it('should convert totals into the reporting currency', () => {
+      const summary = summarizeRevenue(
+        [
+          { amount: '500.00', currency: 'USD', date: new Date('2026-07-01T00:00:00.000Z') },
+          { amount: '17500', currency: 'KGS', date: new Date('2026-07-15T00:00:00.000Z') },
+          { amount: '100', currency: 'EUR', date: new Date('2026-08-02T00:00:00.000Z') },
+        ],
+        'USD',
+        rates
+      );
+
+      expect(summary.currency).toBe('USD');
+      expect(summary.total).toBe('810.00');
+      expect(summary.bookings).toBe(3);
+      expect(summary.byMonth).toEqual([
+        { month: '2026-07', amount: '700.00', bookings: 2 },
+        { month: '2026-08', amount: '110.00', bookings: 1 },
+      ]);
+      expect(summary.byCurrency).toEqual([
+        { currency: 'EUR', amount: '100.00', bookings: 1 },
+        { currency: 'KGS', amount: '17500.00', bookings: 1 },
+        { currency: 'USD', amount: '500.00', bookings: 1 },
+      ]);
+      expect(summary.unconvertedCurrencies).toEqual([]);
+    });
+
+    it('should leave currencies without a rate out of the total', () => {
+      const summary = summarizeRevenue(
+        [
+          { amount: '1000', currency: 'KGS', date: new Date('2026-07-01T00:00:00.000Z') },
+          { amount: '3000', currency: 'RUB', date: new Date('2026-07-01T00:00:00.000Z') },
+        ],
+        'KGS',
+        rates
+      );
+
+      expect(summary.total).toBe('1000.00');
+      expect(summary.bookings).toBe(1);
+      expect(summary.byCurrency).toHaveLength(2);
+      expect(summary.unconvertedCurrencies).toEqual(['RUB']);
+    });
+  });
+});
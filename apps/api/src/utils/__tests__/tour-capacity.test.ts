@@ -0,0 +1,178 @@
+/**
+ * Tour Capacity Utilities Tests
+ *
+ * Unit tests for seat reservation and release on tours
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Prisma } from '@soul-kg-crm/database';
+import { getSeatCount, reserveSeats, releaseSeats, TourCapacityError } from '../tour-capacity';
+
+interface TourRow {
+  status: 'AVAILABLE' | 'FULL' | 'CANCELLED' | 'COMPLETED';
+  maxParticipants: number | null;
+  currentParticipants: number;
+}
+
+/**
+ * In-memory transaction client that evaluates the conditional updates
+ * used by the capacity helpers against a single tour row
+ */
+function createTx(row: TourRow | null) {
+  const state = { row };
+
+  const matches = (where: any): boolean => {
+    if (!state.row) return false;
+    if (where.status && where.status !== state.row.status) return false;
+    if ('maxParticipants' in where && where.maxParticipants !== state.row.maxParticipants) return false;
+    const current = where.currentParticipants;
+    if (current?.lte !== undefined && state.row.currentParticipants > current.lte) return false;
+    if (current?.gte !== undefined && state.row.currentParticipants < current.gte) return false;
+    return true;
+  };
+
+  const apply = (data: any) => {
+    if (!state.row) return;
+    const current = data.currentParticipants;
+    if (typeof current === 'number') state.row.currentParticipants = current;
+    if (current?.increment) state.row.currentParticipants += current.increment;
+    if (current?.decrement) state.row.currentParticipants -= current.decrement;
+    if (data.status) state.row.status = data.status;
+  };
+
+  const tx = {
+    tour: {
+      findUnique: vi.fn(async () => (state.row ? { ...state.row } : null)),
+      findUniqueOrThrow: vi.fn(async () => ({ ...state.row! })),
+      updateMany: vi.fn(async ({ where, data }: any) => {
+        if (!matches(where)) return { count: 0 };
+        apply(data);
+        return { count: 1 };
+      }),
+      update: vi.fn(async ({ data }: any) => {
+        apply(data);
+        return { ...state.row! };
+      }),
+    },
+  };
+
+  return { tx: tx as unknown as Prisma.TransactionClient, state };
+}
+
+describe('Tour Capacity Utilities', () => {
+  describe('getSeatCount', () => {
+    it('should default to one seat', () => {
+      expect(getSeatCount(null)).toBe(1);
+      expect(getSeatCount(undefined)).toBe(1);
+      expect(getSeatCount(0)).toBe(1);
+    });
+
+    it('should use the participants count', () => {
+      expect(getSeatCount(4)).toBe(4);
+    });
+  });
+
+  describe('reserveSeats', () => {
+    let tour: TourRow;
+
+    beforeEach(() => {
+      tour = { status: 'AVAILABLE', maxParticipants: 10, currentParticipants: 6 };
+    });
+
+    it('should increment current participants', async () => {
+      const { tx, state } = createTx(tour);
+
+      const result = await reserveSeats(tx, 'tour-1', 2);
+
+      expect(result.currentParticipants).toBe(8);
+      expect(result.status).toBe('AVAILABLE');
+      expect(state.row?.currentParticipants).toBe(8);
+    });
+
+    it('should flip the tour to FULL at capacity', async () => {
+      const { tx, state } = createTx(tour);
+
+      const result = await reserveSeats(tx, 'tour-1', 4);
+
+      expect(result.currentParticipants).toBe(10);
+      expect(result.status).toBe('FULL');
+      expect(state.row?.status).toBe('FULL');
+    });
+
+    it('should reject overbooking', async () => {
+      const { tx, state } = createTx(tour);
+
+      await expect(reserveSeats(tx, 'tour-1', 5)).rejects.toMatchObject({
+        code: 'CAPACITY_EXCEEDED',
+      });
+      expect(state.row?.currentParticipants).toBe(6);
+    });
+
+    it('should reject when a concurrent booking took the seats', async () => {
+      const { tx, state } = createTx(tour);
+
+      // Another request books 3 seats between the read and the conditional update
+      vi.mocked(tx.tour.findUnique).mockImplementationOnce(async () => {
+        const snapshot = { ...state.row! };
+        state.row!.currentParticipants += 3;
+        return snapshot as any;
+      });
+
+      await expect(reserveSeats(tx, 'tour-1', 2)).rejects.toBeInstanceOf(TourCapacityError);
+      expect(state.row?.currentParticipants).toBe(9);
+    });
+
+    it('should not book tours that are not available', async () => {
+      const { tx } = createTx({ ...tour, status: 'CANCELLED' });
+
+      await expect(reserveSeats(tx, 'tour-1', 1)).rejects.toMatchObject({
+        code: 'TOUR_NOT_BOOKABLE',
+      });
+    });
+
+    it('should allow any number of seats without capacity', async () => {
+      const { tx } = createTx({ ...tour, maxParticipants: null });
+
+      const result = await reserveSeats(tx, 'tour-1', 50);
+
+      expect(result.currentParticipants).toBe(56);
+      expect(result.status).toBe('AVAILABLE');
+    });
+
+    it('should fail for missing tours', async () => {
+      const { tx } = createTx(null);
+
+      await expect(reserveSeats(tx, 'tour-1', 1)).rejects.toMatchObject({
+        code: 'TOUR_NOT_FOUND',
+      });
+    });
+  });
+
+  describe('releaseSeats', () => {
+    it('should decrement current participants and reopen a FULL tour', async () => {
+      const { tx } = createTx({ status: 'FULL', maxParticipants: 10, currentParticipants: 10 });
+
+      const result = await releaseSeats(tx, 'tour-1', 3);
+
+      expect(result.currentParticipants).toBe(7);
+      expect(result.status).toBe('AVAILABLE');
+    });
+
+    it('should keep cancelled tours cancelled', async () => {
+      const { tx } = createTx({ status: 'CANCELLED', maxParticipants: 10, currentParticipants: 5 });
+
+      const result = await releaseSeats(tx, 'tour-1', 2);
+
+      expect(result.currentParticipants).toBe(3);
+      expect(result.status).toBe('CANCELLED');
+    });
+
+    it('should never go below zero', async () => {
+      const { tx } = createTx({ status: 'AVAILABLE', maxParticipants: 10, currentParticipants: 1 });
+
+      const result = await releaseSeats(tx, 'tour-1', 3);
+
+      expect(result.currentParticipants).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * Agent Configuration Utilities
+ *
+ * Versioned saving of agent configurations. Every change of the prompt
+ * or settings becomes a new immutable version row.
+ */
+
+import { Prisma } from '@soul-kg-crm/database';
+
+export const configurationSelect = {
+  id: true,
+  organizationId: true,
+  agentType: true,
+  name: true,
+  prompt: true,
+  settings: true,
+  isActive: true,
+  currentVersion: true,
+  createdAt: true,
+  updatedAt: true,
+} satisfies Prisma.AgentConfigurationSelect;
+
+export type SelectedConfiguration = Prisma.AgentConfigurationGetPayload<{ select: typeof configurationSelect }>;
+
+export interface ConfigurationContent {
+  name: string;
+  prompt: string;
+  settings: Prisma.JsonValue | null;
+}
+
+/**
+ * Error thrown inside the save transaction when another edit was saved first
+ */
+export class ConfigurationVersionConflictError extends Error {
+  constructor(message = 'Agent configuration was changed meanwhile') {
+    super(message);
+    this.name = 'ConfigurationVersionConflictError';
+  }
+}
+
+/**
+ * Save new content as the next version of a configuration.
+ * The version bump is a conditional update, so two concurrent edits
+ * can't both become the same version.
+ *
+ * @throws {ConfigurationVersionConflictError} If the configuration was edited meanwhile
+ */
+export async function saveConfigurationVersion(
+  tx: Prisma.TransactionClient,
+  configuration: SelectedConfiguration,
+  content: ConfigurationContent,
+  comment: string | null,
+  userId: string
+): Promise<SelectedConfiguration> {
+  const version = configuration.currentVersion + 1;
+  const settings = content.settings === null ? Prisma.DbNull : (content.settings as Prisma.InputJsonValue);
+
+  const { count } = await tx.agentConfiguration.updateMany({
+    where: { id: configuration.id, currentVersion: configuration.currentVersion },
+    data: {
+      name: content.name,
+      prompt: content.prompt,
+      settings,
+      currentVersion: version,
+    },
+  });
+
+  if (count === 0) {
+    throw new ConfigurationVersionConflictError();
+  }
+
+  await tx.agentConfigurationVersion.create({
+    data: {
+      configurationId: configuration.id,
+      version,
+      name: content.name,
+      prompt: content.prompt,
+      settings,
+      comment,
+      createdById: userId,
+    },
+  });
+
+  return tx.agentConfiguration.findUniqueOrThrow({
+    where: { id: configuration.id },
+    select: configurationSelect,
+  });
+}
@@ -0,0 +1,90 @@
+/**
+ * Agent Utilities
+ *
+ * Shared LLM provider and prompt loader for agents called from API routes.
+ * Every call is recorded in llm_usage and checked against the
+ * organization's monthly LLM budget.
+ */
+
+import { prisma } from '@soul-kg-crm/database';
+import {
+  CommunicationAgent,
+  createLLMProviderRegistry,
+  LLMBudgetService,
+  ProductSelectionAgent,
+  PromptCache,
+  PromptLoader,
+  QualificationAgent,
+  UsageTrackingProvider,
+  WarmingAgent,
+  type ILLMProvider,
+} from '@soul-kg-crm/agents';
+
+let llmProvider: ILLMProvider | null | undefined;
+let promptLoader: PromptLoader | undefined;
+
+const PROMPT_CACHE_TTL_MS = 60 * 1000;
+
+/**
+ * Get the usage-tracked LLM provider (created on first use)
+ *
+ * @returns Provider, or null if no LLM provider is configured
+ */
+export function getAgentLLMProvider(): ILLMProvider | null {
+  if (llmProvider === undefined) {
+    const registry = createLLMProviderRegistry(process.env, new LLMBudgetService(prisma));
+    llmProvider = registry ? new UsageTrackingProvider(prisma, registry) : null;
+  }
+
+  return llmProvider;
+}
+
+/**
+ * Get the shared prompt loader (prompts are cached between requests).
+ * Routes that change configurations or variants clear the cache for their
+ * agent type; the short TTL bounds staleness on other API instances.
+ */
+export function getPromptLoader(): PromptLoader {
+  promptLoader ??= new PromptLoader(prisma, new PromptCache(PROMPT_CACHE_TTL_MS));
+  return promptLoader;
+}
+
+/**
+ * Create the COMMUNICATION agent
+ *
+ * @returns Agent, or null if no LLM provider is configured
+ */
+export function createCommunicationAgent(): CommunicationAgent | null {
+  const provider = getAgentLLMProvider();
+  return provider ? new CommunicationAgent(prisma, provider, getPromptLoader()) : null;
+}
+
+/**
+ * Create the QUALIFICATION agent
+ *
+ * @returns Agent, or null if no LLM provider is configured
+ */
+export function createQualificationAgent(): QualificationAgent | null {
+  const provider = getAgentLLMProvider();
+  return provider ? new QualificationAgent(prisma, provider, getPromptLoader()) : null;
+}
+
+/**
+ * Create the PRODUCT_SELECTION agent
+ *
+ * @returns Agent, or null if no LLM provider is configured
+ */
+export function createProductSelectionAgent(): ProductSelectionAgent | null {
+  const provider = getAgentLLMProvider();
+  return provider ? new ProductSelectionAgent(prisma, provider, getPromptLoader()) : null;
+}
+
+/**
+ * Create the WARMING agent
+ *
+ * @returns Agent, or null if no LLM provider is configured
+ */
+export function createWarmingAgent(): WarmingAgent | null {
+  const provider = getAgentLLMProvider();
+  return provider ? new WarmingAgent(prisma, provider, getPromptLoader()) : null;
+}
@@ -0,0 +1,45 @@
+/**
+ * Client Tour Workflow
+ * 
+ * Allowed booking status transitions for ClientTour:
+ * INTERESTED → PROPOSED → SELECTED → BOOKED → CONFIRMED, with cancellation
+ * from any active step. Earlier steps may be skipped up to BOOKED;
+ * a cancelled booking can be reopened as INTERESTED.
+ */
+
+import type { ClientTourStatus } from '@soul-kg-crm/database';
+
+export const CLIENT_TOUR_TRANSITIONS: Record<ClientTourStatus, readonly ClientTourStatus[]> = {
+  INTERESTED: ['PROPOSED', 'SELECTED', 'BOOKED', 'CANCELLED'],
+  PROPOSED: ['SELECTED', 'BOOKED', 'CANCELLED'],
+  SELECTED: ['BOOKED', 'CANCELLED'],
+  BOOKED: ['CONFIRMED', 'CANCELLED'],
+  CONFIRMED: ['CANCELLED'],
+  CANCELLED: ['INTERESTED'],
+};
+
+/**
+ * Statuses that occupy seats on the tour
+ */
+export const SEAT_HOLDING_STATUSES: readonly ClientTourStatus[] = ['BOOKED', 'CONFIRMED'];
+
+/**
+ * Check whether a client tour can move from one status to another
+ */
+export function canTransitionClientTour(from: ClientTourStatus, to: ClientTourStatus): boolean {
+  return CLIENT_TOUR_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Get statuses a client tour can move to next
+ */
+export function getNextClientTourStatuses(status: ClientTourStatus): ClientTourStatus[] {
+  return [...CLIENT_TOUR_TRANSITIONS[status]];
+}
+
+/**
+ * Check whether a status occupies seats on the tour
+ */
+export function holdsSeats(status: ClientTourStatus): boolean {
+  return SEAT_HOLDING_STATUSES.includes(status);
+}
@@ -0,0 +1,241 @@
+/**
+ * Currency Utilities
+ *
+ * Exchange rate lookup and amount conversion between the currencies
+ * our clients pay in. Rates are stored per organization as
+ * "1 baseCurrency = rate quoteCurrency"; the reverse direction and
+ * conversions through a third currency are derived from them.
+ */
+
+import type { Prisma } from '@soul-kg-crm/database';
+
+/**
+ * Currencies accepted for prices, rates and reporting
+ */
+export const SUPPORTED_CURRENCIES = ['USD', 'KGS', 'EUR', 'AED', 'RUB'] as const;
+
+export type CurrencyCode = (typeof SUPPORTED_CURRENCIES)[number];
+
+export type ExchangeRateErrorCode = 'RATE_NOT_FOUND' | 'INVALID_ROW';
+
+/**
+ * Error thrown when an amount can't be converted or a rate file can't be parsed
+ */
+export class ExchangeRateError extends Error {
+  constructor(
+    message: string,
+    public readonly code: ExchangeRateErrorCode
+  ) {
+    super(message);
+    this.name = 'ExchangeRateError';
+  }
+}
+
+export interface ExchangeRateInput {
+  baseCurrency: string;
+  quoteCurrency: string;
+  rate: string | number | { toString(): string };
+  effectiveDate: Date;
+}
+
+/**
+ * Latest rate per currency pair, keyed by "BASE/QUOTE"
+ */
+export type RateTable = Map<string, number>;
+
+export interface Money {
+  amount: string;
+  currency: string;
+}
+
+/**
+ * What's needed to show prices in the organization's reporting currency
+ */
+export interface CurrencyContext {
+  reportingCurrency: string;
+  rates: RateTable;
+}
+
+function pairKey(from: string, to: string): string {
+  return `${from}/${to}`;
+}
+
+export function isSupportedCurrency(currency: string): currency is CurrencyCode {
+  return (SUPPORTED_CURRENCIES as readonly string[]).includes(currency);
+}
+
+/**
+ * Build a lookup table from stored rates, keeping the most recent
+ * effective rate for every pair.
+ */
+export function buildRateTable(rates: ExchangeRateInput[]): RateTable {
+  const table: RateTable = new Map();
+  const effective = new Map<string, number>();
+
+  for (const rate of rates) {
+    const key = pairKey(rate.baseCurrency, rate.quoteCurrency);
+    const time = rate.effectiveDate.getTime();
+    const value = Number(rate.rate.toString());
+
+    if (!(value > 0)) continue;
+
+    if (!effective.has(key) || time >= effective.get(key)!) {
+      effective.set(key, time);
+      table.set(key, value);
+    }
+  }
+
+  return table;
+}
+
+function findDirectRate(table: RateTable, from: string, to: string): number | null {
+  const direct = table.get(pairKey(from, to));
+  if (direct !== undefined) return direct;
+
+  const inverse = table.get(pairKey(to, from));
+  if (inverse !== undefined) return 1 / inverse;
+
+  return null;
+}
+
+/**
+ * Rate to convert 1 unit of `from` into `to`.
+ * Tries the stored pair, its inverse, then a cross rate through any
+ * currency both sides have a rate for (e.g. KGS → USD → AED).
+ *
+ * @returns The rate, or null if the pair can't be resolved
+ */
+export function findRate(table: RateTable, from: string, to: string): number | null {
+  if (from === to) return 1;
+
+  const direct = findDirectRate(table, from, to);
+  if (direct !== null) return direct;
+
+  const currencies = new Set<string>();
+  for (const key of table.keys()) {
+    key.split('/').forEach((currency) => currencies.add(currency));
+  }
+
+  for (const via of currencies) {
+    if (via === from || via === to) continue;
+
+    const first = findDirectRate(table, from, via);
+    const second = first !== null ? findDirectRate(table, via, to) : null;
+
+    if (first !== null && second !== null) {
+      return first * second;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Convert an amount between currencies, rounded to 2 decimals
+ *
+ * @throws {ExchangeRateError} If there is no rate for the pair
+ */
+export function convertAmount(amount: string | number, from: string, to: string, table: RateTable): string {
+  const rate = findRate(table, from, to);
+
+  if (rate === null) {
+    throw new ExchangeRateError(`No exchange rate from ${from} to ${to}`, 'RATE_NOT_FOUND');
+  }
+
+  return (Math.round(Number(amount) * rate * 100) / 100).toFixed(2);
+}
+
+/**
+ * Convert an amount for display.
+ * Returns null instead of throwing when the target currency is unknown
+ * or has no rate, so a missing rate never hides the original price.
+ */
+export function toDisplayCurrency(
+  amount: string | number,
+  from: string,
+  to: string | null | undefined,
+  table: RateTable
+): Money | null {
+  if (!to) return null;
+
+  const rate = findRate(table, from, to);
+  if (rate === null) return null;
+
+  return { amount: convertAmount(amount, from, to, table), currency: to };
+}
+
+/**
+ * Parse an exchange rate file.
+ * One rate per line: `base,quote,rate[,effectiveDate]` (comma or semicolon separated).
+ * A header line and blank lines are skipped; rows without a date use `defaultDate`.
+ *
+ * @throws {ExchangeRateError} If a row is malformed, naming the line number
+ */
+export function parseExchangeRateCsv(content: string, defaultDate: Date): ExchangeRateInput[] {
+  const rows: ExchangeRateInput[] = [];
+
+  content.split(/\r?\n/).forEach((line, index) => {
+    const trimmed = line.trim();
+    if (!trimmed) return;
+
+    const cells = trimmed.split(/[;,]/).map((cell) => cell.trim());
+
+    if (index === 0 && /^base/i.test(cells[0])) return;
+
+    const [base, quote, rawRate, rawDate] = cells;
+    const baseCurrency = (base || '').toUpperCase();
+    const quoteCurrency = (quote || '').toUpperCase();
+    const rate = Number(rawRate);
+    const effectiveDate = rawDate ? new Date(rawDate) : defaultDate;
+
+    if (!isSupportedCurrency(baseCurrency) || !isSupportedCurrency(quoteCurrency) || baseCurrency === quoteCurrency) {
+      throw new ExchangeRateError(`Line ${index + 1}: invalid currency pair`, 'INVALID_ROW');
+    }
+
+    if (!Number.isFinite(rate) || rate <= 0) {
+      throw new ExchangeRateError(`Line ${index + 1}: rate must be a positive number`, 'INVALID_ROW');
+    }
+
+    if (Number.isNaN(effectiveDate.getTime())) {
+      throw new ExchangeRateError(`Line ${index + 1}: invalid date`, 'INVALID_ROW');
+    }
+
+    rows.push({ baseCurrency, quoteCurrency, rate, effectiveDate });
+  });
+
+  return rows;
+}
+
+/**
+ * Load the organization's rates effective at the given moment
+ */
+export async function loadRateTable(
+  db: Prisma.TransactionClient,
+  organizationId: string,
+  at: Date = new Date()
+): Promise<RateTable> {
+  const rates = await db.exchangeRate.findMany({
+    where: { organizationId, effectiveDate: { lte: at } },
+    select: { baseCurrency: true, quoteCurrency: true, rate: true, effectiveDate: true },
+  });
+
+  return buildRateTable(rates);
+}
+
+/**
+ * Load the organization's reporting currency and current rates
+ */
+export async function loadCurrencyContext(
+  db: Prisma.TransactionClient,
+  organizationId: string
+): Promise<CurrencyContext> {
+  const [organization, rates] = await Promise.all([
+    db.organization.findUnique({
+      where: { id: organizationId },
+      select: { reportingCurrency: true },
+    }),
+    loadRateTable(db, organizationId),
+  ]);
+
+  return { reportingCurrency: organization?.reportingCurrency ?? 'USD', rates };
+}
@@ -0,0 +1,332 @@
+/**
+ * Document Templates
+ *
+ * Branded HTML documents sent to clients: proposals and booking confirmations.
+ * The HTML is self-contained (inline styles) so it can be opened in a browser
+ * or printed to PDF as is.
+ */
+
+import type { ProposalItemSnapshot } from './proposal-pricing';
+import type { Money } from './currency';
+
+export type DocumentLanguage = 'en' | 'ru';
+
+export interface DocumentOrganization {
+  name: string;
+  logo: string | null;
+}
+
+export interface DocumentClient {
+  firstName: string | null;
+  lastName: string | null;
+  phone: string;
+}
+
+export interface ProposalDocumentData {
+  organization: DocumentOrganization;
+  client: DocumentClient;
+  proposal: {
+    version: number;
+    title: string | null;
+    currency: string;
+    totalAmount: string;
+    notes: string | null;
+    createdAt: Date;
+    items: ProposalItemSnapshot[];
+  };
+  // Total in the client's preferred currency, shown next to the original total
+  clientTotal?: Money | null;
+}
+
+export interface BookingConfirmationData {
+  organization: DocumentOrganization;
+  client: DocumentClient;
+  booking: {
+    id: string;
+    status: string;
+    participants: number;
+    notes: string | null;
+    createdAt: Date;
+  };
+  tour: {
+    startDate: Date;
+    endDate: Date;
+    unitPrice: string;
+    currency: string;
+  };
+  product: {
+    name: string;
+    description: string | null;
+    duration: number | null;
+    inclusions: string[];
+    exclusions: string[];
+  };
+}
+
+const TRANSLATIONS = {
+  en: {
+    proposal: 'Proposal',
+    bookingConfirmation: 'Booking confirmation',
+    preparedFor: 'Prepared for',
+    date: 'Date',
+    version: 'Version',
+    product: 'Product',
+    dates: 'Dates',
+    participants: 'Participants',
+    unitPrice: 'Price per person',
+    options: 'Options',
+    amount: 'Amount',
+    total: 'Total',
+    approximately: 'Approximately',
+    included: 'Included',
+    notIncluded: 'Not included',
+    notes: 'Notes',
+    bookingNumber: 'Booking number',
+    status: 'Status',
+    duration: 'Duration',
+    days: 'days',
+    statuses: { BOOKED: 'Booked', CONFIRMED: 'Confirmed' } as Record<string, string>,
+  },
+  ru: {
+    proposal: 'Коммерческое предложение',
+    bookingConfirmation: 'Подтверждение бронирования',
+    preparedFor: 'Для',
+    date: 'Дата',
+    version: 'Версия',
+    product: 'Продукт',
+    dates: 'Даты',
+    participants: 'Участники',
+    unitPrice: 'Цена за человека',
+    options: 'Опции',
+    amount: 'Сумма',
+    total: 'Итого',
+    approximately: 'Примерно',
+    included: 'Включено',
+    notIncluded: 'Не включено',
+    notes: 'Примечания',
+    bookingNumber: 'Номер бронирования',
+    status: 'Статус',
+    duration: 'Продолжительность',
+    days: 'дн.',
+    statuses: { BOOKED: 'Забронировано', CONFIRMED: 'Подтверждено' } as Record<string, string>,
+  },
+} satisfies Record<DocumentLanguage, unknown>;
+
+/**
+ * Pick the document language from the client's preferred language.
+ * Kyrgyz-speaking clients get Russian documents; everything else falls back to English.
+ */
+export function resolveDocumentLanguage(preferredLanguage: string | null | undefined): DocumentLanguage {
+  const code = preferredLanguage?.toLowerCase().slice(0, 2);
+  return code === 'ru' || code === 'ky' ? 'ru' : 'en';
+}
+
+/**
+ * Escape text for safe insertion into HTML
+ */
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function localeOf(language: DocumentLanguage): string {
+  return language === 'ru' ? 'ru-RU' : 'en-US';
+}
+
+function formatMoney(amount: string, currency: string, language: DocumentLanguage): string {
+  const formatted = new Intl.NumberFormat(localeOf(language), {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  }).format(Number(amount));
+  return `${formatted} ${currency}`;
+}
+
+// Dates are stored as UTC midnight for departures, so format in UTC
+function formatDay(date: Date | string, language: DocumentLanguage): string {
+  return new Intl.DateTimeFormat(localeOf(language), {
+    day: 'numeric',
+    month: 'long',
+    year: 'numeric',
+    timeZone: 'UTC',
+  }).format(typeof date === 'string' ? new Date(date) : date);
+}
+
+function formatClientName(client: DocumentClient): string {
+  return [client.firstName, client.lastName].filter(Boolean).join(' ') || client.phone;
+}
+
+function renderList(title: string, items: string[]): string {
+  if (items.length === 0) return '';
+  return `<div class="list"><h4>${escapeHtml(title)}</h4><ul>${items
+    .map((item) => `<li>${escapeHtml(item)}</li>`)
+    .join('')}</ul></div>`;
+}
+
+function renderLayout(options: {
+  language: DocumentLanguage;
+  title: string;
+  organization: DocumentOrganization;
+  meta: Array<[string, string]>;
+  body: string;
+}): string {
+  const { language, title, organization, meta, body } = options;
+  const logo = organization.logo
+    ? `<img class="logo" src="${escapeHtml(organization.logo)}" alt="${escapeHtml(organization.name)}" />`
+    : '';
+
+  return `<!DOCTYPE html>
+<html lang="${language}">
+<head>
+<meta charset="utf-8" />
+<title>${escapeHtml(title)} · ${escapeHtml(organization.name)}</title>
+<style>
+  body { font-family: -apple-system, 'Segoe UI', Roboto, Arial, sans-serif; color: #1f2937; margin: 0; padding: 32px; font-size: 14px; }
+  header { display: flex; align-items: center; justify-content: space-between; border-bottom: 2px solid #2563eb; padding-bottom: 16px; margin-bottom: 24px; }
+  .logo { max-height: 56px; max-width: 200px; }
+  .org { font-size: 18px; font-weight: 600; }
+  h1 { font-size: 24px; margin: 0 0 16px; }
+  h3 { font-size: 16px; margin: 24px 0 8px; }
+  h4 { font-size: 13px; margin: 8px 0 4px; color: #4b5563; }
+  .meta { margin-bottom: 24px; }
+  .meta div { margin: 2px 0; }
+  .meta span { color: #6b7280; }
+  table { width: 100%; border-collapse: collapse; margin-bottom: 16px; }
+  th, td { text-align: left; padding: 8px; border-bottom: 1px solid #e5e7eb; vertical-align: top; }
+  th { background: #f3f4f6; font-size: 12px; text-transform: uppercase; color: #4b5563; }
+  td.num, th.num { text-align: right; white-space: nowrap; }
+  .option { font-size: 12px; color: #6b7280; }
+  .total { font-size: 18px; font-weight: 600; text-align: right; margin-top: 16px; }
+  .converted { text-align: right; color: #6b7280; margin-top: 4px; }
+  .lists { display: flex; gap: 32px; }
+  .list ul { margin: 0; padding-left: 18px; }
+  .notes { margin-top: 24px; padding: 12px; background: #f9fafb; border-radius: 6px; white-space: pre-line; }
+</style>
+</head>
+<body>
+<header>${logo}<div class="org">${escapeHtml(organization.name)}</div></header>
+<h1>${escapeHtml(title)}</h1>
+<div class="meta">${meta
+    .map(([label, value]) => `<div><span>${escapeHtml(label)}:</span> ${escapeHtml(value)}</div>`)
+    .join('')}</div>
+${body}
+</body>
+</html>
+`;
+}
+
+/**
+ * Render a proposal version as a branded HTML document
+ */
+export function renderProposalHtml(data: ProposalDocumentData, language: DocumentLanguage): string {
+  const t = TRANSLATIONS[language];
+  const { proposal } = data;
+
+  const rows = proposal.items
+    .map((item) => {
+      const dates = item.tour
+        ? `${formatDay(item.tour.startDate, language)} – ${formatDay(item.tour.endDate, language)}`
+        : '';
+      const options = item.options
+        .map(
+          (option) =>
+            `<div class="option">+ ${escapeHtml(option.name)}: ${escapeHtml(
+              formatMoney(option.amount, item.currency, language)
+            )}</div>`
+        )
+        .join('');
+
+      return `<tr>
+  <td><strong>${escapeHtml(item.productName)}</strong>${options}</td>
+  <td>${escapeHtml(dates)}</td>
+  <td class="num">${item.participants}</td>
+  <td class="num">${escapeHtml(formatMoney(item.unitPrice, item.currency, language))}</td>
+  <td class="num">${escapeHtml(formatMoney(item.total, item.currency, language))}</td>
+</tr>`;
+    })
+    .join('\n');
+
+  const details = proposal.items
+    .filter((item) => item.inclusions.length > 0 || item.exclusions.length > 0 || item.description)
+    .map(
+      (item) => `<h3>${escapeHtml(item.productName)}</h3>
+${item.description ? `<p>${escapeHtml(item.description)}</p>` : ''}
+<div class="lists">${renderList(t.included, item.inclusions)}${renderList(t.notIncluded, item.exclusions)}</div>`
+    )
+    .join('\n');
+
+  const body = `<table>
+<thead><tr><th>${t.product}</th><th>${t.dates}</th><th class="num">${t.participants}</th><th class="num">${t.unitPrice}</th><th class="num">${t.amount}</th></tr></thead>
+<tbody>
+${rows}
+</tbody>
+</table>
+<div class="total">${t.total}: ${escapeHtml(formatMoney(proposal.totalAmount, proposal.currency, language))}</div>
+${
+  data.clientTotal && data.clientTotal.currency !== proposal.currency
+    ? `<div class="converted">${t.approximately}: ${escapeHtml(
+        formatMoney(data.clientTotal.amount, data.clientTotal.currency, language)
+      )}</div>`
+    : ''
+}
+${details}
+${proposal.notes ? `<div class="notes"><h4>${t.notes}</h4>${escapeHtml(proposal.notes)}</div>` : ''}`;
+
+  return renderLayout({
+    language,
+    title: proposal.title || t.proposal,
+    organization: data.organization,
+    meta: [
+      [t.preparedFor, formatClientName(data.client)],
+      [t.date, formatDay(proposal.createdAt, language)],
+      [t.version, String(proposal.version)],
+    ],
+    body,
+  });
+}
+
+/**
+ * Render a booking confirmation for a booked or confirmed client tour
+ */
+export function renderBookingConfirmationHtml(data: BookingConfirmationData, language: DocumentLanguage): string {
+  const t = TRANSLATIONS[language];
+  const { booking, tour, product } = data;
+  const total = (Math.round(Number(tour.unitPrice) * 100) * booking.participants) / 100;
+
+  const body = `<table>
+<tbody>
+<tr><th>${t.product}</th><td>${escapeHtml(product.name)}</td></tr>
+<tr><th>${t.dates}</th><td>${escapeHtml(`${formatDay(tour.startDate, language)} – ${formatDay(tour.endDate, language)}`)}</td></tr>
+${product.duration ? `<tr><th>${t.duration}</th><td>${product.duration} ${t.days}</td></tr>` : ''}
+<tr><th>${t.participants}</th><td>${booking.participants}</td></tr>
+<tr><th>${t.unitPrice}</th><td>${escapeHtml(formatMoney(tour.unitPrice, tour.currency, language))}</td></tr>
+<tr><th>${t.status}</th><td>${escapeHtml(t.statuses[booking.status] || booking.status)}</td></tr>
+</tbody>
+</table>
+<div class="total">${t.total}: ${escapeHtml(formatMoney(total.toFixed(2), tour.currency, language))}</div>
+${product.description ? `<p>${escapeHtml(product.description)}</p>` : ''}
+<div class="lists">${renderList(t.included, product.inclusions)}${renderList(t.notIncluded, product.exclusions)}</div>
+${booking.notes ? `<div class="notes"><h4>${t.notes}</h4>${escapeHtml(booking.notes)}</div>` : ''}`;
+
+  return renderLayout({
+    language,
+    title: t.bookingConfirmation,
+    organization: data.organization,
+    meta: [
+      [t.preparedFor, formatClientName(data.client)],
+      [t.bookingNumber, getBookingNumber(booking.id)],
+      [t.date, formatDay(booking.createdAt, language)],
+    ],
+    body,
+  });
+}
+
+/**
+ * Short human-readable booking number derived from the client tour ID
+ */
+export function getBookingNumber(clientTourId: string): string {
+  return clientTourId.replace(/-/g, '').slice(0, 8).toUpperCase();
+}
@@ -0,0 +1,219 @@
+/**
+ * Experiment Statistics Utilities
+ *
+ * Per-variant funnel conversion, time-to-SOLD and reply rates for
+ * prompt experiments, with Wilson confidence intervals and a
+ * two-proportion z-test on the SOLD rate.
+ */
+
+import type { ClientStatus } from '@soul-kg-crm/database';
+
+// Sales funnel in order; SERVICE counts as past SOLD, CLOSED is not a stage
+export const FUNNEL_STAGES = ['NEW_LEAD', 'QUALIFIED', 'WARMED', 'PROPOSAL_SENT', 'NEGOTIATION', 'SOLD'] as const;
+
+export type FunnelStage = (typeof FUNNEL_STAGES)[number];
+
+// 95% two-sided
+const Z_95 = 1.959964;
+
+export const SIGNIFICANCE_LEVEL = 0.05;
+
+const MS_PER_DAY = 86_400_000;
+
+export interface ExperimentClient {
+  status: ClientStatus;
+  createdAt: Date;
+  history: { newStatus: ClientStatus; createdAt: Date }[];
+  // Received an AI message while the experiment ran
+  messaged: boolean;
+  // Wrote back after the first AI message
+  replied: boolean;
+}
+
+export interface ProportionEstimate {
+  successes: number;
+  total: number;
+  rate: number;
+  lower: number;
+  upper: number;
+}
+
+export interface VariantStats {
+  clients: number;
+  funnel: { stage: FunnelStage; reached: number; conversion: ProportionEstimate | null }[];
+  sold: ProportionEstimate | null;
+  timeToSoldDays: { count: number; median: number; mean: number } | null;
+  replyRate: ProportionEstimate | null;
+}
+
+export interface VariantComparison {
+  winnerId: string | null;
+  significant: boolean;
+  comparisons: Record<string, { z: number; pValue: number } | null>;
+}
+
+function round(value: number, digits = 4): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+function stageIndex(status: ClientStatus): number {
+  if (status === 'SERVICE') {
+    return FUNNEL_STAGES.indexOf('SOLD');
+  }
+
+  return FUNNEL_STAGES.indexOf(status as FunnelStage);
+}
+
+/**
+ * Standard normal cumulative distribution (Abramowitz-Stegun 26.2.17)
+ */
+export function normalCdf(x: number): number {
+  const t = 1 / (1 + 0.2316419 * Math.abs(x));
+  const density = Math.exp((-x * x) / 2) / Math.sqrt(2 * Math.PI);
+  const tail =
+    density * t * (0.31938153 + t * (-0.356563782 + t * (1.781477937 + t * (-1.821255978 + t * 1.330274429))));
+
+  return x >= 0 ? 1 - tail : tail;
+}
+
+/**
+ * Wilson score interval for a proportion (null without observations)
+ */
+export function wilsonInterval(successes: number, total: number, z = Z_95): ProportionEstimate | null {
+  if (total === 0) {
+    return null;
+  }
+
+  const rate = successes / total;
+  const denominator = 1 + (z * z) / total;
+  const center = (rate + (z * z) / (2 * total)) / denominator;
+  const margin = (z * Math.sqrt((rate * (1 - rate)) / total + (z * z) / (4 * total * total))) / denominator;
+
+  return {
+    successes,
+    total,
+    rate: round(rate),
+    lower: round(Math.max(0, center - margin)),
+    upper: round(Math.min(1, center + margin)),
+  };
+}
+
+/**
+ * Two-sided two-proportion z-test with pooled variance.
+ * Returns null if either group is empty or the pooled rate is 0 or 1.
+ */
+export function twoProportionTest(
+  successesA: number,
+  totalA: number,
+  successesB: number,
+  totalB: number
+): { z: number; pValue: number } | null {
+  if (totalA === 0 || totalB === 0) {
+    return null;
+  }
+
+  const pooled = (successesA + successesB) / (totalA + totalB);
+  const standardError = Math.sqrt(pooled * (1 - pooled) * (1 / totalA + 1 / totalB));
+
+  if (standardError === 0) {
+    return null;
+  }
+
+  const z = (successesA / totalA - successesB / totalB) / standardError;
+
+  return { z: round(z), pValue: round(2 * (1 - normalCdf(Math.abs(z)))) };
+}
+
+/**
+ * Summarize the clients assigned to one variant
+ */
+export function summarizeVariant(clients: ExperimentClient[]): VariantStats {
+  const reached = FUNNEL_STAGES.map(() => 0);
+  const daysToSold: number[] = [];
+
+  for (const client of clients) {
+    const furthest = Math.max(
+      0,
+      stageIndex(client.status),
+      ...client.history.map((entry) => stageIndex(entry.newStatus))
+    );
+
+    for (let index = 0; index <= furthest; index++) {
+      reached[index]++;
+    }
+
+    const soldEntry = client.history
+      .filter((entry) => entry.newStatus === 'SOLD')
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())[0];
+
+    if (soldEntry) {
+      daysToSold.push((soldEntry.createdAt.getTime() - client.createdAt.getTime()) / MS_PER_DAY);
+    }
+  }
+
+  const soldIndex = FUNNEL_STAGES.indexOf('SOLD');
+  const messaged = clients.filter((client) => client.messaged);
+  const sortedDays = [...daysToSold].sort((a, b) => a - b);
+  const middle = Math.floor(sortedDays.length / 2);
+
+  return {
+    clients: clients.length,
+    funnel: FUNNEL_STAGES.map((stage, index) => ({
+      stage,
+      reached: reached[index],
+      conversion: index === 0 ? null : wilsonInterval(reached[index], reached[index - 1]),
+    })),
+    sold: wilsonInterval(reached[soldIndex], clients.length),
+    timeToSoldDays:
+      sortedDays.length === 0
+        ? null
+        : {
+            count: sortedDays.length,
+            median: round(
+              sortedDays.length % 2 === 1 ? sortedDays[middle] : (sortedDays[middle - 1] + sortedDays[middle]) / 2,
+              1
+            ),
+            mean: round(sortedDays.reduce((sum, days) => sum + days, 0) / sortedDays.length, 1),
+          },
+    replyRate: wilsonInterval(messaged.filter((client) => client.replied).length, messaged.length),
+  };
+}
+
+/**
+ * Pick the variant with the highest SOLD rate and test it against each
+ * other variant. The winner is significant only if it beats all of them.
+ */
+export function compareVariants(variants: { id: string; sold: ProportionEstimate | null }[]): VariantComparison {
+  const ranked = variants
+    .filter((variant) => variant.sold !== null)
+    .sort((a, b) => b.sold!.rate - a.sold!.rate || b.sold!.total - a.sold!.total);
+  const leader = ranked[0];
+
+  if (!leader) {
+    return {
+      winnerId: null,
+      significant: false,
+      comparisons: Object.fromEntries(variants.map((variant) => [variant.id, null])),
+    };
+  }
+
+  const comparisons: VariantComparison['comparisons'] = {};
+
+  for (const variant of variants) {
+    comparisons[variant.id] =
+      variant.id === leader.id || !variant.sold
+        ? null
+        : twoProportionTest(leader.sold!.successes, leader.sold!.total, variant.sold.successes, variant.sold.total);
+  }
+
+  const others = variants.filter((variant) => variant.id !== leader.id);
+  const significant =
+    others.length > 0 &&
+    others.every((variant) => {
+      const comparison = comparisons[variant.id];
+      return comparison !== null && comparison.z > 0 && comparison.pValue < SIGNIFICANCE_LEVEL;
+    });
+
+  return { winnerId: leader.id, significant, comparisons };
+}
@@ -0,0 +1,178 @@
+/**
+ * LLM Usage Utilities
+ *
+ * Aggregation of recorded LLM calls into token and cost totals
+ * per day, agent and model. Calls are pre-aggregated in the database
+ * per (day, agent, model) by aggregateLlmUsage; these groups are then
+ * rolled up into totals and breakdowns.
+ */
+
+import { Prisma, type AgentType, type PrismaClient } from '@soul-kg-crm/database';
+
+/**
+ * LLM calls of one UTC day, agent and model
+ */
+export interface LlmUsageGroup {
+  date: string; // YYYY-MM-DD, UTC
+  agentType: AgentType | null;
+  model: string;
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  // Sum over all calls
+  latencyMs: number;
+  // USD, sum over calls with a model price
+  cost: string | number;
+  unpricedCalls: number;
+}
+
+export interface LlmUsageFilter {
+  organizationId: string;
+  from: Date;
+  to: Date;
+  agentType?: AgentType;
+  model?: string;
+}
+
+export interface LlmUsageTotals {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  // USD, calls without a model price count as zero
+  cost: string;
+  // Calls whose model has no price, so the cost is understated
+  unpricedCalls: number;
+  averageLatencyMs: number;
+}
+
+export interface LlmUsageSummary {
+  totals: LlmUsageTotals;
+  byDay: ({ date: string } & LlmUsageTotals)[];
+  byAgent: ({ agentType: AgentType | null } & LlmUsageTotals)[];
+  byModel: ({ model: string } & LlmUsageTotals)[];
+}
+
+interface Accumulator {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  // Micro-USD, to avoid float drift over many small costs
+  cost: number;
+  unpricedCalls: number;
+  latencyMs: number;
+}
+
+function createAccumulator(): Accumulator {
+  return { calls: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, cost: 0, unpricedCalls: 0, latencyMs: 0 };
+}
+
+function add(accumulator: Accumulator, group: LlmUsageGroup): void {
+  accumulator.calls += group.calls;
+  accumulator.promptTokens += group.promptTokens;
+  accumulator.completionTokens += group.completionTokens;
+  accumulator.totalTokens += group.totalTokens;
+  accumulator.latencyMs += group.latencyMs;
+  accumulator.unpricedCalls += group.unpricedCalls;
+  accumulator.cost += Math.round(Number(group.cost) * 1_000_000);
+}
+
+function toTotals(accumulator: Accumulator): LlmUsageTotals {
+  return {
+    calls: accumulator.calls,
+    promptTokens: accumulator.promptTokens,
+    completionTokens: accumulator.completionTokens,
+    totalTokens: accumulator.totalTokens,
+    cost: (accumulator.cost / 1_000_000).toFixed(6),
+    unpricedCalls: accumulator.unpricedCalls,
+    averageLatencyMs: accumulator.calls === 0 ? 0 : Math.round(accumulator.latencyMs / accumulator.calls),
+  };
+}
+
+function rollUp<K>(groups: LlmUsageGroup[], keyOf: (group: LlmUsageGroup) => K): [K, LlmUsageTotals][] {
+  const accumulators = new Map<K, Accumulator>();
+
+  for (const group of groups) {
+    const key = keyOf(group);
+    const accumulator = accumulators.get(key) ?? createAccumulator();
+    add(accumulator, group);
+    accumulators.set(key, accumulator);
+  }
+
+  return [...accumulators.entries()].map(([key, accumulator]) => [key, toTotals(accumulator)]);
+}
+
+const byCostDesc = (a: LlmUsageTotals, b: LlmUsageTotals) =>
+  Number(b.cost) - Number(a.cost) || b.totalTokens - a.totalTokens;
+
+/**
+ * Aggregate recorded LLM calls per UTC day, agent and model in the database,
+ * so a period with many calls is summed without loading every row
+ */
+export async function aggregateLlmUsage(prisma: PrismaClient, filter: LlmUsageFilter): Promise<LlmUsageGroup[]> {
+  const rows = await prisma.$queryRaw<
+    {
+      date: string;
+      agentType: AgentType | null;
+      model: string;
+      calls: number;
+      promptTokens: bigint;
+      completionTokens: bigint;
+      totalTokens: bigint;
+      latencyMs: bigint;
+      cost: string;
+      unpricedCalls: number;
+    }[]
+  >(Prisma.sql`
+    SELECT
+      to_char(date_trunc('day', "createdAt"), 'YYYY-MM-DD') AS "date",
+      "agentType",
+      "model",
+      COUNT(*)::int AS "calls",
+      SUM("promptTokens")::bigint AS "promptTokens",
+      SUM("completionTokens")::bigint AS "completionTokens",
+      SUM("totalTokens")::bigint AS "totalTokens",
+      SUM("latencyMs")::bigint AS "latencyMs",
+      COALESCE(SUM("cost"), 0)::text AS "cost",
+      (COUNT(*) FILTER (WHERE "cost" IS NULL))::int AS "unpricedCalls"
+    FROM "llm_usage"
+    WHERE "organizationId" = ${filter.organizationId}
+      AND "createdAt" >= ${filter.from}
+      AND "createdAt" <= ${filter.to}
+      ${filter.agentType ? Prisma.sql`AND "agentType" = ${filter.agentType}::"AgentType"` : Prisma.empty}
+      ${filter.model ? Prisma.sql`AND "model" = ${filter.model}` : Prisma.empty}
+    GROUP BY 1, 2, 3
+  `);
+
+  return rows.map((row) => ({
+    ...row,
+    promptTokens: Number(row.promptTokens),
+    completionTokens: Number(row.completionTokens),
+    totalTokens: Number(row.totalTokens),
+    latencyMs: Number(row.latencyMs),
+  }));
+}
+
+/**
+ * Roll usage groups up into totals, per day (YYYY-MM-DD, UTC, ascending),
+ * per agent and per model (most expensive first)
+ */
+export function summarizeLlmUsage(groups: LlmUsageGroup[]): LlmUsageSummary {
+  const totals = createAccumulator();
+  groups.forEach((group) => add(totals, group));
+
+  return {
+    totals: toTotals(totals),
+    byDay: rollUp(groups, (group) => group.date)
+      .map(([date, dayTotals]) => ({ date, ...dayTotals }))
+      .sort((a, b) => a.date.localeCompare(b.date)),
+    byAgent: rollUp(groups, (group) => group.agentType)
+      .map(([agentType, agentTotals]) => ({ agentType, ...agentTotals }))
+      .sort(byCostDesc),
+    byModel: rollUp(groups, (group) => group.model)
+      .map(([model, modelTotals]) => ({ model, ...modelTotals }))
+      .sort(byCostDesc),
+  };
+}
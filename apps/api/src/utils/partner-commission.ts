@@ -0,0 +1,305 @@
+/**
+ * Partner Commission Utilities
+ *
+ * Commission rules per partner, ledger entries for confirmed bookings
+ * and settlement summaries. Ledger writes must run inside the same
+ * Prisma transaction as the booking status change.
+ */
+
+import type { CommissionType, LedgerEntryStatus, Prisma } from '@soul-kg-crm/database';
+import { getSeatCount } from './tour-capacity';
+
+type DecimalLike = string | number | { toString(): string };
+
+export interface CommissionRule {
+  commissionType: CommissionType | null;
+  commissionValue: DecimalLike | null;
+  commissionCurrency: string | null;
+}
+
+export interface CommissionBooking {
+  unitPrice: DecimalLike;
+  currency: string;
+  participants: number;
+}
+
+export interface Commission {
+  bookingAmount: string;
+  amount: string;
+  currency: string;
+}
+
+function toMinor(amount: DecimalLike): number {
+  return Math.round(Number(amount.toString()) * 100);
+}
+
+function fromMinor(amount: number): string {
+  return (amount / 100).toFixed(2);
+}
+
+/**
+ * Whether the partner has a complete commission rule
+ */
+export function hasCommissionRule(rule: CommissionRule): boolean {
+  return rule.commissionType !== null && rule.commissionValue !== null;
+}
+
+/**
+ * Commission for a booking.
+ * PERCENTAGE takes a share of the booking amount in the booking currency;
+ * FIXED_PER_PARTICIPANT pays the value per participant in the partner's
+ * commission currency (or the booking currency if none is set).
+ *
+ * @returns Commission or null if the partner has no commission rule
+ */
+export function calculateCommission(rule: CommissionRule, booking: CommissionBooking): Commission | null {
+  if (!hasCommissionRule(rule)) {
+    return null;
+  }
+
+  const value = Number(rule.commissionValue!.toString());
+  const bookingAmount = toMinor(booking.unitPrice) * booking.participants;
+
+  if (rule.commissionType === 'PERCENTAGE') {
+    return {
+      bookingAmount: fromMinor(bookingAmount),
+      amount: fromMinor(Math.round((bookingAmount * value) / 100)),
+      currency: booking.currency,
+    };
+  }
+
+  return {
+    bookingAmount: fromMinor(bookingAmount),
+    amount: fromMinor(toMinor(value) * booking.participants),
+    currency: rule.commissionCurrency || booking.currency,
+  };
+}
+
+const commissionRuleSelect = {
+  id: true,
+  commissionType: true,
+  commissionValue: true,
+  commissionCurrency: true,
+} satisfies Prisma.PartnerSelect;
+
+/**
+ * Create the ledger entry for a client tour that became CONFIRMED.
+ *
+ * The partner is the one supplying the tour's product, or else the partner
+ * assigned to the client. Nothing is recorded if there's no partner or it
+ * has no commission rule. An entry voided by an earlier cancellation is
+ * recalculated and reopened; unpaid and paid entries are left as they are.
+ *
+ * @returns The ledger entry or null if no commission is owed
+ */
+export async function recordConfirmedBooking(tx: Prisma.TransactionClient, clientTourId: string) {
+  const clientTour = await tx.clientTour.findUniqueOrThrow({
+    where: { id: clientTourId },
+    select: {
+      participants: true,
+      client: {
+        select: {
+          id: true,
+          organizationId: true,
+          firstName: true,
+          lastName: true,
+          phone: true,
+          assignedPartner: { select: commissionRuleSelect },
+        },
+      },
+      tour: {
+        select: {
+          startDate: true,
+          price: true,
+          currency: true,
+          product: {
+            select: {
+              name: true,
+              basePrice: true,
+              currency: true,
+              partner: { select: commissionRuleSelect },
+            },
+          },
+        },
+      },
+      ledgerEntry: { select: { id: true, status: true } },
+    },
+  });
+
+  const { client, tour, ledgerEntry } = clientTour;
+  const partner = tour.product.partner ?? client.assignedPartner;
+
+  if (!partner) {
+    return null;
+  }
+
+  if (ledgerEntry && ledgerEntry.status !== 'VOID') {
+    return ledgerEntry;
+  }
+
+  const participants = getSeatCount(clientTour.participants);
+
+  // Departure price overrides the product's base price
+  const commission = calculateCommission(partner, {
+    unitPrice: tour.price ?? tour.product.basePrice,
+    currency: tour.price !== null ? tour.currency : tour.product.currency,
+    participants,
+  });
+
+  if (!commission) {
+    return null;
+  }
+
+  const data = {
+    organizationId: client.organizationId,
+    partnerId: partner.id,
+    clientId: client.id,
+    clientName: [client.firstName, client.lastName].filter(Boolean).join(' ') || client.phone,
+    productName: tour.product.name,
+    tourStartDate: tour.startDate,
+    participants,
+    bookingAmount: commission.bookingAmount,
+    commissionType: partner.commissionType!,
+    commissionValue: partner.commissionValue!,
+    amount: commission.amount,
+    currency: commission.currency,
+    status: 'UNPAID' as const,
+    paidAt: null,
+    paidById: null,
+  };
+
+  if (ledgerEntry) {
+    return tx.partnerLedgerEntry.update({ where: { id: ledgerEntry.id }, data });
+  }
+
+  return tx.partnerLedgerEntry.create({ data: { ...data, clientTourId } });
+}
+
+/**
+ * Void the unpaid ledger entry of a client tour that is no longer confirmed.
+ * Paid entries are kept so the settlement history stays accurate.
+ */
+export async function voidUnpaidEntry(tx: Prisma.TransactionClient, clientTourId: string): Promise<void> {
+  await tx.partnerLedgerEntry.updateMany({
+    where: { clientTourId, status: 'UNPAID' },
+    data: { status: 'VOID' },
+  });
+}
+
+export interface SettlementEntry {
+  partnerId: string;
+  partnerName: string;
+  clientName: string;
+  productName: string;
+  tourStartDate: Date;
+  participants: number;
+  bookingAmount: DecimalLike;
+  commissionType: CommissionType;
+  commissionValue: DecimalLike;
+  amount: DecimalLike;
+  currency: string;
+  status: LedgerEntryStatus;
+  paidAt: Date | null;
+}
+
+export interface SettlementTotal {
+  currency: string;
+  total: string;
+  paid: string;
+  unpaid: string;
+}
+
+export interface PartnerSettlement {
+  partnerId: string;
+  partnerName: string;
+  entries: number;
+  totals: SettlementTotal[];
+}
+
+/**
+ * Totals per partner and currency. Voided entries are not counted.
+ */
+export function summarizeSettlements(entries: SettlementEntry[]): PartnerSettlement[] {
+  const partners = new Map<string, { name: string; entries: number; totals: Map<string, { paid: number; unpaid: number }> }>();
+
+  for (const entry of entries) {
+    if (entry.status === 'VOID') {
+      continue;
+    }
+
+    const partner = partners.get(entry.partnerId) ?? { name: entry.partnerName, entries: 0, totals: new Map() };
+    const totals = partner.totals.get(entry.currency) ?? { paid: 0, unpaid: 0 };
+
+    if (entry.status === 'PAID') {
+      totals.paid += toMinor(entry.amount);
+    } else {
+      totals.unpaid += toMinor(entry.amount);
+    }
+
+    partner.entries += 1;
+    partner.totals.set(entry.currency, totals);
+    partners.set(entry.partnerId, partner);
+  }
+
+  return [...partners.entries()]
+    .sort(([, a], [, b]) => a.name.localeCompare(b.name))
+    .map(([partnerId, partner]) => ({
+      partnerId,
+      partnerName: partner.name,
+      entries: partner.entries,
+      totals: [...partner.totals.entries()]
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([currency, value]) => ({
+          currency,
+          total: fromMinor(value.paid + value.unpaid),
+          paid: fromMinor(value.paid),
+          unpaid: fromMinor(value.unpaid),
+        })),
+    }));
+}
+
+const SETTLEMENT_CSV_HEADER = [
+  'partner',
+  'client',
+  'product',
+  'tourStartDate',
+  'participants',
+  'bookingAmount',
+  'commissionType',
+  'commissionValue',
+  'amount',
+  'currency',
+  'status',
+  'paidAt',
+];
+
+/**
+ * Quote a CSV cell. Text starting with a formula character (=, +, -, @)
+ * is prefixed with ' so spreadsheets don't evaluate it; numbers are kept.
+ */
+function escapeCsvValue(value: string): string {
+  const safe = /^[=+\-@\t\r]/.test(value) && !/^-?\d+(\.\d+)?$/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+/**
+ * Settlement entries as CSV, one row per ledger entry
+ */
+export function buildSettlementCsv(entries: SettlementEntry[]): string {
+  const rows = entries.map((entry) => [
+    entry.partnerName,
+    entry.clientName,
+    entry.productName,
+    entry.tourStartDate.toISOString().slice(0, 10),
+    String(entry.participants),
+    Number(entry.bookingAmount.toString()).toFixed(2),
+    entry.commissionType,
+    entry.commissionValue.toString(),
+    Number(entry.amount.toString()).toFixed(2),
+    entry.currency,
+    entry.status,
+    entry.paidAt ? entry.paidAt.toISOString().slice(0, 10) : '',
+  ]);
+
+  return [SETTLEMENT_CSV_HEADER, ...rows].map((row) => row.map(escapeCsvValue).join(',')).join('\r\n') + '\r\n';
+}
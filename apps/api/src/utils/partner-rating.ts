@@ -0,0 +1,97 @@
+/**
+ * Partner Rating Utilities
+ *
+ * Partner rating as a weighted rolling average of client feedback.
+ * Only the latest RATING_WINDOW entries count; newer feedback weighs
+ * more than older, and incidents weigh more than regular feedback.
+ */
+
+import type { Prisma } from '@soul-kg-crm/database';
+
+/**
+ * Number of latest feedback entries included in the rating
+ */
+export const RATING_WINDOW = 20;
+
+/**
+ * Weight multiplier per step back in time (latest entry has weight 1)
+ */
+export const RATING_DECAY = 0.9;
+
+/**
+ * Extra weight of feedback flagged as an incident
+ */
+export const INCIDENT_WEIGHT = 2;
+
+export interface RatingFeedback {
+  score: number;
+  isIncident: boolean;
+  createdAt: Date;
+}
+
+/**
+ * Weighted rolling average of feedback scores
+ *
+ * @returns Rating with 2 decimals or null if there is no feedback
+ */
+export function calculatePartnerRating(feedback: RatingFeedback[]): string | null {
+  const latest = [...feedback]
+    .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+    .slice(0, RATING_WINDOW);
+
+  if (latest.length === 0) {
+    return null;
+  }
+
+  let weightedSum = 0;
+  let totalWeight = 0;
+
+  latest.forEach((entry, index) => {
+    const weight = Math.pow(RATING_DECAY, index) * (entry.isIncident ? INCIDENT_WEIGHT : 1);
+    weightedSum += entry.score * weight;
+    totalWeight += weight;
+  });
+
+  return (weightedSum / totalWeight).toFixed(2);
+}
+
+/**
+ * Recompute and store a partner's rating from its feedback.
+ * Call inside the transaction that changes the feedback.
+ */
+export async function recalculatePartnerRating(
+  tx: Prisma.TransactionClient,
+  partnerId: string
+): Promise<string | null> {
+  const feedback = await tx.partnerFeedback.findMany({
+    where: { partnerId },
+    select: { score: true, isIncident: true, createdAt: true },
+    orderBy: { createdAt: 'desc' },
+    take: RATING_WINDOW,
+  });
+
+  const rating = calculatePartnerRating(feedback);
+
+  await tx.partner.update({
+    where: { id: partnerId },
+    data: { rating },
+  });
+
+  return rating;
+}
+
+/**
+ * Where clause hiding partners rated below the organization's threshold.
+ * Partners without a rating yet stay visible.
+ */
+export function buildRatingThresholdWhere(
+  threshold: { toString(): string } | null
+): Prisma.PartnerWhereInput {
+  if (threshold === null) {
+    return {};
+  }
+
+  return {
+    OR: [{ rating: null }, { rating: { gte: threshold.toString() } }],
+  };
+}
@@ -0,0 +1,38 @@
+/**
+ * Partner Utilities
+ * 
+ * Helpers for deciding which partners can be assigned to a client
+ */
+
+import type { Prisma } from '@soul-kg-crm/database';
+
+/**
+ * Client product statuses that count as "selected" for partner assignment
+ */
+export const SELECTED_PRODUCT_STATUSES = ['SELECTED', 'BOOKED'] as const;
+
+/**
+ * Build a where clause matching partners that can be assigned to a client:
+ * available partners of the organization that provide at least one
+ * of the client's selected products.
+ */
+export function buildAssignablePartnersWhere(
+  organizationId: string,
+  clientId: string
+): Prisma.PartnerWhereInput {
+  return {
+    organizationId,
+    isAvailable: true,
+    products: {
+      some: {
+        organizationId,
+        clientProducts: {
+          some: {
+            clientId,
+            status: { in: [...SELECTED_PRODUCT_STATUSES] },
+          },
+        },
+      },
+    },
+  };
+}
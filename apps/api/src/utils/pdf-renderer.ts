@@ -0,0 +1,76 @@
+/**
+ * PDF Renderer
+ *
+ * Prints HTML documents to PDF with headless Chrome.
+ * Uses the Chrome bundled with puppeteer unless PUPPETEER_EXECUTABLE_PATH is set.
+ * Chrome keeps its sandbox, and the page may only load inline `data:`
+ * resources and https images from DOCUMENT_ASSET_HOSTS (comma-separated,
+ * e.g. the CDN serving organization logos). Other requests are aborted,
+ * so a logo URL can't make the server call internal addresses.
+ */
+
+import puppeteer from 'puppeteer';
+
+const BROWSER_ARGS = ['--disable-dev-shm-usage', '--disable-gpu'];
+
+/**
+ * Parse the allowed asset hosts from the environment
+ */
+export function getAllowedAssetHosts(env: NodeJS.ProcessEnv = process.env): string[] {
+  return (env.DOCUMENT_ASSET_HOSTS || '')
+    .split(',')
+    .map((host) => host.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+/**
+ * Whether the document page may load a resource: `data:` URLs, or https
+ * URLs on an allowed host (default port only)
+ */
+export function isAllowedResourceUrl(url: string, allowedHosts: string[]): boolean {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return false;
+  }
+
+  if (parsed.protocol === 'data:') {
+    return true;
+  }
+
+  return parsed.protocol === 'https:' && parsed.port === '' && allowedHosts.includes(parsed.hostname.toLowerCase());
+}
+
+/**
+ * Render an HTML document to an A4 PDF
+ */
+export async function renderPdf(html: string): Promise<Buffer> {
+  const allowedHosts = getAllowedAssetHosts();
+  const browser = await puppeteer.launch({ headless: true, args: BROWSER_ARGS });
+
+  try {
+    const page = await browser.newPage();
+    await page.setJavaScriptEnabled(false);
+    // Redirects are intercepted too, so an allowed host can't bounce elsewhere
+    await page.setRequestInterception(true);
+    page.on('request', (request) => {
+      if (isAllowedResourceUrl(request.url(), allowedHosts)) {
+        void request.continue();
+      } else {
+        void request.abort('blockedbyclient');
+      }
+    });
+
+    // 'load' also waits for the organization logo image
+    await page.setContent(html, { waitUntil: 'load', timeout: 15000 });
+    const pdf = await page.pdf({
+      format: 'A4',
+      printBackground: true,
+      margin: { top: '16mm', bottom: '16mm', left: '12mm', right: '12mm' },
+    });
+    return Buffer.from(pdf);
+  } finally {
+    await browser.close();
+  }
+}
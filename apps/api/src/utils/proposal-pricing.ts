@@ -0,0 +1,188 @@
+/**
+ * Proposal Pricing Utilities
+ *
+ * Functions for pricing proposal items from catalog products,
+ * tour departures and picked product options.
+ * Amounts are calculated in minor units to avoid floating point drift.
+ */
+
+import type { ClientStatus, ProductType } from '@soul-kg-crm/database';
+
+export interface ProductOptionInput {
+  code: string;
+  name: string;
+  description?: string;
+  price: number;
+  perParticipant?: boolean;
+}
+
+export interface ProposalItemInput {
+  clientProductId: string;
+  product: {
+    id: string;
+    name: string;
+    type: ProductType;
+    description: string | null;
+    duration: number | null;
+    basePrice: string;
+    currency: string;
+    inclusions: string[];
+    exclusions: string[];
+    options: ProductOptionInput[];
+  };
+  tour: {
+    id: string;
+    startDate: Date;
+    endDate: Date;
+    price: string | null;
+    currency: string;
+  } | null;
+  participants: number;
+  optionCodes: string[];
+}
+
+export interface ProposalItemOption {
+  code: string;
+  name: string;
+  price: string;
+  perParticipant: boolean;
+  amount: string;
+}
+
+/**
+ * Snapshot of a priced item, stored in Proposal.items
+ */
+export interface ProposalItemSnapshot {
+  clientProductId: string;
+  productId: string;
+  productName: string;
+  productType: ProductType;
+  description: string | null;
+  duration: number | null;
+  inclusions: string[];
+  exclusions: string[];
+  tour: {
+    id: string;
+    startDate: string;
+    endDate: string;
+  } | null;
+  participants: number;
+  currency: string;
+  unitPrice: string;
+  options: ProposalItemOption[];
+  total: string;
+}
+
+export type ProposalPricingErrorCode = 'UNKNOWN_OPTION' | 'CURRENCY_MISMATCH' | 'EMPTY_PROPOSAL';
+
+/**
+ * Error thrown when a proposal can't be priced
+ */
+export class ProposalPricingError extends Error {
+  constructor(
+    message: string,
+    public readonly code: ProposalPricingErrorCode
+  ) {
+    super(message);
+    this.name = 'ProposalPricingError';
+  }
+}
+
+/**
+ * Client statuses that are moved to PROPOSAL_SENT when a proposal is sent.
+ * Clients further down the funnel keep their status.
+ */
+export const PRE_PROPOSAL_STATUSES: readonly ClientStatus[] = ['NEW_LEAD', 'QUALIFIED', 'WARMED'];
+
+function toMinor(amount: string | number): number {
+  return Math.round(Number(amount) * 100);
+}
+
+function fromMinor(amount: number): string {
+  return (amount / 100).toFixed(2);
+}
+
+/**
+ * Price a single item: the tour price (or product base price) per participant
+ * plus picked options, charged per participant or once.
+ *
+ * @throws {ProposalPricingError} If an option code doesn't exist on the product
+ */
+export function priceProposalItem(input: ProposalItemInput): ProposalItemSnapshot {
+  const { product, tour, participants } = input;
+
+  const unitPrice = toMinor(tour?.price ?? product.basePrice);
+  const currency = tour?.price != null ? tour.currency : product.currency;
+
+  const options = [...new Set(input.optionCodes)].map((code) => {
+    const option = product.options.find((candidate) => candidate.code === code);
+
+    if (!option) {
+      throw new ProposalPricingError(`Unknown option "${code}" for product ${product.name}`, 'UNKNOWN_OPTION');
+    }
+
+    const price = toMinor(option.price);
+    const perParticipant = option.perParticipant ?? false;
+
+    return {
+      code: option.code,
+      name: option.name,
+      price,
+      perParticipant,
+      amount: perParticipant ? price * participants : price,
+    };
+  });
+
+  const total = unitPrice * participants + options.reduce((sum, option) => sum + option.amount, 0);
+
+  return {
+    clientProductId: input.clientProductId,
+    productId: product.id,
+    productName: product.name,
+    productType: product.type,
+    description: product.description,
+    duration: product.duration,
+    inclusions: product.inclusions,
+    exclusions: product.exclusions,
+    tour: tour
+      ? {
+          id: tour.id,
+          startDate: tour.startDate.toISOString(),
+          endDate: tour.endDate.toISOString(),
+        }
+      : null,
+    participants,
+    currency,
+    unitPrice: fromMinor(unitPrice),
+    options: options.map((option) => ({
+      code: option.code,
+      name: option.name,
+      price: fromMinor(option.price),
+      perParticipant: option.perParticipant,
+      amount: fromMinor(option.amount),
+    })),
+    total: fromMinor(total),
+  };
+}
+
+/**
+ * Sum priced items into the proposal total.
+ * All items must share one currency.
+ *
+ * @throws {ProposalPricingError} If there are no items or currencies differ
+ */
+export function summarizeProposal(items: ProposalItemSnapshot[]): { currency: string; totalAmount: string } {
+  if (items.length === 0) {
+    throw new ProposalPricingError('Proposal must contain at least one item', 'EMPTY_PROPOSAL');
+  }
+
+  const currency = items[0].currency;
+
+  if (items.some((item) => item.currency !== currency)) {
+    throw new ProposalPricingError('All proposal items must use the same currency', 'CURRENCY_MISMATCH');
+  }
+
+  const total = items.reduce((sum, item) => sum + toMinor(item.total), 0);
+
+  return { currency, totalAmount: fromMinor(total) };
+}
@@ -0,0 +1,84 @@
+/**
+ * Revenue Utilities
+ *
+ * Aggregation of booked revenue in the organization's reporting currency
+ */
+
+import { findRate, RateTable } from './currency';
+
+export interface RevenueEntry {
+  amount: string | number;
+  currency: string;
+  date: Date;
+}
+
+export interface RevenueSummary {
+  currency: string;
+  total: string;
+  bookings: number;
+  byCurrency: { currency: string; amount: string; bookings: number }[];
+  byMonth: { month: string; amount: string; bookings: number }[];
+  // Currencies without a rate to the reporting currency, left out of totals
+  unconvertedCurrencies: string[];
+}
+
+function toMinor(amount: string | number): number {
+  return Math.round(Number(amount) * 100);
+}
+
+function fromMinor(amount: number): string {
+  return (amount / 100).toFixed(2);
+}
+
+/**
+ * Sum revenue entries into totals in the reporting currency,
+ * per original currency and per month (YYYY-MM, UTC).
+ */
+export function summarizeRevenue(
+  entries: RevenueEntry[],
+  reportingCurrency: string,
+  rates: RateTable
+): RevenueSummary {
+  const byCurrency = new Map<string, { amount: number; bookings: number }>();
+  const byMonth = new Map<string, { amount: number; bookings: number }>();
+  const unconverted = new Set<string>();
+  let total = 0;
+  let bookings = 0;
+
+  for (const entry of entries) {
+    const original = byCurrency.get(entry.currency) ?? { amount: 0, bookings: 0 };
+    original.amount += toMinor(entry.amount);
+    original.bookings += 1;
+    byCurrency.set(entry.currency, original);
+
+    const rate = findRate(rates, entry.currency, reportingCurrency);
+
+    if (rate === null) {
+      unconverted.add(entry.currency);
+      continue;
+    }
+
+    const converted = Math.round(toMinor(entry.amount) * rate);
+    const month = entry.date.toISOString().slice(0, 7);
+    const monthly = byMonth.get(month) ?? { amount: 0, bookings: 0 };
+    monthly.amount += converted;
+    monthly.bookings += 1;
+    byMonth.set(month, monthly);
+
+    total += converted;
+    bookings += 1;
+  }
+
+  return {
+    currency: reportingCurrency,
+    total: fromMinor(total),
+    bookings,
+    byCurrency: [...byCurrency.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([currency, value]) => ({ currency, amount: fromMinor(value.amount), bookings: value.bookings })),
+    byMonth: [...byMonth.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([month, value]) => ({ month, amount: fromMinor(value.amount), bookings: value.bookings })),
+    unconvertedCurrencies: [...unconverted].sort(),
+  };
+}
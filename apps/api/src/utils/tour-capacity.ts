@@ -0,0 +1,155 @@
+/**
+ * Tour Capacity Utilities
+ *
+ * Functions for reserving and releasing seats on tour departures.
+ * Must be called inside a Prisma transaction so the seat counter
+ * and the client booking are committed together.
+ */
+
+import type { Prisma, TourStatus } from '@soul-kg-crm/database';
+
+export type TourCapacityErrorCode = 'TOUR_NOT_FOUND' | 'TOUR_NOT_BOOKABLE' | 'CAPACITY_EXCEEDED';
+
+/**
+ * Error thrown when seats can't be reserved on a tour
+ */
+export class TourCapacityError extends Error {
+  constructor(
+    message: string,
+    public readonly code: TourCapacityErrorCode
+  ) {
+    super(message);
+    this.name = 'TourCapacityError';
+  }
+}
+
+export interface TourSeats {
+  currentParticipants: number;
+  maxParticipants: number | null;
+  status: TourStatus;
+}
+
+/**
+ * Number of seats taken by a client tour (participants defaults to 1)
+ */
+export function getSeatCount(participants: number | null | undefined): number {
+  return participants && participants > 0 ? participants : 1;
+}
+
+/**
+ * Reserve seats on a tour.
+ *
+ * The increment is a conditional update, so concurrent bookings can't push
+ * currentParticipants over maxParticipants: the database re-checks the
+ * condition against the latest row version. The tour is flipped to FULL
+ * once it reaches capacity.
+ *
+ * @throws {TourCapacityError} If the tour doesn't exist, isn't AVAILABLE or has not enough free seats
+ */
+export async function reserveSeats(
+  tx: Prisma.TransactionClient,
+  tourId: string,
+  seats: number
+): Promise<TourSeats> {
+  const tour = await tx.tour.findUnique({
+    where: { id: tourId },
+    select: { status: true, maxParticipants: true, currentParticipants: true },
+  });
+
+  if (!tour) {
+    throw new TourCapacityError('Tour not found', 'TOUR_NOT_FOUND');
+  }
+
+  if (tour.status !== 'AVAILABLE') {
+    throw new TourCapacityError(`Tour is ${tour.status.toLowerCase()} and can't be booked`, 'TOUR_NOT_BOOKABLE');
+  }
+
+  const { maxParticipants } = tour;
+
+  if (maxParticipants !== null && seats > maxParticipants - tour.currentParticipants) {
+    throw new TourCapacityError(
+      `Not enough seats: ${Math.max(0, maxParticipants - tour.currentParticipants)} left`,
+      'CAPACITY_EXCEEDED'
+    );
+  }
+
+  // Capacity is matched against the value read above, so a concurrent
+  // capacity change makes the update miss instead of overbooking
+  const { count } = await tx.tour.updateMany({
+    where: {
+      id: tourId,
+      status: 'AVAILABLE',
+      maxParticipants,
+      ...(maxParticipants !== null && {
+        currentParticipants: { lte: maxParticipants - seats },
+      }),
+    },
+    data: {
+      currentParticipants: { increment: seats },
+    },
+  });
+
+  if (count === 0) {
+    throw new TourCapacityError('Not enough seats left on this tour', 'CAPACITY_EXCEEDED');
+  }
+
+  const updated = await tx.tour.findUniqueOrThrow({
+    where: { id: tourId },
+    select: { status: true, maxParticipants: true, currentParticipants: true },
+  });
+
+  if (updated.maxParticipants !== null && updated.currentParticipants >= updated.maxParticipants) {
+    return tx.tour.update({
+      where: { id: tourId },
+      data: { status: 'FULL' },
+      select: { status: true, maxParticipants: true, currentParticipants: true },
+    });
+  }
+
+  return updated;
+}
+
+/**
+ * Release previously reserved seats.
+ *
+ * A FULL tour becomes AVAILABLE again once seats are freed.
+ * Cancelled and completed tours keep their status.
+ */
+export async function releaseSeats(
+  tx: Prisma.TransactionClient,
+  tourId: string,
+  seats: number
+): Promise<TourSeats> {
+  const { count } = await tx.tour.updateMany({
+    where: { id: tourId, currentParticipants: { gte: seats } },
+    data: { currentParticipants: { decrement: seats } },
+  });
+
+  // Never go below zero, even if counters were edited by hand
+  if (count === 0) {
+    await tx.tour.updateMany({
+      where: { id: tourId },
+      data: { currentParticipants: 0 },
+    });
+  }
+
+  // The row is locked by the update above, so this read is consistent
+  const tour = await tx.tour.findUnique({
+    where: { id: tourId },
+    select: { status: true, maxParticipants: true, currentParticipants: true },
+  });
+
+  if (!tour) {
+    throw new TourCapacityError('Tour not found', 'TOUR_NOT_FOUND');
+  }
+
+  if (tour.status === 'FULL' && (tour.maxParticipants === null || tour.currentParticipants < tour.maxParticipants)) {
+    return tx.tour.update({
+      where: { id: tourId },
+      data: { status: 'AVAILABLE' },
+      select: { status: true, maxParticipants: true, currentParticipants: true },
+    });
+  }
+
+  return tour;
+}
@@ -0,0 +1,16 @@
+/**
+ * Analytics Page
+ * 
+ * Dialogue analysis findings over time (ADMIN only)
+ */
+
+import ProtectedRoute from '@/components/layout/ProtectedRoute';
+import DialogueAnalysisList from '@/components/features/analytics/DialogueAnalysisList';
+
+export default function AnalyticsPage() {
+  return (
+    <ProtectedRoute requireRole="ADMIN">
+      <DialogueAnalysisList />
+    </ProtectedRoute>
+  );
+}
@@ -0,0 +1,25 @@
+/**
+ * Experiments Page
+ * 
+ * A/B prompt experiments and their results (ADMIN only)
+ */
+
+'use client';
+
+import { useState } from 'react';
+import ProtectedRoute from '@/components/layout/ProtectedRoute';
+import ExperimentList from '@/components/features/experiments/ExperimentList';
+import ExperimentReport from '@/components/features/experiments/ExperimentReport';
+
+export default function ExperimentsPage() {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  return (
+    <ProtectedRoute requireRole="ADMIN">
+      <div className="space-y-6">
+        <ExperimentList selectedId={selectedId} onSelect={setSelectedId} />
+        {selectedId && <ExperimentReport experimentId={selectedId} />}
+      </div>
+    </ProtectedRoute>
+  );
+}
@@ -10,6 +10,7 @@ import { useState } from 'react';
 import ProtectedRoute from '@/components/layout/ProtectedRoute';
 import Header from '@/components/layout/Header';
 import Sidebar from '@/components/layout/Sidebar';
+import LlmBudgetBanner from '@/components/features/analytics/LlmBudgetBanner';
 
 export default function DashboardLayout({
   children,
@@ -26,6 +27,7 @@ export default function DashboardLayout({
           <Sidebar isOpen={sidebarOpen} onClose={() => setSidebarOpen(false)} />
           <main className="flex-1 md:ml-0 min-h-[calc(100vh-4rem)]">
             <div className="px-4 sm:px-6 lg:px-8 xl:px-10 py-4 sm:py-6 lg:py-8">
+              <LlmBudgetBanner />
               {children}
             </div>
           </main>
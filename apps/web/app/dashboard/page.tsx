@@ -11,6 +11,7 @@ import { useAuth } from '@/lib/contexts/auth-context';
 import { useClients } from '@/lib/hooks/useClients';
 import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/Card';
 import { useTranslations } from 'next-intl';
+import RevenueReport from '@/components/features/reports/RevenueReport';
 
 export default function DashboardPage() {
   const { user } = useAuth();
@@ -84,6 +85,9 @@ export default function DashboardPage() {
         </Card>
       </div>
 
+      {/* Booked revenue */}
+      <RevenueReport />
+
       {/* Quick Actions */}
       <Card>
         <CardHeader>
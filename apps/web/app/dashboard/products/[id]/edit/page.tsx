@@ -0,0 +1,18 @@
+/**
+ * Edit Product Page
+ * 
+ * Page for editing an existing catalog product (ADMIN only)
+ */
+
+import { use } from 'react';
+import ProtectedRoute from '@/components/layout/ProtectedRoute';
+import ProductForm from '@/components/features/products/ProductForm';
+
+export default function EditProductPage({ params }: { params: Promise<{ id: string }> }) {
+  const { id } = use(params);
+  return (
+    <ProtectedRoute requireRole="ADMIN">
+      <ProductForm productId={id} />
+    </ProtectedRoute>
+  );
+}
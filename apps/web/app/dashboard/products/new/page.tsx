@@ -0,0 +1,16 @@
+/**
+ * New Product Page
+ * 
+ * Page for creating a new catalog product (ADMIN only)
+ */
+
+import ProtectedRoute from '@/components/layout/ProtectedRoute';
+import ProductForm from '@/components/features/products/ProductForm';
+
+export default function NewProductPage() {
+  return (
+    <ProtectedRoute requireRole="ADMIN">
+      <ProductForm />
+    </ProtectedRoute>
+  );
+}
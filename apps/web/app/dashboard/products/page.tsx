@@ -0,0 +1,11 @@
+/**
+ * Products Page
+ * 
+ * Product catalog list page
+ */
+
+import ProductList from '@/components/features/products/ProductList';
+
+export default function ProductsPage() {
+  return <ProductList />;
+}
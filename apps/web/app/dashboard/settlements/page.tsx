@@ -0,0 +1,20 @@
+/**
+ * Settlements Page
+ * 
+ * Partner commission rules and settlement report (ADMIN only)
+ */
+
+import ProtectedRoute from '@/components/layout/ProtectedRoute';
+import SettlementReport from '@/components/features/settlements/SettlementReport';
+import PartnerCommissionSettings from '@/components/features/settlements/PartnerCommissionSettings';
+
+export default function SettlementsPage() {
+  return (
+    <ProtectedRoute requireRole="ADMIN">
+      <div className="space-y-6">
+        <SettlementReport />
+        <PartnerCommissionSettings />
+      </div>
+    </ProtectedRoute>
+  );
+}
@@ -0,0 +1,11 @@
+/**
+ * Tours Page
+ * 
+ * Calendar of tour departures
+ */
+
+import TourCalendar from '@/components/features/tours/TourCalendar';
+
+export default function ToursPage() {
+  return <TourCalendar />;
+}
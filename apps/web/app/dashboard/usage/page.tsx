@@ -0,0 +1,16 @@
+/**
+ * LLM Usage Page
+ * 
+ * LLM token usage and cost by day, agent and model (ADMIN only)
+ */
+
+import ProtectedRoute from '@/components/layout/ProtectedRoute';
+import LlmUsageReport from '@/components/features/analytics/LlmUsageReport';
+
+export default function UsagePage() {
+  return (
+    <ProtectedRoute requireRole="ADMIN">
+      <LlmUsageReport />
+    </ProtectedRoute>
+  );
+}
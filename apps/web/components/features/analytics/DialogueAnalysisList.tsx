@@ -0,0 +1,209 @@
+/**
+ * DialogueAnalysisList Component
+ *
+ * Findings of the scheduled dialogue analysis over time: success patterns,
+ * problem areas and recommendations with links to example conversations.
+ */
+
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useDialogueAnalyses } from '@/lib/hooks/useAnalytics';
+import { useExperiments } from '@/lib/hooks/useExperiments';
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/Card';
+import Button from '@/components/ui/Button';
+import Input from '@/components/ui/Input';
+import { DialogueAnalysisRun, DialogueFinding } from '@/types/analytics';
+import { useLocale, useTranslations } from 'next-intl';
+
+const SELECT_CLASS_NAME =
+  'flex h-10 w-full rounded-lg border border-input/50 bg-background/50 px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary-500';
+
+const PAGE_SIZE = 10;
+
+function formatDate(date: string, locale: string): string {
+  return new Intl.DateTimeFormat(locale === 'ru' ? 'ru-RU' : 'en-US', {
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+  }).format(new Date(date));
+}
+
+function FindingList({ title, findings }: { title: string; findings: DialogueFinding[] }) {
+  const t = useTranslations();
+
+  if (findings.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm font-semibold text-text-primary">{title}</p>
+      <ul className="space-y-2">
+        {findings.map((finding, index) => (
+          <li key={index} className="rounded-lg bg-background-subtle p-3 space-y-1">
+            <p className="text-sm font-medium text-text-primary">
+              {finding.title}
+              {finding.priority && (
+                <span className="ml-2 text-xs text-text-tertiary">
+                  {t(`analytics.priorities.${finding.priority}`)}
+                </span>
+              )}
+            </p>
+            {finding.description && <p className="text-sm text-text-secondary">{finding.description}</p>}
+            {finding.examples.length > 0 && (
+              <p className="text-xs text-text-tertiary">
+                {t('analytics.examples')}:{' '}
+                {finding.examples.map((example, exampleIndex) => (
+                  <span key={example.conversationId}>
+                    {exampleIndex > 0 && ', '}
+                    <Link href={`/dashboard/clients/${example.clientId}`} className="text-primary hover:underline">
+                      {example.clientName}
+                    </Link>
+                  </span>
+                ))}
+              </p>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+function AnalysisRunCard({ run }: { run: DialogueAnalysisRun }) {
+  const locale = useLocale();
+  const t = useTranslations();
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">
+          {run.createdAt ? formatDate(run.createdAt, locale) : '-'} ·{' '}
+          {run.promptVariant ? t('analytics.variant', { name: run.promptVariant.name }) : t('analytics.allDialogues')}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {run.metrics && (
+          <p className="text-sm text-text-secondary">
+            {t('analytics.metrics', {
+              won: run.metrics.wonCount,
+              lost: run.metrics.lostCount,
+              winRate: run.metrics.winRate !== null ? `${(run.metrics.winRate * 100).toFixed(1)}%` : '-',
+            })}{' '}
+            · {t('analytics.sample', { won: run.sample.won, lost: run.sample.lost })}
+          </p>
+        )}
+        <FindingList title={t('analytics.successPatterns')} findings={run.successPatterns} />
+        <FindingList title={t('analytics.problemAreas')} findings={run.problemAreas} />
+        <FindingList title={t('analytics.recommendations')} findings={run.recommendations} />
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function DialogueAnalysisList() {
+  const t = useTranslations();
+  const [page, setPage] = useState(1);
+  const [promptVariantId, setPromptVariantId] = useState('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+
+  const { data, isLoading, error } = useDialogueAnalyses({
+    page,
+    limit: PAGE_SIZE,
+    promptVariantId: promptVariantId || undefined,
+    from: from || undefined,
+    to: to || undefined,
+  });
+  const { data: experimentsData } = useExperiments();
+  const variants = (experimentsData?.data || []).flatMap((experiment) =>
+    experiment.variants.map((variant) => ({ ...variant, experimentName: experiment.name }))
+  );
+  const runs = data?.data || [];
+  const pagination = data?.pagination;
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-2xl">{t('analytics.title')}</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <p className="text-sm text-text-secondary">{t('analytics.helper')}</p>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 items-end">
+            <div>
+              <label className="block text-sm font-semibold text-text-primary mb-2">{t('analytics.variantFilter')}</label>
+              <select
+                value={promptVariantId}
+                onChange={(e) => {
+                  setPromptVariantId(e.target.value);
+                  setPage(1);
+                }}
+                className={SELECT_CLASS_NAME}
+              >
+                <option value="">{t('analytics.allRuns')}</option>
+                {variants.map((variant) => (
+                  <option key={variant.id} value={variant.id}>
+                    {variant.experimentName} · {variant.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <Input
+              label={t('analytics.from')}
+              type="date"
+              value={from}
+              onChange={(e) => {
+                setFrom(e.target.value);
+                setPage(1);
+              }}
+            />
+            <Input
+              label={t('analytics.to')}
+              type="date"
+              value={to}
+              onChange={(e) => {
+                setTo(e.target.value);
+                setPage(1);
+              }}
+            />
+          </div>
+        </CardContent>
+      </Card>
+
+      {isLoading && (
+        <div className="flex items-center justify-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary" />
+        </div>
+      )}
+
+      {error && <p className="text-sm text-error-600 dark:text-error-400">{t('analytics.failedToLoad')}</p>}
+
+      {!isLoading && !error && runs.length === 0 && (
+        <p className="text-sm text-text-tertiary">{t('analytics.noRuns')}</p>
+      )}
+
+      {runs.map((run) => (
+        <AnalysisRunCard key={run.runId} run={run} />
+      ))}
+
+      {pagination && pagination.totalPages > 1 && (
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" size="sm" onClick={() => setPage((p) => Math.max(1, p - 1))} disabled={page === 1}>
+            {t('clients.previous')}
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setPage((p) => Math.min(pagination.totalPages, p + 1))}
+            disabled={page === pagination.totalPages}
+          >
+            {t('clients.next')}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
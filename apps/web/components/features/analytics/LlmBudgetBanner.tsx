@@ -0,0 +1,45 @@
+/**
+ * LlmBudgetBanner Component
+ *
+ * Warning for admins when the organization approaches or exceeds its
+ * monthly LLM budget. Renders nothing while usage is below the warning level.
+ */
+
+'use client';
+
+import Link from 'next/link';
+import { AlertTriangle } from 'lucide-react';
+import { useAuth } from '@/lib/contexts/auth-context';
+import { useLlmBudget } from '@/lib/hooks/useAnalytics';
+import { cn } from '@/lib/utils';
+import { useTranslations } from 'next-intl';
+
+export default function LlmBudgetBanner() {
+  const t = useTranslations();
+  const { user } = useAuth();
+  const isAdmin = user?.role === 'ADMIN' || user?.role === 'SUPER_ADMIN';
+  const { data } = useLlmBudget(isAdmin);
+
+  if (!data || data.level === 'OK') {
+    return null;
+  }
+
+  return (
+    <div
+      className={cn(
+        'mb-6 flex items-start gap-3 rounded-lg border p-4 text-sm',
+        data.level === 'HARD_EXCEEDED'
+          ? 'border-error-500/50 bg-error-50 text-error-700 dark:bg-error-950/30 dark:text-error-400'
+          : 'border-warning-500/50 bg-warning-50 text-warning-700 dark:bg-warning-950/30 dark:text-warning-400'
+      )}
+    >
+      <AlertTriangle className="h-5 w-5 shrink-0" />
+      <p>
+        {t(`usage.budgetLevels.${data.level}`, { percent: data.percentUsed ?? 0 })}{' '}
+        <Link href="/dashboard/usage" className="font-medium underline">
+          {t('usage.viewUsage')}
+        </Link>
+      </p>
+    </div>
+  );
+}
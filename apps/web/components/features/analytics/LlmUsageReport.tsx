@@ -0,0 +1,194 @@
+/**
+ * LlmUsageReport Component
+ *
+ * LLM token usage and cost of the organization by day, agent and model.
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { useLlmUsage } from '@/lib/hooks/useAnalytics';
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/Card';
+import Input from '@/components/ui/Input';
+import { AgentType, LlmUsageTotals } from '@/types/analytics';
+import { useLocale, useTranslations } from 'next-intl';
+
+const SELECT_CLASS_NAME =
+  'flex h-10 w-full rounded-lg border border-input/50 bg-background/50 px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary-500';
+
+const AGENT_TYPES: AgentType[] = [
+  'COMMUNICATION',
+  'QUALIFICATION',
+  'PRODUCT_SELECTION',
+  'STATUS_DETECTION',
+  'WARMING',
+  'SALES',
+  'SERVICE',
+  'FEEDBACK',
+];
+
+function formatCost(cost: string, locale: string): string {
+  return new Intl.NumberFormat(locale === 'ru' ? 'ru-RU' : 'en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 4,
+  }).format(Number(cost));
+}
+
+function formatNumber(value: number, locale: string): string {
+  return new Intl.NumberFormat(locale === 'ru' ? 'ru-RU' : 'en-US').format(value);
+}
+
+function UsageTable({ title, rows }: { title: string; rows: ({ key: string; label: string } & LlmUsageTotals)[] }) {
+  const locale = useLocale();
+  const t = useTranslations();
+  const maxCost = Math.max(0, ...rows.map((row) => Number(row.cost)));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">{title}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {rows.length === 0 ? (
+          <p className="text-sm text-text-tertiary">{t('usage.noData')}</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-text-tertiary border-b border-border">
+                  <th className="py-2 pr-4 font-medium" />
+                  <th className="py-2 pr-4 font-medium text-right">{t('usage.calls')}</th>
+                  <th className="py-2 pr-4 font-medium text-right">{t('usage.promptTokens')}</th>
+                  <th className="py-2 pr-4 font-medium text-right">{t('usage.completionTokens')}</th>
+                  <th className="py-2 pr-4 font-medium text-right">{t('usage.latency')}</th>
+                  <th className="py-2 pr-4 font-medium">{t('usage.cost')}</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-border">
+                {rows.map((row) => (
+                  <tr key={row.key}>
+                    <td className="py-2 pr-4 text-text-primary">{row.label}</td>
+                    <td className="py-2 pr-4 text-right">{formatNumber(row.calls, locale)}</td>
+                    <td className="py-2 pr-4 text-right">{formatNumber(row.promptTokens, locale)}</td>
+                    <td className="py-2 pr-4 text-right">{formatNumber(row.completionTokens, locale)}</td>
+                    <td className="py-2 pr-4 text-right">{formatNumber(row.averageLatencyMs, locale)}</td>
+                    <td className="py-2 pr-4 min-w-40">
+                      <div className="flex items-center gap-2">
+                        <div className="h-2 flex-1 rounded-full bg-background-subtle">
+                          <div
+                            className="h-2 rounded-full bg-primary-500"
+                            style={{ width: maxCost > 0 ? `${(Number(row.cost) / maxCost) * 100}%` : '0%' }}
+                          />
+                        </div>
+                        <span className="whitespace-nowrap">
+                          {formatCost(row.cost, locale)}
+                          {row.unpricedCalls > 0 && '*'}
+                        </span>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function LlmUsageReport() {
+  const locale = useLocale();
+  const t = useTranslations();
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [agentType, setAgentType] = useState('');
+
+  const { data, isLoading, error } = useLlmUsage({
+    from: from || undefined,
+    to: to || undefined,
+    agentType: (agentType || undefined) as AgentType | undefined,
+  });
+
+  const agentLabel = (type: AgentType | null) => (type ? t(`usage.agents.${type}`) : t('usage.noAgent'));
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-2xl">{t('usage.title')}</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <p className="text-sm text-text-secondary">{t('usage.helper')}</p>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 items-end">
+            <div>
+              <label className="block text-sm font-semibold text-text-primary mb-2">{t('usage.agentFilter')}</label>
+              <select value={agentType} onChange={(e) => setAgentType(e.target.value)} className={SELECT_CLASS_NAME}>
+                <option value="">{t('usage.allAgents')}</option>
+                {AGENT_TYPES.map((type) => (
+                  <option key={type} value={type}>
+                    {agentLabel(type)}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <Input label={t('usage.from')} type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+            <Input label={t('usage.to')} type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+          </div>
+        </CardContent>
+      </Card>
+
+      {isLoading && (
+        <div className="flex items-center justify-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary" />
+        </div>
+      )}
+
+      {error && <p className="text-sm text-error-600 dark:text-error-400">{t('usage.failedToLoad')}</p>}
+
+      {data && (
+        <>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <Card>
+              <CardContent className="pt-6">
+                <p className="text-sm text-text-tertiary">{t('usage.totalCost')}</p>
+                <p className="text-2xl font-bold text-text-primary">{formatCost(data.totals.cost, locale)}</p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="pt-6">
+                <p className="text-sm text-text-tertiary">{t('usage.totalTokens')}</p>
+                <p className="text-2xl font-bold text-text-primary">{formatNumber(data.totals.totalTokens, locale)}</p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="pt-6">
+                <p className="text-sm text-text-tertiary">{t('usage.calls')}</p>
+                <p className="text-2xl font-bold text-text-primary">{formatNumber(data.totals.calls, locale)}</p>
+              </CardContent>
+            </Card>
+          </div>
+
+          {data.totals.unpricedCalls > 0 && (
+            <p className="text-xs text-text-tertiary">{t('usage.unpriced', { count: data.totals.unpricedCalls })}</p>
+          )}
+
+          <UsageTable
+            title={t('usage.byAgent')}
+            rows={data.byAgent.map((row) => ({ ...row, key: row.agentType ?? 'none', label: agentLabel(row.agentType) }))}
+          />
+          <UsageTable
+            title={t('usage.byModel')}
+            rows={data.byModel.map((row) => ({ ...row, key: row.model, label: row.model }))}
+          />
+          <UsageTable
+            title={t('usage.byDay')}
+            rows={data.byDay.map((row) => ({ ...row, key: row.date, label: row.date }))}
+          />
+        </>
+      )}
+    </div>
+  );
+}
@@ -14,12 +14,13 @@ import { useClient, useUpdateClientStatus } from '@/lib/hooks/useClients';
 import { ClientStatus } from '@/types/client';
 import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/Card';
 import Button from '@/components/ui/Button';
-import { ArrowLeft, Phone, Mail, User, Calendar, Edit, MessageSquare, Clock, Package } from 'lucide-react';
+import { ArrowLeft, Phone, Mail, User, Calendar, Edit, MessageSquare, Clock, Package, FileText } from 'lucide-react';
 import { formatPhone, formatDate } from '@/lib/utils';
 import { cn } from '@/lib/utils';
 import { useToast } from '@/components/ui/use-toast';
 import QuickActionsPanel from './QuickActionsPanel';
 import NotesEditor from './NotesEditor';
+import TripRequirementsCard from './TripRequirementsCard';
 import { useTranslations, useLocale } from 'next-intl';
 
 // Lazy load tab components for better performance
@@ -39,6 +40,14 @@ const ProductsList = dynamic(() => import('./ProductsList'), {
   ),
 });
 
+const ProposalsPanel = dynamic(() => import('./ProposalsPanel'), {
+  loading: () => (
+    <div className="flex items-center justify-center py-16">
+      <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary" />
+    </div>
+  ),
+});
+
 const StatusTimeline = dynamic(() => import('./StatusTimeline'), {
   loading: () => (
     <div className="flex items-center justify-center py-16">
@@ -73,7 +82,7 @@ function ClientDetailContent({ clientId }: ClientDetailProps) {
   const { data: client, isLoading, error } = useClient(clientId);
   const updateStatusMutation = useUpdateClientStatus();
   const [selectedStatus, setSelectedStatus] = useState<ClientStatus | ''>('');
-  const [activeTab, setActiveTab] = useState<'overview' | 'conversations' | 'products' | 'history'>('overview');
+  const [activeTab, setActiveTab] = useState<'overview' | 'conversations' | 'products' | 'proposals' | 'history'>('overview');
 
   // Create STATUS_LABELS dynamically using translations
   const STATUS_LABELS: Record<ClientStatus, string> = {
@@ -217,6 +226,18 @@ function ClientDetailContent({ clientId }: ClientDetailProps) {
             <Package className="h-3 w-3 sm:h-4 sm:w-4" />
             {t('clients.products')}
           </button>
+          <button
+            onClick={() => setActiveTab('proposals')}
+            className={cn(
+              'px-3 sm:px-4 py-2 sm:py-3 text-xs sm:text-sm font-medium border-b-2 transition-colors flex items-center gap-1 sm:gap-2 whitespace-nowrap',
+              activeTab === 'proposals'
+                ? 'border-primary text-primary-600 dark:text-primary-400'
+                : 'border-transparent text-text-tertiary hover:text-text-primary hover:border-border'
+            )}
+          >
+            <FileText className="h-3 w-3 sm:h-4 sm:w-4" />
+            {t('clients.proposals')}
+          </button>
           <button
             onClick={() => setActiveTab('history')}
             className={cn(
@@ -277,6 +298,8 @@ function ClientDetailContent({ clientId }: ClientDetailProps) {
               </CardContent>
             </Card>
 
+            <TripRequirementsCard clientId={clientId} />
+
             {/* Status History */}
             <Card>
               <CardHeader>
@@ -382,6 +405,18 @@ function ClientDetailContent({ clientId }: ClientDetailProps) {
         </Suspense>
       )}
 
+      {activeTab === 'proposals' && (
+        <Suspense
+          fallback={
+            <div className="flex items-center justify-center py-16">
+              <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary" />
+            </div>
+          }
+        >
+          <ProposalsPanel clientId={clientId} />
+        </Suspense>
+      )}
+
       {activeTab === 'history' && (
         <Suspense
           fallback={
@@ -12,6 +12,7 @@ import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { useClient, useCreateClient, useUpdateClient } from '@/lib/hooks/useClients';
 import { ClientStatus } from '@/types/client';
+import { CURRENCIES } from '@/types/exchange-rate';
 import { Card, CardHeader, CardTitle, CardContent, CardFooter } from '@/components/ui/Card';
 import Button from '@/components/ui/Button';
 import Input from '@/components/ui/Input';
@@ -37,6 +38,7 @@ const createClientSchema = (t: (key: string) => string) => z.object({
     'CLOSED',
   ]).optional(),
   preferredLanguage: z.string().optional(),
+  preferredCurrency: z.enum(['USD', 'KGS', 'EUR', 'AED', 'RUB']).optional().or(z.literal('')),
 });
 
 type ClientFormData = z.infer<ReturnType<typeof createClientSchema>>;
@@ -68,6 +70,7 @@ export default function ClientForm({ clientId }: ClientFormProps) {
           lastName: client.lastName || '',
           status: client.status,
           preferredLanguage: client.preferredLanguage || '',
+          preferredCurrency: client.preferredCurrency || '',
         }
       : {
           status: 'NEW_LEAD',
@@ -85,6 +88,7 @@ export default function ClientForm({ clientId }: ClientFormProps) {
             lastName: data.lastName || undefined,
             status: data.status,
             preferredLanguage: data.preferredLanguage || undefined,
+            preferredCurrency: data.preferredCurrency || null,
           },
         });
       } else {
@@ -95,6 +99,7 @@ export default function ClientForm({ clientId }: ClientFormProps) {
           lastName: data.lastName || undefined,
           status: data.status,
           preferredLanguage: data.preferredLanguage || undefined,
+          preferredCurrency: data.preferredCurrency || undefined,
         });
       }
       toast({
@@ -201,6 +206,23 @@ export default function ClientForm({ clientId }: ClientFormProps) {
               error={errors.preferredLanguage?.message}
               helperText="Language code (e.g., en, ru, kg)"
             />
+
+            <div>
+              <label className="block text-sm font-semibold text-text-primary mb-3">
+                {t('clients.preferredCurrency')}
+              </label>
+              <select
+                {...register('preferredCurrency')}
+                className="w-full px-3 py-2 border border-border rounded-lg bg-background text-text-primary focus:outline-none focus:ring-2 focus:ring-primary"
+              >
+                <option value="">{t('clients.noPreferredCurrency')}</option>
+                {CURRENCIES.map((currency) => (
+                  <option key={currency} value={currency}>
+                    {currency}
+                  </option>
+                ))}
+              </select>
+            </div>
           </CardContent>
           <CardFooter>
             <div className="flex gap-6 w-full">
@@ -0,0 +1,376 @@
+/**
+ * ClientToursPanel Component
+ *
+ * Tour departures of a client and their booking workflow:
+ * INTERESTED → PROPOSED → SELECTED → BOOKED → CONFIRMED, or CANCELLED.
+ * Booking reserves seats on the tour, cancelling releases them.
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { useAddClientTour, useUpdateClientTourStatus } from '@/lib/hooks/useClients';
+import { useTours } from '@/lib/hooks/useTours';
+import { Card, CardContent } from '@/components/ui/Card';
+import Button from '@/components/ui/Button';
+import Input from '@/components/ui/Input';
+import { ClientTour, ClientTourStatus } from '@/types/client';
+import { cn, formatDate } from '@/lib/utils';
+import { useToast } from '@/components/ui/use-toast';
+import { Calendar, MessageSquare, Plus, X } from 'lucide-react';
+import { useLocale, useTranslations } from 'next-intl';
+import DocumentActions from './DocumentActions';
+import PartnerFeedbackForm from './PartnerFeedbackForm';
+
+interface ClientToursPanelProps {
+  clientId: string;
+  tours: ClientTour[];
+}
+
+const STATUS_COLORS: Record<ClientTourStatus, string> = {
+  INTERESTED: 'bg-info-100 text-info-800 dark:bg-info-900 dark:text-info-300',
+  PROPOSED: 'bg-warning-100 text-warning-800 dark:bg-warning-900 dark:text-warning-300',
+  SELECTED: 'bg-success-100 text-success-800 dark:bg-success-900 dark:text-success-300',
+  BOOKED: 'bg-primary-100 text-primary-800 dark:bg-primary-900 dark:text-primary-300',
+  CONFIRMED: 'bg-secondary-100 text-secondary-800 dark:bg-secondary-900 dark:text-secondary-300',
+  CANCELLED: 'bg-error-100 text-error-800 dark:bg-error-900 dark:text-error-300',
+};
+
+const INITIAL_STATUSES = ['INTERESTED', 'PROPOSED', 'SELECTED'] as const;
+
+export default function ClientToursPanel({ clientId, tours }: ClientToursPanelProps) {
+  const { toast } = useToast();
+  const locale = useLocale();
+  const t = useTranslations();
+  const addTourMutation = useAddClientTour();
+  const updateStatusMutation = useUpdateClientTourStatus();
+
+  const [showAddForm, setShowAddForm] = useState(false);
+  const [tourId, setTourId] = useState('');
+  const [status, setStatus] = useState<(typeof INITIAL_STATUSES)[number]>('INTERESTED');
+  const [participants, setParticipants] = useState('1');
+  const [notes, setNotes] = useState('');
+  const [markClientSold, setMarkClientSold] = useState(false);
+  const [pendingTourId, setPendingTourId] = useState<string | null>(null);
+  const [feedbackTourId, setFeedbackTourId] = useState<string | null>(null);
+
+  // Upcoming departures that still take bookings
+  const [today] = useState(() => new Date().toISOString());
+  const { data: departuresData, isLoading: isLoadingDepartures } = useTours(
+    { status: 'AVAILABLE', from: today, limit: 100 },
+    { enabled: showAddForm }
+  );
+  const addedTourIds = new Set(tours.map((tour) => tour.tourId));
+  const departures = (departuresData?.data || []).filter((departure) => !addedTourIds.has(departure.id));
+
+  const resetForm = () => {
+    setShowAddForm(false);
+    setTourId('');
+    setStatus('INTERESTED');
+    setParticipants('1');
+    setNotes('');
+  };
+
+  const handleAddTour = async () => {
+    if (!tourId) {
+      toast({
+        title: t('common.error'),
+        description: t('products.tours.selectTour'),
+        variant: 'error',
+      });
+      return;
+    }
+
+    const participantsCount = Number(participants);
+    if (!Number.isInteger(participantsCount) || participantsCount < 1) {
+      toast({
+        title: t('common.error'),
+        description: t('products.tours.invalidParticipants'),
+        variant: 'error',
+      });
+      return;
+    }
+
+    try {
+      await addTourMutation.mutateAsync({
+        clientId,
+        data: {
+          tourId,
+          status,
+          participants: participantsCount,
+          notes: notes.trim() || undefined,
+        },
+      });
+
+      toast({
+        title: t('common.success'),
+        description: t('products.tours.tourAdded'),
+        variant: 'success',
+      });
+      resetForm();
+    } catch (error: any) {
+      toast({
+        title: t('common.error'),
+        description: error.response?.data?.error || t('products.tours.failedToAddTour'),
+        variant: 'error',
+      });
+    }
+  };
+
+  const handleChangeStatus = async (tour: ClientTour, nextStatus: ClientTourStatus) => {
+    if (nextStatus === 'CANCELLED' && !confirm(t('products.tours.confirmCancel'))) {
+      return;
+    }
+
+    const isBooking = nextStatus === 'BOOKED' || nextStatus === 'CONFIRMED';
+
+    try {
+      setPendingTourId(tour.id);
+      const result = await updateStatusMutation.mutateAsync({
+        clientId,
+        clientTourId: tour.id,
+        data: {
+          status: nextStatus,
+          markClientSold: isBooking && markClientSold,
+        },
+      });
+
+      toast({
+        title: t('common.success'),
+        description:
+          isBooking && markClientSold && result.clientStatus === 'SOLD'
+            ? t('products.tours.statusUpdatedClientSold')
+            : t('products.tours.statusUpdated'),
+        variant: 'success',
+      });
+    } catch (error: any) {
+      toast({
+        title: t('common.error'),
+        description: error.response?.data?.error || t('products.tours.failedToUpdateStatus'),
+        variant: 'error',
+      });
+    } finally {
+      setPendingTourId(null);
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-3 sm:gap-4 mb-4">
+        <h3 className="text-lg font-semibold text-text-primary flex items-center gap-2">
+          <Calendar className="h-5 w-5" />
+          {t('products.tours.title', { count: tours.length })}
+        </h3>
+        {!showAddForm && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setShowAddForm(true)}
+            className="w-full sm:w-auto"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            {t('products.tours.addTour')}
+          </Button>
+        )}
+      </div>
+
+      {/* Add Tour Form */}
+      {showAddForm && (
+        <Card className="mb-4">
+          <CardContent className="pt-6">
+            <div className="space-y-4">
+              <div className="flex items-center justify-between">
+                <h4 className="font-medium text-text-primary">{t('products.tours.addTour')}</h4>
+                <Button variant="ghost" size="sm" onClick={resetForm}>
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-text-secondary mb-2">
+                  {t('products.tours.departure')}
+                </label>
+                <select
+                  value={tourId}
+                  onChange={(e) => setTourId(e.target.value)}
+                  disabled={isLoadingDepartures}
+                  className="flex h-10 w-full rounded-lg border border-input/50 bg-background/50 px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary-500"
+                >
+                  <option value="">
+                    {isLoadingDepartures
+                      ? t('products.tours.loadingDepartures')
+                      : departures.length === 0
+                        ? t('products.tours.noDepartures')
+                        : t('products.tours.selectDeparture')}
+                  </option>
+                  {departures.map((departure) => (
+                    <option key={departure.id} value={departure.id}>
+                      {departure.product.name} · {formatDate(departure.startDate, locale)} -{' '}
+                      {formatDate(departure.endDate, locale)}
+                      {departure.availableSeats !== null
+                        ? ` · ${t('products.tours.seatsLeft', { count: departure.availableSeats })}`
+                        : ''}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className="grid gap-4 sm:grid-cols-2">
+                <Input
+                  label={t('products.tours.participants')}
+                  type="number"
+                  min={1}
+                  value={participants}
+                  onChange={(e) => setParticipants(e.target.value)}
+                />
+                <div>
+                  <label className="block text-sm font-medium text-text-secondary mb-2">
+                    {t('products.status')}
+                  </label>
+                  <select
+                    value={status}
+                    onChange={(e) => setStatus(e.target.value as (typeof INITIAL_STATUSES)[number])}
+                    className="flex h-10 w-full rounded-lg border border-input/50 bg-background/50 px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary-500"
+                  >
+                    {INITIAL_STATUSES.map((value) => (
+                      <option key={value} value={value}>
+                        {t(`products.tours.statusLabels.${value}`)}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+              <Input
+                label={t('products.notesOptional')}
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                placeholder={t('products.tours.notesPlaceholder')}
+              />
+              <div className="flex gap-2">
+                <Button onClick={handleAddTour} disabled={addTourMutation.isPending}>
+                  {addTourMutation.isPending ? t('products.adding') : t('products.tours.addTour')}
+                </Button>
+                <Button variant="outline" onClick={resetForm}>
+                  {t('products.cancel')}
+                </Button>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {tours.length === 0 ? (
+        <Card>
+          <CardContent>
+            <div className="text-center py-12">
+              <Calendar className="h-12 w-12 mx-auto mb-4 text-text-tertiary" />
+              <p className="text-text-secondary mb-2">{t('products.tours.noTours')}</p>
+              <p className="text-sm text-text-tertiary">
+                {t('products.tours.noToursDescription')}
+              </p>
+            </div>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-3 sm:space-y-4">
+          <label className="flex items-center gap-2 text-sm text-text-secondary">
+            <input
+              type="checkbox"
+              checked={markClientSold}
+              onChange={(e) => setMarkClientSold(e.target.checked)}
+              className="h-4 w-4 text-primary focus:ring-primary border-border rounded"
+            />
+            {t('products.tours.markClientSold')}
+          </label>
+          <div className="grid gap-3 sm:gap-4">
+            {tours.map((tour) => (
+              <Card key={tour.id}>
+                <CardContent className="pt-6">
+                  <div className="flex flex-col gap-3">
+                    <div className="flex-1 min-w-0">
+                      <div className="flex flex-wrap items-center gap-2 mb-2">
+                        <h4 className="font-semibold text-text-primary">
+                          {tour.tour.product.name}
+                        </h4>
+                        <span
+                          className={cn('px-2 py-1 rounded text-xs font-medium', STATUS_COLORS[tour.status])}
+                        >
+                          {t(`products.tours.statusLabels.${tour.status}`)}
+                        </span>
+                      </div>
+                      <div className="flex flex-wrap gap-4 text-sm text-text-tertiary mb-2">
+                        <span>
+                          {formatDate(tour.tour.startDate, locale)} - {formatDate(tour.tour.endDate, locale)}
+                        </span>
+                        {tour.tour.price && (
+                          <span>
+                            {t('products.price')}: {tour.tour.price} {tour.tour.currency}
+                          </span>
+                        )}
+                        {tour.participants && (
+                          <span>{t('products.tours.participants')}: {tour.participants}</span>
+                        )}
+                        <span>
+                          {t('products.tours.seats')}: {tour.tour.currentParticipants}
+                          {tour.tour.maxParticipants !== null ? ` / ${tour.tour.maxParticipants}` : ''}
+                        </span>
+                        <span>
+                          {t('products.tours.status')}: {t(`products.tours.tourStatusLabels.${tour.tour.status}`)}
+                        </span>
+                      </div>
+                      {tour.notes && (
+                        <p className="text-sm text-text-secondary mt-2 italic">
+                          {t('products.note')}: {tour.notes}
+                        </p>
+                      )}
+                    </div>
+                    {(tour.status === 'BOOKED' || tour.status === 'CONFIRMED') && (
+                      <div className="flex flex-wrap items-center gap-2">
+                        <span className="text-sm text-text-secondary">{t('documents.bookingConfirmation')}:</span>
+                        <DocumentActions
+                          kind="booking"
+                          id={tour.id}
+                          filename={`booking-${tour.id.replace(/-/g, '').slice(0, 8).toUpperCase()}.pdf`}
+                        />
+                        {tour.partner && feedbackTourId !== tour.id && (
+                          <Button variant="ghost" size="sm" onClick={() => setFeedbackTourId(tour.id)}>
+                            <MessageSquare className="h-4 w-4 mr-2" />
+                            {t('partnerFeedback.leaveFeedback')}
+                          </Button>
+                        )}
+                      </div>
+                    )}
+                    {tour.partner && feedbackTourId === tour.id && (
+                      <PartnerFeedbackForm
+                        clientTourId={tour.id}
+                        partner={tour.partner}
+                        onClose={() => setFeedbackTourId(null)}
+                      />
+                    )}
+                    {tour.nextStatuses.length > 0 && (
+                      <div className="flex flex-wrap gap-2">
+                        {tour.nextStatuses.map((nextStatus) => (
+                          <Button
+                            key={nextStatus}
+                            variant={nextStatus === 'CANCELLED' ? 'outline' : 'secondary'}
+                            size="sm"
+                            onClick={() => handleChangeStatus(tour, nextStatus)}
+                            disabled={pendingTourId === tour.id}
+                            className={cn(
+                              nextStatus === 'CANCELLED' &&
+                                'text-error-600 hover:text-error-700 hover:bg-error-50 dark:hover:bg-error-900/20'
+                            )}
+                          >
+                            {t(`products.tours.actions.${nextStatus}`)}
+                          </Button>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
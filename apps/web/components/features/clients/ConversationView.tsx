@@ -3,6 +3,7 @@
  * 
  * Displays conversation history for a client with messages in chronological order.
  * Supports filtering by channel and searching messages.
+ * Reply drafts from the COMMUNICATION agent are shown below the messages.
  */
 
 'use client';
@@ -11,6 +12,7 @@ import { useState, useMemo } from 'react';
 import { useClientMessages, useClientConversations } from '@/lib/hooks/useClients';
 import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/Card';
 import Button from '@/components/ui/Button';
+import ReplyDraftPanel from './ReplyDraftPanel';
 import { Message, CommunicationChannel } from '@/types/client';
 import { cn } from '@/lib/utils';
 import { formatDate } from '@/lib/utils';
@@ -81,6 +83,16 @@ export default function ConversationView({ clientId }: ConversationViewProps) {
     return Array.from(channels);
   }, [conversationsData]);
 
+  // Drafts reply to the most recent conversation (in the selected channel)
+  const draftConversationId = useMemo(() => {
+    const conversations = conversationsData?.data || [];
+    const conversation =
+      selectedChannel === 'ALL'
+        ? conversations[0]
+        : conversations.find((conv) => conv.channel === selectedChannel);
+    return conversation && conversation.messageCount > 0 ? conversation.id : null;
+  }, [conversationsData, selectedChannel]);
+
   const isLoading = conversationsLoading || messagesLoading;
   const hasMessages = filteredMessages.length > 0;
   const totalMessages = messagesData?.pagination.total || 0;
@@ -158,6 +170,9 @@ export default function ConversationView({ clientId }: ConversationViewProps) {
                   <MessageBubble key={message.id} message={message} channelLabels={CHANNEL_LABELS} />
                 ))}
               </div>
+              {draftConversationId && (
+                <ReplyDraftPanel clientId={clientId} conversationId={draftConversationId} />
+              )}
             </div>
           ) : (
             <div className="text-center py-12 text-text-tertiary">
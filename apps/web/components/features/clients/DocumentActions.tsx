@@ -0,0 +1,69 @@
+/**
+ * DocumentActions Component
+ *
+ * View/download buttons for client-facing documents:
+ * proposals and booking confirmations, rendered by the server
+ * in the client's preferred language.
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { documentsApi } from '@/lib/api/documents';
+import Button from '@/components/ui/Button';
+import { downloadBlob, openBlob } from '@/lib/utils';
+import { useToast } from '@/components/ui/use-toast';
+import { Download, ExternalLink } from 'lucide-react';
+import { useTranslations } from 'next-intl';
+
+interface DocumentActionsProps {
+  kind: 'proposal' | 'booking';
+  id: string;
+  filename: string;
+}
+
+export default function DocumentActions({ kind, id, filename }: DocumentActionsProps) {
+  const { toast } = useToast();
+  const t = useTranslations();
+  const [pending, setPending] = useState<'html' | 'pdf' | null>(null);
+
+  const handleOpen = async (format: 'html' | 'pdf') => {
+    try {
+      setPending(format);
+      if (format === 'html') {
+        const blob =
+          kind === 'proposal'
+            ? await documentsApi.getProposalHtml(id)
+            : await documentsApi.getBookingConfirmationHtml(id);
+        openBlob(blob);
+      } else {
+        const blob =
+          kind === 'proposal'
+            ? await documentsApi.getProposalPdf(id)
+            : await documentsApi.getBookingConfirmationPdf(id);
+        downloadBlob(blob, filename);
+      }
+    } catch {
+      toast({
+        title: t('common.error'),
+        description: t('documents.failedToRender'),
+        variant: 'error',
+      });
+    } finally {
+      setPending(null);
+    }
+  };
+
+  return (
+    <div className="flex gap-2">
+      <Button variant="outline" size="sm" onClick={() => handleOpen('html')} disabled={pending !== null}>
+        <ExternalLink className="h-4 w-4 mr-2" />
+        {t('documents.view')}
+      </Button>
+      <Button variant="outline" size="sm" onClick={() => handleOpen('pdf')} disabled={pending !== null}>
+        <Download className="h-4 w-4 mr-2" />
+        {pending === 'pdf' ? t('documents.preparing') : t('documents.downloadPdf')}
+      </Button>
+    </div>
+  );
+}
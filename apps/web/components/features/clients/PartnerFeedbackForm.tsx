@@ -0,0 +1,107 @@
+/**
+ * PartnerFeedbackForm Component
+ *
+ * Record client feedback (or an incident) on the partner serving
+ * a booked tour. The partner's rating is recomputed on save.
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { useCreatePartnerFeedback } from '@/lib/hooks/usePartners';
+import Button from '@/components/ui/Button';
+import Input from '@/components/ui/Input';
+import { useToast } from '@/components/ui/use-toast';
+import { useTranslations } from 'next-intl';
+
+interface PartnerFeedbackFormProps {
+  clientTourId: string;
+  partner: {
+    id: string;
+    name: string;
+  };
+  onClose: () => void;
+}
+
+const SCORES = [5, 4, 3, 2, 1];
+
+export default function PartnerFeedbackForm({ clientTourId, partner, onClose }: PartnerFeedbackFormProps) {
+  const { toast } = useToast();
+  const t = useTranslations();
+  const createFeedbackMutation = useCreatePartnerFeedback();
+
+  const [score, setScore] = useState(5);
+  const [comment, setComment] = useState('');
+  const [isIncident, setIsIncident] = useState(false);
+
+  const handleSubmit = async () => {
+    try {
+      const result = await createFeedbackMutation.mutateAsync({
+        id: partner.id,
+        data: {
+          clientTourId,
+          score,
+          comment: comment.trim() || undefined,
+          isIncident,
+        },
+      });
+      toast({
+        title: t('common.success'),
+        description: t('partnerFeedback.saved', { rating: result.rating ?? '-' }),
+        variant: 'success',
+      });
+      onClose();
+    } catch (error: any) {
+      toast({
+        title: t('common.error'),
+        description: error.response?.data?.error || t('partnerFeedback.failedToSave'),
+        variant: 'error',
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-3 p-3 sm:p-4 border border-border rounded-lg bg-surface">
+      <p className="text-sm font-semibold text-text-primary">
+        {t('partnerFeedback.title', { partner: partner.name })}
+      </p>
+      <div>
+        <label className="block text-sm font-semibold text-text-primary mb-2">{t('partnerFeedback.score')}</label>
+        <select
+          value={score}
+          onChange={(e) => setScore(Number(e.target.value))}
+          className="flex h-10 w-full rounded-lg border border-input/50 bg-background/50 px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary-500"
+        >
+          {SCORES.map((value) => (
+            <option key={value} value={value}>
+              {t(`partnerFeedback.scores.${value}`)}
+            </option>
+          ))}
+        </select>
+      </div>
+      <Input
+        label={t('partnerFeedback.comment')}
+        value={comment}
+        onChange={(e) => setComment(e.target.value)}
+        placeholder={t('partnerFeedback.commentPlaceholder')}
+      />
+      <label className="flex items-center gap-2 text-sm text-text-secondary">
+        <input
+          type="checkbox"
+          checked={isIncident}
+          onChange={(e) => setIsIncident(e.target.checked)}
+          className="h-4 w-4 text-primary focus:ring-primary border-border rounded"
+        />
+        {t('partnerFeedback.incident')}
+      </label>
+      <div className="flex gap-2">
+        <Button size="sm" onClick={handleSubmit} disabled={createFeedbackMutation.isPending}>
+          {createFeedbackMutation.isPending ? t('partnerFeedback.saving') : t('partnerFeedback.submit')}
+        </Button>
+        <Button size="sm" variant="outline" onClick={onClose}>
+          {t('products.cancel')}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,187 @@
+/**
+ * ProductSuggestions Component
+ *
+ * Catalog products and departures suggested for a client by the
+ * PRODUCT_SELECTION agent, with a match score and explanation.
+ * Accepting a suggestion adds the product to the client as interested.
+ */
+
+'use client';
+
+import {
+  useProductRecommendations,
+  useRecommendProducts,
+  useAcceptProductRecommendation,
+  useDismissProductRecommendation,
+} from '@/lib/hooks/useClients';
+import { Card, CardContent } from '@/components/ui/Card';
+import Button from '@/components/ui/Button';
+import { useToast } from '@/components/ui/use-toast';
+import { ProductRecommendation } from '@/types/client';
+import { formatDate } from '@/lib/utils';
+import { Sparkles, Plus, X } from 'lucide-react';
+import { useLocale, useTranslations } from 'next-intl';
+
+interface ProductSuggestionsProps {
+  clientId: string;
+}
+
+export default function ProductSuggestions({ clientId }: ProductSuggestionsProps) {
+  const t = useTranslations();
+  const { toast } = useToast();
+
+  const { data } = useProductRecommendations(clientId);
+  const recommendMutation = useRecommendProducts();
+  const recommendations = data?.data || [];
+
+  const handleRecommend = async () => {
+    try {
+      const result = await recommendMutation.mutateAsync(clientId);
+      if (result.data.length === 0) {
+        toast({
+          title: t('products.suggestions.title'),
+          description: t('products.suggestions.noMatches'),
+        });
+      }
+    } catch (error: any) {
+      toast({
+        title: t('common.error'),
+        description: error.response?.data?.error || t('products.suggestions.failedToSuggest'),
+        variant: 'error',
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-3 p-3 sm:p-4 rounded-lg border border-dashed border-primary-200 dark:border-primary-800">
+      <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-3">
+        <div className="flex items-center gap-2 text-sm font-medium text-text-primary">
+          <Sparkles className="h-4 w-4 text-primary" />
+          {t('products.suggestions.title')}
+        </div>
+        <Button
+          variant={recommendations.length > 0 ? 'outline' : 'default'}
+          size="sm"
+          onClick={handleRecommend}
+          isLoading={recommendMutation.isPending}
+          className="w-full sm:w-auto text-xs sm:text-sm"
+        >
+          <Sparkles className="h-4 w-4" />
+          {recommendations.length > 0 ? t('products.suggestions.refresh') : t('products.suggestions.suggest')}
+        </Button>
+      </div>
+
+      {recommendations.length === 0 ? (
+        <p className="text-xs sm:text-sm text-text-tertiary">{t('products.suggestions.description')}</p>
+      ) : (
+        recommendations.map((recommendation) => (
+          <SuggestionCard key={recommendation.id} clientId={clientId} recommendation={recommendation} />
+        ))
+      )}
+    </div>
+  );
+}
+
+interface SuggestionCardProps {
+  clientId: string;
+  recommendation: ProductRecommendation;
+}
+
+function SuggestionCard({ clientId, recommendation }: SuggestionCardProps) {
+  const t = useTranslations();
+  const locale = useLocale();
+  const { toast } = useToast();
+
+  const acceptMutation = useAcceptProductRecommendation();
+  const dismissMutation = useDismissProductRecommendation();
+  const isBusy = acceptMutation.isPending || dismissMutation.isPending;
+  const { product, tour } = recommendation;
+
+  const handleAccept = async () => {
+    try {
+      await acceptMutation.mutateAsync({ clientId, recommendationId: recommendation.id });
+      toast({
+        title: t('common.success'),
+        description: t('products.productAdded'),
+        variant: 'success',
+      });
+    } catch (error: any) {
+      toast({
+        title: t('common.error'),
+        description: error.response?.data?.error || t('products.failedToAddProduct'),
+        variant: 'error',
+      });
+    }
+  };
+
+  const handleDismiss = async () => {
+    try {
+      await dismissMutation.mutateAsync({ clientId, recommendationId: recommendation.id });
+    } catch (error: any) {
+      toast({
+        title: t('common.error'),
+        description: error.response?.data?.error || t('products.suggestions.failedToDismiss'),
+        variant: 'error',
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardContent className="pt-6">
+        <div className="flex flex-col sm:flex-row items-start justify-between gap-3 sm:gap-4">
+          <div className="flex-1 min-w-0 w-full">
+            <div className="flex flex-col sm:flex-row sm:items-center gap-2 mb-2">
+              <h4 className="font-semibold text-text-primary text-sm sm:text-base">{product.name}</h4>
+              <span className="px-2 py-1 rounded text-xs font-medium self-start bg-primary-100 text-primary-800 dark:bg-primary-900 dark:text-primary-300">
+                {t('products.suggestions.match', { score: Math.round(recommendation.score * 100) })}
+              </span>
+            </div>
+            <p className="text-xs sm:text-sm text-text-secondary mb-2">{recommendation.explanation}</p>
+            <div className="flex flex-col sm:flex-row sm:flex-wrap gap-2 sm:gap-4 text-xs sm:text-sm text-text-tertiary">
+              <span>
+                {t('products.price')}: {tour?.price ?? product.basePrice} {tour?.price ? tour.currency : product.currency}
+              </span>
+              <span>{t('products.type')}: {product.type}</span>
+              {tour && (
+                <span>
+                  {t('products.suggestions.departure', {
+                    start: formatDate(tour.startDate, locale),
+                    end: formatDate(tour.endDate, locale),
+                  })}
+                  {tour.maxParticipants !== null &&
+                    ` · ${t('products.suggestions.seatsLeft', {
+                      count: Math.max(tour.maxParticipants - tour.currentParticipants, 0),
+                    })}`}
+                </span>
+              )}
+            </div>
+          </div>
+          <div className="flex gap-2 self-start">
+            <Button
+              size="sm"
+              onClick={handleAccept}
+              isLoading={acceptMutation.isPending}
+              disabled={isBusy}
+              className="text-xs sm:text-sm"
+            >
+              <Plus className="h-4 w-4" />
+              {t('products.suggestions.accept')}
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={handleDismiss}
+              isLoading={dismissMutation.isPending}
+              disabled={isBusy}
+              aria-label={t('products.suggestions.dismiss')}
+              title={t('products.suggestions.dismiss')}
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -2,7 +2,7 @@
  * ProductsList Component
  * 
  * Displays products and tours for a client.
- * Allows adding and removing products.
+ * Allows adding and removing products and reviewing AI product suggestions.
  */
 
 'use client';
@@ -12,11 +12,15 @@ import { useClientProducts, useAddClientProduct, useRemoveClientProduct } from '
 import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/Card';
 import Button from '@/components/ui/Button';
 import Input from '@/components/ui/Input';
-import { ClientProduct, ClientTour, ClientProductStatus } from '@/types/client';
+import { ClientProduct, ClientProductStatus } from '@/types/client';
 import { cn } from '@/lib/utils';
-import { formatDate } from '@/lib/utils';
+import { formatConvertedPrice, formatDate } from '@/lib/utils';
 import { useToast } from '@/components/ui/use-toast';
-import { Package, Calendar, Trash2, Plus, X } from 'lucide-react';
+import ProductPicker from '@/components/features/products/ProductPicker';
+import ClientToursPanel from './ClientToursPanel';
+import ProductSuggestions from './ProductSuggestions';
+import { CatalogProduct } from '@/types/product';
+import { Package, Trash2, Plus, X } from 'lucide-react';
 import { useLocale, useTranslations } from 'next-intl';
 
 interface ProductsListProps {
@@ -39,7 +43,7 @@ export default function ProductsList({ clientId }: ProductsListProps) {
   const removeProductMutation = useRemoveClientProduct();
 
   const [showAddForm, setShowAddForm] = useState(false);
-  const [productId, setProductId] = useState('');
+  const [selectedProduct, setSelectedProduct] = useState<CatalogProduct | null>(null);
   const [status, setStatus] = useState<ClientProductStatus>('INTERESTED');
   const [notes, setNotes] = useState('');
 
@@ -52,10 +56,10 @@ export default function ProductsList({ clientId }: ProductsListProps) {
   };
 
   const handleAddProduct = async () => {
-    if (!productId.trim()) {
+    if (!selectedProduct) {
       toast({
         title: t('common.error'),
-        description: t('products.pleaseEnterProductId'),
+        description: t('products.selectProduct'),
         variant: 'error',
       });
       return;
@@ -65,7 +69,7 @@ export default function ProductsList({ clientId }: ProductsListProps) {
       await addProductMutation.mutateAsync({
         clientId,
         data: {
-          productId: productId.trim(),
+          productId: selectedProduct.id,
           status,
           notes: notes.trim() || undefined,
         },
@@ -78,7 +82,7 @@ export default function ProductsList({ clientId }: ProductsListProps) {
       });
 
       // Reset form
-      setProductId('');
+      setSelectedProduct(null);
       setStatus('INTERESTED');
       setNotes('');
       setShowAddForm(false);
@@ -175,7 +179,7 @@ export default function ProductsList({ clientId }: ProductsListProps) {
                     size="sm"
                     onClick={() => {
                       setShowAddForm(false);
-                      setProductId('');
+                      setSelectedProduct(null);
                       setStatus('INTERESTED');
                       setNotes('');
                     }}
@@ -186,13 +190,12 @@ export default function ProductsList({ clientId }: ProductsListProps) {
                 <div className="grid gap-4 sm:grid-cols-2">
                   <div>
                     <label className="block text-sm font-medium text-text-secondary mb-2">
-                      {t('products.productId')}
+                      {t('products.product')}
                     </label>
-                    <Input
-                      value={productId}
-                      onChange={(e) => setProductId(e.target.value)}
-                      placeholder={t('products.productIdPlaceholder')}
-                      className="w-full"
+                    <ProductPicker
+                      value={selectedProduct}
+                      onChange={setSelectedProduct}
+                      excludeIds={products.map((product) => product.productId)}
                     />
                   </div>
                   <div>
@@ -234,7 +237,7 @@ export default function ProductsList({ clientId }: ProductsListProps) {
                     variant="outline"
                     onClick={() => {
                       setShowAddForm(false);
-                      setProductId('');
+                      setSelectedProduct(null);
                       setStatus('INTERESTED');
                       setNotes('');
                     }}
@@ -247,6 +250,11 @@ export default function ProductsList({ clientId }: ProductsListProps) {
           </Card>
         )}
 
+        {/* AI Suggestions */}
+        <div className="mb-4">
+          <ProductSuggestions clientId={clientId} />
+        </div>
+
         {/* Products List */}
         {products.length === 0 ? (
           <Card>
@@ -288,6 +296,14 @@ export default function ProductsList({ clientId }: ProductsListProps) {
                         <div className="flex flex-col sm:flex-row sm:flex-wrap gap-2 sm:gap-4 text-xs sm:text-sm text-text-tertiary">
                           <span>
                             {t('products.price')}: {product.product.basePrice} {product.product.currency}
+                            {[product.product.clientPrice, product.product.reportingPrice]
+                              .map((price) => formatConvertedPrice(price, product.product.currency))
+                              .filter((price, index, prices) => price && prices.indexOf(price) === index)
+                              .map((price) => (
+                                <span key={price} className="ml-1">
+                                  ({price})
+                                </span>
+                              ))}
                           </span>
                           <span>{t('products.type')}: {product.product.type}</span>
                           <span>{t('products.added')}: {formatDate(product.createdAt, locale)}</span>
@@ -316,71 +332,7 @@ export default function ProductsList({ clientId }: ProductsListProps) {
       </div>
 
       {/* Tours Section */}
-      <div>
-        <h3 className="text-lg font-semibold text-text-primary flex items-center gap-2 mb-4">
-          <Calendar className="h-5 w-5" />
-          {t('products.tours.title', { count: tours.length })}
-        </h3>
-
-        {tours.length === 0 ? (
-          <Card>
-            <CardContent>
-              <div className="text-center py-12">
-                <Calendar className="h-12 w-12 mx-auto mb-4 text-text-tertiary" />
-                <p className="text-text-secondary mb-2">{t('products.tours.noTours')}</p>
-                <p className="text-sm text-text-tertiary">
-                  {t('products.tours.noToursDescription')}
-                </p>
-              </div>
-            </CardContent>
-          </Card>
-        ) : (
-          <div className="grid gap-3 sm:gap-4">
-            {tours.map((tour: ClientTour) => (
-              <Card key={tour.id}>
-                <CardContent className="pt-6">
-                  <div className="flex items-start justify-between gap-4">
-                    <div className="flex-1 min-w-0">
-                      <div className="flex items-center gap-2 mb-2">
-                        <h4 className="font-semibold text-text-primary">
-                          {tour.tour.product.name}
-                        </h4>
-                        <span
-                          className={cn(
-                            'px-2 py-1 rounded text-xs font-medium',
-                            STATUS_COLORS[tour.status as ClientProductStatus] || STATUS_COLORS.INTERESTED
-                          )}
-                        >
-                          {tour.status}
-                        </span>
-                      </div>
-                      <div className="flex flex-wrap gap-4 text-sm text-text-tertiary mb-2">
-                        <span>
-                          {formatDate(tour.tour.startDate, locale)} - {formatDate(tour.tour.endDate, locale)}
-                        </span>
-                        {tour.tour.price && (
-                          <span>
-                            {t('products.price')}: {tour.tour.price} {tour.tour.currency}
-                          </span>
-                        )}
-                        {tour.participants && (
-                          <span>{t('products.tours.participants')}: {tour.participants}</span>
-                        )}
-                        <span>{t('products.tours.status')}: {tour.tour.status}</span>
-                      </div>
-                      {tour.notes && (
-                        <p className="text-sm text-text-secondary mt-2 italic">
-                          {t('products.note')}: {tour.notes}
-                        </p>
-                      )}
-                    </div>
-                  </div>
-                </CardContent>
-              </Card>
-            ))}
-          </div>
-        )}
-      </div>
+      <ClientToursPanel clientId={clientId} tours={tours} />
     </div>
   );
 }
@@ -0,0 +1,288 @@
+/**
+ * ProposalBuilder Component
+ *
+ * Form for building a priced proposal from the client's products.
+ * Each product can be pinned to one of the client's departures,
+ * priced per participant and extended with product options.
+ * Totals shown here are a preview; the server prices the saved version.
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { useClientProducts } from '@/lib/hooks/useClients';
+import { useCreateProposal } from '@/lib/hooks/useProposals';
+import { Card, CardContent } from '@/components/ui/Card';
+import Button from '@/components/ui/Button';
+import Input from '@/components/ui/Input';
+import { ClientProduct } from '@/types/client';
+import { cn, formatDate } from '@/lib/utils';
+import { useToast } from '@/components/ui/use-toast';
+import { X } from 'lucide-react';
+import { useLocale, useTranslations } from 'next-intl';
+
+interface ProposalBuilderProps {
+  clientId: string;
+  onClose: () => void;
+}
+
+interface ItemDraft {
+  included: boolean;
+  participants: string;
+  tourId: string;
+  optionCodes: string[];
+}
+
+const EMPTY_DRAFT: ItemDraft = {
+  included: false,
+  participants: '1',
+  tourId: '',
+  optionCodes: [],
+};
+
+function toMinor(amount: string | number): number {
+  return Math.round(Number(amount) * 100);
+}
+
+export default function ProposalBuilder({ clientId, onClose }: ProposalBuilderProps) {
+  const { toast } = useToast();
+  const locale = useLocale();
+  const t = useTranslations();
+  const { data, isLoading } = useClientProducts(clientId);
+  const createMutation = useCreateProposal();
+
+  const [title, setTitle] = useState('');
+  const [notes, setNotes] = useState('');
+  const [drafts, setDrafts] = useState<Record<string, ItemDraft>>({});
+
+  const products = data?.products || [];
+  const tours = (data?.tours || []).filter((tour) => tour.status !== 'CANCELLED');
+
+  const getDraft = (id: string) => drafts[id] || EMPTY_DRAFT;
+
+  const updateDraft = (id: string, changes: Partial<ItemDraft>) => {
+    setDrafts((current) => ({ ...current, [id]: { ...(current[id] || EMPTY_DRAFT), ...changes } }));
+  };
+
+  const toggleOption = (id: string, code: string) => {
+    const { optionCodes } = getDraft(id);
+    updateDraft(id, {
+      optionCodes: optionCodes.includes(code)
+        ? optionCodes.filter((value) => value !== code)
+        : [...optionCodes, code],
+    });
+  };
+
+  // Same rules as the server: departure price (or base price) per participant plus options
+  const previewItem = (clientProduct: ClientProduct) => {
+    const draft = getDraft(clientProduct.id);
+    const participants = Math.max(1, Number(draft.participants) || 1);
+    const tour = tours.find((candidate) => candidate.tourId === draft.tourId)?.tour;
+    const unitPrice = tour?.price ?? clientProduct.product.basePrice;
+    const currency = tour?.price ? tour.currency : clientProduct.product.currency;
+    const options = (clientProduct.product.options || []).filter((option) =>
+      draft.optionCodes.includes(option.code)
+    );
+    const total =
+      toMinor(unitPrice) * participants +
+      options.reduce((sum, option) => sum + toMinor(option.price) * (option.perParticipant ? participants : 1), 0);
+
+    return { currency, total };
+  };
+
+  const includedProducts = products.filter((product) => getDraft(product.id).included);
+  const previews = includedProducts.map(previewItem);
+  const currencies = new Set(previews.map((preview) => preview.currency));
+  const grandTotal = previews.reduce((sum, preview) => sum + preview.total, 0);
+
+  const handleSave = async () => {
+    if (includedProducts.length === 0) {
+      toast({
+        title: t('common.error'),
+        description: t('proposals.selectAtLeastOne'),
+        variant: 'error',
+      });
+      return;
+    }
+
+    try {
+      await createMutation.mutateAsync({
+        clientId,
+        title: title.trim() || undefined,
+        notes: notes.trim() || undefined,
+        items: includedProducts.map((product) => {
+          const draft = getDraft(product.id);
+          return {
+            clientProductId: product.id,
+            tourId: draft.tourId || undefined,
+            participants: Math.max(1, Number(draft.participants) || 1),
+            optionCodes: draft.optionCodes,
+          };
+        }),
+      });
+
+      toast({
+        title: t('common.success'),
+        description: t('proposals.proposalSaved'),
+        variant: 'success',
+      });
+      onClose();
+    } catch (error: any) {
+      toast({
+        title: t('common.error'),
+        description: error.response?.data?.error || t('proposals.failedToSave'),
+        variant: 'error',
+      });
+    }
+  };
+
+  return (
+    <Card className="mb-4">
+      <CardContent className="pt-6">
+        <div className="space-y-4">
+          <div className="flex items-center justify-between">
+            <h4 className="font-medium text-text-primary">{t('proposals.newProposal')}</h4>
+            <Button variant="ghost" size="sm" onClick={onClose}>
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+
+          <Input
+            label={t('proposals.titleLabel')}
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            placeholder={t('proposals.titlePlaceholder')}
+          />
+
+          {isLoading && <p className="text-sm text-text-tertiary">{t('common.loading')}</p>}
+          {!isLoading && products.length === 0 && (
+            <p className="text-sm text-text-tertiary">{t('proposals.noClientProducts')}</p>
+          )}
+
+          <div className="space-y-3">
+            {products.map((clientProduct) => {
+              const draft = getDraft(clientProduct.id);
+              const productTours = tours.filter((tour) => tour.tour.product.id === clientProduct.productId);
+              const options = clientProduct.product.options || [];
+              const preview = draft.included ? previewItem(clientProduct) : null;
+
+              return (
+                <div
+                  key={clientProduct.id}
+                  className={cn(
+                    'rounded-lg border p-3 space-y-3',
+                    draft.included ? 'border-primary-500' : 'border-border'
+                  )}
+                >
+                  <label className="flex items-center justify-between gap-3 cursor-pointer">
+                    <span className="flex items-center gap-2">
+                      <input
+                        type="checkbox"
+                        checked={draft.included}
+                        onChange={(e) => updateDraft(clientProduct.id, { included: e.target.checked })}
+                        className="h-4 w-4 text-primary focus:ring-primary border-border rounded"
+                      />
+                      <span className="font-medium text-text-primary">{clientProduct.product.name}</span>
+                      <span className="text-xs text-text-tertiary">
+                        {t(`products.statusLabels.${clientProduct.status}`)}
+                      </span>
+                    </span>
+                    <span className="text-sm text-text-secondary">
+                      {clientProduct.product.basePrice} {clientProduct.product.currency}
+                    </span>
+                  </label>
+
+                  {draft.included && (
+                    <div className="space-y-3 pl-6">
+                      <div className="grid gap-3 sm:grid-cols-2">
+                        <Input
+                          label={t('products.tours.participants')}
+                          type="number"
+                          min={1}
+                          value={draft.participants}
+                          onChange={(e) => updateDraft(clientProduct.id, { participants: e.target.value })}
+                        />
+                        <div>
+                          <label className="block text-sm font-medium text-text-secondary mb-2">
+                            {t('products.tours.departure')}
+                          </label>
+                          <select
+                            value={draft.tourId}
+                            onChange={(e) => updateDraft(clientProduct.id, { tourId: e.target.value })}
+                            className="flex h-10 w-full rounded-lg border border-input/50 bg-background/50 px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary-500"
+                          >
+                            <option value="">{t('proposals.noDeparture')}</option>
+                            {productTours.map((tour) => (
+                              <option key={tour.tourId} value={tour.tourId}>
+                                {formatDate(tour.tour.startDate, locale)} - {formatDate(tour.tour.endDate, locale)}
+                                {tour.tour.price ? ` · ${tour.tour.price} ${tour.tour.currency}` : ''}
+                              </option>
+                            ))}
+                          </select>
+                        </div>
+                      </div>
+
+                      {options.length > 0 && (
+                        <div>
+                          <p className="text-sm font-medium text-text-secondary mb-2">{t('proposals.options')}</p>
+                          <div className="space-y-1">
+                            {options.map((option) => (
+                              <label key={option.code} className="flex items-center gap-2 text-sm text-text-secondary">
+                                <input
+                                  type="checkbox"
+                                  checked={draft.optionCodes.includes(option.code)}
+                                  onChange={() => toggleOption(clientProduct.id, option.code)}
+                                  className="h-4 w-4 text-primary focus:ring-primary border-border rounded"
+                                />
+                                {option.name} · {option.price}
+                                {option.perParticipant ? ` ${t('proposals.perParticipant')}` : ''}
+                              </label>
+                            ))}
+                          </div>
+                        </div>
+                      )}
+
+                      {preview && (
+                        <p className="text-sm text-text-primary">
+                          {t('proposals.itemTotal')}: {(preview.total / 100).toFixed(2)} {preview.currency}
+                        </p>
+                      )}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+
+          <Input
+            label={t('products.notesOptional')}
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            placeholder={t('proposals.notesPlaceholder')}
+          />
+
+          {includedProducts.length > 0 && (
+            <div className="text-sm">
+              {currencies.size > 1 ? (
+                <p className="text-error-600 dark:text-error-400">{t('proposals.currencyMismatch')}</p>
+              ) : (
+                <p className="font-semibold text-text-primary">
+                  {t('proposals.total')}: {(grandTotal / 100).toFixed(2)} {previews[0].currency}
+                </p>
+              )}
+            </div>
+          )}
+
+          <div className="flex gap-2">
+            <Button onClick={handleSave} disabled={createMutation.isPending || currencies.size > 1}>
+              {createMutation.isPending ? t('proposals.saving') : t('proposals.saveVersion')}
+            </Button>
+            <Button variant="outline" onClick={onClose}>
+              {t('products.cancel')}
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,203 @@
+/**
+ * ProposalsPanel Component
+ *
+ * Versioned proposals of a client: the builder for a new version
+ * and the list of saved versions, which can be sent to the client.
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { useProposals, useSendProposal } from '@/lib/hooks/useProposals';
+import { Card, CardContent } from '@/components/ui/Card';
+import Button from '@/components/ui/Button';
+import { Proposal, ProposalStatus } from '@/types/proposal';
+import { cn, formatConvertedPrice, formatDate } from '@/lib/utils';
+import { useToast } from '@/components/ui/use-toast';
+import { FileText, Plus, Send } from 'lucide-react';
+import { useLocale, useTranslations } from 'next-intl';
+import ProposalBuilder from './ProposalBuilder';
+import DocumentActions from './DocumentActions';
+
+interface ProposalsPanelProps {
+  clientId: string;
+}
+
+const STATUS_COLORS: Record<ProposalStatus, string> = {
+  DRAFT: 'bg-neutral-100 text-neutral-800 dark:bg-neutral-800 dark:text-neutral-300',
+  SENT: 'bg-secondary-100 text-secondary-800 dark:bg-secondary-900 dark:text-secondary-300',
+};
+
+export default function ProposalsPanel({ clientId }: ProposalsPanelProps) {
+  const { toast } = useToast();
+  const locale = useLocale();
+  const t = useTranslations();
+  const [showBuilder, setShowBuilder] = useState(false);
+  const [sendingId, setSendingId] = useState<string | null>(null);
+
+  const { data, isLoading, error } = useProposals({ clientId, limit: 50 });
+  const sendMutation = useSendProposal();
+
+  const proposals = data?.data || [];
+
+  const handleSend = async (proposal: Proposal) => {
+    if (!confirm(t('proposals.confirmSend', { version: proposal.version }))) {
+      return;
+    }
+
+    try {
+      setSendingId(proposal.id);
+      await sendMutation.mutateAsync({ id: proposal.id, clientId });
+      toast({
+        title: t('common.success'),
+        description: t('proposals.proposalSent'),
+        variant: 'success',
+      });
+    } catch (error: any) {
+      toast({
+        title: t('common.error'),
+        description: error.response?.data?.error || t('proposals.failedToSend'),
+        variant: 'error',
+      });
+    } finally {
+      setSendingId(null);
+    }
+  };
+
+  const formatUser = (user: Proposal['createdBy']) =>
+    user ? [user.firstName, user.lastName].filter(Boolean).join(' ') || t('common.system') : t('common.system');
+
+  return (
+    <div className="space-y-4 sm:space-y-6">
+      <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-3 sm:gap-4">
+        <h3 className="text-lg font-semibold text-text-primary flex items-center gap-2">
+          <FileText className="h-5 w-5" />
+          {t('proposals.title', { count: proposals.length })}
+        </h3>
+        {!showBuilder && (
+          <Button variant="default" size="sm" onClick={() => setShowBuilder(true)} className="w-full sm:w-auto">
+            <Plus className="h-4 w-4 mr-2" />
+            {t('proposals.newProposal')}
+          </Button>
+        )}
+      </div>
+
+      {showBuilder && <ProposalBuilder clientId={clientId} onClose={() => setShowBuilder(false)} />}
+
+      {isLoading && (
+        <div className="flex items-center justify-center py-16">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary" />
+        </div>
+      )}
+
+      {error && (
+        <Card>
+          <CardContent>
+            <div className="text-center py-12">
+              <p className="text-error-600 dark:text-error-400">{t('proposals.failedToLoad')}</p>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {!isLoading && !error && proposals.length === 0 && !showBuilder && (
+        <Card>
+          <CardContent>
+            <div className="text-center py-12">
+              <FileText className="h-12 w-12 mx-auto mb-4 text-text-tertiary" />
+              <p className="text-text-secondary mb-2">{t('proposals.noProposals')}</p>
+              <p className="text-sm text-text-tertiary">{t('proposals.noProposalsDescription')}</p>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <div className="grid gap-3 sm:gap-4">
+        {proposals.map((proposal) => (
+          <Card key={proposal.id}>
+            <CardContent className="pt-6">
+              <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-3 sm:gap-4">
+                <div className="flex-1 min-w-0">
+                  <div className="flex flex-wrap items-center gap-2 mb-2">
+                    <h4 className="font-semibold text-text-primary">
+                      v{proposal.version}
+                      {proposal.title ? ` · ${proposal.title}` : ''}
+                    </h4>
+                    <span className={cn('px-2 py-1 rounded text-xs font-medium', STATUS_COLORS[proposal.status])}>
+                      {t(`proposals.statusLabels.${proposal.status}`)}
+                    </span>
+                  </div>
+                  <p className="text-sm text-text-tertiary mb-3">
+                    {t('proposals.createdBy', {
+                      name: formatUser(proposal.createdBy),
+                      date: formatDate(proposal.createdAt, locale),
+                    })}
+                    {proposal.sentAt &&
+                      ` · ${t('proposals.sentBy', {
+                        name: formatUser(proposal.sentBy),
+                        date: formatDate(proposal.sentAt, locale),
+                      })}`}
+                  </p>
+                  <ul className="space-y-2 text-sm">
+                    {proposal.items.map((item) => (
+                      <li key={`${item.clientProductId}-${item.tour?.id ?? ''}`} className="text-text-secondary">
+                        <div className="flex justify-between gap-3">
+                          <span className="font-medium text-text-primary">
+                            {item.productName} × {item.participants}
+                          </span>
+                          <span>
+                            {item.total} {item.currency}
+                          </span>
+                        </div>
+                        {item.tour && (
+                          <div className="text-xs text-text-tertiary">
+                            {formatDate(item.tour.startDate, locale)} - {formatDate(item.tour.endDate, locale)}
+                          </div>
+                        )}
+                        {item.options.length > 0 && (
+                          <div className="text-xs text-text-tertiary">
+                            {item.options.map((option) => `${option.name} (${option.amount})`).join(', ')}
+                          </div>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                  {proposal.notes && (
+                    <p className="text-sm text-text-secondary mt-3 italic">
+                      {t('products.note')}: {proposal.notes}
+                    </p>
+                  )}
+                  <p className="mt-3 font-semibold text-text-primary">
+                    {t('proposals.total')}: {proposal.totalAmount} {proposal.currency}
+                  </p>
+                  {[proposal.clientTotal, proposal.reportingTotal]
+                    .map((total) => formatConvertedPrice(total, proposal.currency))
+                    .filter((total, index, totals) => total && totals.indexOf(total) === index)
+                    .map((total) => (
+                      <p key={total} className="text-sm text-text-tertiary">
+                        {total}
+                      </p>
+                    ))}
+                </div>
+                <div className="flex flex-col items-stretch sm:items-end gap-2 flex-shrink-0">
+                  <DocumentActions kind="proposal" id={proposal.id} filename={`proposal-v${proposal.version}.pdf`} />
+                  {proposal.status === 'DRAFT' && (
+                    <Button
+                      variant="secondary"
+                      size="sm"
+                      onClick={() => handleSend(proposal)}
+                      disabled={sendingId === proposal.id}
+                    >
+                      <Send className="h-4 w-4 mr-2" />
+                      {sendingId === proposal.id ? t('proposals.sending') : t('proposals.send')}
+                    </Button>
+                  )}
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -3,7 +3,7 @@
  * 
  * Provides quick action buttons for common client operations:
  * - Call client (tel: link)
- * - Assign partner (opens form)
+ * - Assign partner (picker of available partners for the client's selected products)
  * - Add note (opens form)
  */
 
@@ -17,6 +17,8 @@ import { Client } from '@/types/client';
 import { formatPhone } from '@/lib/utils';
 import { useToast } from '@/components/ui/use-toast';
 import { useTranslations } from 'next-intl';
+import { usePartners } from '@/lib/hooks/usePartners';
+import { useAssignPartner } from '@/lib/hooks/useClients';
 
 interface QuickActionsPanelProps {
   client: Client;
@@ -35,6 +37,14 @@ export default function QuickActionsPanel({
   const [showNoteForm, setShowNoteForm] = useState(false);
   const [partnerId, setPartnerId] = useState('');
   const [noteText, setNoteText] = useState('');
+  const assignPartnerMutation = useAssignPartner();
+
+  // Only available partners providing the client's selected products, best rated first
+  const { data: partnersData, isLoading: isLoadingPartners } = usePartners(
+    { assignableToClientId: client.id, limit: 100, sortBy: 'rating', sortOrder: 'desc' },
+    { enabled: showPartnerForm }
+  );
+  const partners = partnersData?.data || [];
 
   const handleCall = () => {
     window.location.href = `tel:${client.phone}`;
@@ -50,16 +60,51 @@ export default function QuickActionsPanel({
       return;
     }
 
-    // TODO: Implement API call to assign partner
-    // For now, just show a toast
-    toast({
-      title: t('quickActions.comingSoon'),
-      description: t('quickActions.partnerAssignmentComingSoon'),
-      variant: 'info',
-    });
-    setShowPartnerForm(false);
-    setPartnerId('');
-    onPartnerAssigned?.();
+    try {
+      await assignPartnerMutation.mutateAsync({
+        clientId: client.id,
+        data: { partnerId },
+      });
+
+      toast({
+        title: t('common.success'),
+        description: t('quickActions.partnerAssigned'),
+        variant: 'success',
+      });
+      setShowPartnerForm(false);
+      setPartnerId('');
+      onPartnerAssigned?.();
+    } catch (error: any) {
+      toast({
+        title: t('quickActions.error'),
+        description: error.response?.data?.error || t('quickActions.failedToAssignPartner'),
+        variant: 'error',
+      });
+    }
+  };
+
+  const handleUnassignPartner = async () => {
+    try {
+      await assignPartnerMutation.mutateAsync({
+        clientId: client.id,
+        data: { partnerId: null },
+      });
+
+      toast({
+        title: t('common.success'),
+        description: t('quickActions.partnerUnassigned'),
+        variant: 'success',
+      });
+      setShowPartnerForm(false);
+      setPartnerId('');
+      onPartnerAssigned?.();
+    } catch (error: any) {
+      toast({
+        title: t('quickActions.error'),
+        description: error.response?.data?.error || t('quickActions.failedToAssignPartner'),
+        variant: 'error',
+      });
+    }
   };
 
   const handleAddNote = async () => {
@@ -111,7 +156,11 @@ export default function QuickActionsPanel({
               className="justify-start text-sm sm:text-base"
             >
               <UserPlus className="h-4 w-4 mr-2 flex-shrink-0" />
-              <span className="truncate">{t('quickActions.assignPartner')}</span>
+              <span className="truncate">
+                {client.assignedPartner
+                  ? `${t('quickActions.partner')}: ${client.assignedPartner.name}`
+                  : t('quickActions.assignPartner')}
+              </span>
             </Button>
           ) : (
             <div className="space-y-3 p-3 sm:p-4 border border-border rounded-lg bg-surface">
@@ -119,28 +168,55 @@ export default function QuickActionsPanel({
                 <label className="block text-xs sm:text-sm font-semibold text-text-primary mb-2">
                   {t('quickActions.partner')}
                 </label>
-                <input
-                  type="text"
-                  placeholder={t('quickActions.partnerIdPlaceholder')}
+                <select
                   value={partnerId}
                   onChange={(e) => setPartnerId(e.target.value)}
-                  className="flex h-9 sm:h-10 w-full rounded-lg border border-input/50 bg-background/50 backdrop-blur-sm px-3 py-2 text-xs sm:text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary-500 focus-visible:ring-offset-2 focus-visible:border-primary-500 disabled:cursor-not-allowed disabled:opacity-50"
-                  disabled
-                />
-                <p className="text-xs text-text-tertiary mt-1">
-                  {t('quickActions.partnerSelectionComingSoon')}
-                </p>
+                  disabled={isLoadingPartners || partners.length === 0}
+                  className="flex h-9 sm:h-10 w-full rounded-lg border border-input/50 bg-background/50 backdrop-blur-sm px-3 py-2 text-xs sm:text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary-500 focus-visible:ring-offset-2 focus-visible:border-primary-500 disabled:cursor-not-allowed disabled:opacity-50"
+                >
+                  <option value="">
+                    {isLoadingPartners ? t('quickActions.loadingPartners') : t('quickActions.choosePartner')}
+                  </option>
+                  {partners.map((partner) => (
+                    <option key={partner.id} value={partner.id}>
+                      {partner.name}
+                      {partner.rating ? ` (${partner.rating})` : ''}
+                    </option>
+                  ))}
+                </select>
+                {!isLoadingPartners && partners.length === 0 && (
+                  <p className="text-xs text-text-tertiary mt-1">
+                    {t('quickActions.noAssignablePartners')}
+                  </p>
+                )}
+                {client.assignedPartner && (
+                  <p className="text-xs text-text-tertiary mt-1">
+                    {t('quickActions.currentPartner')}: {client.assignedPartner.name}
+                  </p>
+                )}
               </div>
-              <div className="flex gap-2">
+              <div className="flex flex-wrap gap-2">
                 <Button
                   variant="default"
                   size="sm"
                   onClick={handleAssignPartner}
-                  disabled
+                  disabled={!partnerId || assignPartnerMutation.isPending}
+                  isLoading={assignPartnerMutation.isPending}
                   className="text-xs sm:text-sm"
                 >
                   {t('quickActions.assign')}
                 </Button>
+                {client.assignedPartner && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={handleUnassignPartner}
+                    disabled={assignPartnerMutation.isPending}
+                    className="text-xs sm:text-sm"
+                  >
+                    {t('quickActions.unassign')}
+                  </Button>
+                )}
                 <Button
                   variant="outline"
                   size="sm"
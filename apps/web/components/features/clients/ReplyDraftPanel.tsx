@@ -0,0 +1,198 @@
+/**
+ * ReplyDraftPanel Component
+ *
+ * Inline reply drafts from the COMMUNICATION agent for a conversation.
+ * A manager generates a draft, edits it if needed and approves it
+ * (the reply is sent to the client) or rejects it. Follow-ups queued
+ * by the WARMING agent for silent leads are reviewed here as well.
+ */
+
+'use client';
+
+import { useState } from 'react';
+import {
+  usePendingReplyDrafts,
+  useGenerateReplyDraft,
+  useApproveReplyDraft,
+  useRejectReplyDraft,
+} from '@/lib/hooks/useConversations';
+import Button from '@/components/ui/Button';
+import { useToast } from '@/components/ui/use-toast';
+import { ReplyDraft } from '@/types/reply-draft';
+import { formatDate } from '@/lib/utils';
+import { Sparkles, Send, X } from 'lucide-react';
+import { useTranslations, useLocale } from 'next-intl';
+
+interface ReplyDraftPanelProps {
+  clientId: string;
+  conversationId: string;
+}
+
+const textareaClassName =
+  'flex w-full rounded-lg border border-input/50 bg-background/50 backdrop-blur-sm px-3 py-2 text-xs sm:text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary-500 focus-visible:ring-offset-2 focus-visible:border-primary-500 disabled:cursor-not-allowed disabled:opacity-50 resize-none';
+
+export default function ReplyDraftPanel({ clientId, conversationId }: ReplyDraftPanelProps) {
+  const t = useTranslations();
+  const { toast } = useToast();
+  const [instructions, setInstructions] = useState('');
+
+  const { data: draftsData } = usePendingReplyDrafts(conversationId);
+  const generateMutation = useGenerateReplyDraft();
+  const drafts = draftsData?.data || [];
+
+  const handleGenerate = async () => {
+    try {
+      await generateMutation.mutateAsync({
+        conversationId,
+        instructions: instructions.trim() || undefined,
+      });
+      setInstructions('');
+    } catch (error: any) {
+      toast({
+        title: t('common.error'),
+        description: error.response?.data?.error || t('conversations.drafts.failedToGenerate'),
+        variant: 'error',
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-3 p-3 sm:p-4 rounded-lg border border-dashed border-primary-200 dark:border-primary-800">
+      <div className="flex items-center gap-2 text-sm font-medium text-text-primary">
+        <Sparkles className="h-4 w-4 text-primary" />
+        {t('conversations.drafts.title')}
+      </div>
+
+      {drafts.map((draft) => (
+        <DraftCard key={draft.id} draft={draft} clientId={clientId} />
+      ))}
+
+      <div className="flex flex-col sm:flex-row gap-2">
+        <input
+          type="text"
+          placeholder={t('conversations.drafts.instructionsPlaceholder')}
+          value={instructions}
+          onChange={(e) => setInstructions(e.target.value)}
+          maxLength={500}
+          className="flex h-9 w-full rounded-lg border border-input/50 bg-background/50 px-3 text-xs sm:text-sm placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary-500"
+        />
+        <Button
+          variant={drafts.length > 0 ? 'outline' : 'default'}
+          size="sm"
+          onClick={handleGenerate}
+          isLoading={generateMutation.isPending}
+          className="text-xs sm:text-sm"
+        >
+          <Sparkles className="h-4 w-4" />
+          {drafts.length > 0 ? t('conversations.drafts.generateAnother') : t('conversations.drafts.generate')}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+interface DraftCardProps {
+  draft: ReplyDraft;
+  clientId: string;
+}
+
+function DraftCard({ draft, clientId }: DraftCardProps) {
+  const t = useTranslations();
+  const locale = useLocale();
+  const { toast } = useToast();
+  const [content, setContent] = useState(draft.content);
+
+  const approveMutation = useApproveReplyDraft();
+  const rejectMutation = useRejectReplyDraft();
+  const isEdited = content.trim() !== draft.content;
+  const isBusy = approveMutation.isPending || rejectMutation.isPending;
+
+  const handleApprove = async () => {
+    try {
+      await approveMutation.mutateAsync({
+        clientId,
+        conversationId: draft.conversationId,
+        draftId: draft.id,
+        content: isEdited ? content.trim() : undefined,
+      });
+      toast({
+        title: t('common.success'),
+        description: t('conversations.drafts.sent'),
+        variant: 'success',
+      });
+    } catch (error: any) {
+      toast({
+        title: t('common.error'),
+        description: error.response?.data?.error || t('conversations.drafts.failedToSend'),
+        variant: 'error',
+      });
+    }
+  };
+
+  const handleReject = async () => {
+    try {
+      await rejectMutation.mutateAsync({ conversationId: draft.conversationId, draftId: draft.id });
+    } catch (error: any) {
+      toast({
+        title: t('common.error'),
+        description: error.response?.data?.error || t('conversations.drafts.failedToReject'),
+        variant: 'error',
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-2 p-3 rounded-lg bg-primary-50 dark:bg-primary-900/20 border border-primary-200 dark:border-primary-800">
+      <div className="flex flex-wrap items-center gap-2 text-xs text-text-tertiary">
+        <span>{formatDate(draft.createdAt, locale)}</span>
+        {draft.kind === 'FOLLOW_UP' && (
+          <span>· {t('conversations.drafts.followUp', { attempt: draft.followUpAttempt ?? 1 })}</span>
+        )}
+        {draft.language && <span>· {draft.language.toUpperCase()}</span>}
+        {draft.promptVariant && (
+          <span>· {t('conversations.drafts.variant', { name: draft.promptVariant.name })}</span>
+        )}
+        {isEdited && <span>· {t('conversations.drafts.edited')}</span>}
+      </div>
+
+      <textarea
+        value={content}
+        onChange={(e) => setContent(e.target.value)}
+        rows={4}
+        disabled={isBusy}
+        className={textareaClassName}
+      />
+
+      {draft.rationale && (
+        <div className="text-xs text-text-secondary italic">
+          {t('conversations.drafts.rationale', { rationale: draft.rationale })}
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <Button
+          variant="default"
+          size="sm"
+          onClick={handleApprove}
+          isLoading={approveMutation.isPending}
+          disabled={isBusy || !content.trim()}
+          className="text-xs sm:text-sm"
+        >
+          <Send className="h-4 w-4" />
+          {isEdited ? t('conversations.drafts.sendEdited') : t('conversations.drafts.approveAndSend')}
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={handleReject}
+          isLoading={rejectMutation.isPending}
+          disabled={isBusy}
+          className="text-xs sm:text-sm"
+        >
+          <X className="h-4 w-4" />
+          {t('conversations.drafts.reject')}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,338 @@
+/**
+ * TripRequirementsCard Component
+ *
+ * Trip requirements extracted from the chat by the QUALIFICATION agent:
+ * travel dates, group size, budget, interests and dietary needs with
+ * per-field confidence. Managers can edit the values (the agent keeps
+ * edited fields) and accept the proposal to move a new lead to Qualified.
+ */
+
+'use client';
+
+import { useState } from 'react';
+import {
+  useTripRequirements,
+  useExtractTripRequirements,
+  useUpdateTripRequirements,
+  useUpdateClientStatus,
+} from '@/lib/hooks/useClients';
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/Card';
+import Button from '@/components/ui/Button';
+import Input from '@/components/ui/Input';
+import { useToast } from '@/components/ui/use-toast';
+import {
+  TripRequirements,
+  TripRequirementField,
+  TripRequirementFieldMeta,
+  UpdateTripRequirementsRequest,
+} from '@/types/client';
+import { formatDate } from '@/lib/utils';
+import { Sparkles, Edit, Luggage } from 'lucide-react';
+import { useTranslations, useLocale } from 'next-intl';
+
+interface TripRequirementsCardProps {
+  clientId: string;
+}
+
+interface FormValues {
+  travelStartDate: string;
+  travelEndDate: string;
+  adults: string;
+  children: string;
+  budgetAmount: string;
+  budgetCurrency: string;
+  interests: string;
+  dietaryNeeds: string;
+}
+
+function toFormValues(requirements: TripRequirements | null): FormValues {
+  return {
+    travelStartDate: requirements?.travelStartDate || '',
+    travelEndDate: requirements?.travelEndDate || '',
+    adults: requirements?.adults?.toString() || '',
+    children: requirements?.children?.toString() || '',
+    budgetAmount: requirements?.budgetAmount?.toString() || '',
+    budgetCurrency: requirements?.budgetCurrency || '',
+    interests: requirements?.interests.join(', ') || '',
+    dietaryNeeds: requirements?.dietaryNeeds.join(', ') || '',
+  };
+}
+
+/**
+ * Request with the changed inputs only, so untouched fields stay with the agent
+ */
+function toUpdateRequest(values: FormValues, initial: FormValues): UpdateTripRequirementsRequest {
+  const request: UpdateTripRequirementsRequest = {};
+  const changed = (key: keyof FormValues) => values[key].trim() !== initial[key].trim();
+  const toNumber = (value: string) => (value.trim() ? Number(value) : null);
+  const toList = (value: string) =>
+    value
+      .split(',')
+      .map((item) => item.trim())
+      .filter(Boolean);
+
+  if (changed('travelStartDate')) request.travelStartDate = values.travelStartDate || null;
+  if (changed('travelEndDate')) request.travelEndDate = values.travelEndDate || null;
+  if (changed('adults')) request.adults = toNumber(values.adults);
+  if (changed('children')) request.children = toNumber(values.children);
+  if (changed('budgetAmount')) request.budgetAmount = toNumber(values.budgetAmount);
+  if (changed('budgetCurrency')) request.budgetCurrency = values.budgetCurrency.trim() || null;
+  if (changed('interests')) request.interests = toList(values.interests);
+  if (changed('dietaryNeeds')) request.dietaryNeeds = toList(values.dietaryNeeds);
+
+  return request;
+}
+
+export default function TripRequirementsCard({ clientId }: TripRequirementsCardProps) {
+  const t = useTranslations();
+  const locale = useLocale();
+  const { toast } = useToast();
+  const [isEditing, setIsEditing] = useState(false);
+  const [values, setValues] = useState<FormValues>(toFormValues(null));
+
+  const { data, isLoading } = useTripRequirements(clientId);
+  const extractMutation = useExtractTripRequirements();
+  const updateMutation = useUpdateTripRequirements();
+  const updateStatusMutation = useUpdateClientStatus();
+
+  const requirements = data?.data || null;
+  const meta = requirements?.fieldMeta || {};
+
+  const handleExtract = async () => {
+    try {
+      const result = await extractMutation.mutateAsync(clientId);
+      toast({
+        title: t('common.success'),
+        description:
+          result.updatedFields.length > 0
+            ? t('tripRequirements.extracted', { count: result.updatedFields.length })
+            : t('tripRequirements.nothingNew'),
+        variant: 'success',
+      });
+    } catch (error: any) {
+      toast({
+        title: t('common.error'),
+        description: error.response?.data?.error || t('tripRequirements.failedToExtract'),
+        variant: 'error',
+      });
+    }
+  };
+
+  const handleEdit = () => {
+    setValues(toFormValues(requirements));
+    setIsEditing(true);
+  };
+
+  const handleSave = async () => {
+    const request = toUpdateRequest(values, toFormValues(requirements));
+    if (Object.keys(request).length === 0) {
+      setIsEditing(false);
+      return;
+    }
+
+    try {
+      await updateMutation.mutateAsync({ clientId, data: request });
+      setIsEditing(false);
+    } catch (error: any) {
+      toast({
+        title: t('common.error'),
+        description: error.response?.data?.error || t('tripRequirements.failedToSave'),
+        variant: 'error',
+      });
+    }
+  };
+
+  const handleQualify = async () => {
+    if (!data?.proposedStatus) return;
+
+    try {
+      await updateStatusMutation.mutateAsync({
+        id: clientId,
+        status: data.proposedStatus,
+        reason: t('tripRequirements.qualifyReason'),
+      });
+      toast({
+        title: t('common.success'),
+        description: t('clients.statusUpdated'),
+        variant: 'success',
+      });
+    } catch (error: any) {
+      toast({
+        title: t('common.error'),
+        description: error.response?.data?.error || t('clients.failedToUpdateStatus'),
+        variant: 'error',
+      });
+    }
+  };
+
+  const setField = (key: keyof FormValues) => (e: React.ChangeEvent<HTMLInputElement>) =>
+    setValues((current) => ({ ...current, [key]: e.target.value }));
+
+  const dates = requirements?.travelStartDate
+    ? [requirements.travelStartDate, requirements.travelEndDate]
+        .filter((date): date is string => !!date)
+        .map((date) => formatDate(date, locale))
+        .join(' – ')
+    : null;
+
+  const groupSize =
+    requirements?.adults != null
+      ? t('tripRequirements.groupValue', { adults: requirements.adults, children: requirements.children || 0 })
+      : null;
+
+  const budget =
+    requirements?.budgetAmount != null
+      ? `${requirements.budgetAmount.toLocaleString(locale)} ${requirements.budgetCurrency || ''}`.trim()
+      : null;
+
+  const rows: { field: TripRequirementField; value: string | null }[] = [
+    { field: 'travelDates', value: dates },
+    { field: 'groupSize', value: groupSize },
+    { field: 'budget', value: budget },
+    { field: 'interests', value: requirements?.interests.join(', ') || null },
+    { field: 'dietaryNeeds', value: requirements?.dietaryNeeds.join(', ') || null },
+  ];
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <CardTitle className="flex items-center gap-2">
+            <Luggage className="h-5 w-5" />
+            {t('tripRequirements.title')}
+          </CardTitle>
+          {!isEditing && (
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleExtract}
+                isLoading={extractMutation.isPending}
+              >
+                <Sparkles className="h-4 w-4" />
+                {t('tripRequirements.extract')}
+              </Button>
+              <Button variant="ghost" size="sm" onClick={handleEdit} disabled={isLoading}>
+                <Edit className="h-4 w-4" />
+                {t('tripRequirements.edit')}
+              </Button>
+            </div>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {data?.proposedStatus && !isEditing && (
+          <div className="mb-6 flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-3 rounded-lg bg-success-50 dark:bg-success-900/20 border border-success-200 dark:border-success-800">
+            <p className="text-sm text-text-primary">
+              {t('tripRequirements.qualifyProposal', { status: t(`clientStatus.${data.proposedStatus}`) })}
+            </p>
+            <Button size="sm" onClick={handleQualify} isLoading={updateStatusMutation.isPending}>
+              {t('tripRequirements.qualify', { status: t(`clientStatus.${data.proposedStatus}`) })}
+            </Button>
+          </div>
+        )}
+
+        {isEditing ? (
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <Input
+                label={t('tripRequirements.startDate')}
+                type="date"
+                value={values.travelStartDate}
+                onChange={setField('travelStartDate')}
+              />
+              <Input
+                label={t('tripRequirements.endDate')}
+                type="date"
+                value={values.travelEndDate}
+                onChange={setField('travelEndDate')}
+              />
+              <Input
+                label={t('tripRequirements.adults')}
+                type="number"
+                min={1}
+                value={values.adults}
+                onChange={setField('adults')}
+              />
+              <Input
+                label={t('tripRequirements.children')}
+                type="number"
+                min={0}
+                value={values.children}
+                onChange={setField('children')}
+              />
+              <Input
+                label={t('tripRequirements.budgetAmount')}
+                type="number"
+                min={0}
+                value={values.budgetAmount}
+                onChange={setField('budgetAmount')}
+              />
+              <Input
+                label={t('tripRequirements.budgetCurrency')}
+                placeholder="USD"
+                maxLength={3}
+                value={values.budgetCurrency}
+                onChange={setField('budgetCurrency')}
+              />
+            </div>
+            <Input
+              label={t('tripRequirements.fields.interests')}
+              placeholder={t('tripRequirements.listPlaceholder')}
+              value={values.interests}
+              onChange={setField('interests')}
+            />
+            <Input
+              label={t('tripRequirements.fields.dietaryNeeds')}
+              placeholder={t('tripRequirements.listPlaceholder')}
+              value={values.dietaryNeeds}
+              onChange={setField('dietaryNeeds')}
+            />
+            <div className="flex gap-2">
+              <Button size="sm" onClick={handleSave} isLoading={updateMutation.isPending}>
+                {t('common.save')}
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => setIsEditing(false)}>
+                {t('common.cancel')}
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <dl className="space-y-4">
+            {rows.map(({ field, value }) => (
+              <div key={field} className="flex flex-col sm:flex-row sm:items-start justify-between gap-1 sm:gap-4">
+                <dt className="text-sm font-semibold text-text-tertiary">{t(`tripRequirements.fields.${field}`)}</dt>
+                <dd className="flex flex-col sm:items-end gap-1 text-sm text-text-primary">
+                  <span>{value || <span className="text-text-tertiary">{t('tripRequirements.unknown')}</span>}</span>
+                  {value && meta[field] && <FieldSource meta={meta[field]} />}
+                </dd>
+              </div>
+            ))}
+            {requirements?.analyzedUntil && (
+              <p className="text-xs text-text-tertiary">
+                {t('tripRequirements.analyzedUntil', { date: formatDate(requirements.analyzedUntil, locale) })}
+              </p>
+            )}
+          </dl>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function FieldSource({ meta }: { meta: TripRequirementFieldMeta }) {
+  const t = useTranslations();
+
+  if (meta.updatedBy === 'HUMAN') {
+    return <span className="text-xs text-text-tertiary">{t('tripRequirements.setByManager')}</span>;
+  }
+
+  return (
+    <span className="text-xs text-text-tertiary" title={meta.sourceMessageIds.join(', ')}>
+      {t('tripRequirements.aiConfidence', {
+        confidence: Math.round(meta.confidence * 100),
+        count: meta.sourceMessageIds.length,
+      })}
+    </span>
+  );
+}
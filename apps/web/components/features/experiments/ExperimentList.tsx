@@ -0,0 +1,111 @@
+/**
+ * ExperimentList Component
+ *
+ * A/B prompt experiments with their variants and status controls.
+ * Clients of a paused or finished experiment get the default prompt.
+ */
+
+'use client';
+
+import { useExperiments, useUpdateExperimentStatus } from '@/lib/hooks/useExperiments';
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/Card';
+import Button from '@/components/ui/Button';
+import { useToast } from '@/components/ui/use-toast';
+import { cn } from '@/lib/utils';
+import { Experiment, ExperimentStatus } from '@/types/experiment';
+import { useTranslations } from 'next-intl';
+
+interface ExperimentListProps {
+  selectedId: string | null;
+  onSelect: (id: string) => void;
+}
+
+// Status changes offered for each status
+const STATUS_ACTIONS: Record<ExperimentStatus, ExperimentStatus[]> = {
+  ACTIVE: ['PAUSED', 'COMPLETED', 'CANCELLED'],
+  PAUSED: ['ACTIVE', 'COMPLETED', 'CANCELLED'],
+  COMPLETED: [],
+  CANCELLED: [],
+};
+
+export default function ExperimentList({ selectedId, onSelect }: ExperimentListProps) {
+  const { toast } = useToast();
+  const t = useTranslations();
+  const { data, isLoading, error } = useExperiments();
+  const updateStatusMutation = useUpdateExperimentStatus();
+  const experiments = data?.data || [];
+
+  const handleStatusChange = async (experiment: Experiment, status: ExperimentStatus) => {
+    if ((status === 'COMPLETED' || status === 'CANCELLED') && !confirm(t(`experiments.confirm.${status}`))) {
+      return;
+    }
+
+    try {
+      await updateStatusMutation.mutateAsync({ id: experiment.id, status });
+    } catch (error: any) {
+      toast({
+        title: t('common.error'),
+        description: error.response?.data?.error || t('experiments.failedToUpdate'),
+        variant: 'error',
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-2xl">{t('experiments.title')}</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {isLoading && (
+          <div className="flex items-center justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary" />
+          </div>
+        )}
+
+        {error && <p className="text-sm text-error-600 dark:text-error-400">{t('experiments.failedToLoad')}</p>}
+
+        {!isLoading && !error && experiments.length === 0 && (
+          <p className="text-sm text-text-tertiary">{t('experiments.noExperiments')}</p>
+        )}
+
+        {experiments.length > 0 && (
+          <ul className="divide-y divide-border">
+            {experiments.map((experiment) => (
+              <li
+                key={experiment.id}
+                className={cn(
+                  'flex flex-col sm:flex-row sm:items-center justify-between gap-3 py-3 px-2 rounded-lg',
+                  experiment.id === selectedId && 'bg-background-subtle'
+                )}
+              >
+                <button type="button" className="min-w-0 text-left" onClick={() => onSelect(experiment.id)}>
+                  <p className="font-medium text-text-primary">{experiment.name}</p>
+                  <p className="text-xs text-text-tertiary">
+                    {experiment.agentType} · {t(`experiments.statuses.${experiment.status}`)} ·{' '}
+                    {experiment.variants
+                      .map((variant) => `${variant.name} (${variant.weight}): ${variant.clientCount}`)
+                      .join(' / ')}
+                  </p>
+                </button>
+                <div className="flex flex-wrap gap-2 shrink-0">
+                  {STATUS_ACTIONS[experiment.status].map((status) => (
+                    <Button
+                      key={status}
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleStatusChange(experiment, status)}
+                      disabled={updateStatusMutation.isPending}
+                    >
+                      {t(`experiments.actions.${status}`)}
+                    </Button>
+                  ))}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
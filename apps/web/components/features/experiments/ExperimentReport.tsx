@@ -0,0 +1,189 @@
+/**
+ * ExperimentReport Component
+ *
+ * Per-variant funnel conversion, time to SOLD and reply rate with 95%
+ * confidence intervals, the significance of the leading variant and
+ * promotion of a variant to the default agent configuration.
+ */
+
+'use client';
+
+import { useExperimentReport, usePromoteVariant } from '@/lib/hooks/useExperiments';
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/Card';
+import Button from '@/components/ui/Button';
+import { useToast } from '@/components/ui/use-toast';
+import { ProportionEstimate, VariantReport } from '@/types/experiment';
+import { Trophy } from 'lucide-react';
+import { useTranslations } from 'next-intl';
+
+interface ExperimentReportProps {
+  experimentId: string;
+}
+
+function formatPercent(value: number): string {
+  return `${(value * 100).toFixed(1)}%`;
+}
+
+function formatEstimate(estimate: ProportionEstimate | null): string {
+  if (!estimate) {
+    return '-';
+  }
+
+  return `${formatPercent(estimate.rate)} (${formatPercent(estimate.lower)}–${formatPercent(estimate.upper)})`;
+}
+
+export default function ExperimentReport({ experimentId }: ExperimentReportProps) {
+  const { toast } = useToast();
+  const t = useTranslations();
+  const { data: report, isLoading, error } = useExperimentReport(experimentId);
+  const promoteMutation = usePromoteVariant();
+
+  const handlePromote = async (variant: VariantReport) => {
+    if (!confirm(t('experiments.confirmPromote', { variant: variant.name }))) {
+      return;
+    }
+
+    try {
+      const result = await promoteMutation.mutateAsync({ id: experimentId, variantId: variant.id });
+      toast({
+        title: t('common.success'),
+        description: t('experiments.promoted', { version: result.configuration.version }),
+        variant: 'success',
+      });
+    } catch (error: any) {
+      toast({
+        title: t('common.error'),
+        description: error.response?.data?.error || t('experiments.failedToPromote'),
+        variant: 'error',
+      });
+    }
+  };
+
+  const canPromote = report && report.experiment.status !== 'CANCELLED';
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{report ? t('experiments.reportTitle', { name: report.experiment.name }) : t('experiments.report')}</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading && (
+          <div className="flex items-center justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary" />
+          </div>
+        )}
+
+        {error && <p className="text-sm text-error-600 dark:text-error-400">{t('experiments.failedToLoadReport')}</p>}
+
+        {report && (
+          <>
+            <p className="text-sm text-text-secondary">
+              {report.winnerVariantId
+                ? t(report.significant ? 'experiments.winnerSignificant' : 'experiments.winnerNotSignificant', {
+                    variant: report.variants.find((variant) => variant.id === report.winnerVariantId)?.name ?? '',
+                  })
+                : t('experiments.notEnoughData')}
+            </p>
+
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-text-tertiary border-b border-border">
+                    <th className="py-2 pr-4 font-medium">{t('experiments.metric')}</th>
+                    {report.variants.map((variant) => (
+                      <th key={variant.id} className="py-2 pr-4 font-medium">
+                        <span className="inline-flex items-center gap-1 text-text-primary">
+                          {variant.id === report.winnerVariantId && <Trophy className="h-4 w-4 text-warning-500" />}
+                          {variant.name}
+                        </span>
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-border">
+                  <tr>
+                    <td className="py-2 pr-4 text-text-secondary">{t('experiments.clients')}</td>
+                    {report.variants.map((variant) => (
+                      <td key={variant.id} className="py-2 pr-4">
+                        {variant.clients}
+                      </td>
+                    ))}
+                  </tr>
+                  {report.variants[0]?.funnel.slice(1).map((step, index) => (
+                    <tr key={step.stage}>
+                      <td className="py-2 pr-4 text-text-secondary">
+                        {t(`clientStatus.${report.variants[0].funnel[index].stage}`)} →{' '}
+                        {t(`clientStatus.${step.stage}`)}
+                      </td>
+                      {report.variants.map((variant) => (
+                        <td key={variant.id} className="py-2 pr-4">
+                          {formatEstimate(variant.funnel[index + 1].conversion)}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                  <tr className="font-medium">
+                    <td className="py-2 pr-4 text-text-primary">{t('experiments.soldRate')}</td>
+                    {report.variants.map((variant) => (
+                      <td key={variant.id} className="py-2 pr-4">
+                        {formatEstimate(variant.sold)}
+                      </td>
+                    ))}
+                  </tr>
+                  <tr>
+                    <td className="py-2 pr-4 text-text-secondary">{t('experiments.pValue')}</td>
+                    {report.variants.map((variant) => (
+                      <td key={variant.id} className="py-2 pr-4">
+                        {variant.comparison ? variant.comparison.pValue.toFixed(4) : '-'}
+                      </td>
+                    ))}
+                  </tr>
+                  <tr>
+                    <td className="py-2 pr-4 text-text-secondary">{t('experiments.timeToSold')}</td>
+                    {report.variants.map((variant) => (
+                      <td key={variant.id} className="py-2 pr-4">
+                        {variant.timeToSoldDays
+                          ? t('experiments.days', {
+                              median: variant.timeToSoldDays.median,
+                              mean: variant.timeToSoldDays.mean,
+                            })
+                          : '-'}
+                      </td>
+                    ))}
+                  </tr>
+                  <tr>
+                    <td className="py-2 pr-4 text-text-secondary">{t('experiments.replyRate')}</td>
+                    {report.variants.map((variant) => (
+                      <td key={variant.id} className="py-2 pr-4">
+                        {formatEstimate(variant.replyRate)}
+                      </td>
+                    ))}
+                  </tr>
+                  {canPromote && (
+                    <tr>
+                      <td className="py-2 pr-4" />
+                      {report.variants.map((variant) => (
+                        <td key={variant.id} className="py-2 pr-4">
+                          <Button
+                            variant={variant.id === report.winnerVariantId ? 'default' : 'outline'}
+                            size="sm"
+                            onClick={() => handlePromote(variant)}
+                            disabled={promoteMutation.isPending}
+                          >
+                            {t('experiments.promote')}
+                          </Button>
+                        </td>
+                      ))}
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+
+            <p className="text-xs text-text-tertiary">{t('experiments.methodology')}</p>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,431 @@
+/**
+ * ProductForm Component
+ *
+ * Form for creating and editing catalog products
+ */
+
+'use client';
+
+import { useRouter } from 'next/navigation';
+import { useForm, useFieldArray } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { useProduct, useCreateProduct, useUpdateProduct } from '@/lib/hooks/useProducts';
+import { usePartners } from '@/lib/hooks/usePartners';
+import { Card, CardHeader, CardTitle, CardContent, CardFooter } from '@/components/ui/Card';
+import Button from '@/components/ui/Button';
+import Input from '@/components/ui/Input';
+import { ArrowLeft, Plus, Trash2 } from 'lucide-react';
+import Link from 'next/link';
+import { useToast } from '@/components/ui/use-toast';
+import { useTranslations } from 'next-intl';
+import { CatalogProduct, ProductOption } from '@/types/product';
+
+const numberString = (message: string) =>
+  z.string().trim().refine((value) => value === '' || (!isNaN(Number(value)) && Number(value) >= 0), message);
+
+const productSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required'),
+  description: z.string().optional(),
+  type: z.enum(['TOUR', 'SERVICE', 'PACKAGE']),
+  basePrice: numberString('Price must be a non-negative number').refine((value) => value !== '', 'Price is required'),
+  currency: z.string().trim().regex(/^[A-Za-z]{3}$/, 'Currency must be a 3-letter ISO code'),
+  duration: z
+    .string()
+    .trim()
+    .refine((value) => value === '' || /^[1-9]\d*$/.test(value), 'Duration must be a positive whole number'),
+  partnerId: z.string(),
+  inclusions: z.string().optional(),
+  exclusions: z.string().optional(),
+  options: z.array(
+    z.object({
+      code: z.string().trim().regex(/^[a-z0-9_-]+$/, 'Use lowercase letters, digits, "-" or "_"'),
+      name: z.string().trim().min(1, 'Name is required'),
+      price: numberString('Price must be a non-negative number').refine((value) => value !== '', 'Price is required'),
+      perParticipant: z.boolean(),
+    })
+  ),
+  isActive: z.boolean(),
+});
+
+type ProductFormData = z.infer<typeof productSchema>;
+
+const splitLines = (value?: string): string[] =>
+  (value || '')
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean);
+
+const toFormValues = (product?: CatalogProduct): ProductFormData =>
+  product
+    ? {
+        name: product.name,
+        description: product.description || '',
+        type: product.type,
+        basePrice: product.basePrice,
+        currency: product.currency,
+        duration: product.duration ? String(product.duration) : '',
+        partnerId: product.partnerId || '',
+        inclusions: product.inclusions.join('\n'),
+        exclusions: product.exclusions.join('\n'),
+        options: product.options.map((option) => ({
+          code: option.code,
+          name: option.name,
+          price: String(option.price),
+          perParticipant: !!option.perParticipant,
+        })),
+        isActive: product.isActive,
+      }
+    : {
+        name: '',
+        description: '',
+        type: 'TOUR',
+        basePrice: '',
+        currency: 'USD',
+        duration: '',
+        partnerId: '',
+        inclusions: '',
+        exclusions: '',
+        options: [],
+        isActive: true,
+      };
+
+interface ProductFormProps {
+  productId?: string;
+}
+
+export default function ProductForm({ productId }: ProductFormProps) {
+  const t = useTranslations();
+  const isEdit = !!productId;
+  const { data: product, isLoading, error } = useProduct(productId || '');
+
+  if (isEdit && isLoading) {
+    return (
+      <div className="flex items-center justify-center py-16">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary" />
+      </div>
+    );
+  }
+
+  if (isEdit && (error || !product)) {
+    return (
+      <Card>
+        <CardContent>
+          <div className="text-center py-12">
+            <p className="text-error-600 dark:text-error-400">{t('catalog.failedToLoadProduct')}</p>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  // Форма монтируется только после загрузки продукта, чтобы defaultValues были актуальны
+  return <ProductFormInner product={isEdit ? product : undefined} />;
+}
+
+function ProductFormInner({ product }: { product?: CatalogProduct }) {
+  const router = useRouter();
+  const { toast } = useToast();
+  const t = useTranslations();
+  const isEdit = !!product;
+  const createMutation = useCreateProduct();
+  const updateMutation = useUpdateProduct();
+  const { data: partnersData } = usePartners({ limit: 100, sortBy: 'name', sortOrder: 'asc' });
+  const partners = partnersData?.data || [];
+
+  const {
+    register,
+    control,
+    handleSubmit,
+    formState: { errors },
+  } = useForm<ProductFormData>({
+    resolver: zodResolver(productSchema),
+    defaultValues: toFormValues(product),
+  });
+
+  const { fields, append, remove } = useFieldArray({ control, name: 'options' });
+
+  const onSubmit = async (data: ProductFormData) => {
+    const options: ProductOption[] = data.options.map((option) => ({
+      code: option.code,
+      name: option.name,
+      price: Number(option.price),
+      perParticipant: option.perParticipant,
+    }));
+    const payload = {
+      name: data.name,
+      type: data.type,
+      basePrice: Number(data.basePrice),
+      currency: data.currency.toUpperCase(),
+      inclusions: splitLines(data.inclusions),
+      exclusions: splitLines(data.exclusions),
+      options,
+      partnerId: data.partnerId || null,
+      isActive: data.isActive,
+    };
+
+    try {
+      if (isEdit) {
+        await updateMutation.mutateAsync({
+          id: product.id,
+          data: {
+            ...payload,
+            description: data.description?.trim() || null,
+            duration: data.duration ? Number(data.duration) : null,
+          },
+        });
+      } else {
+        await createMutation.mutateAsync({
+          ...payload,
+          description: data.description?.trim() || undefined,
+          duration: data.duration ? Number(data.duration) : undefined,
+        });
+      }
+      toast({
+        title: t('common.success'),
+        description: isEdit ? t('catalog.productUpdated') : t('catalog.productCreated'),
+        variant: "success",
+      });
+      router.push('/dashboard/products');
+    } catch (error: any) {
+      toast({
+        title: t('common.error'),
+        description: error.response?.data?.error || t('catalog.failedToSaveProduct'),
+        variant: "error",
+      });
+    }
+  };
+
+  const isSaving = createMutation.isPending || updateMutation.isPending;
+
+  return (
+    <div className="space-y-8">
+      <div className="flex items-center gap-6">
+        <Link href="/dashboard/products">
+          <Button variant="ghost" size="sm">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            {t('common.back')}
+          </Button>
+        </Link>
+        <h1 className="text-3xl font-bold text-text-primary">
+          {isEdit ? t('catalog.editProduct') : t('catalog.newProduct')}
+        </h1>
+      </div>
+
+      <Card>
+        <form onSubmit={handleSubmit(onSubmit)} className="block">
+          <CardHeader>
+            <CardTitle>{t('catalog.productInformation')}</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-8">
+            <Input
+              label={t('catalog.name')}
+              {...register('name')}
+              error={errors.name?.message}
+              required
+            />
+
+            <div>
+              <label className="block text-sm font-semibold text-text-primary mb-3">
+                {t('catalog.description')}
+              </label>
+              <textarea
+                {...register('description')}
+                rows={3}
+                className="w-full px-3 py-2 border border-border rounded-lg bg-background text-text-primary focus:outline-none focus:ring-2 focus:ring-primary"
+              />
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div>
+                <label className="block text-sm font-semibold text-text-primary mb-3">
+                  {t('catalog.type')}
+                </label>
+                <select
+                  {...register('type')}
+                  className="w-full px-3 py-2 border border-border rounded-lg bg-background text-text-primary focus:outline-none focus:ring-2 focus:ring-primary"
+                >
+                  <option value="TOUR">{t('catalog.types.TOUR')}</option>
+                  <option value="SERVICE">{t('catalog.types.SERVICE')}</option>
+                  <option value="PACKAGE">{t('catalog.types.PACKAGE')}</option>
+                </select>
+              </div>
+              <Input
+                label={t('catalog.duration')}
+                type="number"
+                min={1}
+                {...register('duration')}
+                error={errors.duration?.message}
+              />
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <Input
+                label={t('catalog.basePrice')}
+                type="number"
+                min={0}
+                step="0.01"
+                {...register('basePrice')}
+                error={errors.basePrice?.message}
+                required
+              />
+              <Input
+                label={t('catalog.currency')}
+                placeholder="USD"
+                maxLength={3}
+                {...register('currency')}
+                error={errors.currency?.message}
+                required
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-semibold text-text-primary mb-3">
+                {t('catalog.partner')}
+              </label>
+              <select
+                {...register('partnerId')}
+                className="w-full px-3 py-2 border border-border rounded-lg bg-background text-text-primary focus:outline-none focus:ring-2 focus:ring-primary"
+              >
+                <option value="">{t('catalog.noPartner')}</option>
+                {partners.map((partner) => (
+                  <option key={partner.id} value={partner.id}>
+                    {partner.name}
+                    {!partner.isAvailable ? ` (${t('catalog.partnerUnavailable')})` : ''}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div>
+                <label className="block text-sm font-semibold text-text-primary mb-3">
+                  {t('catalog.inclusions')}
+                </label>
+                <textarea
+                  {...register('inclusions')}
+                  rows={4}
+                  className="w-full px-3 py-2 border border-border rounded-lg bg-background text-text-primary focus:outline-none focus:ring-2 focus:ring-primary"
+                />
+                <p className="mt-2 text-xs text-text-tertiary">{t('catalog.listHelper')}</p>
+              </div>
+              <div>
+                <label className="block text-sm font-semibold text-text-primary mb-3">
+                  {t('catalog.exclusions')}
+                </label>
+                <textarea
+                  {...register('exclusions')}
+                  rows={4}
+                  className="w-full px-3 py-2 border border-border rounded-lg bg-background text-text-primary focus:outline-none focus:ring-2 focus:ring-primary"
+                />
+                <p className="mt-2 text-xs text-text-tertiary">{t('catalog.listHelper')}</p>
+              </div>
+            </div>
+
+            {/* Options */}
+            <div className="space-y-4">
+              <div className="flex items-center justify-between">
+                <label className="block text-sm font-semibold text-text-primary">
+                  {t('catalog.options')}
+                </label>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => append({ code: '', name: '', price: '', perParticipant: false })}
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  {t('catalog.addOption')}
+                </Button>
+              </div>
+              {fields.length === 0 && (
+                <p className="text-sm text-text-tertiary">{t('catalog.noOptions')}</p>
+              )}
+              {fields.map((field, index) => (
+                <div
+                  key={field.id}
+                  className="grid grid-cols-1 md:grid-cols-[1fr_2fr_1fr_auto_auto] gap-4 items-start p-4 border border-border rounded-lg"
+                >
+                  <Input
+                    label={t('catalog.optionCode')}
+                    placeholder="single_room"
+                    {...register(`options.${index}.code`)}
+                    error={errors.options?.[index]?.code?.message}
+                  />
+                  <Input
+                    label={t('catalog.optionName')}
+                    {...register(`options.${index}.name`)}
+                    error={errors.options?.[index]?.name?.message}
+                  />
+                  <Input
+                    label={t('catalog.optionPrice')}
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    {...register(`options.${index}.price`)}
+                    error={errors.options?.[index]?.price?.message}
+                  />
+                  <div className="flex items-center gap-2 md:pt-10">
+                    <input
+                      type="checkbox"
+                      id={`options-${index}-perParticipant`}
+                      {...register(`options.${index}.perParticipant`)}
+                      className="h-4 w-4 text-primary focus:ring-primary border-border rounded"
+                    />
+                    <label
+                      htmlFor={`options-${index}-perParticipant`}
+                      className="text-sm text-text-primary"
+                    >
+                      {t('catalog.perParticipant')}
+                    </label>
+                  </div>
+                  <div className="md:pt-8">
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => remove(index)}
+                      aria-label={t('catalog.delete')}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            <div className="flex items-center gap-3">
+              <input
+                type="checkbox"
+                id="isActive"
+                {...register('isActive')}
+                className="h-4 w-4 text-primary focus:ring-primary border-border rounded"
+              />
+              <label htmlFor="isActive" className="text-sm font-semibold text-text-primary">
+                {t('catalog.isActive')}
+              </label>
+            </div>
+          </CardContent>
+          <CardFooter>
+            <div className="flex gap-6 w-full">
+              <Link href="/dashboard/products" className="flex-1">
+                <Button variant="outline" fullWidth>
+                  {t('common.cancel')}
+                </Button>
+              </Link>
+              <Button
+                type="submit"
+                variant="default"
+                fullWidth
+                isLoading={isSaving}
+                disabled={isSaving}
+              >
+                {isEdit ? t('catalog.saveChanges') : t('catalog.createProduct')}
+              </Button>
+            </div>
+          </CardFooter>
+        </form>
+      </Card>
+    </div>
+  );
+}
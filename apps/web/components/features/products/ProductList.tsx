@@ -0,0 +1,339 @@
+/**
+ * ProductList Component
+ *
+ * Product catalog of the organization with filtering, search and pagination.
+ * ADMIN users can edit, activate/deactivate and delete products.
+ */
+
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { useProducts, useSetProductActive, useDeleteProduct } from '@/lib/hooks/useProducts';
+import { Card, CardContent } from '@/components/ui/Card';
+import Button from '@/components/ui/Button';
+import Input from '@/components/ui/Input';
+import { Plus, Package, Search, Pencil, Power, Trash2 } from 'lucide-react';
+import { ProductType } from '@/types/client';
+import { CatalogProduct } from '@/types/product';
+import { cn, formatConvertedPrice } from '@/lib/utils';
+import { useAuth } from '@/lib/contexts/auth-context';
+import { useToast } from '@/components/ui/use-toast';
+import { useTranslations } from 'next-intl';
+
+const TYPE_COLORS: Record<ProductType, string> = {
+  TOUR: 'bg-primary-100 text-primary-800 dark:bg-primary-900 dark:text-primary-300',
+  SERVICE: 'bg-info-100 text-info-800 dark:bg-info-900 dark:text-info-300',
+  PACKAGE: 'bg-secondary-100 text-secondary-800 dark:bg-secondary-900 dark:text-secondary-300',
+};
+
+const PRODUCT_TYPES: ProductType[] = ['TOUR', 'SERVICE', 'PACKAGE'];
+
+export default function ProductList() {
+  const t = useTranslations();
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const [page, setPage] = useState(1);
+  const [search, setSearch] = useState('');
+  const [typeFilter, setTypeFilter] = useState<ProductType | ''>('');
+  const [activeFilter, setActiveFilter] = useState<'' | 'active' | 'inactive'>('');
+  const [pendingId, setPendingId] = useState<string | null>(null);
+  const limit = 20;
+
+  const canManage = user?.role === 'ADMIN' || user?.role === 'SUPER_ADMIN';
+
+  const { data, isLoading, error } = useProducts({
+    page,
+    limit,
+    search: search || undefined,
+    type: typeFilter || undefined,
+    isActive: activeFilter ? activeFilter === 'active' : undefined,
+  });
+  const setActiveMutation = useSetProductActive();
+  const deleteMutation = useDeleteProduct();
+
+  const products = data?.data || [];
+  const pagination = data?.pagination;
+
+  useEffect(() => {
+    if (error) {
+      toast({
+        title: t('common.error'),
+        description: t('catalog.failedToLoadProducts'),
+        variant: "error",
+      });
+    }
+  }, [error, toast, t]);
+
+  const handleToggleActive = async (product: CatalogProduct) => {
+    try {
+      setPendingId(product.id);
+      await setActiveMutation.mutateAsync({ id: product.id, isActive: !product.isActive });
+      toast({
+        title: t('common.success'),
+        description: product.isActive ? t('catalog.productDeactivated') : t('catalog.productActivated'),
+        variant: "success",
+      });
+    } catch (error: any) {
+      toast({
+        title: t('common.error'),
+        description: error.response?.data?.error || t('catalog.failedToUpdateProduct'),
+        variant: "error",
+      });
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  const handleDelete = async (product: CatalogProduct) => {
+    if (!confirm(t('catalog.confirmDelete'))) {
+      return;
+    }
+
+    try {
+      setPendingId(product.id);
+      await deleteMutation.mutateAsync(product.id);
+      toast({
+        title: t('common.success'),
+        description: t('catalog.productDeleted'),
+        variant: "success",
+      });
+    } catch (error: any) {
+      toast({
+        title: t('common.error'),
+        description: error.response?.data?.error || t('catalog.failedToDeleteProduct'),
+        variant: "error",
+      });
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  return (
+    <div className="max-w-7xl mx-auto space-y-4 sm:space-y-6 lg:space-y-8">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 sm:gap-6">
+        <div className="flex-1 min-w-0">
+          <h1 className="text-2xl sm:text-3xl md:text-4xl font-bold text-text-primary mb-3 sm:mb-4 leading-tight">
+            {t('catalog.title')}
+          </h1>
+          <p className="text-base sm:text-lg text-text-secondary">{t('catalog.manageCatalog')}</p>
+        </div>
+        {canManage && (
+          <Link href="/dashboard/products/new" className="w-full sm:w-auto">
+            <Button variant="default" size="lg" className="w-full sm:w-auto">
+              <Plus className="h-4 w-4 sm:h-5 sm:w-5 sm:mr-2" />
+              {t('catalog.addProduct')}
+            </Button>
+          </Link>
+        )}
+      </div>
+
+      {/* Filters */}
+      <Card>
+        <CardContent className="py-4 sm:py-6">
+          <div className="flex flex-col sm:flex-row gap-4 sm:gap-6">
+            <div className="flex-1 min-w-0">
+              <div className="relative">
+                <Search className="absolute left-3 sm:left-4 top-1/2 transform -translate-y-1/2 h-4 w-4 sm:h-5 sm:w-5 text-text-muted" />
+                <Input
+                  placeholder={t('catalog.searchProducts')}
+                  value={search}
+                  onChange={(e) => {
+                    setSearch(e.target.value);
+                    setPage(1);
+                  }}
+                  className="pl-9 sm:pl-11 text-sm sm:text-base"
+                />
+              </div>
+            </div>
+            <div className="w-full sm:w-44 flex-shrink-0">
+              <select
+                value={typeFilter}
+                onChange={(e) => {
+                  setTypeFilter(e.target.value as ProductType | '');
+                  setPage(1);
+                }}
+                className="w-full h-10 sm:h-12 px-3 sm:px-4 py-2 text-sm sm:text-base border border-border rounded-lg sm:rounded-xl bg-background/50 backdrop-blur-sm text-text-primary focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500 transition-all duration-200"
+              >
+                <option value="">{t('catalog.allTypes')}</option>
+                {PRODUCT_TYPES.map((type) => (
+                  <option key={type} value={type}>
+                    {t(`catalog.types.${type}`)}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="w-full sm:w-44 flex-shrink-0">
+              <select
+                value={activeFilter}
+                onChange={(e) => {
+                  setActiveFilter(e.target.value as '' | 'active' | 'inactive');
+                  setPage(1);
+                }}
+                className="w-full h-10 sm:h-12 px-3 sm:px-4 py-2 text-sm sm:text-base border border-border rounded-lg sm:rounded-xl bg-background/50 backdrop-blur-sm text-text-primary focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500 transition-all duration-200"
+              >
+                <option value="">{t('catalog.allStatuses')}</option>
+                <option value="active">{t('catalog.activeOnly')}</option>
+                <option value="inactive">{t('catalog.inactiveOnly')}</option>
+              </select>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Loading State */}
+      {isLoading && (
+        <div className="flex items-center justify-center py-16">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary" />
+        </div>
+      )}
+
+      {/* Error State */}
+      {error && (
+        <Card>
+          <CardContent>
+            <div className="text-center py-12">
+              <p className="text-error-600 dark:text-error-400">
+                {t('catalog.failedToLoadProducts')}
+              </p>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Empty State */}
+      {!isLoading && !error && products.length === 0 && (
+        <Card>
+          <CardContent>
+            <div className="text-center py-16">
+              <Package className="h-12 w-12 text-text-muted mx-auto mb-6" />
+              <h3 className="text-lg font-medium text-text-primary mb-4">
+                {t('catalog.noProducts')}
+              </h3>
+              <p className="text-text-secondary mb-6">
+                {t('catalog.noProductsDescription')}
+              </p>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Product List */}
+      {!isLoading && !error && products.length > 0 && (
+        <>
+          <div className="grid gap-3 sm:gap-4">
+            {products.map((product) => (
+              <Card key={product.id} className={cn(!product.isActive && 'opacity-70')}>
+                <CardContent className="py-4 sm:py-6">
+                  <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 sm:gap-6">
+                    <div className="flex-1 min-w-0">
+                      <div className="flex flex-wrap items-center gap-2 sm:gap-3 mb-2">
+                        <h3 className="text-base sm:text-lg font-semibold text-text-primary truncate">
+                          {product.name}
+                        </h3>
+                        <span
+                          className={cn(
+                            'inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium',
+                            TYPE_COLORS[product.type]
+                          )}
+                        >
+                          {t(`catalog.types.${product.type}`)}
+                        </span>
+                        {!product.isActive && (
+                          <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-error-100 text-error-800 dark:bg-error-900 dark:text-error-300">
+                            {t('catalog.inactive')}
+                          </span>
+                        )}
+                      </div>
+                      {product.description && (
+                        <p className="text-xs sm:text-sm text-text-secondary mb-2 line-clamp-2">
+                          {product.description}
+                        </p>
+                      )}
+                      <div className="flex flex-wrap gap-2 sm:gap-4 text-xs sm:text-sm text-text-tertiary">
+                        <span>
+                          {t('catalog.basePrice')}: {product.basePrice} {product.currency}
+                          {formatConvertedPrice(product.reportingPrice, product.currency) && (
+                            <span className="ml-1">({formatConvertedPrice(product.reportingPrice, product.currency)})</span>
+                          )}
+                        </span>
+                        {product.duration && (
+                          <span>{t('catalog.durationDays', { count: product.duration })}</span>
+                        )}
+                        {product.partner && (
+                          <span>
+                            {t('catalog.partner')}: {product.partner.name}
+                          </span>
+                        )}
+                        {product.options.length > 0 && (
+                          <span>
+                            {t('catalog.options')}: {product.options.length}
+                          </span>
+                        )}
+                      </div>
+                    </div>
+                    {canManage && (
+                      <div className="flex items-center gap-2 sm:gap-3 flex-shrink-0">
+                        <Link href={`/dashboard/products/${product.id}/edit`}>
+                          <Button variant="outline" size="sm">
+                            <Pencil className="h-4 w-4 sm:mr-1" />
+                            <span className="hidden sm:inline">{t('catalog.edit')}</span>
+                          </Button>
+                        </Link>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleToggleActive(product)}
+                          isLoading={pendingId === product.id && setActiveMutation.isPending}
+                          disabled={pendingId === product.id}
+                        >
+                          <Power className="h-4 w-4 sm:mr-1" />
+                          <span className="hidden sm:inline">
+                            {product.isActive ? t('catalog.deactivate') : t('catalog.activate')}
+                          </span>
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleDelete(product)}
+                          disabled={pendingId === product.id}
+                          className="text-error-600 hover:text-error-700 hover:bg-error-50 dark:hover:bg-error-900/20"
+                          aria-label={t('catalog.delete')}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+
+          {/* Pagination */}
+          {pagination && pagination.totalPages > 1 && (
+            <div className="flex items-center justify-end gap-2 sm:gap-4 pt-4">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setPage((p) => Math.max(1, p - 1))}
+                disabled={page === 1}
+              >
+                {t('clients.previous')}
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setPage((p) => Math.min(pagination.totalPages, p + 1))}
+                disabled={page === pagination.totalPages}
+              >
+                {t('clients.next')}
+              </Button>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
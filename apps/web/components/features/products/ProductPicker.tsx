@@ -0,0 +1,115 @@
+/**
+ * ProductPicker Component
+ * 
+ * Searchable picker for active catalog products.
+ * Used wherever a product has to be linked to another entity (e.g. a client).
+ */
+
+'use client';
+
+import { useDeferredValue, useState } from 'react';
+import { useProducts } from '@/lib/hooks/useProducts';
+import Button from '@/components/ui/Button';
+import { CatalogProduct } from '@/types/product';
+import { Search, X } from 'lucide-react';
+import { useTranslations } from 'next-intl';
+
+interface ProductPickerProps {
+  value: CatalogProduct | null;
+  onChange: (product: CatalogProduct | null) => void;
+  excludeIds?: string[];
+  disabled?: boolean;
+}
+
+export default function ProductPicker({ value, onChange, excludeIds = [], disabled }: ProductPickerProps) {
+  const t = useTranslations();
+  const [search, setSearch] = useState('');
+  const [isOpen, setIsOpen] = useState(false);
+  const deferredSearch = useDeferredValue(search);
+
+  const { data, isFetching } = useProducts({
+    isActive: true,
+    search: deferredSearch.trim() || undefined,
+    limit: 10,
+    sortBy: 'name',
+    sortOrder: 'asc',
+  });
+
+  const products = (data?.data || []).filter((product) => !excludeIds.includes(product.id));
+
+  if (value) {
+    return (
+      <div className="flex h-10 w-full items-center justify-between gap-2 rounded-lg border border-input/50 bg-background/50 px-3 text-sm">
+        <span className="truncate text-text-primary">
+          {value.name}
+          <span className="ml-2 text-text-tertiary">
+            {value.basePrice} {value.currency}
+          </span>
+        </span>
+        <button
+          type="button"
+          onClick={() => onChange(null)}
+          disabled={disabled}
+          className="text-text-tertiary hover:text-text-primary"
+          aria-label={t('catalog.picker.clear')}
+        >
+          <X className="h-4 w-4" />
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="relative">
+      <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-text-tertiary pointer-events-none" />
+      <input
+        type="text"
+        value={search}
+        onChange={(e) => {
+          setSearch(e.target.value);
+          setIsOpen(true);
+        }}
+        onFocus={() => setIsOpen(true)}
+        onBlur={() => setIsOpen(false)}
+        placeholder={t('catalog.picker.placeholder')}
+        disabled={disabled}
+        className="flex h-10 w-full rounded-lg border border-input/50 bg-background/50 pl-9 pr-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary-500 disabled:cursor-not-allowed disabled:opacity-50"
+      />
+      {isOpen && (
+        <div className="absolute z-20 mt-1 w-full max-h-64 overflow-y-auto rounded-lg border border-border bg-background shadow-lg">
+          {isFetching && products.length === 0 ? (
+            <p className="px-3 py-2 text-sm text-text-tertiary">{t('catalog.picker.loading')}</p>
+          ) : products.length === 0 ? (
+            <p className="px-3 py-2 text-sm text-text-tertiary">{t('catalog.picker.noResults')}</p>
+          ) : (
+            products.map((product) => (
+              <Button
+                key={product.id}
+                type="button"
+                variant="ghost"
+                size="sm"
+                fullWidth
+                // onMouseDown fires before the input blur closes the list
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  onChange(product);
+                  setSearch('');
+                  setIsOpen(false);
+                }}
+                className="justify-between rounded-none font-normal"
+              >
+                <span className="truncate">
+                  {product.name}
+                  <span className="ml-2 text-xs text-text-tertiary">{t(`catalog.types.${product.type}`)}</span>
+                </span>
+                <span className="text-xs text-text-tertiary">
+                  {product.basePrice} {product.currency}
+                </span>
+              </Button>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
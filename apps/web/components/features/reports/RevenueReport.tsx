@@ -0,0 +1,81 @@
+/**
+ * RevenueReport Component
+ *
+ * Booked revenue (booked and confirmed tours) in the organization's
+ * reporting currency, per departure month and per original currency.
+ */
+
+'use client';
+
+import { useRevenueReport } from '@/lib/hooks/useExchangeRates';
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/Card';
+import { useLocale, useTranslations } from 'next-intl';
+
+function formatMonth(month: string, locale: string): string {
+  const [year, monthIndex] = month.split('-').map(Number);
+  return new Intl.DateTimeFormat(locale === 'ru' ? 'ru-RU' : 'en-US', {
+    month: 'short',
+    year: 'numeric',
+    timeZone: 'UTC',
+  }).format(new Date(Date.UTC(year, monthIndex - 1, 1)));
+}
+
+export default function RevenueReport() {
+  const locale = useLocale();
+  const t = useTranslations();
+  const { data: report, isLoading, error } = useRevenueReport();
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-2xl">{t('revenue.title')}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading && (
+          <div className="flex items-center justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary" />
+          </div>
+        )}
+
+        {error && <p className="text-sm text-error-600 dark:text-error-400">{t('revenue.failedToLoad')}</p>}
+
+        {report && (
+          <div className="space-y-6">
+            <div>
+              <p className="text-4xl font-bold text-text-primary leading-tight">
+                {report.total} {report.currency}
+              </p>
+              <p className="text-sm text-text-tertiary">{t('revenue.bookings', { count: report.bookings })}</p>
+            </div>
+
+            {report.byMonth.length > 0 && (
+              <div className="grid grid-cols-2 sm:grid-cols-4 lg:grid-cols-6 gap-3">
+                {report.byMonth.map((entry) => (
+                  <div key={entry.month} className="rounded-lg bg-background-subtle p-3">
+                    <p className="text-xs text-text-tertiary">{formatMonth(entry.month, locale)}</p>
+                    <p className="font-semibold text-text-primary">
+                      {entry.amount} {report.currency}
+                    </p>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {report.byCurrency.length > 1 && (
+              <p className="text-sm text-text-secondary">
+                {t('revenue.originalCurrencies')}:{' '}
+                {report.byCurrency.map((entry) => `${entry.amount} ${entry.currency}`).join(' · ')}
+              </p>
+            )}
+
+            {report.unconvertedCurrencies.length > 0 && (
+              <p className="text-sm text-warning-700 dark:text-warning-400">
+                {t('revenue.missingRates', { currencies: report.unconvertedCurrencies.join(', ') })}
+              </p>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,269 @@
+/**
+ * ExchangeRatesSettings Component
+ *
+ * Organization exchange rates (ADMIN only): set a rate by hand,
+ * import rates from a CSV file and delete outdated ones.
+ */
+
+'use client';
+
+import { useRef, useState } from 'react';
+import {
+  useExchangeRates,
+  useCreateExchangeRate,
+  useImportExchangeRates,
+  useDeleteExchangeRate,
+} from '@/lib/hooks/useExchangeRates';
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/Card';
+import Button from '@/components/ui/Button';
+import Input from '@/components/ui/Input';
+import { useToast } from '@/components/ui/use-toast';
+import { CURRENCIES, CurrencyCode, ExchangeRate } from '@/types/exchange-rate';
+import { formatDate } from '@/lib/utils';
+import { Plus, Trash2, Upload } from 'lucide-react';
+import { useLocale, useTranslations } from 'next-intl';
+
+const SELECT_CLASS_NAME =
+  'flex h-10 w-full rounded-lg border border-input/50 bg-background/50 px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary-500';
+
+export default function ExchangeRatesSettings() {
+  const { toast } = useToast();
+  const locale = useLocale();
+  const t = useTranslations();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [baseCurrency, setBaseCurrency] = useState<CurrencyCode>('USD');
+  const [quoteCurrency, setQuoteCurrency] = useState<CurrencyCode>('KGS');
+  const [rate, setRate] = useState('');
+  const [effectiveDate, setEffectiveDate] = useState('');
+  const [showHistory, setShowHistory] = useState(false);
+
+  const { data, isLoading, error } = useExchangeRates({ latest: !showHistory });
+  const createMutation = useCreateExchangeRate();
+  const importMutation = useImportExchangeRates();
+  const deleteMutation = useDeleteExchangeRate();
+
+  const rates = data?.data || [];
+
+  const handleAdd = async () => {
+    const value = Number(rate);
+
+    if (!Number.isFinite(value) || value <= 0 || baseCurrency === quoteCurrency) {
+      toast({
+        title: t('common.error'),
+        description: t('exchangeRates.invalidRate'),
+        variant: 'error',
+      });
+      return;
+    }
+
+    try {
+      await createMutation.mutateAsync({
+        baseCurrency,
+        quoteCurrency,
+        rate: value,
+        effectiveDate: effectiveDate || undefined,
+      });
+      setRate('');
+      setEffectiveDate('');
+      toast({
+        title: t('common.success'),
+        description: t('exchangeRates.rateSaved'),
+        variant: 'success',
+      });
+    } catch (error: any) {
+      toast({
+        title: t('common.error'),
+        description: error.response?.data?.error || t('exchangeRates.failedToSave'),
+        variant: 'error',
+      });
+    }
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      const content = await file.text();
+      const result = await importMutation.mutateAsync({ content });
+      toast({
+        title: t('common.success'),
+        description: t('exchangeRates.imported', { count: result.imported }),
+        variant: 'success',
+      });
+    } catch (error: any) {
+      toast({
+        title: t('common.error'),
+        description: error.response?.data?.error || t('exchangeRates.failedToImport'),
+        variant: 'error',
+      });
+    } finally {
+      if (fileInputRef.current) {
+        fileInputRef.current.value = '';
+      }
+    }
+  };
+
+  const handleDelete = async (exchangeRate: ExchangeRate) => {
+    if (!confirm(t('exchangeRates.confirmDelete'))) {
+      return;
+    }
+
+    try {
+      await deleteMutation.mutateAsync(exchangeRate.id);
+    } catch (error: any) {
+      toast({
+        title: t('common.error'),
+        description: error.response?.data?.error || t('exchangeRates.failedToDelete'),
+        variant: 'error',
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{t('exchangeRates.title')}</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <p className="text-sm text-text-secondary">
+          {t('exchangeRates.description', { currency: data?.reportingCurrency ?? 'USD' })}
+        </p>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-3 items-end">
+          <div>
+            <label className="block text-sm font-semibold text-text-primary mb-2">
+              {t('exchangeRates.baseCurrency')}
+            </label>
+            <select
+              value={baseCurrency}
+              onChange={(e) => setBaseCurrency(e.target.value as CurrencyCode)}
+              className={SELECT_CLASS_NAME}
+            >
+              {CURRENCIES.map((currency) => (
+                <option key={currency} value={currency}>
+                  {currency}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-semibold text-text-primary mb-2">
+              {t('exchangeRates.quoteCurrency')}
+            </label>
+            <select
+              value={quoteCurrency}
+              onChange={(e) => setQuoteCurrency(e.target.value as CurrencyCode)}
+              className={SELECT_CLASS_NAME}
+            >
+              {CURRENCIES.map((currency) => (
+                <option key={currency} value={currency}>
+                  {currency}
+                </option>
+              ))}
+            </select>
+          </div>
+          <Input
+            label={t('exchangeRates.rate')}
+            type="number"
+            min={0}
+            step="any"
+            value={rate}
+            onChange={(e) => setRate(e.target.value)}
+            placeholder="87.45"
+          />
+          <Input
+            label={t('exchangeRates.effectiveDate')}
+            type="date"
+            value={effectiveDate}
+            onChange={(e) => setEffectiveDate(e.target.value)}
+          />
+          <Button
+            variant="default"
+            onClick={handleAdd}
+            isLoading={createMutation.isPending}
+            disabled={createMutation.isPending || !rate}
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            {t('exchangeRates.addRate')}
+          </Button>
+        </div>
+
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 pt-6 border-t border-border">
+          <div>
+            <p className="text-sm font-semibold text-text-primary">{t('exchangeRates.importTitle')}</p>
+            <p className="text-sm text-text-tertiary">{t('exchangeRates.importHelper')}</p>
+          </div>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv,.txt,text/csv,text/plain"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleImport(file);
+            }}
+          />
+          <Button
+            variant="outline"
+            onClick={() => fileInputRef.current?.click()}
+            isLoading={importMutation.isPending}
+            disabled={importMutation.isPending}
+          >
+            <Upload className="h-4 w-4 mr-2" />
+            {t('exchangeRates.importFile')}
+          </Button>
+        </div>
+
+        <div className="pt-6 border-t border-border space-y-3">
+          <label className="flex items-center gap-2 text-sm text-text-secondary">
+            <input
+              type="checkbox"
+              checked={showHistory}
+              onChange={(e) => setShowHistory(e.target.checked)}
+              className="h-4 w-4 text-primary focus:ring-primary border-border rounded"
+            />
+            {t('exchangeRates.showHistory')}
+          </label>
+
+          {isLoading && (
+            <div className="flex items-center justify-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary" />
+            </div>
+          )}
+
+          {error && <p className="text-sm text-error-600 dark:text-error-400">{t('exchangeRates.failedToLoad')}</p>}
+
+          {!isLoading && !error && rates.length === 0 && (
+            <p className="text-sm text-text-tertiary">{t('exchangeRates.noRates')}</p>
+          )}
+
+          {rates.length > 0 && (
+            <ul className="divide-y divide-border">
+              {rates.map((exchangeRate) => (
+                <li key={exchangeRate.id} className="flex items-center justify-between gap-3 py-2">
+                  <div className="min-w-0">
+                    <p className="font-medium text-text-primary">
+                      1 {exchangeRate.baseCurrency} = {exchangeRate.rate} {exchangeRate.quoteCurrency}
+                    </p>
+                    <p className="text-xs text-text-tertiary">
+                      {t('exchangeRates.effectiveFrom', { date: formatDate(exchangeRate.effectiveDate, locale) })} ·{' '}
+                      {t(`exchangeRates.sources.${exchangeRate.source}`)}
+                    </p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleDelete(exchangeRate)}
+                    disabled={deleteMutation.isPending}
+                    aria-label={t('exchangeRates.deleteRate')}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,145 @@
+/**
+ * FollowUpSettings Component
+ *
+ * Follow-up policy for leads that stopped replying (ADMIN only): after how
+ * many silent days the WARMING agent writes again, how many attempts it
+ * makes and whether follow-ups wait for approval or are sent automatically.
+ * Stored in the organization settings as followUps.
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { useUpdateOrganization } from '@/lib/hooks/useOrganizations';
+import { Card, CardHeader, CardTitle, CardContent, CardFooter } from '@/components/ui/Card';
+import Button from '@/components/ui/Button';
+import Input from '@/components/ui/Input';
+import { useToast } from '@/components/ui/use-toast';
+import { FollowUpMode, FollowUpSettings as FollowUps, Organization } from '@/types/organization';
+import { useTranslations } from 'next-intl';
+
+const MODES: FollowUpMode[] = ['APPROVAL', 'AUTO_SEND'];
+
+const DEFAULT_FOLLOW_UPS: FollowUps = {
+  enabled: false,
+  staleAfterDays: 3,
+  maxAttempts: 2,
+  mode: 'APPROVAL',
+};
+
+export default function FollowUpSettings({ organization }: { organization: Organization }) {
+  const { toast } = useToast();
+  const t = useTranslations();
+  const updateMutation = useUpdateOrganization();
+
+  const followUps: FollowUps = { ...DEFAULT_FOLLOW_UPS, ...organization.settings?.followUps };
+  const [enabled, setEnabled] = useState(followUps.enabled);
+  const [staleAfterDays, setStaleAfterDays] = useState(String(followUps.staleAfterDays));
+  const [maxAttempts, setMaxAttempts] = useState(String(followUps.maxAttempts));
+  const [mode, setMode] = useState<FollowUpMode>(followUps.mode);
+
+  const handleSave = async () => {
+    const days = Number(staleAfterDays);
+    const attempts = Number(maxAttempts);
+
+    if (!Number.isInteger(days) || days < 1 || days > 60 || !Number.isInteger(attempts) || attempts < 1 || attempts > 10) {
+      toast({
+        title: t('common.error'),
+        description: t('settings.followUps.invalid'),
+        variant: 'error',
+      });
+      return;
+    }
+
+    try {
+      await updateMutation.mutateAsync({
+        id: organization.id,
+        data: {
+          settings: {
+            ...organization.settings,
+            followUps: { enabled, staleAfterDays: days, maxAttempts: attempts, mode },
+          },
+        },
+      });
+      toast({
+        title: t('common.success'),
+        description: t('settings.followUps.saved'),
+        variant: 'success',
+      });
+    } catch (error: any) {
+      toast({
+        title: t('common.error'),
+        description: error.response?.data?.error || t('settings.followUps.failedToSave'),
+        variant: 'error',
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{t('settings.followUps.title')}</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <p className="text-sm text-text-secondary">{t('settings.followUps.helper')}</p>
+        <label className="flex items-center gap-2 text-sm text-text-secondary">
+          <input
+            type="checkbox"
+            checked={enabled}
+            onChange={(e) => setEnabled(e.target.checked)}
+            className="h-4 w-4 text-primary focus:ring-primary border-border rounded"
+          />
+          {t('settings.followUps.enabled')}
+        </label>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <Input
+            label={t('settings.followUps.staleAfterDays')}
+            type="number"
+            min={1}
+            max={60}
+            value={staleAfterDays}
+            disabled={!enabled}
+            onChange={(e) => setStaleAfterDays(e.target.value)}
+          />
+          <Input
+            label={t('settings.followUps.maxAttempts')}
+            type="number"
+            min={1}
+            max={10}
+            value={maxAttempts}
+            disabled={!enabled}
+            onChange={(e) => setMaxAttempts(e.target.value)}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-semibold text-text-primary mb-3">
+            {t('settings.followUps.mode')}
+          </label>
+          <select
+            value={mode}
+            disabled={!enabled}
+            onChange={(e) => setMode(e.target.value as FollowUpMode)}
+            className="w-full px-3 py-2 border border-border rounded-lg bg-background text-text-primary focus:outline-none focus:ring-2 focus:ring-primary"
+          >
+            {MODES.map((value) => (
+              <option key={value} value={value}>
+                {t(`settings.followUps.modes.${value}`)}
+              </option>
+            ))}
+          </select>
+          <p className="mt-2 text-sm text-text-tertiary">{t('settings.followUps.modeHelper')}</p>
+        </div>
+      </CardContent>
+      <CardFooter>
+        <Button
+          variant="default"
+          onClick={handleSave}
+          isLoading={updateMutation.isPending}
+          disabled={updateMutation.isPending}
+        >
+          {t('settings.saveChanges')}
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+}
@@ -0,0 +1,147 @@
+/**
+ * LlmBudgetSettings Component
+ *
+ * Monthly LLM budget of the organization (ADMIN only): soft and hard
+ * limits on tokens and cost, and the percentage at which admins are warned.
+ * Stored in the organization settings as llmBudget.
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { useUpdateOrganization } from '@/lib/hooks/useOrganizations';
+import { useLlmBudget } from '@/lib/hooks/useAnalytics';
+import { Card, CardHeader, CardTitle, CardContent, CardFooter } from '@/components/ui/Card';
+import Button from '@/components/ui/Button';
+import Input from '@/components/ui/Input';
+import { useToast } from '@/components/ui/use-toast';
+import { Organization } from '@/types/organization';
+import { LlmBudgetLimits, LlmBudgetSettings as LlmBudget } from '@/types/analytics';
+import { useTranslations } from 'next-intl';
+
+type LimitField = 'softTokens' | 'hardTokens' | 'softCost' | 'hardCost';
+
+const LIMIT_FIELDS: LimitField[] = ['softTokens', 'hardTokens', 'softCost', 'hardCost'];
+
+function toInput(value: number | undefined): string {
+  return value === undefined ? '' : String(value);
+}
+
+function toLimits(soft: string, hard: string): LlmBudgetLimits | undefined {
+  const limits: LlmBudgetLimits = {};
+  if (soft !== '') limits.soft = Number(soft);
+  if (hard !== '') limits.hard = Number(hard);
+  return Object.keys(limits).length > 0 ? limits : undefined;
+}
+
+export default function LlmBudgetSettings({ organization }: { organization: Organization }) {
+  const { toast } = useToast();
+  const t = useTranslations();
+  const updateMutation = useUpdateOrganization();
+  const { data: status } = useLlmBudget();
+
+  const budget: LlmBudget = organization.settings?.llmBudget ?? {};
+  const [values, setValues] = useState<Record<LimitField, string>>({
+    softTokens: toInput(budget.monthlyTokens?.soft),
+    hardTokens: toInput(budget.monthlyTokens?.hard),
+    softCost: toInput(budget.monthlyCost?.soft),
+    hardCost: toInput(budget.monthlyCost?.hard),
+  });
+  const [warningPercent, setWarningPercent] = useState(toInput(budget.warningPercent));
+
+  const handleSave = async () => {
+    const invalidLimit = LIMIT_FIELDS.some((field) => values[field] !== '' && !(Number(values[field]) > 0));
+    const invalidSoft =
+      (values.softTokens !== '' && values.hardTokens !== '' && Number(values.softTokens) > Number(values.hardTokens)) ||
+      (values.softCost !== '' && values.hardCost !== '' && Number(values.softCost) > Number(values.hardCost));
+    const invalidPercent =
+      warningPercent !== '' && !(Number(warningPercent) >= 1 && Number(warningPercent) <= 100);
+
+    if (invalidLimit || invalidSoft || invalidPercent) {
+      toast({
+        title: t('common.error'),
+        description: t('usage.budgetSettings.invalid'),
+        variant: 'error',
+      });
+      return;
+    }
+
+    const llmBudget: LlmBudget = {
+      monthlyTokens: toLimits(values.softTokens, values.hardTokens),
+      monthlyCost: toLimits(values.softCost, values.hardCost),
+      warningPercent: warningPercent === '' ? undefined : Number(warningPercent),
+    };
+    const hasLimits = llmBudget.monthlyTokens !== undefined || llmBudget.monthlyCost !== undefined;
+
+    try {
+      await updateMutation.mutateAsync({
+        id: organization.id,
+        data: {
+          settings: { ...organization.settings, llmBudget: hasLimits ? llmBudget : null },
+        },
+      });
+      toast({
+        title: t('common.success'),
+        description: t('usage.budgetSettings.saved'),
+        variant: 'success',
+      });
+    } catch (error: any) {
+      toast({
+        title: t('common.error'),
+        description: error.response?.data?.error || t('usage.budgetSettings.failedToSave'),
+        variant: 'error',
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{t('usage.budgetSettings.title')}</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <p className="text-sm text-text-secondary">{t('usage.budgetSettings.helper')}</p>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          {LIMIT_FIELDS.map((field) => (
+            <Input
+              key={field}
+              label={t(`usage.budgetSettings.${field}`)}
+              type="number"
+              min={0}
+              step={field.endsWith('Cost') ? '0.01' : '1'}
+              value={values[field]}
+              onChange={(e) => setValues((current) => ({ ...current, [field]: e.target.value }))}
+            />
+          ))}
+          <Input
+            label={t('usage.budgetSettings.warningPercent')}
+            type="number"
+            min={1}
+            max={100}
+            placeholder="80"
+            value={warningPercent}
+            onChange={(e) => setWarningPercent(e.target.value)}
+          />
+        </div>
+        {status && (
+          <p className="text-sm text-text-tertiary">
+            {t('usage.budgetSettings.currentUsage', {
+              tokens: status.usage.tokens,
+              cost: Number(status.usage.cost).toFixed(2),
+            })}
+          </p>
+        )}
+      </CardContent>
+      <CardFooter>
+        <Button
+          variant="default"
+          onClick={handleSave}
+          isLoading={updateMutation.isPending}
+          disabled={updateMutation.isPending}
+        >
+          {t('settings.saveChanges')}
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+}
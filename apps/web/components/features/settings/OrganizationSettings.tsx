@@ -19,10 +19,18 @@ import Input from '@/components/ui/Input';
 import { ThemeToggle } from '@/components/ui/ThemeToggle';
 import { useToast } from '@/components/ui/use-toast';
 import { useTranslations } from 'next-intl';
+import { CURRENCIES } from '@/types/exchange-rate';
+import ExchangeRatesSettings from './ExchangeRatesSettings';
+import LlmBudgetSettings from './LlmBudgetSettings';
+import FollowUpSettings from './FollowUpSettings';
 
 const organizationSchema = z.object({
   name: z.string().min(1, 'Organization name is required'),
   logo: z.string().url('Invalid logo URL').optional().or(z.literal('')),
+  reportingCurrency: z.enum(['USD', 'KGS', 'EUR', 'AED', 'RUB']),
+  partnerRatingThreshold: z
+    .string()
+    .refine((value) => value === '' || (Number(value) >= 0 && Number(value) <= 5), 'Threshold must be between 0 and 5'),
 });
 
 type OrganizationFormData = z.infer<typeof organizationSchema>;
@@ -45,6 +53,8 @@ export default function OrganizationSettings() {
       ? {
           name: organization.name,
           logo: organization.logo || '',
+          reportingCurrency: organization.reportingCurrency,
+          partnerRatingThreshold: organization.partnerRatingThreshold ?? '',
         }
       : undefined,
   });
@@ -58,6 +68,8 @@ export default function OrganizationSettings() {
         data: {
           name: data.name,
           logo: data.logo || undefined,
+          reportingCurrency: data.reportingCurrency,
+          partnerRatingThreshold: data.partnerRatingThreshold === '' ? null : Number(data.partnerRatingThreshold),
         },
       });
       toast({
@@ -163,6 +175,35 @@ export default function OrganizationSettings() {
               helperText={t('settings.logoUrlHelper')}
             />
 
+            <div>
+              <label className="block text-sm font-semibold text-text-primary mb-3">
+                {t('settings.reportingCurrency')}
+              </label>
+              <select
+                {...register('reportingCurrency')}
+                className="w-full px-3 py-2 border border-border rounded-lg bg-background text-text-primary focus:outline-none focus:ring-2 focus:ring-primary"
+              >
+                {CURRENCIES.map((currency) => (
+                  <option key={currency} value={currency}>
+                    {currency}
+                  </option>
+                ))}
+              </select>
+              <p className="mt-2 text-sm text-text-tertiary">{t('settings.reportingCurrencyHelper')}</p>
+            </div>
+
+            <Input
+              label={t('settings.partnerRatingThreshold')}
+              type="number"
+              min={0}
+              max={5}
+              step="0.1"
+              placeholder="3.5"
+              {...register('partnerRatingThreshold')}
+              error={errors.partnerRatingThreshold?.message}
+              helperText={t('settings.partnerRatingThresholdHelper')}
+            />
+
             <div className="pt-6 border-t border-border">
               <dl className="space-y-4">
                 <div>
@@ -196,6 +237,12 @@ export default function OrganizationSettings() {
           </CardFooter>
         </form>
       </Card>
+
+      <ExchangeRatesSettings />
+
+      <LlmBudgetSettings organization={organization} />
+
+      <FollowUpSettings organization={organization} />
     </div>
   );
 }
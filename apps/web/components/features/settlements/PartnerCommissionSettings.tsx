@@ -0,0 +1,158 @@
+/**
+ * PartnerCommissionSettings Component
+ *
+ * Commission rule per partner (ADMIN only): a percentage of the booking
+ * amount or a fixed amount per participant. Ledger entries are created
+ * with these rules when a booking is confirmed.
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { usePartners, useUpdatePartner } from '@/lib/hooks/usePartners';
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/Card';
+import Button from '@/components/ui/Button';
+import Input from '@/components/ui/Input';
+import { useToast } from '@/components/ui/use-toast';
+import { CommissionType, Partner } from '@/types/partner';
+import { CURRENCIES, CurrencyCode } from '@/types/exchange-rate';
+import { useTranslations } from 'next-intl';
+
+const SELECT_CLASS_NAME =
+  'flex h-10 w-full rounded-lg border border-input/50 bg-background/50 px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary-500';
+
+function PartnerCommissionRow({ partner }: { partner: Partner }) {
+  const { toast } = useToast();
+  const t = useTranslations();
+  const updateMutation = useUpdatePartner();
+
+  const [commissionType, setCommissionType] = useState<CommissionType | ''>(partner.commissionType ?? '');
+  const [commissionValue, setCommissionValue] = useState(partner.commissionValue ?? '');
+  const [commissionCurrency, setCommissionCurrency] = useState<CurrencyCode | ''>(partner.commissionCurrency ?? '');
+
+  const handleSave = async () => {
+    const value = Number(commissionValue);
+
+    if (
+      commissionType &&
+      (!commissionValue || !Number.isFinite(value) || value < 0 || (commissionType === 'PERCENTAGE' && value > 100))
+    ) {
+      toast({
+        title: t('common.error'),
+        description: t('settlements.invalidCommission'),
+        variant: 'error',
+      });
+      return;
+    }
+
+    try {
+      await updateMutation.mutateAsync({
+        id: partner.id,
+        data: {
+          commissionType: commissionType || null,
+          commissionValue: commissionType ? value : null,
+          commissionCurrency: commissionType === 'FIXED_PER_PARTICIPANT' && commissionCurrency ? commissionCurrency : null,
+        },
+      });
+      toast({
+        title: t('common.success'),
+        description: t('settlements.commissionSaved'),
+        variant: 'success',
+      });
+    } catch (error: any) {
+      toast({
+        title: t('common.error'),
+        description: error.response?.data?.error || t('settlements.failedToSaveCommission'),
+        variant: 'error',
+      });
+    }
+  };
+
+  return (
+    <li className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-3 items-end py-3">
+      <p className="font-medium text-text-primary lg:self-center">{partner.name}</p>
+      <div>
+        <label className="block text-sm font-semibold text-text-primary mb-2">{t('settlements.commissionType')}</label>
+        <select
+          value={commissionType}
+          onChange={(e) => setCommissionType(e.target.value as CommissionType | '')}
+          className={SELECT_CLASS_NAME}
+        >
+          <option value="">{t('settlements.noCommission')}</option>
+          <option value="PERCENTAGE">{t('settlements.commissionTypes.PERCENTAGE')}</option>
+          <option value="FIXED_PER_PARTICIPANT">{t('settlements.commissionTypes.FIXED_PER_PARTICIPANT')}</option>
+        </select>
+      </div>
+      <Input
+        label={commissionType === 'PERCENTAGE' ? t('settlements.percentage') : t('settlements.amountPerParticipant')}
+        type="number"
+        min={0}
+        step="any"
+        value={commissionValue}
+        onChange={(e) => setCommissionValue(e.target.value)}
+        disabled={!commissionType}
+      />
+      <div>
+        <label className="block text-sm font-semibold text-text-primary mb-2">{t('settlements.commissionCurrency')}</label>
+        <select
+          value={commissionCurrency}
+          onChange={(e) => setCommissionCurrency(e.target.value as CurrencyCode | '')}
+          className={SELECT_CLASS_NAME}
+          disabled={commissionType !== 'FIXED_PER_PARTICIPANT'}
+        >
+          <option value="">{t('settlements.bookingCurrency')}</option>
+          {CURRENCIES.map((currency) => (
+            <option key={currency} value={currency}>
+              {currency}
+            </option>
+          ))}
+        </select>
+      </div>
+      <Button
+        variant="outline"
+        onClick={handleSave}
+        isLoading={updateMutation.isPending}
+        disabled={updateMutation.isPending}
+      >
+        {t('common.save')}
+      </Button>
+    </li>
+  );
+}
+
+export default function PartnerCommissionSettings() {
+  const t = useTranslations();
+  const { data, isLoading, error } = usePartners({ limit: 100, includeBelowThreshold: true, sortBy: 'name' });
+  const partners = data?.data || [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{t('settlements.commissionRules')}</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <p className="text-sm text-text-secondary">{t('settlements.commissionRulesHelper')}</p>
+
+        {isLoading && (
+          <div className="flex items-center justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary" />
+          </div>
+        )}
+
+        {error && <p className="text-sm text-error-600 dark:text-error-400">{t('settlements.failedToLoadPartners')}</p>}
+
+        {!isLoading && !error && partners.length === 0 && (
+          <p className="text-sm text-text-tertiary">{t('settlements.noPartners')}</p>
+        )}
+
+        {partners.length > 0 && (
+          <ul className="divide-y divide-border">
+            {partners.map((partner) => (
+              <PartnerCommissionRow key={partner.id} partner={partner} />
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
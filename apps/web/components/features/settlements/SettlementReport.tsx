@@ -0,0 +1,237 @@
+/**
+ * SettlementReport Component
+ *
+ * Partner commissions for departures in a period: totals per partner
+ * and currency, paid/unpaid state per ledger entry and CSV export.
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { useSettlements, useUpdateLedgerEntryStatus, usePayLedgerEntries } from '@/lib/hooks/useSettlements';
+import { usePartners } from '@/lib/hooks/usePartners';
+import { settlementsApi } from '@/lib/api/settlements';
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/Card';
+import Button from '@/components/ui/Button';
+import Input from '@/components/ui/Input';
+import { useToast } from '@/components/ui/use-toast';
+import { LedgerEntry, LedgerEntryStatus, SettlementParams } from '@/types/settlement';
+import { downloadBlob } from '@/lib/utils';
+import { Download, CheckCheck } from 'lucide-react';
+import { useLocale, useTranslations } from 'next-intl';
+
+const SELECT_CLASS_NAME =
+  'flex h-10 w-full rounded-lg border border-input/50 bg-background/50 px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary-500';
+
+function formatDay(date: string, locale: string): string {
+  return new Intl.DateTimeFormat(locale === 'ru' ? 'ru-RU' : 'en-US', {
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+    timeZone: 'UTC',
+  }).format(new Date(date));
+}
+
+export default function SettlementReport() {
+  const { toast } = useToast();
+  const locale = useLocale();
+  const t = useTranslations();
+
+  const [partnerId, setPartnerId] = useState('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [status, setStatus] = useState<LedgerEntryStatus | ''>('');
+  const [isExporting, setIsExporting] = useState(false);
+
+  const params: SettlementParams = {
+    partnerId: partnerId || undefined,
+    from: from || undefined,
+    to: to || undefined,
+    status: status || undefined,
+  };
+
+  const { data: report, isLoading, error } = useSettlements(params);
+  const { data: partnersData } = usePartners({ limit: 100, includeBelowThreshold: true, sortBy: 'name' });
+  const updateStatusMutation = useUpdateLedgerEntryStatus();
+  const payMutation = usePayLedgerEntries();
+
+  const entries = report?.data || [];
+  const unpaidEntryIds = entries.filter((entry) => entry.status === 'UNPAID').map((entry) => entry.id);
+
+  const handleToggleStatus = async (entry: LedgerEntry) => {
+    try {
+      await updateStatusMutation.mutateAsync({
+        id: entry.id,
+        status: entry.status === 'PAID' ? 'UNPAID' : 'PAID',
+      });
+    } catch (error: any) {
+      toast({
+        title: t('common.error'),
+        description: error.response?.data?.error || t('settlements.failedToUpdate'),
+        variant: 'error',
+      });
+    }
+  };
+
+  const handlePayAll = async () => {
+    if (!confirm(t('settlements.confirmPayAll', { count: unpaidEntryIds.length }))) {
+      return;
+    }
+
+    try {
+      const result = await payMutation.mutateAsync(unpaidEntryIds);
+      toast({
+        title: t('common.success'),
+        description: t('settlements.paid', { count: result.paid }),
+        variant: 'success',
+      });
+    } catch (error: any) {
+      toast({
+        title: t('common.error'),
+        description: error.response?.data?.error || t('settlements.failedToUpdate'),
+        variant: 'error',
+      });
+    }
+  };
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const blob = await settlementsApi.getSettlementsCsv(params);
+      downloadBlob(blob, `settlements${from ? `-${from}` : ''}${to ? `-${to}` : ''}.csv`);
+    } catch (error: any) {
+      toast({
+        title: t('common.error'),
+        description: error.response?.data?.error || t('settlements.failedToExport'),
+        variant: 'error',
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-2xl">{t('settlements.title')}</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-3 items-end">
+          <div>
+            <label className="block text-sm font-semibold text-text-primary mb-2">{t('settlements.partner')}</label>
+            <select value={partnerId} onChange={(e) => setPartnerId(e.target.value)} className={SELECT_CLASS_NAME}>
+              <option value="">{t('settlements.allPartners')}</option>
+              {partnersData?.data.map((partner) => (
+                <option key={partner.id} value={partner.id}>
+                  {partner.name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <Input label={t('settlements.from')} type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+          <Input label={t('settlements.to')} type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+          <div>
+            <label className="block text-sm font-semibold text-text-primary mb-2">{t('settlements.status')}</label>
+            <select
+              value={status}
+              onChange={(e) => setStatus(e.target.value as LedgerEntryStatus | '')}
+              className={SELECT_CLASS_NAME}
+            >
+              <option value="">{t('settlements.allStatuses')}</option>
+              {(['UNPAID', 'PAID', 'VOID'] as const).map((value) => (
+                <option key={value} value={value}>
+                  {t(`settlements.statuses.${value}`)}
+                </option>
+              ))}
+            </select>
+          </div>
+          <Button variant="outline" onClick={handleExport} isLoading={isExporting} disabled={isExporting}>
+            <Download className="h-4 w-4 mr-2" />
+            {t('settlements.exportCsv')}
+          </Button>
+        </div>
+
+        {isLoading && (
+          <div className="flex items-center justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary" />
+          </div>
+        )}
+
+        {error && <p className="text-sm text-error-600 dark:text-error-400">{t('settlements.failedToLoad')}</p>}
+
+        {report && report.partners.length > 0 && (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3">
+            {report.partners.map((settlement) => (
+              <div key={settlement.partnerId} className="rounded-lg bg-background-subtle p-4 space-y-1">
+                <p className="font-semibold text-text-primary">{settlement.partnerName}</p>
+                <p className="text-xs text-text-tertiary">{t('settlements.entries', { count: settlement.entries })}</p>
+                {settlement.totals.map((total) => (
+                  <p key={total.currency} className="text-sm text-text-secondary">
+                    {total.total} {total.currency} · {t('settlements.paidAmount')}: {total.paid} ·{' '}
+                    {t('settlements.unpaidAmount')}: {total.unpaid}
+                  </p>
+                ))}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {report && entries.length === 0 && <p className="text-sm text-text-tertiary">{t('settlements.noEntries')}</p>}
+
+        {entries.length > 0 && (
+          <div className="space-y-3">
+            {unpaidEntryIds.length > 0 && (
+              <div className="flex justify-end">
+                <Button
+                  variant="default"
+                  size="sm"
+                  onClick={handlePayAll}
+                  isLoading={payMutation.isPending}
+                  disabled={payMutation.isPending}
+                >
+                  <CheckCheck className="h-4 w-4 mr-2" />
+                  {t('settlements.payAll', { count: unpaidEntryIds.length })}
+                </Button>
+              </div>
+            )}
+
+            <ul className="divide-y divide-border">
+              {entries.map((entry) => (
+                <li key={entry.id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 py-3">
+                  <div className="min-w-0">
+                    <p className="font-medium text-text-primary">
+                      {entry.partner.name} · {entry.clientName}
+                    </p>
+                    <p className="text-xs text-text-tertiary">
+                      {entry.productName} · {formatDay(entry.tourStartDate, locale)} ·{' '}
+                      {t('settlements.participants', { count: entry.participants })} ·{' '}
+                      {entry.commissionType === 'PERCENTAGE'
+                        ? `${entry.commissionValue}%`
+                        : t('settlements.perParticipant', { value: entry.commissionValue })}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-3 shrink-0">
+                    <p className="font-semibold text-text-primary">
+                      {entry.amount} {entry.currency}
+                    </p>
+                    <span className="text-xs text-text-secondary">{t(`settlements.statuses.${entry.status}`)}</span>
+                    {entry.status !== 'VOID' && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleToggleStatus(entry)}
+                        disabled={updateStatusMutation.isPending}
+                      >
+                        {entry.status === 'PAID' ? t('settlements.markUnpaid') : t('settlements.markPaid')}
+                      </Button>
+                    )}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
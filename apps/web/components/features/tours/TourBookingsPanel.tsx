@@ -0,0 +1,129 @@
+/**
+ * TourBookingsPanel Component
+ *
+ * Details of the departure selected in the tour calendar
+ * and the clients booked on it, linking to their detail pages.
+ */
+
+'use client';
+
+import Link from 'next/link';
+import { useTourClients } from '@/lib/hooks/useTours';
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/Card';
+import Button from '@/components/ui/Button';
+import { TourStatus } from '@/types/client';
+import { TourDeparture } from '@/types/tour';
+import { cn, formatPhone } from '@/lib/utils';
+import { Users, X } from 'lucide-react';
+import { useLocale, useTranslations } from 'next-intl';
+
+interface TourBookingsPanelProps {
+  tour: TourDeparture | null;
+  onClose: () => void;
+}
+
+const TOUR_STATUS_COLORS: Record<TourStatus, string> = {
+  AVAILABLE: 'bg-success-100 text-success-800 dark:bg-success-900 dark:text-success-300',
+  FULL: 'bg-warning-100 text-warning-800 dark:bg-warning-900 dark:text-warning-300',
+  CANCELLED: 'bg-error-100 text-error-800 dark:bg-error-900 dark:text-error-300',
+  COMPLETED: 'bg-neutral-100 text-neutral-800 dark:bg-neutral-800 dark:text-neutral-300',
+};
+
+export default function TourBookingsPanel({ tour, onClose }: TourBookingsPanelProps) {
+  const t = useTranslations();
+  const locale = useLocale();
+  const localeCode = locale === 'ru' ? 'ru-RU' : 'en-US';
+  const { data, isLoading, error } = useTourClients(tour?.id || '');
+
+  if (!tour) {
+    return (
+      <Card>
+        <CardContent className="pt-6">
+          <div className="text-center py-8">
+            <Users className="h-10 w-10 mx-auto mb-3 text-text-tertiary" />
+            <p className="text-sm text-text-secondary">{t('tourCalendar.selectDeparture')}</p>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const bookings = data?.data || [];
+  const fill = tour.maxParticipants
+    ? Math.min(100, Math.round((tour.currentParticipants / tour.maxParticipants) * 100))
+    : null;
+  const dateFormatter = new Intl.DateTimeFormat(localeCode, { day: 'numeric', month: 'short', year: 'numeric' });
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-2">
+          <CardTitle className="text-lg">{tour.product.name}</CardTitle>
+          <Button variant="ghost" size="sm" onClick={onClose} aria-label={t('common.close')}>
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2 text-sm text-text-secondary">
+          <p>
+            {dateFormatter.format(new Date(tour.startDate))} - {dateFormatter.format(new Date(tour.endDate))}
+          </p>
+          <span className={cn('inline-block px-2 py-0.5 rounded text-xs font-medium', TOUR_STATUS_COLORS[tour.status])}>
+            {t(`products.tours.tourStatusLabels.${tour.status}`)}
+          </span>
+          <p>
+            {t('tourCalendar.seats')}: {tour.currentParticipants}
+            {tour.maxParticipants !== null ? ` / ${tour.maxParticipants}` : ''}
+            {fill !== null ? ` (${fill}%)` : ''}
+          </p>
+          {tour.price && (
+            <p>
+              {t('products.price')}: {tour.price} {tour.currency}
+            </p>
+          )}
+        </div>
+
+        <div>
+          <h4 className="font-medium text-text-primary mb-2">
+            {t('tourCalendar.bookedClients', { count: bookings.length })}
+          </h4>
+          {isLoading && <p className="text-sm text-text-tertiary">{t('common.loading')}</p>}
+          {error && (
+            <p className="text-sm text-error-600 dark:text-error-400">{t('tourCalendar.failedToLoadClients')}</p>
+          )}
+          {!isLoading && !error && bookings.length === 0 && (
+            <p className="text-sm text-text-tertiary">{t('tourCalendar.noBookings')}</p>
+          )}
+          <ul className="space-y-2">
+            {bookings.map((booking) => {
+              const name = [booking.client.firstName, booking.client.lastName].filter(Boolean).join(' ');
+
+              return (
+                <li key={booking.id}>
+                  <Link
+                    href={`/dashboard/clients/${booking.client.id}`}
+                    className="block rounded-lg border border-border px-3 py-2 hover:bg-background-subtle transition-colors"
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="font-medium text-text-primary truncate">
+                        {name || formatPhone(booking.client.phone)}
+                      </span>
+                      <span className="text-xs text-text-tertiary flex-shrink-0">
+                        {t(`products.tours.statusLabels.${booking.status}`)}
+                      </span>
+                    </div>
+                    <div className="text-xs text-text-tertiary">
+                      {name && <span>{formatPhone(booking.client.phone)} · </span>}
+                      {t('products.tours.participants')}: {booking.participants || 1}
+                    </div>
+                  </Link>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,284 @@
+/**
+ * TourCalendar Component
+ *
+ * Month/week calendar of tour departures.
+ * Departures are colour-coded by status and show how full they are;
+ * clicking one opens the list of booked clients.
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useTours } from '@/lib/hooks/useTours';
+import { Card, CardContent } from '@/components/ui/Card';
+import Button from '@/components/ui/Button';
+import { TourStatus } from '@/types/client';
+import { TourDeparture } from '@/types/tour';
+import { cn } from '@/lib/utils';
+import { useToast } from '@/components/ui/use-toast';
+import { CalendarDays, ChevronLeft, ChevronRight } from 'lucide-react';
+import { useLocale, useTranslations } from 'next-intl';
+import TourBookingsPanel from './TourBookingsPanel';
+
+type CalendarView = 'month' | 'week';
+
+const TOUR_STATUS_COLORS: Record<TourStatus, string> = {
+  AVAILABLE: 'bg-success-100 text-success-800 dark:bg-success-900 dark:text-success-300',
+  FULL: 'bg-warning-100 text-warning-800 dark:bg-warning-900 dark:text-warning-300',
+  CANCELLED: 'bg-error-100 text-error-800 dark:bg-error-900 dark:text-error-300 line-through',
+  COMPLETED: 'bg-neutral-100 text-neutral-800 dark:bg-neutral-800 dark:text-neutral-300',
+};
+
+const TOUR_STATUSES: TourStatus[] = ['AVAILABLE', 'FULL', 'CANCELLED', 'COMPLETED'];
+
+// Departures shown per day in month view before collapsing into "+N"
+const MONTH_CELL_LIMIT = 3;
+
+function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+}
+
+// Weeks start on Monday
+function startOfWeek(date: Date): Date {
+  return addDays(startOfDay(date), -((date.getDay() + 6) % 7));
+}
+
+function isSameDay(a: Date, b: Date): boolean {
+  return a.getTime() === b.getTime();
+}
+
+/**
+ * First and last day shown for the view: whole weeks covering the month, or a single week
+ */
+function getVisibleRange(view: CalendarView, cursor: Date): { start: Date; end: Date } {
+  if (view === 'week') {
+    const start = startOfWeek(cursor);
+    return { start, end: addDays(start, 6) };
+  }
+
+  const firstOfMonth = new Date(cursor.getFullYear(), cursor.getMonth(), 1);
+  const lastOfMonth = new Date(cursor.getFullYear(), cursor.getMonth() + 1, 0);
+  return { start: startOfWeek(firstOfMonth), end: addDays(startOfWeek(lastOfMonth), 6) };
+}
+
+function coversDay(tour: TourDeparture, day: Date): boolean {
+  const start = startOfDay(new Date(tour.startDate));
+  const end = startOfDay(new Date(tour.endDate));
+  return start <= day && day <= end;
+}
+
+/**
+ * Fill level in percent, null for departures without capacity
+ */
+function getFillPercent(tour: Pick<TourDeparture, 'currentParticipants' | 'maxParticipants'>): number | null {
+  if (!tour.maxParticipants) return null;
+  return Math.min(100, Math.round((tour.currentParticipants / tour.maxParticipants) * 100));
+}
+
+export default function TourCalendar() {
+  const t = useTranslations();
+  const locale = useLocale();
+  const { toast } = useToast();
+  const localeCode = locale === 'ru' ? 'ru-RU' : 'en-US';
+
+  const [view, setView] = useState<CalendarView>('month');
+  const [cursor, setCursor] = useState(() => startOfDay(new Date()));
+  const [selectedTourId, setSelectedTourId] = useState<string | null>(null);
+
+  const { start, end } = getVisibleRange(view, cursor);
+  const days: Date[] = [];
+  for (let day = start; day <= end; day = addDays(day, 1)) {
+    days.push(day);
+  }
+
+  const { data, isLoading, error } = useTours({
+    from: start.toISOString(),
+    // Include departures starting on the last visible day
+    to: new Date(addDays(end, 1).getTime() - 1).toISOString(),
+    limit: 200,
+  });
+  const tours = data?.data || [];
+  const selectedTour = tours.find((tour) => tour.id === selectedTourId) || null;
+
+  useEffect(() => {
+    if (error) {
+      toast({
+        title: t('common.error'),
+        description: t('tourCalendar.failedToLoadTours'),
+        variant: 'error',
+      });
+    }
+  }, [error, toast, t]);
+
+  const today = startOfDay(new Date());
+
+  const title =
+    view === 'month'
+      ? new Intl.DateTimeFormat(localeCode, { month: 'long', year: 'numeric' }).format(cursor)
+      : `${new Intl.DateTimeFormat(localeCode, { day: 'numeric', month: 'short' }).format(start)} - ${new Intl.DateTimeFormat(localeCode, { day: 'numeric', month: 'short', year: 'numeric' }).format(end)}`;
+
+  const weekdayFormatter = new Intl.DateTimeFormat(localeCode, { weekday: 'short' });
+
+  const handleNavigate = (direction: -1 | 1) => {
+    setCursor((current) =>
+      view === 'month'
+        ? new Date(current.getFullYear(), current.getMonth() + direction, 1)
+        : addDays(current, direction * 7)
+    );
+  };
+
+  const handleShowWeek = (day: Date) => {
+    setCursor(day);
+    setView('week');
+  };
+
+  const renderTour = (tour: TourDeparture, compact: boolean) => {
+    const fill = getFillPercent(tour);
+
+    return (
+      <button
+        key={tour.id}
+        type="button"
+        onClick={() => setSelectedTourId(tour.id)}
+        title={tour.product.name}
+        className={cn(
+          'w-full text-left rounded px-1.5 py-1 text-xs font-medium transition-shadow hover:shadow-sm focus:outline-none focus:ring-2 focus:ring-primary-500',
+          TOUR_STATUS_COLORS[tour.status],
+          selectedTourId === tour.id && 'ring-2 ring-primary-500'
+        )}
+      >
+        <span className="block truncate">{tour.product.name}</span>
+        {!compact && (
+          <span className="block font-normal opacity-80">
+            {tour.currentParticipants}
+            {tour.maxParticipants !== null ? ` / ${tour.maxParticipants}` : ''} {t('tourCalendar.seats')}
+          </span>
+        )}
+        {fill !== null && (
+          <span className="mt-1 block h-1 w-full rounded-full bg-black/10 dark:bg-white/10">
+            <span className="block h-1 rounded-full bg-current" style={{ width: `${fill}%` }} />
+          </span>
+        )}
+      </button>
+    );
+  };
+
+  return (
+    <div className="max-w-7xl mx-auto space-y-4 sm:space-y-6 lg:space-y-8">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 sm:gap-6">
+        <h1 className="text-2xl sm:text-3xl md:text-4xl lg:text-5xl font-bold text-text-primary leading-tight">
+          {t('tourCalendar.title')}
+        </h1>
+        <div className="flex items-center gap-2">
+          <Button variant={view === 'month' ? 'default' : 'outline'} size="sm" onClick={() => setView('month')}>
+            {t('tourCalendar.month')}
+          </Button>
+          <Button variant={view === 'week' ? 'default' : 'outline'} size="sm" onClick={() => setView('week')}>
+            {t('tourCalendar.week')}
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid gap-4 sm:gap-6 lg:grid-cols-[1fr_320px]">
+        <Card>
+          <CardContent className="pt-6">
+            {/* Navigation */}
+            <div className="flex items-center justify-between gap-2 mb-4">
+              <Button variant="ghost" size="sm" onClick={() => handleNavigate(-1)} aria-label={t('tourCalendar.previous')}>
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <div className="flex items-center gap-2">
+                <h2 className="text-lg font-semibold text-text-primary capitalize">{title}</h2>
+                <Button variant="outline" size="sm" onClick={() => setCursor(today)}>
+                  {t('tourCalendar.today')}
+                </Button>
+              </div>
+              <Button variant="ghost" size="sm" onClick={() => handleNavigate(1)} aria-label={t('tourCalendar.next')}>
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+            </div>
+
+            {/* Legend */}
+            <div className="flex flex-wrap gap-2 mb-4">
+              {TOUR_STATUSES.map((status) => (
+                <span key={status} className={cn('px-2 py-0.5 rounded text-xs font-medium', TOUR_STATUS_COLORS[status])}>
+                  {t(`products.tours.tourStatusLabels.${status}`)}
+                </span>
+              ))}
+            </div>
+
+            {/* Grid */}
+            <div className="overflow-x-auto">
+              <div className="grid grid-cols-7 min-w-[640px] border-l border-t border-border">
+                {days.slice(0, 7).map((day) => (
+                  <div
+                    key={`weekday-${day.getTime()}`}
+                    className="border-r border-b border-border px-2 py-1 text-xs font-medium text-text-tertiary uppercase"
+                  >
+                    {weekdayFormatter.format(day)}
+                  </div>
+                ))}
+                {days.map((day) => {
+                  const dayTours = tours.filter((tour) => coversDay(tour, day));
+                  const isOutside = view === 'month' && day.getMonth() !== cursor.getMonth();
+                  const visibleTours = view === 'month' ? dayTours.slice(0, MONTH_CELL_LIMIT) : dayTours;
+                  const hiddenCount = dayTours.length - visibleTours.length;
+
+                  return (
+                    <div
+                      key={day.getTime()}
+                      className={cn(
+                        'border-r border-b border-border p-1 space-y-1',
+                        view === 'month' ? 'min-h-28' : 'min-h-80',
+                        isOutside && 'bg-background-subtle'
+                      )}
+                    >
+                      <div
+                        className={cn(
+                          'text-xs font-medium px-1',
+                          isOutside ? 'text-text-muted' : 'text-text-secondary',
+                          isSameDay(day, today) && 'text-primary-600 dark:text-primary-400 font-bold'
+                        )}
+                      >
+                        {view === 'month'
+                          ? day.getDate()
+                          : new Intl.DateTimeFormat(localeCode, { day: 'numeric', month: 'short' }).format(day)}
+                      </div>
+                      {visibleTours.map((tour) => renderTour(tour, view === 'month'))}
+                      {hiddenCount > 0 && (
+                        <button
+                          type="button"
+                          onClick={() => handleShowWeek(day)}
+                          className="w-full text-left px-1.5 text-xs text-primary-600 dark:text-primary-400 hover:underline"
+                        >
+                          {t('tourCalendar.more', { count: hiddenCount })}
+                        </button>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+
+            {isLoading && (
+              <p className="mt-4 text-sm text-text-tertiary">{t('common.loading')}</p>
+            )}
+            {!isLoading && !error && tours.length === 0 && (
+              <div className="mt-6 text-center">
+                <CalendarDays className="h-10 w-10 mx-auto mb-3 text-text-tertiary" />
+                <p className="text-text-secondary">{t('tourCalendar.noTours')}</p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <TourBookingsPanel tour={selectedTour} onClose={() => setSelectedTourId(null)} />
+      </div>
+    </div>
+  );
+}
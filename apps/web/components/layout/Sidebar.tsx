@@ -12,7 +12,13 @@ import { cn } from '@/lib/utils';
 import {
   LayoutDashboard,
   Users,
+  Package,
+  CalendarDays,
   UserCheck,
+  Wallet,
+  FlaskConical,
+  BarChart3,
+  Coins,
   Settings,
   X,
 } from 'lucide-react';
@@ -40,12 +46,46 @@ export default function Sidebar({ isOpen, onClose }: SidebarProps) {
       href: '/dashboard/clients',
       icon: Users,
     },
+    {
+      name: t('navigation.products'),
+      href: '/dashboard/products',
+      icon: Package,
+    },
+    {
+      name: t('navigation.tours'),
+      href: '/dashboard/tours',
+      icon: CalendarDays,
+    },
     {
       name: t('navigation.users'),
       href: '/dashboard/users',
       icon: UserCheck,
       adminOnly: true,
     },
+    {
+      name: t('navigation.settlements'),
+      href: '/dashboard/settlements',
+      icon: Wallet,
+      adminOnly: true,
+    },
+    {
+      name: t('navigation.experiments'),
+      href: '/dashboard/experiments',
+      icon: FlaskConical,
+      adminOnly: true,
+    },
+    {
+      name: t('navigation.analytics'),
+      href: '/dashboard/analytics',
+      icon: BarChart3,
+      adminOnly: true,
+    },
+    {
+      name: t('navigation.usage'),
+      href: '/dashboard/usage',
+      icon: Coins,
+      adminOnly: true,
+    },
     {
       name: t('navigation.settings'),
       href: '/dashboard/settings',
@@ -0,0 +1,40 @@
+/**
+ * Analytics API
+ * 
+ * API functions for dialogue analysis results, LLM usage and budget
+ */
+
+import apiClient from '../api-client';
+import {
+  DialogueAnalysesParams,
+  DialogueAnalysesResponse,
+  LlmBudgetStatus,
+  LlmUsageParams,
+  LlmUsageResponse,
+} from '@/types/analytics';
+
+export const analyticsApi = {
+  /**
+   * Get dialogue analysis runs, newest first
+   */
+  async getDialogueAnalyses(params?: DialogueAnalysesParams): Promise<DialogueAnalysesResponse> {
+    const response = await apiClient.get<DialogueAnalysesResponse>('/analytics/dialogue-analyses', { params });
+    return response.data;
+  },
+
+  /**
+   * Get LLM token usage and cost by day, agent and model
+   */
+  async getLlmUsage(params?: LlmUsageParams): Promise<LlmUsageResponse> {
+    const response = await apiClient.get<LlmUsageResponse>('/analytics/llm-usage', { params });
+    return response.data;
+  },
+
+  /**
+   * Get this month's LLM usage against the organization budget
+   */
+  async getLlmBudget(): Promise<LlmBudgetStatus> {
+    const response = await apiClient.get<LlmBudgetStatus>('/analytics/llm-budget');
+    return response.data;
+  },
+};
@@ -19,6 +19,19 @@ import {
   ClientProductsResponse,
   ClientProduct,
   AddProductRequest,
+  AddClientTourRequest,
+  UpdateClientTourStatusRequest,
+  UpdateClientTourStatusResponse,
+  ClientTour,
+  AssignPartnerRequest,
+  AssignPartnerResponse,
+  PartnerAssignmentsResponse,
+  TripRequirementsResponse,
+  ExtractTripRequirementsResponse,
+  UpdateTripRequirementsRequest,
+  ProductRecommendation,
+  ProductRecommendationsResponse,
+  AcceptProductRecommendationResponse,
 } from '@/types/client';
 
 export const clientsApi = {
@@ -112,6 +125,106 @@ export const clientsApi = {
     const response = await apiClient.delete<{ success: boolean }>(`/clients/${id}/products/${productId}`);
     return response.data;
   },
-};
 
+  /**
+   * Add a tour departure to a client's booking workflow
+   */
+  async addClientTour(id: string, data: AddClientTourRequest): Promise<ClientTour> {
+    const response = await apiClient.post<ClientTour>(`/clients/${id}/tours`, data);
+    return response.data;
+  },
+
+  /**
+   * Move a client tour to another booking status
+   */
+  async updateClientTourStatus(
+    id: string,
+    clientTourId: string,
+    data: UpdateClientTourStatusRequest
+  ): Promise<UpdateClientTourStatusResponse> {
+    const response = await apiClient.patch<UpdateClientTourStatusResponse>(
+      `/clients/${id}/tours/${clientTourId}/status`,
+      data
+    );
+    return response.data;
+  },
+
+  /**
+   * Assign a partner to a client (null clears the assignment)
+   */
+  async assignPartner(id: string, data: AssignPartnerRequest): Promise<AssignPartnerResponse> {
+    const response = await apiClient.patch<AssignPartnerResponse>(`/clients/${id}/partner`, data);
+    return response.data;
+  },
+
+  /**
+   * Get partner assignment history for a client
+   */
+  async getPartnerAssignments(id: string): Promise<PartnerAssignmentsResponse> {
+    const response = await apiClient.get<PartnerAssignmentsResponse>(`/clients/${id}/partner-assignments`);
+    return response.data;
+  },
+
+  /**
+   * Get trip requirements extracted by the qualification agent
+   */
+  async getTripRequirements(id: string): Promise<TripRequirementsResponse> {
+    const response = await apiClient.get<TripRequirementsResponse>(`/clients/${id}/trip-requirements`);
+    return response.data;
+  },
 
+  /**
+   * Extract trip requirements from messages received since the previous run
+   */
+  async extractTripRequirements(id: string): Promise<ExtractTripRequirementsResponse> {
+    const response = await apiClient.post<ExtractTripRequirementsResponse>(`/clients/${id}/trip-requirements/extract`);
+    return response.data;
+  },
+
+  /**
+   * Edit trip requirements (edited fields are kept by the agent)
+   */
+  async updateTripRequirements(id: string, data: UpdateTripRequirementsRequest): Promise<TripRequirementsResponse> {
+    const response = await apiClient.put<TripRequirementsResponse>(`/clients/${id}/trip-requirements`, data);
+    return response.data;
+  },
+
+  /**
+   * Get pending product suggestions, best match first
+   */
+  async getProductRecommendations(id: string): Promise<ProductRecommendationsResponse> {
+    const response = await apiClient.get<ProductRecommendationsResponse>(`/clients/${id}/product-recommendations`);
+    return response.data;
+  },
+
+  /**
+   * Generate product suggestions (replaces pending ones)
+   */
+  async recommendProducts(id: string): Promise<ProductRecommendationsResponse> {
+    const response = await apiClient.post<ProductRecommendationsResponse>(`/clients/${id}/product-recommendations`);
+    return response.data;
+  },
+
+  /**
+   * Accept a suggestion (adds the product to the client as interested)
+   */
+  async acceptProductRecommendation(
+    id: string,
+    recommendationId: string
+  ): Promise<AcceptProductRecommendationResponse> {
+    const response = await apiClient.post<AcceptProductRecommendationResponse>(
+      `/clients/${id}/product-recommendations/${recommendationId}/accept`
+    );
+    return response.data;
+  },
+
+  /**
+   * Dismiss a suggestion
+   */
+  async dismissProductRecommendation(id: string, recommendationId: string): Promise<ProductRecommendation> {
+    const response = await apiClient.post<ProductRecommendation>(
+      `/clients/${id}/product-recommendations/${recommendationId}/dismiss`
+    );
+    return response.data;
+  },
+};
@@ -0,0 +1,58 @@
+/**
+ * Conversations API
+ * 
+ * API functions for reply drafts prepared by the COMMUNICATION agent
+ */
+
+import apiClient from '../api-client';
+import {
+  ReplyDraft,
+  ReplyDraftsResponse,
+  ReplyDraftStatus,
+  GenerateReplyDraftRequest,
+  ApproveReplyDraftRequest,
+  ApproveReplyDraftResponse,
+} from '@/types/reply-draft';
+
+export const conversationsApi = {
+  /**
+   * Get reply drafts of a conversation (newest first)
+   */
+  async getReplyDrafts(conversationId: string, status?: ReplyDraftStatus): Promise<ReplyDraftsResponse> {
+    const response = await apiClient.get<ReplyDraftsResponse>(`/conversations/${conversationId}/reply-drafts`, {
+      params: { status },
+    });
+    return response.data;
+  },
+
+  /**
+   * Generate a reply draft with the COMMUNICATION agent
+   */
+  async generateReplyDraft(conversationId: string, data: GenerateReplyDraftRequest = {}): Promise<ReplyDraft> {
+    const response = await apiClient.post<ReplyDraft>(`/conversations/${conversationId}/reply-drafts`, data);
+    return response.data;
+  },
+
+  /**
+   * Approve a draft (optionally edited) and send it to the client
+   */
+  async approveReplyDraft(
+    conversationId: string,
+    draftId: string,
+    data: ApproveReplyDraftRequest = {}
+  ): Promise<ApproveReplyDraftResponse> {
+    const response = await apiClient.post<ApproveReplyDraftResponse>(
+      `/conversations/${conversationId}/reply-drafts/${draftId}/approve`,
+      data
+    );
+    return response.data;
+  },
+
+  /**
+   * Reject a draft without sending it
+   */
+  async rejectReplyDraft(conversationId: string, draftId: string): Promise<ReplyDraft> {
+    const response = await apiClient.post<ReplyDraft>(`/conversations/${conversationId}/reply-drafts/${draftId}/reject`);
+    return response.data;
+  },
+};
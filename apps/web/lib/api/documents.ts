@@ -0,0 +1,53 @@
+/**
+ * Documents API
+ * 
+ * API functions for rendering proposals and booking confirmations
+ */
+
+import apiClient from '../api-client';
+import { DocumentParams } from '@/types/document';
+
+type DocumentKind = 'proposals' | 'bookings';
+
+async function getDocumentBlob(
+  kind: DocumentKind,
+  id: string,
+  format: 'html' | 'pdf',
+  params?: DocumentParams
+): Promise<Blob> {
+  const response = await apiClient.get<Blob>(`/documents/${kind}/${id}`, {
+    params: { ...params, format },
+    responseType: 'blob',
+  });
+  return response.data;
+}
+
+export const documentsApi = {
+  /**
+   * Get proposal as branded HTML page
+   */
+  async getProposalHtml(id: string, params?: DocumentParams): Promise<Blob> {
+    return getDocumentBlob('proposals', id, 'html', params);
+  },
+
+  /**
+   * Get proposal as PDF file
+   */
+  async getProposalPdf(id: string, params?: DocumentParams): Promise<Blob> {
+    return getDocumentBlob('proposals', id, 'pdf', params);
+  },
+
+  /**
+   * Get booking confirmation as branded HTML page
+   */
+  async getBookingConfirmationHtml(clientTourId: string, params?: DocumentParams): Promise<Blob> {
+    return getDocumentBlob('bookings', clientTourId, 'html', params);
+  },
+
+  /**
+   * Get booking confirmation as PDF file
+   */
+  async getBookingConfirmationPdf(clientTourId: string, params?: DocumentParams): Promise<Blob> {
+    return getDocumentBlob('bookings', clientTourId, 'pdf', params);
+  },
+};
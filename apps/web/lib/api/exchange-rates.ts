@@ -0,0 +1,59 @@
+/**
+ * Exchange Rates API
+ * 
+ * API functions for organization exchange rates and revenue reports
+ */
+
+import apiClient from '../api-client';
+import {
+  ExchangeRate,
+  ExchangeRatesResponse,
+  ExchangeRatesParams,
+  CreateExchangeRateRequest,
+  ImportExchangeRatesRequest,
+  ImportExchangeRatesResponse,
+  RevenueReport,
+  RevenueReportParams,
+} from '@/types/exchange-rate';
+
+export const exchangeRatesApi = {
+  /**
+   * Get exchange rates with the reporting currency
+   */
+  async getExchangeRates(params?: ExchangeRatesParams): Promise<ExchangeRatesResponse> {
+    const response = await apiClient.get<ExchangeRatesResponse>('/exchange-rates', { params });
+    return response.data;
+  },
+
+  /**
+   * Set a rate for a currency pair
+   */
+  async createExchangeRate(data: CreateExchangeRateRequest): Promise<ExchangeRate> {
+    const response = await apiClient.post<ExchangeRate>('/exchange-rates', data);
+    return response.data;
+  },
+
+  /**
+   * Import rates from CSV file contents
+   */
+  async importExchangeRates(data: ImportExchangeRatesRequest): Promise<ImportExchangeRatesResponse> {
+    const response = await apiClient.post<ImportExchangeRatesResponse>('/exchange-rates/import', data);
+    return response.data;
+  },
+
+  /**
+   * Delete exchange rate
+   */
+  async deleteExchangeRate(id: string): Promise<{ success: boolean }> {
+    const response = await apiClient.delete<{ success: boolean }>(`/exchange-rates/${id}`);
+    return response.data;
+  },
+
+  /**
+   * Get booked revenue in the reporting currency
+   */
+  async getRevenueReport(params?: RevenueReportParams): Promise<RevenueReport> {
+    const response = await apiClient.get<RevenueReport>('/reports/revenue', { params });
+    return response.data;
+  },
+};
@@ -0,0 +1,48 @@
+/**
+ * Experiments API
+ * 
+ * API functions for A/B prompt experiments and their reports
+ */
+
+import apiClient from '../api-client';
+import {
+  Experiment,
+  ExperimentsResponse,
+  ExperimentReport,
+  ExperimentStatus,
+  PromoteVariantResult,
+} from '@/types/experiment';
+
+export const experimentsApi = {
+  /**
+   * Get experiments with their variants
+   */
+  async getExperiments(): Promise<ExperimentsResponse> {
+    const response = await apiClient.get<ExperimentsResponse>('/experiments');
+    return response.data;
+  },
+
+  /**
+   * Get conversion statistics per variant
+   */
+  async getExperimentReport(id: string): Promise<ExperimentReport> {
+    const response = await apiClient.get<ExperimentReport>(`/experiments/${id}/report`);
+    return response.data;
+  },
+
+  /**
+   * Pause, resume, complete or cancel experiment
+   */
+  async updateExperimentStatus(id: string, status: ExperimentStatus): Promise<Experiment> {
+    const response = await apiClient.patch<Experiment>(`/experiments/${id}/status`, { status });
+    return response.data;
+  },
+
+  /**
+   * Make variant the default agent configuration and complete experiment
+   */
+  async promoteVariant(id: string, variantId: string): Promise<PromoteVariantResult> {
+    const response = await apiClient.post<PromoteVariantResult>(`/experiments/${id}/promote`, { variantId });
+    return response.data;
+  },
+};
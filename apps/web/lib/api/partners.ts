@@ -0,0 +1,91 @@
+/**
+ * Partners API
+ * 
+ * API functions for partner directory operations
+ */
+
+import apiClient from '../api-client';
+import {
+  Partner,
+  PartnerListResponse,
+  PartnerListParams,
+  CreatePartnerRequest,
+  UpdatePartnerRequest,
+  PartnerFeedback,
+  PartnerFeedbackResponse,
+  CreatePartnerFeedbackRequest,
+} from '@/types/partner';
+
+export const partnersApi = {
+  /**
+   * Get list of partners with filtering and pagination
+   */
+  async getPartners(params?: PartnerListParams): Promise<PartnerListResponse> {
+    const response = await apiClient.get<PartnerListResponse>('/partners', { params });
+    return response.data;
+  },
+
+  /**
+   * Get partner by ID
+   */
+  async getPartner(id: string): Promise<Partner> {
+    const response = await apiClient.get<Partner>(`/partners/${id}`);
+    return response.data;
+  },
+
+  /**
+   * Create new partner
+   */
+  async createPartner(data: CreatePartnerRequest): Promise<Partner> {
+    const response = await apiClient.post<Partner>('/partners', data);
+    return response.data;
+  },
+
+  /**
+   * Update partner
+   */
+  async updatePartner(id: string, data: UpdatePartnerRequest): Promise<Partner> {
+    const response = await apiClient.put<Partner>(`/partners/${id}`, data);
+    return response.data;
+  },
+
+  /**
+   * Delete partner that is not linked to products or clients
+   */
+  async deletePartner(id: string): Promise<{ success: boolean }> {
+    const response = await apiClient.delete<{ success: boolean }>(`/partners/${id}`);
+    return response.data;
+  },
+
+  /**
+   * Get feedback recorded for partner
+   */
+  async getPartnerFeedback(id: string): Promise<PartnerFeedbackResponse> {
+    const response = await apiClient.get<PartnerFeedbackResponse>(`/partners/${id}/feedback`);
+    return response.data;
+  },
+
+  /**
+   * Record client feedback for partner (recomputes its rating)
+   */
+  async createPartnerFeedback(
+    id: string,
+    data: CreatePartnerFeedbackRequest
+  ): Promise<PartnerFeedback & { rating: string | null }> {
+    const response = await apiClient.post<PartnerFeedback & { rating: string | null }>(
+      `/partners/${id}/feedback`,
+      data
+    );
+    return response.data;
+  },
+
+  /**
+   * Delete partner feedback (recomputes its rating)
+   */
+  async deletePartnerFeedback(id: string, feedbackId: string): Promise<{ success: boolean; rating: string | null }> {
+    const response = await apiClient.delete<{ success: boolean; rating: string | null }>(
+      `/partners/${id}/feedback/${feedbackId}`
+    );
+    return response.data;
+  },
+};
@@ -0,0 +1,65 @@
+/**
+ * Products API
+ * 
+ * API functions for product catalog operations
+ */
+
+import apiClient from '../api-client';
+import {
+  CatalogProduct,
+  ProductListResponse,
+  ProductListParams,
+  CreateProductRequest,
+  UpdateProductRequest,
+} from '@/types/product';
+
+export const productsApi = {
+  /**
+   * Get list of catalog products with filtering and pagination
+   */
+  async getProducts(params?: ProductListParams): Promise<ProductListResponse> {
+    const response = await apiClient.get<ProductListResponse>('/products', { params });
+    return response.data;
+  },
+
+  /**
+   * Get product by ID
+   */
+  async getProduct(id: string): Promise<CatalogProduct> {
+    const response = await apiClient.get<CatalogProduct>(`/products/${id}`);
+    return response.data;
+  },
+
+  /**
+   * Create new product
+   */
+  async createProduct(data: CreateProductRequest): Promise<CatalogProduct> {
+    const response = await apiClient.post<CatalogProduct>('/products', data);
+    return response.data;
+  },
+
+  /**
+   * Update product
+   */
+  async updateProduct(id: string, data: UpdateProductRequest): Promise<CatalogProduct> {
+    const response = await apiClient.put<CatalogProduct>(`/products/${id}`, data);
+    return response.data;
+  },
+
+  /**
+   * Activate or deactivate product
+   */
+  async setProductActive(id: string, isActive: boolean): Promise<CatalogProduct> {
+    const action = isActive ? 'activate' : 'deactivate';
+    const response = await apiClient.patch<CatalogProduct>(`/products/${id}/${action}`);
+    return response.data;
+  },
+
+  /**
+   * Delete product that is not linked to clients or tours
+   */
+  async deleteProduct(id: string): Promise<{ success: boolean }> {
+    const response = await apiClient.delete<{ success: boolean }>(`/products/${id}`);
+    return response.data;
+  },
+};
@@ -0,0 +1,48 @@
+/**
+ * Proposals API
+ * 
+ * API functions for proposal operations
+ */
+
+import apiClient from '../api-client';
+import {
+  Proposal,
+  ProposalListResponse,
+  ProposalListParams,
+  CreateProposalRequest,
+  SendProposalResponse,
+} from '@/types/proposal';
+
+export const proposalsApi = {
+  /**
+   * Get list of proposals, newest version first
+   */
+  async getProposals(params?: ProposalListParams): Promise<ProposalListResponse> {
+    const response = await apiClient.get<ProposalListResponse>('/proposals', { params });
+    return response.data;
+  },
+
+  /**
+   * Get proposal version by ID
+   */
+  async getProposal(id: string): Promise<Proposal> {
+    const response = await apiClient.get<Proposal>(`/proposals/${id}`);
+    return response.data;
+  },
+
+  /**
+   * Save a new proposal version for a client
+   */
+  async createProposal(data: CreateProposalRequest): Promise<Proposal> {
+    const response = await apiClient.post<Proposal>('/proposals', data);
+    return response.data;
+  },
+
+  /**
+   * Send proposal: marks its products as PROPOSED and moves the client to PROPOSAL_SENT
+   */
+  async sendProposal(id: string, reason?: string): Promise<SendProposalResponse> {
+    const response = await apiClient.post<SendProposalResponse>(`/proposals/${id}/send`, { reason });
+    return response.data;
+  },
+};
@@ -0,0 +1,45 @@
+/**
+ * Settlements API
+ * 
+ * API functions for the partner commission ledger and settlement reports
+ */
+
+import apiClient from '../api-client';
+import { LedgerEntry, LedgerEntryStatus, SettlementReport, SettlementParams } from '@/types/settlement';
+
+export const settlementsApi = {
+  /**
+   * Get ledger entries with totals per partner
+   */
+  async getSettlements(params?: SettlementParams): Promise<SettlementReport> {
+    const response = await apiClient.get<SettlementReport>('/settlements', { params });
+    return response.data;
+  },
+
+  /**
+   * Get settlement report as CSV file
+   */
+  async getSettlementsCsv(params?: SettlementParams): Promise<Blob> {
+    const response = await apiClient.get<Blob>('/settlements', {
+      params: { ...params, format: 'csv' },
+      responseType: 'blob',
+    });
+    return response.data;
+  },
+
+  /**
+   * Mark ledger entry as paid or unpaid
+   */
+  async updateEntryStatus(id: string, status: Exclude<LedgerEntryStatus, 'VOID'>): Promise<LedgerEntry> {
+    const response = await apiClient.patch<LedgerEntry>(`/settlements/entries/${id}`, { status });
+    return response.data;
+  },
+
+  /**
+   * Mark unpaid ledger entries as paid
+   */
+  async payEntries(entryIds: string[]): Promise<{ paid: number }> {
+    const response = await apiClient.post<{ paid: number }>('/settlements/pay', { entryIds });
+    return response.data;
+  },
+};
@@ -0,0 +1,57 @@
+/**
+ * Tours API
+ * 
+ * API functions for tour departure operations
+ */
+
+import apiClient from '../api-client';
+import {
+  TourDeparture,
+  TourListResponse,
+  TourListParams,
+  CreateTourRequest,
+  UpdateTourRequest,
+  TourClientsResponse,
+} from '@/types/tour';
+
+export const toursApi = {
+  /**
+   * Get list of departures with filtering by product, status and date range
+   */
+  async getTours(params?: TourListParams): Promise<TourListResponse> {
+    const response = await apiClient.get<TourListResponse>('/tours', { params });
+    return response.data;
+  },
+
+  /**
+   * Get departure by ID
+   */
+  async getTour(id: string): Promise<TourDeparture> {
+    const response = await apiClient.get<TourDeparture>(`/tours/${id}`);
+    return response.data;
+  },
+
+  /**
+   * Get clients booked on a departure (BOOKED and CONFIRMED by default)
+   */
+  async getTourClients(id: string): Promise<TourClientsResponse> {
+    const response = await apiClient.get<TourClientsResponse>(`/tours/${id}/clients`);
+    return response.data;
+  },
+
+  /**
+   * Schedule new departure
+   */
+  async createTour(data: CreateTourRequest): Promise<TourDeparture> {
+    const response = await apiClient.post<TourDeparture>('/tours', data);
+    return response.data;
+  },
+
+  /**
+   * Update departure
+   */
+  async updateTour(id: string, data: UpdateTourRequest): Promise<TourDeparture> {
+    const response = await apiClient.put<TourDeparture>(`/tours/${id}`, data);
+    return response.data;
+  },
+};
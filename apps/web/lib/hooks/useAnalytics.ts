@@ -0,0 +1,33 @@
+/**
+ * useAnalytics Hook
+ * 
+ * Custom hooks for dialogue analysis results, LLM usage and budget with React Query
+ */
+
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import { analyticsApi } from '../api/analytics';
+import { DialogueAnalysesParams, LlmUsageParams } from '@/types/analytics';
+
+export function useDialogueAnalyses(params?: DialogueAnalysesParams) {
+  return useQuery({
+    queryKey: ['dialogue-analyses', params],
+    queryFn: () => analyticsApi.getDialogueAnalyses(params),
+  });
+}
+
+export function useLlmUsage(params?: LlmUsageParams) {
+  return useQuery({
+    queryKey: ['llm-usage', params],
+    queryFn: () => analyticsApi.getLlmUsage(params),
+  });
+}
+
+export function useLlmBudget(enabled = true) {
+  return useQuery({
+    queryKey: ['llm-budget'],
+    queryFn: () => analyticsApi.getLlmBudget(),
+    enabled,
+  });
+}
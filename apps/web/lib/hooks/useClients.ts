@@ -16,6 +16,10 @@ import {
   ConversationsParams,
   MessagesParams,
   AddProductRequest,
+  AssignPartnerRequest,
+  AddClientTourRequest,
+  UpdateClientTourStatusRequest,
+  UpdateTripRequirementsRequest,
 } from '@/types/client';
 
 export function useClients(params?: ClientListParams) {
@@ -128,3 +132,133 @@ export function useRemoveClientProduct() {
   });
 }
 
+export function useAddClientTour() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ clientId, data }: { clientId: string; data: AddClientTourRequest }) =>
+      clientsApi.addClientTour(clientId, data),
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['client', variables.clientId, 'products'] });
+    },
+  });
+}
+
+export function useUpdateClientTourStatus() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      clientId,
+      clientTourId,
+      data,
+    }: {
+      clientId: string;
+      clientTourId: string;
+      data: UpdateClientTourStatusRequest;
+    }) => clientsApi.updateClientTourStatus(clientId, clientTourId, data),
+    onSuccess: (_, variables) => {
+      // Seats and client status may change together with the booking
+      queryClient.invalidateQueries({ queryKey: ['client', variables.clientId] });
+      queryClient.invalidateQueries({ queryKey: ['clients'] });
+      queryClient.invalidateQueries({ queryKey: ['tours'] });
+      queryClient.invalidateQueries({ queryKey: ['tour'] });
+    },
+  });
+}
+
+export function useClientPartnerAssignments(clientId: string) {
+  return useQuery({
+    queryKey: ['client', clientId, 'partner-assignments'],
+    queryFn: () => clientsApi.getPartnerAssignments(clientId),
+    enabled: !!clientId,
+  });
+}
+
+export function useAssignPartner() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ clientId, data }: { clientId: string; data: AssignPartnerRequest }) =>
+      clientsApi.assignPartner(clientId, data),
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['client', variables.clientId] });
+      queryClient.invalidateQueries({ queryKey: ['partners'] });
+    },
+  });
+}
+
+export function useTripRequirements(clientId: string) {
+  return useQuery({
+    queryKey: ['client', clientId, 'trip-requirements'],
+    queryFn: () => clientsApi.getTripRequirements(clientId),
+    enabled: !!clientId,
+  });
+}
+
+export function useExtractTripRequirements() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (clientId: string) => clientsApi.extractTripRequirements(clientId),
+    onSuccess: (_, clientId) => {
+      queryClient.invalidateQueries({ queryKey: ['client', clientId, 'trip-requirements'] });
+    },
+  });
+}
+
+export function useUpdateTripRequirements() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ clientId, data }: { clientId: string; data: UpdateTripRequirementsRequest }) =>
+      clientsApi.updateTripRequirements(clientId, data),
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['client', variables.clientId, 'trip-requirements'] });
+    },
+  });
+}
+
+export function useProductRecommendations(clientId: string) {
+  return useQuery({
+    queryKey: ['client', clientId, 'product-recommendations'],
+    queryFn: () => clientsApi.getProductRecommendations(clientId),
+    enabled: !!clientId,
+  });
+}
+
+export function useRecommendProducts() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (clientId: string) => clientsApi.recommendProducts(clientId),
+    onSuccess: (_, clientId) => {
+      queryClient.invalidateQueries({ queryKey: ['client', clientId, 'product-recommendations'] });
+    },
+  });
+}
+
+export function useAcceptProductRecommendation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ clientId, recommendationId }: { clientId: string; recommendationId: string }) =>
+      clientsApi.acceptProductRecommendation(clientId, recommendationId),
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['client', variables.clientId, 'product-recommendations'] });
+      queryClient.invalidateQueries({ queryKey: ['client', variables.clientId, 'products'] });
+    },
+  });
+}
+
+export function useDismissProductRecommendation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ clientId, recommendationId }: { clientId: string; recommendationId: string }) =>
+      clientsApi.dismissProductRecommendation(clientId, recommendationId),
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['client', variables.clientId, 'product-recommendations'] });
+    },
+  });
+}
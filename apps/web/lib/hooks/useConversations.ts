@@ -0,0 +1,67 @@
+/**
+ * useConversations Hook
+ * 
+ * Custom hook for conversation reply drafts with React Query
+ */
+
+'use client';
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { conversationsApi } from '../api/conversations';
+
+export function usePendingReplyDrafts(conversationId: string | null) {
+  return useQuery({
+    queryKey: ['conversation', conversationId, 'reply-drafts', 'PENDING'],
+    queryFn: () => conversationsApi.getReplyDrafts(conversationId!, 'PENDING'),
+    enabled: !!conversationId,
+  });
+}
+
+export function useGenerateReplyDraft() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ conversationId, instructions }: { conversationId: string; instructions?: string }) =>
+      conversationsApi.generateReplyDraft(conversationId, { instructions }),
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['conversation', variables.conversationId, 'reply-drafts'] });
+    },
+  });
+}
+
+export function useApproveReplyDraft() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      conversationId,
+      draftId,
+      content,
+    }: {
+      clientId: string;
+      conversationId: string;
+      draftId: string;
+      content?: string;
+    }) => conversationsApi.approveReplyDraft(conversationId, draftId, { content }),
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['client', variables.clientId, 'messages'] });
+      queryClient.invalidateQueries({ queryKey: ['client', variables.clientId, 'conversations'] });
+    },
+    // A rejected approval may still change the draft (a follow-up expires once the client replies)
+    onSettled: (_, __, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['conversation', variables.conversationId, 'reply-drafts'] });
+    },
+  });
+}
+
+export function useRejectReplyDraft() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ conversationId, draftId }: { conversationId: string; draftId: string }) =>
+      conversationsApi.rejectReplyDraft(conversationId, draftId),
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['conversation', variables.conversationId, 'reply-drafts'] });
+    },
+  });
+}
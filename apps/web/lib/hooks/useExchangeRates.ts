@@ -0,0 +1,73 @@
+/**
+ * useExchangeRates Hook
+ * 
+ * Custom hook for managing exchange rates and revenue reports with React Query
+ */
+
+'use client';
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { exchangeRatesApi } from '../api/exchange-rates';
+import {
+  ExchangeRatesParams,
+  CreateExchangeRateRequest,
+  ImportExchangeRatesRequest,
+  RevenueReportParams,
+} from '@/types/exchange-rate';
+
+/**
+ * Converted prices depend on the rates, so queries showing them are refreshed too
+ */
+function useInvalidateConverted() {
+  const queryClient = useQueryClient();
+
+  return () => {
+    queryClient.invalidateQueries({ queryKey: ['exchangeRates'] });
+    queryClient.invalidateQueries({ queryKey: ['products'] });
+    queryClient.invalidateQueries({ queryKey: ['product'] });
+    queryClient.invalidateQueries({ queryKey: ['proposals'] });
+    queryClient.invalidateQueries({ queryKey: ['client'] });
+    queryClient.invalidateQueries({ queryKey: ['revenueReport'] });
+  };
+}
+
+export function useExchangeRates(params?: ExchangeRatesParams) {
+  return useQuery({
+    queryKey: ['exchangeRates', params],
+    queryFn: () => exchangeRatesApi.getExchangeRates(params),
+  });
+}
+
+export function useCreateExchangeRate() {
+  const invalidate = useInvalidateConverted();
+
+  return useMutation({
+    mutationFn: (data: CreateExchangeRateRequest) => exchangeRatesApi.createExchangeRate(data),
+    onSuccess: invalidate,
+  });
+}
+
+export function useImportExchangeRates() {
+  const invalidate = useInvalidateConverted();
+
+  return useMutation({
+    mutationFn: (data: ImportExchangeRatesRequest) => exchangeRatesApi.importExchangeRates(data),
+    onSuccess: invalidate,
+  });
+}
+
+export function useDeleteExchangeRate() {
+  const invalidate = useInvalidateConverted();
+
+  return useMutation({
+    mutationFn: (id: string) => exchangeRatesApi.deleteExchangeRate(id),
+    onSuccess: invalidate,
+  });
+}
+
+export function useRevenueReport(params?: RevenueReportParams) {
+  return useQuery({
+    queryKey: ['revenueReport', params],
+    queryFn: () => exchangeRatesApi.getRevenueReport(params),
+  });
+}
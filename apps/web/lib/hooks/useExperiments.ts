@@ -0,0 +1,49 @@
+/**
+ * useExperiments Hook
+ * 
+ * Custom hook for A/B prompt experiments with React Query
+ */
+
+'use client';
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { experimentsApi } from '../api/experiments';
+import { ExperimentStatus } from '@/types/experiment';
+
+export function useExperiments() {
+  return useQuery({
+    queryKey: ['experiments'],
+    queryFn: () => experimentsApi.getExperiments(),
+  });
+}
+
+export function useExperimentReport(id: string | null) {
+  return useQuery({
+    queryKey: ['experiments', id, 'report'],
+    queryFn: () => experimentsApi.getExperimentReport(id!),
+    enabled: !!id,
+  });
+}
+
+export function useUpdateExperimentStatus() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, status }: { id: string; status: ExperimentStatus }) =>
+      experimentsApi.updateExperimentStatus(id, status),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['experiments'] });
+    },
+  });
+}
+
+export function usePromoteVariant() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, variantId }: { id: string; variantId: string }) => experimentsApi.promoteVariant(id, variantId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['experiments'] });
+    },
+  });
+}
@@ -34,6 +34,22 @@ export function useUpdateOrganization() {
     onSuccess: (_, variables) => {
       queryClient.invalidateQueries({ queryKey: ['organizations'] });
       queryClient.invalidateQueries({ queryKey: ['organization', variables.id] });
+      if (variables.data.reportingCurrency) {
+        // Prices are shown converted to the reporting currency
+        queryClient.invalidateQueries({ queryKey: ['exchangeRates'] });
+        queryClient.invalidateQueries({ queryKey: ['products'] });
+        queryClient.invalidateQueries({ queryKey: ['proposals'] });
+        queryClient.invalidateQueries({ queryKey: ['client'] });
+        queryClient.invalidateQueries({ queryKey: ['revenueReport'] });
+      }
+      if (variables.data.partnerRatingThreshold !== undefined) {
+        // Partners below the threshold are hidden from lists
+        queryClient.invalidateQueries({ queryKey: ['partners'] });
+      }
+      if (variables.data.settings !== undefined) {
+        // Budget warnings depend on settings.llmBudget
+        queryClient.invalidateQueries({ queryKey: ['llm-budget'] });
+      }
     },
   });
 }
@@ -0,0 +1,104 @@
+/**
+ * usePartners Hook
+ * 
+ * Custom hook for managing partner directory data with React Query
+ */
+
+'use client';
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { partnersApi } from '../api/partners';
+import {
+  PartnerListParams,
+  CreatePartnerRequest,
+  UpdatePartnerRequest,
+  CreatePartnerFeedbackRequest,
+} from '@/types/partner';
+
+export function usePartners(params?: PartnerListParams, options?: { enabled?: boolean }) {
+  return useQuery({
+    queryKey: ['partners', params],
+    queryFn: () => partnersApi.getPartners(params),
+    enabled: options?.enabled ?? true,
+  });
+}
+
+export function usePartner(id: string) {
+  return useQuery({
+    queryKey: ['partner', id],
+    queryFn: () => partnersApi.getPartner(id),
+    enabled: !!id,
+  });
+}
+
+export function useCreatePartner() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: CreatePartnerRequest) => partnersApi.createPartner(data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['partners'] });
+    },
+  });
+}
+
+export function useUpdatePartner() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: UpdatePartnerRequest }) =>
+      partnersApi.updatePartner(id, data),
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['partners'] });
+      queryClient.invalidateQueries({ queryKey: ['partner', variables.id] });
+    },
+  });
+}
+
+export function useDeletePartner() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => partnersApi.deletePartner(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['partners'] });
+    },
+  });
+}
+
+export function usePartnerFeedback(id: string, options?: { enabled?: boolean }) {
+  return useQuery({
+    queryKey: ['partnerFeedback', id],
+    queryFn: () => partnersApi.getPartnerFeedback(id),
+    enabled: !!id && (options?.enabled ?? true),
+  });
+}
+
+export function useCreatePartnerFeedback() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: CreatePartnerFeedbackRequest }) =>
+      partnersApi.createPartnerFeedback(id, data),
+    onSuccess: (_, variables) => {
+      // Rating changes the partner order and threshold filtering
+      queryClient.invalidateQueries({ queryKey: ['partners'] });
+      queryClient.invalidateQueries({ queryKey: ['partner', variables.id] });
+      queryClient.invalidateQueries({ queryKey: ['partnerFeedback', variables.id] });
+    },
+  });
+}
+
+export function useDeletePartnerFeedback() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, feedbackId }: { id: string; feedbackId: string }) =>
+      partnersApi.deletePartnerFeedback(id, feedbackId),
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['partners'] });
+      queryClient.invalidateQueries({ queryKey: ['partner', variables.id] });
+      queryClient.invalidateQueries({ queryKey: ['partnerFeedback', variables.id] });
+    },
+  });
+}
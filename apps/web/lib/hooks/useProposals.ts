@@ -0,0 +1,54 @@
+/**
+ * useProposals Hook
+ * 
+ * Custom hook for managing proposals with React Query
+ */
+
+'use client';
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { proposalsApi } from '../api/proposals';
+import { ProposalListParams, CreateProposalRequest } from '@/types/proposal';
+
+export function useProposals(params?: ProposalListParams, options?: { enabled?: boolean }) {
+  return useQuery({
+    queryKey: ['proposals', params],
+    queryFn: () => proposalsApi.getProposals(params),
+    enabled: options?.enabled ?? true,
+  });
+}
+
+export function useProposal(id: string) {
+  return useQuery({
+    queryKey: ['proposal', id],
+    queryFn: () => proposalsApi.getProposal(id),
+    enabled: !!id,
+  });
+}
+
+export function useCreateProposal() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: CreateProposalRequest) => proposalsApi.createProposal(data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['proposals'] });
+    },
+  });
+}
+
+export function useSendProposal() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, reason }: { id: string; clientId: string; reason?: string }) =>
+      proposalsApi.sendProposal(id, reason),
+    onSuccess: (_, variables) => {
+      // Sending updates the client's status and product statuses
+      queryClient.invalidateQueries({ queryKey: ['proposals'] });
+      queryClient.invalidateQueries({ queryKey: ['proposal', variables.id] });
+      queryClient.invalidateQueries({ queryKey: ['client', variables.clientId] });
+      queryClient.invalidateQueries({ queryKey: ['clients'] });
+    },
+  });
+}
@@ -0,0 +1,41 @@
+/**
+ * useSettlements Hook
+ * 
+ * Custom hook for partner settlement reports with React Query
+ */
+
+'use client';
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { settlementsApi } from '../api/settlements';
+import { LedgerEntryStatus, SettlementParams } from '@/types/settlement';
+
+export function useSettlements(params?: SettlementParams) {
+  return useQuery({
+    queryKey: ['settlements', params],
+    queryFn: () => settlementsApi.getSettlements(params),
+  });
+}
+
+export function useUpdateLedgerEntryStatus() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, status }: { id: string; status: Exclude<LedgerEntryStatus, 'VOID'> }) =>
+      settlementsApi.updateEntryStatus(id, status),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['settlements'] });
+    },
+  });
+}
+
+export function usePayLedgerEntries() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (entryIds: string[]) => settlementsApi.payEntries(entryIds),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['settlements'] });
+    },
+  });
+}
@@ -0,0 +1,58 @@
+/**
+ * useTours Hook
+ * 
+ * Custom hook for managing tour departures with React Query
+ */
+
+'use client';
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { toursApi } from '../api/tours';
+import { TourListParams, CreateTourRequest, UpdateTourRequest } from '@/types/tour';
+
+export function useTours(params?: TourListParams, options?: { enabled?: boolean }) {
+  return useQuery({
+    queryKey: ['tours', params],
+    queryFn: () => toursApi.getTours(params),
+    enabled: options?.enabled ?? true,
+  });
+}
+
+export function useTour(id: string) {
+  return useQuery({
+    queryKey: ['tour', id],
+    queryFn: () => toursApi.getTour(id),
+    enabled: !!id,
+  });
+}
+
+export function useTourClients(id: string) {
+  return useQuery({
+    queryKey: ['tour', id, 'clients'],
+    queryFn: () => toursApi.getTourClients(id),
+    enabled: !!id,
+  });
+}
+
+export function useCreateTour() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: CreateTourRequest) => toursApi.createTour(data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['tours'] });
+    },
+  });
+}
+
+export function useUpdateTour() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: UpdateTourRequest }) => toursApi.updateTour(id, data),
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['tours'] });
+      queryClient.invalidateQueries({ queryKey: ['tour', variables.id] });
+    },
+  });
+}
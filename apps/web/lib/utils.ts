@@ -6,6 +6,7 @@
 
 import { type ClassValue, clsx } from 'clsx';
 import { twMerge } from 'tailwind-merge';
+import type { Money } from '@/types/exchange-rate';
 
 /**
  * Merge Tailwind CSS classes
@@ -77,6 +78,39 @@ export function formatRelativeTime(date: string | Date, locale: string = 'en'):
   return formatDate(d, locale);
 }
 
+/**
+ * Format a price converted to another currency (e.g. "≈ 21875.00 KGS")
+ * @param price - Converted price, null when there is no exchange rate
+ * @param currency - Original currency; nothing is shown when it's the same
+ */
+export function formatConvertedPrice(price: Money | null | undefined, currency: string): string {
+  if (!price || price.currency === currency) return '';
+  return `≈ ${price.amount} ${price.currency}`;
+}
 
+/**
+ * Save a downloaded file in the browser
+ * @param blob - File contents
+ * @param filename - Suggested file name
+ */
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
 
-
+/**
+ * Open a downloaded HTML document in a new tab
+ * @param blob - HTML contents
+ */
+export function openBlob(blob: Blob): void {
+  const url = URL.createObjectURL(blob);
+  window.open(url, '_blank', 'noopener');
+  // Give the new tab time to load before releasing the URL
+  setTimeout(() => URL.revokeObjectURL(url), 60_000);
+}
@@ -0,0 +1,130 @@
+/**
+ * Analytics Types
+ */
+
+export type RecommendationPriority = 'HIGH' | 'MEDIUM' | 'LOW';
+
+export interface ConversationExample {
+  conversationId: string;
+  clientId: string;
+  clientName: string;
+}
+
+export interface DialogueFinding {
+  title: string;
+  description: string;
+  priority?: RecommendationPriority;
+  examples: ConversationExample[];
+}
+
+export interface DialogueAnalysisRun {
+  runId: string;
+  createdAt: string | null;
+  promptVariant: {
+    id: string;
+    name: string;
+  } | null;
+  period: {
+    from: string;
+    to: string;
+  } | null;
+  sample: {
+    won: number;
+    lost: number;
+  };
+  metrics: {
+    wonCount: number;
+    lostCount: number;
+    winRate: number | null;
+    averageMessages: {
+      won: number | null;
+      lost: number | null;
+    };
+  } | null;
+  successPatterns: DialogueFinding[];
+  problemAreas: DialogueFinding[];
+  recommendations: DialogueFinding[];
+}
+
+export interface DialogueAnalysesResponse {
+  data: DialogueAnalysisRun[];
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+  };
+}
+
+export interface DialogueAnalysesParams {
+  page?: number;
+  limit?: number;
+  promptVariantId?: string;
+  from?: string;
+  to?: string;
+}
+
+export type AgentType =
+  | 'COMMUNICATION'
+  | 'QUALIFICATION'
+  | 'PRODUCT_SELECTION'
+  | 'STATUS_DETECTION'
+  | 'WARMING'
+  | 'SALES'
+  | 'SERVICE'
+  | 'FEEDBACK';
+
+export interface LlmUsageTotals {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  cost: string;
+  unpricedCalls: number;
+  averageLatencyMs: number;
+}
+
+export interface LlmUsageResponse {
+  period: {
+    from: string;
+    to: string;
+  };
+  totals: LlmUsageTotals;
+  byDay: ({ date: string } & LlmUsageTotals)[];
+  byAgent: ({ agentType: AgentType | null } & LlmUsageTotals)[];
+  byModel: ({ model: string } & LlmUsageTotals)[];
+}
+
+export interface LlmUsageParams {
+  from?: string;
+  to?: string;
+  agentType?: AgentType;
+  model?: string;
+}
+
+export type LlmBudgetLevel = 'OK' | 'WARNING' | 'SOFT_EXCEEDED' | 'HARD_EXCEEDED';
+
+export interface LlmBudgetLimits {
+  soft?: number;
+  hard?: number;
+}
+
+export interface LlmBudgetSettings {
+  monthlyTokens?: LlmBudgetLimits;
+  monthlyCost?: LlmBudgetLimits;
+  warningPercent?: number;
+}
+
+export interface LlmBudgetStatus {
+  period: {
+    from: string;
+    to: string;
+  };
+  usage: {
+    tokens: number;
+    cost: string;
+  };
+  budget: LlmBudgetSettings | null;
+  level: LlmBudgetLevel;
+  percentUsed: number | null;
+}
@@ -2,6 +2,9 @@
  * Client Types
  */
 
+import type { ProductOption } from './product';
+import type { CurrencyCode, Money } from './exchange-rate';
+
 export type ClientStatus =
   | 'NEW_LEAD'
   | 'QUALIFIED'
@@ -21,12 +24,18 @@ export interface Client {
   lastName?: string;
   status: ClientStatus;
   preferredLanguage?: string;
+  preferredCurrency?: CurrencyCode | null;
   culturalContext?: {
     halal?: boolean;
     formality?: 'formal' | 'casual';
     timezone?: string;
   };
   metadata?: ClientMetadata;
+  assignedPartnerId?: string | null;
+  assignedPartner?: {
+    id: string;
+    name: string;
+  } | null;
   createdAt: string;
   updatedAt: string;
 }
@@ -57,6 +66,7 @@ export interface CreateClientRequest {
   lastName?: string;
   status?: ClientStatus;
   preferredLanguage?: string;
+  preferredCurrency?: CurrencyCode | null;
 }
 
 export interface Note {
@@ -77,6 +87,7 @@ export interface UpdateClientRequest {
   lastName?: string;
   status?: ClientStatus;
   preferredLanguage?: string;
+  preferredCurrency?: CurrencyCode | null;
   metadata?: ClientMetadata;
 }
 
@@ -85,7 +96,7 @@ export type ConversationStatus = 'ACTIVE' | 'ARCHIVED';
 export type ConversationManager = 'AI' | 'HUMAN';
 export type MessageDirection = 'INCOMING' | 'OUTGOING';
 export type MessageSender = 'CLIENT' | 'AI' | 'HUMAN';
-export type MessageStatus = 'SENT' | 'DELIVERED' | 'READ' | 'FAILED';
+export type MessageStatus = 'PENDING' | 'SENT' | 'DELIVERED' | 'READ' | 'FAILED';
 
 export interface Conversation {
   id: string;
@@ -186,7 +197,11 @@ export interface Product {
   description: string | null;
   basePrice: string;
   currency: string;
+  // Base price in the organization's reporting and the client's preferred currency
+  reportingPrice?: Money | null;
+  clientPrice?: Money | null;
   type: ProductType;
+  options?: ProductOption[];
 }
 
 export interface TourProduct {
@@ -220,7 +235,13 @@ export interface ClientTour {
   id: string;
   tourId: string;
   tour: Tour;
+  // Partner serving the booking: the product's partner or the client's assigned one
+  partner: {
+    id: string;
+    name: string;
+  } | null;
   status: ClientTourStatus;
+  nextStatuses: ClientTourStatus[];
   participants: number | null;
   notes: string | null;
   createdAt: string;
@@ -238,3 +259,137 @@ export interface AddProductRequest {
   notes?: string;
 }
 
+export interface AddClientTourRequest {
+  tourId: string;
+  status?: 'INTERESTED' | 'PROPOSED' | 'SELECTED';
+  participants?: number;
+  notes?: string;
+}
+
+export interface UpdateClientTourStatusRequest {
+  status: ClientTourStatus;
+  participants?: number;
+  reason?: string;
+  markClientSold?: boolean;
+}
+
+export interface UpdateClientTourStatusResponse extends ClientTour {
+  clientStatus: ClientStatus;
+}
+
+// Partner assignment
+export interface AssignPartnerRequest {
+  partnerId: string | null;
+  reason?: string;
+}
+
+export interface PartnerAssignmentEntry {
+  id: string;
+  partnerId: string | null;
+  partner: {
+    id: string;
+    name: string;
+  } | null;
+  previousPartnerId: string | null;
+  assignedBy: {
+    id: string;
+    firstName: string | null;
+    lastName: string | null;
+    email: string;
+  } | null;
+  reason: string | null;
+  createdAt: string;
+}
+
+export interface AssignPartnerResponse {
+  id: string;
+  assignedPartnerId: string | null;
+  assignedPartner: {
+    id: string;
+    name: string;
+  } | null;
+  assignment: Omit<PartnerAssignmentEntry, 'partner' | 'assignedBy'> & {
+    assignedById: string | null;
+  };
+}
+
+export interface PartnerAssignmentsResponse {
+  data: PartnerAssignmentEntry[];
+}
+
+export type TripRequirementField = 'travelDates' | 'groupSize' | 'budget' | 'interests' | 'dietaryNeeds';
+
+export interface TripRequirementFieldMeta {
+  confidence: number;
+  sourceMessageIds: string[];
+  updatedBy: 'AI' | 'HUMAN';
+  updatedAt: string;
+}
+
+export interface TripRequirements {
+  travelStartDate: string | null;
+  travelEndDate: string | null;
+  adults: number | null;
+  children: number | null;
+  budgetAmount: number | null;
+  budgetCurrency: string | null;
+  interests: string[];
+  dietaryNeeds: string[];
+  fieldMeta: Partial<Record<TripRequirementField, TripRequirementFieldMeta>>;
+  analyzedUntil: string | null;
+  updatedAt: string;
+}
+
+export interface TripRequirementsResponse {
+  data: TripRequirements | null;
+  proposedStatus: ClientStatus | null;
+}
+
+export interface ExtractTripRequirementsResponse extends TripRequirementsResponse {
+  updatedFields: TripRequirementField[];
+  analyzedMessages: number;
+}
+
+export type UpdateTripRequirementsRequest = Partial<
+  Omit<TripRequirements, 'interests' | 'dietaryNeeds' | 'fieldMeta' | 'analyzedUntil' | 'updatedAt'>
+> & {
+  interests?: string[];
+  dietaryNeeds?: string[];
+};
+
+export type ProductRecommendationStatus = 'PENDING' | 'ACCEPTED' | 'DISMISSED';
+
+/**
+ * Catalog suggestion from the product selection agent
+ */
+export interface ProductRecommendation {
+  id: string;
+  productId: string;
+  product: {
+    id: string;
+    name: string;
+    description: string | null;
+    type: ProductType;
+    duration: number | null;
+    basePrice: string;
+    currency: string;
+  };
+  tourId: string | null;
+  tour: Omit<Tour, 'status' | 'product'> | null;
+  rank: number;
+  score: number; // 0-1
+  explanation: string;
+  status: ProductRecommendationStatus;
+  reviewedAt: string | null;
+  createdAt: string;
+}
+
+export interface ProductRecommendationsResponse {
+  data: ProductRecommendation[];
+}
+
+export interface AcceptProductRecommendationResponse {
+  recommendation: ProductRecommendation;
+  clientProduct: Omit<ClientProduct, 'product'>;
+  clientTour: ClientTour | null;
+}
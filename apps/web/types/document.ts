@@ -0,0 +1,10 @@
+/**
+ * Document Types
+ */
+
+export type DocumentLanguage = 'en' | 'ru';
+
+export interface DocumentParams {
+  // Defaults to the client's preferred language
+  language?: DocumentLanguage;
+}
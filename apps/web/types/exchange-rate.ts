@@ -0,0 +1,71 @@
+/**
+ * Exchange Rate and Revenue Report Types
+ */
+
+export type CurrencyCode = 'USD' | 'KGS' | 'EUR' | 'AED' | 'RUB';
+
+export const CURRENCIES: CurrencyCode[] = ['USD', 'KGS', 'EUR', 'AED', 'RUB'];
+
+export type ExchangeRateSource = 'MANUAL' | 'IMPORT';
+
+/**
+ * Amount converted to another currency
+ */
+export interface Money {
+  amount: string;
+  currency: string;
+}
+
+export interface ExchangeRate {
+  id: string;
+  organizationId: string;
+  baseCurrency: CurrencyCode;
+  quoteCurrency: CurrencyCode;
+  rate: string;
+  effectiveDate: string;
+  source: ExchangeRateSource;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ExchangeRatesResponse {
+  data: ExchangeRate[];
+  reportingCurrency: CurrencyCode;
+  supportedCurrencies: CurrencyCode[];
+}
+
+export interface ExchangeRatesParams {
+  currency?: CurrencyCode;
+  latest?: boolean;
+}
+
+export interface CreateExchangeRateRequest {
+  baseCurrency: CurrencyCode;
+  quoteCurrency: CurrencyCode;
+  rate: number;
+  effectiveDate?: string;
+}
+
+export interface ImportExchangeRatesRequest {
+  content: string;
+  effectiveDate?: string;
+}
+
+export interface ImportExchangeRatesResponse {
+  imported: number;
+  data: ExchangeRate[];
+}
+
+export interface RevenueReportParams {
+  from?: string;
+  to?: string;
+}
+
+export interface RevenueReport {
+  currency: CurrencyCode;
+  total: string;
+  bookings: number;
+  byCurrency: { currency: string; amount: string; bookings: number }[];
+  byMonth: { month: string; amount: string; bookings: number }[];
+  unconvertedCurrencies: string[];
+}
@@ -0,0 +1,84 @@
+/**
+ * Experiment Types
+ */
+
+export type ExperimentStatus = 'ACTIVE' | 'PAUSED' | 'COMPLETED' | 'CANCELLED';
+
+export type FunnelStage = 'NEW_LEAD' | 'QUALIFIED' | 'WARMED' | 'PROPOSAL_SENT' | 'NEGOTIATION' | 'SOLD';
+
+export interface ExperimentVariant {
+  id: string;
+  name: string;
+  prompt: string;
+  description: string | null;
+  isActive: boolean;
+  weight: number;
+  clientCount: number;
+}
+
+export interface Experiment {
+  id: string;
+  organizationId: string;
+  agentType: string;
+  name: string;
+  description: string | null;
+  status: ExperimentStatus;
+  startDate: string;
+  endDate: string | null;
+  variants: ExperimentVariant[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ExperimentsResponse {
+  data: Experiment[];
+}
+
+export interface ProportionEstimate {
+  successes: number;
+  total: number;
+  rate: number;
+  lower: number;
+  upper: number;
+}
+
+export interface VariantReport {
+  id: string;
+  name: string;
+  isActive: boolean;
+  weight: number;
+  clients: number;
+  funnel: {
+    stage: FunnelStage;
+    reached: number;
+    conversion: ProportionEstimate | null;
+  }[];
+  sold: ProportionEstimate | null;
+  timeToSoldDays: {
+    count: number;
+    median: number;
+    mean: number;
+  } | null;
+  replyRate: ProportionEstimate | null;
+  comparison: {
+    z: number;
+    pValue: number;
+  } | null;
+}
+
+export interface ExperimentReport {
+  experiment: Experiment;
+  variants: VariantReport[];
+  winnerVariantId: string | null;
+  significant: boolean;
+}
+
+export interface PromoteVariantResult {
+  experiment: Experiment;
+  configuration: {
+    id: string;
+    agentType: string;
+    name: string;
+    version: number;
+  };
+}
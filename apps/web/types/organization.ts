@@ -2,12 +2,16 @@
  * Organization Types
  */
 
+import type { CurrencyCode } from './exchange-rate';
+
 export interface Organization {
   id: string;
   name: string;
   slug: string;
   logo?: string;
   settings?: Record<string, any>;
+  reportingCurrency: CurrencyCode;
+  partnerRatingThreshold: string | null;
   createdAt: string;
   updatedAt: string;
 }
@@ -16,8 +20,22 @@ export interface UpdateOrganizationRequest {
   name?: string;
   logo?: string;
   settings?: Record<string, any>;
+  reportingCurrency?: CurrencyCode;
+  partnerRatingThreshold?: number | null;
 }
 
 
 
 
+
+export type FollowUpMode = 'APPROVAL' | 'AUTO_SEND';
+
+/**
+ * Follow-up policy for leads that stopped replying (settings.followUps)
+ */
+export interface FollowUpSettings {
+  enabled: boolean;
+  staleAfterDays: number;
+  maxAttempts: number;
+  mode: FollowUpMode;
+}
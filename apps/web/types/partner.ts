@@ -0,0 +1,123 @@
+/**
+ * Partner Types
+ */
+
+import { CurrencyCode } from './exchange-rate';
+
+export type CommissionType = 'PERCENTAGE' | 'FIXED_PER_PARTICIPANT';
+
+export interface Partner {
+  id: string;
+  organizationId: string;
+  name: string;
+  contactPhone: string | null;
+  contactEmail: string | null;
+  contactWhatsApp: string | null;
+  contactTelegram: string | null;
+  conditions: string | null;
+  commissionType: CommissionType | null;
+  commissionValue: string | null;
+  commissionCurrency: CurrencyCode | null;
+  rating: string | null;
+  isAvailable: boolean;
+  products: {
+    id: string;
+    name: string;
+    isActive: boolean;
+  }[];
+  assignedClientsCount: number;
+  feedbackCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface PartnerListResponse {
+  data: Partner[];
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+  };
+}
+
+export interface PartnerListParams {
+  page?: number;
+  limit?: number;
+  isAvailable?: boolean;
+  productId?: string;
+  assignableToClientId?: string;
+  includeBelowThreshold?: boolean;
+  search?: string;
+  sortBy?: 'name' | 'rating' | 'createdAt';
+  sortOrder?: 'asc' | 'desc';
+}
+
+export interface CreatePartnerRequest {
+  name: string;
+  contactPhone?: string;
+  contactEmail?: string;
+  contactWhatsApp?: string;
+  contactTelegram?: string;
+  conditions?: string;
+  commissionType?: CommissionType;
+  commissionValue?: number;
+  commissionCurrency?: CurrencyCode;
+  isAvailable?: boolean;
+}
+
+export interface UpdatePartnerRequest {
+  name?: string;
+  contactPhone?: string | null;
+  contactEmail?: string | null;
+  contactWhatsApp?: string | null;
+  contactTelegram?: string | null;
+  conditions?: string | null;
+  commissionType?: CommissionType | null;
+  commissionValue?: number | null;
+  commissionCurrency?: CurrencyCode | null;
+  isAvailable?: boolean;
+}
+
+/**
+ * Client feedback or incident recorded for a partner
+ */
+export interface PartnerFeedback {
+  id: string;
+  partnerId: string;
+  clientTourId: string | null;
+  client: {
+    id: string;
+    firstName: string | null;
+    lastName: string | null;
+  } | null;
+  tour: {
+    id: string;
+    startDate: string;
+    product: {
+      id: string;
+      name: string;
+    };
+  } | null;
+  score: number;
+  comment: string | null;
+  isIncident: boolean;
+  createdBy: {
+    id: string;
+    firstName: string | null;
+    lastName: string | null;
+  } | null;
+  createdAt: string;
+}
+
+export interface PartnerFeedbackResponse {
+  data: PartnerFeedback[];
+  rating: string | null;
+}
+
+export interface CreatePartnerFeedbackRequest {
+  clientTourId: string;
+  score: number;
+  comment?: string;
+  isIncident?: boolean;
+}
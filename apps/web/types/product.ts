@@ -0,0 +1,87 @@
+/**
+ * Product Catalog Types
+ */
+
+import { ProductType } from './client';
+import type { Money } from './exchange-rate';
+
+export interface ProductOption {
+  code: string;
+  name: string;
+  description?: string;
+  price: number;
+  perParticipant?: boolean;
+}
+
+export interface CatalogProduct {
+  id: string;
+  organizationId: string;
+  name: string;
+  description: string | null;
+  duration: number | null;
+  type: ProductType;
+  basePrice: string;
+  currency: string;
+  // Base price in the organization's reporting currency (null without a rate)
+  reportingPrice: Money | null;
+  inclusions: string[];
+  exclusions: string[];
+  options: ProductOption[];
+  isActive: boolean;
+  partnerId: string | null;
+  partner: {
+    id: string;
+    name: string;
+  } | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ProductListResponse {
+  data: CatalogProduct[];
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+  };
+}
+
+export interface ProductListParams {
+  page?: number;
+  limit?: number;
+  type?: ProductType;
+  isActive?: boolean;
+  partnerId?: string;
+  search?: string;
+  sortBy?: 'name' | 'createdAt' | 'basePrice';
+  sortOrder?: 'asc' | 'desc';
+}
+
+export interface CreateProductRequest {
+  name: string;
+  description?: string;
+  duration?: number;
+  type: ProductType;
+  basePrice: number;
+  currency?: string;
+  inclusions?: string[];
+  exclusions?: string[];
+  options?: ProductOption[];
+  partnerId?: string | null;
+  isActive?: boolean;
+}
+
+export interface UpdateProductRequest {
+  name?: string;
+  description?: string | null;
+  duration?: number | null;
+  type?: ProductType;
+  basePrice?: number;
+  currency?: string;
+  inclusions?: string[] | null;
+  exclusions?: string[] | null;
+  options?: ProductOption[] | null;
+  partnerId?: string | null;
+  isActive?: boolean;
+}
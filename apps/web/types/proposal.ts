@@ -0,0 +1,99 @@
+/**
+ * Proposal Types
+ */
+
+import { ClientStatus, ProductType } from './client';
+import type { Money } from './exchange-rate';
+
+export type ProposalStatus = 'DRAFT' | 'SENT';
+
+export interface ProposalItemOption {
+  code: string;
+  name: string;
+  price: string;
+  perParticipant: boolean;
+  amount: string;
+}
+
+export interface ProposalItem {
+  clientProductId: string;
+  productId: string;
+  productName: string;
+  productType: ProductType;
+  description: string | null;
+  duration: number | null;
+  inclusions: string[];
+  exclusions: string[];
+  tour: {
+    id: string;
+    startDate: string;
+    endDate: string;
+  } | null;
+  participants: number;
+  currency: string;
+  unitPrice: string;
+  options: ProposalItemOption[];
+  total: string;
+}
+
+interface ProposalUser {
+  id: string;
+  firstName: string | null;
+  lastName: string | null;
+}
+
+export interface Proposal {
+  id: string;
+  organizationId: string;
+  clientId: string;
+  version: number;
+  status: ProposalStatus;
+  title: string | null;
+  currency: string;
+  totalAmount: string;
+  // Total in the organization's reporting and the client's preferred currency
+  reportingTotal: Money | null;
+  clientTotal: Money | null;
+  items: ProposalItem[];
+  notes: string | null;
+  createdBy: ProposalUser | null;
+  sentBy: ProposalUser | null;
+  sentAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ProposalListResponse {
+  data: Proposal[];
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+  };
+}
+
+export interface ProposalListParams {
+  page?: number;
+  limit?: number;
+  clientId?: string;
+  status?: ProposalStatus;
+}
+
+export interface CreateProposalItemRequest {
+  clientProductId: string;
+  tourId?: string;
+  participants?: number;
+  optionCodes?: string[];
+}
+
+export interface CreateProposalRequest {
+  clientId: string;
+  title?: string;
+  notes?: string;
+  items: CreateProposalItemRequest[];
+}
+
+export interface SendProposalResponse extends Proposal {
+  clientStatus: ClientStatus;
+}
@@ -0,0 +1,64 @@
+/**
+ * Reply Draft Types
+ * 
+ * Type definitions for reply drafts prepared by the COMMUNICATION agent
+ * and follow-ups prepared by the WARMING agent
+ */
+
+import { MessageDirection, MessageSender, MessageStatus } from './client';
+
+export type ReplyDraftStatus = 'PENDING' | 'SENT' | 'REJECTED';
+
+export type ReplyDraftKind = 'REPLY' | 'FOLLOW_UP';
+
+export interface ReplyDraft {
+  id: string;
+  conversationId: string;
+  content: string;
+  rationale: string | null;
+  language: string | null;
+  model: string | null;
+  status: ReplyDraftStatus;
+  kind: ReplyDraftKind;
+  followUpAttempt: number | null;
+  promptVariant: {
+    id: string;
+    name: string;
+  } | null;
+  sentMessageId: string | null;
+  reviewedBy: {
+    id: string;
+    firstName: string | null;
+    lastName: string | null;
+  } | null;
+  reviewedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ReplyDraftsResponse {
+  data: ReplyDraft[];
+}
+
+export interface GenerateReplyDraftRequest {
+  instructions?: string;
+}
+
+export interface ApproveReplyDraftRequest {
+  content?: string;
+}
+
+export interface ApproveReplyDraftResponse {
+  draft: ReplyDraft;
+  message: {
+    id: string;
+    conversationId: string;
+    direction: MessageDirection;
+    sender: MessageSender;
+    senderId: string | null;
+    content: string;
+    language: string | null;
+    status: MessageStatus;
+    createdAt: string;
+  };
+}
@@ -0,0 +1,63 @@
+/**
+ * Settlement Types
+ */
+
+import { CommissionType } from './partner';
+
+export type LedgerEntryStatus = 'UNPAID' | 'PAID' | 'VOID';
+
+export interface LedgerEntry {
+  id: string;
+  partner: {
+    id: string;
+    name: string;
+  };
+  clientTourId: string | null;
+  clientId: string | null;
+  clientName: string;
+  productName: string;
+  tourStartDate: string;
+  participants: number;
+  bookingAmount: string;
+  commissionType: CommissionType;
+  commissionValue: string;
+  amount: string;
+  currency: string;
+  status: LedgerEntryStatus;
+  paidAt: string | null;
+  paidBy: {
+    id: string;
+    firstName: string | null;
+    lastName: string | null;
+  } | null;
+  createdAt: string;
+}
+
+/**
+ * Commission totals of a partner in one currency
+ */
+export interface SettlementTotal {
+  currency: string;
+  total: string;
+  paid: string;
+  unpaid: string;
+}
+
+export interface PartnerSettlement {
+  partnerId: string;
+  partnerName: string;
+  entries: number;
+  totals: SettlementTotal[];
+}
+
+export interface SettlementReport {
+  data: LedgerEntry[];
+  partners: PartnerSettlement[];
+}
+
+export interface SettlementParams {
+  partnerId?: string;
+  from?: string;
+  to?: string;
+  status?: LedgerEntryStatus;
+}
@@ -0,0 +1,87 @@
+/**
+ * Tour Departure Types
+ */
+
+import { ClientStatus, ClientTourStatus, ProductType, TourStatus } from './client';
+
+export interface TourDeparture {
+  id: string;
+  organizationId: string;
+  productId: string;
+  product: {
+    id: string;
+    name: string;
+    type: ProductType;
+  };
+  startDate: string;
+  endDate: string;
+  maxParticipants: number | null;
+  currentParticipants: number;
+  availableSeats: number | null;
+  price: string | null;
+  currency: string;
+  status: TourStatus;
+  notes: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface TourListResponse {
+  data: TourDeparture[];
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+  };
+}
+
+export interface TourListParams {
+  page?: number;
+  limit?: number;
+  productId?: string;
+  status?: TourStatus;
+  from?: string;
+  to?: string;
+  sortOrder?: 'asc' | 'desc';
+}
+
+export interface CreateTourRequest {
+  productId: string;
+  startDate: string;
+  endDate: string;
+  maxParticipants?: number | null;
+  price?: number | null;
+  currency?: string;
+  notes?: string;
+}
+
+export interface UpdateTourRequest {
+  startDate?: string;
+  endDate?: string;
+  maxParticipants?: number | null;
+  price?: number | null;
+  currency?: string;
+  status?: 'AVAILABLE' | 'CANCELLED' | 'COMPLETED';
+  notes?: string | null;
+}
+
+export interface TourBooking {
+  id: string;
+  status: ClientTourStatus;
+  participants: number | null;
+  notes: string | null;
+  client: {
+    id: string;
+    firstName: string | null;
+    lastName: string | null;
+    phone: string;
+    status: ClientStatus;
+  };
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface TourClientsResponse {
+  data: TourBooking[];
+}
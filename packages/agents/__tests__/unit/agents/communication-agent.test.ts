@@ -0,0 +1,142 @@
+/**
+ * Unit tests for Communication Agent
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { CommunicationAgent } from '../../../src/agents/communication-agent';
+import type { ILLMProvider } from '../../../src/providers';
+import type { PromptLoader } from '../../../src/prompt-manager';
+import { PrismaClient } from '@soul-kg-crm/database';
+
+// Mock Prisma
+const mockPrisma = {
+  conversation: {
+    findFirst: vi.fn(),
+  },
+  message: {
+    findMany: vi.fn(),
+  },
+  replyDraft: {
+    create: vi.fn(),
+  },
+} as unknown as PrismaClient;
+
+const mockProvider = {
+  complete: vi.fn(),
+  isAvailable: vi.fn(),
+} as unknown as ILLMProvider;
+
+const mockPromptLoader = {
+  loadPrompt: vi.fn(),
+} as unknown as PromptLoader;
+
+const conversation = {
+  id: 'conv-123',
+  organizationId: 'org-123',
+  client: {
+    id: 'client-123',
+    firstName: 'Aigerim',
+    status: 'QUALIFIED',
+    preferredLanguage: 'ru',
+    culturalContext: { likelyOrigin: 'Kazakhstan', dietaryRestrictions: ['Halal'] },
+  },
+};
+
+// Newest first, as returned by the query
+const history = [
+  { direction: 'INCOMING', content: 'Сколько стоит тур на Иссык-Куль?', createdAt: new Date('2026-10-02T10:00:00Z') },
+  { direction: 'OUTGOING', content: 'Здравствуйте! Чем можем помочь?', createdAt: new Date('2026-10-01T10:00:00Z') },
+];
+
+describe('CommunicationAgent', () => {
+  let agent: CommunicationAgent;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    agent = new CommunicationAgent(mockPrisma, mockProvider, mockPromptLoader);
+
+    vi.mocked(mockPrisma.conversation.findFirst).mockResolvedValue(conversation as any);
+    vi.mocked(mockPrisma.message.findMany).mockResolvedValue(history as any);
+    vi.mocked(mockPrisma.replyDraft.create).mockImplementation((async (args: any) => ({ id: 'draft-1', ...args.data })) as any);
+    vi.mocked(mockProvider.complete).mockResolvedValue({
+      content: JSON.stringify({
+        reply: 'Тур на Иссык-Куль стоит от 450 USD. Какие даты вам удобны?',
+        rationale: 'Client asked for the price; answer and ask for dates to qualify further.',
+        language: 'ru',
+      }),
+      model: 'gpt-4o-mini',
+    });
+  });
+
+  it('should draft a reply in the client language and store it with the prompt variant', async () => {
+    vi.mocked(mockPromptLoader.loadPrompt).mockResolvedValue({
+      id: 'variant-123',
+      variantId: 'variant-123',
+      prompt: 'You are a travel manager.',
+      settings: {},
+    } as any);
+
+    const draft = await agent.draftReply({ organizationId: 'org-123', conversationId: 'conv-123' });
+
+    expect(mockPromptLoader.loadPrompt).toHaveBeenCalledWith({
+      organizationId: 'org-123',
+      agentType: 'COMMUNICATION',
+      clientId: 'client-123',
+    });
+
+    const request = vi.mocked(mockProvider.complete).mock.calls[0][0];
+    expect(request.agentType).toBe('COMMUNICATION');
+    expect(request.responseFormat?.name).toBe('reply_draft');
+    expect(request.messages?.[0].role).toBe('system');
+    expect(request.messages?.[0].content).toContain('Sales funnel status: QUALIFIED');
+    expect(request.messages?.[0].content).toContain('Halal');
+    expect(request.messages?.[0].content).toContain('preferred language (ru)');
+
+    // Transcript is chronological and kept out of the system message
+    const transcript = request.messages?.[1].content ?? '';
+    expect(request.messages?.[1].role).toBe('user');
+    expect(transcript.indexOf('[Agent]: Здравствуйте')).toBeLessThan(transcript.indexOf('[Client]: Сколько'));
+
+    expect(mockPrisma.replyDraft.create).toHaveBeenCalledWith({
+      data: {
+        organizationId: 'org-123',
+        conversationId: 'conv-123',
+        content: 'Тур на Иссык-Куль стоит от 450 USD. Какие даты вам удобны?',
+        rationale: 'Client asked for the price; answer and ask for dates to qualify further.',
+        language: 'ru',
+        model: 'gpt-4o-mini',
+        promptVariantId: 'variant-123',
+      },
+    });
+    expect(draft.id).toBe('draft-1');
+  });
+
+  it('should pass manager instructions and leave the variant empty for the main prompt', async () => {
+    vi.mocked(mockPromptLoader.loadPrompt).mockResolvedValue({
+      id: 'config-123',
+      version: '2',
+      prompt: 'You are a travel manager.',
+      settings: { temperature: 0.4 },
+    } as any);
+
+    await agent.draftReply({
+      organizationId: 'org-123',
+      conversationId: 'conv-123',
+      instructions: 'Offer a 5% early booking discount',
+    });
+
+    const request = vi.mocked(mockProvider.complete).mock.calls[0][0];
+    expect(request.temperature).toBe(0.4);
+    expect(request.messages?.[0].content).toContain('Offer a 5% early booking discount');
+    expect(vi.mocked(mockPrisma.replyDraft.create).mock.calls[0][0].data.promptVariantId).toBeUndefined();
+  });
+
+  it('should fail for conversations without messages', async () => {
+    vi.mocked(mockPrisma.message.findMany).mockResolvedValue([]);
+
+    await expect(agent.draftReply({ organizationId: 'org-123', conversationId: 'conv-123' })).rejects.toThrow(
+      'has no messages'
+    );
+    expect(mockProvider.complete).not.toHaveBeenCalled();
+  });
+});
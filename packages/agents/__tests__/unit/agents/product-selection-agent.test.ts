@@ -0,0 +1,263 @@
+/**
+ * Unit tests for Product Selection Agent
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  ProductSelectionAgent,
+  selectRecommendations,
+  toCatalogItems,
+  type CatalogItem,
+} from '../../../src/agents/product-selection-agent';
+import type { ILLMProvider } from '../../../src/providers';
+import type { PromptLoader } from '../../../src/prompt-manager';
+import { PrismaClient, Prisma } from '@soul-kg-crm/database';
+
+// Mock Prisma
+const mockPrisma = {
+  client: {
+    findFirst: vi.fn(),
+  },
+  message: {
+    findMany: vi.fn(),
+  },
+  product: {
+    findMany: vi.fn(),
+  },
+  productRecommendation: {
+    deleteMany: vi.fn(),
+    create: vi.fn(),
+  },
+  $transaction: vi.fn(),
+} as unknown as PrismaClient;
+
+const mockProvider = {
+  complete: vi.fn(),
+  isAvailable: vi.fn(),
+} as unknown as ILLMProvider;
+
+const mockPromptLoader = {
+  loadPrompt: vi.fn(),
+} as unknown as PromptLoader;
+
+const tour = (id: string, maxParticipants: number | null, currentParticipants = 0) => ({
+  id,
+  organizationId: 'org-123',
+  productId: 'prod-1',
+  startDate: new Date('2027-07-10T00:00:00Z'),
+  endDate: new Date('2027-07-17T00:00:00Z'),
+  maxParticipants,
+  currentParticipants,
+  price: null,
+  currency: 'USD',
+  status: 'AVAILABLE',
+  notes: null,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+});
+
+const product = (id: string, tours: ReturnType<typeof tour>[] = []) => ({
+  id,
+  organizationId: 'org-123',
+  name: `Product ${id}`,
+  description: 'Trek to Song-Kul',
+  duration: 7,
+  type: 'TOUR',
+  basePrice: new Prisma.Decimal(1200),
+  currency: 'USD',
+  inclusions: null,
+  exclusions: null,
+  options: null,
+  isActive: true,
+  partnerId: null,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  tours,
+});
+
+const catalog: CatalogItem[] = [
+  {
+    productId: 'prod-1',
+    name: 'Song-Kul trek',
+    type: 'TOUR',
+    description: null,
+    durationDays: 7,
+    basePrice: '1200',
+    currency: 'USD',
+    tours: [{ tourId: 'tour-1', startDate: '2027-07-10', endDate: '2027-07-17', seatsLeft: 4, price: null, currency: 'USD' }],
+  },
+  {
+    productId: 'prod-2',
+    name: 'Bishkek city tour',
+    type: 'SERVICE',
+    description: null,
+    durationDays: 1,
+    basePrice: '80',
+    currency: 'USD',
+    tours: [],
+  },
+];
+
+describe('toCatalogItems', () => {
+  it('should drop departures without enough seats for the group', () => {
+    const items = toCatalogItems(
+      [product('prod-1', [tour('tour-full', 10, 9), tour('tour-open', 10, 2), tour('tour-unlimited', null)])] as any,
+      2
+    );
+
+    expect(items[0]).toMatchObject({ productId: 'prod-1', basePrice: '1200', durationDays: 7 });
+    expect(items[0].tours.map((item) => item.tourId)).toEqual(['tour-open', 'tour-unlimited']);
+    expect(items[0].tours[0]).toMatchObject({ startDate: '2027-07-10', seatsLeft: 8 });
+  });
+});
+
+describe('selectRecommendations', () => {
+  it('should keep catalog products only, validate departures and sort by score', () => {
+    const result = selectRecommendations(catalog, {
+      recommendations: [
+        { productId: 'prod-2', tourId: null, score: 0.5, explanation: ' City day ' },
+        { productId: 'prod-unknown', tourId: null, score: 0.99, explanation: 'Not in catalog' },
+        { productId: 'prod-1', tourId: 'tour-other', score: 0.6, explanation: 'Trek' },
+        { productId: 'prod-1', tourId: 'tour-1', score: 0.9, explanation: 'Dates match' },
+      ],
+    });
+
+    expect(result).toEqual([
+      { productId: 'prod-1', tourId: 'tour-1', score: 0.9, explanation: 'Dates match' },
+      { productId: 'prod-2', tourId: null, score: 0.5, explanation: 'City day' },
+    ]);
+  });
+
+  it('should drop departures of other products and respect the limit', () => {
+    const result = selectRecommendations(
+      catalog,
+      {
+        recommendations: [
+          { productId: 'prod-2', tourId: 'tour-1', score: 0.8, explanation: 'City day' },
+          { productId: 'prod-1', tourId: 'tour-1', score: 0.7, explanation: 'Trek' },
+        ],
+      },
+      1
+    );
+
+    expect(result).toEqual([{ productId: 'prod-2', tourId: null, score: 0.8, explanation: 'City day' }]);
+  });
+});
+
+describe('ProductSelectionAgent', () => {
+  let agent: ProductSelectionAgent;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    agent = new ProductSelectionAgent(mockPrisma, mockProvider, mockPromptLoader);
+
+    vi.mocked(mockPromptLoader.loadPrompt).mockResolvedValue({
+      id: 'config-123',
+      prompt: 'Pick products',
+      settings: {},
+      variantId: 'variant-a',
+    } as any);
+    vi.mocked(mockPrisma.client.findFirst).mockResolvedValue({
+      id: 'client-123',
+      status: 'QUALIFIED',
+      preferredLanguage: 'en',
+      culturalContext: null,
+      tripRequirements: { adults: 2, children: 1, interests: ['hiking'], dietaryNeeds: null, budgetAmount: null },
+    } as any);
+    vi.mocked(mockPrisma.message.findMany).mockResolvedValue([
+      { id: 'msg-2', direction: 'OUTGOING', content: 'What do you like?', createdAt: new Date('2026-10-02T10:00:00Z') },
+      { id: 'msg-1', direction: 'INCOMING', content: 'We want a trek', createdAt: new Date('2026-10-02T09:00:00Z') },
+    ] as any);
+    vi.mocked(mockPrisma.productRecommendation.deleteMany).mockReturnValue('delete-pending' as any);
+    vi.mocked(mockPrisma.productRecommendation.create).mockImplementation(((args: any) => ({
+      id: `rec-${args.data.rank}`,
+      ...args.data,
+    })) as any);
+    vi.mocked(mockPrisma.$transaction).mockImplementation((async (operations: unknown[]) => operations) as any);
+  });
+
+  it('should rank the catalog and replace pending recommendations', async () => {
+    vi.mocked(mockPrisma.product.findMany)
+      .mockResolvedValueOnce([product('prod-1', [tour('tour-1', 10, 8), tour('tour-2', 10, 0)])] as any)
+      .mockResolvedValueOnce([product('prod-2')] as any);
+    vi.mocked(mockProvider.complete).mockResolvedValue({
+      content: JSON.stringify({
+        recommendations: [{ productId: 'prod-1', tourId: 'tour-2', score: 0.85, explanation: 'Trek on their dates' }],
+      }),
+      model: 'gpt-4o-mini',
+    });
+
+    const result = await agent.recommendProducts({ organizationId: 'org-123', clientId: 'client-123' });
+
+    const [withDepartures, others] = vi.mocked(mockPrisma.product.findMany).mock.calls.map((call) => call[0]);
+    expect(withDepartures?.where).toMatchObject({
+      organizationId: 'org-123',
+      isActive: true,
+      clientProducts: { none: { clientId: 'client-123' } },
+      recommendations: { none: { clientId: 'client-123', status: 'DISMISSED' } },
+      tours: { some: { status: 'AVAILABLE' } },
+    });
+    expect(others?.where).toMatchObject({ tours: { none: { status: 'AVAILABLE' } } });
+    expect(others?.take).toBe(49);
+
+    const request = vi.mocked(mockProvider.complete).mock.calls[0][0];
+    expect(request.agentType).toBe('PRODUCT_SELECTION');
+    expect(request.messages?.[0].content).toContain('"tourId": "tour-2"');
+    expect(request.messages?.[0].content).toContain('"productId": "prod-2"');
+    expect(request.messages?.[0].content).not.toContain('"tourId": "tour-1"'); // 2 seats left for a group of 3
+    expect(request.messages?.[1].content).toMatch(/We want a trek[\s\S]*What do you like\?/);
+
+    expect(mockPrisma.productRecommendation.deleteMany).toHaveBeenCalledWith({
+      where: { organizationId: 'org-123', clientId: 'client-123', status: 'PENDING' },
+    });
+    expect(vi.mocked(mockPrisma.$transaction).mock.calls[0][0]).toHaveLength(2);
+    expect(result).toEqual([
+      {
+        id: 'rec-1',
+        organizationId: 'org-123',
+        clientId: 'client-123',
+        productId: 'prod-1',
+        tourId: 'tour-2',
+        score: 0.85,
+        explanation: 'Trek on their dates',
+        rank: 1,
+        model: 'gpt-4o-mini',
+        promptVariantId: 'variant-a',
+      },
+    ]);
+  });
+
+  it('should look for departures around the client travel dates', async () => {
+    vi.mocked(mockPrisma.client.findFirst).mockResolvedValue({
+      id: 'client-123',
+      status: 'QUALIFIED',
+      preferredLanguage: 'en',
+      culturalContext: null,
+      tripRequirements: {
+        adults: 2,
+        travelStartDate: new Date('2027-07-10T00:00:00Z'),
+        travelEndDate: new Date('2027-07-20T00:00:00Z'),
+      },
+    } as any);
+    vi.mocked(mockPrisma.product.findMany).mockResolvedValue([]);
+
+    await agent.recommendProducts({ organizationId: 'org-123', clientId: 'client-123' });
+
+    expect(vi.mocked(mockPrisma.product.findMany).mock.calls[0][0]?.where?.tours).toEqual({
+      some: {
+        status: 'AVAILABLE',
+        startDate: { gte: new Date('2027-06-26T00:00:00Z'), lte: new Date('2027-08-03T00:00:00Z') },
+      },
+    });
+  });
+
+  it('should skip the LLM call when the catalog is empty', async () => {
+    vi.mocked(mockPrisma.product.findMany).mockResolvedValue([]);
+
+    const result = await agent.recommendProducts({ organizationId: 'org-123', clientId: 'client-123' });
+
+    expect(mockProvider.complete).not.toHaveBeenCalled();
+    expect(mockPrisma.productRecommendation.deleteMany).toHaveBeenCalled();
+    expect(result).toEqual([]);
+  });
+});
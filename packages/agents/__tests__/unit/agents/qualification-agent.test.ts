@@ -0,0 +1,234 @@
+/**
+ * Unit tests for Qualification Agent
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  QualificationAgent,
+  mergeTripRequirements,
+  proposeClientStatus,
+  toTripRequirementsValues,
+  tripRequirementsResponseSchema,
+  type TripRequirementsMeta,
+} from '../../../src/agents/qualification-agent';
+import type { ILLMProvider } from '../../../src/providers';
+import type { PromptLoader } from '../../../src/prompt-manager';
+import { PrismaClient, ClientStatus } from '@soul-kg-crm/database';
+
+// Mock Prisma
+const mockPrisma = {
+  client: {
+    findFirst: vi.fn(),
+  },
+  message: {
+    findMany: vi.fn(),
+  },
+  tripRequirements: {
+    upsert: vi.fn(),
+  },
+} as unknown as PrismaClient;
+
+const mockProvider = {
+  complete: vi.fn(),
+  isAvailable: vi.fn(),
+} as unknown as ILLMProvider;
+
+const mockPromptLoader = {
+  loadPrompt: vi.fn(),
+} as unknown as PromptLoader;
+
+const now = new Date('2026-10-19T12:00:00Z');
+const empty = toTripRequirementsValues(null);
+
+describe('mergeTripRequirements', () => {
+  it('should apply extracted fields and drop unknown message ids', () => {
+    const result = mergeTripRequirements(
+      empty,
+      {},
+      {
+        travelDates: { startDate: '2027-07-10', endDate: '2027-07-20', confidence: 0.9, sourceMessageIds: ['msg-1', 'msg-x'] },
+        groupSize: { adults: 2, children: 1, confidence: 0.8, sourceMessageIds: ['msg-2'] },
+        budget: { amount: 3000, currency: 'usd ', confidence: 0.7, sourceMessageIds: [] },
+        dietaryNeeds: { items: ['Halal', 'Halal '], confidence: 0.9, sourceMessageIds: ['msg-2'] },
+      },
+      ['msg-1', 'msg-2'],
+      now
+    );
+
+    expect(result.updatedFields).toEqual(['travelDates', 'groupSize', 'budget', 'dietaryNeeds']);
+    expect(result.values).toMatchObject({
+      travelStartDate: new Date('2027-07-10T00:00:00Z'),
+      travelEndDate: new Date('2027-07-20T00:00:00Z'),
+      adults: 2,
+      children: 1,
+      budgetAmount: 3000,
+      budgetCurrency: 'USD',
+      interests: [],
+      dietaryNeeds: ['Halal'],
+    });
+    expect(result.meta.travelDates).toEqual({
+      confidence: 0.9,
+      sourceMessageIds: ['msg-1'],
+      updatedBy: 'AI',
+      updatedAt: now.toISOString(),
+    });
+  });
+
+  it('should keep fields edited by a manager', () => {
+    const meta: TripRequirementsMeta = {
+      groupSize: { confidence: 1, sourceMessageIds: [], updatedBy: 'HUMAN', updatedAt: now.toISOString() },
+    };
+
+    const result = mergeTripRequirements(
+      { ...empty, adults: 4, children: 0 },
+      meta,
+      { groupSize: { adults: 2, children: 0, confidence: 0.9, sourceMessageIds: ['msg-1'] } },
+      ['msg-1'],
+      now
+    );
+
+    expect(result.updatedFields).toEqual([]);
+    expect(result.values.adults).toBe(4);
+    expect(result.meta.groupSize?.updatedBy).toBe('HUMAN');
+  });
+
+  it('should keep the known start date when only the end date is extracted', () => {
+    const result = mergeTripRequirements(
+      {
+        ...empty,
+        travelStartDate: new Date('2027-07-10T00:00:00Z'),
+        travelEndDate: new Date('2027-07-17T00:00:00Z'),
+      },
+      {},
+      { travelDates: { endDate: '2027-07-20', confidence: 0.8, sourceMessageIds: ['msg-1'] } },
+      ['msg-1'],
+      now
+    );
+
+    expect(result.updatedFields).toEqual(['travelDates']);
+    expect(result.values.travelStartDate).toEqual(new Date('2027-07-10T00:00:00Z'));
+    expect(result.values.travelEndDate).toEqual(new Date('2027-07-20T00:00:00Z'));
+  });
+});
+
+describe('tripRequirementsResponseSchema', () => {
+  it('should treat impossible dates as not extracted', () => {
+    const result = tripRequirementsResponseSchema.parse({
+      travelDates: { startDate: '2026-13-01', endDate: '2026-02-30', confidence: 0.9 },
+    });
+
+    expect(result.travelDates).toMatchObject({ startDate: null, endDate: null });
+    expect(mergeTripRequirements(empty, {}, result, [], now).updatedFields).toEqual([]);
+  });
+});
+
+describe('proposeClientStatus', () => {
+  const reliable = { confidence: 0.8, sourceMessageIds: [], updatedBy: 'AI' as const, updatedAt: now.toISOString() };
+  const values = { ...empty, travelStartDate: new Date('2027-07-10'), adults: 2 };
+
+  it('should propose QUALIFIED for a new lead with known dates and group', () => {
+    expect(proposeClientStatus(ClientStatus.NEW_LEAD, values, { travelDates: reliable, groupSize: reliable })).toBe(
+      ClientStatus.QUALIFIED
+    );
+  });
+
+  it('should not propose with low confidence or for other statuses', () => {
+    expect(
+      proposeClientStatus(ClientStatus.NEW_LEAD, values, {
+        travelDates: reliable,
+        groupSize: { ...reliable, confidence: 0.4 },
+      })
+    ).toBeNull();
+    expect(proposeClientStatus(ClientStatus.WARMED, values, { travelDates: reliable, groupSize: reliable })).toBeNull();
+  });
+});
+
+describe('QualificationAgent', () => {
+  let agent: QualificationAgent;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    agent = new QualificationAgent(mockPrisma, mockProvider, mockPromptLoader);
+
+    vi.mocked(mockPromptLoader.loadPrompt).mockResolvedValue({ id: 'config-123', prompt: 'Extract', settings: {} } as any);
+    vi.mocked(mockPrisma.tripRequirements.upsert).mockImplementation((async (args: any) => ({
+      id: 'req-1',
+      ...args.create,
+    })) as any);
+  });
+
+  it('should read only messages after the previous run and propose qualification', async () => {
+    const analyzedUntil = new Date('2026-10-01T00:00:00Z');
+    vi.mocked(mockPrisma.client.findFirst).mockResolvedValue({
+      id: 'client-123',
+      status: 'NEW_LEAD',
+      tripRequirements: {
+        id: 'req-1',
+        travelStartDate: new Date('2027-07-10T00:00:00Z'),
+        travelEndDate: null,
+        adults: null,
+        children: null,
+        budgetAmount: null,
+        budgetCurrency: null,
+        interests: ['hiking'],
+        dietaryNeeds: null,
+        fieldMeta: {
+          travelDates: { confidence: 0.9, sourceMessageIds: ['msg-0'], updatedBy: 'AI', updatedAt: '2026-10-01T00:00:00Z' },
+        },
+        analyzedUntil,
+        analyzedUntilMessageId: 'msg-4',
+      },
+    } as any);
+    vi.mocked(mockPrisma.message.findMany).mockResolvedValue([
+      { id: 'msg-5', direction: 'INCOMING', content: 'We are 2 adults', createdAt: new Date('2026-10-02T09:00:00Z') },
+      { id: 'msg-6', direction: 'OUTGOING', content: 'Great!', createdAt: new Date('2026-10-02T10:00:00Z') },
+    ] as any);
+    vi.mocked(mockProvider.complete).mockResolvedValue({
+      content: JSON.stringify({ groupSize: { adults: 2, children: 0, confidence: 0.95, sourceMessageIds: ['msg-5'] } }),
+      model: 'gpt-4o-mini',
+    });
+
+    const result = await agent.extractRequirements({ organizationId: 'org-123', clientId: 'client-123' });
+
+    expect(vi.mocked(mockPrisma.message.findMany).mock.calls[0][0]).toMatchObject({
+      where: {
+        conversation: { clientId: 'client-123' },
+        // Messages imported with the same timestamp as the last one read are not skipped
+        OR: [{ createdAt: { gt: analyzedUntil } }, { createdAt: analyzedUntil, id: { gt: 'msg-4' } }],
+      },
+      orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+    });
+
+    const request = vi.mocked(mockProvider.complete).mock.calls[0][0];
+    expect(request.agentType).toBe('QUALIFICATION');
+    expect(request.messages?.[0].content).toContain('"startDate": "2027-07-10"');
+    expect(request.messages?.[1].content).toContain('(id: msg-5)');
+
+    const upsert = vi.mocked(mockPrisma.tripRequirements.upsert).mock.calls[0][0];
+    expect(upsert.update).toMatchObject({
+      adults: 2,
+      interests: ['hiking'],
+      analyzedUntil: new Date('2026-10-02T10:00:00Z'),
+      analyzedUntilMessageId: 'msg-6',
+    });
+
+    expect(result.updatedFields).toEqual(['groupSize']);
+    expect(result.analyzedMessages).toBe(2);
+    expect(result.proposedStatus).toBe(ClientStatus.QUALIFIED);
+  });
+
+  it('should skip the LLM call without new messages', async () => {
+    vi.mocked(mockPrisma.client.findFirst).mockResolvedValue({
+      id: 'client-123',
+      status: 'NEW_LEAD',
+      tripRequirements: null,
+    } as any);
+    vi.mocked(mockPrisma.message.findMany).mockResolvedValue([]);
+
+    const result = await agent.extractRequirements({ organizationId: 'org-123', clientId: 'client-123' });
+
+    expect(mockProvider.complete).not.toHaveBeenCalled();
+    expect(mockPrisma.tripRequirements.upsert).not.toHaveBeenCalled();
+    expect(result).toEqual({ requirements: null, updatedFields: [], analyzedMessages: 0, proposedStatus: null });
+  });
+});
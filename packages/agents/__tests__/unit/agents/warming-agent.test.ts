@@ -0,0 +1,293 @@
+/**
+ * Unit tests for Warming Agent
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { WarmingAgent, parseFollowUpSettings, type FollowUpSettings } from '../../../src/agents/warming-agent';
+import type { ILLMProvider } from '../../../src/providers';
+import type { PromptLoader } from '../../../src/prompt-manager';
+import { LLMProviderError } from '../../../src/types';
+import { PrismaClient } from '@soul-kg-crm/database';
+
+// Mock Prisma
+const mockPrisma = {
+  organization: {
+    findUnique: vi.fn(),
+  },
+  conversation: {
+    findMany: vi.fn(),
+    findFirst: vi.fn(),
+    update: vi.fn(),
+  },
+  message: {
+    findFirst: vi.fn(),
+    findMany: vi.fn(),
+    create: vi.fn(),
+  },
+  replyDraft: {
+    findMany: vi.fn(),
+    create: vi.fn(),
+    updateMany: vi.fn(),
+  },
+  $transaction: vi.fn(),
+} as unknown as PrismaClient;
+
+const mockProvider = {
+  complete: vi.fn(),
+  isAvailable: vi.fn(),
+} as unknown as ILLMProvider;
+
+const mockPromptLoader = {
+  loadPrompt: vi.fn(),
+} as unknown as PromptLoader;
+
+const now = new Date('2026-10-19T12:00:00Z');
+const settings: FollowUpSettings = { enabled: true, staleAfterDays: 3, maxAttempts: 2, mode: 'APPROVAL' };
+
+const followUp = (status: string, createdAt: string, reviewedAt: string | null = null) => ({
+  status,
+  createdAt: new Date(createdAt),
+  reviewedAt: reviewedAt ? new Date(reviewedAt) : null,
+});
+
+const staleConversation = (id: string, direction: 'INCOMING' | 'OUTGOING', managedBy = 'AI') => ({
+  id,
+  clientId: `client-${id}`,
+  managedBy,
+  messages: [{ direction, createdAt: new Date('2026-10-14T10:00:00Z') }],
+});
+
+describe('parseFollowUpSettings', () => {
+  it('should apply defaults and ignore invalid settings', () => {
+    expect(parseFollowUpSettings({ followUps: { enabled: true } })).toEqual({
+      enabled: true,
+      staleAfterDays: 3,
+      maxAttempts: 2,
+      mode: 'APPROVAL',
+    });
+    expect(parseFollowUpSettings({ followUps: { enabled: true, maxAttempts: 0 } })).toBeNull();
+    expect(parseFollowUpSettings({ llmBudget: {} })).toBeNull();
+    expect(parseFollowUpSettings(null)).toBeNull();
+  });
+});
+
+describe('WarmingAgent', () => {
+  let agent: WarmingAgent;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    agent = new WarmingAgent(mockPrisma, mockProvider, mockPromptLoader);
+
+    vi.mocked(mockPromptLoader.loadPrompt).mockResolvedValue({ id: 'config-123', prompt: 'Follow up', settings: {} } as any);
+    vi.mocked(mockProvider.complete).mockResolvedValue({
+      content: JSON.stringify({ reply: 'Salam! Still thinking about Song-Kul?', rationale: 'Refer to the tour', language: 'ky' }),
+      model: 'gpt-4o-mini',
+    });
+    vi.mocked(mockPrisma.conversation.findFirst).mockResolvedValue({
+      id: 'conv-1',
+      client: { id: 'client-1', firstName: 'Aibek', status: 'WARMED', preferredLanguage: 'ky', culturalContext: null },
+    } as any);
+    vi.mocked(mockPrisma.message.findMany).mockResolvedValue([
+      { id: 'msg-2', direction: 'OUTGOING', content: 'Here is the Song-Kul tour', createdAt: new Date('2026-10-14T10:00:00Z') },
+      { id: 'msg-1', direction: 'INCOMING', content: 'Any tours in July?', createdAt: new Date('2026-10-14T09:00:00Z') },
+    ] as any);
+    vi.mocked(mockPrisma.replyDraft.create).mockImplementation((async (args: any) => ({ id: 'draft-1', ...args.data })) as any);
+    vi.mocked(mockPrisma.message.create).mockResolvedValue({ id: 'msg-3', createdAt: now } as any);
+    vi.mocked(mockPrisma.$transaction).mockImplementation((async (callback: any) => callback(mockPrisma)) as any);
+    vi.mocked(mockPrisma.replyDraft.findMany).mockResolvedValue([]);
+  });
+
+  describe('findStaleConversations', () => {
+    it('should select silent leads and cap attempts since the last client reply', async () => {
+      vi.mocked(mockPrisma.conversation.findMany).mockResolvedValue([
+        staleConversation('conv-1', 'OUTGOING'),
+        staleConversation('conv-2', 'INCOMING'),
+        staleConversation('conv-3', 'OUTGOING'),
+        staleConversation('conv-4', 'OUTGOING'),
+      ] as any);
+      vi.mocked(mockPrisma.message.findFirst).mockResolvedValue({ createdAt: new Date('2026-10-10T00:00:00Z') } as any);
+      vi.mocked(mockPrisma.replyDraft.findMany)
+        .mockResolvedValueOnce([followUp('SENT', '2026-10-14T10:00:00Z')] as any) // conv-1: second attempt
+        .mockResolvedValueOnce([followUp('REJECTED', '2026-10-12T10:00:00Z'), followUp('SENT', '2026-10-11T10:00:00Z')] as any) // conv-3: cap reached
+        .mockResolvedValueOnce([followUp('PENDING', '2026-10-15T10:00:00Z')] as any); // conv-4: awaiting approval
+
+      const result = await agent.findStaleConversations('org-123', settings, now);
+
+      const where = vi.mocked(mockPrisma.conversation.findMany).mock.calls[0][0]?.where;
+      expect(where).toMatchObject({
+        organizationId: 'org-123',
+        status: 'ACTIVE',
+        lastMessageAt: { lte: new Date('2026-10-16T12:00:00Z'), gte: new Date('2026-08-14T12:00:00Z') },
+        client: { status: { in: ['QUALIFIED', 'WARMED', 'PROPOSAL_SENT'] } },
+      });
+      expect(vi.mocked(mockPrisma.replyDraft.findMany).mock.calls[0][0]?.where).toMatchObject({
+        conversationId: 'conv-1',
+        kind: 'FOLLOW_UP',
+        createdAt: { gt: new Date('2026-10-10T00:00:00Z') },
+      });
+      expect(result).toEqual([
+        {
+          conversationId: 'conv-1',
+          clientId: 'client-conv-1',
+          lastOutgoingAt: new Date('2026-10-14T10:00:00Z'),
+          attempt: 2,
+          autoSend: false,
+        },
+      ]);
+    });
+
+    it('should keep reading pages until eligible leads are found', async () => {
+      const answered = Array.from({ length: 100 }, (_, index) => staleConversation(`conv-${index}`, 'INCOMING'));
+      vi.mocked(mockPrisma.conversation.findMany)
+        .mockResolvedValueOnce(answered as any)
+        .mockResolvedValueOnce([staleConversation('conv-silent', 'OUTGOING')] as any);
+      vi.mocked(mockPrisma.message.findFirst).mockResolvedValue(null);
+
+      const result = await agent.findStaleConversations('org-123', settings, now);
+
+      expect(vi.mocked(mockPrisma.conversation.findMany).mock.calls[1][0]).toMatchObject({
+        cursor: { id: 'conv-99' },
+        skip: 1,
+      });
+      expect(result.map((conversation) => conversation.conversationId)).toEqual(['conv-silent']);
+    });
+
+    it('should wait staleAfterDays after a rejected follow-up', async () => {
+      vi.mocked(mockPrisma.conversation.findMany).mockResolvedValue([
+        staleConversation('conv-1', 'OUTGOING'),
+        staleConversation('conv-2', 'OUTGOING'),
+      ] as any);
+      vi.mocked(mockPrisma.message.findFirst).mockResolvedValue(null);
+      vi.mocked(mockPrisma.replyDraft.findMany)
+        .mockResolvedValueOnce([followUp('REJECTED', '2026-10-17T12:00:00Z', '2026-10-18T12:00:00Z')] as any)
+        .mockResolvedValueOnce([followUp('REJECTED', '2026-10-15T12:00:00Z', '2026-10-15T18:00:00Z')] as any);
+
+      const result = await agent.findStaleConversations('org-123', settings, now);
+
+      expect(result.map((conversation) => [conversation.conversationId, conversation.attempt])).toEqual([['conv-2', 2]]);
+    });
+
+    it('should look back far enough for the longest follow-up schedule', async () => {
+      vi.mocked(mockPrisma.conversation.findMany).mockResolvedValue([]);
+
+      await agent.findStaleConversations('org-123', { ...settings, staleAfterDays: 60 }, now);
+
+      const { lastMessageAt } = vi.mocked(mockPrisma.conversation.findMany).mock.calls[0][0]?.where as any;
+      expect(lastMessageAt.gte.getTime()).toBeLessThan(lastMessageAt.lte.getTime());
+    });
+
+    it('should auto-send only in conversations managed by AI', async () => {
+      vi.mocked(mockPrisma.conversation.findMany).mockResolvedValue([
+        staleConversation('conv-1', 'OUTGOING', 'AI'),
+        staleConversation('conv-2', 'OUTGOING', 'HUMAN'),
+      ] as any);
+      vi.mocked(mockPrisma.message.findFirst).mockResolvedValue(null);
+      vi.mocked(mockPrisma.replyDraft.findMany).mockResolvedValue([]);
+
+      const result = await agent.findStaleConversations('org-123', { ...settings, mode: 'AUTO_SEND' }, now);
+
+      expect(result.map((conversation) => [conversation.conversationId, conversation.autoSend])).toEqual([
+        ['conv-1', true],
+        ['conv-2', false],
+      ]);
+    });
+  });
+
+  describe('createFollowUp', () => {
+    it('should queue a follow-up for approval in the client language', async () => {
+      const result = await agent.createFollowUp({
+        organizationId: 'org-123',
+        conversationId: 'conv-1',
+        attempt: 2,
+        maxAttempts: 2,
+        autoSend: false,
+        now,
+      });
+
+      const request = vi.mocked(mockProvider.complete).mock.calls[0][0];
+      expect(request.agentType).toBe('WARMING');
+      expect(request.messages?.[0].content).toContain('not replied for 5 days');
+      expect(request.messages?.[0].content).toContain('follow-up 2 of 2');
+      expect(request.messages?.[0].content).toContain('preferred language (ky)');
+      expect(request.messages?.[1].content).toMatch(/Any tours in July\?[\s\S]*Song-Kul tour/);
+
+      expect(mockPrisma.message.create).not.toHaveBeenCalled();
+      expect(result.message).toBeNull();
+      expect(result.draft).toMatchObject({
+        kind: 'FOLLOW_UP',
+        followUpAttempt: 2,
+        content: 'Salam! Still thinking about Song-Kul?',
+        language: 'ky',
+      });
+    });
+
+    it('should send the follow-up and record it as a sent draft', async () => {
+      const result = await agent.createFollowUp({
+        organizationId: 'org-123',
+        conversationId: 'conv-1',
+        attempt: 1,
+        maxAttempts: 2,
+        autoSend: true,
+        now,
+      });
+
+      expect(mockPrisma.message.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ direction: 'OUTGOING', sender: 'AI', status: 'PENDING', language: 'ky' }),
+      });
+      expect(mockPrisma.conversation.update).toHaveBeenCalledWith({
+        where: { id: 'conv-1' },
+        data: { lastMessageAt: now },
+      });
+      expect(result.draft).toMatchObject({ status: 'SENT', sentMessageId: 'msg-3', followUpAttempt: 1 });
+      expect(result.message).toMatchObject({ id: 'msg-3' });
+    });
+  });
+
+  describe('expireAnsweredFollowUps', () => {
+    it('should reject pending follow-ups the client has replied after', async () => {
+      vi.mocked(mockPrisma.replyDraft.findMany).mockResolvedValue([
+        { id: 'draft-1', conversationId: 'conv-1', createdAt: new Date('2026-10-17T10:00:00Z') },
+        { id: 'draft-2', conversationId: 'conv-2', createdAt: new Date('2026-10-17T10:00:00Z') },
+      ] as any);
+      vi.mocked(mockPrisma.message.findFirst)
+        .mockResolvedValueOnce({ id: 'msg-reply' } as any)
+        .mockResolvedValueOnce(null);
+      vi.mocked(mockPrisma.replyDraft.updateMany).mockResolvedValue({ count: 1 });
+
+      expect(await agent.expireAnsweredFollowUps('org-123', now)).toBe(1);
+      expect(vi.mocked(mockPrisma.message.findFirst).mock.calls[0][0]?.where).toEqual({
+        conversationId: 'conv-1',
+        direction: 'INCOMING',
+        createdAt: { gt: new Date('2026-10-17T10:00:00Z') },
+      });
+      expect(mockPrisma.replyDraft.updateMany).toHaveBeenCalledTimes(1);
+      expect(mockPrisma.replyDraft.updateMany).toHaveBeenCalledWith({
+        where: { id: 'draft-1', status: 'PENDING' },
+        data: { status: 'REJECTED', reviewedAt: now },
+      });
+    });
+  });
+
+  describe('runForOrganization', () => {
+    it('should do nothing when follow-ups are disabled', async () => {
+      vi.mocked(mockPrisma.organization.findUnique).mockResolvedValue({ settings: { followUps: { enabled: false } } } as any);
+
+      expect(await agent.runForOrganization('org-123', now)).toBe(0);
+      expect(mockPrisma.conversation.findMany).not.toHaveBeenCalled();
+    });
+
+    it('should stop when the LLM budget is exhausted', async () => {
+      vi.mocked(mockPrisma.organization.findUnique).mockResolvedValue({ settings: { followUps: { enabled: true } } } as any);
+      vi.mocked(mockPrisma.conversation.findMany).mockResolvedValue([
+        staleConversation('conv-1', 'OUTGOING'),
+        staleConversation('conv-2', 'OUTGOING'),
+      ] as any);
+      vi.mocked(mockPrisma.message.findFirst).mockResolvedValue(null);
+      vi.mocked(mockPrisma.replyDraft.findMany).mockResolvedValue([]);
+      vi.mocked(mockProvider.complete).mockRejectedValue(new LLMProviderError('Budget exceeded', 'BUDGET_EXCEEDED', 402));
+
+      expect(await agent.runForOrganization('org-123', now)).toBe(0);
+      expect(mockProvider.complete).toHaveBeenCalledTimes(1);
+    });
+  });
+});
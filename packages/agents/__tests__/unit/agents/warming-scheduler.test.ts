@@ -0,0 +1,60 @@
+/**
+ * Unit tests for Warming Scheduler
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { WarmingScheduler } from '../../../src/agents/warming-scheduler';
+import type { WarmingAgent } from '../../../src/agents/warming-agent';
+import { PrismaClient } from '@soul-kg-crm/database';
+
+// Mock Prisma
+const mockPrisma = {
+  organization: {
+    findMany: vi.fn(),
+  },
+  scheduledJobRun: {
+    createMany: vi.fn(),
+    updateMany: vi.fn(),
+  },
+} as unknown as PrismaClient;
+
+const mockAgent = {
+  runForOrganization: vi.fn(),
+} as unknown as WarmingAgent;
+
+const HOUR = 60 * 60 * 1000;
+
+describe('WarmingScheduler', () => {
+  let scheduler: WarmingScheduler;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    scheduler = new WarmingScheduler(mockPrisma, mockAgent, { intervalMs: 6 * HOUR });
+    vi.mocked(mockPrisma.organization.findMany).mockResolvedValue([{ id: 'org-due' }, { id: 'org-recent' }] as any);
+    vi.mocked(mockPrisma.scheduledJobRun.createMany).mockResolvedValue({ count: 0 });
+    vi.mocked(mockAgent.runForOrganization).mockResolvedValue(2);
+  });
+
+  it('should run only organizations claimed by this instance', async () => {
+    const now = new Date('2026-10-19T12:00:00Z');
+    vi.mocked(mockPrisma.scheduledJobRun.updateMany)
+      .mockResolvedValueOnce({ count: 1 })
+      .mockResolvedValueOnce({ count: 0 });
+
+    await expect(scheduler.runOnce(now)).resolves.toBe(2);
+
+    expect(mockAgent.runForOrganization).toHaveBeenCalledTimes(1);
+    expect(mockAgent.runForOrganization).toHaveBeenCalledWith('org-due', now);
+    expect(vi.mocked(mockPrisma.scheduledJobRun.updateMany).mock.calls[0][0]).toMatchObject({
+      where: { organizationId: 'org-due', job: 'warming', lastRunAt: { lte: new Date(now.getTime() - 6 * HOUR) } },
+    });
+  });
+
+  it('should keep going when one organization fails', async () => {
+    vi.mocked(mockPrisma.scheduledJobRun.updateMany).mockResolvedValue({ count: 1 });
+    vi.mocked(mockAgent.runForOrganization).mockRejectedValueOnce(new Error('LLM down')).mockResolvedValueOnce(1);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    await expect(scheduler.runOnce()).resolves.toBe(1);
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * Unit tests for Dialogue Analysis Scheduler
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { DialogueAnalysisScheduler } from '../../../src/analysis/dialogue-analysis-scheduler';
+import type { DialogueAnalyzer } from '../../../src/analysis/dialogue-analyzer';
+import { PrismaClient } from '@soul-kg-crm/database';
+
+// Mock Prisma
+const mockPrisma = {
+  organization: {
+    findMany: vi.fn(),
+  },
+  promptVariant: {
+    findMany: vi.fn(),
+  },
+  scheduledJobRun: {
+    createMany: vi.fn(),
+    updateMany: vi.fn(),
+  },
+} as unknown as PrismaClient;
+
+const mockAnalyzer = {
+  analyze: vi.fn(),
+} as unknown as DialogueAnalyzer;
+
+const DAY = 24 * 60 * 60 * 1000;
+
+describe('DialogueAnalysisScheduler', () => {
+  let scheduler: DialogueAnalysisScheduler;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    scheduler = new DialogueAnalysisScheduler(mockPrisma, mockAnalyzer, { intervalMs: DAY });
+    vi.mocked(mockPrisma.organization.findMany).mockResolvedValue([{ id: 'org-new' }, { id: 'org-recent' }] as any);
+    vi.mocked(mockPrisma.promptVariant.findMany).mockResolvedValue([]);
+    vi.mocked(mockAnalyzer.analyze).mockResolvedValue({ runId: 'run-1' } as any);
+  });
+
+  it('should analyze only organizations whose run is due', async () => {
+    const now = new Date('2026-10-19T12:00:00Z');
+    vi.mocked(mockPrisma.scheduledJobRun.createMany)
+      .mockResolvedValueOnce({ count: 1 })
+      .mockResolvedValueOnce({ count: 0 });
+    vi.mocked(mockPrisma.scheduledJobRun.updateMany).mockResolvedValue({ count: 0 });
+
+    await expect(scheduler.runOnce(now)).resolves.toBe(1);
+
+    expect(mockAnalyzer.analyze).toHaveBeenCalledTimes(1);
+    expect(vi.mocked(mockAnalyzer.analyze).mock.calls[0][0]).toMatchObject({ organizationId: 'org-new' });
+    expect(mockPrisma.scheduledJobRun.updateMany).toHaveBeenCalledWith({
+      where: {
+        organizationId: 'org-recent',
+        job: 'dialogue-analysis',
+        lastRunAt: { lte: new Date(now.getTime() - DAY) },
+      },
+      data: { lastRunAt: now },
+    });
+  });
+
+  it('should run overdue organizations right after start', async () => {
+    vi.mocked(mockPrisma.scheduledJobRun.createMany).mockResolvedValue({ count: 0 });
+    vi.mocked(mockPrisma.scheduledJobRun.updateMany).mockResolvedValue({ count: 1 });
+
+    scheduler.start();
+    await vi.waitFor(() => expect(mockAnalyzer.analyze).toHaveBeenCalledTimes(2));
+    scheduler.stop();
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * Unit tests for Dialogue Analyzer
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  DialogueAnalyzer,
+  analysisResponseSchema,
+  keepKnownConversations,
+} from '../../../src/analysis/dialogue-analyzer';
+import type { ILLMProvider } from '../../../src/providers';
+import { PrismaClient } from '@soul-kg-crm/database';
+
+// Mock Prisma
+const mockPrisma = {
+  agentConfiguration: {
+    findMany: vi.fn(),
+  },
+  client: {
+    count: vi.fn(),
+  },
+  conversation: {
+    findMany: vi.fn(),
+  },
+  dialogueAnalysis: {
+    createMany: vi.fn(),
+  },
+} as unknown as PrismaClient;
+
+const mockProvider = {
+  complete: vi.fn(),
+  isAvailable: vi.fn(),
+} as unknown as ILLMProvider;
+
+const llmResponse = JSON.stringify({
+  successPatterns: [{ title: 'Quick quote', description: 'Price sent on day one', conversationIds: ['conv-won', 'conv-other'] }],
+  problemAreas: [{ title: 'Slow replies', description: 'Client waited two days', conversationIds: ['conv-lost'] }],
+  recommendations: [{ title: 'Quote early', description: 'Send price range in the first reply', priority: 'URGENT' }],
+});
+
+describe('keepKnownConversations', () => {
+  it('should drop unknown conversation ids', () => {
+    const parsed = analysisResponseSchema.parse(JSON.parse(llmResponse));
+    const result = keepKnownConversations(parsed, ['conv-won', 'conv-lost']);
+
+    expect(result.successPatterns[0].conversationIds).toEqual(['conv-won']);
+    expect(result.problemAreas[0].conversationIds).toEqual(['conv-lost']);
+    expect(result.recommendations[0].priority).toBe('MEDIUM');
+    expect(result.recommendations[0].conversationIds).toEqual([]);
+  });
+});
+
+describe('DialogueAnalyzer', () => {
+  let analyzer: DialogueAnalyzer;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    analyzer = new DialogueAnalyzer(mockPrisma, mockProvider);
+    vi.mocked(mockPrisma.agentConfiguration.findMany).mockResolvedValue([]);
+  });
+
+  const mockSample = () => {
+    vi.mocked(mockPrisma.client.count).mockResolvedValue(1);
+    vi.mocked(mockPrisma.conversation.findMany)
+      .mockResolvedValueOnce([{ id: 'conv-won', messages: [{ direction: 'INCOMING', sender: 'CLIENT', content: 'Yes' }] }] as any)
+      .mockResolvedValueOnce([]);
+    vi.mocked(mockProvider.complete).mockResolvedValue({ content: llmResponse, model: 'test' });
+  };
+
+  it('should skip the run without closed conversations', async () => {
+    vi.mocked(mockPrisma.client.count).mockResolvedValue(0);
+    vi.mocked(mockPrisma.conversation.findMany).mockResolvedValue([]);
+
+    await expect(analyzer.analyze({ organizationId: 'org-123' })).resolves.toBeNull();
+    expect(mockProvider.complete).not.toHaveBeenCalled();
+    expect(mockPrisma.dialogueAnalysis.createMany).not.toHaveBeenCalled();
+  });
+
+  it('should store one analysis per type', async () => {
+    vi.mocked(mockPrisma.client.count).mockResolvedValueOnce(3).mockResolvedValueOnce(1);
+    vi.mocked(mockPrisma.conversation.findMany)
+      .mockResolvedValueOnce([
+        {
+          id: 'conv-won',
+          messages: [
+            { direction: 'OUTGOING', sender: 'AI', content: 'Here is the price' },
+            { direction: 'INCOMING', sender: 'CLIENT', content: 'How much?' },
+          ],
+        },
+      ] as any)
+      .mockResolvedValueOnce([
+        { id: 'conv-lost', messages: [{ direction: 'INCOMING', sender: 'CLIENT', content: 'Hello' }] },
+      ] as any);
+    vi.mocked(mockProvider.complete).mockResolvedValue({ content: llmResponse, model: 'test' });
+
+    const run = await analyzer.analyze({ organizationId: 'org-123', promptVariantId: 'variant-1' });
+
+    expect(run?.metrics).toEqual({ wonCount: 3, lostCount: 1, winRate: 0.75, averageMessages: { won: 2, lost: 1 } });
+    expect(vi.mocked(mockPrisma.client.count).mock.calls[0][0]?.where).toMatchObject({
+      organizationId: 'org-123',
+      experimentAssignments: { some: { variantId: 'variant-1' } },
+    });
+
+    const request = vi.mocked(mockProvider.complete).mock.calls[0][0];
+    expect(request.responseFormat?.name).toBe('dialogue_analysis');
+    expect(request.messages?.[0]).toMatchObject({ role: 'system' });
+    expect(request.messages?.[0].content).not.toContain('conv-won');
+    expect(request.messages?.[1]).toMatchObject({ role: 'user' });
+    expect(request.messages?.[1].content).toContain(
+      '### Conversation conv-won (WON)\n[Client]: How much?\n[AI]: Here is the price'
+    );
+
+    const { data } = vi.mocked(mockPrisma.dialogueAnalysis.createMany).mock.calls[0][0] as { data: any[] };
+    expect(data.map((row) => row.analysisType)).toEqual([
+      'SUCCESS_PATTERNS',
+      'PROBLEM_AREAS',
+      'CONVERSION_METRICS',
+      'RECOMMENDATIONS',
+    ]);
+    expect(data.every((row) => row.promptVariantId === 'variant-1' && row.data.runId === run?.runId)).toBe(true);
+    expect(data[3].recommendations).toHaveLength(1);
+  });
+
+  it('should use only providers allowed by every agent configuration', async () => {
+    mockSample();
+    vi.mocked(mockPrisma.agentConfiguration.findMany).mockResolvedValue([
+      { settings: { providers: ['self-hosted', 'openrouter'] } },
+      { settings: { providers: ['self-hosted'] } },
+      { settings: { model: 'gpt-4o' } },
+    ] as any);
+
+    await analyzer.analyze({ organizationId: 'org-123' });
+
+    expect(vi.mocked(mockProvider.complete).mock.calls[0][0].providers).toEqual(['self-hosted']);
+  });
+
+  it('should fail closed when no provider is allowed by every configuration', async () => {
+    mockSample();
+    vi.mocked(mockPrisma.agentConfiguration.findMany).mockResolvedValue([
+      { settings: { providers: ['openrouter'] } },
+      { settings: { providers: ['self-hosted'] } },
+    ] as any);
+
+    await expect(analyzer.analyze({ organizationId: 'org-123' })).rejects.toMatchObject({ code: 'NO_ALLOWED_PROVIDERS' });
+    expect(mockProvider.complete).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * Unit tests for LLM Budget
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { LLMBudgetService, evaluateLLMBudget, parseLLMBudget } from '../../../src/budget/llm-budget';
+import { BaseLLMProvider } from '../../../src/providers/base-provider';
+import type { LLMRequest, LLMResponse } from '../../../src/types';
+import { LLMProviderError } from '../../../src/types';
+import { PrismaClient } from '@soul-kg-crm/database';
+
+describe('parseLLMBudget', () => {
+  it('should read the budget from organization settings', () => {
+    expect(parseLLMBudget({ llmBudget: { monthlyCost: { soft: 50, hard: 100 }, warningPercent: 90 } })).toEqual({
+      monthlyCost: { soft: 50, hard: 100 },
+      warningPercent: 90,
+    });
+    expect(parseLLMBudget(null)).toBeNull();
+    expect(parseLLMBudget({ theme: 'dark' })).toBeNull();
+    expect(parseLLMBudget({ llmBudget: null })).toBeNull();
+  });
+
+  it('should ignore invalid budgets', () => {
+    const consoleSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(parseLLMBudget({ llmBudget: { monthlyTokens: { soft: 200, hard: 100 } } })).toBeNull();
+    expect(consoleSpy).toHaveBeenCalled();
+    consoleSpy.mockRestore();
+  });
+});
+
+describe('evaluateLLMBudget', () => {
+  const budget = { monthlyTokens: { hard: 1000 }, monthlyCost: { soft: 5, hard: 10 } };
+
+  it('should be OK without limits', () => {
+    expect(evaluateLLMBudget(null, { tokens: 5000, cost: 50 })).toEqual({ level: 'OK', percentUsed: null });
+  });
+
+  it('should warn at the configured percentage of any limit', () => {
+    expect(evaluateLLMBudget(budget, { tokens: 100, cost: 3 })).toEqual({ level: 'OK', percentUsed: 60 });
+    expect(evaluateLLMBudget(budget, { tokens: 100, cost: 4 })).toEqual({ level: 'WARNING', percentUsed: 80 });
+    expect(evaluateLLMBudget({ ...budget, warningPercent: 90 }, { tokens: 100, cost: 4 }).level).toBe('OK');
+  });
+
+  it('should detect exceeded soft and hard limits', () => {
+    expect(evaluateLLMBudget(budget, { tokens: 100, cost: 5 }).level).toBe('SOFT_EXCEEDED');
+    expect(evaluateLLMBudget(budget, { tokens: 1000, cost: 1 })).toEqual({ level: 'HARD_EXCEEDED', percentUsed: 100 });
+  });
+});
+
+describe('LLMBudgetService', () => {
+  let mockPrisma: any;
+  let now: Date;
+
+  beforeEach(() => {
+    now = new Date('2026-10-19T12:00:00Z');
+    mockPrisma = {
+      organization: {
+        findUnique: vi.fn().mockResolvedValue({ settings: { llmBudget: { monthlyTokens: { soft: 500, hard: 1000 } } } }),
+      },
+      llmUsage: {
+        aggregate: vi.fn().mockResolvedValue({ _sum: { totalTokens: 1000, cost: '0.25' } }),
+      },
+    };
+  });
+
+  const createService = (onWarning = vi.fn()) =>
+    new LLMBudgetService(mockPrisma as unknown as PrismaClient, { onWarning, now: () => now, cacheTtlMs: 1000 });
+
+  it('should sum usage of the current calendar month', async () => {
+    const status = await createService().getStatus('org-123');
+
+    expect(mockPrisma.llmUsage.aggregate).toHaveBeenCalledWith({
+      where: {
+        organizationId: 'org-123',
+        createdAt: { gte: new Date('2026-10-01T00:00:00Z'), lt: new Date('2026-11-01T00:00:00Z') },
+      },
+      _sum: { totalTokens: true, cost: true },
+    });
+    expect(status.usage).toEqual({ tokens: 1000, cost: 0.25 });
+    expect(status.level).toBe('HARD_EXCEEDED');
+  });
+
+  it('should reject calls over the hard limit and warn once', async () => {
+    const onWarning = vi.fn();
+    const service = createService(onWarning);
+
+    await expect(service.check('org-123')).rejects.toMatchObject({ code: 'BUDGET_EXCEEDED', retryable: false });
+    await expect(service.check('org-123')).rejects.toBeInstanceOf(LLMProviderError);
+
+    expect(onWarning).toHaveBeenCalledTimes(1);
+    expect(onWarning.mock.calls[0][0]).toMatchObject({ organizationId: 'org-123', level: 'HARD_EXCEEDED' });
+    // Второй check взял расход из кеша
+    expect(mockPrisma.llmUsage.aggregate).toHaveBeenCalledTimes(1);
+  });
+
+  it('should allow calls over the soft limit', async () => {
+    mockPrisma.llmUsage.aggregate.mockResolvedValue({ _sum: { totalTokens: 600, cost: null } });
+    const onWarning = vi.fn();
+
+    await expect(createService(onWarning).check('org-123')).resolves.toBeUndefined();
+    expect(onWarning.mock.calls[0][0].level).toBe('SOFT_EXCEEDED');
+  });
+
+  it('should recount usage after the cache expires', async () => {
+    const service = createService();
+    mockPrisma.llmUsage.aggregate.mockResolvedValue({ _sum: { totalTokens: 100, cost: null } });
+
+    await service.check('org-123');
+    now = new Date(now.getTime() + 2000);
+    await service.check('org-123');
+
+    expect(mockPrisma.llmUsage.aggregate).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('BaseLLMProvider budget', () => {
+  class TestProvider extends BaseLLMProvider {
+    readonly executeRequest = vi.fn(
+      async (_request: LLMRequest): Promise<LLMResponse> => ({ content: 'ok', model: 'test-model' })
+    );
+
+    async isAvailable(): Promise<boolean> {
+      return true;
+    }
+  }
+
+  it('should check the budget before calling the LLM', async () => {
+    const budget = {
+      check: vi.fn().mockRejectedValue(new LLMProviderError('Budget exceeded', 'BUDGET_EXCEEDED', 402, false)),
+    };
+    const provider = new TestProvider({ defaultModel: 'test-model', budget });
+
+    await expect(provider.complete({ prompt: 'Hello', organizationId: 'org-123' })).rejects.toMatchObject({
+      code: 'BUDGET_EXCEEDED',
+    });
+    expect(budget.check).toHaveBeenCalledWith('org-123');
+    expect(provider.executeRequest).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,219 @@
+/**
+ * Unit tests for LLM response cache
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { buildCacheKey, normalizePrompt } from '../../../src/cache/cache-key';
+import { InMemoryResponseCacheStore, PostgresResponseCacheStore } from '../../../src/cache/response-cache-store';
+import { CachingProvider } from '../../../src/cache/caching-provider';
+import type { ILLMProvider } from '../../../src/providers/base-provider';
+import { PrismaClient } from '@soul-kg-crm/database';
+
+const request = { prompt: 'Detect status', organizationId: 'org-123', model: 'gpt-4o-mini', temperature: 0.3 };
+const response = { content: 'SOLD', model: 'gpt-4o-mini', metadata: { finishReason: 'stop' } };
+
+describe('cache key', () => {
+  it('should normalize line endings and whitespace', () => {
+    expect(normalizePrompt('  Hello \r\n\r\n\r\n  world\t\tagain  ')).toBe('Hello\n\n world again');
+  });
+
+  it('should ignore formatting differences', () => {
+    expect(buildCacheKey({ ...request, prompt: 'Detect status\r\n' })).toBe(buildCacheKey(request));
+  });
+
+  it('should isolate organizations', () => {
+    const key = buildCacheKey(request);
+
+    expect(key.startsWith('org-123:')).toBe(true);
+    expect(buildCacheKey({ ...request, organizationId: 'org-456' })).not.toBe(key);
+  });
+
+  it('should depend on model and parameters', () => {
+    const key = buildCacheKey(request);
+
+    expect(buildCacheKey({ ...request, model: 'gpt-4o' })).not.toBe(key);
+    expect(buildCacheKey({ ...request, temperature: 0.7 })).not.toBe(key);
+    expect(buildCacheKey({ ...request, maxTokens: 100 })).not.toBe(key);
+    expect(buildCacheKey({ ...request, stop: ['\n\n'] })).not.toBe(key);
+  });
+
+  it('should distinguish message roles', () => {
+    const asSystem = buildCacheKey({ organizationId: 'org-123', messages: [{ role: 'system', content: 'Detect status' }] });
+    const asUser = buildCacheKey({ organizationId: 'org-123', messages: [{ role: 'user', content: 'Detect status' }] });
+
+    expect(asSystem).not.toBe(asUser);
+  });
+});
+
+describe('InMemoryResponseCacheStore', () => {
+  it('should expire entries after the TTL', async () => {
+    let now = 0;
+    const store = new InMemoryResponseCacheStore({ now: () => now });
+
+    await store.set('key', 'org-123', response, 1000);
+    expect(await store.get('key')).toEqual(response);
+
+    now = 1000;
+    expect(await store.get('key')).toBeNull();
+  });
+
+  it('should evict the oldest entries', async () => {
+    const store = new InMemoryResponseCacheStore({ maxEntries: 2 });
+
+    await store.set('a', 'org-123', response, 1000);
+    await store.set('b', 'org-123', response, 1000);
+    await store.set('c', 'org-123', response, 1000);
+
+    expect(store.size).toBe(2);
+    expect(await store.get('a')).toBeNull();
+  });
+
+  it('should clear one organization', async () => {
+    const store = new InMemoryResponseCacheStore();
+
+    await store.set('a', 'org-123', response, 1000);
+    await store.set('b', 'org-456', response, 1000);
+    await store.clear('org-123');
+
+    expect(await store.get('a')).toBeNull();
+    expect(await store.get('b')).toEqual(response);
+  });
+});
+
+describe('PostgresResponseCacheStore', () => {
+  let mockPrisma: any;
+  const now = new Date('2026-10-19T12:00:00Z');
+
+  beforeEach(() => {
+    mockPrisma = {
+      llmResponseCache: {
+        findUnique: vi.fn(),
+        upsert: vi.fn().mockResolvedValue({}),
+        deleteMany: vi.fn().mockResolvedValue({ count: 3 }),
+      },
+    };
+  });
+
+  const createStore = () => new PostgresResponseCacheStore(mockPrisma as unknown as PrismaClient, { now: () => now });
+
+  it('should ignore expired rows', async () => {
+    mockPrisma.llmResponseCache.findUnique.mockResolvedValueOnce({ response, expiresAt: new Date('2026-10-20') });
+    mockPrisma.llmResponseCache.findUnique.mockResolvedValueOnce({ response, expiresAt: new Date('2026-10-18') });
+
+    expect(await createStore().get('key')).toEqual(response);
+    expect(await createStore().get('key')).toBeNull();
+  });
+
+  it('should upsert responses with expiry', async () => {
+    await createStore().set('key', 'org-123', response, 60000);
+
+    const data = {
+      organizationId: 'org-123',
+      model: 'gpt-4o-mini',
+      response,
+      expiresAt: new Date('2026-10-19T12:01:00Z'),
+    };
+    expect(mockPrisma.llmResponseCache.upsert).toHaveBeenCalledWith({
+      where: { key: 'key' },
+      create: { key: 'key', ...data },
+      update: data,
+    });
+  });
+
+  it('should purge expired rows', async () => {
+    expect(await createStore().purgeExpired()).toBe(3);
+    expect(mockPrisma.llmResponseCache.deleteMany).toHaveBeenCalledWith({ where: { expiresAt: { lte: now } } });
+  });
+});
+
+describe('CachingProvider', () => {
+  let inner: ILLMProvider;
+
+  beforeEach(() => {
+    inner = {
+      complete: vi.fn().mockResolvedValue(response),
+      stream: vi.fn(async function* () {
+        yield { delta: response.content, response };
+      }),
+      isAvailable: vi.fn().mockResolvedValue(true),
+    };
+  });
+
+  it('should serve repeated requests from the cache', async () => {
+    const provider = new CachingProvider(inner, new InMemoryResponseCacheStore());
+
+    const first = await provider.complete(request);
+    const second = await provider.complete({ ...request, prompt: 'Detect status\n' });
+
+    expect(first.metadata).toEqual({ finishReason: 'stop' });
+    expect(second.metadata).toEqual({ finishReason: 'stop', cached: true });
+    expect(inner.complete).toHaveBeenCalledTimes(1);
+    expect(provider.getMetrics()).toEqual({ hits: 1, misses: 1, bypasses: 0, errors: 0, hitRate: 0.5 });
+  });
+
+  it('should not share responses between organizations', async () => {
+    const provider = new CachingProvider(inner, new InMemoryResponseCacheStore());
+
+    await provider.complete(request);
+    await provider.complete({ ...request, organizationId: 'org-456' });
+
+    expect(inner.complete).toHaveBeenCalledTimes(2);
+    expect(provider.getMetrics('org-456')).toMatchObject({ hits: 0, misses: 1 });
+  });
+
+  it('should bypass the cache on request and refresh the entry', async () => {
+    const provider = new CachingProvider(inner, new InMemoryResponseCacheStore());
+
+    await provider.complete(request);
+    vi.mocked(inner.complete).mockResolvedValue({ ...response, content: 'NEGOTIATION' });
+
+    const fresh = await provider.complete({ ...request, bypassCache: true });
+    const cached = await provider.complete(request);
+
+    expect(fresh.content).toBe('NEGOTIATION');
+    expect(cached.content).toBe('NEGOTIATION');
+    expect(provider.getMetrics('org-123')).toMatchObject({ hits: 1, misses: 1, bypasses: 1 });
+  });
+
+  it('should call the provider when the store fails', async () => {
+    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const store = {
+      get: vi.fn().mockRejectedValue(new Error('Database unavailable')),
+      set: vi.fn().mockRejectedValue(new Error('Database unavailable')),
+      clear: vi.fn(),
+    };
+    const provider = new CachingProvider(inner, store);
+
+    await expect(provider.complete(request)).resolves.toEqual(response);
+    expect(provider.getMetrics().errors).toBe(2);
+    consoleSpy.mockRestore();
+  });
+
+  it('should not cache failed requests', async () => {
+    const store = new InMemoryResponseCacheStore();
+    vi.mocked(inner.complete).mockRejectedValueOnce(new Error('Provider down'));
+    const provider = new CachingProvider(inner, store);
+
+    await expect(provider.complete(request)).rejects.toThrow('Provider down');
+    expect(store.size).toBe(0);
+  });
+
+  it('should stream cache hits as a single chunk and store streamed responses', async () => {
+    const provider = new CachingProvider(inner, new InMemoryResponseCacheStore());
+    const read = async () => {
+      const chunks = [];
+      for await (const chunk of provider.stream(request)) {
+        chunks.push(chunk);
+      }
+      return chunks;
+    };
+
+    await read();
+    const cached = await read();
+
+    expect(inner.stream).toHaveBeenCalledTimes(1);
+    expect(cached).toHaveLength(1);
+    expect(cached[0]).toMatchObject({ delta: 'SOLD', response: { content: 'SOLD', metadata: { cached: true } } });
+    expect(provider.getMetrics('org-123')).toMatchObject({ hits: 1, misses: 1 });
+  });
+});
@@ -158,6 +158,58 @@ describe('LLMStatusDetector', () => {
       expect(result.confidence).toBe(0.95);
       expect(result.reasoning).toBe('Payment confirmed');
     });
+
+    it('should request structured output and parse cultural context', async () => {
+      const mockPrompt = {
+        id: 'prompt-123',
+        organizationId: 'org-123',
+        agentType: 'STATUS_DETECTION' as any,
+        name: 'default',
+        prompt: 'Test prompt',
+        settings: {},
+        updatedAt: new Date(),
+      };
+
+      vi.mocked(mockPromptLoader.loadPrompt).mockResolvedValue(mockPrompt as any);
+      vi.mocked(mockLLMProvider.complete).mockResolvedValue({
+        content: JSON.stringify({
+          status: 'WARMED',
+          confidence: 0.8,
+          reasoning: null,
+          culturalContext: {
+            likelyOrigin: 'India',
+            region: 'South Asia',
+            communicationStyle: 'formal',
+            dietaryRestrictions: ['Vegetarian'],
+            culturalNotes: null,
+            confidence: 0.9,
+          },
+        }),
+        model: 'gpt-4o-mini',
+      });
+
+      const result = await detector.detectStatus({
+        organizationId: 'org-123',
+        messages: [{ id: 'msg-1', content: 'Namaste!', timestamp: new Date(), fromMe: false, type: 'text' }],
+        firstMessageDate: new Date(),
+        lastMessageDate: new Date(),
+      });
+
+      expect(vi.mocked(mockLLMProvider.complete).mock.calls[0][0].responseFormat?.name).toBe('status_detection');
+      expect(result).toEqual({
+        status: ClientStatus.WARMED,
+        confidence: 0.8,
+        reasoning: undefined,
+        culturalContext: {
+          likelyOrigin: 'India',
+          region: 'South Asia',
+          communicationStyle: 'formal',
+          dietaryRestrictions: ['Vegetarian'],
+          culturalNotes: [],
+          confidence: 0.9,
+        },
+      });
+    });
   });
 });
 
@@ -0,0 +1,107 @@
+/**
+ * Unit tests for Experiment Service
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { ExperimentService, pickWeightedVariant } from '../../../src/experiments/experiment-service';
+import { PrismaClient, AgentType } from '@soul-kg-crm/database';
+
+// Mock Prisma
+const mockPrisma = {
+  experiment: {
+    findFirst: vi.fn(),
+  },
+  client: {
+    findFirst: vi.fn(),
+  },
+  experimentAssignment: {
+    upsert: vi.fn(),
+  },
+} as unknown as PrismaClient;
+
+describe('pickWeightedVariant', () => {
+  const variants = [
+    { id: 'variant-a', weight: 3 },
+    { id: 'variant-b', weight: 1 },
+  ];
+
+  it('should pick the same variant for the same key', () => {
+    const first = pickWeightedVariant(variants, 'exp-1:client-1');
+    const second = pickWeightedVariant([...variants].reverse(), 'exp-1:client-1');
+
+    expect(first).toEqual(second);
+  });
+
+  it('should split clients according to weights', () => {
+    const picks = Array.from({ length: 2000 }, (_, index) => pickWeightedVariant(variants, `exp-1:client-${index}`));
+    const shareOfA = picks.filter((variant) => variant?.id === 'variant-a').length / picks.length;
+
+    expect(shareOfA).toBeGreaterThan(0.7);
+    expect(shareOfA).toBeLessThan(0.8);
+  });
+
+  it('should skip variants with zero weight', () => {
+    expect(pickWeightedVariant([{ id: 'variant-a', weight: 0 }], 'key')).toBeNull();
+    expect(pickWeightedVariant([{ id: 'variant-a', weight: 0 }, { id: 'variant-b', weight: 1 }], 'key')?.id).toBe(
+      'variant-b'
+    );
+  });
+});
+
+describe('ExperimentService', () => {
+  let service: ExperimentService;
+  const options = {
+    organizationId: 'org-123',
+    agentType: AgentType.COMMUNICATION,
+    clientId: 'client-123',
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    service = new ExperimentService(mockPrisma);
+  });
+
+  it('should return null without an active experiment', async () => {
+    vi.mocked(mockPrisma.experiment.findFirst).mockResolvedValue(null);
+
+    await expect(service.assignVariant(options)).resolves.toBeNull();
+    expect(mockPrisma.experimentAssignment.upsert).not.toHaveBeenCalled();
+  });
+
+  it('should keep an existing assignment', async () => {
+    vi.mocked(mockPrisma.experiment.findFirst).mockResolvedValue({
+      id: 'exp-1',
+      variants: [
+        { id: 'variant-a', weight: 1 },
+        { id: 'variant-b', weight: 1 },
+      ],
+    } as any);
+    vi.mocked(mockPrisma.client.findFirst).mockResolvedValue({
+      experimentAssignments: [{ variantId: 'variant-b' }],
+    } as any);
+
+    await expect(service.assignVariant(options)).resolves.toBe('variant-b');
+    expect(vi.mocked(mockPrisma.client.findFirst).mock.calls[0][0]?.select).toEqual({
+      experimentAssignments: { where: { experimentId: 'exp-1' }, select: { variantId: true } },
+    });
+    expect(mockPrisma.experimentAssignment.upsert).not.toHaveBeenCalled();
+  });
+
+  it('should assign and store a variant for a new participant', async () => {
+    const variants = [
+      { id: 'variant-a', weight: 1 },
+      { id: 'variant-b', weight: 1 },
+    ];
+    vi.mocked(mockPrisma.experiment.findFirst).mockResolvedValue({ id: 'exp-1', variants } as any);
+    vi.mocked(mockPrisma.client.findFirst).mockResolvedValue({ experimentAssignments: [] } as any);
+
+    const variantId = await service.assignVariant(options);
+
+    expect(variantId).toBe(pickWeightedVariant(variants, 'exp-1:client-123')?.id);
+    expect(mockPrisma.experimentAssignment.upsert).toHaveBeenCalledWith({
+      where: { experimentId_clientId: { experimentId: 'exp-1', clientId: 'client-123' } },
+      create: { organizationId: 'org-123', experimentId: 'exp-1', clientId: 'client-123', variantId },
+      update: { variantId },
+    });
+  });
+});
@@ -4,6 +4,7 @@
 
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { PromptLoader } from '../../../src/prompt-manager/prompt-loader';
+import type { ExperimentService } from '../../../src/experiments/experiment-service';
 import { PrismaClient, AgentType } from '@soul-kg-crm/database';
 
 // Mock Prisma
@@ -34,6 +35,7 @@ describe('PromptLoader', () => {
         name: 'default',
         prompt: 'Test prompt',
         settings: { model: 'gpt-4o-mini' },
+        currentVersion: 3,
         updatedAt: new Date(),
       };
 
@@ -48,6 +50,7 @@ describe('PromptLoader', () => {
       expect(prompt).toBeDefined();
       expect(prompt.prompt).toBe('Test prompt');
       expect(prompt.organizationId).toBe(organizationId);
+      expect(prompt.version).toBe('3');
     });
 
     it('should throw error if prompt not found', async () => {
@@ -81,6 +84,91 @@ describe('PromptLoader', () => {
       });
 
       expect(prompt.prompt).toBe('Variant prompt');
+      expect(prompt.variantId).toBe('variant-123');
+    });
+
+    it('should serve the experiment variant assigned to the client with the default settings', async () => {
+      const experiments = { assignVariant: vi.fn().mockResolvedValue('variant-123') };
+      loader = new PromptLoader(mockPrisma, undefined, experiments as unknown as ExperimentService);
+
+      vi.mocked(mockPrisma.promptVariant.findFirst).mockResolvedValue({
+        id: 'variant-123',
+        organizationId,
+        agentType: AgentType.COMMUNICATION,
+        name: 'variant-1',
+        prompt: 'Variant prompt',
+        updatedAt: new Date(),
+      } as any);
+      vi.mocked(mockPrisma.agentConfiguration.findFirst).mockResolvedValue({
+        settings: { model: 'gpt-4o', temperature: 0.2, maxTokens: 800 },
+      } as any);
+
+      const prompt = await loader.loadPrompt({
+        organizationId,
+        agentType: AgentType.COMMUNICATION,
+        name: 'default',
+        clientId: 'client-123',
+      });
+
+      expect(prompt.prompt).toBe('Variant prompt');
+      expect(prompt.settings).toEqual({ model: 'gpt-4o', temperature: 0.2, maxTokens: 800 });
+      expect(mockPrisma.agentConfiguration.findFirst).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { organizationId, agentType: AgentType.COMMUNICATION, name: 'default' },
+        })
+      );
+    });
+
+    it('should keep the self-hosted provider chain for experiment clients', async () => {
+      const experiments = { assignVariant: vi.fn().mockResolvedValue('variant-123') };
+      loader = new PromptLoader(mockPrisma, undefined, experiments as unknown as ExperimentService);
+
+      vi.mocked(mockPrisma.promptVariant.findFirst).mockResolvedValue({
+        id: 'variant-123',
+        organizationId,
+        agentType: AgentType.COMMUNICATION,
+        name: 'variant-1',
+        prompt: 'Variant prompt',
+        updatedAt: new Date(),
+      } as any);
+      vi.mocked(mockPrisma.agentConfiguration.findFirst).mockResolvedValue({
+        settings: { providers: ['self-hosted'], models: { 'self-hosted': 'llama-3.1-70b' } },
+      } as any);
+
+      const prompt = await loader.loadPrompt({
+        organizationId,
+        agentType: AgentType.COMMUNICATION,
+        clientId: 'client-123',
+      });
+
+      expect(prompt.variantId).toBe('variant-123');
+      expect(prompt.settings.providers).toEqual(['self-hosted']);
+      expect(prompt.settings.models).toEqual({ 'self-hosted': 'llama-3.1-70b' });
+    });
+
+    it('should fall back to the default config without an active experiment', async () => {
+      const experiments = { assignVariant: vi.fn().mockResolvedValue(null) };
+      loader = new PromptLoader(mockPrisma, undefined, experiments as unknown as ExperimentService);
+
+      vi.mocked(mockPrisma.agentConfiguration.findFirst).mockResolvedValue({
+        id: 'config-123',
+        organizationId,
+        agentType: AgentType.STATUS_DETECTION,
+        name: 'default',
+        prompt: 'Default prompt',
+        settings: {},
+        currentVersion: 1,
+        updatedAt: new Date(),
+      } as any);
+
+      const prompt = await loader.loadPrompt({
+        organizationId,
+        agentType: AgentType.STATUS_DETECTION,
+        clientId: 'client-123',
+      });
+
+      expect(prompt.prompt).toBe('Default prompt');
+      expect(mockPrisma.promptVariant.findFirst).not.toHaveBeenCalled();
     });
   });
 
@@ -0,0 +1,262 @@
+/**
+ * Unit tests for OpenAI-compatible Provider
+ *
+ * Запросы идут на локальный stub-сервер с OpenAI-совместимым API
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { createServer, type IncomingHttpHeaders, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { OpenAICompatibleProvider } from '../../../src/providers/openai-compatible-provider';
+import { LLMProviderError } from '../../../src/types';
+
+interface StubReply {
+  status: number;
+  body: unknown;
+}
+
+describe('OpenAICompatibleProvider', () => {
+  let server: Server;
+  let baseURL: string;
+  let reply: StubReply;
+  let streamChunks: string[];
+  let received: { method?: string; url?: string; headers: IncomingHttpHeaders; body: any }[];
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      let raw = '';
+      req.on('data', (chunk) => (raw += chunk));
+      req.on('end', () => {
+        const body = raw ? JSON.parse(raw) : null;
+        received.push({ method: req.method, url: req.url, headers: req.headers, body });
+
+        if (body?.stream && reply.status === 200) {
+          // Server-sent events: по фрагменту на элемент streamChunks, затем usage
+          res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+          const events = [
+            ...streamChunks.map((content) => ({ model: body.model, choices: [{ index: 0, delta: { content } }] })),
+            { model: body.model, choices: [{ index: 0, delta: {}, finish_reason: 'stop' }] },
+            { model: body.model, choices: [], usage: { prompt_tokens: 10, completion_tokens: 2, total_tokens: 12 } },
+          ];
+          for (const event of events) {
+            res.write(`data: ${JSON.stringify({ id: 'chatcmpl-1', object: 'chat.completion.chunk', created: 0, ...event })}\n\n`);
+          }
+          res.end('data: [DONE]\n\n');
+          return;
+        }
+
+        res.writeHead(reply.status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(reply.body));
+      });
+    });
+
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    received = [];
+    streamChunks = ['Hel', 'lo!'];
+    reply = {
+      status: 200,
+      body: {
+        id: 'chatcmpl-1',
+        object: 'chat.completion',
+        created: 0,
+        model: 'llama-3.1-8b-instruct',
+        choices: [{ index: 0, message: { role: 'assistant', content: 'Test response' }, finish_reason: 'stop' }],
+        usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 },
+      },
+    };
+  });
+
+  const createProvider = (overrides: Partial<ConstructorParameters<typeof OpenAICompatibleProvider>[0]> = {}) =>
+    new OpenAICompatibleProvider({
+      baseURL,
+      defaultModel: 'llama-3.1-8b-instruct',
+      retryAttempts: 1,
+      ...overrides,
+    });
+
+  describe('constructor', () => {
+    it('should require base URL and model', () => {
+      expect(() => new OpenAICompatibleProvider({ baseURL: '', defaultModel: 'llama' })).toThrow(
+        'Self-hosted LLM base URL is required'
+      );
+      expect(() => new OpenAICompatibleProvider({ baseURL, defaultModel: '' })).toThrow(
+        'Self-hosted LLM model is required'
+      );
+    });
+  });
+
+  describe('complete', () => {
+    it('should send chat completion request to the configured server', async () => {
+      const provider = createProvider({ apiKey: 'local-secret' });
+
+      const response = await provider.complete({ prompt: 'Hello', organizationId: 'org-123', temperature: 0.2 });
+
+      expect(response).toEqual({
+        content: 'Test response',
+        model: 'llama-3.1-8b-instruct',
+        usage: { promptTokens: 10, completionTokens: 5, totalTokens: 15 },
+        metadata: { finishReason: 'stop' },
+      });
+      expect(received[0].method).toBe('POST');
+      expect(received[0].url).toBe('/v1/chat/completions');
+      expect(received[0].headers.authorization).toBe('Bearer local-secret');
+      expect(received[0].body).toMatchObject({
+        model: 'llama-3.1-8b-instruct',
+        messages: [{ role: 'user', content: 'Hello' }],
+        temperature: 0.2,
+      });
+    });
+
+    it('should send custom headers', async () => {
+      const provider = createProvider({ headers: { 'X-Api-Key': 'proxy-key' } });
+
+      await provider.complete({ prompt: 'Hello', organizationId: 'org-123', model: 'qwen2.5' });
+
+      expect(received[0].headers['x-api-key']).toBe('proxy-key');
+      expect(received[0].body.model).toBe('qwen2.5');
+    });
+
+    it('should request JSON mode according to the configured mode', async () => {
+      const responseFormat = { name: 'status', schema: { type: 'object', properties: {} } };
+
+      await createProvider().complete({ prompt: 'Hello', organizationId: 'org-123', responseFormat });
+      await createProvider({ jsonMode: 'json_object' }).complete({ prompt: 'Hello', organizationId: 'org-123', responseFormat });
+      await createProvider({ jsonMode: 'none' }).complete({ prompt: 'Hello', organizationId: 'org-123', responseFormat });
+      await createProvider().complete({ prompt: 'Hello', organizationId: 'org-123' });
+
+      expect(received[0].body.response_format).toEqual({
+        type: 'json_schema',
+        json_schema: { name: 'status', schema: responseFormat.schema, strict: false },
+      });
+      expect(received[1].body.response_format).toEqual({ type: 'json_object' });
+      expect(received[2].body.response_format).toBeUndefined();
+      expect(received[3].body.response_format).toBeUndefined();
+    });
+
+    it('should send role messages and stop sequences', async () => {
+      await createProvider().complete({
+        messages: [
+          { role: 'system', content: 'You are a travel agent' },
+          { role: 'assistant', content: 'How can I help?' },
+        ],
+        prompt: 'Tell me about tours',
+        stop: ['\nClient:'],
+        organizationId: 'org-123',
+      });
+
+      expect(received[0].body.messages).toEqual([
+        { role: 'system', content: 'You are a travel agent' },
+        { role: 'assistant', content: 'How can I help?' },
+        { role: 'user', content: 'Tell me about tours' },
+      ]);
+      expect(received[0].body.stop).toEqual(['\nClient:']);
+    });
+
+    it('should reject requests without prompt and messages', async () => {
+      await expect(createProvider().complete({ organizationId: 'org-123' })).rejects.toMatchObject({
+        code: 'INVALID_REQUEST',
+      });
+      expect(received).toHaveLength(0);
+    });
+
+    it('should map server errors to retryable errors', async () => {
+      reply = { status: 503, body: { error: { message: 'Model is loading' } } };
+
+      const error = await createProvider().complete({ prompt: 'Hello', organizationId: 'org-123' }).catch((e) => e);
+
+      expect(error).toBeInstanceOf(LLMProviderError);
+      expect(error).toMatchObject({ code: 'PROVIDER_UNAVAILABLE', statusCode: 503, retryable: true });
+    });
+
+    it('should map authentication errors to non-retryable errors', async () => {
+      reply = { status: 401, body: { error: { message: 'Invalid API key' } } };
+
+      await expect(createProvider().complete({ prompt: 'Hello', organizationId: 'org-123' })).rejects.toMatchObject({
+        code: 'AUTH_ERROR',
+        retryable: false,
+      });
+    });
+
+    it('should map bad requests to non-retryable errors', async () => {
+      reply = { status: 400, body: { error: { message: 'model not found' } } };
+
+      await expect(createProvider().complete({ prompt: 'Hello', organizationId: 'org-123' })).rejects.toMatchObject({
+        code: 'API_ERROR',
+        statusCode: 400,
+        retryable: false,
+      });
+    });
+
+    it('should reject empty responses', async () => {
+      reply.body = { ...(reply.body as object), choices: [{ index: 0, message: { role: 'assistant', content: '' } }] };
+
+      await expect(createProvider().complete({ prompt: 'Hello', organizationId: 'org-123' })).rejects.toMatchObject({
+        code: 'EMPTY_RESPONSE',
+      });
+    });
+
+    it('should map unreachable servers to retryable errors', async () => {
+      const provider = createProvider({ baseURL: 'http://127.0.0.1:1/v1' });
+
+      await expect(provider.complete({ prompt: 'Hello', organizationId: 'org-123' })).rejects.toMatchObject({
+        code: 'PROVIDER_UNAVAILABLE',
+        retryable: true,
+      });
+    });
+  });
+
+  describe('stream', () => {
+    it('should stream deltas and finish with the full response', async () => {
+      const chunks = [];
+      for await (const chunk of createProvider().stream({ prompt: 'Hello', organizationId: 'org-123' })) {
+        chunks.push(chunk);
+      }
+
+      expect(received[0].body).toMatchObject({ stream: true, stream_options: { include_usage: true } });
+      expect(chunks.map((chunk) => chunk.delta)).toEqual(['Hel', 'lo!', '']);
+      expect(chunks[2].response).toEqual({
+        content: 'Hello!',
+        model: 'llama-3.1-8b-instruct',
+        usage: { promptTokens: 10, completionTokens: 2, totalTokens: 12 },
+        metadata: { finishReason: 'stop' },
+      });
+    });
+
+    it('should reject empty streams', async () => {
+      streamChunks = [];
+
+      const stream = createProvider().stream({ prompt: 'Hello', organizationId: 'org-123' });
+
+      await expect(stream[Symbol.asyncIterator]().next()).rejects.toMatchObject({ code: 'EMPTY_RESPONSE' });
+    });
+
+    it('should map stream errors', async () => {
+      reply = { status: 401, body: { error: { message: 'Invalid API key' } } };
+
+      const stream = createProvider().stream({ prompt: 'Hello', organizationId: 'org-123' });
+
+      await expect(stream[Symbol.asyncIterator]().next()).rejects.toMatchObject({ code: 'AUTH_ERROR' });
+    });
+  });
+
+  describe('isAvailable', () => {
+    it('should list models on the server', async () => {
+      reply = { status: 200, body: { object: 'list', data: [{ id: 'llama-3.1-8b-instruct', object: 'model' }] } };
+
+      await expect(createProvider().isAvailable()).resolves.toBe(true);
+      expect(received[0].url).toBe('/v1/models');
+    });
+
+    it('should return false when the server is down', async () => {
+      await expect(createProvider({ baseURL: 'http://127.0.0.1:1/v1' }).isAvailable()).resolves.toBe(false);
+    });
+  });
+});
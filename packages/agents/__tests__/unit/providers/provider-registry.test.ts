@@ -0,0 +1,205 @@
+/**
+ * Unit tests for LLM Provider Registry
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { LLMProviderRegistry } from '../../../src/providers/provider-registry';
+import { CircuitBreaker } from '../../../src/providers/circuit-breaker';
+import type { ILLMProvider } from '../../../src/providers/base-provider';
+import { LLMProviderError, type LLMStreamChunk } from '../../../src/types';
+import { AgentType } from '@soul-kg-crm/database';
+
+function createProvider(content: string): ILLMProvider {
+  const response = { content, model: `${content}-model`, metadata: { finishReason: 'stop' } };
+
+  return {
+    complete: vi.fn().mockResolvedValue(response),
+    stream: vi.fn(async function* () {
+      yield { delta: content.slice(0, 3) };
+      yield { delta: content.slice(3), response };
+    }),
+    isAvailable: vi.fn().mockResolvedValue(true),
+  };
+}
+
+async function collect(stream: AsyncIterable<LLMStreamChunk>): Promise<LLMStreamChunk[]> {
+  const chunks: LLMStreamChunk[] = [];
+  for await (const chunk of stream) {
+    chunks.push(chunk);
+  }
+  return chunks;
+}
+
+const outage = () => new LLMProviderError('Service unavailable', 'PROVIDER_UNAVAILABLE', 503, true);
+const request = { prompt: 'Hello', organizationId: 'org-123' };
+
+describe('CircuitBreaker', () => {
+  it('should open after consecutive failures and half-open after the timeout', () => {
+    let now = 0;
+    const breaker = new CircuitBreaker({ failureThreshold: 2, resetTimeoutMs: 1000, now: () => now });
+
+    breaker.recordFailure();
+    expect(breaker.canRequest()).toBe(true);
+
+    breaker.recordFailure();
+    expect(breaker.getState()).toBe('OPEN');
+    expect(breaker.canRequest()).toBe(false);
+
+    now = 1000;
+    expect(breaker.getState()).toBe('HALF_OPEN');
+
+    // Failed trial request opens the circuit again
+    breaker.recordFailure();
+    expect(breaker.getState()).toBe('OPEN');
+
+    now = 2000;
+    breaker.recordSuccess();
+    expect(breaker.getStatus()).toEqual({ state: 'CLOSED', consecutiveFailures: 0, retryAt: null });
+  });
+});
+
+describe('LLMProviderRegistry', () => {
+  it('should answer from the first provider and record it in metadata', async () => {
+    const registry = new LLMProviderRegistry()
+      .register('primary', createProvider('primary'))
+      .register('backup', createProvider('backup'));
+
+    const response = await registry.complete(request);
+
+    expect(response.content).toBe('primary');
+    expect(response.metadata).toEqual({ finishReason: 'stop', provider: 'primary' });
+  });
+
+  it('should fall back on retryable errors', async () => {
+    const primary = createProvider('primary');
+    vi.mocked(primary.complete).mockRejectedValue(outage());
+    const registry = new LLMProviderRegistry().register('primary', primary).register('backup', createProvider('backup'));
+
+    const response = await registry.complete(request);
+
+    expect(response.content).toBe('backup');
+    expect(response.metadata).toMatchObject({ provider: 'backup', fallbackFrom: ['primary'] });
+  });
+
+  it('should resolve the model for each provider of the chain', async () => {
+    const primary = createProvider('primary');
+    vi.mocked(primary.complete).mockRejectedValue(outage());
+    const backup = createProvider('backup');
+    const local = createProvider('local');
+    vi.mocked(backup.complete).mockRejectedValue(outage());
+    const registry = new LLMProviderRegistry()
+      .register('primary', primary)
+      .register('backup', backup)
+      .register('local', local);
+
+    await registry.complete({ ...request, model: 'openai/gpt-4o', models: { local: 'llama-3.1-70b' } });
+
+    expect(vi.mocked(primary.complete).mock.calls[0][0]).toMatchObject({ model: 'openai/gpt-4o' });
+    expect(vi.mocked(backup.complete).mock.calls[0][0].model).toBeUndefined();
+    expect(vi.mocked(local.complete).mock.calls[0][0]).toMatchObject({ model: 'llama-3.1-70b' });
+    expect(vi.mocked(local.complete).mock.calls[0][0]).not.toHaveProperty('models');
+  });
+
+  it('should not fall back on non-retryable errors', async () => {
+    const primary = createProvider('primary');
+    const backup = createProvider('backup');
+    vi.mocked(primary.complete).mockRejectedValue(new LLMProviderError('Bad request', 'API_ERROR', 400, false));
+    const registry = new LLMProviderRegistry().register('primary', primary).register('backup', backup);
+
+    await expect(registry.complete(request)).rejects.toThrow('Bad request');
+    expect(backup.complete).not.toHaveBeenCalled();
+    expect(registry.getHealth()[0].consecutiveFailures).toBe(0);
+  });
+
+  it('should skip providers with an open circuit', async () => {
+    const primary = createProvider('primary');
+    vi.mocked(primary.complete).mockRejectedValue(outage());
+    const registry = new LLMProviderRegistry({ circuitBreaker: { failureThreshold: 1, resetTimeoutMs: 60000 } })
+      .register('primary', primary)
+      .register('backup', createProvider('backup'));
+
+    await registry.complete(request);
+    const response = await registry.complete(request);
+
+    expect(primary.complete).toHaveBeenCalledTimes(1);
+    expect(response.metadata).toMatchObject({ provider: 'backup' });
+    expect(registry.getHealth()[0].state).toBe('OPEN');
+    await expect(registry.isAvailable({ organizationId: 'org-123' })).resolves.toBe(true);
+  });
+
+  it('should throw when every provider fails', async () => {
+    const primary = createProvider('primary');
+    vi.mocked(primary.complete).mockRejectedValue(outage());
+    const registry = new LLMProviderRegistry().register('primary', primary);
+
+    await expect(registry.complete(request)).rejects.toMatchObject({
+      code: 'ALL_PROVIDERS_UNAVAILABLE',
+      retryable: true,
+    });
+  });
+
+  it('should use the most specific chain', async () => {
+    const registry = new LLMProviderRegistry()
+      .register('primary', createProvider('primary'))
+      .register('backup', createProvider('backup'))
+      .setChain(['backup', 'primary'], { organizationId: 'org-123' })
+      .setChain(['primary'], { organizationId: 'org-123', agentType: AgentType.STATUS_DETECTION });
+
+    expect(registry.resolveChain({ organizationId: 'org-123', agentType: AgentType.COMMUNICATION })).toEqual([
+      'backup',
+      'primary',
+    ]);
+    expect(registry.resolveChain({ organizationId: 'org-123', agentType: AgentType.STATUS_DETECTION })).toEqual([
+      'primary',
+    ]);
+    expect(registry.resolveChain({ organizationId: 'org-456' })).toEqual(['primary', 'backup']);
+
+    const response = await registry.complete({ ...request, providers: ['unknown', 'backup'] });
+    expect(response.metadata).toMatchObject({ provider: 'backup' });
+  });
+
+  it('should not fall back to the default chain when requested providers are not registered', async () => {
+    const primary = createProvider('primary');
+    const registry = new LLMProviderRegistry().register('primary', primary);
+
+    await expect(registry.complete({ ...request, providers: ['self-hosted'] })).rejects.toMatchObject({
+      code: 'ALL_PROVIDERS_UNAVAILABLE',
+      message: expect.stringContaining('self-hosted: not registered'),
+    });
+    expect(primary.complete).not.toHaveBeenCalled();
+  });
+
+  it('should stream from the first provider and fall back before the first chunk', async () => {
+    const primary = createProvider('primary');
+    vi.mocked(primary.stream).mockImplementation(async function* () {
+      throw outage();
+    });
+    const registry = new LLMProviderRegistry().register('primary', primary).register('backup', createProvider('backup'));
+
+    const chunks = await collect(registry.stream(request));
+
+    expect(chunks.map((chunk) => chunk.delta).join('')).toBe('backup');
+    expect(chunks[chunks.length - 1].response?.metadata).toMatchObject({ provider: 'backup', fallbackFrom: ['primary'] });
+  });
+
+  it('should not fall back once streaming has started', async () => {
+    const primary = createProvider('primary');
+    vi.mocked(primary.stream).mockImplementation(async function* () {
+      yield { delta: 'pri' };
+      throw outage();
+    });
+    const backup = createProvider('backup');
+    const registry = new LLMProviderRegistry().register('primary', primary).register('backup', backup);
+    const received: string[] = [];
+
+    await expect(
+      (async () => {
+        for await (const chunk of registry.stream(request)) {
+          received.push(chunk.delta);
+        }
+      })()
+    ).rejects.toMatchObject({ code: 'PROVIDER_UNAVAILABLE' });
+    expect(received).toEqual(['pri']);
+    expect(backup.stream).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,34 @@
+/**
+ * Unit tests for Registry Factory
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createLLMProviderRegistry } from '../../../src/providers/registry-factory';
+
+describe('Registry Factory', () => {
+  describe('createLLMProviderRegistry', () => {
+    it('should return null without configured providers', () => {
+      expect(createLLMProviderRegistry({})).toBeNull();
+      expect(createLLMProviderRegistry({ SELF_HOSTED_LLM_BASE_URL: 'http://localhost:8000/v1' })).toBeNull();
+    });
+
+    it('should register OpenRouter before the self-hosted server', () => {
+      const registry = createLLMProviderRegistry({
+        OPENROUTER_API_KEY: 'test-key',
+        SELF_HOSTED_LLM_BASE_URL: 'http://localhost:8000/v1',
+        SELF_HOSTED_LLM_MODEL: 'llama-3.1-8b-instruct',
+      });
+
+      expect(registry?.resolveChain()).toEqual(['openrouter', 'self-hosted']);
+    });
+
+    it('should register only the self-hosted server', () => {
+      const registry = createLLMProviderRegistry({
+        SELF_HOSTED_LLM_BASE_URL: 'http://localhost:8000/v1',
+        SELF_HOSTED_LLM_MODEL: 'llama-3.1-8b-instruct',
+      });
+
+      expect(registry?.getHealth().map((provider) => provider.name)).toEqual(['self-hosted']);
+    });
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * Unit tests for structured LLM outputs
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { z } from 'zod';
+import { zodToJsonSchema } from '../../../src/structured/json-schema';
+import {
+  completeStructured,
+  extractJson,
+  parseStructuredOutput,
+  StructuredOutputError,
+} from '../../../src/structured/structured-output';
+import type { ILLMProvider } from '../../../src/providers';
+
+enum Priority {
+  HIGH = 'HIGH',
+  LOW = 'LOW',
+}
+
+const resultSchema = z.object({
+  status: z.enum(['QUALIFIED', 'SOLD']),
+  confidence: z.number().min(0).max(1),
+  notes: z.array(z.string()).default([]),
+});
+
+function createProvider(...contents: string[]): ILLMProvider {
+  const complete = vi.fn();
+  for (const content of contents) {
+    complete.mockResolvedValueOnce({ content, model: 'test-model' });
+  }
+  return { complete, isAvailable: vi.fn().mockResolvedValue(true) } as unknown as ILLMProvider;
+}
+
+describe('zodToJsonSchema', () => {
+  it('should convert object schemas with required and optional fields', () => {
+    const schema = z.object({
+      name: z.string().describe('Client name'),
+      age: z.number().int().min(0),
+      tags: z.array(z.string()).optional(),
+      priority: z.nativeEnum(Priority),
+      region: z.string().nullable(),
+      score: z.number().default(0.5),
+    });
+
+    expect(zodToJsonSchema(schema)).toEqual({
+      type: 'object',
+      properties: {
+        name: { type: 'string', description: 'Client name' },
+        age: { type: 'integer', minimum: 0 },
+        tags: { type: 'array', items: { type: 'string' } },
+        priority: { type: 'string', enum: ['HIGH', 'LOW'] },
+        region: { anyOf: [{ type: 'string' }, { type: 'null' }] },
+        score: { type: 'number', default: 0.5 },
+      },
+      required: ['name', 'age', 'priority', 'region'],
+      additionalProperties: false,
+    });
+  });
+
+  it('should reject unsupported types', () => {
+    expect(() => zodToJsonSchema(z.date())).toThrow('Unsupported zod type');
+  });
+});
+
+describe('extractJson', () => {
+  it('should parse plain, fenced and surrounded JSON', () => {
+    expect(extractJson('{"a":1}')).toEqual({ a: 1 });
+    expect(extractJson('```json\n{"a":1}\n```')).toEqual({ a: 1 });
+    expect(extractJson('Sure! Here it is: {"a":1} Hope this helps.')).toEqual({ a: 1 });
+  });
+
+  it('should throw when there is no JSON', () => {
+    expect(() => extractJson('no json here')).toThrow('No JSON found');
+  });
+});
+
+describe('parseStructuredOutput', () => {
+  it('should return validation issues with field paths', () => {
+    const result = parseStructuredOutput('{"status":"LOST","confidence":2}', resultSchema);
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.issues).toHaveLength(2);
+      expect(result.issues[0]).toMatch(/^status: /);
+      expect(result.issues[1]).toMatch(/^confidence: /);
+    }
+  });
+});
+
+describe('completeStructured', () => {
+  it('should request JSON mode and return typed data', async () => {
+    const provider = createProvider('{"status":"SOLD","confidence":0.9}');
+
+    const result = await completeStructured(
+      provider,
+      { prompt: 'Detect status', organizationId: 'org-123' },
+      resultSchema,
+      { name: 'status_detection' }
+    );
+
+    expect(result.data).toEqual({ status: 'SOLD', confidence: 0.9, notes: [] });
+    expect(result.repairAttempts).toBe(0);
+    expect(vi.mocked(provider.complete).mock.calls[0][0].responseFormat).toEqual({
+      name: 'status_detection',
+      schema: zodToJsonSchema(resultSchema),
+      strict: undefined,
+    });
+  });
+
+  it('should re-prompt with validation errors and accept the repaired response', async () => {
+    const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const provider = createProvider('{"status":"sold"}', '{"status":"SOLD","confidence":0.8}');
+
+    const result = await completeStructured(
+      provider,
+      { prompt: 'Detect status', organizationId: 'org-123' },
+      resultSchema,
+      { name: 'status_detection' }
+    );
+
+    expect(result.data.status).toBe('SOLD');
+    expect(result.repairAttempts).toBe(1);
+
+    const repairRequest = vi.mocked(provider.complete).mock.calls[1][0];
+    expect(repairRequest.prompt).toBeUndefined();
+    expect(repairRequest.messages?.slice(0, 2)).toEqual([
+      { role: 'user', content: 'Detect status' },
+      { role: 'assistant', content: '{"status":"sold"}' },
+    ]);
+    expect(repairRequest.messages?.[2].role).toBe('user');
+    expect(repairRequest.messages?.[2].content).toContain('- status: ');
+    expect(repairRequest.messages?.[2].content).toContain('- confidence: ');
+
+    warnSpy.mockRestore();
+  });
+
+  it('should throw StructuredOutputError after all repair attempts', async () => {
+    const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const provider = createProvider('not json', 'still not json', 'never json');
+
+    const error = await completeStructured(
+      provider,
+      { prompt: 'Detect status', organizationId: 'org-123' },
+      resultSchema,
+      { name: 'status_detection', maxRepairAttempts: 2 }
+    ).catch((e) => e);
+
+    expect(error).toBeInstanceOf(StructuredOutputError);
+    expect(error).toMatchObject({ code: 'INVALID_STRUCTURED_OUTPUT', retryable: false, content: 'never json' });
+    expect(provider.complete).toHaveBeenCalledTimes(3);
+
+    warnSpy.mockRestore();
+  });
+
+  it('should not retry provider errors', async () => {
+    const provider = createProvider();
+    vi.mocked(provider.complete).mockRejectedValue(new Error('Provider down'));
+
+    await expect(
+      completeStructured(provider, { prompt: 'Detect status', organizationId: 'org-123' }, resultSchema, {
+        name: 'status_detection',
+      })
+    ).rejects.toThrow('Provider down');
+    expect(provider.complete).toHaveBeenCalledTimes(1);
+  });
+});
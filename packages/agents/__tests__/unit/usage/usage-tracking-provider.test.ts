@@ -0,0 +1,138 @@
+/**
+ * Unit tests for Usage Tracking Provider and model prices
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { UsageTrackingProvider } from '../../../src/usage/usage-tracking-provider';
+import { calculateCost, findModelPrice } from '../../../src/usage/model-prices';
+import type { ILLMProvider } from '../../../src/providers/base-provider';
+import { AgentType, PrismaClient } from '@soul-kg-crm/database';
+
+describe('model prices', () => {
+  it('should match models with provider prefix and date suffix', () => {
+    expect(findModelPrice('openai/gpt-4o-mini')).toEqual({ prompt: 0.15, completion: 0.6 });
+    expect(findModelPrice('gpt-4o-mini-2024-07-18')).toEqual({ prompt: 0.15, completion: 0.6 });
+    expect(findModelPrice('gpt-4o-2024-08-06')).toEqual({ prompt: 2.5, completion: 10 });
+    expect(findModelPrice('qwen2.5:7b')).toBeNull();
+  });
+
+  it('should calculate cost per million tokens', () => {
+    expect(calculateCost('openai/gpt-4o-mini', 1_000_000, 500_000)).toBeCloseTo(0.45, 10);
+    expect(calculateCost('local-model', 100, 100)).toBeNull();
+    expect(calculateCost('local-model', 1000, 0, { 'local-model': { prompt: 1, completion: 1 } })).toBe(0.001);
+  });
+});
+
+describe('UsageTrackingProvider', () => {
+  let mockPrisma: { llmUsage: { create: ReturnType<typeof vi.fn> } };
+  let inner: ILLMProvider;
+  let clock: number;
+
+  beforeEach(() => {
+    clock = 1000;
+    mockPrisma = { llmUsage: { create: vi.fn().mockResolvedValue({}) } };
+    inner = {
+      complete: vi.fn().mockImplementation(async () => {
+        clock += 250;
+        return {
+          content: 'SOLD',
+          model: 'openai/gpt-4o-mini',
+          usage: { promptTokens: 1000, completionTokens: 10, totalTokens: 1010 },
+          metadata: { provider: 'openrouter' },
+        };
+      }),
+      stream: vi.fn(async function* () {
+        yield { delta: 'SO' };
+        clock += 400;
+        yield {
+          delta: 'LD',
+          response: {
+            content: 'SOLD',
+            model: 'openai/gpt-4o-mini',
+            usage: { promptTokens: 1000, completionTokens: 10, totalTokens: 1010 },
+          },
+        };
+      }),
+      isAvailable: vi.fn().mockResolvedValue(true),
+    };
+  });
+
+  const createProvider = () =>
+    new UsageTrackingProvider(mockPrisma as unknown as PrismaClient, inner, { now: () => clock });
+
+  it('should record tokens, latency and cost of a call', async () => {
+    const response = await createProvider().complete({
+      prompt: 'Detect status',
+      organizationId: 'org-123',
+      agentType: AgentType.STATUS_DETECTION,
+    });
+
+    expect(response.content).toBe('SOLD');
+    expect(mockPrisma.llmUsage.create).toHaveBeenCalledWith({
+      data: {
+        organizationId: 'org-123',
+        agentType: AgentType.STATUS_DETECTION,
+        model: 'openai/gpt-4o-mini',
+        provider: 'openrouter',
+        promptTokens: 1000,
+        completionTokens: 10,
+        totalTokens: 1010,
+        latencyMs: 250,
+        cost: expect.closeTo(0.000156, 10),
+      },
+    });
+  });
+
+  it('should record calls without usage or price', async () => {
+    vi.mocked(inner.complete).mockResolvedValue({ content: 'ok', model: 'llama3.1:8b' });
+
+    await createProvider().complete({ prompt: 'Analyze', organizationId: 'org-123' });
+
+    expect(mockPrisma.llmUsage.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        agentType: null,
+        model: 'llama3.1:8b',
+        provider: null,
+        totalTokens: 0,
+        cost: null,
+      }),
+    });
+  });
+
+  it('should return the response when recording fails', async () => {
+    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    mockPrisma.llmUsage.create.mockRejectedValue(new Error('Database unavailable'));
+
+    const response = await createProvider().complete({ prompt: 'Hello', organizationId: 'org-123' });
+
+    expect(response.content).toBe('SOLD');
+    expect(consoleSpy).toHaveBeenCalled();
+    consoleSpy.mockRestore();
+  });
+
+  it('should not record failed calls', async () => {
+    vi.mocked(inner.complete).mockRejectedValue(new Error('Provider down'));
+
+    await expect(createProvider().complete({ prompt: 'Hello', organizationId: 'org-123' })).rejects.toThrow(
+      'Provider down'
+    );
+    expect(mockPrisma.llmUsage.create).not.toHaveBeenCalled();
+  });
+
+  it('should record streamed calls once the stream completes', async () => {
+    const deltas: string[] = [];
+
+    for await (const chunk of createProvider().stream({ prompt: 'Detect status', organizationId: 'org-123' })) {
+      deltas.push(chunk.delta);
+      if (!chunk.response) {
+        expect(mockPrisma.llmUsage.create).not.toHaveBeenCalled();
+      }
+    }
+
+    expect(deltas).toEqual(['SO', 'LD']);
+    expect(mockPrisma.llmUsage.create).toHaveBeenCalledTimes(1);
+    expect(mockPrisma.llmUsage.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ totalTokens: 1010, latencyMs: 400 }),
+    });
+  });
+});
@@ -0,0 +1,192 @@
+/**
+ * Communication Agent
+ *
+ * Готовит черновик ответа клиенту на основе последних сообщений диалога,
+ * статуса и культурного контекста клиента. Черновик сохраняется в ReplyDraft
+ * и отправляется только после одобрения менеджером.
+ */
+
+import { z } from 'zod';
+import { PrismaClient, AgentType, MessageDirection, type Message, type ReplyDraft } from '@soul-kg-crm/database';
+import type { ILLMProvider } from '../providers';
+import type { PromptLoader } from '../prompt-manager';
+import type { LLMMessage } from '../types';
+import { completeStructured } from '../structured';
+
+/**
+ * Параметры подготовки черновика
+ */
+export interface DraftReplyOptions {
+  organizationId: string;
+  conversationId: string;
+  instructions?: string; // Пожелания менеджера к ответу ("предложи скидку", "уточни даты")
+  bypassCache?: boolean; // Не брать ответ из кеша ответов LLM
+}
+
+/**
+ * Клиент и диалог, для которых готовится ответ
+ */
+interface ReplyContext {
+  status: string;
+  preferredLanguage: string | null;
+  culturalContext: unknown;
+  firstName: string | null;
+}
+
+const MAX_HISTORY_MESSAGES = 30;
+const MAX_MESSAGE_LENGTH = 1000;
+const MAX_INSTRUCTIONS_LENGTH = 500;
+
+/**
+ * Схема ответа LLM с черновиком
+ */
+export const replyDraftResponseSchema = z.object({
+  reply: z.string().min(1).describe('Message to send to the client, in the client language'),
+  rationale: z.string().describe('Why this reply, for the manager (in English)'),
+  language: z
+    .string()
+    .nullish()
+    .transform((value) => value ?? undefined)
+    .describe('ISO 639-1 code of the reply language'),
+});
+
+export type ReplyDraftResponse = z.infer<typeof replyDraftResponseSchema>;
+
+/**
+ * Агент переписки с клиентами
+ */
+export class CommunicationAgent {
+  private readonly prisma: PrismaClient;
+  private readonly llmProvider: ILLMProvider;
+  private readonly promptLoader: PromptLoader;
+
+  constructor(prisma: PrismaClient, llmProvider: ILLMProvider, promptLoader: PromptLoader) {
+    this.prisma = prisma;
+    this.llmProvider = llmProvider;
+    this.promptLoader = promptLoader;
+  }
+
+  /**
+   * Готовит и сохраняет черновик ответа в диалоге
+   *
+   * Промпт загружается с учетом A/B эксперимента клиента, вариант
+   * сохраняется в черновике для сравнения вариантов.
+   *
+   * @throws {Error} Если диалог не найден или в нем нет сообщений
+   */
+  async draftReply(options: DraftReplyOptions): Promise<ReplyDraft> {
+    const { organizationId, conversationId, instructions, bypassCache } = options;
+
+    const conversation = await this.prisma.conversation.findFirst({
+      where: { id: conversationId, organizationId },
+      include: {
+        client: {
+          select: { id: true, firstName: true, status: true, preferredLanguage: true, culturalContext: true },
+        },
+      },
+    });
+
+    if (!conversation) {
+      throw new Error(`Conversation not found: ${conversationId} for organization ${organizationId}`);
+    }
+
+    const history = await this.prisma.message.findMany({
+      where: { conversationId, organizationId },
+      orderBy: { createdAt: 'desc' },
+      take: MAX_HISTORY_MESSAGES,
+    });
+
+    if (history.length === 0) {
+      throw new Error(`Conversation ${conversationId} has no messages to reply to`);
+    }
+
+    const { client } = conversation;
+    const promptConfig = await this.promptLoader.loadPrompt({
+      organizationId,
+      agentType: AgentType.COMMUNICATION,
+      clientId: client.id,
+    });
+
+    const { data, response } = await completeStructured(
+      this.llmProvider,
+      {
+        messages: this.buildMessages(promptConfig.prompt, client, history.reverse(), instructions),
+        organizationId,
+        agentType: AgentType.COMMUNICATION,
+        providers: promptConfig.settings.providers as string[] | undefined,
+        model: (promptConfig.settings.model as string) || undefined,
+        models: promptConfig.settings.models as Record<string, string> | undefined,
+        temperature: (promptConfig.settings.temperature as number) ?? 0.7,
+        maxTokens: (promptConfig.settings.maxTokens as number) || 600,
+        bypassCache,
+      },
+      replyDraftResponseSchema,
+      { name: 'reply_draft' }
+    );
+
+    return this.prisma.replyDraft.create({
+      data: {
+        organizationId,
+        conversationId,
+        content: data.reply.trim(),
+        rationale: data.rationale.trim() || null,
+        language: data.language || client.preferredLanguage,
+        model: response.model,
+        promptVariantId: promptConfig.variantId,
+      },
+    });
+  }
+
+  /**
+   * Строит сообщения для LLM: роль, профиль клиента и формат ответа в system,
+   * переписка в user (текст клиента не смешивается с инструкциями)
+   */
+  private buildMessages(
+    basePrompt: string,
+    client: ReplyContext,
+    history: Message[],
+    instructions?: string
+  ): LLMMessage[] {
+    const language = client.preferredLanguage
+      ? `Write the reply in the client's preferred language (${client.preferredLanguage}).`
+      : 'Write the reply in the language the client writes in.';
+
+    const managerInstructions = instructions?.trim()
+      ? `\n\nManager instructions for this reply:\n${instructions.trim().substring(0, MAX_INSTRUCTIONS_LENGTH)}`
+      : '';
+
+    const system = `${basePrompt}
+
+Client profile:
+- Name: ${client.firstName || 'unknown'}
+- Sales funnel status: ${client.status}
+- Preferred language: ${client.preferredLanguage || 'unknown'}
+- Cultural context: ${client.culturalContext ? JSON.stringify(client.culturalContext) : 'unknown'}
+
+Write the next message from the agent to the client, replying to the conversation in the next message.
+${language}${managerInstructions}
+
+Respond ONLY with a JSON object in this format:
+{
+  "reply": "message text for the client",
+  "rationale": "1-2 sentences in English explaining the approach, for the manager",
+  "language": "ISO 639-1 code of the reply language"
+}`;
+
+    const transcript = history
+      .map((message) => {
+        const role = message.direction === MessageDirection.INCOMING ? 'Client' : 'Agent';
+        const content =
+          message.content.length > MAX_MESSAGE_LENGTH
+            ? `${message.content.substring(0, MAX_MESSAGE_LENGTH)}... [truncated]`
+            : message.content;
+        return `[${message.createdAt.toISOString()}] [${role}]: ${content}`;
+      })
+      .join('\n');
+
+    return [
+      { role: 'system', content: system },
+      { role: 'user', content: `Recent messages (oldest first):\n${transcript}` },
+    ];
+  }
+}
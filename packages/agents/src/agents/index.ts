@@ -0,0 +1,11 @@
+/**
+ * Agents
+ * 
+ * Агенты работы с клиентами (Communication, Qualification, Product Selection, Warming)
+ */
+
+export * from './communication-agent';
+export * from './qualification-agent';
+export * from './product-selection-agent';
+export * from './warming-agent';
+export * from './warming-scheduler';
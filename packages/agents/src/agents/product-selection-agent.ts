@@ -0,0 +1,408 @@
+/**
+ * Product Selection Agent
+ *
+ * Подбирает клиенту активные продукты каталога организации и доступные выезды
+ * (Tour) по переписке и требованиям к поездке. Каждая рекомендация содержит
+ * оценку и объяснение и сохраняется в ProductRecommendation; продукт добавляется
+ * клиенту (ClientProduct INTERESTED) только после одобрения менеджером.
+ */
+
+import { z } from 'zod';
+import {
+  PrismaClient,
+  AgentType,
+  MessageDirection,
+  ProductRecommendationStatus,
+  TourStatus,
+  type Message,
+  type Prisma,
+  type ProductRecommendation,
+} from '@soul-kg-crm/database';
+import type { ILLMProvider } from '../providers';
+import type { PromptLoader } from '../prompt-manager';
+import type { LLMMessage } from '../types';
+import { completeStructured } from '../structured';
+import { toTripRequirementsValues, type TripRequirementsValues } from './qualification-agent';
+
+/**
+ * Параметры подбора
+ */
+export interface RecommendProductsOptions {
+  organizationId: string;
+  clientId: string;
+  limit?: number; // Сколько рекомендаций сохранить (по умолчанию 5)
+  bypassCache?: boolean; // Не брать ответ из кеша ответов LLM
+}
+
+/**
+ * Выезд в каталоге для LLM
+ */
+export interface CatalogTour {
+  tourId: string;
+  startDate: string;
+  endDate: string;
+  seatsLeft: number | null; // null - без ограничения мест
+  price: string | null; // null - базовая цена продукта
+  currency: string;
+}
+
+/**
+ * Продукт в каталоге для LLM
+ */
+export interface CatalogItem {
+  productId: string;
+  name: string;
+  type: string;
+  description: string | null;
+  durationDays: number | null;
+  basePrice: string;
+  currency: string;
+  tours: CatalogTour[];
+}
+
+const MAX_CATALOG_PRODUCTS = 50;
+const MAX_TOURS_PER_PRODUCT = 5;
+const MAX_HISTORY_MESSAGES = 30;
+const MAX_MESSAGE_LENGTH = 500;
+const MAX_DESCRIPTION_LENGTH = 300;
+const DEFAULT_LIMIT = 5;
+/** Сколько дней отклоненный менеджером продукт не предлагается снова */
+const DISMISSED_COOLDOWN_DAYS = 90;
+/** Допуск вокруг дат поездки клиента при отборе выездов */
+const DEPARTURE_SLACK_DAYS = 14;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Схема ответа LLM с рекомендациями
+ */
+export const productRecommendationsResponseSchema = z.object({
+  recommendations: z
+    .array(
+      z.object({
+        productId: z.string(),
+        tourId: z.string().nullish().describe('Departure id when a specific departure fits'),
+        score: z.number().min(0).max(1),
+        explanation: z.string().min(1).describe('Why this product fits the client, for the manager (in English)'),
+      })
+    )
+    .describe('Best matches first'),
+});
+
+export type ProductRecommendationsResponse = z.infer<typeof productRecommendationsResponseSchema>;
+
+export type SelectedRecommendation = Pick<ProductRecommendation, 'productId' | 'tourId' | 'score' | 'explanation'>;
+
+type CatalogProduct = Prisma.ProductGetPayload<{ include: { tours: true } }>;
+
+/**
+ * Приводит продукты с выездами к каталогу для LLM
+ *
+ * Выезды без свободных мест для группы клиента отбрасываются.
+ */
+export function toCatalogItems(products: CatalogProduct[], groupSize: number): CatalogItem[] {
+  return products.map((product) => ({
+    productId: product.id,
+    name: product.name,
+    type: product.type,
+    description:
+      product.description && product.description.length > MAX_DESCRIPTION_LENGTH
+        ? `${product.description.substring(0, MAX_DESCRIPTION_LENGTH)}...`
+        : product.description,
+    durationDays: product.duration,
+    basePrice: product.basePrice.toString(),
+    currency: product.currency,
+    tours: product.tours
+      .map((tour) => ({
+        tourId: tour.id,
+        startDate: formatDate(tour.startDate),
+        endDate: formatDate(tour.endDate),
+        seatsLeft: tour.maxParticipants === null ? null : Math.max(tour.maxParticipants - tour.currentParticipants, 0),
+        price: tour.price === null ? null : tour.price.toString(),
+        currency: tour.currency,
+      }))
+      .filter((tour) => tour.seatsLeft === null || tour.seatsLeft >= groupSize),
+  }));
+}
+
+/**
+ * Проверяет ответ LLM по каталогу
+ *
+ * Продукты вне каталога отбрасываются, выезд не из каталога продукта
+ * заменяется на null, повторы продукта схлопываются в лучший по оценке.
+ * Результат отсортирован по убыванию оценки и обрезан до limit.
+ */
+export function selectRecommendations(
+  catalog: CatalogItem[],
+  response: ProductRecommendationsResponse,
+  limit: number = DEFAULT_LIMIT
+): SelectedRecommendation[] {
+  const byProduct = new Map(catalog.map((item) => [item.productId, item]));
+  const selected = new Map<string, SelectedRecommendation>();
+
+  for (const recommendation of response.recommendations) {
+    const item = byProduct.get(recommendation.productId);
+    if (!item) {
+      continue;
+    }
+
+    const previous = selected.get(item.productId);
+    if (previous && previous.score >= recommendation.score) {
+      continue;
+    }
+
+    const tour = item.tours.find((candidate) => candidate.tourId === recommendation.tourId);
+
+    selected.set(item.productId, {
+      productId: item.productId,
+      tourId: tour?.tourId ?? null,
+      score: recommendation.score,
+      explanation: recommendation.explanation.trim(),
+    });
+  }
+
+  return [...selected.values()].sort((a, b) => b.score - a.score).slice(0, limit);
+}
+
+/**
+ * Агент подбора продуктов
+ */
+export class ProductSelectionAgent {
+  private readonly prisma: PrismaClient;
+  private readonly llmProvider: ILLMProvider;
+  private readonly promptLoader: PromptLoader;
+
+  constructor(prisma: PrismaClient, llmProvider: ILLMProvider, promptLoader: PromptLoader) {
+    this.prisma = prisma;
+    this.llmProvider = llmProvider;
+    this.promptLoader = promptLoader;
+  }
+
+  /**
+   * Подбирает продукты и сохраняет рекомендации
+   *
+   * Продукты, уже добавленные клиенту или недавно отклоненные менеджером,
+   * не предлагаются. Новые рекомендации заменяют еще не рассмотренные
+   * (PENDING) рекомендации клиента.
+   *
+   * @throws {Error} Если клиент не найден или у него нет ни сообщений, ни требований
+   */
+  async recommendProducts(options: RecommendProductsOptions): Promise<ProductRecommendation[]> {
+    const { organizationId, clientId, limit = DEFAULT_LIMIT, bypassCache } = options;
+
+    const client = await this.prisma.client.findFirst({
+      where: { id: clientId, organizationId },
+      select: { id: true, status: true, preferredLanguage: true, culturalContext: true, tripRequirements: true },
+    });
+
+    if (!client) {
+      throw new Error(`Client not found: ${clientId} for organization ${organizationId}`);
+    }
+
+    const history = await this.prisma.message.findMany({
+      where: { organizationId, conversation: { clientId } },
+      orderBy: { createdAt: 'desc' },
+      take: MAX_HISTORY_MESSAGES,
+    });
+
+    if (history.length === 0 && !client.tripRequirements) {
+      throw new Error(`Client ${clientId} has no messages or trip requirements to match products against`);
+    }
+
+    const requirements = toTripRequirementsValues(client.tripRequirements);
+    const groupSize = Math.max((requirements.adults ?? 1) + (requirements.children ?? 0), 1);
+
+    const products = await this.loadCatalogProducts(organizationId, clientId, requirements, new Date());
+    const catalog = toCatalogItems(products, groupSize);
+    const replacePending = this.prisma.productRecommendation.deleteMany({
+      where: { organizationId, clientId, status: ProductRecommendationStatus.PENDING },
+    });
+
+    if (catalog.length === 0) {
+      await replacePending;
+      return [];
+    }
+
+    const promptConfig = await this.promptLoader.loadPrompt({
+      organizationId,
+      agentType: AgentType.PRODUCT_SELECTION,
+      clientId,
+    });
+
+    const { data, response } = await completeStructured(
+      this.llmProvider,
+      {
+        messages: this.buildMessages(promptConfig.prompt, client, requirements, catalog, history.reverse(), limit),
+        organizationId,
+        agentType: AgentType.PRODUCT_SELECTION,
+        providers: promptConfig.settings.providers as string[] | undefined,
+        model: (promptConfig.settings.model as string) || undefined,
+        models: promptConfig.settings.models as Record<string, string> | undefined,
+        temperature: (promptConfig.settings.temperature as number) ?? 0.2,
+        maxTokens: (promptConfig.settings.maxTokens as number) || 800,
+        bypassCache,
+      },
+      productRecommendationsResponseSchema,
+      { name: 'product_recommendations' }
+    );
+
+    const selected = selectRecommendations(catalog, data, limit);
+
+    const [, ...recommendations] = await this.prisma.$transaction([
+      replacePending,
+      ...selected.map((recommendation, index) =>
+        this.prisma.productRecommendation.create({
+          data: {
+            organizationId,
+            clientId,
+            ...recommendation,
+            rank: index + 1,
+            model: response.model,
+            promptVariantId: promptConfig.variantId,
+          },
+        })
+      ),
+    ]);
+
+    console.log(`🧭 ${recommendations.length} product recommendations for client ${clientId}`);
+
+    return recommendations as ProductRecommendation[];
+  }
+
+  /**
+   * Загружает каталог для подбора (не более MAX_CATALOG_PRODUCTS продуктов).
+   * Сначала идут продукты с доступными выездами в датах клиента (или
+   * любыми будущими, если даты неизвестны), затем остальные.
+   */
+  private async loadCatalogProducts(
+    organizationId: string,
+    clientId: string,
+    requirements: TripRequirementsValues,
+    now: Date
+  ) {
+    const tourWhere: Prisma.TourWhereInput = {
+      status: TourStatus.AVAILABLE,
+      startDate: departureWindow(requirements, now),
+    };
+    const productWhere: Prisma.ProductWhereInput = {
+      organizationId,
+      isActive: true,
+      clientProducts: { none: { clientId } },
+      recommendations: {
+        none: {
+          clientId,
+          status: ProductRecommendationStatus.DISMISSED,
+          reviewedAt: { gte: new Date(now.getTime() - DISMISSED_COOLDOWN_DAYS * DAY_MS) },
+        },
+      },
+    };
+    const include = {
+      tours: {
+        where: tourWhere,
+        orderBy: { startDate: 'asc' },
+        take: MAX_TOURS_PER_PRODUCT,
+      },
+    } satisfies Prisma.ProductInclude;
+
+    const withDepartures = await this.prisma.product.findMany({
+      where: { ...productWhere, tours: { some: tourWhere } },
+      include,
+      orderBy: { name: 'asc' },
+      take: MAX_CATALOG_PRODUCTS,
+    });
+
+    if (withDepartures.length >= MAX_CATALOG_PRODUCTS) {
+      return withDepartures;
+    }
+
+    const others = await this.prisma.product.findMany({
+      where: { ...productWhere, tours: { none: tourWhere } },
+      include,
+      orderBy: { name: 'asc' },
+      take: MAX_CATALOG_PRODUCTS - withDepartures.length,
+    });
+
+    return [...withDepartures, ...others];
+  }
+
+  /**
+   * Строит сообщения для LLM: роль, требования и каталог в system,
+   * переписка в user
+   */
+  private buildMessages(
+    basePrompt: string,
+    client: { status: string; preferredLanguage: string | null; culturalContext: unknown },
+    requirements: TripRequirementsValues,
+    catalog: CatalogItem[],
+    history: Message[],
+    limit: number
+  ): LLMMessage[] {
+    const known = {
+      travelDates: {
+        startDate: requirements.travelStartDate && formatDate(requirements.travelStartDate),
+        endDate: requirements.travelEndDate && formatDate(requirements.travelEndDate),
+      },
+      groupSize: { adults: requirements.adults, children: requirements.children },
+      budget: { amount: requirements.budgetAmount, currency: requirements.budgetCurrency },
+      interests: requirements.interests,
+      dietaryNeeds: requirements.dietaryNeeds,
+    };
+
+    const system = `${basePrompt}
+
+Client profile:
+- Sales funnel status: ${client.status}
+- Preferred language: ${client.preferredLanguage || 'unknown'}
+- Cultural context: ${client.culturalContext ? JSON.stringify(client.culturalContext) : 'unknown'}
+
+Trip requirements (null = unknown):
+${JSON.stringify(known, null, 2)}
+
+Catalog (only these products and departures can be recommended; seatsLeft null = no limit):
+${JSON.stringify(catalog, null, 2)}
+
+Rank up to ${limit} products from the catalog for this client, using the requirements and the conversation in the next message.
+
+Respond ONLY with a JSON object in this format:
+{
+  "recommendations": [
+    { "productId": "...", "tourId": "..." or null, "score": 0.0-1.0, "explanation": "1-2 sentences in English for the manager" }
+  ]
+}`;
+
+    const transcript = history
+      .map((message) => {
+        const role = message.direction === MessageDirection.INCOMING ? 'Client' : 'Agent';
+        const content =
+          message.content.length > MAX_MESSAGE_LENGTH
+            ? `${message.content.substring(0, MAX_MESSAGE_LENGTH)}... [truncated]`
+            : message.content;
+        return `[${message.createdAt.toISOString()}] [${role}]: ${content}`;
+      })
+      .join('\n');
+
+    return [
+      { role: 'system', content: system },
+      {
+        role: 'user',
+        content: transcript ? `Recent messages (oldest first):\n${transcript}` : 'No messages yet.',
+      },
+    ];
+  }
+}
+
+function formatDate(value: Date): string {
+  return value.toISOString().substring(0, 10);
+}
+
+/**
+ * Окно дат выездов: будущие выезды вокруг дат поездки клиента
+ * (с допуском DEPARTURE_SLACK_DAYS) или все будущие, если даты неизвестны
+ */
+function departureWindow(requirements: TripRequirementsValues, now: Date): Prisma.DateTimeFilter {
+  const { travelStartDate, travelEndDate } = requirements;
+  const slack = DEPARTURE_SLACK_DAYS * DAY_MS;
+  const from = travelStartDate ? new Date(Math.max(now.getTime(), travelStartDate.getTime() - slack)) : now;
+  const until = travelEndDate ?? travelStartDate;
+
+  return until ? { gte: from, lte: new Date(until.getTime() + slack) } : { gte: from };
+}
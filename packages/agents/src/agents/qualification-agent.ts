@@ -0,0 +1,496 @@
+/**
+ * Qualification Agent
+ *
+ * Извлекает из переписки требования к поездке (даты, состав группы, бюджет,
+ * интересы, питание) в TripRequirements клиента. Каждое поле хранит
+ * уверенность и id сообщений-источников. Запуски инкрементальные: агент читает
+ * только сообщения после analyzedUntil и не трогает поля, исправленные менеджером.
+ */
+
+import { z } from 'zod';
+import {
+  PrismaClient,
+  Prisma,
+  AgentType,
+  ClientStatus,
+  MessageDirection,
+  type Message,
+  type TripRequirements,
+} from '@soul-kg-crm/database';
+import type { ILLMProvider } from '../providers';
+import type { PromptLoader } from '../prompt-manager';
+import type { LLMMessage } from '../types';
+import { completeStructured } from '../structured';
+
+/**
+ * Поля требований (каждое может занимать несколько колонок)
+ */
+export const TRIP_REQUIREMENT_FIELDS = ['travelDates', 'groupSize', 'budget', 'interests', 'dietaryNeeds'] as const;
+
+export type TripRequirementField = (typeof TRIP_REQUIREMENT_FIELDS)[number];
+
+/**
+ * Колонки TripRequirements каждого поля
+ */
+export const TRIP_REQUIREMENT_COLUMNS: Record<TripRequirementField, (keyof TripRequirementsValues)[]> = {
+  travelDates: ['travelStartDate', 'travelEndDate'],
+  groupSize: ['adults', 'children'],
+  budget: ['budgetAmount', 'budgetCurrency'],
+  interests: ['interests'],
+  dietaryNeeds: ['dietaryNeeds'],
+};
+
+/**
+ * Откуда взято значение поля
+ */
+export interface TripRequirementFieldMeta {
+  confidence: number; // 0-1
+  sourceMessageIds: string[];
+  updatedBy: 'AI' | 'HUMAN'; // Поля HUMAN агент не перезаписывает
+  updatedAt: string;
+}
+
+export type TripRequirementsMeta = Partial<Record<TripRequirementField, TripRequirementFieldMeta>>;
+
+/**
+ * Значения требований к поездке
+ */
+export interface TripRequirementsValues {
+  travelStartDate: Date | null;
+  travelEndDate: Date | null;
+  adults: number | null;
+  children: number | null;
+  budgetAmount: number | null;
+  budgetCurrency: string | null;
+  interests: string[];
+  dietaryNeeds: string[];
+}
+
+/**
+ * Параметры извлечения
+ */
+export interface ExtractRequirementsOptions {
+  organizationId: string;
+  clientId: string;
+  bypassCache?: boolean; // Не брать ответ из кеша ответов LLM
+}
+
+/**
+ * Результат извлечения
+ */
+export interface RequirementsExtractionResult {
+  requirements: TripRequirements | null; // null, если у клиента еще нет сообщений
+  updatedFields: TripRequirementField[];
+  analyzedMessages: number;
+  proposedStatus: ClientStatus | null; // Предлагаемый статус клиента (NEW_LEAD -> QUALIFIED)
+}
+
+const MAX_MESSAGES_PER_RUN = 50;
+const MAX_MESSAGE_LENGTH = 500;
+
+/** Минимальная уверенность в датах и составе группы для перевода в QUALIFIED */
+export const QUALIFICATION_MIN_CONFIDENCE = 0.6;
+
+// Несуществующая дата (2026-13-01, 2026-02-30) считается неизвлеченной
+const isoDate = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/)
+  .refine((value) => formatDate(parseDate(value)) === value)
+  .nullish()
+  .catch(null)
+  .describe('YYYY-MM-DD');
+
+const source = {
+  confidence: z.number().min(0).max(1),
+  sourceMessageIds: z.array(z.string()).default([]).describe('Ids of the messages this value comes from'),
+};
+
+/**
+ * Схема ответа LLM: только поля, о которых в новых сообщениях есть информация
+ */
+export const tripRequirementsResponseSchema = z.object({
+  travelDates: z
+    .object({ startDate: isoDate, endDate: isoDate, ...source })
+    .nullish()
+    .describe('Travel dates; omit when not mentioned'),
+  groupSize: z
+    .object({
+      adults: z.number().int().min(1),
+      children: z.number().int().min(0).default(0),
+      ...source,
+    })
+    .nullish()
+    .describe('Number of travellers; omit when not mentioned'),
+  budget: z
+    .object({
+      amount: z.number().positive().describe('Total budget for the group'),
+      currency: z.string().describe('ISO 4217 code'),
+      ...source,
+    })
+    .nullish()
+    .describe('Budget; omit when not mentioned'),
+  interests: z
+    .object({ items: z.array(z.string()).min(1), ...source })
+    .nullish()
+    .describe('Activities and places the client is interested in; omit when not mentioned'),
+  dietaryNeeds: z
+    .object({ items: z.array(z.string()).min(1), ...source })
+    .nullish()
+    .describe('Dietary restrictions (Halal, Vegetarian, allergies); omit when not mentioned'),
+});
+
+export type TripRequirementsResponse = z.infer<typeof tripRequirementsResponseSchema>;
+
+const EMPTY_REQUIREMENTS: TripRequirementsValues = {
+  travelStartDate: null,
+  travelEndDate: null,
+  adults: null,
+  children: null,
+  budgetAmount: null,
+  budgetCurrency: null,
+  interests: [],
+  dietaryNeeds: [],
+};
+
+/**
+ * Приводит запись TripRequirements к значениям (Decimal и Json в number и string[])
+ */
+export function toTripRequirementsValues(record: TripRequirements | null): TripRequirementsValues {
+  if (!record) {
+    return { ...EMPTY_REQUIREMENTS };
+  }
+
+  const toList = (value: Prisma.JsonValue | null) =>
+    Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+
+  return {
+    travelStartDate: record.travelStartDate,
+    travelEndDate: record.travelEndDate,
+    adults: record.adults,
+    children: record.children,
+    budgetAmount: record.budgetAmount === null ? null : Number(record.budgetAmount),
+    budgetCurrency: record.budgetCurrency,
+    interests: toList(record.interests),
+    dietaryNeeds: toList(record.dietaryNeeds),
+  };
+}
+
+/**
+ * Метаданные полей записи (некорректные записи отбрасываются)
+ */
+export function toTripRequirementsMeta(record: TripRequirements | null): TripRequirementsMeta {
+  const meta = record?.fieldMeta;
+  if (!meta || typeof meta !== 'object' || Array.isArray(meta)) {
+    return {};
+  }
+
+  const result: TripRequirementsMeta = {};
+  for (const field of TRIP_REQUIREMENT_FIELDS) {
+    const entry = (meta as Record<string, unknown>)[field];
+    if (entry && typeof entry === 'object') {
+      result[field] = entry as TripRequirementFieldMeta;
+    }
+  }
+  return result;
+}
+
+/**
+ * Применяет ответ LLM к текущим требованиям
+ *
+ * Поля, исправленные менеджером, не меняются. Ссылки на сообщения
+ * вне прочитанной пачки отбрасываются.
+ */
+export function mergeTripRequirements(
+  current: TripRequirementsValues,
+  meta: TripRequirementsMeta,
+  extracted: TripRequirementsResponse,
+  knownMessageIds: string[],
+  now: Date = new Date()
+): { values: TripRequirementsValues; meta: TripRequirementsMeta; updatedFields: TripRequirementField[] } {
+  const values = { ...current };
+  const nextMeta = { ...meta };
+  const updatedFields: TripRequirementField[] = [];
+  const known = new Set(knownMessageIds);
+
+  const apply = <T extends { confidence: number; sourceMessageIds: string[] }>(
+    field: TripRequirementField,
+    entry: T | null | undefined,
+    update: (entry: T) => void
+  ) => {
+    if (!entry || meta[field]?.updatedBy === 'HUMAN') {
+      return;
+    }
+
+    update(entry);
+    nextMeta[field] = {
+      confidence: entry.confidence,
+      sourceMessageIds: entry.sourceMessageIds.filter((id) => known.has(id)),
+      updatedBy: 'AI',
+      updatedAt: now.toISOString(),
+    };
+    updatedFields.push(field);
+  };
+
+  const { travelDates, groupSize, budget, interests, dietaryNeeds } = extracted;
+
+  if (travelDates?.startDate || travelDates?.endDate) {
+    // Указана только одна граница - вторая остается прежней
+    apply('travelDates', travelDates, (entry) => {
+      values.travelStartDate = parseDate(entry.startDate) ?? values.travelStartDate;
+      values.travelEndDate = parseDate(entry.endDate) ?? values.travelEndDate;
+    });
+  }
+
+  apply('groupSize', groupSize, (entry) => {
+    values.adults = entry.adults;
+    values.children = entry.children;
+  });
+
+  apply('budget', budget, (entry) => {
+    values.budgetAmount = entry.amount;
+    values.budgetCurrency = entry.currency.trim().toUpperCase();
+  });
+
+  apply('interests', interests, (entry) => {
+    values.interests = uniqueItems(entry.items);
+  });
+
+  apply('dietaryNeeds', dietaryNeeds, (entry) => {
+    values.dietaryNeeds = uniqueItems(entry.items);
+  });
+
+  return { values, meta: nextMeta, updatedFields };
+}
+
+/**
+ * Предлагает перевести NEW_LEAD в QUALIFIED, когда известны даты поездки
+ * и состав группы (исправлены менеджером или извлечены с достаточной уверенностью)
+ */
+export function proposeClientStatus(
+  status: ClientStatus,
+  values: TripRequirementsValues,
+  meta: TripRequirementsMeta
+): ClientStatus | null {
+  if (status !== ClientStatus.NEW_LEAD) {
+    return null;
+  }
+
+  const isReliable = (field: TripRequirementField) => {
+    const entry = meta[field];
+    return !!entry && (entry.updatedBy === 'HUMAN' || entry.confidence >= QUALIFICATION_MIN_CONFIDENCE);
+  };
+
+  const hasDates = values.travelStartDate !== null && isReliable('travelDates');
+  const hasGroup = values.adults !== null && isReliable('groupSize');
+
+  return hasDates && hasGroup ? ClientStatus.QUALIFIED : null;
+}
+
+/**
+ * Агент квалификации клиентов
+ */
+export class QualificationAgent {
+  private readonly prisma: PrismaClient;
+  private readonly llmProvider: ILLMProvider;
+  private readonly promptLoader: PromptLoader;
+
+  constructor(prisma: PrismaClient, llmProvider: ILLMProvider, promptLoader: PromptLoader) {
+    this.prisma = prisma;
+    this.llmProvider = llmProvider;
+    this.promptLoader = promptLoader;
+  }
+
+  /**
+   * Извлекает требования из сообщений клиента, прочитанных после прошлого запуска
+   *
+   * За один запуск читается не больше 50 сообщений, остальные - в следующих запусках.
+   *
+   * @throws {Error} Если клиент не найден
+   */
+  async extractRequirements(options: ExtractRequirementsOptions): Promise<RequirementsExtractionResult> {
+    const { organizationId, clientId, bypassCache } = options;
+
+    const client = await this.prisma.client.findFirst({
+      where: { id: clientId, organizationId },
+      select: { id: true, status: true, tripRequirements: true },
+    });
+
+    if (!client) {
+      throw new Error(`Client not found: ${clientId} for organization ${organizationId}`);
+    }
+
+    const existing = client.tripRequirements;
+    const current = toTripRequirementsValues(existing);
+    const meta = toTripRequirementsMeta(existing);
+
+    const messages = await this.prisma.message.findMany({
+      where: {
+        organizationId,
+        conversation: { clientId },
+        ...messagesAfter(existing),
+      },
+      orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+      take: MAX_MESSAGES_PER_RUN,
+    });
+
+    if (messages.length === 0) {
+      return {
+        requirements: existing,
+        updatedFields: [],
+        analyzedMessages: 0,
+        proposedStatus: proposeClientStatus(client.status, current, meta),
+      };
+    }
+
+    const promptConfig = await this.promptLoader.loadPrompt({
+      organizationId,
+      agentType: AgentType.QUALIFICATION,
+      clientId,
+    });
+
+    const { data } = await completeStructured(
+      this.llmProvider,
+      {
+        messages: this.buildMessages(promptConfig.prompt, current, meta, messages),
+        organizationId,
+        agentType: AgentType.QUALIFICATION,
+        providers: promptConfig.settings.providers as string[] | undefined,
+        model: (promptConfig.settings.model as string) || undefined,
+        models: promptConfig.settings.models as Record<string, string> | undefined,
+        temperature: (promptConfig.settings.temperature as number) ?? 0.1,
+        maxTokens: (promptConfig.settings.maxTokens as number) || 500,
+        bypassCache,
+      },
+      tripRequirementsResponseSchema,
+      { name: 'trip_requirements' }
+    );
+
+    const merged = mergeTripRequirements(
+      current,
+      meta,
+      data,
+      messages.map((message) => message.id)
+    );
+
+    const recordData = {
+      ...merged.values,
+      fieldMeta: merged.meta as Prisma.InputJsonObject,
+      analyzedUntil: messages[messages.length - 1].createdAt,
+      analyzedUntilMessageId: messages[messages.length - 1].id,
+    };
+
+    const requirements = await this.prisma.tripRequirements.upsert({
+      where: { clientId },
+      create: { organizationId, clientId, ...recordData },
+      update: recordData,
+    });
+
+    if (merged.updatedFields.length > 0) {
+      console.log(`🧳 Trip requirements updated for client ${clientId}: ${merged.updatedFields.join(', ')}`);
+    }
+
+    return {
+      requirements,
+      updatedFields: merged.updatedFields,
+      analyzedMessages: messages.length,
+      proposedStatus: proposeClientStatus(client.status, merged.values, merged.meta),
+    };
+  }
+
+  /**
+   * Строит сообщения для LLM: инструкции и текущие требования в system,
+   * новые сообщения переписки (с id) в user
+   */
+  private buildMessages(
+    basePrompt: string,
+    current: TripRequirementsValues,
+    meta: TripRequirementsMeta,
+    messages: Message[]
+  ): LLMMessage[] {
+    const locked = TRIP_REQUIREMENT_FIELDS.filter((field) => meta[field]?.updatedBy === 'HUMAN');
+
+    const known = {
+      travelDates: {
+        startDate: formatDate(current.travelStartDate),
+        endDate: formatDate(current.travelEndDate),
+      },
+      groupSize: { adults: current.adults, children: current.children },
+      budget: { amount: current.budgetAmount, currency: current.budgetCurrency },
+      interests: current.interests,
+      dietaryNeeds: current.dietaryNeeds,
+    };
+
+    const system = `${basePrompt}
+
+Today is ${formatDate(new Date())}. Resolve relative dates ("next month", "in July") against today.
+
+Requirements known so far:
+${JSON.stringify(known, null, 2)}
+${locked.length > 0 ? `\nConfirmed by a manager, do not return: ${locked.join(', ')}\n` : ''}
+Read the new messages in the next message and return ONLY the fields that the new messages add or change.
+For lists (interests, dietaryNeeds) return the full updated list.
+For every returned field give a confidence (0.0-1.0) and the ids of the messages it comes from.
+
+Respond ONLY with a JSON object in this format (omit fields without new information):
+{
+  "travelDates": { "startDate": "YYYY-MM-DD", "endDate": "YYYY-MM-DD" or null, "confidence": 0.0-1.0, "sourceMessageIds": ["..."] },
+  "groupSize": { "adults": 2, "children": 0, "confidence": 0.0-1.0, "sourceMessageIds": ["..."] },
+  "budget": { "amount": 1500, "currency": "USD", "confidence": 0.0-1.0, "sourceMessageIds": ["..."] },
+  "interests": { "items": ["hiking", "horse riding"], "confidence": 0.0-1.0, "sourceMessageIds": ["..."] },
+  "dietaryNeeds": { "items": ["Halal"], "confidence": 0.0-1.0, "sourceMessageIds": ["..."] }
+}`;
+
+    const transcript = messages
+      .map((message) => {
+        const role = message.direction === MessageDirection.INCOMING ? 'Client' : 'Agent';
+        const content =
+          message.content.length > MAX_MESSAGE_LENGTH
+            ? `${message.content.substring(0, MAX_MESSAGE_LENGTH)}... [truncated]`
+            : message.content;
+        return `(id: ${message.id}) [${formatDate(message.createdAt)}] [${role}]: ${content}`;
+      })
+      .join('\n');
+
+    return [
+      { role: 'system', content: system },
+      { role: 'user', content: `New messages (oldest first):\n${transcript}` },
+    ];
+  }
+}
+
+/**
+ * Условие на сообщения после курсора (createdAt, id) прошлого запуска.
+ * У импортированных сообщений WhatsApp время с точностью до минуты, поэтому
+ * одного createdAt мало: сообщения с тем же временем разделяются по id.
+ */
+function messagesAfter(
+  existing: { analyzedUntil: Date | null; analyzedUntilMessageId: string | null } | null
+): Prisma.MessageWhereInput {
+  if (!existing?.analyzedUntil) {
+    return {};
+  }
+
+  // Записи до появления id курсора: сообщения с тем же временем перечитываются
+  if (!existing.analyzedUntilMessageId) {
+    return { createdAt: { gte: existing.analyzedUntil } };
+  }
+
+  return {
+    OR: [
+      { createdAt: { gt: existing.analyzedUntil } },
+      { createdAt: existing.analyzedUntil, id: { gt: existing.analyzedUntilMessageId } },
+    ],
+  };
+}
+
+function parseDate(value: string | null | undefined): Date | null {
+  return value ? new Date(`${value}T00:00:00.000Z`) : null;
+}
+
+function formatDate(value: Date | null): string | null {
+  return value && !Number.isNaN(value.getTime()) ? value.toISOString().substring(0, 10) : null;
+}
+
+function uniqueItems(items: string[]): string[] {
+  return [...new Set(items.map((item) => item.trim()).filter(Boolean))];
+}
@@ -0,0 +1,511 @@
+/**
+ * Warming Agent
+ *
+ * Находит лидов (QUALIFIED, WARMED, PROPOSAL_SENT), которые не ответили на
+ * последнее исходящее сообщение за staleAfterDays дней, и готовит follow-up
+ * на языке клиента. По политике организации (Organization.settings.followUps)
+ * follow-up ставится в очередь на одобрение (ReplyDraft PENDING) или
+ * отправляется сразу. Попытки ограничены maxAttempts и хранятся в диалоге
+ * как ReplyDraft с kind FOLLOW_UP; ответ клиента сбрасывает счетчик, а
+ * неодобренный follow-up после ответа клиента отклоняется.
+ */
+
+import { z } from 'zod';
+import {
+  PrismaClient,
+  AgentType,
+  ClientStatus,
+  ConversationManager,
+  ConversationStatus,
+  MessageDirection,
+  MessageSender,
+  MessageStatus,
+  ReplyDraftKind,
+  ReplyDraftStatus,
+  type Message,
+  type ReplyDraft,
+} from '@soul-kg-crm/database';
+import type { ILLMProvider } from '../providers';
+import type { PromptLoader } from '../prompt-manager';
+import { LLMProviderError, type LLMMessage } from '../types';
+import { completeStructured } from '../structured';
+import { replyDraftResponseSchema } from './communication-agent';
+
+/**
+ * Схема политики follow-up в Organization.settings.followUps
+ */
+export const followUpSettingsSchema = z.object({
+  enabled: z.boolean().default(false),
+  staleAfterDays: z.number().int().min(1).max(60).default(3), // Дней без ответа до follow-up
+  maxAttempts: z.number().int().min(1).max(10).default(2), // Follow-up подряд без ответа клиента
+  mode: z.enum(['APPROVAL', 'AUTO_SEND']).default('APPROVAL'),
+});
+
+export type FollowUpSettings = z.infer<typeof followUpSettingsSchema>;
+
+/**
+ * Статусы воронки, в которых лида нужно "подогревать"
+ */
+export const WARMING_CLIENT_STATUSES: ClientStatus[] = [
+  ClientStatus.QUALIFIED,
+  ClientStatus.WARMED,
+  ClientStatus.PROPOSAL_SENT,
+];
+
+/**
+ * Диалог, ожидающий follow-up
+ */
+export interface StaleConversation {
+  conversationId: string;
+  clientId: string;
+  lastOutgoingAt: Date;
+  attempt: number; // Номер следующей попытки (с 1)
+  autoSend: boolean; // AUTO_SEND и диалог ведет AI
+}
+
+/**
+ * Параметры подготовки follow-up
+ */
+export interface CreateFollowUpOptions {
+  organizationId: string;
+  conversationId: string;
+  attempt: number;
+  maxAttempts: number;
+  autoSend: boolean;
+  now?: Date;
+  bypassCache?: boolean; // Не брать ответ из кеша ответов LLM
+}
+
+/**
+ * Результат подготовки follow-up
+ */
+export interface FollowUpResult {
+  draft: ReplyDraft;
+  message: Message | null; // Отправленное сообщение (только AUTO_SEND)
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+/**
+ * Диалоги, молчащие дольше этого срока сверх расписания follow-up
+ * (staleAfterDays * maxAttempts), считаются потерянными и не подогреваются
+ */
+const MAX_SILENCE_DAYS = 60;
+const MAX_CONVERSATIONS_PER_RUN = 100;
+const CONVERSATIONS_PAGE_SIZE = 100;
+const MAX_HISTORY_MESSAGES = 20;
+const MAX_MESSAGE_LENGTH = 1000;
+
+/**
+ * Достает политику follow-up из настроек организации (некорректная политика игнорируется)
+ */
+export function parseFollowUpSettings(settings: unknown): FollowUpSettings | null {
+  const followUps = settings && typeof settings === 'object' ? (settings as { followUps?: unknown }).followUps : null;
+
+  if (followUps === undefined || followUps === null) {
+    return null;
+  }
+
+  const parsed = followUpSettingsSchema.safeParse(followUps);
+  if (!parsed.success) {
+    console.warn('Ignoring invalid follow-up settings:', parsed.error.message);
+    return null;
+  }
+
+  return parsed.data;
+}
+
+/**
+ * Агент "подогрева" лидов
+ */
+export class WarmingAgent {
+  private readonly prisma: PrismaClient;
+  private readonly llmProvider: ILLMProvider;
+  private readonly promptLoader: PromptLoader;
+
+  constructor(prisma: PrismaClient, llmProvider: ILLMProvider, promptLoader: PromptLoader) {
+    this.prisma = prisma;
+    this.llmProvider = llmProvider;
+    this.promptLoader = promptLoader;
+  }
+
+  /**
+   * Находит диалоги, где последнее сообщение исходящее и клиент молчит
+   * не меньше staleAfterDays дней
+   *
+   * Пропускаются диалоги с неодобренным follow-up и диалоги, где после
+   * последнего сообщения клиента уже было maxAttempts попыток. Отклоненный
+   * follow-up не сдвигает lastMessageAt, поэтому срок отсчитывается и от
+   * последнего follow-up. Диалоги читаются страницами, пока не наберется
+   * MAX_CONVERSATIONS_PER_RUN подходящих.
+   */
+  async findStaleConversations(
+    organizationId: string,
+    settings: FollowUpSettings,
+    now: Date = new Date()
+  ): Promise<StaleConversation[]> {
+    const staleBefore = new Date(now.getTime() - settings.staleAfterDays * DAY_MS);
+    const silenceDays = MAX_SILENCE_DAYS + settings.staleAfterDays * settings.maxAttempts;
+    const stale: StaleConversation[] = [];
+    let cursor: string | undefined;
+
+    while (stale.length < MAX_CONVERSATIONS_PER_RUN) {
+      const conversations = await this.prisma.conversation.findMany({
+        where: {
+          organizationId,
+          status: ConversationStatus.ACTIVE,
+          lastMessageAt: {
+            lte: staleBefore,
+            gte: new Date(now.getTime() - silenceDays * DAY_MS),
+          },
+          client: { status: { in: WARMING_CLIENT_STATUSES } },
+        },
+        select: {
+          id: true,
+          clientId: true,
+          managedBy: true,
+          messages: {
+            orderBy: { createdAt: 'desc' },
+            take: 1,
+            select: { direction: true, createdAt: true },
+          },
+        },
+        orderBy: [{ lastMessageAt: 'asc' }, { id: 'asc' }],
+        take: CONVERSATIONS_PAGE_SIZE,
+        ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+      });
+
+      for (const conversation of conversations) {
+        if (stale.length >= MAX_CONVERSATIONS_PER_RUN) {
+          break;
+        }
+
+        const candidate = await this.checkStaleConversation(conversation, settings, staleBefore);
+        if (candidate) {
+          stale.push(candidate);
+        }
+      }
+
+      if (conversations.length < CONVERSATIONS_PAGE_SIZE) {
+        break;
+      }
+
+      cursor = conversations[conversations.length - 1].id;
+    }
+
+    return stale;
+  }
+
+  /**
+   * Отклоняет неодобренные follow-up, после которых клиент ответил:
+   * они написаны для молчащего клиента и больше не к месту
+   *
+   * @returns Количество отклоненных follow-up
+   */
+  async expireAnsweredFollowUps(organizationId: string, now: Date = new Date()): Promise<number> {
+    const pending = await this.prisma.replyDraft.findMany({
+      where: { organizationId, kind: ReplyDraftKind.FOLLOW_UP, status: ReplyDraftStatus.PENDING },
+      select: { id: true, conversationId: true, createdAt: true },
+    });
+
+    let expired = 0;
+
+    for (const draft of pending) {
+      const reply = await this.prisma.message.findFirst({
+        where: {
+          conversationId: draft.conversationId,
+          direction: MessageDirection.INCOMING,
+          createdAt: { gt: draft.createdAt },
+        },
+        select: { id: true },
+      });
+
+      if (!reply) {
+        continue;
+      }
+
+      // Условное обновление: менеджер мог рассмотреть follow-up тем временем
+      const { count } = await this.prisma.replyDraft.updateMany({
+        where: { id: draft.id, status: ReplyDraftStatus.PENDING },
+        data: { status: ReplyDraftStatus.REJECTED, reviewedAt: now },
+      });
+      expired += count;
+    }
+
+    return expired;
+  }
+
+  /**
+   * Готовит follow-up и ставит его на одобрение или сразу отправляет
+   *
+   * Отправленный follow-up - исходящее сообщение PENDING (в очереди на
+   * отправку в канал) и ReplyDraft SENT со ссылкой на него.
+   *
+   * @throws {Error} Если диалог не найден или в нем нет сообщений
+   */
+  async createFollowUp(options: CreateFollowUpOptions): Promise<FollowUpResult> {
+    const { organizationId, conversationId, attempt, maxAttempts, autoSend, bypassCache } = options;
+    const now = options.now ?? new Date();
+
+    const conversation = await this.prisma.conversation.findFirst({
+      where: { id: conversationId, organizationId },
+      include: {
+        client: {
+          select: { id: true, firstName: true, status: true, preferredLanguage: true, culturalContext: true },
+        },
+      },
+    });
+
+    if (!conversation) {
+      throw new Error(`Conversation not found: ${conversationId} for organization ${organizationId}`);
+    }
+
+    const history = await this.prisma.message.findMany({
+      where: { conversationId, organizationId },
+      orderBy: { createdAt: 'desc' },
+      take: MAX_HISTORY_MESSAGES,
+    });
+
+    if (history.length === 0) {
+      throw new Error(`Conversation ${conversationId} has no messages to follow up on`);
+    }
+
+    const { client } = conversation;
+    const promptConfig = await this.promptLoader.loadPrompt({
+      organizationId,
+      agentType: AgentType.WARMING,
+      clientId: client.id,
+    });
+
+    const silentDays = Math.floor((now.getTime() - history[0].createdAt.getTime()) / DAY_MS);
+
+    const { data, response } = await completeStructured(
+      this.llmProvider,
+      {
+        messages: this.buildMessages(promptConfig.prompt, client, history.reverse(), {
+          attempt,
+          maxAttempts,
+          silentDays,
+        }),
+        organizationId,
+        agentType: AgentType.WARMING,
+        providers: promptConfig.settings.providers as string[] | undefined,
+        model: (promptConfig.settings.model as string) || undefined,
+        models: promptConfig.settings.models as Record<string, string> | undefined,
+        temperature: (promptConfig.settings.temperature as number) ?? 0.7,
+        maxTokens: (promptConfig.settings.maxTokens as number) || 300,
+        bypassCache,
+      },
+      replyDraftResponseSchema,
+      { name: 'follow_up' }
+    );
+
+    const draftData = {
+      organizationId,
+      conversationId,
+      kind: ReplyDraftKind.FOLLOW_UP,
+      followUpAttempt: attempt,
+      content: data.reply.trim(),
+      rationale: data.rationale.trim() || null,
+      language: data.language || client.preferredLanguage,
+      model: response.model,
+      promptVariantId: promptConfig.variantId,
+    };
+
+    if (!autoSend) {
+      const draft = await this.prisma.replyDraft.create({ data: draftData });
+      return { draft, message: null };
+    }
+
+    return this.prisma.$transaction(async (tx) => {
+      const message = await tx.message.create({
+        data: {
+          conversationId,
+          organizationId,
+          direction: MessageDirection.OUTGOING,
+          sender: MessageSender.AI,
+          content: draftData.content,
+          language: draftData.language,
+          status: MessageStatus.PENDING,
+        },
+      });
+
+      await tx.conversation.update({
+        where: { id: conversationId },
+        data: { lastMessageAt: message.createdAt },
+      });
+
+      const draft = await tx.replyDraft.create({
+        data: { ...draftData, status: ReplyDraftStatus.SENT, sentMessageId: message.id, reviewedAt: now },
+      });
+
+      return { draft, message };
+    });
+  }
+
+  /**
+   * Готовит follow-up для всех диалогов организации, ожидающих его
+   *
+   * Ничего не делает, если follow-up выключены. Ошибка в одном диалоге
+   * не останавливает остальные; исчерпанный бюджет LLM останавливает проход.
+   *
+   * @returns Количество созданных follow-up
+   */
+  async runForOrganization(organizationId: string, now: Date = new Date()): Promise<number> {
+    const organization = await this.prisma.organization.findUnique({
+      where: { id: organizationId },
+      select: { settings: true },
+    });
+
+    // Не зависит от политики: ответивший клиент не должен получить старый follow-up
+    await this.expireAnsweredFollowUps(organizationId, now);
+
+    const settings = parseFollowUpSettings(organization?.settings);
+    if (!settings?.enabled) {
+      return 0;
+    }
+
+    const stale = await this.findStaleConversations(organizationId, settings, now);
+    let created = 0;
+
+    for (const conversation of stale) {
+      try {
+        await this.createFollowUp({
+          organizationId,
+          conversationId: conversation.conversationId,
+          attempt: conversation.attempt,
+          maxAttempts: settings.maxAttempts,
+          autoSend: conversation.autoSend,
+          now,
+        });
+        created++;
+      } catch (error) {
+        if (error instanceof LLMProviderError && error.code === 'BUDGET_EXCEEDED') {
+          console.warn(`Follow-ups stopped for organization ${organizationId}: LLM budget exceeded`);
+          break;
+        }
+
+        console.error(`Follow-up failed for conversation ${conversation.conversationId}:`, error);
+      }
+    }
+
+    if (created > 0) {
+      console.log(`🔥 ${created} follow-ups created for organization ${organizationId}`);
+    }
+
+    return created;
+  }
+
+  /**
+   * Проверяет диалог-кандидат: последнее сообщение исходящее, лимит попыток
+   * не исчерпан, нет неодобренного follow-up и с последнего follow-up прошло
+   * не меньше staleAfterDays дней
+   */
+  private async checkStaleConversation(
+    conversation: {
+      id: string;
+      clientId: string;
+      managedBy: ConversationManager;
+      messages: { direction: MessageDirection; createdAt: Date }[];
+    },
+    settings: FollowUpSettings,
+    staleBefore: Date
+  ): Promise<StaleConversation | null> {
+    const [lastMessage] = conversation.messages;
+    if (!lastMessage || lastMessage.direction !== MessageDirection.OUTGOING) {
+      return null;
+    }
+
+    const lastIncoming = await this.prisma.message.findFirst({
+      where: { conversationId: conversation.id, direction: MessageDirection.INCOMING },
+      orderBy: { createdAt: 'desc' },
+      select: { createdAt: true },
+    });
+
+    // Попытки считаются с последнего ответа клиента
+    const followUps = await this.prisma.replyDraft.findMany({
+      where: {
+        conversationId: conversation.id,
+        kind: ReplyDraftKind.FOLLOW_UP,
+        ...(lastIncoming && { createdAt: { gt: lastIncoming.createdAt } }),
+      },
+      select: { status: true, createdAt: true, reviewedAt: true },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    if (
+      followUps.length >= settings.maxAttempts ||
+      followUps.some((followUp) => followUp.status === ReplyDraftStatus.PENDING)
+    ) {
+      return null;
+    }
+
+    const [lastFollowUp] = followUps;
+    const lastFollowUpAt = lastFollowUp ? (lastFollowUp.reviewedAt ?? lastFollowUp.createdAt) : null;
+    if (lastFollowUpAt && lastFollowUpAt > staleBefore) {
+      return null;
+    }
+
+    return {
+      conversationId: conversation.id,
+      clientId: conversation.clientId,
+      lastOutgoingAt: lastMessage.createdAt,
+      attempt: followUps.length + 1,
+      autoSend: settings.mode === 'AUTO_SEND' && conversation.managedBy === ConversationManager.AI,
+    };
+  }
+
+  /**
+   * Строит сообщения для LLM: роль, профиль клиента, номер попытки и формат
+   * ответа в system, переписка в user
+   */
+  private buildMessages(
+    basePrompt: string,
+    client: { firstName: string | null; status: string; preferredLanguage: string | null; culturalContext: unknown },
+    history: Message[],
+    followUp: { attempt: number; maxAttempts: number; silentDays: number }
+  ): LLMMessage[] {
+    const language = client.preferredLanguage
+      ? `Write the follow-up in the client's preferred language (${client.preferredLanguage}).`
+      : 'Write the follow-up in the language the client writes in.';
+
+    const lastAttempt =
+      followUp.attempt >= followUp.maxAttempts
+        ? ' This is the last follow-up: let the client know the team is here whenever they are ready.'
+        : '';
+
+    const system = `${basePrompt}
+
+Client profile:
+- Name: ${client.firstName || 'unknown'}
+- Sales funnel status: ${client.status}
+- Preferred language: ${client.preferredLanguage || 'unknown'}
+- Cultural context: ${client.culturalContext ? JSON.stringify(client.culturalContext) : 'unknown'}
+
+The client has not replied for ${followUp.silentDays} days since the agent's last message.
+This is follow-up ${followUp.attempt} of ${followUp.maxAttempts}.${lastAttempt}
+${language}
+
+Respond ONLY with a JSON object in this format:
+{
+  "reply": "follow-up text for the client",
+  "rationale": "1 sentence in English explaining the approach, for the manager",
+  "language": "ISO 639-1 code of the follow-up language"
+}`;
+
+    const transcript = history
+      .map((message) => {
+        const role = message.direction === MessageDirection.INCOMING ? 'Client' : 'Agent';
+        const content =
+          message.content.length > MAX_MESSAGE_LENGTH
+            ? `${message.content.substring(0, MAX_MESSAGE_LENGTH)}... [truncated]`
+            : message.content;
+        return `[${message.createdAt.toISOString()}] [${role}]: ${content}`;
+      })
+      .join('\n');
+
+    return [
+      { role: 'system', content: system },
+      { role: 'user', content: `Recent messages (oldest first):\n${transcript}` },
+    ];
+  }
+}
@@ -0,0 +1,109 @@
+/**
+ * Warming Scheduler
+ *
+ * Периодически запускает WARMING агента для всех организаций
+ */
+
+import { PrismaClient } from '@soul-kg-crm/database';
+import type { WarmingAgent } from './warming-agent';
+import { claimJobRun } from '../scheduling';
+
+const WARMING_JOB = 'warming';
+
+const MAX_CHECK_INTERVAL_MS = 15 * 60 * 1000;
+
+/**
+ * Настройки планировщика
+ */
+export interface WarmingSchedulerOptions {
+  intervalMs: number; // Интервал между проходами по одной организации
+  checkIntervalMs?: number; // Как часто искать организации, которым пора (по умолчанию интервал, но не реже 15 минут)
+}
+
+/**
+ * Планировщик follow-up.
+ * Политика (включено, срок, число попыток, режим) берется из настроек
+ * каждой организации, поэтому планировщик обходит все организации.
+ * Время последнего прохода хранится в scheduled_job_runs: после рестарта
+ * просроченные организации обрабатываются сразу, а при нескольких
+ * экземплярах API каждую организацию обрабатывает один из них.
+ */
+export class WarmingScheduler {
+  private readonly prisma: PrismaClient;
+  private readonly agent: WarmingAgent;
+  private readonly options: WarmingSchedulerOptions;
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(prisma: PrismaClient, agent: WarmingAgent, options: WarmingSchedulerOptions) {
+    this.prisma = prisma;
+    this.agent = agent;
+    this.options = options;
+  }
+
+  /**
+   * Запускает периодические follow-up. Первая проверка - сразу при старте.
+   */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    const run = () => {
+      this.runOnce().catch((error) => console.error('Warming run failed:', error));
+    };
+
+    this.timer = setInterval(
+      run,
+      this.options.checkIntervalMs ?? Math.min(this.options.intervalMs, MAX_CHECK_INTERVAL_MS)
+    );
+    run();
+
+    // Не держим процесс живым только ради планировщика
+    this.timer.unref();
+  }
+
+  /**
+   * Останавливает периодические follow-up
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Выполняет один проход по организациям, которым пора.
+   * Ошибка в одной организации не останавливает остальные.
+   *
+   * @returns Количество созданных follow-up
+   */
+  async runOnce(now: Date = new Date()): Promise<number> {
+    // Предыдущий проход еще идет
+    if (this.running) {
+      return 0;
+    }
+
+    this.running = true;
+    let created = 0;
+
+    try {
+      const organizations = await this.prisma.organization.findMany({ select: { id: true } });
+
+      for (const organization of organizations) {
+        try {
+          if (await claimJobRun(this.prisma, WARMING_JOB, organization.id, this.options.intervalMs, now)) {
+            created += await this.agent.runForOrganization(organization.id, now);
+          }
+        } catch (error) {
+          console.error(`Warming failed for organization ${organization.id}:`, error);
+        }
+      }
+    } finally {
+      this.running = false;
+    }
+
+    return created;
+  }
+}
@@ -0,0 +1,155 @@
+/**
+ * Dialogue Analysis Scheduler
+ * 
+ * Периодически запускает анализ диалогов для всех организаций
+ */
+
+import { PrismaClient } from '@soul-kg-crm/database';
+import type { DialogueAnalyzer } from './dialogue-analyzer';
+import { claimJobRun } from '../scheduling';
+
+const DIALOGUE_ANALYSIS_JOB = 'dialogue-analysis';
+
+const MAX_CHECK_INTERVAL_MS = 15 * 60 * 1000;
+
+/**
+ * Настройки планировщика
+ */
+export interface DialogueAnalysisSchedulerOptions {
+  intervalMs: number; // Интервал между анализами одной организации
+  checkIntervalMs?: number; // Как часто искать организации, которым пора (по умолчанию интервал, но не реже 15 минут)
+  windowDays?: number; // Окно выборки диалогов (по умолчанию равно интервалу, но не меньше 7 дней)
+  sampleSize?: number;
+  model?: string;
+}
+
+/**
+ * Планировщик анализа диалогов.
+ * Анализирует каждую организацию целиком и отдельно каждый вариант
+ * промпта из активных или приостановленных экспериментов.
+ * Время последнего анализа хранится в scheduled_job_runs: после рестарта
+ * просроченные организации анализируются сразу, а при нескольких
+ * экземплярах API каждую организацию анализирует один из них.
+ */
+export class DialogueAnalysisScheduler {
+  private readonly prisma: PrismaClient;
+  private readonly analyzer: DialogueAnalyzer;
+  private readonly options: DialogueAnalysisSchedulerOptions;
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(prisma: PrismaClient, analyzer: DialogueAnalyzer, options: DialogueAnalysisSchedulerOptions) {
+    this.prisma = prisma;
+    this.analyzer = analyzer;
+    this.options = options;
+  }
+
+  /**
+   * Запускает периодический анализ. Первая проверка - сразу при старте.
+   */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    const run = () => {
+      this.runOnce().catch((error) => console.error('Dialogue analysis run failed:', error));
+    };
+
+    this.timer = setInterval(
+      run,
+      this.options.checkIntervalMs ?? Math.min(this.options.intervalMs, MAX_CHECK_INTERVAL_MS)
+    );
+    run();
+
+    // Не держим процесс живым только ради планировщика
+    this.timer.unref();
+  }
+
+  /**
+   * Останавливает периодический анализ
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Выполняет один проход по организациям, которым пора.
+   * Ошибка в одной организации не останавливает остальные.
+   * 
+   * @returns Количество сохраненных запусков анализа
+   */
+  async runOnce(now: Date = new Date()): Promise<number> {
+    // Предыдущий проход еще идет
+    if (this.running) {
+      return 0;
+    }
+
+    this.running = true;
+    let completed = 0;
+
+    try {
+      const windowDays = this.options.windowDays ?? Math.max(7, Math.ceil(this.options.intervalMs / 86400000));
+      const since = new Date(now.getTime() - windowDays * 24 * 60 * 60 * 1000);
+
+      const organizations = await this.prisma.organization.findMany({ select: { id: true } });
+
+      for (const organization of organizations) {
+        let variants: { id: string }[];
+
+        try {
+          const due = await claimJobRun(
+            this.prisma,
+            DIALOGUE_ANALYSIS_JOB,
+            organization.id,
+            this.options.intervalMs,
+            now
+          );
+
+          if (!due) {
+            continue;
+          }
+
+          variants = await this.prisma.promptVariant.findMany({
+            where: {
+              organizationId: organization.id,
+              experiment: { status: { in: ['ACTIVE', 'PAUSED'] } },
+            },
+            select: { id: true },
+          });
+        } catch (error) {
+          console.error(`Dialogue analysis failed for organization ${organization.id}:`, error);
+          continue;
+        }
+
+        for (const promptVariantId of [undefined, ...variants.map((variant) => variant.id)]) {
+          try {
+            const run = await this.analyzer.analyze({
+              organizationId: organization.id,
+              promptVariantId,
+              since,
+              sampleSize: this.options.sampleSize,
+              model: this.options.model,
+            });
+
+            if (run) {
+              completed++;
+            }
+          } catch (error) {
+            console.error(
+              `Dialogue analysis failed for organization ${organization.id}${promptVariantId ? ` (variant ${promptVariantId})` : ''}:`,
+              error
+            );
+          }
+        }
+      }
+    } finally {
+      this.running = false;
+    }
+
+    return completed;
+  }
+}
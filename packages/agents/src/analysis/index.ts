@@ -0,0 +1,8 @@
+/**
+ * Analysis
+ * 
+ * Анализ диалогов (паттерны успеха, проблемные места, рекомендации)
+ */
+
+export * from './dialogue-analyzer';
+export * from './dialogue-analysis-scheduler';
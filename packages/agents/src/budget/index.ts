@@ -0,0 +1,7 @@
+/**
+ * Budget
+ * 
+ * Месячные бюджеты LLM (токены и стоимость) по организациям
+ */
+
+export * from './llm-budget';
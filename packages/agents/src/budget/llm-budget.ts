@@ -0,0 +1,240 @@
+/**
+ * LLM Budget
+ * 
+ * Месячные soft/hard бюджеты токенов и стоимости организации
+ * (Organization.settings.llmBudget) и проверка перед вызовом LLM
+ */
+
+import { z } from 'zod';
+import { PrismaClient } from '@soul-kg-crm/database';
+import { LLMProviderError } from '../types';
+
+const limitsSchema = z
+  .object({
+    soft: z.number().positive().optional(), // Превышение - только предупреждение
+    hard: z.number().positive().optional(), // Превышение - вызовы LLM блокируются
+  })
+  .refine((limits) => limits.soft === undefined || limits.hard === undefined || limits.soft <= limits.hard, {
+    message: 'Soft limit must not exceed hard limit',
+  });
+
+/**
+ * Схема бюджета в Organization.settings.llmBudget
+ */
+export const llmBudgetSettingsSchema = z.object({
+  monthlyTokens: limitsSchema.optional(),
+  monthlyCost: limitsSchema.optional(), // USD
+  warningPercent: z.number().min(1).max(100).optional(), // Порог предупреждения, % от лимита
+});
+
+export type LLMBudgetSettings = z.infer<typeof llmBudgetSettingsSchema>;
+
+export const DEFAULT_BUDGET_WARNING_PERCENT = 80;
+
+export type LLMBudgetLevel = 'OK' | 'WARNING' | 'SOFT_EXCEEDED' | 'HARD_EXCEEDED';
+
+/**
+ * Расход организации относительно бюджета за текущий месяц
+ */
+export interface LLMBudgetStatus {
+  organizationId: string;
+  period: { from: Date; to: Date }; // Календарный месяц (UTC)
+  usage: { tokens: number; cost: number };
+  budget: LLMBudgetSettings | null;
+  level: LLMBudgetLevel;
+  percentUsed: number | null; // Максимум по всем лимитам, null если лимитов нет
+}
+
+/**
+ * Проверка бюджета перед вызовом LLM (используется BaseLLMProvider)
+ */
+export interface LLMBudgetGuard {
+  /**
+   * @throws {LLMProviderError} BUDGET_EXCEEDED если достигнут hard лимит
+   */
+  check(organizationId: string): Promise<void>;
+}
+
+/**
+ * Настройки сервиса бюджетов
+ */
+export interface LLMBudgetServiceOptions {
+  cacheTtlMs?: number; // Как долго check() использует посчитанный расход (по умолчанию 30 секунд)
+  onWarning?: (status: LLMBudgetStatus) => void; // Уведомление администраторов
+  now?: () => Date;
+}
+
+/**
+ * Достает бюджет из настроек организации (некорректный бюджет игнорируется)
+ */
+export function parseLLMBudget(settings: unknown): LLMBudgetSettings | null {
+  const llmBudget = settings && typeof settings === 'object' ? (settings as { llmBudget?: unknown }).llmBudget : null;
+
+  if (llmBudget === undefined || llmBudget === null) {
+    return null;
+  }
+
+  const parsed = llmBudgetSettingsSchema.safeParse(llmBudget);
+  if (!parsed.success) {
+    console.warn('Ignoring invalid LLM budget settings:', parsed.error.message);
+    return null;
+  }
+
+  return parsed.data;
+}
+
+/**
+ * Уровень расхода относительно бюджета
+ */
+export function evaluateLLMBudget(
+  budget: LLMBudgetSettings | null,
+  usage: { tokens: number; cost: number }
+): { level: LLMBudgetLevel; percentUsed: number | null } {
+  const checks = [
+    { used: usage.tokens, limits: budget?.monthlyTokens },
+    { used: usage.cost, limits: budget?.monthlyCost },
+  ];
+  const limits = checks.flatMap(({ used, limits }) =>
+    [limits?.soft, limits?.hard].filter((limit): limit is number => limit !== undefined).map((limit) => ({ used, limit }))
+  );
+
+  if (limits.length === 0) {
+    return { level: 'OK', percentUsed: null };
+  }
+
+  const warningPercent = budget?.warningPercent ?? DEFAULT_BUDGET_WARNING_PERCENT;
+  const percentUsed = Math.max(...limits.map(({ used, limit }) => (used / limit) * 100));
+  const reached = (kind: 'soft' | 'hard') =>
+    checks.some(({ used, limits }) => limits?.[kind] !== undefined && used >= limits[kind]!);
+
+  let level: LLMBudgetLevel = 'OK';
+  if (reached('hard')) {
+    level = 'HARD_EXCEEDED';
+  } else if (reached('soft')) {
+    level = 'SOFT_EXCEEDED';
+  } else if (percentUsed >= warningPercent) {
+    level = 'WARNING';
+  }
+
+  return { level, percentUsed: Math.round(percentUsed * 10) / 10 };
+}
+
+/**
+ * LLM Budget Service
+ * 
+ * Считает расход организации за текущий месяц по llm_usage. check()
+ * кеширует расход на cacheTtlMs, поэтому при массовых вызовах (импорт)
+ * hard лимит может быть превышен на расход этого окна.
+ * Предупреждение администраторам отправляется один раз на уровень за месяц.
+ */
+export class LLMBudgetService implements LLMBudgetGuard {
+  private readonly prisma: PrismaClient;
+  private readonly cacheTtlMs: number;
+  private readonly onWarning: (status: LLMBudgetStatus) => void;
+  private readonly now: () => Date;
+  private readonly cache = new Map<string, { status: LLMBudgetStatus; expiresAt: number }>();
+  private readonly warned = new Set<string>();
+
+  constructor(prisma: PrismaClient, options: LLMBudgetServiceOptions = {}) {
+    this.prisma = prisma;
+    this.cacheTtlMs = options.cacheTtlMs ?? 30000;
+    this.onWarning =
+      options.onWarning ??
+      ((status) =>
+        console.warn(
+          `⚠️  LLM budget ${status.level} for organization ${status.organizationId}: ${status.percentUsed}% used`
+        ));
+    this.now = options.now ?? (() => new Date());
+  }
+
+  /**
+   * Возвращает расход и бюджет организации за текущий месяц
+   */
+  async getStatus(organizationId: string): Promise<LLMBudgetStatus> {
+    const now = this.now();
+    const from = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+    const to = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
+
+    const [organization, aggregate] = await Promise.all([
+      this.prisma.organization.findUnique({
+        where: { id: organizationId },
+        select: { settings: true },
+      }),
+      this.prisma.llmUsage.aggregate({
+        where: { organizationId, createdAt: { gte: from, lt: to } },
+        _sum: { totalTokens: true, cost: true },
+      }),
+    ]);
+
+    const budget = parseLLMBudget(organization?.settings);
+    const usage = {
+      tokens: aggregate._sum.totalTokens ?? 0,
+      cost: Number(aggregate._sum.cost ?? 0),
+    };
+
+    return {
+      organizationId,
+      period: { from, to },
+      usage,
+      budget,
+      ...evaluateLLMBudget(budget, usage),
+    };
+  }
+
+  /**
+   * Проверяет бюджет перед вызовом LLM
+   * 
+   * @throws {LLMProviderError} BUDGET_EXCEEDED если достигнут hard лимит
+   */
+  async check(organizationId: string): Promise<void> {
+    const status = await this.getCachedStatus(organizationId);
+
+    if (status.level !== 'OK') {
+      this.warnOnce(status);
+    }
+
+    if (status.level === 'HARD_EXCEEDED') {
+      throw new LLMProviderError(
+        `Monthly LLM budget exceeded for organization ${organizationId}`,
+        'BUDGET_EXCEEDED',
+        402,
+        false
+      );
+    }
+  }
+
+  /**
+   * Сбрасывает кеш расхода (например, после изменения бюджета)
+   */
+  invalidate(organizationId?: string): void {
+    if (organizationId) {
+      this.cache.delete(organizationId);
+    } else {
+      this.cache.clear();
+    }
+  }
+
+  private async getCachedStatus(organizationId: string): Promise<LLMBudgetStatus> {
+    const cached = this.cache.get(organizationId);
+    const now = this.now().getTime();
+
+    if (cached && cached.expiresAt > now) {
+      return cached.status;
+    }
+
+    const status = await this.getStatus(organizationId);
+    this.cache.set(organizationId, { status, expiresAt: now + this.cacheTtlMs });
+    return status;
+  }
+
+  private warnOnce(status: LLMBudgetStatus): void {
+    const key = `${status.organizationId}:${status.period.from.toISOString()}:${status.level}`;
+
+    if (this.warned.has(key)) {
+      return;
+    }
+
+    this.warned.add(key);
+    this.onWarning(status);
+  }
+}
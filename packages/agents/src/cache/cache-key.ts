@@ -0,0 +1,50 @@
+/**
+ * Cache Key
+ * 
+ * Ключ кеша ответов LLM
+ */
+
+import { createHash } from 'crypto';
+import type { LLMRequest } from '../types';
+
+/**
+ * Нормализует промпт: переводы строк, пробелы в конце строк и подряд
+ * идущие пустые строки не меняют смысл запроса
+ */
+export function normalizePrompt(prompt: string): string {
+  return prompt
+    .replace(/\r\n?/g, '\n')
+    .split('\n')
+    .map((line) => line.replace(/[ \t]+/g, ' ').trimEnd())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Строит ключ кеша: id организации + хеш нормализованного промпта,
+ * модели, параметров и формата ответа. Организация в ключе изолирует кеш между
+ * организациями даже при одинаковых промптах.
+ */
+export function buildCacheKey(request: LLMRequest): string {
+  const hash = createHash('sha256')
+    .update(
+      JSON.stringify({
+        prompt: normalizePrompt(request.prompt ?? ''),
+        model: request.model ?? null,
+        temperature: request.temperature ?? null,
+        maxTokens: request.maxTokens ?? null,
+        // Необязательные параметры входят в ключ только если заданы - ключи простых запросов не меняются
+        ...(request.messages?.length
+          ? { messages: request.messages.map((message) => ({ role: message.role, content: normalizePrompt(message.content) })) }
+          : {}),
+        ...(request.stop?.length ? { stop: request.stop } : {}),
+        ...(request.models ? { models: request.models } : {}),
+        // Ответ в JSON режиме отличается от свободного текста
+        ...(request.responseFormat ? { responseFormat: request.responseFormat } : {}),
+      })
+    )
+    .digest('hex');
+
+  return `${request.organizationId}:${hash}`;
+}
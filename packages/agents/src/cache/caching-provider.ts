@@ -0,0 +1,166 @@
+/**
+ * Caching Provider
+ * 
+ * Обертка над LLM провайдером, отдающая повторные одинаковые запросы из кеша
+ */
+
+import type { ILLMProvider } from '../providers/base-provider';
+import type { LLMRequest, LLMResponse, LLMStreamChunk } from '../types';
+import { buildCacheKey } from './cache-key';
+import type { ResponseCacheStore } from './response-cache-store';
+
+/**
+ * Настройки кеширования
+ */
+export interface CachingProviderOptions {
+  ttlMs?: number; // Время жизни ответа (по умолчанию 24 часа)
+}
+
+/**
+ * Счетчики кеша
+ */
+export interface CacheMetrics {
+  hits: number;
+  misses: number;
+  bypasses: number; // Запросы с bypassCache
+  errors: number; // Ошибки хранилища (запрос при этом уходит в LLM)
+  hitRate: number | null; // hits / (hits + misses)
+}
+
+type Counters = Omit<CacheMetrics, 'hitRate'>;
+
+/**
+ * Caching Provider
+ * 
+ * Ответы из кеша помечаются metadata.cached = true и не доходят до
+ * провайдера, поэтому не расходуют токены и бюджет. Ставьте его снаружи
+ * UsageTrackingProvider. Ошибки хранилища не ломают запрос.
+ */
+export class CachingProvider implements ILLMProvider {
+  private readonly provider: ILLMProvider;
+  private readonly store: ResponseCacheStore;
+  private readonly ttlMs: number;
+  private readonly counters = new Map<string, Counters>();
+
+  constructor(provider: ILLMProvider, store: ResponseCacheStore, options: CachingProviderOptions = {}) {
+    this.provider = provider;
+    this.store = store;
+    this.ttlMs = options.ttlMs ?? 24 * 60 * 60 * 1000;
+  }
+
+  /**
+   * Возвращает ответ из кеша или выполняет запрос и сохраняет ответ
+   */
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    const key = buildCacheKey(request);
+    const cached = await this.lookup(key, request);
+
+    if (cached) {
+      return cached;
+    }
+
+    const response = await this.provider.complete(request);
+    await this.write(key, request.organizationId, response);
+
+    return response;
+  }
+
+  /**
+   * Отдает ответ из кеша одним фрагментом или передает поток провайдера
+   * и сохраняет итоговый ответ
+   */
+  async *stream(request: LLMRequest): AsyncGenerator<LLMStreamChunk> {
+    const key = buildCacheKey(request);
+    const cached = await this.lookup(key, request);
+
+    if (cached) {
+      yield { delta: cached.content, response: cached };
+      return;
+    }
+
+    for await (const chunk of this.provider.stream(request)) {
+      if (chunk.response) {
+        await this.write(key, request.organizationId, chunk.response);
+      }
+      yield chunk;
+    }
+  }
+
+  /**
+   * Проверяет доступность обернутого провайдера
+   */
+  isAvailable(): Promise<boolean> {
+    return this.provider.isAvailable();
+  }
+
+  /**
+   * Счетчики кеша организации или суммарные
+   */
+  getMetrics(organizationId?: string): CacheMetrics {
+    const counters = organizationId
+      ? [this.counters.get(organizationId)].filter((value): value is Counters => value !== undefined)
+      : [...this.counters.values()];
+
+    const total = counters.reduce(
+      (sum, value) => ({
+        hits: sum.hits + value.hits,
+        misses: sum.misses + value.misses,
+        bypasses: sum.bypasses + value.bypasses,
+        errors: sum.errors + value.errors,
+      }),
+      { hits: 0, misses: 0, bypasses: 0, errors: 0 }
+    );
+    const lookups = total.hits + total.misses;
+
+    return { ...total, hitRate: lookups === 0 ? null : total.hits / lookups };
+  }
+
+  /**
+   * Сбрасывает счетчики
+   */
+  resetMetrics(): void {
+    this.counters.clear();
+  }
+
+  private async lookup(key: string, request: LLMRequest): Promise<LLMResponse | null> {
+    if (request.bypassCache) {
+      this.count(request.organizationId, 'bypasses');
+      return null;
+    }
+
+    const cached = await this.read(key, request.organizationId);
+
+    if (!cached) {
+      this.count(request.organizationId, 'misses');
+      return null;
+    }
+
+    this.count(request.organizationId, 'hits');
+    return { ...cached, metadata: { ...cached.metadata, cached: true } };
+  }
+
+  private async write(key: string, organizationId: string, response: LLMResponse): Promise<void> {
+    try {
+      await this.store.set(key, organizationId, response, this.ttlMs);
+    } catch (error) {
+      this.count(organizationId, 'errors');
+      console.error('Failed to write LLM response cache:', error);
+    }
+  }
+
+  private async read(key: string, organizationId: string): Promise<LLMResponse | null> {
+    try {
+      return await this.store.get(key);
+    } catch (error) {
+      this.count(organizationId, 'errors');
+      console.error('Failed to read LLM response cache:', error);
+      return null;
+    }
+  }
+
+  private count(organizationId: string, counter: keyof Counters): void {
+    const counters = this.counters.get(organizationId) ?? { hits: 0, misses: 0, bypasses: 0, errors: 0 };
+    counters[counter] += 1;
+    this.counters.set(organizationId, counters);
+  }
+}
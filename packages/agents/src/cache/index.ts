@@ -1,7 +1,9 @@
 /**
- * Cache - заглушка
- * Будет реализовано в следующем этапе
+ * Cache
+ * 
+ * Кеш ответов LLM (in-memory и Postgres) для повторных одинаковых запросов
  */
 
-export {};
-
+export * from './cache-key';
+export * from './response-cache-store';
+export * from './caching-provider';
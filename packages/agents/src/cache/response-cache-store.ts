@@ -0,0 +1,144 @@
+/**
+ * Response Cache Store
+ * 
+ * Хранилища кеша ответов LLM: in-memory и Postgres (таблица llm_response_cache)
+ */
+
+import { PrismaClient, Prisma } from '@soul-kg-crm/database';
+import type { LLMResponse } from '../types';
+
+/**
+ * Хранилище кеша ответов
+ */
+export interface ResponseCacheStore {
+  get(key: string): Promise<LLMResponse | null>;
+  set(key: string, organizationId: string, response: LLMResponse, ttlMs: number): Promise<void>;
+  /**
+   * Удаляет ответы организации (или все)
+   */
+  clear(organizationId?: string): Promise<void>;
+}
+
+interface MemoryEntry {
+  organizationId: string;
+  response: LLMResponse;
+  expiresAt: number;
+}
+
+/**
+ * In-memory хранилище. Живет в пределах процесса; при превышении
+ * maxEntries вытесняются самые старые записи.
+ */
+export class InMemoryResponseCacheStore implements ResponseCacheStore {
+  private readonly entries = new Map<string, MemoryEntry>();
+  private readonly maxEntries: number;
+  private readonly now: () => number;
+
+  constructor(options: { maxEntries?: number; now?: () => number } = {}) {
+    this.maxEntries = options.maxEntries ?? 10000;
+    this.now = options.now ?? Date.now;
+  }
+
+  async get(key: string): Promise<LLMResponse | null> {
+    const entry = this.entries.get(key);
+
+    if (!entry) {
+      return null;
+    }
+
+    if (entry.expiresAt <= this.now()) {
+      this.entries.delete(key);
+      return null;
+    }
+
+    return entry.response;
+  }
+
+  async set(key: string, organizationId: string, response: LLMResponse, ttlMs: number): Promise<void> {
+    // Перезапись переносит ключ в конец порядка вытеснения
+    this.entries.delete(key);
+    this.entries.set(key, { organizationId, response, expiresAt: this.now() + ttlMs });
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  async clear(organizationId?: string): Promise<void> {
+    if (!organizationId) {
+      this.entries.clear();
+      return;
+    }
+
+    for (const [key, entry] of this.entries) {
+      if (entry.organizationId === organizationId) {
+        this.entries.delete(key);
+      }
+    }
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+}
+
+/**
+ * Postgres хранилище (через Prisma). Переживает перезапуски и общее
+ * для всех процессов - повторный импорт использует ответы прошлого.
+ */
+export class PostgresResponseCacheStore implements ResponseCacheStore {
+  private readonly prisma: PrismaClient;
+  private readonly now: () => Date;
+
+  constructor(prisma: PrismaClient, options: { now?: () => Date } = {}) {
+    this.prisma = prisma;
+    this.now = options.now ?? (() => new Date());
+  }
+
+  async get(key: string): Promise<LLMResponse | null> {
+    const entry = await this.prisma.llmResponseCache.findUnique({
+      where: { key },
+      select: { response: true, expiresAt: true },
+    });
+
+    if (!entry || entry.expiresAt <= this.now()) {
+      return null;
+    }
+
+    return entry.response as unknown as LLMResponse;
+  }
+
+  async set(key: string, organizationId: string, response: LLMResponse, ttlMs: number): Promise<void> {
+    const expiresAt = new Date(this.now().getTime() + ttlMs);
+    const data = {
+      organizationId,
+      model: response.model,
+      response: response as unknown as Prisma.InputJsonValue,
+      expiresAt,
+    };
+
+    await this.prisma.llmResponseCache.upsert({
+      where: { key },
+      create: { key, ...data },
+      update: data,
+    });
+  }
+
+  async clear(organizationId?: string): Promise<void> {
+    await this.prisma.llmResponseCache.deleteMany({ where: { organizationId } });
+  }
+
+  /**
+   * Удаляет просроченные ответы
+   * 
+   * @returns Количество удаленных записей
+   */
+  async purgeExpired(): Promise<number> {
+    const { count } = await this.prisma.llmResponseCache.deleteMany({
+      where: { expiresAt: { lte: this.now() } },
+    });
+
+    return count;
+  }
+}
@@ -4,9 +4,12 @@
  * Определяет статус клиента на основе диалога с использованием LLM
  */
 
+import { z } from 'zod';
 import { ClientStatus, AgentType } from '@soul-kg-crm/database';
 import type { ILLMProvider } from '../providers';
 import type { PromptLoader } from '../prompt-manager';
+import type { LLMMessage } from '../types';
+import { completeStructured, StructuredOutputError } from '../structured';
 
 // Define ExtractedMessage locally to avoid circular dependency
 // This matches the type from @soul-kg-crm/data-import
@@ -28,6 +31,7 @@ export interface DetectStatusOptions {
   firstMessageDate: Date;
   lastMessageDate: Date;
   language?: string;
+  bypassCache?: boolean; // Не брать ответ из кеша ответов LLM
 }
 
 /**
@@ -52,6 +56,35 @@ export interface StatusDetectionResult {
   culturalContext?: CulturalContextInfo; // Культурный контекст (опционально)
 }
 
+// LLM часто возвращает null для неизвестных полей
+const optionalString = z.string().nullish().transform((value) => value ?? undefined);
+const stringList = z.array(z.string()).nullish().transform((value) => value ?? []);
+
+/**
+ * Схема ответа LLM при детекции статуса
+ */
+export const statusDetectionResponseSchema = z.object({
+  status: z.nativeEnum(ClientStatus),
+  confidence: z.number().min(0).max(1),
+  reasoning: optionalString,
+  culturalContext: z
+    .object({
+      likelyOrigin: optionalString.describe('Country of origin, not current location'),
+      region: optionalString.describe('Cultural region (e.g., South Asia, Middle East)'),
+      communicationStyle: z
+        .enum(['formal', 'informal', 'mixed'])
+        .nullish()
+        .transform((value) => value ?? undefined),
+      dietaryRestrictions: stringList,
+      culturalNotes: stringList,
+      confidence: z.number().min(0).max(1).default(0.5),
+    })
+    .nullish()
+    .transform((value) => value ?? undefined),
+});
+
+export type StatusDetectionResponse = z.infer<typeof statusDetectionResponseSchema>;
+
 /**
  * LLM-based детектор статусов клиентов
  */
@@ -68,7 +101,7 @@ export class LLMStatusDetector {
    * Определяет статус клиента на основе диалога
    */
   async detectStatus(options: DetectStatusOptions): Promise<StatusDetectionResult> {
-    const { organizationId, messages, firstMessageDate, lastMessageDate, language } = options;
+    const { organizationId, messages, firstMessageDate, lastMessageDate, language, bypassCache } = options;
 
     // Логирование для отладки
     const lastMessage = messages[messages.length - 1];
@@ -93,20 +126,35 @@ export class LLMStatusDetector {
       language
     );
 
-    // Формируем полный промпт
-    const fullPrompt = this.buildPrompt(promptConfig.prompt, conversationContext);
+    // Инструкции - в system, текст клиента - в user
+    const llmMessages = this.buildMessages(promptConfig.prompt, conversationContext);
 
-    // Вызываем LLM
-    const response = await this.llmProvider.complete({
-      prompt: fullPrompt,
-      organizationId,
-      model: (promptConfig.settings.model as string) || undefined,
-      temperature: (promptConfig.settings.temperature as number) || 0.3,
-      maxTokens: (promptConfig.settings.maxTokens as number) || 100,
-    });
-
-    // Парсим ответ LLM
-    const result = this.parseLLMResponse(response.content, options);
+    // Вызываем LLM: ответ валидируется схемой, невалидный ответ запрашивается повторно
+    let result: StatusDetectionResult;
+    try {
+      const { data } = await completeStructured(
+        this.llmProvider,
+        {
+          messages: llmMessages,
+          organizationId,
+          agentType: AgentType.STATUS_DETECTION,
+          providers: promptConfig.settings.providers as string[] | undefined,
+          model: (promptConfig.settings.model as string) || undefined,
+          models: promptConfig.settings.models as Record<string, string> | undefined,
+          temperature: (promptConfig.settings.temperature as number) || 0.3,
+          maxTokens: (promptConfig.settings.maxTokens as number) || 100,
+          bypassCache,
+        },
+        statusDetectionResponseSchema,
+        { name: 'status_detection' }
+      );
+      result = this.toDetectionResult(data, options);
+    } catch (error) {
+      if (!(error instanceof StructuredOutputError)) {
+        throw error;
+      }
+      result = this.detectStatusFromText(error.content);
+    }
     
     console.log(`   ✅ Detected status: ${result.status} (confidence: ${result.confidence})`);
     if (result.reasoning) {
@@ -176,10 +224,10 @@ ${messageHistory}
   }
 
   /**
-   * Строит полный промпт для LLM
+   * Строит сообщения для LLM: инструкции в system, переписка с клиентом в user
    * Ограничивает размер промпта для избежания превышения лимитов API
    */
-  private buildPrompt(basePrompt: string, context: string): string {
+  private buildMessages(basePrompt: string, context: string): LLMMessage[] {
     const maxPromptLength = 8000; // Максимальная длина промпта (безопасный лимит)
     
     // Обрезаем базовый промпт если он слишком длинный
@@ -199,11 +247,9 @@ ${messageHistory}
       }
     }
     
-    return `${trimmedBasePrompt}
+    const instructions = `${trimmedBasePrompt}
 
-${trimmedContext}
-
-Please analyze the conversation and determine:
+Please analyze the conversation in the next message and determine:
 1. The client's status in the sales funnel
 2. The client's cultural context (origin, communication style, dietary preferences)
 
@@ -228,99 +274,85 @@ Respond ONLY with a JSON object in this format:
     "confidence": 0.0-1.0
   }
 }`;
+
+    return [
+      { role: 'system', content: instructions },
+      { role: 'user', content: trimmedContext },
+    ];
   }
 
   /**
-   * Парсит ответ LLM в структурированный результат
+   * Преобразует провалидированный ответ LLM в результат детекции
    */
-  private parseLLMResponse(response: string, options: DetectStatusOptions): StatusDetectionResult {
-    try {
-      // Пытаемся найти JSON в ответе
-      const jsonMatch = response.match(/\{[\s\S]*\}/);
-      if (!jsonMatch) {
-        throw new Error('No JSON found in LLM response');
+  private toDetectionResult(parsed: StatusDetectionResponse, options: DetectStatusOptions): StatusDetectionResult {
+    const result: StatusDetectionResult = {
+      status: parsed.status,
+      confidence: parsed.confidence,
+      reasoning: parsed.reasoning,
+    };
+
+    // Extract cultural context if present
+    if (parsed.culturalContext) {
+      const culturalContext: CulturalContextInfo = { ...parsed.culturalContext };
+
+      // Validate cultural context: if confidence is low or no specific markers found,
+      // use more general classification (UAE/region instead of specific country)
+      // This prevents over-classification when there's insufficient evidence
+      if (culturalContext.confidence && culturalContext.confidence < 0.7) {
+        // Low confidence - use general classification
+        const phoneCountryCode = this.extractCountryCodeFromMessages(options.messages);
+        if (phoneCountryCode === '971') {
+          // UAE phone but uncertain origin - use UAE as default
+          if (culturalContext.likelyOrigin && 
+              !culturalContext.likelyOrigin.toLowerCase().includes('uae') &&
+              !this.hasSpecificCulturalMarkers(options.messages, culturalContext.likelyOrigin)) {
+            console.log(`   ⚠️  Low confidence (${culturalContext.confidence}) without markers, using UAE as default`);
+            culturalContext.likelyOrigin = 'UAE';
+            culturalContext.region = 'Middle East';
+            culturalContext.confidence = 0.6; // Set to moderate confidence
+          }
+        }
       }
 
-      const parsed = JSON.parse(jsonMatch[0]);
+      result.culturalContext = culturalContext;
+    }
 
-      // Валидация статуса
-      const validStatuses = Object.values(ClientStatus);
-      if (!validStatuses.includes(parsed.status)) {
-        throw new Error(`Invalid status: ${parsed.status}`);
-      }
+    return result;
+  }
 
-      const result: StatusDetectionResult = {
-        status: parsed.status as ClientStatus,
-        confidence: Math.max(0, Math.min(1, parsed.confidence || 0.5)),
-        reasoning: parsed.reasoning,
-      };
-
-      // Extract cultural context if present
-      if (parsed.culturalContext) {
-        const culturalContext = {
-          likelyOrigin: parsed.culturalContext.likelyOrigin,
-          region: parsed.culturalContext.region,
-          communicationStyle: parsed.culturalContext.communicationStyle,
-          dietaryRestrictions: parsed.culturalContext.dietaryRestrictions || [],
-          culturalNotes: parsed.culturalContext.culturalNotes || [],
-          confidence: Math.max(0, Math.min(1, parsed.culturalContext.confidence || 0.5)),
+  /**
+   * Fallback: пытаемся определить статус по ключевым словам в ответе,
+   * который не удалось привести к схеме
+   */
+  private detectStatusFromText(response: string): StatusDetectionResult {
+    const responseLower = response.toLowerCase();
+    const statusMap: Record<string, ClientStatus> = {
+      'new_lead': ClientStatus.NEW_LEAD,
+      'qualified': ClientStatus.QUALIFIED,
+      'warmed': ClientStatus.WARMED,
+      'proposal_sent': ClientStatus.PROPOSAL_SENT,
+      'negotiation': ClientStatus.NEGOTIATION,
+      'sold': ClientStatus.SOLD,
+      'service': ClientStatus.SERVICE,
+      'closed': ClientStatus.CLOSED,
+    };
+
+    for (const [key, status] of Object.entries(statusMap)) {
+      if (responseLower.includes(key)) {
+        return {
+          status,
+          confidence: 0.5,
+          reasoning: 'Fallback detection from LLM response',
         };
-
-        // Validate cultural context: if confidence is low or no specific markers found,
-        // use more general classification (UAE/region instead of specific country)
-        // This prevents over-classification when there's insufficient evidence
-        // Note: messages are available from the outer scope (detectStatus method)
-        if (culturalContext.confidence && culturalContext.confidence < 0.7) {
-          // Low confidence - use general classification
-          const phoneCountryCode = this.extractCountryCodeFromMessages(options.messages);
-          if (phoneCountryCode === '971') {
-            // UAE phone but uncertain origin - use UAE as default
-            if (culturalContext.likelyOrigin && 
-                !culturalContext.likelyOrigin.toLowerCase().includes('uae') &&
-                !this.hasSpecificCulturalMarkers(options.messages, culturalContext.likelyOrigin)) {
-              console.log(`   ⚠️  Low confidence (${culturalContext.confidence}) without markers, using UAE as default`);
-              culturalContext.likelyOrigin = 'UAE';
-              culturalContext.region = 'Middle East';
-              culturalContext.confidence = 0.6; // Set to moderate confidence
-            }
-          }
-        }
-
-        result.culturalContext = culturalContext;
-      }
-
-      return result;
-    } catch (error) {
-      // Fallback: пытаемся определить статус по ключевым словам в ответе
-      const responseLower = response.toLowerCase();
-      const statusMap: Record<string, ClientStatus> = {
-        'new_lead': ClientStatus.NEW_LEAD,
-        'qualified': ClientStatus.QUALIFIED,
-        'warmed': ClientStatus.WARMED,
-        'proposal_sent': ClientStatus.PROPOSAL_SENT,
-        'negotiation': ClientStatus.NEGOTIATION,
-        'sold': ClientStatus.SOLD,
-        'service': ClientStatus.SERVICE,
-        'closed': ClientStatus.CLOSED,
-      };
-
-      for (const [key, status] of Object.entries(statusMap)) {
-        if (responseLower.includes(key)) {
-          return {
-            status,
-            confidence: 0.5,
-            reasoning: 'Fallback detection from LLM response',
-          };
-        }
       }
-
-      // Если ничего не найдено, возвращаем NEW_LEAD
-      return {
-        status: ClientStatus.NEW_LEAD,
-        confidence: 0.3,
-        reasoning: 'Failed to parse LLM response, defaulting to NEW_LEAD',
-      };
     }
+
+    // Если ничего не найдено, возвращаем NEW_LEAD
+    return {
+      status: ClientStatus.NEW_LEAD,
+      confidence: 0.3,
+      reasoning: 'Failed to parse LLM response, defaulting to NEW_LEAD',
+    };
   }
 
   /**
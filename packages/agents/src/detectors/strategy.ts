@@ -6,6 +6,7 @@
 
 import { LLMStatusDetector, type StatusDetectionResult, type ExtractedMessage } from './status-detector';
 import { ClientStatus } from '@soul-kg-crm/database';
+import { LLMProviderError } from '../types';
 
 /**
  * Эвристическая детекция статуса (fallback метод)
@@ -104,6 +105,7 @@ export interface DetectStatusWithStrategyOptions {
   language?: string;
   useLLM?: boolean; // Принудительно использовать LLM
   fallbackToHeuristic?: boolean; // Fallback на эвристику при ошибке LLM
+  bypassCache?: boolean; // Не брать ответ LLM из кеша
 }
 
 /**
@@ -140,6 +142,7 @@ export class StatusDetectionStrategy {
       language,
       useLLM,
       fallbackToHeuristic = this.fallbackToHeuristic,
+      bypassCache,
     } = options;
 
     // Решаем какой детектор использовать
@@ -154,11 +157,16 @@ export class StatusDetectionStrategy {
           firstMessageDate,
           lastMessageDate,
           language,
+          bypassCache,
         });
       } catch (error) {
         // Если fallback разрешен, используем эвристику
         if (fallbackToHeuristic) {
-          console.warn('LLM detection failed, falling back to heuristic:', error);
+          if (error instanceof LLMProviderError && error.code === 'BUDGET_EXCEEDED') {
+            console.warn('LLM budget exceeded, using heuristic detection');
+          } else {
+            console.warn('LLM detection failed, falling back to heuristic:', error);
+          }
           return this.detectWithHeuristic(messages, firstMessageDate, lastMessageDate);
         }
         throw error;
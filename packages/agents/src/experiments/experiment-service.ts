@@ -0,0 +1,138 @@
+/**
+ * Experiment Service
+ * 
+ * Распределяет клиентов по вариантам промптов активного эксперимента
+ */
+
+import { createHash } from 'crypto';
+import { PrismaClient, AgentType } from '@soul-kg-crm/database';
+
+/**
+ * Вариант эксперимента с весом для распределения
+ */
+export interface WeightedVariant {
+  id: string;
+  weight: number;
+}
+
+/**
+ * Параметры назначения варианта клиенту
+ */
+export interface AssignVariantOptions {
+  organizationId: string;
+  agentType: AgentType;
+  clientId: string;
+}
+
+/**
+ * Детерминированно выбирает вариант по весам.
+ * Один и тот же ключ всегда дает один и тот же вариант при неизменных весах.
+ * 
+ * @param variants - Варианты эксперимента (варианты с весом 0 не выбираются)
+ * @param key - Ключ распределения (эксперимент + клиент)
+ * @returns Выбранный вариант или null, если выбирать не из чего
+ */
+export function pickWeightedVariant<T extends WeightedVariant>(variants: T[], key: string): T | null {
+  const candidates = [...variants]
+    .filter((variant) => variant.weight > 0)
+    .sort((a, b) => a.id.localeCompare(b.id));
+  const totalWeight = candidates.reduce((sum, variant) => sum + variant.weight, 0);
+
+  if (totalWeight === 0) {
+    return null;
+  }
+
+  // Первые 32 бита SHA-256 дают равномерную точку в [0, totalWeight)
+  const hash = createHash('sha256').update(key).digest().readUInt32BE(0);
+  let point = (hash / 0x100000000) * totalWeight;
+
+  for (const variant of candidates) {
+    point -= variant.weight;
+    if (point < 0) {
+      return variant;
+    }
+  }
+
+  return candidates[candidates.length - 1];
+}
+
+/**
+ * Сервис A/B экспериментов над промптами
+ */
+export class ExperimentService {
+  private readonly prisma: PrismaClient;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  /**
+   * Возвращает вариант промпта клиента в активном эксперименте.
+   * Назначение "липкое": однажды выбранный вариант сохраняется в
+   * ExperimentAssignment и не меняется при изменении весов.
+   * Назначения хранятся отдельно для каждого эксперимента, поэтому
+   * эксперименты разных типов агентов не перезаписывают друг друга.
+   * Если активного эксперимента нет (на паузе, завершен), возвращает null,
+   * и агент использует конфигурацию по умолчанию.
+   * 
+   * @param options - Организация, тип агента и клиент
+   * @returns ID варианта промпта или null
+   */
+  async assignVariant(options: AssignVariantOptions): Promise<string | null> {
+    const { organizationId, agentType, clientId } = options;
+
+    const experiment = await this.prisma.experiment.findFirst({
+      where: {
+        organizationId,
+        agentType,
+        status: 'ACTIVE',
+      },
+      select: {
+        id: true,
+        variants: {
+          where: { isActive: true },
+          select: { id: true, weight: true },
+        },
+      },
+      orderBy: { startDate: 'desc' },
+    });
+
+    if (!experiment || experiment.variants.length === 0) {
+      return null;
+    }
+
+    const client = await this.prisma.client.findFirst({
+      where: { id: clientId, organizationId },
+      select: {
+        experimentAssignments: {
+          where: { experimentId: experiment.id },
+          select: { variantId: true },
+        },
+      },
+    });
+
+    if (!client) {
+      throw new Error(`Client not found: ${clientId} for organization ${organizationId}`);
+    }
+
+    // Клиент уже участвует в этом эксперименте (вариант не отключен)
+    const assignment = client.experimentAssignments[0];
+    if (assignment && experiment.variants.some((variant) => variant.id === assignment.variantId)) {
+      return assignment.variantId;
+    }
+
+    const variant = pickWeightedVariant(experiment.variants, `${experiment.id}:${clientId}`);
+
+    if (!variant) {
+      return null;
+    }
+
+    await this.prisma.experimentAssignment.upsert({
+      where: { experimentId_clientId: { experimentId: experiment.id, clientId } },
+      create: { organizationId, experimentId: experiment.id, clientId, variantId: variant.id },
+      update: { variantId: variant.id },
+    });
+
+    return variant.id;
+  }
+}
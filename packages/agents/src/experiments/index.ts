@@ -0,0 +1,7 @@
+/**
+ * Experiments
+ * 
+ * A/B тестирование промптов (распределение клиентов по вариантам)
+ */
+
+export * from './experiment-service';
@@ -6,8 +6,15 @@
  * Основные компоненты:
  * - LLM Providers (OpenRouter)
  * - Prompt Manager (загрузка и кеширование промптов из БД)
+ * - Experiments (A/B тестирование промптов)
+ * - Analysis (анализ выигранных и проигранных диалогов)
  * - Status Detector (LLM-based детекция статусов клиентов)
+ * - Usage (учет токенов и стоимости LLM вызовов)
+ * - Budget (месячные бюджеты LLM организаций)
  * - Cache (кеширование результатов LLM)
+ * - Structured (ответы LLM по схеме с валидацией)
+ * - Scheduling (учет запусков периодических задач)
+ * - Agents (черновики ответов клиентам)
  */
 
 // Типы
@@ -22,6 +29,27 @@ export * from './prompt-manager';
 // Detectors
 export * from './detectors';
 
-// Cache (будет реализовано)
-// export * from './cache';
+// Experiments
+export * from './experiments';
+
+// Analysis
+export * from './analysis';
+
+// Usage
+export * from './usage';
+
+// Budget
+export * from './budget';
+
+// Cache
+export * from './cache';
+
+// Structured
+export * from './structured';
+
+// Scheduling
+export * from './scheduling';
+
+// Agents
+export * from './agents';
 
@@ -7,6 +7,7 @@
 import { PrismaClient, AgentType } from '@soul-kg-crm/database';
 import type { LoadedPrompt, LoadPromptOptions } from '../types';
 import { PromptCache } from './prompt-cache';
+import { ExperimentService } from '../experiments';
 
 /**
  * Загрузчик промптов из базы данных
@@ -14,10 +15,12 @@ import { PromptCache } from './prompt-cache';
 export class PromptLoader {
   private readonly prisma: PrismaClient;
   private readonly cache: PromptCache;
+  private readonly experiments: ExperimentService;
 
-  constructor(prisma: PrismaClient, cache?: PromptCache) {
+  constructor(prisma: PrismaClient, cache?: PromptCache, experiments?: ExperimentService) {
     this.prisma = prisma;
     this.cache = cache || new PromptCache();
+    this.experiments = experiments || new ExperimentService(prisma);
   }
 
   /**
@@ -27,6 +30,19 @@ export class PromptLoader {
    * @returns Загруженный промпт
    */
   async loadPrompt(options: LoadPromptOptions): Promise<LoadedPrompt> {
+    // Клиент участвует в A/B эксперименте - берем назначенный ему вариант
+    if (options.clientId && !options.variantId && (options.name || 'default') === 'default') {
+      const variantId = await this.experiments.assignVariant({
+        organizationId: options.organizationId,
+        agentType: options.agentType,
+        clientId: options.clientId,
+      });
+
+      if (variantId) {
+        options = { ...options, variantId };
+      }
+    }
+
     const cacheKey = this.getCacheKey(options);
 
     // Проверяем кеш
@@ -71,13 +87,25 @@ export class PromptLoader {
         );
       }
 
+      // Вариант меняет только промпт - провайдеры, модель и параметры
+      // генерации берем из основной конфигурации
+      const baseConfig = await this.prisma.agentConfiguration.findFirst({
+        where: {
+          organizationId,
+          agentType,
+          name: 'default',
+        },
+        select: { settings: true },
+      });
+
       return {
         id: variant.id,
         organizationId: variant.organizationId,
         agentType: variant.agentType,
         name: variant.name,
         prompt: variant.prompt,
-        settings: {},
+        settings: (baseConfig?.settings as Record<string, unknown>) || {},
+        variantId: variant.id,
         updatedAt: variant.updatedAt,
       };
     }
@@ -105,6 +133,7 @@ export class PromptLoader {
       name: config.name,
       prompt: config.prompt,
       settings: (config.settings as Record<string, unknown>) || {},
+      version: String(config.currentVersion),
       updatedAt: config.updatedAt,
     };
   }
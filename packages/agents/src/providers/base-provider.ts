@@ -2,7 +2,8 @@
  * Базовый интерфейс для LLM провайдеров
  */
 
-import type { LLMRequest, LLMResponse, LLMProviderError } from '../types';
+import type { LLMRequest, LLMResponse, LLMStreamChunk, LLMProviderError } from '../types';
+import type { LLMBudgetGuard } from '../budget/llm-budget';
 
 /**
  * Базовый интерфейс для всех LLM провайдеров
@@ -17,6 +18,15 @@ export interface ILLMProvider {
    */
   complete(request: LLMRequest): Promise<LLMResponse>;
 
+  /**
+   * Выполняет запрос с потоковой выдачей текста
+   * 
+   * @param request - Параметры запроса
+   * @returns Фрагменты ответа; последний содержит итоговый LLMResponse
+   * @throws {LLMProviderError} При ошибке провайдера
+   */
+  stream(request: LLMRequest): AsyncIterable<LLMStreamChunk>;
+
   /**
    * Проверяет доступность провайдера
    * 
@@ -36,6 +46,7 @@ export abstract class BaseLLMProvider implements ILLMProvider {
   protected readonly timeout: number;
   protected readonly retryAttempts: number;
   protected readonly retryDelay: number;
+  protected readonly budget?: LLMBudgetGuard;
 
   constructor(options: {
     defaultModel: string;
@@ -44,6 +55,7 @@ export abstract class BaseLLMProvider implements ILLMProvider {
     timeout?: number;
     retryAttempts?: number;
     retryDelay?: number;
+    budget?: LLMBudgetGuard;
   }) {
     this.defaultModel = options.defaultModel;
     this.defaultTemperature = options.defaultTemperature ?? 0.7;
@@ -51,12 +63,18 @@ export abstract class BaseLLMProvider implements ILLMProvider {
     this.timeout = options.timeout ?? 30000; // 30 секунд
     this.retryAttempts = options.retryAttempts ?? 3;
     this.retryDelay = options.retryDelay ?? 1000; // 1 секунда
+    this.budget = options.budget;
   }
 
   /**
    * Выполняет запрос с retry логикой
+   * 
+   * @throws {LLMProviderError} BUDGET_EXCEEDED если исчерпан бюджет организации
    */
   async complete(request: LLMRequest): Promise<LLMResponse> {
+    // Бюджет проверяется до обращения к провайдеру
+    await this.budget?.check(request.organizationId);
+
     let lastError: Error | null = null;
 
     for (let attempt = 1; attempt <= this.retryAttempts; attempt++) {
@@ -81,11 +99,52 @@ export abstract class BaseLLMProvider implements ILLMProvider {
     throw lastError || new Error('Unknown error');
   }
 
+  /**
+   * Выполняет потоковый запрос. Повтор возможен только до первого
+   * фрагмента - иначе потребитель получил бы текст дважды.
+   * 
+   * @throws {LLMProviderError} BUDGET_EXCEEDED если исчерпан бюджет организации
+   */
+  async *stream(request: LLMRequest): AsyncGenerator<LLMStreamChunk> {
+    await this.budget?.check(request.organizationId);
+
+    for (let attempt = 1; ; attempt++) {
+      let started = false;
+
+      try {
+        for await (const chunk of this.executeStream(request)) {
+          started = true;
+          yield chunk;
+        }
+        return;
+      } catch (error) {
+        if (
+          started ||
+          (error instanceof Error && 'retryable' in error && !(error as LLMProviderError).retryable) ||
+          attempt >= this.retryAttempts
+        ) {
+          throw error;
+        }
+
+        await this.delay(this.retryDelay * attempt);
+      }
+    }
+  }
+
   /**
    * Выполняет запрос к LLM (должен быть реализован в подклассах)
    */
   protected abstract executeRequest(request: LLMRequest): Promise<LLMResponse>;
 
+  /**
+   * Выполняет потоковый запрос. По умолчанию отдает весь ответ одним
+   * фрагментом - подклассы с поддержкой streaming переопределяют метод.
+   */
+  protected async *executeStream(request: LLMRequest): AsyncGenerator<LLMStreamChunk> {
+    const response = await this.executeRequest(request);
+    yield { delta: response.content, response };
+  }
+
   /**
    * Проверяет доступность провайдера (должен быть реализован в подклассах)
    */
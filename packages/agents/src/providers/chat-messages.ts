@@ -0,0 +1,27 @@
+/**
+ * Chat Messages
+ *
+ * Приведение LLMRequest к списку сообщений с ролями
+ */
+
+import type { LLMMessage, LLMRequest } from '../types';
+import { LLMProviderError } from '../types';
+
+/**
+ * Возвращает сообщения запроса: messages, затем prompt как сообщение пользователя
+ *
+ * @throws {LLMProviderError} INVALID_REQUEST если нет ни prompt, ни messages
+ */
+export function toChatMessages(request: LLMRequest): LLMMessage[] {
+  const messages: LLMMessage[] = [...(request.messages ?? [])];
+
+  if (request.prompt !== undefined) {
+    messages.push({ role: 'user', content: request.prompt });
+  }
+
+  if (messages.length === 0) {
+    throw new LLMProviderError('LLM request must contain a prompt or messages', 'INVALID_REQUEST', 400, false);
+  }
+
+  return messages;
+}
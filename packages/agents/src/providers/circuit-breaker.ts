@@ -0,0 +1,97 @@
+/**
+ * Circuit Breaker
+ * 
+ * Временно отключает провайдер после серии сбоев
+ */
+
+/**
+ * Состояние цепи:
+ * - CLOSED - запросы идут как обычно
+ * - OPEN - провайдер отключен до истечения таймаута
+ * - HALF_OPEN - таймаут истек, пробный запрос решает, закрыть цепь или снова открыть
+ */
+export type CircuitState = 'CLOSED' | 'OPEN' | 'HALF_OPEN';
+
+/**
+ * Настройки circuit breaker
+ */
+export interface CircuitBreakerOptions {
+  failureThreshold?: number; // Сбоев подряд до отключения (по умолчанию 3)
+  resetTimeoutMs?: number; // Время отключения (по умолчанию 30 секунд)
+  now?: () => number; // Источник времени (для тестов)
+}
+
+/**
+ * Текущее состояние circuit breaker
+ */
+export interface CircuitBreakerStatus {
+  state: CircuitState;
+  consecutiveFailures: number;
+  retryAt: Date | null;
+}
+
+/**
+ * Circuit breaker для одного провайдера
+ */
+export class CircuitBreaker {
+  private readonly failureThreshold: number;
+  private readonly resetTimeoutMs: number;
+  private readonly now: () => number;
+  private state: CircuitState = 'CLOSED';
+  private consecutiveFailures = 0;
+  private openedAt = 0;
+
+  constructor(options: CircuitBreakerOptions = {}) {
+    this.failureThreshold = options.failureThreshold ?? 3;
+    this.resetTimeoutMs = options.resetTimeoutMs ?? 30000;
+    this.now = options.now ?? Date.now;
+  }
+
+  /**
+   * Возвращает состояние с учетом истекшего таймаута
+   */
+  getState(): CircuitState {
+    if (this.state === 'OPEN' && this.now() - this.openedAt >= this.resetTimeoutMs) {
+      this.state = 'HALF_OPEN';
+    }
+
+    return this.state;
+  }
+
+  /**
+   * Можно ли отправлять запрос провайдеру
+   */
+  canRequest(): boolean {
+    return this.getState() !== 'OPEN';
+  }
+
+  /**
+   * Успешный ответ закрывает цепь
+   */
+  recordSuccess(): void {
+    this.state = 'CLOSED';
+    this.consecutiveFailures = 0;
+  }
+
+  /**
+   * Сбой открывает цепь при достижении порога или при неудачном пробном запросе
+   */
+  recordFailure(): void {
+    this.consecutiveFailures++;
+
+    if (this.getState() === 'HALF_OPEN' || this.consecutiveFailures >= this.failureThreshold) {
+      this.state = 'OPEN';
+      this.openedAt = this.now();
+    }
+  }
+
+  getStatus(): CircuitBreakerStatus {
+    const state = this.getState();
+
+    return {
+      state,
+      consecutiveFailures: this.consecutiveFailures,
+      retryAt: state === 'OPEN' ? new Date(this.openedAt + this.resetTimeoutMs) : null,
+    };
+  }
+}
@@ -4,4 +4,11 @@
 
 export * from './base-provider';
 export * from './openrouter-provider';
-
+export * from './openai-compatible-provider';
+export * from './chat-messages';
+export * from './openai-chat';
+export * from './openai-error-mapper';
+export * from './response-format';
+export * from './circuit-breaker';
+export * from './provider-registry';
+export * from './registry-factory';
@@ -0,0 +1,93 @@
+/**
+ * OpenAI Chat
+ *
+ * Общие параметры запроса и чтение потока chat.completions для провайдеров
+ * с OpenAI-совместимым API (OpenRouter, self-hosted серверы)
+ */
+
+import type OpenAI from 'openai';
+import type { LLMRequest, LLMStreamChunk } from '../types';
+import { LLMProviderError } from '../types';
+import { toChatMessages } from './chat-messages';
+import { buildResponseFormat, type JsonResponseMode } from './response-format';
+
+/**
+ * Значения по умолчанию провайдера
+ */
+export interface ChatCompletionDefaults {
+  model: string;
+  temperature: number;
+  maxTokens: number;
+  jsonMode?: JsonResponseMode;
+}
+
+/**
+ * Строит параметры chat.completions.create (без stream)
+ */
+export function buildChatCompletionParams(
+  request: LLMRequest,
+  defaults: ChatCompletionDefaults
+): OpenAI.Chat.Completions.ChatCompletionCreateParamsNonStreaming {
+  return {
+    model: request.model || defaults.model,
+    messages: toChatMessages(request),
+    temperature: request.temperature ?? defaults.temperature,
+    max_tokens: request.maxTokens ?? defaults.maxTokens,
+    stop: request.stop?.length ? request.stop : undefined,
+    response_format: buildResponseFormat(request.responseFormat, defaults.jsonMode),
+  };
+}
+
+/**
+ * Преобразует поток chat.completions в фрагменты LLMStreamChunk.
+ * Последний фрагмент содержит полный текст, модель и usage
+ * (если сервер поддерживает stream_options.include_usage).
+ *
+ * @throws {LLMProviderError} EMPTY_RESPONSE если поток не содержит текста
+ */
+export async function* readChatCompletionStream(
+  stream: AsyncIterable<OpenAI.Chat.Completions.ChatCompletionChunk>,
+  model: string,
+  providerLabel: string
+): AsyncGenerator<LLMStreamChunk> {
+  let content = '';
+  let responseModel = model;
+  let finishReason: string | null | undefined;
+  let usage: OpenAI.CompletionUsage | undefined;
+
+  for await (const chunk of stream) {
+    responseModel = chunk.model || responseModel;
+    usage = chunk.usage ?? usage;
+
+    const choice = chunk.choices[0];
+    finishReason = choice?.finish_reason ?? finishReason;
+
+    const delta = choice?.delta?.content;
+    if (delta) {
+      content += delta;
+      yield { delta };
+    }
+  }
+
+  if (!content) {
+    throw new LLMProviderError(`Empty response from ${providerLabel}`, 'EMPTY_RESPONSE', 200, false);
+  }
+
+  yield {
+    delta: '',
+    response: {
+      content,
+      model: responseModel,
+      usage: usage
+        ? {
+            promptTokens: usage.prompt_tokens,
+            completionTokens: usage.completion_tokens,
+            totalTokens: usage.total_tokens,
+          }
+        : undefined,
+      metadata: {
+        finishReason,
+      },
+    },
+  };
+}
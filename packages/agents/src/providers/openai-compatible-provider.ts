@@ -0,0 +1,152 @@
+/**
+ * OpenAI-compatible LLM Provider
+ *
+ * Интеграция с self-hosted серверами с OpenAI-совместимым API
+ * (llama.cpp server, vLLM, Ollama) - разговоры не покидают инфраструктуру клиента
+ */
+
+import OpenAI from 'openai';
+import { BaseLLMProvider, type ILLMProvider } from './base-provider';
+import type { LLMRequest, LLMResponse, LLMStreamChunk } from '../types';
+import { LLMProviderError } from '../types';
+import { mapOpenAICompatibleError } from './openai-error-mapper';
+import { buildChatCompletionParams, readChatCompletionStream } from './openai-chat';
+import type { JsonResponseMode } from './response-format';
+import type { LLMBudgetGuard } from '../budget/llm-budget';
+
+/**
+ * Конфигурация OpenAI-совместимого провайдера
+ */
+export interface OpenAICompatibleProviderConfig {
+  baseURL: string; // Например http://localhost:8000/v1
+  defaultModel: string;
+  apiKey?: string; // Bearer токен, если сервер запущен с авторизацией
+  headers?: Record<string, string>; // Дополнительные заголовки (например, для прокси с другой схемой авторизации)
+  label?: string; // Название в сообщениях об ошибках
+  jsonMode?: JsonResponseMode; // Поддерживаемый сервером JSON режим (по умолчанию json_schema)
+  timeout?: number;
+  retryAttempts?: number;
+  retryDelay?: number;
+  budget?: LLMBudgetGuard; // Проверка бюджета организации перед вызовом
+}
+
+/**
+ * OpenAI-compatible LLM Provider
+ *
+ * Использует OpenAI SDK с заданным base URL. Ошибки преобразуются так же,
+ * как в OpenRouterProvider.
+ */
+export class OpenAICompatibleProvider extends BaseLLMProvider implements ILLMProvider {
+  private readonly client: OpenAI;
+  private readonly label: string;
+  private readonly jsonMode: JsonResponseMode;
+
+  constructor(config: OpenAICompatibleProviderConfig) {
+    super({
+      defaultModel: config.defaultModel,
+      timeout: config.timeout,
+      retryAttempts: config.retryAttempts,
+      retryDelay: config.retryDelay,
+      budget: config.budget,
+    });
+
+    if (!config.baseURL) {
+      throw new Error('Self-hosted LLM base URL is required');
+    }
+
+    if (!config.defaultModel) {
+      throw new Error('Self-hosted LLM model is required');
+    }
+
+    this.label = config.label || 'Self-hosted LLM';
+    this.jsonMode = config.jsonMode || 'json_schema';
+
+    this.client = new OpenAI({
+      // SDK требует ключ; серверы без авторизации игнорируют заголовок
+      apiKey: config.apiKey || 'not-needed',
+      baseURL: config.baseURL.replace(/\/+$/, ''),
+      defaultHeaders: config.headers,
+      timeout: this.timeout,
+      // Повторы выполняет BaseLLMProvider
+      maxRetries: 0,
+    });
+  }
+
+  /**
+   * Выполняет запрос к self-hosted серверу
+   */
+  protected async executeRequest(request: LLMRequest): Promise<LLMResponse> {
+    const model = request.model || this.defaultModel;
+
+    try {
+      const completion = await this.client.chat.completions.create(this.buildParams(request));
+
+      const message = completion.choices[0]?.message?.content;
+      if (!message) {
+        throw new LLMProviderError(
+          `Empty response from ${this.label}`,
+          'EMPTY_RESPONSE',
+          200,
+          false
+        );
+      }
+
+      return {
+        content: message,
+        model: completion.model || model,
+        usage: completion.usage
+          ? {
+              promptTokens: completion.usage.prompt_tokens,
+              completionTokens: completion.usage.completion_tokens,
+              totalTokens: completion.usage.total_tokens,
+            }
+          : undefined,
+        metadata: {
+          finishReason: completion.choices[0]?.finish_reason,
+        },
+      };
+    } catch (error: unknown) {
+      throw mapOpenAICompatibleError(error, this.label, model);
+    }
+  }
+
+  /**
+   * Выполняет потоковый запрос к self-hosted серверу
+   */
+  protected async *executeStream(request: LLMRequest): AsyncGenerator<LLMStreamChunk> {
+    const model = request.model || this.defaultModel;
+
+    try {
+      const stream = await this.client.chat.completions.create({
+        ...this.buildParams(request),
+        stream: true,
+        stream_options: { include_usage: true },
+      });
+
+      yield* readChatCompletionStream(stream, model, this.label);
+    } catch (error: unknown) {
+      throw mapOpenAICompatibleError(error, this.label, model);
+    }
+  }
+
+  private buildParams(request: LLMRequest) {
+    return buildChatCompletionParams(request, {
+      model: this.defaultModel,
+      temperature: this.defaultTemperature,
+      maxTokens: this.defaultMaxTokens,
+      jsonMode: this.jsonMode,
+    });
+  }
+
+  /**
+   * Проверяет доступность сервера (GET /models поддерживают llama.cpp, vLLM и Ollama)
+   */
+  async isAvailable(): Promise<boolean> {
+    try {
+      await this.client.models.list();
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
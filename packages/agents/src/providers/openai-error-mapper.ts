@@ -0,0 +1,118 @@
+/**
+ * OpenAI-compatible Error Mapper
+ *
+ * Общее преобразование ошибок OpenAI SDK в LLMProviderError для провайдеров
+ * с OpenAI-совместимым API (OpenRouter, self-hosted серверы)
+ */
+
+import { LLMProviderError } from '../types';
+
+const NETWORK_ERROR_CODES = ['ECONNREFUSED', 'ECONNRESET', 'ENOTFOUND', 'EAI_AGAIN'];
+
+/**
+ * Преобразует ошибку OpenAI SDK в LLMProviderError
+ *
+ * @param error - Пойманная ошибка
+ * @param providerLabel - Название провайдера для сообщений об ошибках
+ * @param model - Модель запроса (для логирования)
+ * @returns Ошибка, которую нужно выбросить
+ */
+export function mapOpenAICompatibleError(error: unknown, providerLabel: string, model: string): unknown {
+  // Уже преобразованная ошибка (например, пустой ответ)
+  if (error instanceof LLMProviderError || !(error instanceof Error)) {
+    return error;
+  }
+
+  // Проверяем детали ошибки от OpenAI SDK
+  const errorMessage = error.message || String(error);
+  const errorAny = error as any; // OpenAI SDK errors have additional properties
+  const errorCode = errorAny.status || errorAny.code;
+  const errorResponse = errorAny.response || errorAny.body;
+  // Классы ошибок SDK не задают name, поэтому смотрим на конструктор
+  const errorType = error.constructor?.name ?? error.name;
+
+  // Логируем детали ошибки для отладки
+  if (errorResponse) {
+    console.error(`${providerLabel} API error details:`, {
+      message: errorMessage,
+      code: errorCode,
+      response: typeof errorResponse === 'string' ? errorResponse : JSON.stringify(errorResponse),
+    });
+  }
+
+  // Rate limit ошибки - retryable
+  if (errorMessage.includes('rate limit') || errorMessage.includes('429') || errorCode === 429) {
+    return new LLMProviderError(
+      `Rate limit exceeded: ${errorMessage}`,
+      'RATE_LIMIT',
+      429,
+      true
+    );
+  }
+
+  // Timeout ошибки - retryable
+  if (
+    errorMessage.includes('timeout') ||
+    errorMessage.includes('ETIMEDOUT') ||
+    errorType === 'APIConnectionTimeoutError'
+  ) {
+    return new LLMProviderError(
+      `Request timeout: ${errorMessage}`,
+      'TIMEOUT',
+      408,
+      true
+    );
+  }
+
+  // Сбой на стороне провайдера или сети - retryable
+  if (
+    (typeof errorCode === 'number' && errorCode >= 500) ||
+    NETWORK_ERROR_CODES.includes(errorCode) ||
+    errorType === 'APIConnectionError'
+  ) {
+    return new LLMProviderError(
+      `${providerLabel} unavailable: ${errorMessage}`,
+      'PROVIDER_UNAVAILABLE',
+      typeof errorCode === 'number' ? errorCode : 503,
+      true
+    );
+  }
+
+  // API ошибки - не retryable
+  if (errorMessage.includes('401') || errorMessage.includes('403') || errorCode === 401 || errorCode === 403) {
+    return new LLMProviderError(
+      `Authentication error: ${errorMessage}`,
+      'AUTH_ERROR',
+      401,
+      false
+    );
+  }
+
+  // 400 ошибки - обычно проблема с запросом (модель, формат и т.д.)
+  if (errorMessage.includes('400') || errorCode === 400) {
+    // Детальное логирование для отладки
+    console.error(`❌ ${providerLabel} API 400 Error Details:`);
+    console.error('  Model:', model);
+    console.error('  Error message:', errorMessage);
+    console.error('  Error code:', errorCode);
+    if (errorResponse) {
+      console.error('  Response:', JSON.stringify(errorResponse, null, 2));
+    }
+
+    const details = errorResponse?.error?.message || errorResponse?.message || errorMessage;
+    return new LLMProviderError(
+      `${providerLabel} API error (400): ${details}. Check model name and request format.`,
+      'API_ERROR',
+      400,
+      false
+    );
+  }
+
+  // Другие ошибки
+  return new LLMProviderError(
+    `${providerLabel} API error: ${errorMessage}${errorCode ? ` (code: ${errorCode})` : ''}`,
+    'API_ERROR',
+    errorCode,
+    false
+  );
+}
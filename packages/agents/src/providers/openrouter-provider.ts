@@ -6,8 +6,11 @@
 
 import OpenAI from 'openai';
 import { BaseLLMProvider, type ILLMProvider } from './base-provider';
-import type { LLMRequest, LLMResponse } from '../types';
+import type { LLMRequest, LLMResponse, LLMStreamChunk } from '../types';
 import { LLMProviderError } from '../types';
+import { mapOpenAICompatibleError } from './openai-error-mapper';
+import { buildChatCompletionParams, readChatCompletionStream } from './openai-chat';
+import type { LLMBudgetGuard } from '../budget/llm-budget';
 
 /**
  * Конфигурация OpenRouter провайдера
@@ -19,6 +22,7 @@ export interface OpenRouterProviderConfig {
   timeout?: number;
   retryAttempts?: number;
   retryDelay?: number;
+  budget?: LLMBudgetGuard; // Проверка бюджета организации перед вызовом
 }
 
 /**
@@ -36,6 +40,7 @@ export class OpenRouterProvider extends BaseLLMProvider implements ILLMProvider
       timeout: config.timeout,
       retryAttempts: config.retryAttempts,
       retryDelay: config.retryDelay,
+      budget: config.budget,
     });
 
     if (!config.apiKey) {
@@ -55,25 +60,12 @@ export class OpenRouterProvider extends BaseLLMProvider implements ILLMProvider
    */
   protected async executeRequest(request: LLMRequest): Promise<LLMResponse> {
     try {
-      const model = request.model || this.defaultModel;
-      const temperature = request.temperature ?? this.defaultTemperature;
-      const maxTokens = request.maxTokens ?? this.defaultMaxTokens;
+      const params = this.buildParams(request);
 
       // Логируем запрос для отладки
-      console.log(`🔍 LLM Request: model=${model}, temperature=${temperature}, maxTokens=${maxTokens}`);
-      console.log(`📝 Prompt length: ${request.prompt.length} chars`);
-
-      const completion = await this.client.chat.completions.create({
-        model,
-        messages: [
-          {
-            role: 'user',
-            content: request.prompt,
-          },
-        ],
-        temperature,
-        max_tokens: maxTokens,
-      });
+      this.logRequest(params);
+
+      const completion = await this.client.chat.completions.create(params);
 
       const message = completion.choices[0]?.message?.content;
       if (!message) {
@@ -101,85 +93,49 @@ export class OpenRouterProvider extends BaseLLMProvider implements ILLMProvider
       };
     } catch (error: unknown) {
       // Обработка ошибок OpenAI SDK
-      if (error instanceof Error) {
-        // Проверяем детали ошибки от OpenAI SDK
-        const errorMessage = error.message || String(error);
-        const errorAny = error as any; // OpenAI SDK errors have additional properties
-        const errorCode = errorAny.status || errorAny.code;
-        const errorResponse = errorAny.response || errorAny.body;
-
-        // Логируем детали ошибки для отладки
-        if (errorResponse) {
-          console.error('OpenRouter API error details:', {
-            message: errorMessage,
-            code: errorCode,
-            response: typeof errorResponse === 'string' ? errorResponse : JSON.stringify(errorResponse),
-          });
-        }
-
-        // Rate limit ошибки - retryable
-        if (errorMessage.includes('rate limit') || errorMessage.includes('429') || errorCode === 429) {
-          throw new LLMProviderError(
-            `Rate limit exceeded: ${errorMessage}`,
-            'RATE_LIMIT',
-            429,
-            true
-          );
-        }
-
-        // Timeout ошибки - retryable
-        if (errorMessage.includes('timeout') || errorMessage.includes('ETIMEDOUT')) {
-          throw new LLMProviderError(
-            `Request timeout: ${errorMessage}`,
-            'TIMEOUT',
-            408,
-            true
-          );
-        }
-
-        // API ошибки - не retryable
-        if (errorMessage.includes('401') || errorMessage.includes('403') || errorCode === 401 || errorCode === 403) {
-          throw new LLMProviderError(
-            `Authentication error: ${errorMessage}`,
-            'AUTH_ERROR',
-            401,
-            false
-          );
-        }
-
-        // 400 ошибки - обычно проблема с запросом (модель, формат и т.д.)
-        if (errorMessage.includes('400') || errorCode === 400) {
-          // Детальное логирование для отладки
-          console.error('❌ OpenRouter API 400 Error Details:');
-          console.error('  Model:', request.model || this.defaultModel);
-          console.error('  Error message:', errorMessage);
-          console.error('  Error code:', errorCode);
-          if (errorResponse) {
-            console.error('  Response:', JSON.stringify(errorResponse, null, 2));
-          }
-          
-          const details = errorResponse?.error?.message || errorResponse?.message || errorMessage;
-          throw new LLMProviderError(
-            `OpenRouter API error (400): ${details}. Check model name and request format.`,
-            'API_ERROR',
-            400,
-            false
-          );
-        }
-
-        // Другие ошибки
-        throw new LLMProviderError(
-          `OpenRouter API error: ${errorMessage}${errorCode ? ` (code: ${errorCode})` : ''}`,
-          'API_ERROR',
-          errorCode,
-          false
-        );
-      }
+      throw mapOpenAICompatibleError(error, 'OpenRouter', request.model || this.defaultModel);
+    }
+  }
+
+  /**
+   * Выполняет потоковый запрос к OpenRouter API
+   */
+  protected async *executeStream(request: LLMRequest): AsyncGenerator<LLMStreamChunk> {
+    const params = this.buildParams(request);
 
-      throw error;
+    try {
+      this.logRequest(params);
+
+      const stream = await this.client.chat.completions.create({
+        ...params,
+        stream: true,
+        stream_options: { include_usage: true },
+      });
+
+      yield* readChatCompletionStream(stream, params.model, 'OpenRouter');
+    } catch (error: unknown) {
+      throw mapOpenAICompatibleError(error, 'OpenRouter', params.model);
     }
   }
 
+  private buildParams(request: LLMRequest) {
+    return buildChatCompletionParams(request, {
+      model: this.defaultModel,
+      temperature: this.defaultTemperature,
+      maxTokens: this.defaultMaxTokens,
+    });
+  }
+
+  private logRequest(params: OpenAI.Chat.Completions.ChatCompletionCreateParamsNonStreaming): void {
+    const promptLength = params.messages.reduce(
+      (sum, message) => sum + (typeof message.content === 'string' ? message.content.length : 0),
+      0
+    );
+
+    console.log(`🔍 LLM Request: model=${params.model}, temperature=${params.temperature}, maxTokens=${params.max_tokens}`);
+    console.log(`📝 Prompt length: ${promptLength} chars (${params.messages.length} messages)`);
+  }
+
   /**
    * Проверяет доступность OpenRouter API
    */
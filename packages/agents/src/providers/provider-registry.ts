@@ -0,0 +1,288 @@
+/**
+ * LLM Provider Registry
+ * 
+ * Реестр LLM провайдеров с цепочкой fallback и circuit breaker на каждый провайдер
+ */
+
+import { AgentType } from '@soul-kg-crm/database';
+import type { ILLMProvider } from './base-provider';
+import type { LLMRequest, LLMResponse, LLMStreamChunk } from '../types';
+import { LLMProviderError } from '../types';
+import { CircuitBreaker, type CircuitBreakerOptions, type CircuitState } from './circuit-breaker';
+
+/**
+ * Область действия цепочки провайдеров
+ */
+export interface ProviderChainScope {
+  organizationId?: string;
+  agentType?: AgentType;
+}
+
+/**
+ * Состояние провайдера в реестре
+ */
+export interface ProviderHealth {
+  name: string;
+  state: CircuitState;
+  consecutiveFailures: number;
+  retryAt: Date | null;
+}
+
+/**
+ * Настройки реестра
+ */
+export interface LLMProviderRegistryOptions {
+  circuitBreaker?: CircuitBreakerOptions;
+}
+
+interface RegisteredProvider {
+  provider: ILLMProvider;
+  breaker: CircuitBreaker;
+}
+
+/**
+ * Реестр LLM провайдеров
+ * 
+ * Сам является ILLMProvider: запрос уходит первому доступному провайдеру
+ * цепочки. Retryable ошибки (LLMProviderError.retryable) засчитываются
+ * в circuit breaker провайдера и передают запрос следующему. Остальные
+ * ошибки (неверный запрос, модель) пробрасываются сразу - другой
+ * провайдер их не исправит.
+ */
+export class LLMProviderRegistry implements ILLMProvider {
+  private readonly providers = new Map<string, RegisteredProvider>();
+  private readonly chains = new Map<string, string[]>();
+  private readonly options: LLMProviderRegistryOptions;
+
+  constructor(options: LLMProviderRegistryOptions = {}) {
+    this.options = options;
+  }
+
+  /**
+   * Регистрирует провайдер. По умолчанию цепочка идет в порядке регистрации.
+   */
+  register(name: string, provider: ILLMProvider): this {
+    if (this.providers.has(name)) {
+      throw new Error(`LLM provider already registered: ${name}`);
+    }
+
+    this.providers.set(name, {
+      provider,
+      breaker: new CircuitBreaker(this.options.circuitBreaker),
+    });
+
+    return this;
+  }
+
+  /**
+   * Задает цепочку провайдеров для организации и/или типа агента.
+   * Без scope задает цепочку по умолчанию.
+   */
+  setChain(chain: string[], scope: ProviderChainScope = {}): this {
+    const unknown = chain.filter((name) => !this.providers.has(name));
+    if (unknown.length > 0) {
+      throw new Error(`Unknown LLM providers: ${unknown.join(', ')}`);
+    }
+
+    this.chains.set(this.getChainKey(scope), [...chain]);
+    return this;
+  }
+
+  /**
+   * Возвращает цепочку для scope: организация + агент, организация,
+   * агент, цепочка по умолчанию, порядок регистрации
+   */
+  resolveChain(scope: ProviderChainScope = {}): string[] {
+    const { organizationId, agentType } = scope;
+    const candidates: ProviderChainScope[] = [
+      { organizationId, agentType },
+      { organizationId },
+      { agentType },
+      {},
+    ];
+
+    for (const candidate of candidates) {
+      const chain = this.chains.get(this.getChainKey(candidate));
+      if (chain) {
+        return chain;
+      }
+    }
+
+    return [...this.providers.keys()];
+  }
+
+  /**
+   * Выполняет запрос через цепочку провайдеров
+   * 
+   * @throws {LLMProviderError} ALL_PROVIDERS_UNAVAILABLE если ни один провайдер не ответил
+   */
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    const chain = this.getRequestChain(request);
+    const failed: string[] = [];
+    const errors: string[] = [];
+
+    for (const name of chain) {
+      const registered = this.providers.get(name);
+
+      if (!registered) {
+        errors.push(`${name}: not registered`);
+        continue;
+      }
+
+      const { provider, breaker } = registered;
+
+      if (!breaker.canRequest()) {
+        errors.push(`${name}: circuit open`);
+        continue;
+      }
+
+      try {
+        const response = await provider.complete(this.forProvider(request, name, chain));
+        breaker.recordSuccess();
+
+        if (failed.length > 0) {
+          console.warn(`⚠️  LLM request served by fallback provider ${name} (failed: ${failed.join(', ')})`);
+        }
+
+        return this.withProvider(response, name, failed);
+      } catch (error) {
+        if (!(error instanceof LLMProviderError) || !error.retryable) {
+          throw error;
+        }
+
+        breaker.recordFailure();
+        failed.push(name);
+        errors.push(`${name}: ${error.message}`);
+      }
+    }
+
+    throw this.allUnavailable(errors);
+  }
+
+  /**
+   * Выполняет потоковый запрос через цепочку провайдеров. На следующий
+   * провайдер запрос переходит только до первого фрагмента ответа.
+   * 
+   * @throws {LLMProviderError} ALL_PROVIDERS_UNAVAILABLE если ни один провайдер не ответил
+   */
+  async *stream(request: LLMRequest): AsyncGenerator<LLMStreamChunk> {
+    const chain = this.getRequestChain(request);
+    const failed: string[] = [];
+    const errors: string[] = [];
+
+    for (const name of chain) {
+      const registered = this.providers.get(name);
+
+      if (!registered) {
+        errors.push(`${name}: not registered`);
+        continue;
+      }
+
+      const { provider, breaker } = registered;
+
+      if (!breaker.canRequest()) {
+        errors.push(`${name}: circuit open`);
+        continue;
+      }
+
+      let started = false;
+
+      try {
+        for await (const chunk of provider.stream(this.forProvider(request, name, chain))) {
+          if (!started) {
+            started = true;
+            breaker.recordSuccess();
+
+            if (failed.length > 0) {
+              console.warn(`⚠️  LLM stream served by fallback provider ${name} (failed: ${failed.join(', ')})`);
+            }
+          }
+
+          yield chunk.response ? { ...chunk, response: this.withProvider(chunk.response, name, failed) } : chunk;
+        }
+        return;
+      } catch (error) {
+        if (started || !(error instanceof LLMProviderError) || !error.retryable) {
+          throw error;
+        }
+
+        breaker.recordFailure();
+        failed.push(name);
+        errors.push(`${name}: ${error.message}`);
+      }
+    }
+
+    throw this.allUnavailable(errors);
+  }
+
+  /**
+   * Доступен ли хотя бы один провайдер цепочки (с закрытой цепью)
+   */
+  async isAvailable(scope: ProviderChainScope = {}): Promise<boolean> {
+    for (const name of this.resolveChain(scope)) {
+      const { provider, breaker } = this.providers.get(name)!;
+
+      if (breaker.canRequest() && (await provider.isAvailable())) {
+        return true;
+      }
+    }
+
+    return false;
+  }
+
+  /**
+   * Состояние circuit breaker всех провайдеров
+   */
+  getHealth(): ProviderHealth[] {
+    return [...this.providers.entries()].map(([name, { breaker }]) => ({
+      name,
+      ...breaker.getStatus(),
+    }));
+  }
+
+  /**
+   * Цепочка из настроек агента. Незарегистрированные провайдеры пропускаются,
+   * но на цепочку по умолчанию запрос не переходит: организация могла
+   * запретить облачные провайдеры
+   */
+  private getRequestChain(request: LLMRequest): string[] {
+    return request.providers?.length
+      ? request.providers
+      : this.resolveChain({ organizationId: request.organizationId, agentType: request.agentType });
+  }
+
+  /**
+   * Запрос для провайдера цепочки. Модель из models[name]; общая model
+   * уходит только первому провайдеру - у резервного свои имена моделей,
+   * без своей модели он отвечает моделью по умолчанию
+   */
+  private forProvider(request: LLMRequest, name: string, chain: string[]): LLMRequest {
+    const { models, ...rest } = request;
+    const model = models?.[name] ?? (name === chain[0] ? request.model : undefined);
+    return { ...rest, model };
+  }
+
+  private withProvider(response: LLMResponse, name: string, failed: string[]): LLMResponse {
+    return {
+      ...response,
+      metadata: {
+        ...response.metadata,
+        provider: name,
+        ...(failed.length > 0 ? { fallbackFrom: [...failed] } : {}),
+      },
+    };
+  }
+
+  private allUnavailable(errors: string[]): LLMProviderError {
+    return new LLMProviderError(
+      `All LLM providers unavailable: ${errors.join('; ') || 'no providers configured'}`,
+      'ALL_PROVIDERS_UNAVAILABLE',
+      503,
+      true
+    );
+  }
+
+  private getChainKey(scope: ProviderChainScope): string {
+    return `${scope.organizationId ?? '*'}:${scope.agentType ?? '*'}`;
+  }
+}
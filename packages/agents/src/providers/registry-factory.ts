@@ -0,0 +1,61 @@
+/**
+ * Registry Factory
+ * 
+ * Собирает реестр LLM провайдеров из переменных окружения. Имена провайдеров -
+ * те, что организации указывают в `settings.providers` конфигураций агентов
+ */
+
+import type { LLMBudgetGuard } from '../budget/llm-budget';
+import type { JsonResponseMode } from './response-format';
+import { LLMProviderRegistry } from './provider-registry';
+import { OpenRouterProvider } from './openrouter-provider';
+import { OpenAICompatibleProvider } from './openai-compatible-provider';
+
+export const OPENROUTER_PROVIDER = 'openrouter';
+export const SELF_HOSTED_PROVIDER = 'self-hosted';
+
+const JSON_RESPONSE_MODES: JsonResponseMode[] = ['json_schema', 'json_object', 'none'];
+
+/**
+ * Создает реестр провайдеров
+ * 
+ * - `openrouter` при заданном OPENROUTER_API_KEY
+ * - `self-hosted` при заданных SELF_HOSTED_LLM_BASE_URL и SELF_HOSTED_LLM_MODEL
+ *   (SELF_HOSTED_LLM_API_KEY необязателен; SELF_HOSTED_LLM_JSON_MODE - JSON режим
+ *   сервера, неизвестные значения означают json_schema)
+ * 
+ * Цепочка по умолчанию идет в этом порядке. Организации, которым нельзя
+ * использовать облако, задают `providers: ["self-hosted"]` в настройках агента.
+ * С budget каждый провайдер проверяет месячный бюджет организации перед вызовом.
+ * 
+ * @returns Реестр или null, если ни один провайдер не настроен
+ */
+export function createLLMProviderRegistry(
+  env: NodeJS.ProcessEnv = process.env,
+  budget?: LLMBudgetGuard
+): LLMProviderRegistry | null {
+  const registry = new LLMProviderRegistry();
+  let configured = false;
+
+  if (env.OPENROUTER_API_KEY) {
+    registry.register(OPENROUTER_PROVIDER, new OpenRouterProvider({ apiKey: env.OPENROUTER_API_KEY, budget }));
+    configured = true;
+  }
+
+  if (env.SELF_HOSTED_LLM_BASE_URL && env.SELF_HOSTED_LLM_MODEL) {
+    registry.register(
+      SELF_HOSTED_PROVIDER,
+      new OpenAICompatibleProvider({
+        baseURL: env.SELF_HOSTED_LLM_BASE_URL,
+        defaultModel: env.SELF_HOSTED_LLM_MODEL,
+        apiKey: env.SELF_HOSTED_LLM_API_KEY || undefined,
+        timeout: env.SELF_HOSTED_LLM_TIMEOUT_MS ? Number(env.SELF_HOSTED_LLM_TIMEOUT_MS) : undefined,
+        jsonMode: JSON_RESPONSE_MODES.find((mode) => mode === env.SELF_HOSTED_LLM_JSON_MODE),
+        budget,
+      })
+    );
+    configured = true;
+  }
+
+  return configured ? registry : null;
+}
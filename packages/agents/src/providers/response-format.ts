@@ -0,0 +1,44 @@
+/**
+ * Response Format
+ *
+ * Преобразование LLMResponseFormat в параметр response_format
+ * OpenAI-совместимого API
+ */
+
+import type OpenAI from 'openai';
+import type { LLMResponseFormat } from '../types';
+
+/**
+ * Какой JSON режим поддерживает сервер:
+ * - json_schema - ответ по схеме (OpenRouter, vLLM, llama.cpp server, новые версии Ollama)
+ * - json_object - только валидный JSON без схемы (старые серверы)
+ * - none - параметр не передается, формат задается только промптом
+ */
+export type JsonResponseMode = 'json_schema' | 'json_object' | 'none';
+
+/**
+ * Строит response_format для chat.completions.create
+ *
+ * @returns Параметр запроса или undefined, если формат не запрошен или режим none
+ */
+export function buildResponseFormat(
+  format: LLMResponseFormat | undefined,
+  mode: JsonResponseMode = 'json_schema'
+): OpenAI.Chat.Completions.ChatCompletionCreateParams['response_format'] {
+  if (!format || mode === 'none') {
+    return undefined;
+  }
+
+  if (mode === 'json_object') {
+    return { type: 'json_object' };
+  }
+
+  return {
+    type: 'json_schema',
+    json_schema: {
+      name: format.name,
+      schema: format.schema,
+      strict: format.strict ?? false,
+    },
+  };
+}
@@ -0,0 +1,7 @@
+/**
+ * Scheduling
+ * 
+ * Общие части планировщиков периодических задач
+ */
+
+export * from './job-runs';
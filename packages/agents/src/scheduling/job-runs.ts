@@ -0,0 +1,40 @@
+/**
+ * Job Runs
+ * 
+ * Учет запусков периодических задач по организациям в scheduled_job_runs
+ */
+
+import { PrismaClient } from '@soul-kg-crm/database';
+
+/**
+ * Занимает запуск задачи для организации, если он должен состояться:
+ * задача еще не запускалась или с прошлого запуска прошел интервал.
+ * Обновление с условием атомарно, поэтому из нескольких экземпляров API
+ * запуск получает только один. Запуск засчитывается при захвате - после
+ * ошибки следующая попытка будет через интервал.
+ * 
+ * @returns true, если запуск занят этим вызовом
+ */
+export async function claimJobRun(
+  prisma: PrismaClient,
+  job: string,
+  organizationId: string,
+  intervalMs: number,
+  now: Date = new Date()
+): Promise<boolean> {
+  const { count: created } = await prisma.scheduledJobRun.createMany({
+    data: [{ organizationId, job, lastRunAt: now }],
+    skipDuplicates: true,
+  });
+
+  if (created > 0) {
+    return true;
+  }
+
+  const { count: updated } = await prisma.scheduledJobRun.updateMany({
+    where: { organizationId, job, lastRunAt: { lte: new Date(now.getTime() - intervalMs) } },
+    data: { lastRunAt: now },
+  });
+
+  return updated > 0;
+}
@@ -0,0 +1,8 @@
+/**
+ * Structured
+ * 
+ * Типизированные ответы LLM по zod схемам
+ */
+
+export * from './json-schema';
+export * from './structured-output';
@@ -0,0 +1,102 @@
+/**
+ * JSON Schema
+ *
+ * Преобразование zod схем ответов агентов в JSON Schema для JSON режима провайдеров
+ */
+
+import { z, ZodFirstPartyTypeKind, type ZodTypeAny } from 'zod';
+
+type JsonSchema = Record<string, unknown>;
+
+/**
+ * Преобразует zod схему в JSON Schema
+ *
+ * Поддерживается подмножество zod, которым описываются ответы агентов:
+ * object, string, number, boolean, array, enum, nativeEnum, literal, union,
+ * record, optional, nullable, default, catch и effects (refine/transform).
+ * Описания из .describe() попадают в description.
+ *
+ * @throws Error для неподдерживаемых типов
+ */
+export function zodToJsonSchema(schema: ZodTypeAny): JsonSchema {
+  const result = convert(schema);
+  return schema.description ? { ...result, description: schema.description } : result;
+}
+
+function convert(schema: ZodTypeAny): JsonSchema {
+  const def = schema._def;
+
+  switch (def.typeName as ZodFirstPartyTypeKind) {
+    case ZodFirstPartyTypeKind.ZodObject: {
+      const shape = (schema as z.AnyZodObject).shape as Record<string, ZodTypeAny>;
+      const required = Object.entries(shape)
+        .filter(([, value]) => !value.isOptional())
+        .map(([key]) => key);
+
+      return {
+        type: 'object',
+        properties: Object.fromEntries(
+          Object.entries(shape).map(([key, value]) => [key, zodToJsonSchema(value)])
+        ),
+        ...(required.length > 0 ? { required } : {}),
+        additionalProperties: false,
+      };
+    }
+
+    case ZodFirstPartyTypeKind.ZodString:
+      return { type: 'string' };
+
+    case ZodFirstPartyTypeKind.ZodNumber: {
+      const result: JsonSchema = { type: 'number' };
+      for (const check of (schema as z.ZodNumber)._def.checks) {
+        if (check.kind === 'int') result.type = 'integer';
+        if (check.kind === 'min') result[check.inclusive ? 'minimum' : 'exclusiveMinimum'] = check.value;
+        if (check.kind === 'max') result[check.inclusive ? 'maximum' : 'exclusiveMaximum'] = check.value;
+      }
+      return result;
+    }
+
+    case ZodFirstPartyTypeKind.ZodBoolean:
+      return { type: 'boolean' };
+
+    case ZodFirstPartyTypeKind.ZodArray:
+      return { type: 'array', items: zodToJsonSchema((schema as z.ZodArray<ZodTypeAny>).element) };
+
+    case ZodFirstPartyTypeKind.ZodEnum:
+      return { type: 'string', enum: [...(schema as z.ZodEnum<[string, ...string[]]>).options] };
+
+    case ZodFirstPartyTypeKind.ZodNativeEnum: {
+      // Значения числовых TS enum дублируются обратным отображением - берем только значения
+      const object = def.values as Record<string, string | number>;
+      const values = Object.keys(object)
+        .filter((key) => typeof object[object[key]] !== 'number')
+        .map((key) => object[key]);
+      return { type: values.every((value) => typeof value === 'string') ? 'string' : 'number', enum: values };
+    }
+
+    case ZodFirstPartyTypeKind.ZodLiteral:
+      return { const: def.value };
+
+    case ZodFirstPartyTypeKind.ZodUnion:
+      return { anyOf: (def.options as ZodTypeAny[]).map((option) => zodToJsonSchema(option)) };
+
+    case ZodFirstPartyTypeKind.ZodRecord:
+      return { type: 'object', additionalProperties: zodToJsonSchema(def.valueType) };
+
+    case ZodFirstPartyTypeKind.ZodNullable:
+      return { anyOf: [zodToJsonSchema(def.innerType), { type: 'null' }] };
+
+    case ZodFirstPartyTypeKind.ZodOptional:
+    case ZodFirstPartyTypeKind.ZodCatch:
+      return zodToJsonSchema(def.innerType);
+
+    case ZodFirstPartyTypeKind.ZodDefault:
+      return { ...zodToJsonSchema(def.innerType), default: def.defaultValue() };
+
+    case ZodFirstPartyTypeKind.ZodEffects:
+      return zodToJsonSchema(def.schema);
+
+    default:
+      throw new Error(`Unsupported zod type for JSON Schema: ${def.typeName}`);
+  }
+}
@@ -0,0 +1,174 @@
+/**
+ * Structured Output
+ *
+ * Запрос к LLM с ответом по схеме: JSON режим провайдера, валидация
+ * ответа zod схемой и повторный запрос с ошибками валидации
+ */
+
+import type { ZodType, ZodTypeDef } from 'zod';
+import { toChatMessages, type ILLMProvider } from '../providers';
+import type { LLMMessage, LLMRequest, LLMResponse } from '../types';
+import { LLMProviderError } from '../types';
+import { zodToJsonSchema } from './json-schema';
+
+const DEFAULT_MAX_REPAIR_ATTEMPTS = 1;
+const MAX_ECHOED_RESPONSE_LENGTH = 2000;
+
+/**
+ * Ответ LLM не удалось привести к схеме
+ */
+export class StructuredOutputError extends LLMProviderError {
+  public readonly content: string; // Последний ответ LLM
+  public readonly issues: string[];
+
+  constructor(message: string, content: string, issues: string[]) {
+    super(message, 'INVALID_STRUCTURED_OUTPUT', 200, false);
+    this.name = 'StructuredOutputError';
+    this.content = content;
+    this.issues = issues;
+  }
+}
+
+/**
+ * Параметры structured запроса
+ */
+export interface StructuredOutputOptions {
+  name: string; // Имя схемы для response_format
+  strict?: boolean;
+  maxRepairAttempts?: number; // Повторных запросов при невалидном ответе (по умолчанию 1)
+}
+
+/**
+ * Результат structured запроса
+ */
+export interface StructuredLLMResponse<T> {
+  data: T;
+  response: LLMResponse; // Ответ, прошедший валидацию
+  repairAttempts: number;
+}
+
+/**
+ * Результат разбора ответа
+ */
+export type StructuredParseResult<T> =
+  | { success: true; data: T }
+  | { success: false; issues: string[] };
+
+/**
+ * Достает JSON из ответа LLM: модели без JSON режима оборачивают его
+ * в markdown блок или добавляют текст до и после
+ *
+ * @throws SyntaxError, если JSON не найден или не разбирается
+ */
+export function extractJson(content: string): unknown {
+  const fenced = content.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  const text = (fenced ? fenced[1] : content).trim();
+
+  try {
+    return JSON.parse(text);
+  } catch {
+    const start = text.search(/[{[]/);
+    const end = Math.max(text.lastIndexOf('}'), text.lastIndexOf(']'));
+    if (start === -1 || end <= start) {
+      throw new SyntaxError('No JSON found in LLM response');
+    }
+    return JSON.parse(text.slice(start, end + 1));
+  }
+}
+
+/**
+ * Разбирает и валидирует ответ LLM по схеме
+ */
+export function parseStructuredOutput<T>(
+  content: string,
+  schema: ZodType<T, ZodTypeDef, unknown>
+): StructuredParseResult<T> {
+  let json: unknown;
+  try {
+    json = extractJson(content);
+  } catch (error) {
+    return { success: false, issues: [`Invalid JSON: ${error instanceof Error ? error.message : String(error)}`] };
+  }
+
+  const parsed = schema.safeParse(json);
+  if (parsed.success) {
+    return { success: true, data: parsed.data };
+  }
+
+  return {
+    success: false,
+    issues: parsed.error.issues.map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`),
+  };
+}
+
+/**
+ * Выполняет запрос с ответом по zod схеме
+ *
+ * Схема передается провайдеру как response_format. Если ответ не разбирается
+ * или не проходит валидацию, диалог продолжается: LLM получает свой ответ
+ * и список ошибок и отвечает повторно.
+ *
+ * @throws StructuredOutputError, если ответ невалиден после всех повторов
+ */
+export async function completeStructured<T>(
+  provider: ILLMProvider,
+  request: LLMRequest,
+  schema: ZodType<T, ZodTypeDef, unknown>,
+  options: StructuredOutputOptions
+): Promise<StructuredLLMResponse<T>> {
+  const maxRepairAttempts = options.maxRepairAttempts ?? DEFAULT_MAX_REPAIR_ATTEMPTS;
+  const structuredRequest: LLMRequest = {
+    ...request,
+    responseFormat: {
+      name: options.name,
+      schema: zodToJsonSchema(schema),
+      strict: options.strict,
+    },
+  };
+
+  const messages = toChatMessages(request);
+  let repairMessages: LLMMessage[] = [];
+
+  for (let attempt = 0; ; attempt++) {
+    const response = await provider.complete(
+      repairMessages.length > 0
+        ? { ...structuredRequest, prompt: undefined, messages: [...messages, ...repairMessages] }
+        : structuredRequest
+    );
+    const parsed = parseStructuredOutput(response.content, schema);
+
+    if (parsed.success) {
+      return { data: parsed.data, response, repairAttempts: attempt };
+    }
+
+    if (attempt >= maxRepairAttempts) {
+      throw new StructuredOutputError(
+        `LLM response does not match schema "${options.name}": ${parsed.issues.join('; ')}`,
+        response.content,
+        parsed.issues
+      );
+    }
+
+    console.warn(`⚠️  Invalid structured output for "${options.name}", repairing: ${parsed.issues.join('; ')}`);
+    repairMessages = buildRepairMessages(response.content, parsed.issues);
+  }
+}
+
+/**
+ * Сообщения повторного запроса: невалидный ответ и ошибки валидации
+ */
+function buildRepairMessages(content: string, issues: string[]): LLMMessage[] {
+  const previous =
+    content.length > MAX_ECHOED_RESPONSE_LENGTH ? `${content.substring(0, MAX_ECHOED_RESPONSE_LENGTH)}... [truncated]` : content;
+
+  return [
+    { role: 'assistant', content: previous },
+    {
+      role: 'user',
+      content: `Your response is invalid:
+${issues.map((issue) => `- ${issue}`).join('\n')}
+
+Respond again with ONLY a JSON object that fixes these errors.`,
+    },
+  ];
+}
@@ -27,18 +27,51 @@ export interface AgentSettings {
   timeout?: number;
   retryAttempts?: number;
   retryDelay?: number;
+  providers?: string[]; // Цепочка LLM провайдеров по порядку (имена из реестра)
   [key: string]: unknown;
 }
 
+/**
+ * Требуемый формат ответа LLM (JSON Schema)
+ */
+export interface LLMResponseFormat {
+  name: string; // Имя схемы (латиница, цифры, _ и -)
+  schema: Record<string, unknown>; // JSON Schema ответа
+  strict?: boolean; // Строгое соблюдение схемы (требует все поля обязательными)
+}
+
+/**
+ * Роль сообщения в диалоге с LLM
+ */
+export type LLMMessageRole = 'system' | 'user' | 'assistant';
+
+/**
+ * Сообщение диалога с LLM
+ */
+export interface LLMMessage {
+  role: LLMMessageRole;
+  content: string;
+}
+
 /**
  * Параметры запроса к LLM
+ *
+ * Нужен prompt или messages. При обоих prompt добавляется
+ * последним сообщением пользователя после messages.
  */
 export interface LLMRequest {
-  prompt: string;
+  prompt?: string; // Сообщение пользователя
+  messages?: LLMMessage[]; // Диалог с ролями (инструкции в system, текст клиента в user)
   model?: string;
   temperature?: number;
   maxTokens?: number;
+  stop?: string[]; // Стоп-последовательности
   organizationId: string;
+  agentType?: AgentType; // Для выбора цепочки провайдеров в реестре
+  providers?: string[]; // Явная цепочка провайдеров (из настроек агента)
+  models?: Record<string, string>; // Модель для каждого провайдера цепочки (из настроек агента)
+  bypassCache?: boolean; // Не читать ответ из кеша (новый ответ все равно сохраняется)
+  responseFormat?: LLMResponseFormat; // JSON режим провайдера (если поддерживается)
 }
 
 /**
@@ -52,7 +85,15 @@ export interface LLMResponse {
     completionTokens: number;
     totalTokens: number;
   };
-  metadata?: Record<string, unknown>;
+  metadata?: Record<string, unknown>; // provider - какой провайдер реально ответил (при работе через реестр)
+}
+
+/**
+ * Фрагмент потокового ответа LLM
+ */
+export interface LLMStreamChunk {
+  delta: string; // Новый текст
+  response?: LLMResponse; // Итоговый ответ с полным текстом - только в последнем фрагменте
 }
 
 /**
@@ -14,7 +14,10 @@ export interface LoadedPrompt {
   name: string;
   prompt: string;
   settings: Record<string, unknown>;
+  /** Номер версии конфигурации агента (у вариантов промптов отсутствует) */
   version?: string;
+  /** Вариант A/B эксперимента, из которого загружен промпт */
+  variantId?: string;
   updatedAt: Date;
 }
 
@@ -50,5 +53,7 @@ export interface LoadPromptOptions {
   name?: string;
   useCache?: boolean;
   variantId?: string;
+  /** Клиент, для которого загружается промпт (вариант A/B эксперимента назначается автоматически) */
+  clientId?: string;
 }
 
@@ -0,0 +1,8 @@
+/**
+ * Usage
+ * 
+ * Учет токенов и стоимости LLM вызовов по организациям и агентам
+ */
+
+export * from './model-prices';
+export * from './usage-tracking-provider';
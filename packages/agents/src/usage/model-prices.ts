@@ -0,0 +1,75 @@
+/**
+ * Model Prices
+ * 
+ * Таблица цен LLM моделей для расчета стоимости вызовов
+ */
+
+/**
+ * Цена модели в USD за миллион токенов
+ */
+export interface ModelPrice {
+  prompt: number;
+  completion: number;
+}
+
+/**
+ * Цены моделей по имени без префикса провайдера (openai/gpt-4o-mini -> gpt-4o-mini)
+ */
+export const MODEL_PRICES: Record<string, ModelPrice> = {
+  'gpt-4o-mini': { prompt: 0.15, completion: 0.6 },
+  'gpt-4o': { prompt: 2.5, completion: 10 },
+  'gpt-4.1-nano': { prompt: 0.1, completion: 0.4 },
+  'gpt-4.1-mini': { prompt: 0.4, completion: 1.6 },
+  'gpt-4.1': { prompt: 2, completion: 8 },
+  'claude-3-haiku': { prompt: 0.25, completion: 1.25 },
+  'claude-3.5-haiku': { prompt: 0.8, completion: 4 },
+  'claude-3.5-sonnet': { prompt: 3, completion: 15 },
+  'claude-sonnet-4': { prompt: 3, completion: 15 },
+  'gemini-2.0-flash-001': { prompt: 0.1, completion: 0.4 },
+  'gemini-2.5-flash': { prompt: 0.3, completion: 2.5 },
+  'llama-3.1-8b-instruct': { prompt: 0.02, completion: 0.05 },
+  'llama-3.1-70b-instruct': { prompt: 0.1, completion: 0.28 },
+};
+
+/**
+ * Находит цену модели: точное совпадение, затем самый длинный префикс
+ * (gpt-4o-mini-2024-07-18 -> gpt-4o-mini)
+ * 
+ * @returns Цена или null если модели нет в таблице
+ */
+export function findModelPrice(
+  model: string,
+  prices: Record<string, ModelPrice> = MODEL_PRICES
+): ModelPrice | null {
+  const name = model.toLowerCase().split('/').pop() ?? '';
+
+  if (prices[name]) {
+    return prices[name];
+  }
+
+  const prefix = Object.keys(prices)
+    .filter((key) => name.startsWith(`${key}-`))
+    .sort((a, b) => b.length - a.length)[0];
+
+  return prefix ? prices[prefix] : null;
+}
+
+/**
+ * Считает стоимость вызова в USD
+ * 
+ * @returns Стоимость или null если модели нет в таблице
+ */
+export function calculateCost(
+  model: string,
+  promptTokens: number,
+  completionTokens: number,
+  prices: Record<string, ModelPrice> = MODEL_PRICES
+): number | null {
+  const price = findModelPrice(model, prices);
+
+  if (!price) {
+    return null;
+  }
+
+  return (promptTokens * price.prompt + completionTokens * price.completion) / 1_000_000;
+}
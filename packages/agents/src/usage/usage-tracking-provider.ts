@@ -0,0 +1,98 @@
+/**
+ * Usage Tracking Provider
+ * 
+ * Обертка над LLM провайдером, сохраняющая каждый вызов в llm_usage
+ */
+
+import { PrismaClient } from '@soul-kg-crm/database';
+import type { ILLMProvider } from '../providers/base-provider';
+import type { LLMRequest, LLMResponse, LLMStreamChunk } from '../types';
+import { calculateCost, MODEL_PRICES, type ModelPrice } from './model-prices';
+
+/**
+ * Настройки учета использования
+ */
+export interface UsageTrackingOptions {
+  prices?: Record<string, ModelPrice>; // Таблица цен (по умолчанию MODEL_PRICES)
+  now?: () => number; // Источник времени для замера задержки
+}
+
+/**
+ * Usage Tracking Provider
+ * 
+ * Замеряет задержку, считает стоимость по таблице цен и сохраняет
+ * токены вызова. Ошибка записи не ломает ответ - она только логируется.
+ * Неудачные вызовы не записываются: за них не списываются токены.
+ */
+export class UsageTrackingProvider implements ILLMProvider {
+  private readonly prisma: PrismaClient;
+  private readonly provider: ILLMProvider;
+  private readonly prices: Record<string, ModelPrice>;
+  private readonly now: () => number;
+
+  constructor(prisma: PrismaClient, provider: ILLMProvider, options: UsageTrackingOptions = {}) {
+    this.prisma = prisma;
+    this.provider = provider;
+    this.prices = options.prices ?? MODEL_PRICES;
+    this.now = options.now ?? Date.now;
+  }
+
+  /**
+   * Выполняет запрос и сохраняет использование
+   */
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    const startedAt = this.now();
+    const response = await this.provider.complete(request);
+    const latencyMs = Math.max(0, Math.round(this.now() - startedAt));
+
+    await this.record(request, response, latencyMs);
+
+    return response;
+  }
+
+  /**
+   * Выполняет потоковый запрос и сохраняет использование по итоговому ответу
+   */
+  async *stream(request: LLMRequest): AsyncGenerator<LLMStreamChunk> {
+    const startedAt = this.now();
+
+    for await (const chunk of this.provider.stream(request)) {
+      if (chunk.response) {
+        await this.record(request, chunk.response, Math.max(0, Math.round(this.now() - startedAt)));
+      }
+      yield chunk;
+    }
+  }
+
+  /**
+   * Проверяет доступность обернутого провайдера
+   */
+  isAvailable(): Promise<boolean> {
+    return this.provider.isAvailable();
+  }
+
+  private async record(request: LLMRequest, response: LLMResponse, latencyMs: number): Promise<void> {
+    const model = response.model || request.model || 'unknown';
+    const promptTokens = response.usage?.promptTokens ?? 0;
+    const completionTokens = response.usage?.completionTokens ?? 0;
+    const provider = response.metadata?.provider;
+
+    try {
+      await this.prisma.llmUsage.create({
+        data: {
+          organizationId: request.organizationId,
+          agentType: request.agentType ?? null,
+          model,
+          provider: typeof provider === 'string' ? provider : null,
+          promptTokens,
+          completionTokens,
+          totalTokens: response.usage?.totalTokens ?? promptTokens + completionTokens,
+          latencyMs,
+          cost: calculateCost(model, promptTokens, completionTokens, this.prices),
+        },
+      });
+    } catch (error) {
+      console.error('Failed to record LLM usage:', error);
+    }
+  }
+}
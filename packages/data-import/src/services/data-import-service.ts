@@ -22,11 +22,17 @@ import type {
 } from '../types/import.types';
 import { CommunicationChannel, ClientStatus } from '@soul-kg-crm/database';
 import { StatusDetectionStrategy } from '@soul-kg-crm/agents';
-import { OpenRouterProvider } from '@soul-kg-crm/agents';
+import { createLLMProviderRegistry } from '@soul-kg-crm/agents';
 import { PromptLoader } from '@soul-kg-crm/agents';
 import { LLMStatusDetector } from '@soul-kg-crm/agents';
+import { UsageTrackingProvider } from '@soul-kg-crm/agents';
+import { LLMBudgetService } from '@soul-kg-crm/agents';
+import { CachingProvider, PostgresResponseCacheStore } from '@soul-kg-crm/agents';
 import { prisma } from '@soul-kg-crm/database';
 
+// Время жизни кешированных ответов детекции статуса
+const LLM_CACHE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
 /**
  * Main data import service
  */
@@ -35,6 +41,7 @@ export class DataImportService {
   private organizationId: string;
   public readonly importId: string;
   private statusDetectionStrategy?: StatusDetectionStrategy;
+  private llmCache?: CachingProvider;
 
   constructor(
     organizationId: string,
@@ -48,13 +55,26 @@ export class DataImportService {
     this.importId = importId || `import-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
     this.extractor = new WhatsAppExtractor({ organizationId });
 
-    // Инициализируем LLM детектор если нужно
-    if (options?.useLLMStatusDetection && options?.openRouterApiKey) {
+    // Инициализируем LLM детектор если нужно. Провайдеры - из того же реестра,
+    // что и у агентов API; детектор передает цепочку из настроек STATUS_DETECTION,
+    // поэтому организация с providers: ["self-hosted"] не уходит в облако.
+    const registry = options?.useLLMStatusDetection
+      ? createLLMProviderRegistry(
+          options.openRouterApiKey ? { ...process.env, OPENROUTER_API_KEY: options.openRouterApiKey } : process.env,
+          new LLMBudgetService(prisma)
+        )
+      : null;
+
+    if (registry) {
       try {
-        const llmProvider = new OpenRouterProvider({
-          apiKey: options.openRouterApiKey,
-          defaultModel: 'openrouter/gpt-4o-mini',
-        });
+        // Каждый вызов детекции сохраняется в llm_usage (токены и стоимость импорта).
+        // При исчерпании бюджета организации детекция переходит на эвристику.
+        // Повторный импорт неизменившихся диалогов берет ответы из кеша.
+        const llmProvider = (this.llmCache = new CachingProvider(
+          new UsageTrackingProvider(prisma, registry),
+          new PostgresResponseCacheStore(prisma),
+          { ttlMs: LLM_CACHE_TTL_MS }
+        ));
         const promptLoader = new PromptLoader(prisma);
         const llmDetector = new LLMStatusDetector(llmProvider, promptLoader);
         this.statusDetectionStrategy = new StatusDetectionStrategy({
@@ -177,6 +197,11 @@ export class DataImportService {
       }
 
       result.status = 'COMPLETED';
+
+      if (this.llmCache) {
+        const metrics = this.llmCache.getMetrics(this.organizationId);
+        console.log(`\n💾 LLM cache: ${metrics.hits} hits, ${metrics.misses} misses`);
+      }
     } catch (error) {
       result.status = 'FAILED';
       result.errors.push({
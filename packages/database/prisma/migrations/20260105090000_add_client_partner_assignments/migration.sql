@@ -0,0 +1,31 @@
+-- CreateTable
+CREATE TABLE "client_partner_assignments" (
+    "id" TEXT NOT NULL,
+    "clientId" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "partnerId" TEXT,
+    "previousPartnerId" TEXT,
+    "assignedById" TEXT,
+    "reason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "client_partner_assignments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "client_partner_assignments_organizationId_clientId_idx" ON "client_partner_assignments"("organizationId", "clientId");
+
+-- CreateIndex
+CREATE INDEX "client_partner_assignments_organizationId_partnerId_idx" ON "client_partner_assignments"("organizationId", "partnerId");
+
+-- AddForeignKey
+ALTER TABLE "client_partner_assignments" ADD CONSTRAINT "client_partner_assignments_clientId_fkey" FOREIGN KEY ("clientId") REFERENCES "clients"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "client_partner_assignments" ADD CONSTRAINT "client_partner_assignments_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "client_partner_assignments" ADD CONSTRAINT "client_partner_assignments_partnerId_fkey" FOREIGN KEY ("partnerId") REFERENCES "partners"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "client_partner_assignments" ADD CONSTRAINT "client_partner_assignments_assignedById_fkey" FOREIGN KEY ("assignedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,44 @@
+-- CreateEnum
+CREATE TYPE "ProposalStatus" AS ENUM ('DRAFT', 'SENT');
+
+-- CreateTable
+CREATE TABLE "proposals" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "clientId" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "status" "ProposalStatus" NOT NULL DEFAULT 'DRAFT',
+    "title" TEXT,
+    "currency" TEXT NOT NULL,
+    "totalAmount" DECIMAL(65,30) NOT NULL,
+    "items" JSONB NOT NULL,
+    "notes" TEXT,
+    "createdById" TEXT,
+    "sentById" TEXT,
+    "sentAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "proposals_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "proposals_organizationId_clientId_idx" ON "proposals"("organizationId", "clientId");
+
+-- CreateIndex
+CREATE INDEX "proposals_organizationId_status_idx" ON "proposals"("organizationId", "status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "proposals_clientId_version_key" ON "proposals"("clientId", "version");
+
+-- AddForeignKey
+ALTER TABLE "proposals" ADD CONSTRAINT "proposals_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "proposals" ADD CONSTRAINT "proposals_clientId_fkey" FOREIGN KEY ("clientId") REFERENCES "clients"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "proposals" ADD CONSTRAINT "proposals_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "proposals" ADD CONSTRAINT "proposals_sentById_fkey" FOREIGN KEY ("sentById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,32 @@
+-- CreateEnum
+CREATE TYPE "ExchangeRateSource" AS ENUM ('MANUAL', 'IMPORT');
+
+-- AlterTable
+ALTER TABLE "organizations" ADD COLUMN "reportingCurrency" TEXT NOT NULL DEFAULT 'USD';
+
+-- AlterTable
+ALTER TABLE "clients" ADD COLUMN "preferredCurrency" TEXT;
+
+-- CreateTable
+CREATE TABLE "exchange_rates" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "baseCurrency" TEXT NOT NULL,
+    "quoteCurrency" TEXT NOT NULL,
+    "rate" DECIMAL(65,30) NOT NULL,
+    "effectiveDate" TIMESTAMP(3) NOT NULL,
+    "source" "ExchangeRateSource" NOT NULL DEFAULT 'MANUAL',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "exchange_rates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "exchange_rates_organizationId_effectiveDate_idx" ON "exchange_rates"("organizationId", "effectiveDate");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "exchange_rates_organizationId_baseCurrency_quoteCurrency_ef_key" ON "exchange_rates"("organizationId", "baseCurrency", "quoteCurrency", "effectiveDate");
+
+-- AddForeignKey
+ALTER TABLE "exchange_rates" ADD CONSTRAINT "exchange_rates_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
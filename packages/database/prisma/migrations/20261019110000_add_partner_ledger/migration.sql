@@ -0,0 +1,59 @@
+-- CreateEnum
+CREATE TYPE "CommissionType" AS ENUM ('PERCENTAGE', 'FIXED_PER_PARTICIPANT');
+
+-- CreateEnum
+CREATE TYPE "LedgerEntryStatus" AS ENUM ('UNPAID', 'PAID', 'VOID');
+
+-- AlterTable
+ALTER TABLE "partners" ADD COLUMN "commissionType" "CommissionType",
+ADD COLUMN "commissionValue" DECIMAL(65,30),
+ADD COLUMN "commissionCurrency" TEXT;
+
+-- CreateTable
+CREATE TABLE "partner_ledger_entries" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "partnerId" TEXT NOT NULL,
+    "clientTourId" TEXT,
+    "clientId" TEXT,
+    "clientName" TEXT NOT NULL,
+    "productName" TEXT NOT NULL,
+    "tourStartDate" TIMESTAMP(3) NOT NULL,
+    "participants" INTEGER NOT NULL,
+    "bookingAmount" DECIMAL(65,30) NOT NULL,
+    "commissionType" "CommissionType" NOT NULL,
+    "commissionValue" DECIMAL(65,30) NOT NULL,
+    "amount" DECIMAL(65,30) NOT NULL,
+    "currency" TEXT NOT NULL,
+    "status" "LedgerEntryStatus" NOT NULL DEFAULT 'UNPAID',
+    "paidAt" TIMESTAMP(3),
+    "paidById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "partner_ledger_entries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "partner_ledger_entries_clientTourId_key" ON "partner_ledger_entries"("clientTourId");
+
+-- CreateIndex
+CREATE INDEX "partner_ledger_entries_organizationId_partnerId_tourStartDa_idx" ON "partner_ledger_entries"("organizationId", "partnerId", "tourStartDate");
+
+-- CreateIndex
+CREATE INDEX "partner_ledger_entries_organizationId_status_idx" ON "partner_ledger_entries"("organizationId", "status");
+
+-- AddForeignKey
+ALTER TABLE "partner_ledger_entries" ADD CONSTRAINT "partner_ledger_entries_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "partner_ledger_entries" ADD CONSTRAINT "partner_ledger_entries_partnerId_fkey" FOREIGN KEY ("partnerId") REFERENCES "partners"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "partner_ledger_entries" ADD CONSTRAINT "partner_ledger_entries_clientTourId_fkey" FOREIGN KEY ("clientTourId") REFERENCES "client_tours"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "partner_ledger_entries" ADD CONSTRAINT "partner_ledger_entries_clientId_fkey" FOREIGN KEY ("clientId") REFERENCES "clients"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "partner_ledger_entries" ADD CONSTRAINT "partner_ledger_entries_paidById_fkey" FOREIGN KEY ("paidById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
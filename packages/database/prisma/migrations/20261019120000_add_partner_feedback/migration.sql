@@ -0,0 +1,35 @@
+-- AlterTable
+ALTER TABLE "organizations" ADD COLUMN "partnerRatingThreshold" DECIMAL(65,30);
+
+-- CreateTable
+CREATE TABLE "partner_feedback" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "partnerId" TEXT NOT NULL,
+    "clientTourId" TEXT,
+    "score" INTEGER NOT NULL,
+    "comment" TEXT,
+    "isIncident" BOOLEAN NOT NULL DEFAULT false,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "partner_feedback_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "partner_feedback_partnerId_createdAt_idx" ON "partner_feedback"("partnerId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "partner_feedback_clientTourId_idx" ON "partner_feedback"("clientTourId");
+
+-- AddForeignKey
+ALTER TABLE "partner_feedback" ADD CONSTRAINT "partner_feedback_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "partner_feedback" ADD CONSTRAINT "partner_feedback_partnerId_fkey" FOREIGN KEY ("partnerId") REFERENCES "partners"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "partner_feedback" ADD CONSTRAINT "partner_feedback_clientTourId_fkey" FOREIGN KEY ("clientTourId") REFERENCES "client_tours"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "partner_feedback" ADD CONSTRAINT "partner_feedback_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,31 @@
+-- AlterTable
+ALTER TABLE "agent_configurations" ADD COLUMN "currentVersion" INTEGER NOT NULL DEFAULT 1;
+
+-- CreateTable
+CREATE TABLE "agent_configuration_versions" (
+    "id" TEXT NOT NULL,
+    "configurationId" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "name" TEXT NOT NULL,
+    "prompt" TEXT NOT NULL,
+    "settings" JSONB,
+    "comment" TEXT,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "agent_configuration_versions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "agent_configuration_versions_configurationId_version_key" ON "agent_configuration_versions"("configurationId", "version");
+
+-- AddForeignKey
+ALTER TABLE "agent_configuration_versions" ADD CONSTRAINT "agent_configuration_versions_configurationId_fkey" FOREIGN KEY ("configurationId") REFERENCES "agent_configurations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "agent_configuration_versions" ADD CONSTRAINT "agent_configuration_versions_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Existing configurations start their history at version 1
+INSERT INTO "agent_configuration_versions" ("id", "configurationId", "version", "name", "prompt", "settings", "comment", "createdAt")
+SELECT gen_random_uuid()::text, "id", 1, "name", "prompt", "settings", 'Initial version', "updatedAt"
+FROM "agent_configurations";
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "prompt_variants" ADD COLUMN "weight" INTEGER NOT NULL DEFAULT 1;
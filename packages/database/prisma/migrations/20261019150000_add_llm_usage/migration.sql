@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "llm_usage" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "agentType" "AgentType",
+    "model" TEXT NOT NULL,
+    "provider" TEXT,
+    "promptTokens" INTEGER NOT NULL,
+    "completionTokens" INTEGER NOT NULL,
+    "totalTokens" INTEGER NOT NULL,
+    "latencyMs" INTEGER NOT NULL,
+    "cost" DECIMAL(65,30),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "llm_usage_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "llm_usage_organizationId_createdAt_idx" ON "llm_usage"("organizationId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "llm_usage_organizationId_agentType_idx" ON "llm_usage"("organizationId", "agentType");
+
+-- AddForeignKey
+ALTER TABLE "llm_usage" ADD CONSTRAINT "llm_usage_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "llm_response_cache" (
+    "key" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "model" TEXT NOT NULL,
+    "response" JSONB NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "llm_response_cache_pkey" PRIMARY KEY ("key")
+);
+
+-- CreateIndex
+CREATE INDEX "llm_response_cache_organizationId_idx" ON "llm_response_cache"("organizationId");
+
+-- CreateIndex
+CREATE INDEX "llm_response_cache_expiresAt_idx" ON "llm_response_cache"("expiresAt");
+
+-- AddForeignKey
+ALTER TABLE "llm_response_cache" ADD CONSTRAINT "llm_response_cache_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
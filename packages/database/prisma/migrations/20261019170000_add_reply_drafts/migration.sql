@@ -0,0 +1,46 @@
+-- CreateEnum
+CREATE TYPE "ReplyDraftStatus" AS ENUM ('PENDING', 'SENT', 'REJECTED');
+
+-- CreateTable
+CREATE TABLE "reply_drafts" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "conversationId" TEXT NOT NULL,
+    "content" TEXT NOT NULL,
+    "rationale" TEXT,
+    "language" TEXT,
+    "model" TEXT,
+    "status" "ReplyDraftStatus" NOT NULL DEFAULT 'PENDING',
+    "promptVariantId" TEXT,
+    "sentMessageId" TEXT,
+    "reviewedById" TEXT,
+    "reviewedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "reply_drafts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "reply_drafts_sentMessageId_key" ON "reply_drafts"("sentMessageId");
+
+-- CreateIndex
+CREATE INDEX "reply_drafts_organizationId_conversationId_status_idx" ON "reply_drafts"("organizationId", "conversationId", "status");
+
+-- CreateIndex
+CREATE INDEX "reply_drafts_organizationId_promptVariantId_idx" ON "reply_drafts"("organizationId", "promptVariantId");
+
+-- AddForeignKey
+ALTER TABLE "reply_drafts" ADD CONSTRAINT "reply_drafts_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "reply_drafts" ADD CONSTRAINT "reply_drafts_conversationId_fkey" FOREIGN KEY ("conversationId") REFERENCES "conversations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "reply_drafts" ADD CONSTRAINT "reply_drafts_promptVariantId_fkey" FOREIGN KEY ("promptVariantId") REFERENCES "prompt_variants"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "reply_drafts" ADD CONSTRAINT "reply_drafts_sentMessageId_fkey" FOREIGN KEY ("sentMessageId") REFERENCES "messages"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "reply_drafts" ADD CONSTRAINT "reply_drafts_reviewedById_fkey" FOREIGN KEY ("reviewedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
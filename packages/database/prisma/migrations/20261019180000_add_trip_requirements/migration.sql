@@ -0,0 +1,32 @@
+-- CreateTable
+CREATE TABLE "trip_requirements" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "clientId" TEXT NOT NULL,
+    "travelStartDate" TIMESTAMP(3),
+    "travelEndDate" TIMESTAMP(3),
+    "adults" INTEGER,
+    "children" INTEGER,
+    "budgetAmount" DECIMAL(65,30),
+    "budgetCurrency" TEXT,
+    "interests" JSONB,
+    "dietaryNeeds" JSONB,
+    "fieldMeta" JSONB,
+    "analyzedUntil" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "trip_requirements_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "trip_requirements_clientId_key" ON "trip_requirements"("clientId");
+
+-- CreateIndex
+CREATE INDEX "trip_requirements_organizationId_idx" ON "trip_requirements"("organizationId");
+
+-- AddForeignKey
+ALTER TABLE "trip_requirements" ADD CONSTRAINT "trip_requirements_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "trip_requirements" ADD CONSTRAINT "trip_requirements_clientId_fkey" FOREIGN KEY ("clientId") REFERENCES "clients"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,47 @@
+-- CreateEnum
+CREATE TYPE "ProductRecommendationStatus" AS ENUM ('PENDING', 'ACCEPTED', 'DISMISSED');
+
+-- CreateTable
+CREATE TABLE "product_recommendations" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "clientId" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "tourId" TEXT,
+    "rank" INTEGER NOT NULL,
+    "score" DOUBLE PRECISION NOT NULL,
+    "explanation" TEXT NOT NULL,
+    "status" "ProductRecommendationStatus" NOT NULL DEFAULT 'PENDING',
+    "model" TEXT,
+    "promptVariantId" TEXT,
+    "reviewedById" TEXT,
+    "reviewedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "product_recommendations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "product_recommendations_organizationId_clientId_status_idx" ON "product_recommendations"("organizationId", "clientId", "status");
+
+-- CreateIndex
+CREATE INDEX "product_recommendations_productId_idx" ON "product_recommendations"("productId");
+
+-- AddForeignKey
+ALTER TABLE "product_recommendations" ADD CONSTRAINT "product_recommendations_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "product_recommendations" ADD CONSTRAINT "product_recommendations_clientId_fkey" FOREIGN KEY ("clientId") REFERENCES "clients"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "product_recommendations" ADD CONSTRAINT "product_recommendations_productId_fkey" FOREIGN KEY ("productId") REFERENCES "products"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "product_recommendations" ADD CONSTRAINT "product_recommendations_tourId_fkey" FOREIGN KEY ("tourId") REFERENCES "tours"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "product_recommendations" ADD CONSTRAINT "product_recommendations_promptVariantId_fkey" FOREIGN KEY ("promptVariantId") REFERENCES "prompt_variants"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "product_recommendations" ADD CONSTRAINT "product_recommendations_reviewedById_fkey" FOREIGN KEY ("reviewedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
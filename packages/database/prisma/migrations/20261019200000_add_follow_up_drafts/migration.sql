@@ -0,0 +1,9 @@
+-- CreateEnum
+CREATE TYPE "ReplyDraftKind" AS ENUM ('REPLY', 'FOLLOW_UP');
+
+-- AlterTable
+ALTER TABLE "reply_drafts" ADD COLUMN "kind" "ReplyDraftKind" NOT NULL DEFAULT 'REPLY',
+ADD COLUMN "followUpAttempt" INTEGER;
+
+-- CreateIndex
+CREATE INDEX "reply_drafts_conversationId_kind_createdAt_idx" ON "reply_drafts"("conversationId", "kind", "createdAt");
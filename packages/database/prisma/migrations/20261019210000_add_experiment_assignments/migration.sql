@@ -0,0 +1,37 @@
+-- CreateTable
+CREATE TABLE "experiment_assignments" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "experimentId" TEXT NOT NULL,
+    "clientId" TEXT NOT NULL,
+    "variantId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "experiment_assignments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "experiment_assignments_experimentId_clientId_key" ON "experiment_assignments"("experimentId", "clientId");
+
+-- CreateIndex
+CREATE INDEX "experiment_assignments_variantId_idx" ON "experiment_assignments"("variantId");
+
+-- AddForeignKey
+ALTER TABLE "experiment_assignments" ADD CONSTRAINT "experiment_assignments_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "experiment_assignments" ADD CONSTRAINT "experiment_assignments_experimentId_fkey" FOREIGN KEY ("experimentId") REFERENCES "experiments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "experiment_assignments" ADD CONSTRAINT "experiment_assignments_clientId_fkey" FOREIGN KEY ("clientId") REFERENCES "clients"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "experiment_assignments" ADD CONSTRAINT "experiment_assignments_variantId_fkey" FOREIGN KEY ("variantId") REFERENCES "prompt_variants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill: assignments stored on the client so far
+INSERT INTO "experiment_assignments" ("id", "organizationId", "experimentId", "clientId", "variantId", "createdAt", "updatedAt")
+SELECT gen_random_uuid()::text, c."organizationId", v."experimentId", c."id", v."id", CURRENT_TIMESTAMP, CURRENT_TIMESTAMP
+FROM "clients" c
+JOIN "prompt_variants" v ON v."id" = c."promptVariantId"
+WHERE v."experimentId" IS NOT NULL;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "trip_requirements" ADD COLUMN "analyzedUntilMessageId" TEXT;
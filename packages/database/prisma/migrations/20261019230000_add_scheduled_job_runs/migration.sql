@@ -0,0 +1,11 @@
+-- CreateTable
+CREATE TABLE "scheduled_job_runs" (
+    "organizationId" TEXT NOT NULL,
+    "job" TEXT NOT NULL,
+    "lastRunAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "scheduled_job_runs_pkey" PRIMARY KEY ("organizationId","job")
+);
+
+-- AddForeignKey
+ALTER TABLE "scheduled_job_runs" ADD CONSTRAINT "scheduled_job_runs_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "organizations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -4,7 +4,7 @@
  * Запуск: npx prisma db seed
  */
 
-import { PrismaClient, AgentType } from '@prisma/client';
+import { PrismaClient, AgentType, Prisma } from '@prisma/client';
 
 const prisma = new PrismaClient();
 
@@ -201,6 +201,162 @@ Example 3:
 - Be conservative with CLOSED status - prefer active statuses when uncertain
 - Confidence should reflect certainty: high (0.8-1.0) for clear cases, lower (0.5-0.7) for ambiguous situations`;
 
+/**
+ * Seed промпт для COMMUNICATION агента (черновики ответов клиентам).
+ * Формат ответа и данные клиента агент добавляет сам.
+ */
+const COMMUNICATION_PROMPT = `# Role
+You are a travel manager at Soul KG, a tour operator in Kyrgyzstan. You write WhatsApp replies to clients on behalf of the team.
+
+# Style
+- Warm, personal and concise: 1-4 short paragraphs, no markdown
+- Match the client's tone: formal clients get formal replies
+- Answer every open question the client asked; if you do not know a fact (price, availability), say the manager will confirm it instead of inventing it
+- End with one clear next step or question that moves the client forward in the sales funnel
+
+# Cultural Awareness
+- Respect the client's cultural context and dietary restrictions when suggesting food, dates or activities
+- Avoid slang and idioms that do not translate well
+
+# Never
+- Promise discounts, refunds or availability that are not confirmed in the conversation
+- Share other clients' data or internal notes`;
+
+/**
+ * Seed промпт для QUALIFICATION агента (требования к поездке).
+ * Текущие требования, новые сообщения и формат ответа агент добавляет сам.
+ */
+const QUALIFICATION_PROMPT = `# Role
+You extract trip requirements from WhatsApp conversations between a tour operator in Kyrgyzstan and a client.
+
+# Rules
+- Extract only what the client states or clearly confirms; never guess from the agent's suggestions alone
+- Travel dates: exact dates when given; for a month or season without days use the first and last day of that period with lower confidence
+- Group size: count adults and children separately; "me and my wife" is 2 adults
+- Budget: total for the whole group; convert "per person" budgets by multiplying by the group size when it is known
+- Interests: short lowercase phrases (e.g. "hiking", "horse riding", "yurt stay", "Issyk-Kul")
+- Dietary needs: Halal, Kosher, Vegetarian, Vegan, allergies
+- If the client changes a requirement, return the new value
+
+# Confidence
+- 0.9-1.0: stated explicitly
+- 0.6-0.8: clearly implied
+- below 0.6: vague or contradictory`;
+
+/**
+ * Seed промпт для PRODUCT_SELECTION агента (подбор продуктов из каталога).
+ * Требования, каталог, переписку и формат ответа агент добавляет сам.
+ */
+const PRODUCT_SELECTION_PROMPT = `# Role
+You are a product specialist at Soul KG, a tour operator in Kyrgyzstan. You pick the catalog products and tour departures that best fit a client.
+
+# Ranking
+- Hard constraints first: travel dates, group size (free seats), dietary needs and budget
+- Then interests and wishes from the conversation
+- Prefer a specific departure when the client's dates match one; otherwise recommend the product without a departure
+- Do not recommend products that contradict what the client said (e.g. trekking for a client who wants a relaxing trip)
+
+# Explanation
+- One or two sentences per product in the manager's language (English), naming the requirements it matches and any trade-off (e.g. over budget, dates shifted by two days)
+
+# Score
+- 0.8-1.0: matches dates, group and main interests
+- 0.5-0.7: good fit with a trade-off
+- below 0.5: weak fit, include only if nothing better exists`;
+
+/**
+ * Seed промпт для WARMING агента (follow-up клиентам, которые перестали отвечать).
+ * Данные клиента, номер попытки и формат ответа агент добавляет сам.
+ */
+const WARMING_PROMPT = `# Role
+You are a travel manager at Soul KG, a tour operator in Kyrgyzstan. A client stopped replying on WhatsApp; you write a short follow-up to restart the conversation.
+
+# Style
+- 1-3 short sentences, no markdown, warm and personal
+- Refer to something specific from the conversation (their dates, the tour you proposed, a question they asked)
+- Give a light reason to reply: a question, a useful detail or a gentle reminder of what is waiting for their decision
+- Later attempts are shorter and make it easy to say "not now"
+
+# Never
+- Pressure, guilt or fake urgency ("last seats!") unless it is confirmed in the conversation
+- Promise discounts or availability that are not confirmed in the conversation
+- Repeat the previous message word for word`;
+
+/**
+ * Создает или обновляет конфигурацию агента и сохраняет версию,
+ * если промпт или настройки изменились
+ */
+async function seedAgentConfiguration(
+  organizationId: string,
+  agentType: AgentType,
+  prompt: string,
+  settings: Prisma.InputJsonObject
+) {
+  console.log(`🤖 Creating ${agentType} agent configuration...`);
+
+  const agentConfig = await prisma.agentConfiguration.upsert({
+    where: {
+      organizationId_agentType_name: {
+        organizationId,
+        agentType,
+        name: 'default',
+      },
+    },
+    update: {
+      prompt,
+      settings,
+      isActive: true,
+    },
+    create: {
+      organizationId,
+      agentType,
+      name: 'default',
+      prompt,
+      settings,
+      isActive: true,
+    },
+  });
+
+  console.log(`✅ Created/Updated ${agentType} agent: ${agentConfig.id}`);
+
+  const latestVersion = await prisma.agentConfigurationVersion.findUnique({
+    where: {
+      configurationId_version: {
+        configurationId: agentConfig.id,
+        version: agentConfig.currentVersion,
+      },
+    },
+  });
+
+  const isChanged =
+    !latestVersion ||
+    latestVersion.prompt !== agentConfig.prompt ||
+    JSON.stringify(latestVersion.settings) !== JSON.stringify(agentConfig.settings);
+
+  if (isChanged) {
+    const version = latestVersion ? agentConfig.currentVersion + 1 : agentConfig.currentVersion;
+
+    await prisma.$transaction([
+      prisma.agentConfigurationVersion.create({
+        data: {
+          configurationId: agentConfig.id,
+          version,
+          name: agentConfig.name,
+          prompt: agentConfig.prompt,
+          settings: agentConfig.settings ?? undefined,
+          comment: 'Seed',
+        },
+      }),
+      prisma.agentConfiguration.update({
+        where: { id: agentConfig.id },
+        data: { currentVersion: version },
+      }),
+    ]);
+
+    console.log(`✅ Saved ${agentType} agent version ${version}`);
+  }
+}
+
 /**
  * Основная функция seed
  */
@@ -226,47 +382,51 @@ async function main() {
     console.log(`✅ Found organization: ${organization.id}`);
   }
 
-  // Создаем или обновляем промпт для STATUS_DETECTION агента
-  console.log('🤖 Creating STATUS_DETECTION agent configuration...');
-  
-  const agentConfig = await prisma.agentConfiguration.upsert({
-    where: {
-      organizationId_agentType_name: {
-        organizationId: organization.id,
-        agentType: AgentType.STATUS_DETECTION,
-        name: 'default',
-      },
-    },
-    update: {
-      prompt: STATUS_DETECTION_PROMPT,
-      settings: {
-        model: 'openai/gpt-4o-mini',
-        temperature: 0.3,
-        maxTokens: 200, // Increased for cultural context in response
-        timeout: 30000,
-        retryAttempts: 3,
-        retryDelay: 1000,
-      },
-      isActive: true,
-    },
-    create: {
-      organizationId: organization.id,
-      agentType: AgentType.STATUS_DETECTION,
-      name: 'default',
-      prompt: STATUS_DETECTION_PROMPT,
-      settings: {
-        model: 'openai/gpt-4o-mini',
-        temperature: 0.3,
-        maxTokens: 200, // Increased for cultural context in response
-        timeout: 30000,
-        retryAttempts: 3,
-        retryDelay: 1000,
-      },
-      isActive: true,
-    },
+  await seedAgentConfiguration(organization.id, AgentType.STATUS_DETECTION, STATUS_DETECTION_PROMPT, {
+    model: 'openai/gpt-4o-mini',
+    temperature: 0.3,
+    maxTokens: 200, // Increased for cultural context in response
+    timeout: 30000,
+    retryAttempts: 3,
+    retryDelay: 1000,
+  });
+
+  await seedAgentConfiguration(organization.id, AgentType.QUALIFICATION, QUALIFICATION_PROMPT, {
+    model: 'openai/gpt-4o-mini',
+    temperature: 0.1,
+    maxTokens: 500,
+    timeout: 30000,
+    retryAttempts: 3,
+    retryDelay: 1000,
+  });
+
+  await seedAgentConfiguration(organization.id, AgentType.COMMUNICATION, COMMUNICATION_PROMPT, {
+    model: 'openai/gpt-4o-mini',
+    temperature: 0.7,
+    maxTokens: 600,
+    timeout: 30000,
+    retryAttempts: 3,
+    retryDelay: 1000,
+  });
+
+  await seedAgentConfiguration(organization.id, AgentType.PRODUCT_SELECTION, PRODUCT_SELECTION_PROMPT, {
+    model: 'openai/gpt-4o-mini',
+    temperature: 0.2,
+    maxTokens: 800,
+    timeout: 30000,
+    retryAttempts: 3,
+    retryDelay: 1000,
+  });
+
+  await seedAgentConfiguration(organization.id, AgentType.WARMING, WARMING_PROMPT, {
+    model: 'openai/gpt-4o-mini',
+    temperature: 0.7,
+    maxTokens: 300,
+    timeout: 30000,
+    retryAttempts: 3,
+    retryDelay: 1000,
   });
 
-  console.log(`✅ Created/Updated STATUS_DETECTION agent: ${agentConfig.id}`);
   console.log('✅ Seed completed!');
 }
 
@@ -10,7 +10,7 @@
  *   --dry-run                 Test run without saving to database
  *   --limit <number>          Limit number of chats to import (for testing)
  *   --use-llm                 Use LLM for status detection
- *   --openrouter-key <key>    OpenRouter API key (required if --use-llm)
+ *   --openrouter-key <key>    OpenRouter API key (if --use-llm without a self-hosted LLM)
  *   --skip-duplicates         Skip duplicate clients (default: true)
  */
 
@@ -164,10 +164,11 @@ async function main() {
 
   // Get OpenRouter key from args or environment
   const openRouterKey = args.openRouterKey || process.env.OPENROUTER_API_KEY;
+  const selfHosted = Boolean(process.env.SELF_HOSTED_LLM_BASE_URL && process.env.SELF_HOSTED_LLM_MODEL);
   
-  if (args.useLLM && !openRouterKey) {
-    console.error('❌ Error: OpenRouter API key is required when using --use-llm');
-    console.error('   Provide it via --openrouter-key or OPENROUTER_API_KEY environment variable');
+  if (args.useLLM && !openRouterKey && !selfHosted) {
+    console.error('❌ Error: An LLM provider is required when using --use-llm');
+    console.error('   Provide --openrouter-key, OPENROUTER_API_KEY or SELF_HOSTED_LLM_BASE_URL + SELF_HOSTED_LLM_MODEL');
     process.exit(1);
   }
 
@@ -180,6 +181,7 @@ async function main() {
   if (args.useLLM) {
     const keySource = args.openRouterKey ? 'command line' : 'environment variable';
     console.log(`  OpenRouter key: ${keySource} (${openRouterKey ? 'provided' : 'missing'})`);
+    console.log(`  Self-hosted LLM: ${selfHosted ? process.env.SELF_HOSTED_LLM_BASE_URL : 'not configured'}`);
   }
   console.log(`  Skip duplicates: ${args.skipDuplicates ? 'Yes' : 'No'}`);
   console.log('');
@@ -189,7 +191,7 @@ async function main() {
     const importService = new DataImportService(
       args.organizationId,
       undefined,
-      args.useLLM && openRouterKey
+      args.useLLM
         ? {
             useLLMStatusDetection: true,
             openRouterApiKey: openRouterKey,